@@ -4,17 +4,25 @@ import { Header } from './components/Header';
 import { Footer } from './components/Footer';
 import { Loader } from './components/Loader';
 import * as youtubeService from './services/youtubeService';
+import { applyDueTitleRotations } from './services/titleExperimentRunner';
 import type { YouTubeVideo } from './types';
 import { YouTubeLogin } from './components/YouTubeLogin';
 import { VideoSelector } from './components/VideoSelector';
 import { VideoDetailPanel } from './components/VideoDetailPanel';
 import { QuotaDebugger } from './components/QuotaDebugger';
+import { AIUsagePanel } from './components/AIUsagePanel';
+import { TaskHistoryPanel } from './components/TaskHistoryPanel';
+import type { OpenArticlePayload } from './components/TaskHistoryPanel';
 import { ArticleWorkspace } from './components/ArticleWorkspace';
+import { BatchMetadataReview } from './components/BatchMetadataReview';
 import { ChannelAnalytics } from './components/ChannelAnalytics';
 import { GITHUB_GIST_ID } from './config';
 
 type ActiveTab = 'videos' | 'articles' | 'channel-analytics';
 
+// 標題 A/B 實驗的輪替檢查間隔
+const TITLE_ROTATION_CHECK_INTERVAL_MS = 10 * 60 * 1000;
+
 export default function App() {
   const [isInitializing, setIsInitializing] = useState(true);
   const [isLoggedIn, setIsLoggedIn] = useState(false);
@@ -31,6 +39,8 @@ export default function App() {
   const [isFilterPanelOpen, setIsFilterPanelOpen] = useState(false);
   const [viewportWidth, setViewportWidth] = useState<number>(() => (typeof window !== 'undefined' ? window.innerWidth : 0));
   const [portalReady, setPortalReady] = useState(false);
+  const [openedArticle, setOpenedArticle] = useState<OpenArticlePayload | null>(null);
+  const [batchVideos, setBatchVideos] = useState<YouTubeVideo[] | null>(null);
   const isDesktop = viewportWidth >= 1024;
   const showDetailSidebar = viewportWidth >= 1280;
   const useInlineDetail = !showDetailSidebar;
@@ -395,6 +405,12 @@ export default function App() {
     }
   };
 
+  // 從「我的任務」開啟已完成的文章
+  const handleOpenArticleFromTask = (payload: OpenArticlePayload) => {
+    setOpenedArticle(payload);
+    setActiveTab('articles');
+  };
+
   // 更新影片列表中的特定影片資料
   const handleVideoUpdate = (updatedVideo: Partial<YouTubeVideo> & { id: string }) => {
     setVideos(prevVideos =>
@@ -406,6 +422,20 @@ export default function App() {
     );
   };
 
+  // 登入期間定期套用到期的標題輪替，並同步影片列表中的標題
+  useEffect(() => {
+    if (!isLoggedIn) return;
+
+    const runRotations = async () => {
+      const applied = await applyDueTitleRotations();
+      applied.forEach(rotation => handleVideoUpdate({ id: rotation.videoId, title: rotation.title }));
+    };
+
+    runRotations();
+    const timer = window.setInterval(runRotations, TITLE_ROTATION_CHECK_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [isLoggedIn]);
+
   const selectedVideo = selectedVideoId
     ? videos.find(video => video.id === selectedVideoId) ?? null
     : null;
@@ -620,7 +650,7 @@ export default function App() {
     return (
       <>
         <div style={{ display: activeTab === 'articles' ? 'block' : 'none' }}>
-          <ArticleWorkspace />
+          <ArticleWorkspace openedArticle={openedArticle} />
         </div>
         <div style={{ display: activeTab === 'channel-analytics' ? 'block' : 'none' }}>
           <ChannelAnalytics onWriteArticle={() => setActiveTab('articles')} />
@@ -675,6 +705,7 @@ export default function App() {
               selectedVideoId={selectedVideoId}
               onSelectVideo={handleVideoSelect}
               showInlineDetail={useInlineDetail}
+              onBatchGenerate={setBatchVideos}
             />
           </section>
 
@@ -741,6 +772,15 @@ export default function App() {
         </div>
       </main>
       <Footer />
+      {isLoggedIn && <TaskHistoryPanel onOpenArticle={handleOpenArticleFromTask} />}
+      {batchVideos && (
+        <BatchMetadataReview
+          videos={batchVideos}
+          onClose={() => setBatchVideos(null)}
+          onVideoUpdate={handleVideoUpdate}
+        />
+      )}
+      {isLoggedIn && <AIUsagePanel />}
       <QuotaDebugger />
     </div>
   );
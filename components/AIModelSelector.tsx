@@ -1,5 +1,5 @@
 import React from 'react';
-import { Brain, Zap, Target, Sparkles } from 'lucide-react';
+import { Brain, Zap, Target, Sparkles, Server } from 'lucide-react';
 
 export interface AIModel {
   id: string;
@@ -11,6 +11,7 @@ export interface AIModel {
   qualityRating: number; // 1-5
   bestFor: string[];
   useOpenRouter: boolean;
+  isLocal?: boolean; // 透過 LOCAL_AI_BASE_URL 連接的 OpenAI 相容端點
 }
 
 const modelIcons: Record<string, React.ComponentType<any>> = {
@@ -74,7 +75,7 @@ export function AIModelSelector({
 
         <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
           {models.map((model) => {
-            const Icon = modelIcons[model.id] || Brain;
+            const Icon = modelIcons[model.id] || (model.isLocal ? Server : Brain);
             const isSelected = selectedModel === model.id;
 
             return (
@@ -111,6 +112,11 @@ export function AIModelSelector({
                             via OpenRouter
                           </span>
                         )}
+                        {model.isLocal && (
+                          <span className="ml-1 text-xs px-1.5 py-0.5 bg-emerald-100 text-emerald-700 rounded">
+                            本機
+                          </span>
+                        )}
                       </p>
                     </div>
                   </div>
@@ -0,0 +1,369 @@
+import { useCallback, useEffect, useState } from 'react';
+import * as videoApiService from '../services/videoApiService';
+import type { AIBudgetList, AIBudgetStatus, AIUsageSummary, AIUsageTotals } from '../services/videoApiService';
+
+const FEATURE_LABELS: Record<string, string> = {
+  'video-metadata': '中繼資料生成',
+  article: '文章生成',
+  'article-screenshots': '重新截圖',
+  'channel-analysis': '頻道分析',
+  'keyword-analysis': '關鍵字分析',
+  'ai-chat': 'AI 對話',
+};
+
+const formatUsd = (value: number) => `$${value.toFixed(value >= 1 ? 2 : 4)}`;
+
+const formatTokens = (value: number) =>
+  value >= 1_000_000 ? `${(value / 1_000_000).toFixed(2)}M` : value >= 1000 ? `${(value / 1000).toFixed(1)}K` : String(value);
+
+const formatTimestamp = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('zh-TW', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const parseBudgetInput = (value: string) => (value.trim() === '' ? null : Number(value));
+
+function BudgetBar({ label, spent, limit }: { label: string; spent: number; limit: number | null }) {
+  const ratio = limit ? Math.min(spent / limit, 1) : 0;
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between text-xs text-neutral-600">
+        <span>{label}</span>
+        <span>
+          {formatUsd(spent)} / {limit ? formatUsd(limit) : '不限制'}
+        </span>
+      </div>
+      {limit ? (
+        <div className="h-2 overflow-hidden rounded-full bg-neutral-100">
+          <div
+            className={`h-full ${ratio >= 1 ? 'bg-red-500' : ratio >= 0.8 ? 'bg-amber-500' : 'bg-emerald-500'}`}
+            style={{ width: `${ratio * 100}%` }}
+          />
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+function TotalsCard({ title, totals }: { title: string; totals: AIUsageTotals }) {
+  return (
+    <div className="rounded-xl border border-neutral-200 p-4">
+      <h3 className="text-xs font-medium uppercase tracking-wide text-neutral-500">{title}</h3>
+      <p className="mt-1 text-2xl font-semibold text-neutral-900">{formatUsd(totals.costUsd)}</p>
+      <p className="mt-1 text-xs text-neutral-500">
+        {totals.calls} 次呼叫 · {formatTokens(totals.totalTokens)} tokens
+        {totals.unpricedCalls > 0 && `（${totals.unpricedCalls} 次無單價未計費）`}
+      </p>
+    </div>
+  );
+}
+
+function BreakdownList({
+  title,
+  groups,
+  formatKey = (key) => key,
+}: {
+  title: string;
+  groups: Record<string, AIUsageTotals>;
+  formatKey?: (key: string) => string;
+}) {
+  const rows = Object.entries(groups).sort(([, a], [, b]) => b.costUsd - a.costUsd || b.totalTokens - a.totalTokens);
+  return (
+    <div>
+      <h3 className="mb-1 text-xs font-medium uppercase tracking-wide text-neutral-500">{title}</h3>
+      <ul className="space-y-1">
+        {rows.map(([key, totals]) => (
+          <li key={key} className="flex justify-between gap-2 rounded-lg bg-white px-3 py-2 text-xs shadow-sm ring-1 ring-neutral-100">
+            <span className="truncate text-neutral-700">{formatKey(key)}</span>
+            <span className="shrink-0 text-neutral-500">
+              {formatTokens(totals.totalTokens)} · <span className="font-semibold text-neutral-800">{formatUsd(totals.costUsd)}</span>
+            </span>
+          </li>
+        ))}
+        {rows.length === 0 && <li className="rounded-lg bg-neutral-50 px-3 py-2 text-xs text-neutral-500">尚未有紀錄</li>}
+      </ul>
+    </div>
+  );
+}
+
+export function AIUsagePanel() {
+  const [isOpen, setIsOpen] = useState(false);
+  const [scope, setScope] = useState<'all' | 'me'>('me');
+  const [summary, setSummary] = useState<AIUsageSummary | null>(null);
+  const [budget, setBudget] = useState<AIBudgetStatus | null>(null);
+  const [budgets, setBudgets] = useState<AIBudgetList | null>(null);
+  const [isFetching, setIsFetching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [budgetForm, setBudgetForm] = useState({ userId: '', dailyUsd: '', monthlyUsd: '' });
+  const [isSavingBudget, setIsSavingBudget] = useState(false);
+
+  const refresh = useCallback(async () => {
+    setIsFetching(true);
+    setError(null);
+    try {
+      const [usage, budgetList] = await Promise.all([
+        videoApiService.getAIUsageSummary(scope),
+        videoApiService.getAIBudgets(),
+      ]);
+      setSummary(usage.summary);
+      setBudget(usage.budget);
+      setBudgets(budgetList);
+    } catch (err: any) {
+      console.error('[AIUsage] Failed to load usage:', err);
+      setError(`載入 AI 用量失敗：${err.message}`);
+    } finally {
+      setIsFetching(false);
+    }
+  }, [scope]);
+
+  useEffect(() => {
+    if (isOpen) {
+      refresh();
+    }
+  }, [isOpen, refresh]);
+
+  const handleSaveBudget = async (reset = false) => {
+    const userId = budgetForm.userId.trim();
+    if (!userId) return;
+    setIsSavingBudget(true);
+    setError(null);
+    try {
+      await videoApiService.setAIBudget(
+        userId,
+        reset
+          ? { reset: true }
+          : { dailyUsd: parseBudgetInput(budgetForm.dailyUsd), monthlyUsd: parseBudgetInput(budgetForm.monthlyUsd) }
+      );
+      setBudgetForm({ userId: '', dailyUsd: '', monthlyUsd: '' });
+      await refresh();
+    } catch (err: any) {
+      console.error('[AIUsage] Failed to update budget:', err);
+      setError(`更新預算失敗：${err.message}`);
+    } finally {
+      setIsSavingBudget(false);
+    }
+  };
+
+  const maxDailyCost = Math.max(...(summary?.daily.map((day) => day.costUsd) ?? [0]), 0);
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setIsOpen(true)}
+        className="fixed bottom-6 right-28 z-[900] inline-flex h-12 items-center justify-center rounded-full bg-emerald-600 px-5 text-sm font-semibold text-white shadow-lg transition hover:bg-emerald-700 focus:outline-none focus-visible:ring-2 focus-visible:ring-emerald-500 focus-visible:ring-offset-2"
+        title="檢視 AI token 用量與費用"
+      >
+        AI 用量
+      </button>
+      {!isOpen ? null : (
+        <div className="fixed inset-0 z-[1000] flex items-center justify-center bg-black/60 backdrop-blur-sm">
+          <div className="flex max-h-[85vh] w-[min(960px,90vw)] flex-col overflow-hidden rounded-2xl border border-neutral-200 bg-white shadow-2xl">
+            <header className="flex items-center justify-between border-b border-neutral-200 bg-neutral-50 px-5 py-3">
+              <h2 className="text-lg font-semibold text-neutral-900">AI 用量與費用</h2>
+              <div className="flex items-center gap-2">
+                {budgets?.canManage && (
+                  <div className="flex rounded-full border border-neutral-300 p-0.5 text-sm">
+                    {(['me', 'all'] as const).map((value) => (
+                      <button
+                        key={value}
+                        type="button"
+                        onClick={() => setScope(value)}
+                        className={`rounded-full px-3 py-0.5 font-medium transition ${
+                          scope === value ? 'bg-neutral-900 text-white' : 'text-neutral-600 hover:bg-neutral-100'
+                        }`}
+                      >
+                        {value === 'all' ? '全部' : '我的'}
+                      </button>
+                    ))}
+                  </div>
+                )}
+                <button
+                  type="button"
+                  onClick={refresh}
+                  disabled={isFetching}
+                  className="rounded-full border border-neutral-300 px-3 py-1 text-sm font-medium text-neutral-700 transition hover:bg-neutral-100 disabled:cursor-not-allowed disabled:opacity-60"
+                >
+                  {isFetching ? '載入中…' : '重新整理'}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setIsOpen(false)}
+                  className="rounded-full border border-neutral-300 px-3 py-1 text-sm font-medium text-neutral-600 transition hover:bg-neutral-100"
+                >
+                  關閉
+                </button>
+              </div>
+            </header>
+
+            <div className="flex-1 space-y-5 overflow-y-auto p-5">
+              {error && <div className="rounded-lg bg-red-50 px-4 py-3 text-sm text-red-600">{error}</div>}
+
+              {budget && (
+                <section className="space-y-3 rounded-xl border border-neutral-200 p-4">
+                  <div className="flex items-center justify-between">
+                    <h3 className="text-sm font-semibold text-neutral-800">我的預算</h3>
+                    <span className="text-xs text-neutral-500">{budget.budget.isCustom ? '個人設定' : '預設預算'}</span>
+                  </div>
+                  {budget.exceeded && (
+                    <p className="rounded-lg bg-red-50 px-3 py-2 text-xs font-medium text-red-600">
+                      已超出{budget.exceeded === 'daily' ? '今日' : '本月'}預算，新的 AI 請求會被拒絕。
+                    </p>
+                  )}
+                  <BudgetBar label="今日" spent={budget.dailySpentUsd} limit={budget.budget.dailyUsd} />
+                  <BudgetBar label="本月" spent={budget.monthlySpentUsd} limit={budget.budget.monthlyUsd} />
+                </section>
+              )}
+
+              {summary && (
+                <>
+                  <div className="grid gap-4 md:grid-cols-2">
+                    <TotalsCard title={`今日（${summary.today.date}）`} totals={summary.today.totals} />
+                    <TotalsCard title={`本月（${summary.month.month}）`} totals={summary.month.totals} />
+                  </div>
+
+                  <section>
+                    <h3 className="mb-2 text-xs font-medium uppercase tracking-wide text-neutral-500">每日費用（近 {summary.daily.length} 天）</h3>
+                    <div className="flex h-28 items-end gap-0.5 rounded-xl border border-neutral-200 p-3">
+                      {summary.daily.map((day) => (
+                        <div
+                          key={day.date}
+                          className="flex-1 rounded-t bg-emerald-400 hover:bg-emerald-600"
+                          style={{ height: `${maxDailyCost > 0 ? Math.max((day.costUsd / maxDailyCost) * 100, day.calls > 0 ? 2 : 0) : 0}%` }}
+                          title={`${day.date}：${formatUsd(day.costUsd)}，${day.calls} 次，${formatTokens(day.totalTokens)} tokens`}
+                        />
+                      ))}
+                    </div>
+                  </section>
+
+                  <div className="grid gap-4 md:grid-cols-3">
+                    <BreakdownList
+                      title="本月依功能"
+                      groups={summary.month.byFeature}
+                      formatKey={(key) => FEATURE_LABELS[key] ?? key}
+                    />
+                    <BreakdownList title="本月依模型" groups={summary.month.byModel} />
+                    <BreakdownList title="本月依使用者" groups={summary.month.byUser} />
+                  </div>
+
+                  <section>
+                    <h3 className="mb-1 text-xs font-medium uppercase tracking-wide text-neutral-500">最近呼叫</h3>
+                    <div className="overflow-x-auto rounded-xl border border-neutral-200">
+                      <table className="w-full text-left text-xs">
+                        <thead className="bg-neutral-50 text-neutral-500">
+                          <tr>
+                            <th className="px-3 py-2 font-medium">時間</th>
+                            <th className="px-3 py-2 font-medium">使用者</th>
+                            <th className="px-3 py-2 font-medium">功能</th>
+                            <th className="px-3 py-2 font-medium">模型</th>
+                            <th className="px-3 py-2 text-right font-medium">Tokens（輸入 / 輸出）</th>
+                            <th className="px-3 py-2 text-right font-medium">費用</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {summary.recent.map((entry) => (
+                            <tr key={entry.id} className="border-t border-neutral-100">
+                              <td className="whitespace-nowrap px-3 py-2 text-neutral-500">{formatTimestamp(entry.createdAt)}</td>
+                              <td className="max-w-[10rem] truncate px-3 py-2 text-neutral-700">{entry.userId ?? '—'}</td>
+                              <td className="px-3 py-2 text-neutral-700">{FEATURE_LABELS[entry.feature] ?? entry.feature}</td>
+                              <td className="px-3 py-2 font-mono text-neutral-600">{entry.model}</td>
+                              <td className="whitespace-nowrap px-3 py-2 text-right text-neutral-600">
+                                {formatTokens(entry.promptTokens)} / {formatTokens(entry.completionTokens)}
+                              </td>
+                              <td className="whitespace-nowrap px-3 py-2 text-right font-semibold text-neutral-800">
+                                {entry.costUsd === null ? '—' : formatUsd(entry.costUsd)}
+                                {entry.costSource === 'estimate' && <span className="ml-1 font-normal text-neutral-400">估</span>}
+                              </td>
+                            </tr>
+                          ))}
+                          {summary.recent.length === 0 && (
+                            <tr>
+                              <td colSpan={6} className="px-3 py-4 text-center text-neutral-500">尚未有 AI 呼叫紀錄</td>
+                            </tr>
+                          )}
+                        </tbody>
+                      </table>
+                    </div>
+                  </section>
+                </>
+              )}
+
+              {budgets && (
+                <section className="space-y-3 rounded-xl border border-neutral-200 p-4">
+                  <h3 className="text-sm font-semibold text-neutral-800">預算設定</h3>
+                  <p className="text-xs text-neutral-500">
+                    預設：每日 {budgets.defaults.dailyUsd ? formatUsd(budgets.defaults.dailyUsd) : '不限制'}、每月{' '}
+                    {budgets.defaults.monthlyUsd ? formatUsd(budgets.defaults.monthlyUsd) : '不限制'}
+                  </p>
+                  <ul className="space-y-1">
+                    {Object.entries(budgets.users).map(([userId, userBudget]) => (
+                      <li key={userId} className="flex justify-between gap-2 rounded-lg bg-neutral-50 px-3 py-2 text-xs">
+                        <span className="truncate text-neutral-700">{userId}</span>
+                        <span className="shrink-0 text-neutral-500">
+                          每日 {userBudget.dailyUsd !== null ? formatUsd(userBudget.dailyUsd) : '不限制'} · 每月{' '}
+                          {userBudget.monthlyUsd !== null ? formatUsd(userBudget.monthlyUsd) : '不限制'}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                  {budgets.canManage ? (
+                    <div className="flex flex-wrap items-end gap-2 text-xs">
+                      <label className="flex flex-col gap-1">
+                        <span className="text-neutral-500">使用者（email 或頻道 ID）</span>
+                        <input
+                          value={budgetForm.userId}
+                          onChange={(event) => setBudgetForm((prev) => ({ ...prev, userId: event.target.value }))}
+                          className="w-56 rounded border border-neutral-300 px-2 py-1"
+                        />
+                      </label>
+                      <label className="flex flex-col gap-1">
+                        <span className="text-neutral-500">每日上限（美元）</span>
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={budgetForm.dailyUsd}
+                          onChange={(event) => setBudgetForm((prev) => ({ ...prev, dailyUsd: event.target.value }))}
+                          placeholder="不限制"
+                          className="w-28 rounded border border-neutral-300 px-2 py-1"
+                        />
+                      </label>
+                      <label className="flex flex-col gap-1">
+                        <span className="text-neutral-500">每月上限（美元）</span>
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={budgetForm.monthlyUsd}
+                          onChange={(event) => setBudgetForm((prev) => ({ ...prev, monthlyUsd: event.target.value }))}
+                          placeholder="不限制"
+                          className="w-28 rounded border border-neutral-300 px-2 py-1"
+                        />
+                      </label>
+                      <button
+                        type="button"
+                        onClick={() => handleSaveBudget()}
+                        disabled={isSavingBudget || !budgetForm.userId.trim()}
+                        className="rounded-full bg-neutral-900 px-4 py-1.5 font-semibold text-white hover:bg-neutral-700 disabled:opacity-50"
+                      >
+                        儲存
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleSaveBudget(true)}
+                        disabled={isSavingBudget || !budgetForm.userId.trim()}
+                        className="rounded-full border border-neutral-300 px-4 py-1.5 font-semibold text-neutral-700 hover:bg-neutral-100 disabled:opacity-50"
+                      >
+                        改回預設
+                      </button>
+                    </div>
+                  ) : (
+                    <p className="text-xs text-neutral-500">只有 AI_BUDGET_ADMINS 中的使用者可以調整個人預算。</p>
+                  )}
+                </section>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -1,6 +1,9 @@
 import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { ArrowUp, ArrowDown, RefreshCw, Loader2, SlidersHorizontal } from 'lucide-react';
 import { youtubeService } from '../services/youtubeService';
+import type { YouTubeVideo } from '../types';
+import { BatchMetadataReview } from './BatchMetadataReview';
+import * as videoApiService from '../services/videoApiService';
 
 declare const gapi: any;
 
@@ -215,7 +218,7 @@ const loadVisibleCols = (): Set<ColKey> => {
   return new Set(COLUMNS.filter((c) => c.default).map((c) => c.key));
 };
 
-export function AllVideosTable({ accessToken }: Props) {
+export function AllVideosTable({ accessToken, channelId }: Props) {
   const [mode, setMode] = useState<Mode>('period');
   const [quickRange, setQuickRange] = useState<QuickRange>('30d');
   const initial = getQuickRange('30d');
@@ -234,8 +237,11 @@ export function AllVideosTable({ accessToken }: Props) {
   const [search, setSearch] = useState('');
   const [pageSize, setPageSize] = useState(50);
   const [cacheUpdatedAt, setCacheUpdatedAt] = useState<string | null>(null);
+  const [fromSnapshots, setFromSnapshots] = useState(false);
   const [visibleCols, setVisibleCols] = useState<Set<ColKey>>(loadVisibleCols);
   const [showColPicker, setShowColPicker] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [batchVideos, setBatchVideos] = useState<YouTubeVideo[] | null>(null);
 
   const cacheRef = useRef<Record<string, any> | null>(null);
 
@@ -313,6 +319,35 @@ export function AllVideosTable({ accessToken }: Props) {
     return byId;
   };
 
+  // 伺服器上的歷史快照涵蓋整個期間時直接使用（欄位順序與 fetchAnalyticsAll 相同），否則回傳 null
+  const loadAnalyticsFromSnapshots = async (start: string, end: string): Promise<Record<string, any[]> | null> => {
+    if (!channelId) return null;
+    try {
+      const snapshots = await videoApiService.getVideoSnapshots(channelId, start, end);
+      if (!snapshots.coverage.complete) return null;
+      const byId: Record<string, any[]> = {};
+      snapshots.videos.forEach((v) => {
+        byId[v.videoId] = [
+          v.videoId,
+          v.views,
+          v.estimatedMinutesWatched,
+          v.averageViewDuration,
+          v.averageViewPercentage,
+          v.likes,
+          v.dislikes,
+          v.comments,
+          v.shares,
+          v.subscribersGained,
+          v.subscribersLost,
+        ];
+      });
+      return byId;
+    } catch (e) {
+      console.warn('[AllVideos] 無法讀取歷史快照，改查 Analytics API:', e);
+      return null;
+    }
+  };
+
   const buildRows = async () => {
     setLoading(true);
     setError(null);
@@ -327,7 +362,10 @@ export function AllVideosTable({ accessToken }: Props) {
       const [start, end] =
         mode === 'lifetime' ? [LIFETIME_START, maxSelectableDate] : [startDate, endDate];
 
-      const analyticsById = await fetchAnalyticsAll(start, end, ids, (d, t) => setProgress({ done: d, total: t }));
+      const snapshotById = mode === 'period' ? await loadAnalyticsFromSnapshots(start, end) : null;
+      const analyticsById =
+        snapshotById || (await fetchAnalyticsAll(start, end, ids, (d, t) => setProgress({ done: d, total: t })));
+      setFromSnapshots(Boolean(snapshotById));
 
       const fromCacheCounts = mode === 'lifetime'; // 累計模式觀看/讚/留言用快取的權威總數
       const result: VideoRow[] = allVideos.map((v: any) => {
@@ -483,8 +521,46 @@ export function AllVideosTable({ accessToken }: Props) {
     </th>
   );
 
+  const toggleSelected = (videoId: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(videoId)) next.delete(videoId);
+      else next.add(videoId);
+      return next;
+    });
+  };
+
+  const isPageSelected = pageRows.length > 0 && pageRows.every((r) => selectedIds.has(r.videoId));
+  const togglePageSelected = () => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      pageRows.forEach((r) => (isPageSelected ? next.delete(r.videoId) : next.add(r.videoId)));
+      return next;
+    });
+  };
+
+  // 選取的影片 → 批次生成中繼資料（標籤、分類、公開狀態取自快取；說明於推送前向 YouTube 讀取）
+  const openBatchReview = () => {
+    const cache = cacheRef.current || {};
+    const selected = rows
+      .filter((r) => selectedIds.has(r.videoId))
+      .map((r): YouTubeVideo => {
+        const cached = cache[r.videoId] || {};
+        return {
+          id: r.videoId,
+          title: r.title,
+          description: '',
+          thumbnailUrl: r.thumbnail,
+          tags: cached.tags || [],
+          categoryId: cached.categoryId || '',
+          privacyStatus: cached.privacyStatus || 'public',
+        };
+      });
+    setBatchVideos(selected);
+  };
+
   const isPeriod = mode === 'period';
-  const colCount = 2 + cols.length; // 內容 + 發布日期 + 指標欄
+  const colCount = 3 + cols.length; // 勾選 + 內容 + 發布日期 + 指標欄
 
   // 日期鎖定：不可選超過「可查詢日」（今天 −3 天）
   const analyticsAvailableDate = getAnalyticsAvailableEndDate();
@@ -505,6 +581,7 @@ export function AllVideosTable({ accessToken }: Props) {
         ℹ️ 影片清單來自<strong>每日更新的快取</strong>
         {cacheUpdatedAt && `（更新於 ${formatCacheTime(cacheUpdatedAt)}，台灣時間）`}
         ，當天剛上傳的影片可能尚未出現。
+        {fromSnapshots && ' 本次期間數據來自伺服器的歷史快照，未查詢 Analytics API。'}
       </div>
 
       {/* 控制列 */}
@@ -649,6 +726,14 @@ export function AllVideosTable({ accessToken }: Props) {
               <option value={100}>每頁 100</option>
               <option value={200}>每頁 200</option>
             </select>
+            {selectedIds.size > 0 && (
+              <button
+                onClick={openBatchReview}
+                className="px-3 py-1.5 rounded-lg bg-[#0F0F0F] text-white text-sm font-medium hover:bg-[#303030]"
+              >
+                批次生成中繼資料（{selectedIds.size}）
+              </button>
+            )}
             {/* 欄位勾選器 */}
             <div className="relative">
               <button
@@ -686,6 +771,15 @@ export function AllVideosTable({ accessToken }: Props) {
           <table className="w-full text-sm border-collapse">
             <thead>
               <tr className="bg-[#FAFAFA] border-b border-[#F0F0F0] text-left">
+                <th className="pl-3 py-3 w-8">
+                  <input
+                    type="checkbox"
+                    checked={isPageSelected}
+                    onChange={togglePageSelected}
+                    disabled={pageRows.length === 0}
+                    title="選取本頁影片"
+                  />
+                </th>
                 <th className="px-3 py-3 font-semibold text-[#606060]">內容</th>
                 <SortHeader k="publishedAt" label="發布日期" />
                 {cols.map((c) => (
@@ -696,6 +790,7 @@ export function AllVideosTable({ accessToken }: Props) {
             <tbody>
               {loadedOnce && rows.length > 0 && (
                 <tr className="border-b border-[#F0F0F0] bg-[#FBFBFB] font-semibold">
+                  <td className="pl-3 py-3" />
                   <td className="px-3 py-3 text-[#0F0F0F]">總計</td>
                   <td className="px-3 py-3 text-[#909090]">—</td>
                   {cols.map((c) => (
@@ -708,6 +803,14 @@ export function AllVideosTable({ accessToken }: Props) {
 
               {pageRows.map((r) => (
                 <tr key={r.videoId} className="border-b border-[#F5F5F5] hover:bg-[#FAFAFA]">
+                  <td className="pl-3 py-2">
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.has(r.videoId)}
+                      onChange={() => toggleSelected(r.videoId)}
+                      aria-label={`選取 ${r.title}`}
+                    />
+                  </td>
                   <td className="px-3 py-2">
                     <a
                       href={`https://www.youtube.com/watch?v=${r.videoId}`}
@@ -806,6 +909,16 @@ export function AllVideosTable({ accessToken }: Props) {
           </div>
         )}
       </div>
+
+      {batchVideos && (
+        <BatchMetadataReview
+          videos={batchVideos}
+          onClose={() => {
+            setBatchVideos(null);
+            setSelectedIds(new Set());
+          }}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,288 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Bell, ChevronDown, ChevronUp, TrendingDown, TrendingUp } from 'lucide-react';
+import * as videoApiService from '../services/videoApiService';
+import type { AnomalyAlert, AnomalyAlertSettings } from '../services/videoApiService';
+
+interface AnomalyInboxProps {
+  channelId: string;
+  /** 數值改變時重新載入（例如快照同步完成後） */
+  refreshKey?: number;
+}
+
+const inputClass =
+  'rounded-md border border-[#E5E5E5] bg-white px-2 py-1 text-xs text-[#030303] focus:border-[#FF3B30] focus:outline-none';
+
+export function AnomalyInbox({ channelId, refreshKey = 0 }: AnomalyInboxProps) {
+  const [alerts, setAlerts] = useState<AnomalyAlert[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [isDetecting, setIsDetecting] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const [settings, setSettings] = useState<AnomalyAlertSettings | null>(null);
+  const [showSettings, setShowSettings] = useState(false);
+  const [webhookSecretInput, setWebhookSecretInput] = useState('');
+  const [isSavingSettings, setIsSavingSettings] = useState(false);
+
+  const loadAlerts = useCallback(async () => {
+    try {
+      const result = await videoApiService.getAnomalyAlerts({ channelId, limit: 50 });
+      setAlerts(result.alerts);
+      setUnreadCount(result.unreadCount);
+      setError(null);
+    } catch (err: any) {
+      setError(`讀取提醒失敗：${err.message}`);
+    }
+  }, [channelId]);
+
+  useEffect(() => {
+    loadAlerts();
+  }, [loadAlerts, refreshKey]);
+
+  useEffect(() => {
+    if (!showSettings || settings?.channelId === channelId) return;
+    videoApiService
+      .getAnomalyAlertSettings(channelId)
+      .then(setSettings)
+      .catch((err: any) => setError(`讀取提醒設定失敗：${err.message}`));
+  }, [showSettings, channelId, settings?.channelId]);
+
+  const handleDetect = async () => {
+    setIsDetecting(true);
+    setMessage(null);
+    try {
+      const result = await videoApiService.detectAnomalies(channelId);
+      setMessage(
+        result.checkedDates.length === 0
+          ? '尚未保存數據快照，請先同步'
+          : `已檢查 ${result.checkedDates[0]} ~ ${result.checkedDates[result.checkedDates.length - 1]}：新增 ${result.alerts.length} 則提醒`
+      );
+      await loadAlerts();
+      setIsExpanded(true);
+    } catch (err: any) {
+      setError(`偵測失敗：${err.message}`);
+    } finally {
+      setIsDetecting(false);
+    }
+  };
+
+  const handleMarkRead = async (ids?: string[]) => {
+    try {
+      await videoApiService.markAnomalyAlertsRead(ids ? { ids } : { channelId });
+      await loadAlerts();
+    } catch (err: any) {
+      setError(`標記已讀失敗：${err.message}`);
+    }
+  };
+
+  const handleSaveSettings = async () => {
+    if (!settings) return;
+    setIsSavingSettings(true);
+    setMessage(null);
+    try {
+      const saved = await videoApiService.saveAnomalyAlertSettings(channelId, {
+        enabled: settings.enabled,
+        threshold: settings.threshold,
+        includeVideos: settings.includeVideos,
+        webhookUrl: settings.webhookUrl,
+        webhookSecret: webhookSecretInput || undefined,
+      });
+      setSettings(saved);
+      setWebhookSecretInput('');
+      setMessage('提醒設定已儲存');
+      setError(null);
+    } catch (err: any) {
+      setError(`儲存設定失敗：${err.message}`);
+    } finally {
+      setIsSavingSettings(false);
+    }
+  };
+
+  const handleTestWebhook = async () => {
+    setMessage(null);
+    try {
+      const result = await videoApiService.testAnomalyAlertWebhook(channelId);
+      setMessage(result.message);
+      setError(null);
+    } catch (err: any) {
+      setError(`Webhook 測試失敗：${err.message}`);
+    }
+  };
+
+  return (
+    <div className="rounded-2xl border border-[#E5E5E5] bg-white shadow-[0_1px_3px_rgba(0,0,0,0.08)] overflow-hidden">
+      <div className="flex flex-wrap items-center justify-between gap-3 p-5">
+        <button type="button" onClick={() => setIsExpanded(!isExpanded)} className="flex items-center gap-3">
+          <Bell className="w-5 h-5 text-[#FF3B30]" />
+          <strong className="text-[13px] text-[#0F0F0F] font-semibold">數據異常提醒</strong>
+          {unreadCount > 0 && (
+            <span className="rounded-full bg-[#FF3B30] px-2 py-0.5 text-[11px] font-semibold text-white">{unreadCount} 則未讀</span>
+          )}
+          {isExpanded ? <ChevronUp className="w-4 h-4 text-[#606060]" /> : <ChevronDown className="w-4 h-4 text-[#606060]" />}
+        </button>
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={() => setShowSettings(!showSettings)}
+            className="rounded-full border border-[#E5E5E5] bg-white px-3 py-1 text-xs font-semibold text-[#606060] hover:bg-[#F9F9F9]"
+          >
+            提醒設定
+          </button>
+          <button
+            type="button"
+            onClick={handleDetect}
+            disabled={isDetecting}
+            className="rounded-full border border-[#E5E5E5] bg-white px-3 py-1 text-xs font-semibold text-[#B20000] hover:bg-[#FFF5F5] disabled:cursor-not-allowed disabled:text-[#909090]"
+          >
+            {isDetecting ? '檢查中...' : '立即檢查'}
+          </button>
+        </div>
+      </div>
+
+      {(message || error) && (
+        <div className="px-5 pb-3 text-xs">
+          {error && <p className="text-[#C5221F]">{error}</p>}
+          {message && <p className="text-[#0F9D58]">{message}</p>}
+        </div>
+      )}
+
+      {showSettings && settings && (
+        <div className="mx-5 mb-4 space-y-3 rounded-xl bg-[#F9F9F9] px-4 py-3 text-xs text-[#606060]">
+          <p>同步數據快照後會自動比對過去 8 週同一個星期幾的數值，偏離程度（z 分數）超過門檻即提醒。</p>
+          <div className="flex flex-wrap items-center gap-4">
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={settings.enabled}
+                onChange={(e) => setSettings({ ...settings, enabled: e.target.checked })}
+                className="accent-[#FF3B30]"
+              />
+              同步後自動偵測
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={settings.includeVideos}
+                onChange={(e) => setSettings({ ...settings, includeVideos: e.target.checked })}
+                className="accent-[#FF3B30]"
+              />
+              包含個別影片
+            </label>
+            <label className="flex items-center gap-2">
+              門檻 |z| ≥
+              <input
+                type="number"
+                min={2}
+                max={10}
+                step={0.5}
+                value={settings.threshold}
+                onChange={(e) => setSettings({ ...settings, threshold: Number(e.target.value) })}
+                className={`${inputClass} w-16`}
+              />
+            </label>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              type="url"
+              value={settings.webhookUrl}
+              placeholder="Webhook 網址（選填，例如 Slack / Zapier / n8n）"
+              onChange={(e) => setSettings({ ...settings, webhookUrl: e.target.value })}
+              className={`${inputClass} min-w-[16rem] flex-1`}
+            />
+            <input
+              type="password"
+              value={webhookSecretInput}
+              placeholder={settings.secrets.webhookSecret ? '簽署密鑰（已設定，留空沿用）' : '簽署密鑰（選填）'}
+              onChange={(e) => setWebhookSecretInput(e.target.value)}
+              className={`${inputClass} w-56`}
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            {settings.webhookUrl && (
+              <button
+                type="button"
+                onClick={handleTestWebhook}
+                className="rounded-full px-3 py-1 font-semibold text-[#606060] hover:bg-white"
+              >
+                測試 Webhook
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={handleSaveSettings}
+              disabled={isSavingSettings}
+              className="rounded-full bg-[#FF3B30] px-3 py-1 font-semibold text-white hover:bg-[#B20000] disabled:cursor-not-allowed disabled:bg-[#909090]"
+            >
+              {isSavingSettings ? '儲存中...' : '儲存設定'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {isExpanded && (
+        <div className="border-t border-[#E5E5E5] px-5 py-4">
+          {alerts.length === 0 ? (
+            <p className="text-sm text-[#606060]">目前沒有異常提醒</p>
+          ) : (
+            <>
+              {unreadCount > 0 && (
+                <div className="mb-2 flex justify-end">
+                  <button
+                    type="button"
+                    onClick={() => handleMarkRead()}
+                    className="text-xs font-semibold text-[#B20000] hover:underline"
+                  >
+                    全部標為已讀
+                  </button>
+                </div>
+              )}
+              <ul className="space-y-2">
+                {alerts.map((alert) => (
+                  <li
+                    key={alert.id}
+                    className={`flex items-start gap-3 rounded-xl px-3 py-2 text-sm ${alert.readAt ? 'text-[#606060]' : 'bg-[#FFF5F5] text-[#030303]'}`}
+                  >
+                    {alert.direction === 'spike' ? (
+                      <TrendingUp className="mt-0.5 w-4 h-4 shrink-0 text-[#0F9D58]" />
+                    ) : (
+                      <TrendingDown className="mt-0.5 w-4 h-4 shrink-0 text-[#C5221F]" />
+                    )}
+                    <div className="flex-1">
+                      <p>
+                        {alert.scope === 'video' && alert.videoId ? (
+                          <a
+                            href={`https://www.youtube.com/watch?v=${alert.videoId}`}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="hover:underline"
+                          >
+                            {alert.message}
+                          </a>
+                        ) : (
+                          alert.message
+                        )}
+                      </p>
+                      {alert.delivery?.webhook === 'failed' && (
+                        <p className="text-[11px] text-[#C5221F]">Webhook 發送失敗：{alert.delivery.error}</p>
+                      )}
+                    </div>
+                    {!alert.readAt && (
+                      <button
+                        type="button"
+                        onClick={() => handleMarkRead([alert.id])}
+                        className="shrink-0 text-xs text-[#606060] hover:text-[#B20000]"
+                      >
+                        已讀
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,241 @@
+import { useEffect, useState } from 'react';
+import * as draftService from '../services/draftService';
+import type { ArticleDraftRevision } from '../services/draftService';
+import { diffLines } from '../utils/lineDiff';
+
+interface ArticleDraftHistoryProps {
+  videoId: string;
+  /** 父元件儲存新版本後遞增，觸發重新載入 */
+  refreshKey?: number;
+  onRestored: (revision: ArticleDraftRevision) => void;
+}
+
+const SOURCE_LABELS: Record<ArticleDraftRevision['source'], string> = {
+  generate: '生成文章',
+  'regenerate-screenshots': '重新分析截圖',
+  'capture-screenshots': '擷取截圖',
+  restore: '還原',
+  'local-migration': '本機草稿搬移',
+};
+
+const TITLE_FIELDS = [
+  { key: 'titleA', label: '標題 A' },
+  { key: 'titleB', label: '標題 B' },
+  { key: 'titleC', label: '標題 C' },
+  { key: 'seo_description', label: 'SEO 描述' },
+] as const;
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('zh-TW', { hour12: false });
+
+export function ArticleDraftHistory({ videoId, refreshKey = 0, onRestored }: ArticleDraftHistoryProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [revisions, setRevisions] = useState<ArticleDraftRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [compareToId, setCompareToId] = useState<string | null>(null);
+  const [confirmingId, setConfirmingId] = useState<string | null>(null);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  const loadRevisions = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const draft = await draftService.getDraft(videoId);
+      setRevisions(draft?.revisions ?? []);
+    } catch (err: any) {
+      console.error('[Drafts] Failed to load revisions:', err);
+      setError(`載入草稿版本失敗：${err.message}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen) {
+      loadRevisions();
+    }
+  }, [isOpen, videoId, refreshKey]);
+
+  const handleExpand = (revision: ArticleDraftRevision, index: number) => {
+    if (expandedId === revision.id) {
+      setExpandedId(null);
+      return;
+    }
+    setExpandedId(revision.id);
+    // 預設與前一個（較舊的）版本比較
+    setCompareToId(revisions[index + 1]?.id ?? null);
+    setConfirmingId(null);
+  };
+
+  const handleRestore = async (revision: ArticleDraftRevision) => {
+    setConfirmingId(null);
+    setRestoringId(revision.id);
+    setError(null);
+    try {
+      const restored = await draftService.restoreRevision(videoId, revision.id);
+      onRestored(restored);
+      await loadRevisions();
+    } catch (err: any) {
+      console.error('[Drafts] Restore failed:', err);
+      setError(`還原失敗：${err.message}`);
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const renderDiff = (revision: ArticleDraftRevision) => {
+    const base = revisions.find((item) => item.id === compareToId);
+    if (!base) {
+      return <p className="text-xs text-neutral-500">這是最早的版本，沒有可比較的對象。</p>;
+    }
+
+    const changedFields = TITLE_FIELDS.filter(({ key }) => base.result[key] !== revision.result[key]);
+    const articleDiff = diffLines(base.result.article, revision.result.article);
+    const hasArticleChanges = articleDiff.some((line) => line.type !== 'same');
+    const imageCount = (result: ArticleDraftRevision['result']) => (result.image_urls ?? []).flat().length;
+
+    return (
+      <div className="space-y-3">
+        {changedFields.map(({ key, label }) => (
+          <div key={key} className="space-y-1 text-sm">
+            <p className="text-xs font-semibold text-neutral-600">{label}</p>
+            <p className="rounded bg-red-50 px-2 py-1 text-red-700 line-through">{base.result[key]}</p>
+            <p className="rounded bg-emerald-50 px-2 py-1 text-emerald-700">{revision.result[key]}</p>
+          </div>
+        ))}
+        {imageCount(base.result) !== imageCount(revision.result) && (
+          <p className="text-xs text-neutral-600">
+            截圖：{imageCount(base.result)} 張 → {imageCount(revision.result)} 張
+          </p>
+        )}
+        <div className="space-y-1">
+          <p className="text-xs font-semibold text-neutral-600">文章內容</p>
+          {hasArticleChanges ? (
+            <pre className="max-h-96 overflow-auto whitespace-pre-wrap rounded border border-neutral-200 bg-neutral-50 p-2 font-mono text-xs leading-5">
+              {articleDiff.map((line, index) => (
+                <div
+                  key={index}
+                  className={
+                    line.type === 'added'
+                      ? 'bg-emerald-100 text-emerald-800'
+                      : line.type === 'removed'
+                        ? 'bg-red-100 text-red-800'
+                        : 'text-neutral-600'
+                  }
+                >
+                  {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}
+                  {line.text}
+                </div>
+              ))}
+            </pre>
+          ) : (
+            <p className="text-xs text-neutral-500">文章內容沒有變更。</p>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="rounded-lg border border-neutral-200 bg-white">
+      <button
+        type="button"
+        onClick={() => setIsOpen((prev) => !prev)}
+        className="flex w-full items-center justify-between px-4 py-3 text-sm font-semibold text-neutral-800 hover:bg-neutral-50"
+      >
+        <span>草稿版本</span>
+        <span className="text-xs font-normal text-neutral-500">{isOpen ? '收合' : '展開'}</span>
+      </button>
+
+      {isOpen && (
+        <div className="space-y-3 border-t border-neutral-200 p-4">
+          {error && <div className="rounded-lg bg-red-50 px-3 py-2 text-sm text-red-600">{error}</div>}
+          {isLoading && revisions.length === 0 && <p className="text-sm text-neutral-500">載入中...</p>}
+          {!isLoading && !error && revisions.length === 0 && (
+            <p className="text-sm text-neutral-500">尚無草稿版本，生成文章後會自動保存在這裡。</p>
+          )}
+
+          <ul className="space-y-2">
+            {revisions.map((revision, index) => {
+              const isExpanded = expandedId === revision.id;
+              return (
+                <li key={revision.id} className="rounded-lg border border-neutral-200 bg-white">
+                  <button
+                    type="button"
+                    onClick={() => handleExpand(revision, index)}
+                    className="flex w-full flex-wrap items-center gap-2 px-3 py-2 text-left text-xs text-neutral-600 hover:bg-neutral-50"
+                  >
+                    <span className="font-medium text-neutral-800">{formatTime(revision.savedAt)}</span>
+                    <span className="rounded-full bg-neutral-100 px-2 py-0.5">{SOURCE_LABELS[revision.source] ?? revision.source}</span>
+                    {revision.templateId && <span className="text-neutral-500">模板：{revision.templateId}</span>}
+                    {index === 0 && <span className="rounded-full bg-emerald-50 px-2 py-0.5 text-emerald-700">目前版本</span>}
+                    <span className="w-full truncate text-neutral-500">{revision.result.titleA}</span>
+                  </button>
+
+                  {isExpanded && (
+                    <div className="space-y-3 border-t border-neutral-100 px-3 py-3">
+                      <label className="flex items-center gap-2 text-xs text-neutral-600">
+                        <span>比較對象</span>
+                        <select
+                          value={compareToId ?? ''}
+                          onChange={(event) => setCompareToId(event.target.value || null)}
+                          className="rounded border border-neutral-300 px-2 py-1 text-xs"
+                        >
+                          <option value="">（不比較）</option>
+                          {revisions
+                            .filter((item) => item.id !== revision.id)
+                            .map((item) => (
+                              <option key={item.id} value={item.id}>
+                                {formatTime(item.savedAt)}・{SOURCE_LABELS[item.source] ?? item.source}
+                              </option>
+                            ))}
+                        </select>
+                      </label>
+
+                      {renderDiff(revision)}
+
+                      {index > 0 && (confirmingId === revision.id ? (
+                        <div className="space-y-2 rounded-lg border-2 border-amber-400 bg-amber-50 p-3 text-center">
+                          <p className="text-xs font-semibold text-amber-800">
+                            將以這個版本的內容建立新的目前版本，原本的版本仍會保留在紀錄中。
+                          </p>
+                          <div className="flex justify-center gap-2">
+                            <button
+                              type="button"
+                              onClick={() => setConfirmingId(null)}
+                              className="rounded-full bg-neutral-200 px-4 py-1.5 text-xs font-semibold text-neutral-700 hover:bg-neutral-300"
+                            >
+                              取消
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => handleRestore(revision)}
+                              className="rounded-full bg-red-600 px-4 py-1.5 text-xs font-semibold text-white hover:bg-red-700"
+                            >
+                              確認還原
+                            </button>
+                          </div>
+                        </div>
+                      ) : (
+                        <button
+                          type="button"
+                          onClick={() => setConfirmingId(revision.id)}
+                          disabled={restoringId !== null}
+                          className="rounded-full border border-red-200 bg-red-50 px-3 py-1.5 text-xs font-semibold text-red-600 hover:bg-red-100 disabled:opacity-50"
+                        >
+                          {restoringId === revision.id ? '還原中...' : '還原這個版本'}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+import { useState } from 'react';
+import type { ArticleGenerationResult, YouTubeVideo } from '../types';
+import * as videoApiService from '../services/videoApiService';
+import type { ArticleExportFormat } from '../services/videoApiService';
+
+interface ArticleExportMenuProps {
+  video: YouTubeVideo;
+  result: ArticleGenerationResult;
+}
+
+const EXPORT_OPTIONS: Array<{ format: ArticleExportFormat; label: string; description: string }> = [
+  { format: 'markdown', label: 'Markdown', description: '含 front matter，適用 Hugo、Jekyll 等靜態網站' },
+  { format: 'html', label: 'HTML 壓縮包', description: 'index.html 與截圖檔案，可離線開啟' },
+  { format: 'wxr', label: 'WordPress', description: 'WXR 匯入檔，以草稿匯入（工具 → 匯入 → WordPress）' },
+];
+
+export function ArticleExportMenu({ video, result }: ArticleExportMenuProps) {
+  const [exportingFormat, setExportingFormat] = useState<ArticleExportFormat | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async (format: ArticleExportFormat) => {
+    setExportingFormat(format);
+    setError(null);
+    try {
+      const { blob, fileName } = await videoApiService.exportArticle(
+        format,
+        { id: video.id, title: video.title, isUrlOnly: video.isUrlOnly },
+        result
+      );
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err: any) {
+      console.error('[ArticleExport] Export failed:', err);
+      setError(`匯出失敗：${err.message}`);
+    } finally {
+      setExportingFormat(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border border-neutral-200 bg-white p-4">
+      <div>
+        <h3 className="text-lg font-semibold text-neutral-900">匯出文章</h3>
+        <p className="text-xs text-neutral-500">下載文章檔案，發佈到 WordPress 或靜態網站</p>
+      </div>
+      {error && <div className="rounded-lg bg-red-50 px-3 py-2 text-sm text-red-600">{error}</div>}
+      <div className="grid gap-2 sm:grid-cols-3">
+        {EXPORT_OPTIONS.map((option) => (
+          <button
+            key={option.format}
+            type="button"
+            onClick={() => handleExport(option.format)}
+            disabled={exportingFormat !== null}
+            className="flex flex-col items-start rounded-xl border border-neutral-200 px-4 py-3 text-left transition hover:border-red-400 hover:bg-red-50 disabled:opacity-50"
+          >
+            <span className="text-sm font-semibold text-neutral-900">
+              {exportingFormat === option.format ? '匯出中...' : option.label}
+            </span>
+            <span className="mt-1 text-xs text-neutral-500">{option.description}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
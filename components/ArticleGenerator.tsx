@@ -1,12 +1,18 @@
 import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import type { ArticleGenerationResult, ProgressMessage, YouTubeVideo } from '../types';
 import * as videoApiService from '../services/videoApiService';
+import * as taskPollingService from '../services/taskPollingService';
 import * as notionClient from '../services/notionClient';
 import { Loader } from './Loader';
 import { CopyButton } from './CopyButton';
 import { TEMPLATE_METADATA } from '../services/prompts/templateMetadata.js';
 import { THEME_LIST, DEFAULT_COLOR_THEME } from '../services/prompts/colorThemes.js';
 import * as draftService from '../services/draftService';
+import type { ArticleDraftSource, ArticleReview } from '../services/videoApiService';
+import { ArticleReviewPanel } from './ArticleReviewPanel';
+import { ArticleExportMenu } from './ArticleExportMenu';
+import { ArticlePublishMenu } from './ArticlePublishMenu';
+import { NotionPropertyMappingEditor } from './NotionPropertyMappingEditor';
 import { AppIcon, resolveIconName } from './AppIcon';
 
 interface ArticleGeneratorProps {
@@ -98,6 +104,8 @@ export function ArticleGenerator({ video, onClose, cachedContent, onContentUpdat
     return window.localStorage.getItem('articleTemplateId') || 'aeo-html-v5';
   });
   const [screenshotQuality, setScreenshotQuality] = useState<number>(2); // 預設高畫質
+  const [transcriptSegmentCount, setTranscriptSegmentCount] = useState<number | null>(null);
+  const [useTranscript, setUseTranscript] = useState(true);
   const [loadingStep, setLoadingStep] = useState<ProgressMessage | null>(null);
   const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([]);
   const [isUploading, setIsUploading] = useState(false);
@@ -112,10 +120,16 @@ export function ArticleGenerator({ video, onClose, cachedContent, onContentUpdat
   const [notionPageTitle, setNotionPageTitle] = useState('');
   const [isPublishingToNotion, setIsPublishingToNotion] = useState(false);
   const [notionStatus, setNotionStatus] = useState<NotionStatus | null>(null);
+  const [articleReview, setArticleReview] = useState<ArticleReview | null>(null);
+  const [canApproveReview, setCanApproveReview] = useState(false);
+  const [notionSync, setNotionSync] = useState<notionClient.NotionSyncStatusResponse | null>(null);
+  const [isCheckingNotionSync, setIsCheckingNotionSync] = useState(false);
+  const [publishAsNewNotionPage, setPublishAsNewNotionPage] = useState(false);
   const [titlePropertyManuallyEdited, setTitlePropertyManuallyEdited] = useState(false);
   const [includeScreenshotPlan, setIncludeScreenshotPlan] = useState(false);
   const [includeScreenshotImages, setIncludeScreenshotImages] = useState(false);
   const notionOAuthMonitorRef = useRef<number | null>(null);
+  const screenshotTaskIdRef = useRef<string | null>(null);
   const [notionAccessToken, setNotionAccessToken] = useState('');
   const [notionRefreshToken, setNotionRefreshToken] = useState('');
   const [notionWorkspaceName, setNotionWorkspaceName] = useState('');
@@ -185,6 +199,47 @@ export function ArticleGenerator({ video, onClose, cachedContent, onContentUpdat
     }
   }, [cachedContent]);
 
+  // 已有逐字稿時，文章生成可改用逐字稿而不重新分析影片
+  useEffect(() => {
+    setTranscriptSegmentCount(null);
+    if (video.isUrlOnly) return;
+    let cancelled = false;
+    videoApiService
+      .getVideoTranscript(video.id)
+      .then((transcript) => {
+        if (!cancelled) setTranscriptSegmentCount(transcript ? transcript.segments.length : null);
+      })
+      .catch((err) => console.warn('[Article] 載入逐字稿失敗:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [video.id, video.isUrlOnly]);
+
+  // 載入共用的審稿狀態（決定是否可以發佈）
+  const loadArticleReview = useCallback(async () => {
+    try {
+      const data = await videoApiService.getArticleReview(video.id);
+      setArticleReview(data?.review ?? null);
+      setCanApproveReview(data?.canApprove ?? false);
+    } catch (err) {
+      console.warn('[ArticleReview] 載入審稿狀態失敗:', err);
+    }
+  }, [video.id]);
+
+  useEffect(() => {
+    setArticleReview(null);
+    setCanApproveReview(false);
+    loadArticleReview();
+  }, [loadArticleReview]);
+
+  const handleReviewChange = (review: ArticleReview) => {
+    setArticleReview(review);
+    // 送審者變更時核准權限也會跟著改變
+    if (review.owner !== articleReview?.owner) {
+      loadArticleReview();
+    }
+  };
+
   const applyDefaultTemplates = useCallback((overrides: Partial<typeof templatesStatus> = {}) => {
     setTemplateOptions(getDefaultTemplateOptions());
     setTemplatesStatus({
@@ -674,6 +729,24 @@ export function ArticleGenerator({ video, onClose, cachedContent, onContentUpdat
     setReferenceVideos(prev => prev.filter((_, i) => i !== index));
   };
 
+  // 儲存草稿版本，失敗時只提示不影響生成結果
+  const saveDraftRevision = async (newResult: ArticleGenerationResult, source: ArticleDraftSource) => {
+    try {
+      await draftService.saveDraft(
+        { id: video.id, title: video.title, isUrlOnly: video.isUrlOnly },
+        newResult,
+        selectedTemplateId,
+        colorTheme,
+        customPrompt,
+        referenceUrls,
+        referenceVideos,
+        source
+      );
+    } catch (err) {
+      console.warn('[Article] Failed to save draft revision:', err);
+    }
+  };
+
   const handleGenerate = async () => {
     setIsGenerating(true);
     setError(null);
@@ -742,7 +815,8 @@ export function ArticleGenerator({ video, onClose, cachedContent, onContentUpdat
             selectedTemplateId,
             referenceUrls,
             referenceVideos,
-            colorTheme
+            colorTheme,
+            useTranscript && transcriptSegmentCount !== null
           );
         } else {
           // 非公開影片：先下載再分析
@@ -784,16 +858,8 @@ export function ArticleGenerator({ video, onClose, cachedContent, onContentUpdat
 
       setResult(newResult);
 
-      // 自動存草稿
-      draftService.saveDraft(
-        { id: video.id, title: video.title, isUrlOnly: video.isUrlOnly },
-        newResult,
-        selectedTemplateId,
-        colorTheme,
-        customPrompt,
-        referenceUrls,
-        referenceVideos
-      );
+      // 自動存草稿（伺服器會保留為新版本）
+      await saveDraftRevision(newResult, 'generate');
 
       // 更新快取
       if (onContentUpdate) {
@@ -843,6 +909,7 @@ export function ArticleGenerator({ video, onClose, cachedContent, onContentUpdat
       };
 
       setResult(newResult);
+      await saveDraftRevision(newResult, 'regenerate-screenshots');
 
       // 更新快取
       if (onContentUpdate) {
@@ -881,25 +948,15 @@ export function ArticleGenerator({ video, onClose, cachedContent, onContentUpdat
     try {
       console.log('[Article] Capturing screenshots...');
 
-      const response = await fetch(`${getServerBaseUrl()}/api/capture-screenshots`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          videoId: result.videoId,
-          screenshots: result.screenshots,
-          quality: screenshotQuality,
-        }),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        const serverReason = deriveScreenshotErrorReason(errorData);
-        throw new Error(serverReason);
-      }
-
-      const data = await response.json();
+      const data = await videoApiService.captureScreenshotsAsync(
+        result.videoId,
+        result.screenshots,
+        screenshotQuality,
+        setLoadingStep,
+        (taskId) => {
+          screenshotTaskIdRef.current = taskId;
+        }
+      );
       console.log('[Article] Screenshots captured successfully');
 
       // 更新結果，添加截圖 URLs
@@ -910,6 +967,7 @@ export function ArticleGenerator({ video, onClose, cachedContent, onContentUpdat
       };
 
       setResult(newResult);
+      await saveDraftRevision(newResult, 'capture-screenshots');
 
       // 更新快取
       if (onContentUpdate) {
@@ -919,17 +977,35 @@ export function ArticleGenerator({ video, onClose, cachedContent, onContentUpdat
       setLoadingStep(null);
 
     } catch (err: any) {
+      setLoadingStep(null);
+      if (err?.message === '任務已取消') {
+        console.log('[Article] Screenshot capture cancelled');
+        return;
+      }
       console.error('[Article] Screenshot capture error:', err);
-      const friendlyMessage = err?.message
-        ? `目前 YouTube 截圖功能暫時無法使用，原因：${err.message}。請依建議時間點前後自行手動截圖。`
+      const reason = err?.message ? deriveScreenshotErrorReason({ error: err.message }) : null;
+      const friendlyMessage = reason
+        ? `目前 YouTube 截圖功能暫時無法使用，原因：${reason}。請依建議時間點前後自行手動截圖。`
         : '目前 YouTube 截圖功能暫時無法使用，請依建議時間點前後自行手動截圖。';
       setError(friendlyMessage);
-      setLoadingStep(null);
     } finally {
+      screenshotTaskIdRef.current = null;
       setIsCapturingScreenshots(false);
     }
   };
 
+  const handleCancelScreenshots = async () => {
+    const taskId = screenshotTaskIdRef.current;
+    if (!taskId) return;
+    setLoadingStep({ icon: 'info', text: '正在取消截圖...' });
+    try {
+      // 伺服器會終止 yt-dlp / FFmpeg 並清理下載到一半的檔案
+      await taskPollingService.cancelTask(taskId);
+    } catch (err: any) {
+      console.error('[Article] Failed to cancel screenshot task:', err);
+    }
+  };
+
   const fetchNotionDatabases = useCallback(
     async ({ startCursor, append }: { startCursor?: string; append?: boolean } = {}) => {
       if (!notionAccessToken) {
@@ -1202,6 +1278,39 @@ export function ArticleGenerator({ video, onClose, cachedContent, onContentUpdat
     };
   }, []);
 
+  // 文章已發佈過的 Notion 頁面；選擇同一個資料庫時重新發佈會更新這個頁面
+  const linkedNotionPage = articleReview?.notion ?? null;
+  const normalizeNotionId = (id: string) => id.replace(/-/g, '').toLowerCase();
+  const willUpdateNotionPage =
+    !!linkedNotionPage &&
+    !publishAsNewNotionPage &&
+    notionSync?.status !== 'missing' &&
+    normalizeNotionId(linkedNotionPage.databaseId) === normalizeNotionId(notionDatabaseId.trim());
+
+  const linkedNotionPageId = linkedNotionPage?.pageId;
+  const linkedNotionEditedTime = linkedNotionPage?.lastEditedTime;
+
+  const checkNotionSync = useCallback(async () => {
+    const resolvedToken = (notionAccessToken || notionToken).trim();
+    if (!linkedNotionPageId || !linkedNotionEditedTime || !resolvedToken) {
+      setNotionSync(null);
+      return;
+    }
+    setIsCheckingNotionSync(true);
+    try {
+      setNotionSync(await notionClient.getNotionSyncStatus(video.id, resolvedToken));
+    } catch (err) {
+      console.warn('[Notion] 檢查同步狀態失敗:', err);
+      setNotionSync(null);
+    } finally {
+      setIsCheckingNotionSync(false);
+    }
+  }, [linkedNotionPageId, linkedNotionEditedTime, notionAccessToken, notionToken, video.id]);
+
+  useEffect(() => {
+    checkNotionSync();
+  }, [checkNotionSync]);
+
   const handlePublishToNotion = async () => {
     if (!result) {
       return;
@@ -1271,6 +1380,15 @@ export function ArticleGenerator({ video, onClose, cachedContent, onContentUpdat
           ? video.title
           : `https://www.youtube.com/watch?v=${video.id}`,
         titleProperty: titlePropertyValue,
+        videoId: video.id,
+        pageId: willUpdateNotionPage ? linkedNotionPage?.pageId : undefined,
+        fields: {
+          titleA: result.titleA,
+          titleB: result.titleB,
+          titleC: result.titleC,
+          tags: Array.isArray(video.tags) ? video.tags : [],
+          templateId: selectedTemplateId,
+        },
       };
 
       payload.databaseId = notionDatabaseId.trim();
@@ -1314,9 +1432,17 @@ export function ArticleGenerator({ video, onClose, cachedContent, onContentUpdat
         }
       }
 
+      if (response.review) {
+        setArticleReview(response.review);
+      }
+      setPublishAsNewNotionPage(false);
       setNotionStatus({
         type: 'success',
-        message: '已成功發佈到 Notion！',
+        message:
+          (response.updated ? '已更新 Notion 頁面！' : '已成功發佈到 Notion！') +
+          (response.skippedProperties?.length
+            ? `（欄位對應與資料庫不符，已略過：${response.skippedProperties.join('、')}）`
+            : ''),
         url: response.url,
       });
     } catch (err: any) {
@@ -1330,6 +1456,13 @@ export function ArticleGenerator({ video, onClose, cachedContent, onContentUpdat
     }
   };
 
+  // 只有核准且內容與核准版本相同的文章可以發佈（伺服器端也會再檢查）
+  const isReviewApproved =
+    !!result &&
+    !!articleReview &&
+    (articleReview.status === 'approved' || articleReview.status === 'published') &&
+    articleReview.content.article === result.article;
+
   const renderNotionPanel = (showPublishControls: boolean) => {
     const hasConnected = notionAccessToken.trim().length > 0;
     const resolvedToken = (notionAccessToken || notionToken).trim();
@@ -1344,12 +1477,15 @@ export function ArticleGenerator({ video, onClose, cachedContent, onContentUpdat
     const hasTitle = notionPageTitle.trim().length > 0;
     const canPublish =
       showPublishControls &&
+      isReviewApproved &&
       Boolean(result && resolvedToken && hasDatabase && hasTitle && !isPublishingToNotion);
     const publishLabel = isPublishingToNotion
       ? '傳送中...'
-      : showPublishControls
-        ? '傳送到 Notion'
-        : '生成文章後可傳送';
+      : !showPublishControls
+        ? '生成文章後可傳送'
+        : willUpdateNotionPage
+          ? '重新發佈（更新頁面）'
+          : '傳送到 Notion';
 
     const renderDatabaseOptionLabel = (db: notionClient.NotionDatabase) => {
       if (db.icon && db.icon.length <= 4) {
@@ -1618,6 +1754,14 @@ export function ArticleGenerator({ video, onClose, cachedContent, onContentUpdat
             )}
           </div>
 
+          {notionDatabaseId.trim() && (notionAccessToken || notionToken).trim() && (
+            <NotionPropertyMappingEditor
+              databaseId={notionDatabaseId.trim()}
+              notionToken={(notionAccessToken || notionToken).trim()}
+              databaseInfo={fetchedDatabaseInfo}
+            />
+          )}
+
           <div className="rounded-lg border border-neutral-200 bg-white px-4 py-3 text-sm text-neutral-700">
             <p className="font-medium text-neutral-800">儲存內容選項</p>
             <div className="mt-3 flex flex-col gap-2">
@@ -1670,6 +1814,60 @@ export function ArticleGenerator({ video, onClose, cachedContent, onContentUpdat
           </div>
         </div>
 
+        {showPublishControls && linkedNotionPage && (
+          <div
+            className={`mt-4 rounded-lg border px-4 py-3 text-sm ${
+              notionSync?.status === 'modified' || notionSync?.status === 'missing'
+                ? 'border-amber-300 bg-amber-50 text-amber-800'
+                : 'border-neutral-200 bg-white text-neutral-700'
+            }`}
+          >
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <p>
+                已發佈於 {new Date(linkedNotionPage.publishedAt).toLocaleString('zh-TW')}・
+                <a
+                  className="font-medium underline underline-offset-2"
+                  href={notionSync?.url || linkedNotionPage.url}
+                  target="_blank"
+                  rel="noreferrer"
+                >
+                  開啟頁面
+                </a>
+              </p>
+              <button
+                type="button"
+                onClick={checkNotionSync}
+                disabled={isCheckingNotionSync}
+                className="text-xs font-medium text-neutral-500 underline-offset-2 hover:underline disabled:opacity-50"
+              >
+                {isCheckingNotionSync ? '檢查中...' : '重新檢查同步狀態'}
+              </button>
+            </div>
+            {notionSync?.status === 'in_sync' && (
+              <p className="mt-1 text-xs text-green-700">Notion 頁面與上次發佈的內容一致。</p>
+            )}
+            {notionSync?.status === 'modified' && (
+              <p className="mt-1 text-xs">
+                Notion 頁面在發佈後被編輯過（{notionSync.lastEditedTime && new Date(notionSync.lastEditedTime).toLocaleString('zh-TW')}），重新發佈會覆蓋這些修改。
+              </p>
+            )}
+            {notionSync?.status === 'missing' && (
+              <p className="mt-1 text-xs">找不到原本的頁面（可能已刪除或沒有存取權限），傳送時會建立新頁面。</p>
+            )}
+            {notionSync?.status !== 'missing' && (
+              <label className="mt-2 flex items-center text-xs text-neutral-600">
+                <input
+                  type="checkbox"
+                  checked={publishAsNewNotionPage}
+                  onChange={(e) => setPublishAsNewNotionPage(e.target.checked)}
+                  className="mr-2 h-4 w-4 accent-red-600"
+                />
+                改為建立新頁面（不更新原本的頁面）
+              </label>
+            )}
+          </div>
+        )}
+
         {notionStatus && (
           <div
             className={`mt-4 rounded-lg border px-4 py-3 text-sm ${
@@ -1724,6 +1922,11 @@ export function ArticleGenerator({ video, onClose, cachedContent, onContentUpdat
           <p className="mt-2 text-xs text-neutral-400">
             生成文章後即可啟用「傳送到 Notion」功能。
           </p>
+        )}
+        {showPublishControls && !isReviewApproved && (
+          <p className="mt-2 text-xs text-amber-700">
+            文章需通過審稿（且內容與核准版本相同）才能傳送到 Notion。
+          </p>
         )}
           </>
         )}
@@ -1963,6 +2166,22 @@ export function ArticleGenerator({ video, onClose, cachedContent, onContentUpdat
               </div>
             )}
 
+            {/* 逐字稿（公開影片且已產生逐字稿時顯示）*/}
+            {!video.isUrlOnly && (video.privacyStatus || 'public') === 'public' && transcriptSegmentCount !== null && (
+              <label className="flex items-start gap-2 cursor-pointer text-sm text-neutral-600">
+                <input
+                  type="checkbox"
+                  checked={useTranscript}
+                  onChange={(e) => setUseTranscript(e.target.checked)}
+                  className="mt-0.5 accent-red-600"
+                />
+                <span>
+                  使用已儲存的逐字稿（{transcriptSegmentCount} 段）生成文章
+                  <span className="block text-xs text-neutral-400">不重新分析影片，速度較快；截圖時間點依逐字稿推算</span>
+                </span>
+              </label>
+            )}
+
             {/* 檔案上傳區域 */}
             <div>
               <label className="block text-sm font-medium mb-2 text-neutral-700">
@@ -2455,6 +2674,14 @@ export function ArticleGenerator({ video, onClose, cachedContent, onContentUpdat
                       {result.needsScreenshots ? '截圖時間點規劃' : '關鍵畫面截圖'}
                     </h3>
                     <div className="flex gap-2">
+                      {isCapturingScreenshots && (
+                        <button
+                          onClick={handleCancelScreenshots}
+                          className="h-[40px] px-4 rounded-full border border-neutral-300 text-sm font-medium text-neutral-700 transition-colors hover:bg-neutral-100"
+                        >
+                          取消
+                        </button>
+                      )}
                       {result.needsScreenshots ? (
                         <button
                           onClick={handleCaptureScreenshots}
@@ -2583,6 +2810,32 @@ export function ArticleGenerator({ video, onClose, cachedContent, onContentUpdat
 
             </div>
           )}
+          {result && (
+            <div className="mt-6">
+              <ArticleExportMenu video={video} result={result} />
+            </div>
+          )}
+          {result && (
+            <div className="mt-6">
+              <ArticleReviewPanel
+                video={video}
+                result={result}
+                review={articleReview}
+                canApprove={canApproveReview}
+                onReviewChange={handleReviewChange}
+              />
+            </div>
+          )}
+          {result && (
+            <div className="mt-6">
+              <ArticlePublishMenu
+                video={video}
+                result={result}
+                isApproved={isReviewApproved}
+                onPublished={(review) => review && setArticleReview(review)}
+              />
+            </div>
+          )}
           <div className="mt-6">
             {renderNotionPanel(Boolean(result))}
           </div>
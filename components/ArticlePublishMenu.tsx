@@ -0,0 +1,351 @@
+import { useEffect, useState } from 'react';
+import type { ArticleGenerationResult, YouTubeVideo } from '../types';
+import * as videoApiService from '../services/videoApiService';
+import type { ArticleReview, PublishTarget, PublishTargetType } from '../services/videoApiService';
+
+interface ArticlePublishMenuProps {
+  video: YouTubeVideo;
+  result: ArticleGenerationResult;
+  /** 文章已通過審稿且內容與核准版本相同 */
+  isApproved: boolean;
+  onPublished: (review: ArticleReview | null) => void;
+}
+
+interface TargetForm {
+  id: string | null;
+  type: PublishTargetType;
+  name: string;
+  siteUrl: string;
+  username: string;
+  applicationPassword: string;
+  status: 'draft' | 'pending' | 'publish';
+  url: string;
+  secret: string;
+  embedImages: boolean;
+}
+
+const EMPTY_FORM: TargetForm = {
+  id: null,
+  type: 'wordpress',
+  name: '',
+  siteUrl: '',
+  username: '',
+  applicationPassword: '',
+  status: 'draft',
+  url: '',
+  secret: '',
+  embedImages: false,
+};
+
+const TYPE_LABELS: Record<PublishTargetType, string> = {
+  wordpress: 'WordPress',
+  webhook: 'Webhook',
+};
+
+const TITLE_OPTIONS = ['titleA', 'titleB', 'titleC'] as const;
+
+type StatusMessage = { type: 'success' | 'error'; message: string; url?: string | null };
+
+export function ArticlePublishMenu({ video, result, isApproved, onPublished }: ArticlePublishMenuProps) {
+  const [targets, setTargets] = useState<PublishTarget[]>([]);
+  const [selectedTargetId, setSelectedTargetId] = useState('');
+  const [titleKey, setTitleKey] = useState<(typeof TITLE_OPTIONS)[number]>('titleA');
+  const [isPublishing, setIsPublishing] = useState(false);
+  const [status, setStatus] = useState<StatusMessage | null>(null);
+  const [isManaging, setIsManaging] = useState(false);
+  const [form, setForm] = useState<TargetForm | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [testingId, setTestingId] = useState<string | null>(null);
+
+  const loadTargets = async () => {
+    try {
+      const items = await videoApiService.listPublishTargets();
+      setTargets(items);
+      setSelectedTargetId((current) => (items.some((item) => item.id === current) ? current : items[0]?.id ?? ''));
+    } catch (err: any) {
+      console.error('[Publish] Failed to load targets:', err);
+      setStatus({ type: 'error', message: `載入發佈目標失敗：${err.message}` });
+    }
+  };
+
+  useEffect(() => {
+    loadTargets();
+  }, []);
+
+  const handlePublish = async () => {
+    const target = targets.find((item) => item.id === selectedTargetId);
+    if (!target) return;
+
+    setIsPublishing(true);
+    setStatus(null);
+    try {
+      const hasImages = !result.needsScreenshots && Array.isArray(result.image_urls);
+      const response = await videoApiService.publishArticleToTarget(target.id, {
+        videoId: video.id,
+        title: result[titleKey] || result.titleA,
+        article: result.article,
+        seoDescription: result.seo_description,
+        // URL-only 模式：video.title 存儲的是原始 URL
+        videoUrl: video.isUrlOnly ? video.title : `https://www.youtube.com/watch?v=${video.id}`,
+        screenshotPlan: (result.screenshots ?? []).map((item) => ({
+          timestamp: item.timestamp_seconds || '',
+          reason: item.reason_for_screenshot || '',
+        })),
+        imageUrls: hasImages ? result.image_urls.filter((group) => Array.isArray(group) && group.length > 0) : [],
+      });
+      onPublished(response.review);
+      setStatus({ type: 'success', message: `已發佈到 ${target.name}`, url: response.url });
+      loadTargets();
+    } catch (err: any) {
+      console.error('[Publish] Publish failed:', err);
+      setStatus({ type: 'error', message: err.message || '發佈失敗，請稍後再試' });
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
+  const handleEdit = (target: PublishTarget) => {
+    setForm({
+      ...EMPTY_FORM,
+      id: target.id,
+      type: target.type,
+      name: target.name,
+      siteUrl: target.config.siteUrl ?? '',
+      username: target.config.username ?? '',
+      status: target.config.status ?? 'draft',
+      url: target.config.url ?? '',
+      embedImages: Boolean(target.config.embedImages),
+    });
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+    setIsSaving(true);
+    setStatus(null);
+    try {
+      const config =
+        form.type === 'wordpress'
+          ? {
+              siteUrl: form.siteUrl,
+              username: form.username,
+              applicationPassword: form.applicationPassword,
+              status: form.status,
+            }
+          : { url: form.url, secret: form.secret, embedImages: form.embedImages };
+      const saved = form.id
+        ? await videoApiService.updatePublishTarget(form.id, { name: form.name, config })
+        : await videoApiService.createPublishTarget({ type: form.type, name: form.name, config });
+      setForm(null);
+      await loadTargets();
+      setSelectedTargetId(saved.id);
+    } catch (err: any) {
+      setStatus({ type: 'error', message: `儲存失敗：${err.message}` });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (target: PublishTarget) => {
+    if (!window.confirm(`確定要刪除「${target.name}」嗎？`)) return;
+    try {
+      await videoApiService.deletePublishTarget(target.id);
+      await loadTargets();
+    } catch (err: any) {
+      setStatus({ type: 'error', message: `刪除失敗：${err.message}` });
+    }
+  };
+
+  const handleTest = async (target: PublishTarget) => {
+    setTestingId(target.id);
+    setStatus(null);
+    try {
+      const message = await videoApiService.testPublishTarget(target.id);
+      setStatus({ type: 'success', message: `${target.name}：${message}` });
+    } catch (err: any) {
+      setStatus({ type: 'error', message: `${target.name} 連線失敗：${err.message}` });
+    } finally {
+      setTestingId(null);
+    }
+  };
+
+  const updateForm = (patch: Partial<TargetForm>) => setForm((prev) => (prev ? { ...prev, ...patch } : prev));
+  const editingTarget = form?.id ? targets.find((item) => item.id === form.id) : undefined;
+  const inputClass = 'w-full rounded border border-neutral-300 px-3 py-1.5 text-sm';
+
+  return (
+    <div className="space-y-3 rounded-lg border border-neutral-200 bg-white p-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h3 className="text-lg font-semibold text-neutral-900">發佈到…</h3>
+          <p className="text-xs text-neutral-500">透過 WordPress REST API 或 Webhook 發佈，截圖會一併上傳</p>
+        </div>
+        <button
+          type="button"
+          onClick={() => {
+            setIsManaging((prev) => !prev);
+            setForm(null);
+          }}
+          className="rounded-full border border-neutral-300 px-3 py-1.5 text-xs font-medium text-neutral-600 hover:bg-neutral-100"
+        >
+          {isManaging ? '完成' : '管理發佈目標'}
+        </button>
+      </div>
+
+      {status && (
+        <div className={`rounded-lg px-3 py-2 text-sm ${status.type === 'success' ? 'bg-emerald-50 text-emerald-700' : 'bg-red-50 text-red-600'}`}>
+          {status.message}
+          {status.url && (
+            <a href={status.url} target="_blank" rel="noreferrer" className="ml-2 underline underline-offset-2">
+              開啟
+            </a>
+          )}
+        </div>
+      )}
+
+      {!isManaging && (
+        targets.length === 0 ? (
+          <p className="text-sm text-neutral-500">尚未設定發佈目標，點「管理發佈目標」新增 WordPress 網站或 Webhook。</p>
+        ) : (
+          <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
+            <select
+              value={selectedTargetId}
+              onChange={(event) => setSelectedTargetId(event.target.value)}
+              className="rounded border border-neutral-300 px-3 py-2 text-sm sm:flex-1"
+            >
+              {targets.map((target) => (
+                <option key={target.id} value={target.id}>
+                  {target.name}（{TYPE_LABELS[target.type]}）
+                </option>
+              ))}
+            </select>
+            <select
+              value={titleKey}
+              onChange={(event) => setTitleKey(event.target.value as (typeof TITLE_OPTIONS)[number])}
+              className="rounded border border-neutral-300 px-3 py-2 text-sm sm:w-48"
+            >
+              {TITLE_OPTIONS.map((key) => (
+                <option key={key} value={key} disabled={!result[key]}>
+                  標題 {key.slice(-1)}：{result[key]}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={handlePublish}
+              disabled={!isApproved || !selectedTargetId || isPublishing}
+              className="h-[40px] rounded-full bg-red-600 px-5 text-sm font-semibold text-white transition-colors hover:bg-red-700 disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              {isPublishing ? '發佈中...' : '發佈'}
+            </button>
+          </div>
+        )
+      )}
+      {!isManaging && targets.length > 0 && !isApproved && (
+        <p className="text-xs text-amber-700">文章需通過審稿（且內容與核准版本相同）才能發佈。</p>
+      )}
+
+      {isManaging && (
+        <div className="space-y-3">
+          <ul className="space-y-2">
+            {targets.map((target) => (
+              <li key={target.id} className="flex flex-wrap items-center justify-between gap-2 rounded-lg border border-neutral-200 px-3 py-2 text-sm">
+                <div className="min-w-0">
+                  <p className="truncate font-medium text-neutral-900">
+                    {target.name}
+                    <span className="ml-2 rounded-full bg-neutral-100 px-2 py-0.5 text-xs font-normal text-neutral-600">{TYPE_LABELS[target.type]}</span>
+                  </p>
+                  <p className="truncate text-xs text-neutral-500">
+                    {target.config.siteUrl || target.config.url}
+                    {target.lastPublishedAt && `・上次發佈 ${new Date(target.lastPublishedAt).toLocaleString('zh-TW')}`}
+                  </p>
+                </div>
+                <div className="flex gap-1 text-xs">
+                  <button type="button" onClick={() => handleTest(target)} disabled={testingId !== null} className="rounded-full border border-neutral-300 px-3 py-1 hover:bg-neutral-100 disabled:opacity-50">
+                    {testingId === target.id ? '測試中...' : '測試連線'}
+                  </button>
+                  <button type="button" onClick={() => handleEdit(target)} className="rounded-full border border-neutral-300 px-3 py-1 hover:bg-neutral-100">
+                    編輯
+                  </button>
+                  <button type="button" onClick={() => handleDelete(target)} className="rounded-full border border-red-200 bg-red-50 px-3 py-1 text-red-600 hover:bg-red-100">
+                    刪除
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+
+          {form ? (
+            <div className="space-y-2 rounded-lg border border-neutral-200 bg-neutral-50 p-3">
+              <div className="grid gap-2 sm:grid-cols-2">
+                <select
+                  value={form.type}
+                  onChange={(event) => updateForm({ type: event.target.value as PublishTargetType })}
+                  disabled={Boolean(form.id)}
+                  className={inputClass}
+                >
+                  <option value="wordpress">WordPress</option>
+                  <option value="webhook">Webhook</option>
+                </select>
+                <input value={form.name} onChange={(event) => updateForm({ name: event.target.value })} placeholder="名稱（例如：公司部落格）" className={inputClass} />
+              </div>
+
+              {form.type === 'wordpress' ? (
+                <div className="grid gap-2 sm:grid-cols-2">
+                  <input value={form.siteUrl} onChange={(event) => updateForm({ siteUrl: event.target.value })} placeholder="網站網址，例如 https://blog.example.com" className={`${inputClass} sm:col-span-2`} />
+                  <input value={form.username} onChange={(event) => updateForm({ username: event.target.value })} placeholder="WordPress 帳號" className={inputClass} />
+                  <input
+                    type="password"
+                    value={form.applicationPassword}
+                    onChange={(event) => updateForm({ applicationPassword: event.target.value })}
+                    placeholder={editingTarget?.secrets.applicationPassword ? '應用程式密碼（留空沿用原本的）' : '應用程式密碼'}
+                    className={inputClass}
+                  />
+                  <label className="flex items-center gap-2 text-xs text-neutral-600 sm:col-span-2">
+                    發佈狀態
+                    <select value={form.status} onChange={(event) => updateForm({ status: event.target.value as TargetForm['status'] })} className="rounded border border-neutral-300 px-2 py-1 text-xs">
+                      <option value="draft">草稿</option>
+                      <option value="pending">待審閱</option>
+                      <option value="publish">直接發佈</option>
+                    </select>
+                  </label>
+                </div>
+              ) : (
+                <div className="grid gap-2">
+                  <input value={form.url} onChange={(event) => updateForm({ url: event.target.value })} placeholder="Webhook 網址" className={inputClass} />
+                  <input
+                    type="password"
+                    value={form.secret}
+                    onChange={(event) => updateForm({ secret: event.target.value })}
+                    placeholder={editingTarget?.secrets.secret ? '簽章金鑰（留空沿用原本的）' : '簽章金鑰（選填，用於 X-Signature-256）'}
+                    className={inputClass}
+                  />
+                  <label className="flex items-center gap-2 text-xs text-neutral-600">
+                    <input type="checkbox" checked={form.embedImages} onChange={(event) => updateForm({ embedImages: event.target.checked })} />
+                    將截圖以 base64 內嵌在 payload（接收端無法連回本伺服器時使用）
+                  </label>
+                </div>
+              )}
+
+              <div className="flex justify-end gap-2">
+                <button type="button" onClick={() => setForm(null)} className="rounded-full bg-neutral-200 px-4 py-1.5 text-xs font-semibold text-neutral-700 hover:bg-neutral-300">
+                  取消
+                </button>
+                <button type="button" onClick={handleSave} disabled={isSaving} className="rounded-full bg-neutral-900 px-4 py-1.5 text-xs font-semibold text-white hover:bg-neutral-700 disabled:opacity-50">
+                  {isSaving ? '儲存中...' : '儲存'}
+                </button>
+              </div>
+            </div>
+          ) : (
+            <button
+              type="button"
+              onClick={() => setForm({ ...EMPTY_FORM })}
+              className="rounded-full border border-dashed border-neutral-400 px-4 py-1.5 text-xs font-medium text-neutral-600 hover:bg-neutral-50"
+            >
+              ＋ 新增發佈目標
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
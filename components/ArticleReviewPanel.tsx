@@ -0,0 +1,303 @@
+import { useMemo, useState } from 'react';
+import type { ArticleGenerationResult, YouTubeVideo } from '../types';
+import * as videoApiService from '../services/videoApiService';
+import type { ArticleReview, ArticleReviewComment, ArticleReviewStatus } from '../services/videoApiService';
+import { splitArticleSections } from '../utils/articleSections';
+
+interface ArticleReviewPanelProps {
+  video: YouTubeVideo;
+  result: ArticleGenerationResult;
+  review: ArticleReview | null;
+  canApprove: boolean;
+  onReviewChange: (review: ArticleReview) => void;
+}
+
+export const REVIEW_STATUS_STYLES: Record<ArticleReviewStatus, { label: string; className: string }> = {
+  draft: { label: '草稿', className: 'bg-neutral-100 text-neutral-600 ring-neutral-200' },
+  in_review: { label: '審稿中', className: 'bg-amber-50 text-amber-700 ring-amber-200' },
+  approved: { label: '已核准', className: 'bg-emerald-50 text-emerald-700 ring-emerald-200' },
+  published: { label: '已發佈', className: 'bg-blue-50 text-blue-700 ring-blue-200' },
+};
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('zh-TW', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+export function ArticleReviewPanel({ video, result, review, canApprove, onReviewChange }: ArticleReviewPanelProps) {
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [note, setNote] = useState('');
+  const [openSection, setOpenSection] = useState<number | null>(null);
+  const [commentDraft, setCommentDraft] = useState('');
+  const [showResolved, setShowResolved] = useState(false);
+
+  const sections = useMemo(() => splitArticleSections(review?.content.article ?? ''), [review?.content.article]);
+  const hasUnsubmittedChanges = !review || review.content.article !== result.article;
+
+  // 留言依段落分組；送審內容改版後段落索引可能不同，改以段落標題對回
+  const commentsBySection = useMemo(() => {
+    const grouped = new Map<number, ArticleReviewComment[]>();
+    const orphaned: ArticleReviewComment[] = [];
+    for (const comment of review?.comments ?? []) {
+      if (comment.resolved && !showResolved) continue;
+      const byIndex = sections[comment.sectionIndex];
+      const section = byIndex && (!comment.sectionHeading || byIndex.heading === comment.sectionHeading)
+        ? byIndex
+        : sections.find((item) => item.heading === comment.sectionHeading);
+      if (!section) {
+        orphaned.push(comment);
+        continue;
+      }
+      grouped.set(section.index, [...(grouped.get(section.index) ?? []), comment]);
+    }
+    return { grouped, orphaned };
+  }, [review?.comments, sections, showResolved]);
+
+  const run = async (action: () => Promise<ArticleReview>) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      onReviewChange(await action());
+      setNote('');
+    } catch (err: any) {
+      console.error('[ArticleReview] Action failed:', err);
+      setError(err.message || '操作失敗，請稍後再試');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSubmit = () =>
+    run(() =>
+      videoApiService.submitArticleForReview(
+        { id: video.id, title: video.title, isUrlOnly: video.isUrlOnly },
+        result
+      )
+    );
+
+  const handleStatus = (status: 'approved' | 'draft') =>
+    run(() => videoApiService.updateArticleReviewStatus(video.id, status, note || undefined));
+
+  const handleAddComment = async (sectionIndex: number) => {
+    const section = sections[sectionIndex];
+    if (!review || !section || !commentDraft.trim()) return;
+    setIsBusy(true);
+    setError(null);
+    try {
+      const comment = await videoApiService.addArticleReviewComment(video.id, {
+        sectionIndex,
+        sectionHeading: section.heading,
+        body: commentDraft,
+      });
+      onReviewChange({ ...review, comments: [...review.comments, comment] });
+      setCommentDraft('');
+    } catch (err: any) {
+      setError(`留言失敗：${err.message}`);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleResolve = async (comment: ArticleReviewComment) => {
+    if (!review) return;
+    try {
+      const updated = await videoApiService.setArticleReviewCommentResolved(video.id, comment.id, !comment.resolved);
+      onReviewChange({
+        ...review,
+        comments: review.comments.map((item) => (item.id === updated.id ? updated : item)),
+      });
+    } catch (err: any) {
+      setError(`更新留言失敗：${err.message}`);
+    }
+  };
+
+  const renderComment = (comment: ArticleReviewComment) => (
+    <li key={comment.id} className={`rounded-lg border px-3 py-2 text-xs ${comment.resolved ? 'border-neutral-100 bg-neutral-50 text-neutral-400' : 'border-amber-200 bg-amber-50 text-neutral-700'}`}>
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-semibold">{comment.author}</span>
+        <span className="text-neutral-400">{formatTime(comment.createdAt)}</span>
+      </div>
+      <p className="mt-1 whitespace-pre-wrap">{comment.body}</p>
+      <button
+        type="button"
+        onClick={() => handleResolve(comment)}
+        className="mt-1 text-[11px] font-medium text-neutral-500 underline-offset-2 hover:underline"
+      >
+        {comment.resolved ? '重新開啟' : '標記為已解決'}
+      </button>
+    </li>
+  );
+
+  const status = review ? REVIEW_STATUS_STYLES[review.status] : REVIEW_STATUS_STYLES.draft;
+
+  return (
+    <div className="space-y-4 rounded-lg border border-neutral-200 bg-white p-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h3 className="text-lg font-semibold text-neutral-900">審稿</h3>
+          <p className="text-xs text-neutral-500">
+            文章需經其他成員核准後才能傳送到 Notion
+            {review && `・送審者：${review.owner}`}
+          </p>
+        </div>
+        <span className={`rounded-full px-3 py-1 text-xs font-semibold ring-1 ${status.className}`}>
+          {review ? status.label : '尚未送審'}
+        </span>
+      </div>
+
+      {error && <div className="rounded-lg bg-red-50 px-3 py-2 text-sm text-red-600">{error}</div>}
+
+      {review?.published && (
+        <p className="text-xs text-blue-700">
+          已於 {formatTime(review.published.at)} 由 {review.published.by} 發佈
+          {review.published.url && (
+            <>
+              ・
+              <a href={review.published.url} target="_blank" rel="noreferrer" className="underline underline-offset-2">
+                開啟頁面
+              </a>
+            </>
+          )}
+        </p>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        {hasUnsubmittedChanges && (
+          <button
+            type="button"
+            onClick={handleSubmit}
+            disabled={isBusy}
+            className="rounded-full bg-neutral-900 px-4 py-1.5 text-xs font-semibold text-white hover:bg-neutral-700 disabled:opacity-50"
+          >
+            {review ? '以目前內容重新送審' : '送出審稿'}
+          </button>
+        )}
+        {review?.status === 'in_review' && !hasUnsubmittedChanges && (
+          canApprove ? (
+            <>
+              <button
+                type="button"
+                onClick={() => handleStatus('approved')}
+                disabled={isBusy}
+                className="rounded-full bg-emerald-600 px-4 py-1.5 text-xs font-semibold text-white hover:bg-emerald-700 disabled:opacity-50"
+              >
+                核准
+              </button>
+              <button
+                type="button"
+                onClick={() => handleStatus('draft')}
+                disabled={isBusy}
+                className="rounded-full border border-red-200 bg-red-50 px-4 py-1.5 text-xs font-semibold text-red-600 hover:bg-red-100 disabled:opacity-50"
+              >
+                退回修改
+              </button>
+            </>
+          ) : (
+            <span className="text-xs text-neutral-500">等待其他成員審稿</span>
+          )
+        )}
+        {review?.status === 'approved' && (
+          <button
+            type="button"
+            onClick={() => handleStatus('draft')}
+            disabled={isBusy}
+            className="rounded-full border border-neutral-300 px-4 py-1.5 text-xs font-semibold text-neutral-600 hover:bg-neutral-100 disabled:opacity-50"
+          >
+            撤銷核准
+          </button>
+        )}
+        {hasUnsubmittedChanges && review && (
+          <span className="text-xs text-amber-700">目前內容與送審版本不同，需重新送審</span>
+        )}
+      </div>
+
+      {review && ['in_review', 'approved'].includes(review.status) && !hasUnsubmittedChanges && (
+        <input
+          value={note}
+          onChange={(event) => setNote(event.target.value)}
+          placeholder="備註（選填，例如退回原因）"
+          className="w-full rounded border border-neutral-300 px-3 py-1.5 text-xs"
+        />
+      )}
+
+      {review && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <h4 className="text-sm font-semibold text-neutral-800">段落留言</h4>
+            <label className="flex items-center gap-1 text-xs text-neutral-500">
+              <input type="checkbox" checked={showResolved} onChange={(event) => setShowResolved(event.target.checked)} />
+              顯示已解決
+            </label>
+          </div>
+          <ul className="space-y-2">
+            {sections.map((section) => {
+              const comments = commentsBySection.grouped.get(section.index) ?? [];
+              const isOpen = openSection === section.index;
+              return (
+                <li key={section.index} className="rounded-lg border border-neutral-200">
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setOpenSection(isOpen ? null : section.index);
+                      setCommentDraft('');
+                    }}
+                    className="flex w-full items-center justify-between gap-2 px-3 py-2 text-left text-xs hover:bg-neutral-50"
+                  >
+                    <span className="truncate font-medium text-neutral-800">{section.heading || `段落 ${section.index + 1}`}</span>
+                    {comments.length > 0 && (
+                      <span className="shrink-0 rounded-full bg-amber-100 px-2 py-0.5 text-amber-700">{comments.length} 則留言</span>
+                    )}
+                  </button>
+                  {(isOpen || comments.length > 0) && (
+                    <div className="space-y-2 border-t border-neutral-100 px-3 py-2">
+                      {isOpen && <p className="line-clamp-4 text-xs text-neutral-500">{section.text}</p>}
+                      <ul className="space-y-1">{comments.map(renderComment)}</ul>
+                      {isOpen && (
+                        <div className="flex gap-2">
+                          <textarea
+                            value={commentDraft}
+                            onChange={(event) => setCommentDraft(event.target.value)}
+                            rows={2}
+                            placeholder="針對這個段落留言..."
+                            className="flex-1 rounded border border-neutral-300 px-2 py-1 text-xs"
+                          />
+                          <button
+                            type="button"
+                            onClick={() => handleAddComment(section.index)}
+                            disabled={isBusy || !commentDraft.trim()}
+                            className="self-end rounded-full bg-neutral-900 px-3 py-1.5 text-xs font-semibold text-white hover:bg-neutral-700 disabled:opacity-50"
+                          >
+                            留言
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+          {commentsBySection.orphaned.length > 0 && (
+            <div className="space-y-1">
+              <p className="text-xs font-medium text-neutral-500">段落已變更的留言</p>
+              <ul className="space-y-1">{commentsBySection.orphaned.map(renderComment)}</ul>
+            </div>
+          )}
+        </div>
+      )}
+
+      {review && review.history.length > 0 && (
+        <details className="text-xs text-neutral-500">
+          <summary className="cursor-pointer font-medium">狀態歷程</summary>
+          <ul className="mt-2 space-y-1">
+            {[...review.history].reverse().map((entry, index) => (
+              <li key={index}>
+                {formatTime(entry.at)}・{entry.by} → {REVIEW_STATUS_STYLES[entry.status].label}
+                {entry.note && `（${entry.note}）`}
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import * as videoApiService from '../services/videoApiService';
+import type { ArticleReviewStatus, ArticleReviewSummary } from '../services/videoApiService';
+import { REVIEW_STATUS_STYLES } from './ArticleReviewPanel';
+
+interface ArticleReviewQueueProps {
+  onOpen: (review: ArticleReviewSummary) => void;
+}
+
+const STATUS_TABS: Array<{ value: ArticleReviewStatus | 'all'; label: string }> = [
+  { value: 'in_review', label: '待審稿' },
+  { value: 'approved', label: '已核准' },
+  { value: 'published', label: '已發佈' },
+  { value: 'all', label: '全部' },
+];
+
+export function ArticleReviewQueue({ onOpen }: ArticleReviewQueueProps) {
+  const [status, setStatus] = useState<ArticleReviewStatus | 'all'>('in_review');
+  const [reviews, setReviews] = useState<ArticleReviewSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const requestIdRef = useRef(0);
+
+  // 切換分頁時直接重新載入；只套用最後一次請求的結果，避免快速切換時被較慢的回應覆蓋
+  const loadReviews = useCallback(async (nextStatus: ArticleReviewStatus | 'all') => {
+    const requestId = ++requestIdRef.current;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const items = await videoApiService.listArticleReviews(nextStatus === 'all' ? undefined : nextStatus);
+      if (requestId === requestIdRef.current) setReviews(items);
+    } catch (err: any) {
+      if (requestId === requestIdRef.current) setError(`載入審稿佇列失敗：${err.message}`);
+    } finally {
+      if (requestId === requestIdRef.current) setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadReviews('in_review');
+  }, [loadReviews]);
+
+  const handleSelectStatus = (nextStatus: ArticleReviewStatus | 'all') => {
+    setStatus(nextStatus);
+    loadReviews(nextStatus);
+  };
+
+  return (
+    <div className="rounded-2xl border border-neutral-200 bg-white p-5 shadow-sm">
+      <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
+        <h2 className="text-base font-semibold text-neutral-900">審稿佇列</h2>
+        <div className="flex gap-1">
+          {STATUS_TABS.map((tab) => (
+            <button
+              key={tab.value}
+              type="button"
+              onClick={() => handleSelectStatus(tab.value)}
+              className={`rounded-full px-3 py-1 text-xs font-medium transition ${
+                status === tab.value ? 'bg-neutral-900 text-white' : 'bg-neutral-100 text-neutral-600 hover:bg-neutral-200'
+              }`}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error && <div className="rounded-lg bg-red-50 px-3 py-2 text-sm text-red-600">{error}</div>}
+      {isLoading && reviews.length === 0 && <p className="text-sm text-neutral-500">載入中...</p>}
+      {!isLoading && !error && reviews.length === 0 && (
+        <p className="text-sm text-neutral-500">目前沒有符合條件的文章。</p>
+      )}
+
+      <div className="grid gap-2 sm:grid-cols-2 lg:grid-cols-3">
+        {reviews.map((review) => {
+          const style = REVIEW_STATUS_STYLES[review.status];
+          return (
+            <button
+              key={review.videoId}
+              type="button"
+              onClick={() => onOpen(review)}
+              className="flex flex-col items-start gap-1 rounded-xl border border-neutral-200 px-4 py-3 text-left text-sm transition hover:border-red-400 hover:bg-red-50"
+            >
+              <span className="line-clamp-2 font-medium text-neutral-900">{review.title || review.video.title}</span>
+              <span className="flex flex-wrap items-center gap-2 text-xs text-neutral-400">
+                <span className={`rounded-full px-2 py-0.5 font-semibold ring-1 ${style.className}`}>{style.label}</span>
+                {review.openComments > 0 && <span className="text-amber-700">{review.openComments} 則未解決留言</span>}
+              </span>
+              <span className="text-xs text-neutral-400">
+                {review.owner}・
+                {new Date(review.updatedAt).toLocaleDateString('zh-TW', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}
+              </span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
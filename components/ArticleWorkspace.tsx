@@ -2,10 +2,19 @@ import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import type { ArticleGenerationResult, YouTubeVideo } from '../types';
 import * as youtubeService from '../services/youtubeService';
 import * as draftService from '../services/draftService';
-import type { ArticleDraft } from '../services/draftService';
+import type { ArticleDraftRevision, ArticleDraftSummary } from '../services/draftService';
 import { GITHUB_GIST_ID } from '../config';
 import { ArticleGenerator } from './ArticleGenerator';
+import { ArticleDraftHistory } from './ArticleDraftHistory';
+import { ArticleReviewQueue } from './ArticleReviewQueue';
+import * as videoApiService from '../services/videoApiService';
+import type { ArticleReviewSummary } from '../services/videoApiService';
 import { Loader } from './Loader';
+import type { OpenArticlePayload } from './TaskHistoryPanel';
+
+interface ArticleWorkspaceProps {
+  openedArticle?: OpenArticlePayload | null; // 從「我的任務」開啟的文章結果
+}
 
 function extractVideoId(raw: string): string | null {
   if (!raw) return null;
@@ -32,7 +41,7 @@ function extractVideoId(raw: string): string | null {
   return null;
 }
 
-export function ArticleWorkspace() {
+export function ArticleWorkspace({ openedArticle }: ArticleWorkspaceProps) {
   const [urlInput, setUrlInput] = useState('');
   const [searchQuery, setSearchQuery] = useState('');
   const [searchResults, setSearchResults] = useState<YouTubeVideo[]>([]);
@@ -41,22 +50,36 @@ export function ArticleWorkspace() {
   const [error, setError] = useState<string | null>(null);
   const [selectedVideo, setSelectedVideo] = useState<YouTubeVideo | null>(null);
   const [cachedArticle, setCachedArticle] = useState<ArticleGenerationResult | null>(null);
-  const [drafts, setDrafts] = useState<ArticleDraft[]>([]);
+  const [drafts, setDrafts] = useState<ArticleDraftSummary[]>([]);
+  const [draftVersion, setDraftVersion] = useState(0);
 
-  // Init Google sub for draft namespacing, load draft list
-  useEffect(() => {
-    draftService.initUserSub(youtubeService.getAccessToken()).then(() => {
-      setDrafts(draftService.loadDrafts());
-    });
+  const refreshDrafts = useCallback(async () => {
+    try {
+      setDrafts(await draftService.loadDrafts());
+    } catch (err) {
+      console.warn('[ArticleWorkspace] 無法載入草稿列表:', err);
+    }
   }, []);
 
+  // 找出此帳號的本機舊草稿（首次載入時搬移到伺服器），再載入草稿列表
+  useEffect(() => {
+    draftService.initUserSub(youtubeService.getAccessToken()).then(refreshDrafts);
+  }, [refreshDrafts]);
+
+  useEffect(() => {
+    if (openedArticle) {
+      setSelectedVideo(openedArticle.video);
+      setCachedArticle(openedArticle.result);
+    }
+  }, [openedArticle]);
+
   const clearSelection = useCallback(() => {
     setSelectedVideo(null);
     setCachedArticle(null);
-    setDrafts(draftService.loadDrafts());
-  }, []);
+    refreshDrafts();
+  }, [refreshDrafts]);
 
-  const handleRestoreDraft = useCallback((draft: ArticleDraft) => {
+  const handleRestoreDraft = useCallback(async (draft: ArticleDraftSummary) => {
     const video: YouTubeVideo = {
       id: draft.video.id,
       title: draft.video.title,
@@ -67,13 +90,66 @@ export function ArticleWorkspace() {
       isUrlOnly: draft.video.isUrlOnly,
     };
     setSelectedVideo(video);
-    setCachedArticle(draft.result);
+    setCachedArticle(null);
+    setError(null);
+    try {
+      const detail = await draftService.getDraft(draft.videoId);
+      const latest = detail?.revisions[0];
+      if (!latest) {
+        setError('找不到這份草稿的內容，可能已被刪除');
+        return;
+      }
+      setCachedArticle(latest.result);
+    } catch (err: any) {
+      setError(`載入草稿失敗：${err?.message || '未知錯誤'}`);
+    }
+  }, []);
+
+  // 從審稿佇列開啟其他成員送審的文章（內容以送審版本為準）
+  const handleOpenReview = useCallback(async (review: ArticleReviewSummary) => {
+    setSelectedVideo({
+      id: review.video.id,
+      title: review.video.title,
+      description: '',
+      thumbnailUrl: '',
+      tags: [],
+      categoryId: '',
+      isUrlOnly: review.video.isUrlOnly,
+    });
+    setCachedArticle(null);
+    setError(null);
+    try {
+      const detail = await videoApiService.getArticleReview(review.videoId);
+      if (!detail) {
+        setError('找不到這篇審稿文章，可能已被移除');
+        return;
+      }
+      setCachedArticle(detail.review.content);
+    } catch (err: any) {
+      setError(`載入審稿文章失敗：${err?.message || '未知錯誤'}`);
+    }
   }, []);
 
-  const handleDeleteDraft = useCallback((id: string, e: React.MouseEvent) => {
+  const handleDeleteDraft = useCallback(async (videoId: string, e: React.MouseEvent) => {
     e.stopPropagation();
-    draftService.deleteDraft(id);
-    setDrafts(draftService.loadDrafts());
+    try {
+      await draftService.deleteDraft(videoId);
+    } catch (err: any) {
+      setError(`刪除草稿失敗：${err?.message || '未知錯誤'}`);
+    }
+    refreshDrafts();
+  }, [refreshDrafts]);
+
+  // 生成或截圖完成時草稿已存成新版本，更新版本列表
+  const handleContentUpdate = useCallback((result: ArticleGenerationResult | null) => {
+    setCachedArticle(result);
+    if (result) {
+      setDraftVersion((prev) => prev + 1);
+    }
+  }, []);
+
+  const handleDraftRestored = useCallback((revision: ArticleDraftRevision) => {
+    setCachedArticle(revision.result);
   }, []);
 
   const handleLoadFromUrl = async () => {
@@ -290,18 +366,19 @@ export function ArticleWorkspace() {
           <div className="grid gap-2 sm:grid-cols-2 lg:grid-cols-3">
             {drafts.map((draft) => (
               <button
-                key={draft.id}
+                key={draft.videoId}
                 type="button"
                 onClick={() => handleRestoreDraft(draft)}
                 className="relative group flex flex-col items-start rounded-xl border border-neutral-200 px-4 py-3 text-left text-sm transition hover:border-red-400 hover:bg-red-50"
               >
                 <span className="font-medium text-neutral-900 line-clamp-2 pr-6">{draft.video.title}</span>
                 <span className="mt-1 text-xs text-neutral-400">
-                  {new Date(draft.savedAt).toLocaleDateString('zh-TW', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}
+                  {new Date(draft.updatedAt).toLocaleDateString('zh-TW', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}
+                  {draft.revisionCount > 1 && `・${draft.revisionCount} 個版本`}
                 </span>
                 <button
                   type="button"
-                  onClick={(e) => handleDeleteDraft(draft.id, e)}
+                  onClick={(e) => handleDeleteDraft(draft.videoId, e)}
                   className="absolute right-2 top-2 p-1 rounded-full text-neutral-300 hover:text-red-500 hover:bg-red-100 opacity-0 group-hover:opacity-100 transition-opacity"
                   title="刪除草稿"
                 >
@@ -315,6 +392,9 @@ export function ArticleWorkspace() {
         </div>
       )}
 
+      {/* 共用審稿佇列（未選擇影片時顯示）*/}
+      {!hasSelection && <ArticleReviewQueue onOpen={handleOpenReview} />}
+
       <div className="rounded-2xl border border-dashed border-neutral-300 bg-white/70 p-4 shadow-sm">
         {hasSelection && selectedVideo ? (
           <div className="space-y-4">
@@ -349,9 +429,14 @@ export function ArticleWorkspace() {
             <ArticleGenerator
               video={selectedVideo}
               cachedContent={cachedArticle}
-              onContentUpdate={setCachedArticle}
+              onContentUpdate={handleContentUpdate}
               onClose={clearSelection}
             />
+            <ArticleDraftHistory
+              videoId={selectedVideo.id}
+              refreshKey={draftVersion}
+              onRestored={handleDraftRestored}
+            />
           </div>
         ) : (
           <div className="flex items-center justify-center py-16 text-center text-neutral-500">
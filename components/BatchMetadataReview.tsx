@@ -0,0 +1,482 @@
+import { useEffect, useMemo, useState } from 'react';
+import type { GeneratedContentType, YouTubeVideo } from '../types';
+import * as videoApiService from '../services/videoApiService';
+import type { BatchStatus, BatchTaskStatus } from '../services/videoApiService';
+import * as taskPollingService from '../services/taskPollingService';
+import * as metadataUpdateService from '../services/metadataUpdateService';
+import type { VideoMetadataFields } from '../services/metadataUpdateService';
+
+interface BatchMetadataReviewProps {
+  videos: YouTubeVideo[];
+  onClose: () => void;
+  onVideoUpdate?: (updatedVideo: Partial<YouTubeVideo> & { id: string }) => void;
+}
+
+type Decision = 'pending' | 'accepted' | 'rejected';
+type FieldKey = 'title' | 'description' | 'tags';
+type PushStatus = 'idle' | 'loading' | 'success' | 'error';
+
+interface FieldReview {
+  value: string;
+  decision: Decision;
+}
+
+interface RowReview {
+  title: FieldReview;
+  description: FieldReview;
+  tags: FieldReview;
+  pushStatus: PushStatus;
+  pushError?: string;
+}
+
+const FIELD_LABELS: Record<FieldKey, string> = {
+  title: '標題',
+  description: '說明',
+  tags: '標籤',
+};
+
+const FIELDS: FieldKey[] = ['title', 'description', 'tags'];
+
+// 每支影片推送：videos.list（1）+ videos.update（50）
+const QUOTA_PER_PUSH = 51;
+const POLL_INTERVAL_MS = 3000;
+
+const STATUS_LABELS: Record<BatchTaskStatus['status'], string> = {
+  pending: '排隊中',
+  processing: '生成中',
+  completed: '待審核',
+  failed: '失敗',
+  cancelled: '已取消',
+};
+
+const isBatchSupported = (video: YouTubeVideo) => !video.privacyStatus || video.privacyStatus === 'public';
+
+const createRowReview = (metadata: GeneratedContentType): RowReview => ({
+  title: { value: metadata.titleA, decision: 'pending' },
+  description: { value: metadata.description, decision: 'pending' },
+  tags: { value: metadata.tags.join(', '), decision: 'pending' },
+  pushStatus: 'idle',
+});
+
+const parseTags = (value: string) => value.split(',').map((tag) => tag.trim()).filter(Boolean);
+
+const getAcceptedChanges = (review: RowReview): Partial<VideoMetadataFields> => {
+  const changes: Partial<VideoMetadataFields> = {};
+  if (review.title.decision === 'accepted') changes.title = review.title.value;
+  if (review.description.decision === 'accepted') changes.description = review.description.value;
+  if (review.tags.decision === 'accepted') changes.tags = parseTags(review.tags.value);
+  return changes;
+};
+
+export function BatchMetadataReview({ videos, onClose, onVideoUpdate }: BatchMetadataReviewProps) {
+  const [prompt, setPrompt] = useState('');
+  const [batchId, setBatchId] = useState<string | null>(null);
+  const [batch, setBatch] = useState<BatchStatus | null>(null);
+  const [reviews, setReviews] = useState<Record<string, RowReview>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
+  const [isConfirmingPush, setIsConfirmingPush] = useState(false);
+  const [isPushing, setIsPushing] = useState(false);
+
+  const supportedVideos = useMemo(() => videos.filter(isBatchSupported), [videos]);
+  const skippedCount = videos.length - supportedVideos.length;
+
+  const tasksByVideo = useMemo(() => {
+    const map = new Map<string, BatchTaskStatus>();
+    batch?.tasks.forEach((task) => map.set(task.videoId, task));
+    return map;
+  }, [batch]);
+
+  const isBatchRunning = Boolean(
+    batch && batch.tasks.some((task) => task.status === 'pending' || task.status === 'processing')
+  );
+
+  // 定期更新批次狀態，直到所有任務結束
+  useEffect(() => {
+    if (!batchId) return;
+    let stopped = false;
+
+    const refresh = async () => {
+      try {
+        const status = await videoApiService.getMetadataBatch(batchId);
+        if (stopped) return;
+        setBatch(status);
+        setReviews((prev) => {
+          const next = { ...prev };
+          status.tasks.forEach((task) => {
+            if (task.metadata && !next[task.videoId]) {
+              next[task.videoId] = createRowReview(task.metadata);
+            }
+          });
+          return next;
+        });
+        const finished = status.tasks.every(
+          (task) => task.status !== 'pending' && task.status !== 'processing'
+        );
+        if (!finished) {
+          timer = window.setTimeout(refresh, POLL_INTERVAL_MS);
+        }
+      } catch (err: any) {
+        console.error('[BatchMetadata] Failed to refresh batch:', err);
+        if (!stopped) setError(err.message ?? '取得批次狀態失敗');
+      }
+    };
+
+    let timer = window.setTimeout(refresh, 0);
+    return () => {
+      stopped = true;
+      window.clearTimeout(timer);
+    };
+  }, [batchId]);
+
+  const handleStart = async () => {
+    setIsStarting(true);
+    setError(null);
+    try {
+      const { batchId: newBatchId } = await videoApiService.createMetadataBatch(
+        supportedVideos.map((video) => ({ videoId: video.id, videoTitle: video.title })),
+        prompt
+      );
+      setBatchId(newBatchId);
+    } catch (err: any) {
+      console.error('[BatchMetadata] Failed to start batch:', err);
+      setError(`建立批次失敗：${err.message}`);
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const handleCancelRemaining = async () => {
+    if (!batch) return;
+    const activeTasks = batch.tasks.filter((task) => task.status === 'pending' || task.status === 'processing');
+    await Promise.allSettled(activeTasks.map((task) => taskPollingService.cancelTask(task.id)));
+    setBatch((prev) => prev && {
+      ...prev,
+      tasks: prev.tasks.map((task) =>
+        activeTasks.some((active) => active.id === task.id) ? { ...task, status: 'cancelled' } : task
+      ),
+    });
+  };
+
+  const updateRow = (videoId: string, update: (review: RowReview) => RowReview) => {
+    setReviews((prev) => {
+      const review = prev[videoId];
+      return review ? { ...prev, [videoId]: update(review) } : prev;
+    });
+  };
+
+  const updateField = (videoId: string, field: FieldKey, patch: Partial<FieldReview>) => {
+    updateRow(videoId, (review) => ({ ...review, [field]: { ...review[field], ...patch } }));
+  };
+
+  const setRowPushState = (videoId: string, pushStatus: PushStatus, pushError?: string) => {
+    updateRow(videoId, (review) => ({ ...review, pushStatus, pushError }));
+  };
+
+  const handleAcceptAll = (field: FieldKey) => {
+    setReviews((prev) => {
+      const next: Record<string, RowReview> = {};
+      Object.entries(prev).forEach(([videoId, review]) => {
+        next[videoId] = review.pushStatus !== 'success' && review[field].decision === 'pending'
+          ? { ...review, [field]: { ...review[field], decision: 'accepted' } }
+          : review;
+      });
+      return next;
+    });
+  };
+
+  const pushableReviews = Object.entries(reviews).filter(
+    ([, review]) => review.pushStatus !== 'success' && Object.keys(getAcceptedChanges(review)).length > 0
+  );
+
+  const handlePush = async () => {
+    setIsConfirmingPush(false);
+    setIsPushing(true);
+    setError(null);
+
+    // 依序推送，避免同時大量呼叫 YouTube API
+    for (const [videoId, review] of pushableReviews) {
+      const video = videos.find((item) => item.id === videoId);
+      const changes = getAcceptedChanges(review);
+      setRowPushState(videoId, 'loading');
+      try {
+        const updated = await metadataUpdateService.updateVideoMetadata(videoId, changes, {
+          categoryId: video?.categoryId,
+          source: 'BatchMetadataReview',
+          trigger: 'batch-metadata-update',
+        });
+        setRowPushState(videoId, 'success');
+        onVideoUpdate?.({
+          id: videoId,
+          title: updated.title,
+          description: updated.description,
+          tags: updated.tags,
+        });
+      } catch (err: any) {
+        console.error(`[BatchMetadata] Update failed for ${videoId}:`, err);
+        setRowPushState(videoId, 'error', err.message);
+      }
+    }
+
+    setIsPushing(false);
+  };
+
+  const renderDecisionButtons = (videoId: string, field: FieldKey, review: RowReview) => {
+    const decision = review[field].decision;
+    const disabled = review.pushStatus === 'success' || isPushing;
+    return (
+      <div className="flex shrink-0 gap-1">
+        <button
+          type="button"
+          onClick={() => updateField(videoId, field, { decision: decision === 'accepted' ? 'pending' : 'accepted' })}
+          disabled={disabled}
+          className={`rounded-md px-2 py-1 text-xs font-semibold transition-colors disabled:opacity-50 ${
+            decision === 'accepted' ? 'bg-emerald-600 text-white' : 'bg-emerald-50 text-emerald-700 hover:bg-emerald-100'
+          }`}
+        >
+          接受
+        </button>
+        <button
+          type="button"
+          onClick={() => updateField(videoId, field, { decision: decision === 'rejected' ? 'pending' : 'rejected' })}
+          disabled={disabled}
+          className={`rounded-md px-2 py-1 text-xs font-semibold transition-colors disabled:opacity-50 ${
+            decision === 'rejected' ? 'bg-neutral-700 text-white' : 'bg-neutral-100 text-neutral-600 hover:bg-neutral-200'
+          }`}
+        >
+          拒絕
+        </button>
+      </div>
+    );
+  };
+
+  const renderReviewFields = (video: YouTubeVideo, task: BatchTaskStatus, review: RowReview) => (
+    <div className="space-y-3">
+      <div className="space-y-1">
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-xs font-semibold text-neutral-600">{FIELD_LABELS.title}</span>
+          {renderDecisionButtons(video.id, 'title', review)}
+        </div>
+        <div className="flex flex-wrap gap-1">
+          {(['titleA', 'titleB', 'titleC'] as const).map((key, index) => (
+            <button
+              key={key}
+              type="button"
+              onClick={() => updateField(video.id, 'title', { value: task.metadata![key] })}
+              className={`rounded-full px-2 py-0.5 text-[11px] ring-1 transition-colors ${
+                review.title.value === task.metadata![key]
+                  ? 'bg-red-50 text-red-600 ring-red-200'
+                  : 'bg-white text-neutral-500 ring-neutral-200 hover:bg-neutral-50'
+              }`}
+              title={task.metadata![key]}
+            >
+              建議 {String.fromCharCode(65 + index)}
+            </button>
+          ))}
+        </div>
+        <input
+          type="text"
+          value={review.title.value}
+          onChange={(event) => updateField(video.id, 'title', { value: event.target.value })}
+          className="w-full rounded-lg border border-neutral-300 px-3 py-1.5 text-sm text-neutral-900 focus:outline-none focus:ring-2 focus:ring-red-500"
+        />
+      </div>
+
+      <div className="space-y-1">
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-xs font-semibold text-neutral-600">{FIELD_LABELS.description}</span>
+          {renderDecisionButtons(video.id, 'description', review)}
+        </div>
+        <textarea
+          value={review.description.value}
+          onChange={(event) => updateField(video.id, 'description', { value: event.target.value })}
+          rows={4}
+          className="w-full rounded-lg border border-neutral-300 px-3 py-1.5 font-mono text-xs text-neutral-900 focus:outline-none focus:ring-2 focus:ring-red-500"
+        />
+      </div>
+
+      <div className="space-y-1">
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-xs font-semibold text-neutral-600">{FIELD_LABELS.tags}（以逗號分隔）</span>
+          {renderDecisionButtons(video.id, 'tags', review)}
+        </div>
+        <input
+          type="text"
+          value={review.tags.value}
+          onChange={(event) => updateField(video.id, 'tags', { value: event.target.value })}
+          className="w-full rounded-lg border border-neutral-300 px-3 py-1.5 text-xs text-neutral-900 focus:outline-none focus:ring-2 focus:ring-red-500"
+        />
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[1000] flex items-center justify-center bg-black/60 backdrop-blur-sm">
+      <div className="flex max-h-[90vh] w-[min(1200px,95vw)] flex-col overflow-hidden rounded-2xl border border-neutral-200 bg-white shadow-2xl">
+        <header className="flex flex-wrap items-center justify-between gap-3 border-b border-neutral-200 bg-neutral-50 px-5 py-3">
+          <div>
+            <h2 className="text-lg font-semibold text-neutral-900">批次生成中繼資料</h2>
+            <p className="text-xs text-neutral-500">
+              {batch
+                ? `共 ${batch.summary.total} 支・完成 ${batch.summary.completed ?? 0}・失敗 ${batch.summary.failed ?? 0}・排隊/執行中 ${(batch.summary.pending ?? 0) + (batch.summary.processing ?? 0)}`
+                : `已選擇 ${videos.length} 支影片`}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            {isBatchRunning && (
+              <button
+                type="button"
+                onClick={handleCancelRemaining}
+                className="rounded-full border border-red-200 bg-red-50 px-3 py-1 text-sm font-medium text-red-600 transition hover:bg-red-100"
+              >
+                取消未完成的任務
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={onClose}
+              disabled={isPushing}
+              className="rounded-full border border-neutral-300 px-3 py-1 text-sm font-medium text-neutral-600 transition hover:bg-neutral-100 disabled:opacity-60"
+            >
+              關閉
+            </button>
+          </div>
+        </header>
+
+        {error && <div className="bg-red-50 px-5 py-3 text-sm text-red-600">{error}</div>}
+
+        {!batchId ? (
+          <div className="space-y-4 overflow-y-auto p-5">
+            <div>
+              <label className="mb-2 block text-sm font-medium text-neutral-700">額外提示（選填，套用到所有影片）</label>
+              <input
+                type="text"
+                value={prompt}
+                onChange={(event) => setPrompt(event.target.value)}
+                placeholder="例如：標題避免使用誇張用語"
+                className="w-full rounded-lg border border-neutral-300 px-3 py-2 text-neutral-900 focus:outline-none focus:ring-2 focus:ring-red-500"
+              />
+            </div>
+            {skippedCount > 0 && (
+              <p className="rounded-lg bg-amber-50 px-3 py-2 text-xs text-amber-800">
+                {skippedCount} 支未公開或私人影片無法以 YouTube URL 批次分析，將略過（可在影片詳細頁個別生成）。
+              </p>
+            )}
+            <ul className="max-h-64 divide-y divide-neutral-100 overflow-y-auto rounded-lg border border-neutral-200">
+              {videos.map((video) => (
+                <li key={video.id} className="flex items-center gap-3 px-3 py-2 text-sm">
+                  {video.thumbnailUrl && <img src={video.thumbnailUrl} alt="" className="h-9 w-16 rounded object-cover" />}
+                  <span className={`line-clamp-1 flex-1 ${isBatchSupported(video) ? 'text-neutral-800' : 'text-neutral-400 line-through'}`}>
+                    {video.title}
+                  </span>
+                </li>
+              ))}
+            </ul>
+            <button
+              type="button"
+              onClick={handleStart}
+              disabled={isStarting || supportedVideos.length === 0}
+              className="w-full rounded-full bg-red-600 py-3 font-bold text-white shadow-md transition hover:bg-red-700 disabled:cursor-not-allowed disabled:bg-neutral-400"
+            >
+              {isStarting ? '建立任務中...' : `為 ${supportedVideos.length} 支影片排入生成任務`}
+            </button>
+            <p className="text-center text-xs text-neutral-500">
+              任務在伺服器背景排隊執行，關閉此視窗不會中斷，也可在「我的任務」查看進度。
+            </p>
+          </div>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center gap-2 border-b border-neutral-200 px-5 py-2 text-xs">
+              <span className="text-neutral-500">全部接受：</span>
+              {FIELDS.map((field) => (
+                <button
+                  key={field}
+                  type="button"
+                  onClick={() => handleAcceptAll(field)}
+                  disabled={isPushing}
+                  className="rounded-full bg-emerald-50 px-3 py-1 font-medium text-emerald-700 transition hover:bg-emerald-100 disabled:opacity-50"
+                >
+                  {FIELD_LABELS[field]}
+                </button>
+              ))}
+            </div>
+
+            <ul className="flex-1 divide-y divide-neutral-100 overflow-y-auto">
+              {supportedVideos.map((video) => {
+                const task = tasksByVideo.get(video.id);
+                const review = reviews[video.id];
+                return (
+                  <li key={video.id} className="grid gap-4 px-5 py-4 md:grid-cols-[260px_minmax(0,1fr)]">
+                    <div className="space-y-2">
+                      {video.thumbnailUrl && (
+                        <img src={video.thumbnailUrl} alt="" className="aspect-video w-full rounded-lg object-cover" />
+                      )}
+                      <p className="line-clamp-2 text-sm font-medium text-neutral-900">{video.title}</p>
+                      <p className="text-xs text-neutral-500">
+                        {task ? STATUS_LABELS[task.status] : '載入中'}
+                        {task?.status === 'pending' && task.queuePosition ? `・第 ${task.queuePosition} 位` : ''}
+                        {task?.status === 'processing' ? `・${task.progress}%` : ''}
+                      </p>
+                      {task?.status === 'failed' && task.error && (
+                        <p className="text-xs text-red-600">{task.error}</p>
+                      )}
+                      {review?.pushStatus === 'loading' && <p className="text-xs text-blue-700">更新到 YouTube 中...</p>}
+                      {review?.pushStatus === 'success' && <p className="text-xs text-emerald-700">已更新到 YouTube</p>}
+                      {review?.pushStatus === 'error' && (
+                        <p className="text-xs text-red-600">更新失敗：{review.pushError}</p>
+                      )}
+                    </div>
+                    {task?.metadata && review ? (
+                      renderReviewFields(video, task, review)
+                    ) : (
+                      <div className="flex items-center justify-center rounded-lg border border-dashed border-neutral-200 bg-neutral-50 px-4 py-8 text-xs text-neutral-500">
+                        {task?.status === 'failed' || task?.status === 'cancelled'
+                          ? '沒有可審核的建議'
+                          : task?.progressMessage ?? '等待任務開始...'}
+                      </div>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+
+            <footer className="border-t border-neutral-200 px-5 py-3">
+              {!isConfirmingPush ? (
+                <button
+                  type="button"
+                  onClick={() => setIsConfirmingPush(true)}
+                  disabled={pushableReviews.length === 0 || isPushing}
+                  className="w-full rounded-full bg-red-600 py-3 font-bold text-white shadow-md transition hover:bg-red-700 disabled:cursor-not-allowed disabled:bg-neutral-400"
+                >
+                  {isPushing ? '更新中...' : `將已接受的變更更新到 YouTube（${pushableReviews.length} 支影片）`}
+                </button>
+              ) : (
+                <div className="space-y-3 rounded-lg border-2 border-amber-400 bg-amber-50 p-4 text-center">
+                  <p className="text-sm font-semibold text-amber-800">
+                    此操作將更新 {pushableReviews.length} 支 YouTube 影片，約消耗 {pushableReviews.length * QUOTA_PER_PUSH} 點 API 配額。
+                  </p>
+                  <div className="flex justify-center gap-3">
+                    <button
+                      type="button"
+                      onClick={() => setIsConfirmingPush(false)}
+                      className="rounded-full bg-neutral-200 px-6 py-2 text-sm font-semibold text-neutral-700 transition-colors hover:bg-neutral-300"
+                    >
+                      取消
+                    </button>
+                    <button
+                      type="button"
+                      onClick={handlePush}
+                      className="rounded-full bg-red-600 px-6 py-2 text-sm font-semibold text-white transition-colors hover:bg-red-700"
+                    >
+                      確認更新
+                    </button>
+                  </div>
+                </div>
+              )}
+            </footer>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
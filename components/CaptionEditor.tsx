@@ -0,0 +1,374 @@
+import { useEffect, useRef, useState } from 'react';
+import type { YouTubeVideo } from '../types';
+import * as videoApiService from '../services/videoApiService';
+import type { TranscriptSegment, VideoTranscript } from '../services/videoApiService';
+import * as youtubeService from '../services/youtubeService';
+import { CAPTION_FORMATS, formatCaptionTime, formatCaptions, parseCaptionTime } from '../services/captionFormats.js';
+import { VideoPlayer } from './VideoPlayer';
+import type { VideoPlayerHandle } from './VideoPlayer';
+import { Loader } from './Loader';
+
+interface CaptionEditorProps {
+  video: YouTubeVideo;
+}
+
+type StatusMessage = { type: 'success' | 'error'; message: string };
+
+// 字幕時間輸入框：編輯時保留使用者輸入，離開欄位時才解析
+function TimeInput({ value, onCommit, label }: { value: number; onCommit: (seconds: number) => void; label: string }) {
+  const [text, setText] = useState(() => formatCaptionTime(value, '.'));
+
+  useEffect(() => {
+    setText(formatCaptionTime(value, '.'));
+  }, [value]);
+
+  return (
+    <input
+      type="text"
+      value={text}
+      onChange={(e) => setText(e.target.value)}
+      onBlur={() => {
+        const seconds = parseCaptionTime(text);
+        if (seconds === null) {
+          setText(formatCaptionTime(value, '.'));
+          return;
+        }
+        onCommit(seconds);
+      }}
+      aria-label={label}
+      className="w-28 rounded-md border border-neutral-300 px-2 py-1 font-mono text-xs text-neutral-900 focus:border-red-500 focus:outline-none focus:ring-1 focus:ring-red-500"
+    />
+  );
+}
+
+function getSegments(transcript: VideoTranscript, language: string): TranscriptSegment[] {
+  return language === transcript.language ? transcript.segments : transcript.translations[language]?.segments ?? [];
+}
+
+export function CaptionEditor({ video }: CaptionEditorProps) {
+  const [transcript, setTranscript] = useState<VideoTranscript | null>(null);
+  const [activeLanguage, setActiveLanguage] = useState('');
+  const [segments, setSegments] = useState<TranscriptSegment[]>([]);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [generateProgress, setGenerateProgress] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [translateLanguage, setTranslateLanguage] = useState('en');
+  const [isTranslating, setIsTranslating] = useState(false);
+  const [trackName, setTrackName] = useState('');
+  const [isUploading, setIsUploading] = useState(false);
+  const [status, setStatus] = useState<StatusMessage | null>(null);
+  const playerRef = useRef<VideoPlayerHandle>(null);
+
+  const savedSegments = transcript ? getSegments(transcript, activeLanguage) : [];
+  const isDirty = JSON.stringify(segments) !== JSON.stringify(savedSegments);
+  const languages = transcript ? [transcript.language, ...Object.keys(transcript.translations)] : [];
+  const activeIndex = segments.findIndex((segment) => currentTime >= segment.start && currentTime < segment.end);
+
+  const applyTranscript = (next: VideoTranscript, language: string) => {
+    setTranscript(next);
+    setActiveLanguage(language);
+    setSegments(getSegments(next, language));
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    setTranscript(null);
+    setSegments([]);
+    setStatus(null);
+    setIsLoading(true);
+    videoApiService
+      .getVideoTranscript(video.id)
+      .then((data) => {
+        if (!cancelled && data) applyTranscript(data, data.language);
+      })
+      .catch((err) => console.error('[Caption] Failed to load transcript:', err))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [video.id]);
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    setStatus(null);
+    try {
+      const result = await videoApiService.generateVideoTranscript(video, undefined, (_progress, message) =>
+        setGenerateProgress(message)
+      );
+      applyTranscript(result, result.language);
+      setStatus({ type: 'success', message: `已產生 ${result.segments.length} 段字幕。` });
+    } catch (err: any) {
+      setStatus({ type: 'error', message: `產生逐字稿失敗：${err.message}` });
+    } finally {
+      setIsGenerating(false);
+      setGenerateProgress('');
+    }
+  };
+
+  const handleSelectLanguage = (language: string) => {
+    if (!transcript || language === activeLanguage) return;
+    if (isDirty && !window.confirm('目前語言有尚未儲存的修改，確定要切換嗎？')) return;
+    setActiveLanguage(language);
+    setSegments(getSegments(transcript, language));
+  };
+
+  const updateSegment = (index: number, patch: Partial<TranscriptSegment>) => {
+    setSegments((prev) => prev.map((segment, i) => (i === index ? { ...segment, ...patch } : segment)));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setStatus(null);
+    try {
+      const saved = await videoApiService.saveTranscriptSegments(video.id, activeLanguage, segments);
+      applyTranscript(saved, activeLanguage);
+      setStatus({ type: 'success', message: '字幕已儲存。' });
+    } catch (err: any) {
+      setStatus({ type: 'error', message: `儲存失敗：${err.message}` });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleTranslate = async () => {
+    const language = translateLanguage.trim();
+    if (!language) return;
+    if (isDirty && !window.confirm('目前語言有尚未儲存的修改，翻譯會使用已儲存的原文並切換語言，確定要繼續嗎？')) return;
+
+    setIsTranslating(true);
+    setStatus(null);
+    try {
+      const result = await videoApiService.translateVideoTranscript(video.id, language);
+      const translatedLanguage = Object.keys(result.translations).find(
+        (code) => code.toLowerCase() === language.toLowerCase()
+      );
+      applyTranscript(result, translatedLanguage ?? result.language);
+      setStatus({
+        type: result.missingCount > 0 ? 'error' : 'success',
+        message:
+          result.missingCount > 0
+            ? `翻譯完成，但有 ${result.missingCount} 段未翻譯（保留原文），請手動修正。`
+            : '翻譯完成，時間軸沿用原始字幕。',
+      });
+    } catch (err: any) {
+      setStatus({ type: 'error', message: `翻譯失敗：${err.message}` });
+    } finally {
+      setIsTranslating(false);
+    }
+  };
+
+  const handleDownload = (format: 'srt' | 'vtt') => {
+    const blob = new Blob([formatCaptions(segments, format)], { type: CAPTION_FORMATS[format].mimeType });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${video.id}.${activeLanguage}.${CAPTION_FORMATS[format].extension}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleUpload = async () => {
+    setIsUploading(true);
+    setStatus(null);
+    try {
+      const result = await youtubeService.uploadCaption(
+        video.id,
+        activeLanguage,
+        trackName.trim(),
+        formatCaptions(segments, 'srt'),
+        { source: 'CaptionEditor', trigger: 'caption-upload' }
+      );
+      setStatus({
+        type: 'success',
+        message: result.updated ? '已更新 YouTube 上的同名字幕軌。' : '已上傳字幕到 YouTube。',
+      });
+    } catch (err: any) {
+      setStatus({ type: 'error', message: `上傳字幕失敗：${err.message}` });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  if (video.isUrlOnly) return null;
+
+  return (
+    <div className="space-y-3 rounded-lg border border-neutral-200 p-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="font-semibold text-neutral-800">字幕與逐字稿</h3>
+        <button
+          type="button"
+          onClick={handleGenerate}
+          disabled={isGenerating || isLoading}
+          className="rounded-md bg-red-50 px-3 py-1.5 text-xs font-semibold text-red-600 transition-colors hover:bg-red-100 disabled:cursor-not-allowed disabled:bg-neutral-100 disabled:text-neutral-400"
+        >
+          {transcript ? '重新產生逐字稿' : '產生逐字稿'}
+        </button>
+      </div>
+
+      {(isLoading || isGenerating) && (
+        <div className="flex items-center gap-2 text-sm text-neutral-600">
+          <Loader /> {isGenerating ? generateProgress || '正在產生逐字稿...' : '載入逐字稿...'}
+        </div>
+      )}
+
+      {!transcript && !isLoading && !isGenerating && (
+        <p className="text-sm text-neutral-500">
+          尚未產生逐字稿。非公開影片需要先執行一次影片分析，才能使用已上傳的影片產生逐字稿。
+        </p>
+      )}
+
+      {transcript && (
+        <div className="grid gap-4 lg:grid-cols-[minmax(0,1fr)_minmax(0,1.2fr)]">
+          <div className="space-y-2">
+            <VideoPlayer ref={playerRef} videoId={video.id} onTimeUpdate={setCurrentTime} />
+            {activeIndex !== -1 && (
+              <p className="rounded-md bg-neutral-900 px-3 py-2 text-center text-sm text-white whitespace-pre-line">
+                {segments[activeIndex]?.text}
+              </p>
+            )}
+            <p className="text-xs text-neutral-500">點選字幕會跳到該時間點，播放時會標示目前的字幕</p>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex flex-wrap gap-1 border-b border-neutral-200">
+              {languages.map((language) => (
+                <button
+                  key={language}
+                  type="button"
+                  onClick={() => handleSelectLanguage(language)}
+                  className={`-mb-px rounded-t-md border px-3 py-1.5 text-xs font-medium ${
+                    language === activeLanguage
+                      ? 'border-neutral-200 border-b-white bg-white text-red-600'
+                      : 'border-transparent text-neutral-500 hover:text-neutral-800'
+                  }`}
+                >
+                  <span className="font-mono">{language}</span>
+                  {language === transcript.language && <span className="ml-1 text-neutral-400">原文</span>}
+                </button>
+              ))}
+            </div>
+
+            <div className="max-h-96 space-y-1 overflow-y-auto pr-1">
+              {segments.map((segment, index) => (
+                <div
+                  key={index}
+                  onClick={() => playerRef.current?.seekTo(segment.start)}
+                  className={`cursor-pointer rounded-md border p-2 ${
+                    index === activeIndex ? 'border-red-300 bg-red-50/40' : 'border-neutral-200'
+                  }`}
+                >
+                  <div className="mb-1 flex items-center gap-1" onClick={(e) => e.stopPropagation()}>
+                    <TimeInput
+                      value={segment.start}
+                      onCommit={(start) => updateSegment(index, { start })}
+                      label={`字幕 ${index + 1} 開始時間`}
+                    />
+                    <span className="text-xs text-neutral-400">→</span>
+                    <TimeInput
+                      value={segment.end}
+                      onCommit={(end) => updateSegment(index, { end })}
+                      label={`字幕 ${index + 1} 結束時間`}
+                    />
+                    {segment.end <= segment.start && <span className="text-xs text-amber-700">結束時間需晚於開始時間</span>}
+                  </div>
+                  <textarea
+                    value={segment.text}
+                    onChange={(e) => updateSegment(index, { text: e.target.value })}
+                    onFocus={() => playerRef.current?.seekTo(segment.start)}
+                    rows={Math.min(3, segment.text.split('\n').length)}
+                    aria-label={`字幕 ${index + 1} 文字`}
+                    className="w-full rounded-md border border-neutral-300 px-2 py-1 text-sm text-neutral-900 focus:border-red-500 focus:outline-none focus:ring-1 focus:ring-red-500"
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2">
+              <button
+                type="button"
+                onClick={handleSave}
+                disabled={!isDirty || isSaving}
+                className="rounded-md bg-red-600 px-3 py-1.5 text-xs font-semibold text-white transition-colors hover:bg-red-700 disabled:cursor-not-allowed disabled:bg-neutral-300"
+              >
+                {isSaving ? '儲存中...' : '儲存字幕'}
+              </button>
+              {isDirty && (
+                <button
+                  type="button"
+                  onClick={() => setSegments(savedSegments)}
+                  className="rounded-md px-3 py-1.5 text-xs text-neutral-500 hover:text-neutral-800"
+                >
+                  還原
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={() => handleDownload('srt')}
+                className="rounded-md border border-neutral-300 px-3 py-1.5 text-xs font-medium text-neutral-700 hover:border-red-400 hover:text-red-600"
+              >
+                下載 SRT
+              </button>
+              <button
+                type="button"
+                onClick={() => handleDownload('vtt')}
+                className="rounded-md border border-neutral-300 px-3 py-1.5 text-xs font-medium text-neutral-700 hover:border-red-400 hover:text-red-600"
+              >
+                下載 WebVTT
+              </button>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2 rounded-md bg-neutral-50 px-3 py-2">
+              <input
+                type="text"
+                value={translateLanguage}
+                onChange={(e) => setTranslateLanguage(e.target.value)}
+                placeholder="en"
+                aria-label="翻譯目標語言"
+                className="w-20 rounded-md border border-neutral-300 bg-white px-2 py-1 font-mono text-xs text-neutral-900 focus:border-red-500 focus:outline-none focus:ring-1 focus:ring-red-500"
+              />
+              <button
+                type="button"
+                onClick={handleTranslate}
+                disabled={isTranslating || !translateLanguage.trim()}
+                className="rounded-md bg-red-50 px-3 py-1.5 text-xs font-semibold text-red-600 transition-colors hover:bg-red-100 disabled:cursor-not-allowed disabled:bg-neutral-100 disabled:text-neutral-400"
+              >
+                {isTranslating ? '翻譯中...' : '翻譯字幕'}
+              </button>
+              <span className="text-xs text-neutral-500">沿用原文時間軸，翻譯後可再逐段修改</span>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2 rounded-md bg-neutral-50 px-3 py-2">
+              <input
+                type="text"
+                value={trackName}
+                onChange={(e) => setTrackName(e.target.value)}
+                placeholder="字幕軌名稱（選填）"
+                aria-label="字幕軌名稱"
+                className="w-40 rounded-md border border-neutral-300 bg-white px-2 py-1 text-xs text-neutral-900 focus:border-red-500 focus:outline-none focus:ring-1 focus:ring-red-500"
+              />
+              <button
+                type="button"
+                onClick={handleUpload}
+                disabled={isUploading || isDirty || segments.length === 0}
+                className="rounded-full bg-red-600 px-4 py-1.5 text-xs font-semibold text-white transition-colors hover:bg-red-700 disabled:cursor-not-allowed disabled:bg-neutral-300"
+              >
+                {isUploading ? '上傳中...' : `上傳 ${activeLanguage} 字幕到 YouTube`}
+              </button>
+              <span className="text-xs text-neutral-500">
+                {isDirty ? '請先儲存修改再上傳' : `約消耗 ${youtubeService.estimateCaptionUploadQuota()} 單位 YouTube 配額`}
+              </span>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {status && (
+        <p className={`text-xs ${status.type === 'success' ? 'text-green-600' : 'text-red-600'}`}>{status.message}</p>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,8 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Plus, Trash2, Save, RefreshCw, Calendar, TrendingUp, BarChart3, Sparkles, ListVideo } from 'lucide-react';
+import { Plus, Trash2, Save, RefreshCw, Calendar, TrendingUp, BarChart3, Sparkles, ListVideo, Copy, Play, Users } from 'lucide-react';
 import * as youtubeService from '../services/youtubeService';
+import * as videoApiService from '../services/videoApiService';
+import type { KeywordWorkspace } from '../services/videoApiService';
 import {
   getRelativeDateRange,
   parseAbsoluteDateRange,
@@ -63,8 +65,8 @@ interface TableData {
   dateRanges: Record<string, AnalyticsData>;
 }
 
-const TEMPLATE_STORAGE_KEY = 'channelAnalytics.templates';
-const DEFAULT_TEMPLATE_NAME = '預設模板';
+// 舊版存在瀏覽器的模板，可一次匯入成伺服器端的工作區
+const LEGACY_TEMPLATE_STORAGE_KEY = 'channelAnalytics.templates';
 
 // 預設的相對日期選項
 const RELATIVE_DATE_OPTIONS: Array<{ value: RelativeDateType; label: string }> = [
@@ -78,7 +80,7 @@ const RELATIVE_DATE_OPTIONS: Array<{ value: RelativeDateType; label: string }> =
   { value: 'lastMonthLastYear', label: '去年上個月' },
 ];
 
-interface TemplateData {
+interface LegacyTemplateData {
   name: string;
   keywordGroups: KeywordGroup[];
   dateColumns: DateColumn[];
@@ -108,15 +110,23 @@ export function ChannelAnalytics({ onWriteArticle }: { onWriteArticle?: () => vo
   const hasScrolledToAI = useRef(false);
   const [channelCountry, setChannelCountry] = useState<string>('');
 
-  // 模板管理
-  const [templates, setTemplates] = useState<TemplateData[]>([]);
-  const [selectedTemplate, setSelectedTemplate] = useState<string | null>(null);
-  const [newTemplateName, setNewTemplateName] = useState('');
-  const [showTemplateDialog, setShowTemplateDialog] = useState(false);
+  // 工作區管理（存在伺服器，可共享給其他使用者）
+  const [workspaces, setWorkspaces] = useState<KeywordWorkspace[]>([]);
+  const [activeWorkspaceId, setActiveWorkspaceId] = useState<string | null>(null);
+  const [workspaceMessage, setWorkspaceMessage] = useState<string | null>(null);
+  const [legacyTemplates, setLegacyTemplates] = useState<LegacyTemplateData[]>([]);
+  const [showWorkspaceDialog, setShowWorkspaceDialog] = useState(false);
+  const [workspaceName, setWorkspaceName] = useState('');
+  const [workspaceVisibility, setWorkspaceVisibility] = useState<KeywordWorkspace['visibility']>('private');
+  const [saveAsNewWorkspace, setSaveAsNewWorkspace] = useState(true);
+  const [isSavingWorkspace, setIsSavingWorkspace] = useState(false);
 
-  // 加載模板列表 + 初始化頻道 ID
+  const activeWorkspace = workspaces.find(workspace => workspace.id === activeWorkspaceId) || null;
+
+  // 加載工作區列表 + 初始化頻道 ID
   useEffect(() => {
-    loadTemplates();
+    loadWorkspaces();
+    loadLegacyTemplates();
     initializeDefaultConfig();
     // 提前取得 channelId，讓 AI 分析 tab 可以直接用
     (async () => {
@@ -130,12 +140,19 @@ export function ChannelAnalytics({ onWriteArticle }: { onWriteArticle?: () => vo
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
-  const loadTemplates = () => {
+  const loadWorkspaces = async () => {
+    try {
+      setWorkspaces(await videoApiService.listKeywordWorkspaces());
+    } catch (err) {
+      console.error('載入工作區失敗:', err);
+    }
+  };
+
+  const loadLegacyTemplates = () => {
     try {
-      const stored = localStorage.getItem(TEMPLATE_STORAGE_KEY);
+      const stored = localStorage.getItem(LEGACY_TEMPLATE_STORAGE_KEY);
       if (stored) {
-        const parsed = JSON.parse(stored) as TemplateData[];
-        setTemplates(parsed);
+        setLegacyTemplates(JSON.parse(stored) as LegacyTemplateData[]);
       }
     } catch (err) {
       console.error('載入模板失敗:', err);
@@ -236,20 +253,24 @@ export function ChannelAnalytics({ onWriteArticle }: { onWriteArticle?: () => vo
     return id;
   };
 
-  // 獲取數據
-  const fetchData = async () => {
-    if (keywordGroups.length === 0) {
+  // 獲取數據（執行工作區時直接傳入工作區的設定，不等 state 更新）
+  const fetchData = async ({
+    groups = keywordGroups,
+    columns = dateColumns,
+    workspaceId,
+  }: { groups?: KeywordGroup[]; columns?: DateColumn[]; workspaceId?: string } = {}) => {
+    if (groups.length === 0) {
       setError('請至少添加一個關鍵字組合');
       return;
     }
 
-    if (dateColumns.length === 0) {
+    if (columns.length === 0) {
       setError('請至少添加一個日期範圍');
       return;
     }
 
     // 驗證關鍵字組合
-    for (const group of keywordGroups) {
+    for (const group of groups) {
       if (!group.name.trim()) {
         setError('請為所有關鍵字組合設定名稱');
         return;
@@ -257,7 +278,7 @@ export function ChannelAnalytics({ onWriteArticle }: { onWriteArticle?: () => vo
     }
 
     // 檢查重複關鍵字
-    const names = keywordGroups.map(g => g.name.trim().toLowerCase());
+    const names = groups.map(g => g.name.trim().toLowerCase());
     const duplicates = names.filter((n, i) => names.indexOf(n) !== i);
     if (duplicates.length > 0) {
       setError(`關鍵字重複：「${[...new Set(duplicates)].join('、')}」，請移除其中一個`);
@@ -278,7 +299,7 @@ export function ChannelAnalytics({ onWriteArticle }: { onWriteArticle?: () => vo
       // 解析日期範圍
       const dateRanges: Array<{ label: string; startDate: string; endDate: string }> = [];
 
-      for (const column of dateColumns) {
+      for (const column of columns) {
         const range = parseDateConfig(column.config);
         if (!range) {
           throw new Error(`無法解析日期配置: ${column.config}`);
@@ -299,7 +320,7 @@ export function ChannelAnalytics({ onWriteArticle }: { onWriteArticle?: () => vo
         body: JSON.stringify({
           accessToken: token,
           channelId: id,
-          keywordGroups: keywordGroups.map(g => {
+          keywordGroups: groups.map(g => {
             const trimmedName = g.name.trim();
             return {
               name: trimmedName,
@@ -307,6 +328,7 @@ export function ChannelAnalytics({ onWriteArticle }: { onWriteArticle?: () => vo
             };
           }),
           dateRanges,
+          workspaceId,
         }),
       });
 
@@ -339,6 +361,9 @@ export function ChannelAnalytics({ onWriteArticle }: { onWriteArticle?: () => vo
 
       // 設定表格數據
       setTableData(result.rows);
+      if (workspaceId) {
+        loadWorkspaces();
+      }
 
       // 設定頻道國家
       if (result.summary && result.summary.channelCountry) {
@@ -376,79 +401,120 @@ export function ChannelAnalytics({ onWriteArticle }: { onWriteArticle?: () => vo
     return parseAbsoluteDateRange(config);
   };
 
-  // 模板管理
-  const saveTemplate = () => {
-    if (!newTemplateName.trim()) {
-      alert('請輸入模板名稱');
-      return;
-    }
+  // 工作區管理
+  const toWorkspaceState = (workspace: KeywordWorkspace) => ({
+    keywordGroups: workspace.keywordGroups.map(group => ({ id: generateId(), name: group.name })),
+    dateColumns: workspace.dateColumns.map(column => ({
+      id: generateId(),
+      config: column.config,
+      label: getDateRangeLabel(column.config),
+    })),
+  });
+
+  const loadWorkspace = (workspace: KeywordWorkspace) => {
+    const state = toWorkspaceState(workspace);
+    setKeywordGroups(state.keywordGroups);
+    setDateColumns(state.dateColumns);
+    setSelectedMetrics(workspace.selectedMetrics as Array<keyof AnalyticsData>);
+    setActiveWorkspaceId(workspace.id);
+    setWorkspaceMessage(null);
+    return state;
+  };
+
+  // 一鍵執行：載入工作區後直接以最新日期重新取得數據（例如每月重跑上個月 vs 去年同月）
+  const runWorkspace = (workspace: KeywordWorkspace) => {
+    const state = loadWorkspace(workspace);
+    fetchData({ groups: state.keywordGroups, columns: state.dateColumns, workspaceId: workspace.id });
+  };
 
+  const openWorkspaceDialog = () => {
     if (keywordGroups.length === 0 || dateColumns.length === 0) {
-      alert('請至少添加一個關鍵字組合和一個日期範圍');
+      setError('請至少添加一個關鍵字組合和一個日期範圍');
       return;
     }
+    const canUpdate = Boolean(activeWorkspace?.isOwner);
+    setSaveAsNewWorkspace(!canUpdate);
+    setWorkspaceName(canUpdate && activeWorkspace ? activeWorkspace.name : '');
+    setWorkspaceVisibility(canUpdate && activeWorkspace ? activeWorkspace.visibility : 'private');
+    setShowWorkspaceDialog(true);
+  };
 
-    const template: TemplateData = {
-      name: newTemplateName.trim(),
-      keywordGroups: keywordGroups.map(group => ({
-        id: group.id,
-        name: group.name.trim(),
-      })),
-      dateColumns: [...dateColumns],
-      createdAt: Date.now(),
-    };
-
-    const updatedTemplates = [...templates, template];
-    setTemplates(updatedTemplates);
-
+  const saveWorkspace = async () => {
+    setIsSavingWorkspace(true);
     try {
-      localStorage.setItem(TEMPLATE_STORAGE_KEY, JSON.stringify(updatedTemplates));
-      setNewTemplateName('');
-      setShowTemplateDialog(false);
-      alert('模板已保存');
-    } catch (err) {
-      console.error('保存模板失敗:', err);
-      alert('保存模板失敗');
+      const workspace = await videoApiService.saveKeywordWorkspace(saveAsNewWorkspace ? null : activeWorkspaceId, {
+        name: workspaceName,
+        keywordGroups: keywordGroups.map(group => ({ name: group.name.trim() })),
+        dateColumns: dateColumns.map(column => ({ config: column.config })),
+        selectedMetrics,
+        visibility: workspaceVisibility,
+      });
+      setActiveWorkspaceId(workspace.id);
+      setShowWorkspaceDialog(false);
+      setWorkspaceMessage(`已儲存工作區「${workspace.name}」`);
+      setError(null);
+      await loadWorkspaces();
+    } catch (err: any) {
+      setError(`儲存工作區失敗：${err.message}`);
+    } finally {
+      setIsSavingWorkspace(false);
     }
   };
 
-  const loadTemplate = (templateName: string) => {
-    const template = templates.find(t => t.name === templateName);
-    if (!template) {
-      alert('找不到模板');
-      return;
+  const cloneWorkspace = async (workspace: KeywordWorkspace) => {
+    try {
+      const clone = await videoApiService.cloneKeywordWorkspace(workspace.id);
+      await loadWorkspaces();
+      loadWorkspace(clone);
+      setWorkspaceMessage(`已複製為「${clone.name}」`);
+    } catch (err: any) {
+      setError(`複製工作區失敗：${err.message}`);
     }
-
-    const normalizedGroups = template.keywordGroups.map(group => ({
-      id: group.id || generateId(),
-      name: group.name?.trim() || (group as any).keyword?.trim() || '',
-    }));
-    setKeywordGroups(normalizedGroups);
-    setDateColumns([...template.dateColumns]);
-    setSelectedTemplate(templateName);
-    alert(`已載入模板: ${templateName}`);
   };
 
-  const deleteTemplate = (templateName: string) => {
-    if (!confirm(`確定要刪除模板「${templateName}」嗎？`)) {
+  const deleteWorkspace = async (workspace: KeywordWorkspace) => {
+    if (!confirm(`確定要刪除工作區「${workspace.name}」嗎？${workspace.visibility === 'shared' ? '其他使用者也將無法使用。' : ''}`)) {
       return;
     }
-
-    const updatedTemplates = templates.filter(t => t.name !== templateName);
-    setTemplates(updatedTemplates);
-
     try {
-      localStorage.setItem(TEMPLATE_STORAGE_KEY, JSON.stringify(updatedTemplates));
-      if (selectedTemplate === templateName) {
-        setSelectedTemplate(null);
+      await videoApiService.deleteKeywordWorkspace(workspace.id);
+      if (activeWorkspaceId === workspace.id) {
+        setActiveWorkspaceId(null);
       }
-      alert('模板已刪除');
-    } catch (err) {
-      console.error('刪除模板失敗:', err);
-      alert('刪除模板失敗');
+      await loadWorkspaces();
+    } catch (err: any) {
+      setError(`刪除工作區失敗：${err.message}`);
     }
   };
 
+  // 把舊版瀏覽器模板匯入成私人工作區（沿用目前選擇的指標），成功後清除本機模板
+  const importLegacyTemplates = async () => {
+    const failed: string[] = [];
+    for (const template of legacyTemplates) {
+      try {
+        await videoApiService.saveKeywordWorkspace(null, {
+          name: template.name,
+          keywordGroups: template.keywordGroups.map(group => ({
+            name: group.name?.trim() || (group as any).keyword?.trim() || '',
+          })),
+          dateColumns: template.dateColumns.map(column => ({ config: column.config })),
+          selectedMetrics,
+          visibility: 'private',
+        });
+      } catch (err: any) {
+        failed.push(`${template.name}（${err.message}）`);
+      }
+    }
+    if (failed.length === 0) {
+      localStorage.removeItem(LEGACY_TEMPLATE_STORAGE_KEY);
+      setLegacyTemplates([]);
+      setWorkspaceMessage(`已匯入 ${legacyTemplates.length} 個模板`);
+    } else {
+      setError(`部分模板匯入失敗：${failed.join('、')}`);
+    }
+    await loadWorkspaces();
+  };
+
   // 清除快取
   const clearCache = async () => {
     try {
@@ -551,7 +617,7 @@ export function ChannelAnalytics({ onWriteArticle }: { onWriteArticle?: () => vo
       </div>
 
       {/* 儀錶板視圖 */}
-      {activeTab === 'dashboard' && <ChannelDashboard />}
+      {activeTab === 'dashboard' && <ChannelDashboard channelId={channelId || undefined} />}
 
       {/* 全部影片視圖 */}
       {activeTab === 'videos' && (() => {
@@ -593,6 +659,93 @@ export function ChannelAnalytics({ onWriteArticle }: { onWriteArticle?: () => vo
       {activeTab === 'report' && (
         <div className="space-y-5">
 
+          {/* ── 工作區（存在伺服器，可共享與複製）── */}
+          <div className="bg-white rounded-2xl border border-[#E5E5E5] shadow-sm p-5">
+            <div className="flex items-center justify-between mb-3">
+              <div>
+                <h3 className="font-semibold text-[#111]">報表工作區</h3>
+                <p className="text-xs text-[#909090] mt-0.5">
+                  儲存關鍵字、時間範圍與指標；相對日期（如上個月、去年上個月）每次執行都會重新計算
+                </p>
+              </div>
+              <button
+                onClick={openWorkspaceDialog}
+                className="flex items-center gap-1.5 px-3 py-1.5 border border-[#E5E5E5] text-[#444] rounded-xl text-sm hover:bg-[#F9F9F9]"
+              >
+                <Save className="w-4 h-4" />
+                {activeWorkspace?.isOwner ? '儲存變更' : '儲存為工作區'}
+              </button>
+            </div>
+            {workspaceMessage && <p className="mb-2 text-xs text-[#0F9D58]">{workspaceMessage}</p>}
+            {legacyTemplates.length > 0 && (
+              <div className="mb-3 flex flex-wrap items-center justify-between gap-2 rounded-xl bg-[#F9F9F9] px-3 py-2 text-xs text-[#606060]">
+                <span>這個瀏覽器還有 {legacyTemplates.length} 個舊版模板，匯入後可在其他裝置使用並分享給團隊</span>
+                <button onClick={importLegacyTemplates} className="font-semibold text-[#B20000] hover:underline">
+                  匯入模板
+                </button>
+              </div>
+            )}
+            {workspaces.length === 0 ? (
+              <p className="text-sm text-[#B0B0B0] text-center py-4 border border-dashed border-[#E5E5E5] rounded-xl">
+                設定好關鍵字與時間範圍後，點擊「儲存為工作區」，之後每個月一鍵重跑
+              </p>
+            ) : (
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2">
+                {workspaces.map(workspace => (
+                  <div
+                    key={workspace.id}
+                    className={`border rounded-xl p-3 cursor-pointer transition-all ${
+                      activeWorkspaceId === workspace.id
+                        ? 'border-[#FF5F5F] bg-[#FFF5F5]'
+                        : 'border-[#E5E5E5] hover:border-[#FF8A8A]'
+                    }`}
+                    onClick={() => loadWorkspace(workspace)}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium text-sm text-[#1D1D1D] truncate">{workspace.name}</span>
+                      <div className="flex items-center gap-0.5 shrink-0">
+                        <button
+                          onClick={(e) => { e.stopPropagation(); runWorkspace(workspace); }}
+                          disabled={isLoading}
+                          className="text-[#FF3B30] hover:bg-[#FFECEC] rounded-lg p-1 disabled:opacity-50"
+                          title="載入並取得最新數據"
+                        >
+                          <Play className="w-3.5 h-3.5" />
+                        </button>
+                        <button
+                          onClick={(e) => { e.stopPropagation(); cloneWorkspace(workspace); }}
+                          className="text-[#606060] hover:bg-[#F2F2F2] rounded-lg p-1"
+                          title="複製成自己的工作區"
+                        >
+                          <Copy className="w-3.5 h-3.5" />
+                        </button>
+                        {workspace.isOwner && (
+                          <button
+                            onClick={(e) => { e.stopPropagation(); deleteWorkspace(workspace); }}
+                            className="text-[#FF3B30] hover:bg-[#FFECEC] rounded-lg p-1"
+                            title="刪除"
+                          >
+                            <Trash2 className="w-3.5 h-3.5" />
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                    <p className="text-xs text-[#8A8A8A] mt-1 flex items-center gap-1">
+                      {workspace.visibility === 'shared' && <Users className="w-3 h-3" />}
+                      {workspace.keywordGroups.length} 個關鍵字 · {workspace.dateColumns.length} 個時間段
+                      {!workspace.isOwner && ` · ${workspace.ownerId} 分享`}
+                    </p>
+                    {workspace.lastRunAt && (
+                      <p className="text-[11px] text-[#A0A0A0] mt-0.5">
+                        上次執行 {new Date(workspace.lastRunAt).toLocaleDateString('zh-TW')}
+                      </p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
           {/* ── 設定區（合併關鍵字、時間、指標）── */}
           <div className="bg-white rounded-2xl border border-[#E5E5E5] shadow-sm p-5 space-y-5">
 
@@ -726,7 +879,7 @@ export function ChannelAnalytics({ onWriteArticle }: { onWriteArticle?: () => vo
             {/* 獲取數據按鈕 */}
             <div className="flex items-center gap-3 pt-1">
               <button
-                onClick={fetchData}
+                onClick={() => fetchData()}
                 disabled={isLoading}
                 className="flex-1 py-3 bg-gradient-to-r from-[#FF4B4B] to-[#D40000] text-white rounded-xl hover:shadow-[0_6px_20px_rgba(255,0,0,0.3)] disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 font-semibold transition-all"
               >
@@ -856,83 +1009,73 @@ export function ChannelAnalytics({ onWriteArticle }: { onWriteArticle?: () => vo
                   </tbody>
                 </table>
               </div>
-
-              {/* 模板管理（放在最下方） */}
-              <div className="bg-white rounded-2xl border border-[#EAEAEA] shadow-sm p-5">
-                <div className="flex items-center justify-between mb-3">
-                  <div>
-                    <h3 className="font-semibold text-[#111]">儲存為模板</h3>
-                    <p className="text-sm text-[#707070] mt-0.5">把目前的關鍵字和時間設定存起來，下次一鍵載入</p>
-                  </div>
-                  <button
-                    onClick={() => setShowTemplateDialog(true)}
-                    className="flex items-center gap-1.5 px-3 py-2 border border-[#E5E5E5] text-[#444] rounded-xl text-sm hover:bg-[#F9F9F9]"
-                  >
-                    <Save className="w-4 h-4" />
-                    儲存
-                  </button>
-                </div>
-                {templates.length > 0 && (
-                  <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2 mt-3">
-                    {templates.map(template => (
-                      <div
-                        key={template.name}
-                        className={`border rounded-xl p-3 cursor-pointer transition-all ${
-                          selectedTemplate === template.name
-                            ? 'border-[#FF5F5F] bg-[#FFF5F5]'
-                            : 'border-[#E5E5E5] hover:border-[#FF8A8A]'
-                        }`}
-                        onClick={() => loadTemplate(template.name)}
-                      >
-                        <div className="flex items-center justify-between">
-                          <span className="font-medium text-sm text-[#1D1D1D]">{template.name}</span>
-                          <button
-                            onClick={(e) => { e.stopPropagation(); deleteTemplate(template.name); }}
-                            className="text-[#FF3B30] hover:bg-[#FFECEC] rounded-lg p-1"
-                          >
-                            <Trash2 className="w-3.5 h-3.5" />
-                          </button>
-                        </div>
-                        <p className="text-xs text-[#8A8A8A] mt-1">
-                          {template.keywordGroups.length} 個關鍵字 · {template.dateColumns.length} 個時間段
-                        </p>
-                      </div>
-                    ))}
-                  </div>
-                )}
-              </div>
             </>
           )}
         </div>
       )}
 
-      {/* 保存模板對話框 */}
-      {showTemplateDialog && (
+      {/* 儲存工作區對話框 */}
+      {showWorkspaceDialog && (
         <div className="fixed inset-0 bg-black/40 backdrop-blur-sm flex items-center justify-center z-50">
           <div className="bg-white rounded-2xl p-6 max-w-md w-full mx-4 shadow-2xl border border-[#EAEAEA]">
-            <h3 className="text-lg font-semibold mb-4 text-[#111111]">保存為模板</h3>
+            <h3 className="text-lg font-semibold mb-4 text-[#111111]">儲存工作區</h3>
+            {activeWorkspace?.isOwner && (
+              <div className="flex gap-4 mb-3 text-sm text-[#444]">
+                <label className="flex items-center gap-1.5">
+                  <input
+                    type="radio"
+                    checked={!saveAsNewWorkspace}
+                    onChange={() => {
+                      setSaveAsNewWorkspace(false);
+                      setWorkspaceName(activeWorkspace.name);
+                    }}
+                    className="accent-[#FF0000]"
+                  />
+                  更新「{activeWorkspace.name}」
+                </label>
+                <label className="flex items-center gap-1.5">
+                  <input
+                    type="radio"
+                    checked={saveAsNewWorkspace}
+                    onChange={() => {
+                      setSaveAsNewWorkspace(true);
+                      setWorkspaceName('');
+                    }}
+                    className="accent-[#FF0000]"
+                  />
+                  另存新工作區
+                </label>
+              </div>
+            )}
             <input
               type="text"
-              placeholder="模板名稱"
-              value={newTemplateName}
-              onChange={(e) => setNewTemplateName(e.target.value)}
-              className="w-full px-3 py-2 border border-[#E5E5E5] rounded-xl focus:outline-none focus:ring-2 focus:ring-[#FF7A7A] mb-4"
+              placeholder="工作區名稱，例如：每月關鍵字報表"
+              value={workspaceName}
+              onChange={(e) => setWorkspaceName(e.target.value)}
+              className="w-full px-3 py-2 border border-[#E5E5E5] rounded-xl focus:outline-none focus:ring-2 focus:ring-[#FF7A7A] mb-3"
             />
+            <label className="flex items-center gap-2 mb-4 text-sm text-[#444]">
+              <input
+                type="checkbox"
+                checked={workspaceVisibility === 'shared'}
+                onChange={(e) => setWorkspaceVisibility(e.target.checked ? 'shared' : 'private')}
+                className="accent-[#FF0000]"
+              />
+              分享給團隊（其他使用者可以執行與複製，但不能修改）
+            </label>
             <div className="flex gap-3 justify-end">
               <button
-                onClick={() => {
-                  setShowTemplateDialog(false);
-                  setNewTemplateName('');
-                }}
+                onClick={() => setShowWorkspaceDialog(false)}
                 className="px-4 py-2 border border-[#E5E5E5] rounded-xl hover:bg-[#F9F9F9]"
               >
                 取消
               </button>
               <button
-                onClick={saveTemplate}
-                className="px-4 py-2 bg-[#FF0000] text-white rounded-xl hover:bg-[#D40000] shadow-[0_4px_12px_rgba(255,0,0,0.25)]"
+                onClick={saveWorkspace}
+                disabled={isSavingWorkspace || !workspaceName.trim()}
+                className="px-4 py-2 bg-[#FF0000] text-white rounded-xl hover:bg-[#D40000] shadow-[0_4px_12px_rgba(255,0,0,0.25)] disabled:opacity-50 disabled:cursor-not-allowed"
               >
-                保存
+                {isSavingWorkspace ? '儲存中...' : '儲存'}
               </button>
             </div>
           </div>
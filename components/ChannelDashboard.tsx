@@ -78,7 +78,12 @@ import {
 } from 'chart.js';
 import { Line, Bar, Doughnut } from 'react-chartjs-2';
 import * as youtubeService from '../services/youtubeService';
+import * as videoApiService from '../services/videoApiService';
+import type { AnalyticsSnapshotStatus, ChannelSnapshots } from '../services/videoApiService';
+import { pollTaskUntilComplete } from '../services/taskPollingService';
 import { ChannelAnalysisPanel } from './ChannelAnalysisPanel';
+import { AnomalyInbox } from './AnomalyInbox';
+import { ScheduledReportsPanel } from './ScheduledReportsPanel';
 
 declare const gapi: any;
 
@@ -327,7 +332,12 @@ const getDefaultDateRange = () => {
   return getQuickDateRange('30d');
 };
 
-export function ChannelDashboard() {
+interface ChannelDashboardProps {
+  /** 用於讀取伺服器上的歷史快照；未提供時全部改查 Analytics API */
+  channelId?: string;
+}
+
+export function ChannelDashboard({ channelId }: ChannelDashboardProps = {}) {
   // 狀態管理
   const defaultDates = getDefaultDateRange();
   // YouTube-style card design
@@ -347,6 +357,12 @@ export function ChannelDashboard() {
   const [externalSources, setExternalSources] = useState<TrafficSourceItem[]>([]);
   const [searchTerms, setSearchTerms] = useState<SearchTermItem[]>([]);
   const [showDataSourceInfo, setShowDataSourceInfo] = useState(false);
+  const [snapshotSections, setSnapshotSections] = useState<string[]>([]);
+  const [snapshotStatus, setSnapshotStatus] = useState<AnalyticsSnapshotStatus | null>(null);
+  const [isSyncingSnapshots, setIsSyncingSnapshots] = useState(false);
+  // 快照同步完成後遞增，讓異常提醒重新載入
+  const [anomalyRefreshKey, setAnomalyRefreshKey] = useState(0);
+  const [snapshotSyncMessage, setSnapshotSyncMessage] = useState<string | null>(null);
 
   // 新增功能的狀態
   const [demographics, setDemographics] = useState<DemographicsItem[]>([]);
@@ -673,9 +689,71 @@ const showVideoRankingsDoubleColumn =
     }
   };
 
+  // 歷史快照涵蓋整個日期範圍時直接使用，省下 Analytics API 查詢
+  const readChannelSnapshots = async (start: Date, end: Date, section: string): Promise<ChannelSnapshots | null> => {
+    if (!channelId) return null;
+    try {
+      const snapshots = await videoApiService.getChannelSnapshots(channelId, formatDateString(start), formatDateString(end));
+      if (!snapshots.coverage.complete) return null;
+      console.log(`[Dashboard] 🗄️ ${section}使用歷史快照（${snapshots.coverage.totalDays} 天）`);
+      setSnapshotSections(prev => (prev.includes(section) ? prev : [...prev, section]));
+      return snapshots;
+    } catch (err: any) {
+      console.warn('[Dashboard] ⚠️ 無法讀取歷史快照:', err.message);
+      return null;
+    }
+  };
+
+  const loadSnapshotStatus = async () => {
+    if (!channelId) return;
+    try {
+      setSnapshotStatus(await videoApiService.getAnalyticsSnapshotStatus(channelId));
+    } catch (err: any) {
+      console.warn('[Dashboard] ⚠️ 無法取得快照概況:', err.message);
+    }
+  };
+
+  useEffect(() => {
+    if (showDataSourceInfo) {
+      loadSnapshotStatus();
+    }
+  }, [showDataSourceInfo, channelId]);
+
+  // 同步所選日期範圍的歷史快照（已保存的日期會略過）
+  const syncSnapshotsForRange = async () => {
+    const token = youtubeService.getAccessToken();
+    if (!channelId || !token) return;
+    setIsSyncingSnapshots(true);
+    setSnapshotSyncMessage(null);
+    try {
+      const { taskId } = await videoApiService.syncAnalyticsSnapshots(channelId, {
+        accessToken: token,
+        startDate,
+        endDate,
+      });
+      const result = await pollTaskUntilComplete<{
+        channelDaysSynced: number;
+        videoDaysSynced: number;
+        anomalies: { newAlerts: number } | null;
+      }>(taskId, {
+        timeout: 60 * 60 * 1000,
+        onProgress: (_progress, message) => setSnapshotSyncMessage(message),
+      });
+      const anomalyNote = result.anomalies?.newAlerts ? `，新增 ${result.anomalies.newAlerts} 則異常提醒` : '';
+      setSnapshotSyncMessage(`同步完成：頻道數據 ${result.channelDaysSynced} 天、影片數據 ${result.videoDaysSynced} 天${anomalyNote}`);
+      setAnomalyRefreshKey((key) => key + 1);
+      await loadSnapshotStatus();
+    } catch (err: any) {
+      setSnapshotSyncMessage(`同步失敗：${err.message}`);
+    } finally {
+      setIsSyncingSnapshots(false);
+    }
+  };
+
   const fetchDashboardData = async () => {
     setIsLoading(true);
     setError(null);
+    setSnapshotSections([]);
 
     try {
       const token = youtubeService.getAccessToken();
@@ -997,6 +1075,22 @@ const showVideoRankingsDoubleColumn =
 
   // 策略 2A: 獲取頻道級別的統計數據（觀看次數、觀看時間）
   const fetchChannelAnalytics = async (startDate: Date, endDate: Date, token: string) => {
+    const snapshots = await readChannelSnapshots(startDate, endDate, '頻道總覽');
+    if (snapshots) {
+      const { totals } = snapshots;
+      // 欄位順序與下方 Analytics API 查詢相同
+      return {
+        rows: [[
+          totals.views,
+          totals.estimatedMinutesWatched,
+          totals.subscribersGained,
+          totals.subscribersLost,
+          Math.round(totals.averageViewDuration),
+          totals.averageViewPercentage,
+        ]],
+      };
+    }
+
     try {
       console.log('[Dashboard] 📊 從 Analytics API 獲取頻道級別數據...');
 
@@ -1819,49 +1913,77 @@ const showVideoRankingsDoubleColumn =
         return `${year}-${month}-${day}`;
       };
 
-      // 循環獲取過去 12 個完整月份的數據（不包括當前月）
-      for (let i = 12; i >= 1; i--) {
-        // 計算該月的起始和結束日期
-        const monthStart = new Date(today.getFullYear(), today.getMonth() - i, 1);
-        const monthEnd = new Date(today.getFullYear(), today.getMonth() - i + 1, 0);
-
-        const monthKey = `${monthStart.getFullYear()}-${String(monthStart.getMonth() + 1).padStart(2, '0')}`;
-
-        try {
-          // 使用和 fetchChannelAnalytics 相同的邏輯，不使用 dimensions
-          // 同時獲取 subscribersGained 和 subscribersLost
-          const url = `https://youtubeanalytics.googleapis.com/v2/reports?` +
-            `ids=channel==MINE` +
-            `&startDate=${formatDate(monthStart)}` +
-            `&endDate=${formatDate(monthEnd)}` +
-            `&metrics=views,estimatedMinutesWatched,subscribersGained,subscribersLost`;
-
-          const response = await fetch(url, {
-            headers: {
-              Authorization: `Bearer ${token}`,
-            },
+      // 過去 12 個完整月份：歷史快照完整時直接彙總，否則逐月查詢
+      const firstMonthStart = new Date(today.getFullYear(), today.getMonth() - 12, 1);
+      const lastMonthEnd = new Date(today.getFullYear(), today.getMonth(), 0);
+      const snapshots = await readChannelSnapshots(firstMonthStart, lastMonthEnd, '月度趨勢');
+
+      if (snapshots) {
+        const monthTotals = new Map<string, { views: number; minutes: number; gained: number; lost: number }>();
+        snapshots.days.forEach(day => {
+          const monthKey = day.date.slice(0, 7);
+          const totals = monthTotals.get(monthKey) || { views: 0, minutes: 0, gained: 0, lost: 0 };
+          totals.views += day.views;
+          totals.minutes += day.estimatedMinutesWatched;
+          totals.gained += day.subscribersGained;
+          totals.lost += day.subscribersLost;
+          monthTotals.set(monthKey, totals);
+        });
+        monthTotals.forEach((totals, monthKey) => {
+          monthlyDataPoints.push({
+            month: monthKey,
+            views: totals.views,
+            watchTimeHours: Math.floor(totals.minutes / 60),
+            subscribersGained: totals.gained,
+            subscribersLost: totals.lost,
+            subscribersNet: totals.gained - totals.lost,
           });
+        });
+      } else {
+        // 循環獲取過去 12 個完整月份的數據（不包括當前月）
+        for (let i = 12; i >= 1; i--) {
+          // 計算該月的起始和結束日期
+          const monthStart = new Date(today.getFullYear(), today.getMonth() - i, 1);
+          const monthEnd = new Date(today.getFullYear(), today.getMonth() - i + 1, 0);
+
+          const monthKey = `${monthStart.getFullYear()}-${String(monthStart.getMonth() + 1).padStart(2, '0')}`;
+
+          try {
+            // 使用和 fetchChannelAnalytics 相同的邏輯，不使用 dimensions
+            // 同時獲取 subscribersGained 和 subscribersLost
+            const url = `https://youtubeanalytics.googleapis.com/v2/reports?` +
+              `ids=channel==MINE` +
+              `&startDate=${formatDate(monthStart)}` +
+              `&endDate=${formatDate(monthEnd)}` +
+              `&metrics=views,estimatedMinutesWatched,subscribersGained,subscribersLost`;
+
+            const response = await fetch(url, {
+              headers: {
+                Authorization: `Bearer ${token}`,
+              },
+            });
 
-          if (response.ok) {
-            const data = await response.json();
-            if (data.rows && data.rows.length > 0) {
-              const row = data.rows[0]; // 單月聚合數據只有一行
-              const subscribersGained = parseInt(row[2]) || 0;
-              const subscribersLost = parseInt(row[3]) || 0;
-              const subscribersNet = subscribersGained - subscribersLost;
-
-              monthlyDataPoints.push({
-                month: monthKey,
-                views: parseInt(row[0]) || 0,
-                watchTimeHours: Math.floor((parseInt(row[1]) || 0) / 60),
-                subscribersGained: subscribersGained,
-                subscribersLost: subscribersLost,
-                subscribersNet: subscribersNet, // 淨增長
-              });
+            if (response.ok) {
+              const data = await response.json();
+              if (data.rows && data.rows.length > 0) {
+                const row = data.rows[0]; // 單月聚合數據只有一行
+                const subscribersGained = parseInt(row[2]) || 0;
+                const subscribersLost = parseInt(row[3]) || 0;
+                const subscribersNet = subscribersGained - subscribersLost;
+
+                monthlyDataPoints.push({
+                  month: monthKey,
+                  views: parseInt(row[0]) || 0,
+                  watchTimeHours: Math.floor((parseInt(row[1]) || 0) / 60),
+                  subscribersGained: subscribersGained,
+                  subscribersLost: subscribersLost,
+                  subscribersNet: subscribersNet, // 淨增長
+                });
+              }
             }
+          } catch (err) {
+            console.warn(`[Dashboard] ⚠️ 跳過月份 ${monthKey}:`, err);
           }
-        } catch (err) {
-          console.warn(`[Dashboard] ⚠️ 跳過月份 ${monthKey}:`, err);
         }
       }
 
@@ -2100,6 +2222,31 @@ const showVideoRankingsDoubleColumn =
 
   // 獲取趨勢數據
   const fetchTrendData = async (start: Date, end: Date, token: string) => {
+    // 快照已記錄每天觀看最高的影片時，不需要逐日查詢
+    const snapshots = await readChannelSnapshots(start, end, '日趨勢');
+    if (snapshots && snapshots.days.every(day => day.views === 0 || day.topVideo)) {
+      const cache = await ensureVideoCache();
+      setTrendData(
+        snapshots.days.map(day => {
+          const metadata = day.topVideo ? cache?.[day.topVideo.videoId] : null;
+          return {
+            date: day.date,
+            views: day.views,
+            subscribers: day.subscribersGained - day.subscribersLost,
+            topVideo: day.topVideo
+              ? {
+                  id: day.topVideo.videoId,
+                  views: day.topVideo.views,
+                  title: metadata?.title || `影片 ${day.topVideo.videoId}`,
+                  thumbnailUrl: metadata?.thumbnail || metadata?.thumbnailUrl || '',
+                }
+              : null,
+          };
+        })
+      );
+      return;
+    }
+
     try {
       console.log('[Dashboard] 📈 從 Analytics API 獲取日趨勢數據...');
       const response = await fetch(
@@ -2782,6 +2929,11 @@ const showVideoRankingsDoubleColumn =
           <div className="flex items-center gap-3">
             <BarChart3 className="w-5 h-5 text-[#FF3B30]" />
             <strong className="text-[13px] text-[#0F0F0F] font-semibold">數據來源說明</strong>
+            {snapshotSections.length > 0 && (
+              <span className="rounded-full bg-[#E6F4EA] px-2 py-0.5 text-[11px] font-medium text-[#0F9D58]">
+                {snapshotSections.join('、')}使用歷史快照
+              </span>
+            )}
           </div>
           <svg
             className={`w-5 h-5 text-[#606060] transition-transform duration-200 ${showDataSourceInfo ? 'rotate-180' : ''}`}
@@ -2820,11 +2972,40 @@ const showVideoRankingsDoubleColumn =
                 <span className="text-[#909090]">•</span>
                 <span>如果 Analytics API 不可用，會自動回退到 Gist 快取方案（顯示發布影片的累計數據）</span>
               </li>
+              <li className="text-xs text-[#606060] flex gap-2">
+                <span className="text-[#909090]">•</span>
+                <span>伺服器上的歷史快照涵蓋整個時間範圍時，頻道總覽、月度趨勢與日趨勢直接使用快照（零配額成本）</span>
+              </li>
             </ul>
+            {channelId && (
+              <div className="mt-4 flex flex-wrap items-center gap-3 rounded-xl bg-[#F9F9F9] px-4 py-3 text-xs text-[#606060]">
+                <span>
+                  歷史快照：
+                  {snapshotStatus?.firstDate
+                    ? `${snapshotStatus.firstDate} ~ ${snapshotStatus.lastDate}（頻道 ${snapshotStatus.channelDays} 天、影片 ${snapshotStatus.videoDays} 天）`
+                    : '尚未保存'}
+                </span>
+                <button
+                  type="button"
+                  onClick={syncSnapshotsForRange}
+                  disabled={isSyncingSnapshots}
+                  className="rounded-full border border-[#E5E5E5] bg-white px-3 py-1 font-semibold text-[#B20000] hover:bg-[#FFF5F5] disabled:cursor-not-allowed disabled:text-[#909090]"
+                >
+                  {isSyncingSnapshots ? '同步中...' : `同步 ${startDate} ~ ${endDate}`}
+                </button>
+                {snapshotSyncMessage && <span>{snapshotSyncMessage}</span>}
+              </div>
+            )}
           </div>
         )}
       </div>
 
+      {/* 數據異常提醒 */}
+      {channelId && <AnomalyInbox channelId={channelId} refreshKey={anomalyRefreshKey} />}
+
+      {/* 定期報表 */}
+      {channelId && <ScheduledReportsPanel channelId={channelId} />}
+
       {/* 錯誤訊息 */}
       {error && (
         <div className="bg-[#FEF7F7] border border-[#FCE8E8] rounded-xl p-4 text-[#C5221F] shadow-[0_1px_2px_rgba(0,0,0,0.1)]">
@@ -0,0 +1,246 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { VideoChapter } from '../types';
+import {
+  formatChapterTimestamp,
+  parseChapterTimestamp,
+  parseIsoDurationSeconds,
+  validateChapters,
+} from '../services/youtubeChapters.js';
+
+interface ChapterEditorProps {
+  videoId: string;
+  /** ISO 8601 影片長度（例如 PT12M3S） */
+  duration?: string;
+  chapters: VideoChapter[];
+  onMerge: (chapters: VideoChapter[]) => void;
+}
+
+const NUDGE_STEPS = [-5, -1, 1, 5];
+
+// 透過 YouTube embed 的 postMessage 介面控制播放器，不需載入 IFrame API 腳本
+function sendPlayerCommand(iframe: HTMLIFrameElement | null, func: string, args: unknown[] = []) {
+  iframe?.contentWindow?.postMessage(JSON.stringify({ event: 'command', func, args }), 'https://www.youtube.com');
+}
+
+export function ChapterEditor({ videoId, duration, chapters, onMerge }: ChapterEditorProps) {
+  const [items, setItems] = useState<VideoChapter[]>(chapters);
+  // 正在輸入、尚未確認的時間（index -> 輸入文字），離開欄位時套用或還原
+  const [timeEdits, setTimeEdits] = useState<Record<number, string>>({});
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [isPlayerReady, setIsPlayerReady] = useState(false);
+  const iframeRef = useRef<HTMLIFrameElement>(null);
+  const pauseTimerRef = useRef<number | null>(null);
+
+  const durationSeconds = parseIsoDurationSeconds(duration);
+  const validation = useMemo(() => validateChapters(items, durationSeconds), [items, durationSeconds]);
+  const isDirty = JSON.stringify(items) !== JSON.stringify(chapters);
+
+  // 選取或調整章節時，將預覽畫面移到該時間點並暫停
+  const selectedSeconds = items[selectedIndex]?.startSeconds;
+  useEffect(() => {
+    if (!isPlayerReady || selectedSeconds === undefined) return;
+    const iframe = iframeRef.current;
+    sendPlayerCommand(iframe, 'mute');
+    sendPlayerCommand(iframe, 'seekTo', [selectedSeconds, true]);
+    if (pauseTimerRef.current) window.clearTimeout(pauseTimerRef.current);
+    pauseTimerRef.current = window.setTimeout(() => sendPlayerCommand(iframe, 'pauseVideo'), 600);
+  }, [isPlayerReady, selectedSeconds]);
+
+  useEffect(
+    () => () => {
+      if (pauseTimerRef.current) window.clearTimeout(pauseTimerRef.current);
+    },
+    []
+  );
+
+  const updateChapter = (index: number, patch: Partial<VideoChapter>) => {
+    setItems((prev) => prev.map((chapter, i) => (i === index ? { ...chapter, ...patch } : chapter)));
+  };
+
+  const clampSeconds = (seconds: number) => {
+    const max = durationSeconds ? durationSeconds - 1 : Number.MAX_SAFE_INTEGER;
+    return Math.min(Math.max(0, seconds), max);
+  };
+
+  const handleNudge = (index: number, delta: number) => {
+    const current = items[index];
+    if (!current) return;
+    updateChapter(index, { startSeconds: clampSeconds(current.startSeconds + delta) });
+    setSelectedIndex(index);
+  };
+
+  const handleTimeBlur = (index: number) => {
+    const input = timeEdits[index];
+    setTimeEdits(({ [index]: _, ...rest }) => rest);
+    if (input === undefined) return;
+    const seconds = parseChapterTimestamp(input);
+    // 格式不正確時還原為原本的時間
+    if (seconds === null) return;
+    updateChapter(index, { startSeconds: clampSeconds(seconds) });
+  };
+
+  const handleAdd = () => {
+    const anchor = items[selectedIndex];
+    const next = items[selectedIndex + 1];
+    const startSeconds = anchor
+      ? clampSeconds(next ? Math.floor((anchor.startSeconds + next.startSeconds) / 2) : anchor.startSeconds + 30)
+      : 0;
+    const updated = [...items, { startSeconds, title: '' }].sort((a, b) => a.startSeconds - b.startSeconds);
+    setItems(updated);
+    setSelectedIndex(updated.findIndex((chapter) => chapter.startSeconds === startSeconds && !chapter.title));
+  };
+
+  const handleRemove = (index: number) => {
+    setItems((prev) => prev.filter((_, i) => i !== index));
+    setSelectedIndex((prev) => Math.max(0, Math.min(prev, items.length - 2)));
+  };
+
+  const handleSort = () => {
+    setItems((prev) => [...prev].sort((a, b) => a.startSeconds - b.startSeconds));
+  };
+
+  const issuesByIndex = (index: number) => validation.issues.filter((issue) => issue.index === index);
+  const generalIssues = validation.issues.filter((issue) => issue.index === null);
+
+  return (
+    <div className="space-y-3 rounded-lg border border-neutral-200 p-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="font-semibold text-neutral-800">章節時間軸</h3>
+        <span
+          className={`rounded-full px-2 py-0.5 text-xs font-medium ${
+            validation.valid ? 'bg-green-50 text-green-700' : 'bg-amber-50 text-amber-700'
+          }`}
+        >
+          {validation.valid ? '符合 YouTube 章節規則' : `${validation.issues.length} 個問題`}
+        </span>
+      </div>
+
+      <div className="grid gap-4 lg:grid-cols-[minmax(0,1fr)_minmax(0,1.2fr)]">
+        <div className="space-y-2">
+          <div className="aspect-video w-full overflow-hidden rounded-lg bg-neutral-900">
+            <iframe
+              ref={iframeRef}
+              src={`https://www.youtube.com/embed/${videoId}?enablejsapi=1&rel=0&modestbranding=1`}
+              title="章節畫面預覽"
+              frameBorder="0"
+              allow="autoplay; encrypted-media"
+              onLoad={() => setIsPlayerReady(true)}
+              className="h-full w-full"
+            ></iframe>
+          </div>
+          <p className="text-xs text-neutral-500">
+            點選章節或調整時間時，預覽會跳到該時間點的畫面
+            {durationSeconds !== null && `（影片長度 ${formatChapterTimestamp(durationSeconds, durationSeconds)}）`}
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          {items.length === 0 && <p className="text-sm text-neutral-500">尚未有章節，可手動新增。</p>}
+          {items.map((chapter, index) => {
+            const issues = issuesByIndex(index);
+            return (
+              <div
+                key={index}
+                onClick={() => setSelectedIndex(index)}
+                className={`rounded-md border p-2 ${
+                  index === selectedIndex ? 'border-red-300 bg-red-50/40' : 'border-neutral-200'
+                }`}
+              >
+                <div className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    value={timeEdits[index] ?? formatChapterTimestamp(chapter.startSeconds, durationSeconds)}
+                    onChange={(e) => setTimeEdits((prev) => ({ ...prev, [index]: e.target.value }))}
+                    onBlur={() => handleTimeBlur(index)}
+                    onFocus={() => setSelectedIndex(index)}
+                    aria-label={`章節 ${index + 1} 時間`}
+                    className="w-20 rounded-md border border-neutral-300 px-2 py-1 font-mono text-sm text-neutral-900 focus:border-red-500 focus:outline-none focus:ring-1 focus:ring-red-500"
+                  />
+                  <input
+                    type="text"
+                    value={chapter.title}
+                    onChange={(e) => updateChapter(index, { title: e.target.value })}
+                    onFocus={() => setSelectedIndex(index)}
+                    placeholder="章節名稱"
+                    aria-label={`章節 ${index + 1} 名稱`}
+                    className="min-w-0 flex-1 rounded-md border border-neutral-300 px-2 py-1 text-sm text-neutral-900 focus:border-red-500 focus:outline-none focus:ring-1 focus:ring-red-500"
+                  />
+                  <button
+                    type="button"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleRemove(index);
+                    }}
+                    className="rounded-md px-2 py-1 text-xs text-neutral-500 hover:bg-neutral-100 hover:text-red-600"
+                  >
+                    刪除
+                  </button>
+                </div>
+                <div className="mt-1 flex flex-wrap items-center gap-1">
+                  {NUDGE_STEPS.map((step) => (
+                    <button
+                      key={step}
+                      type="button"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleNudge(index, step);
+                      }}
+                      className="rounded border border-neutral-200 px-1.5 py-0.5 font-mono text-xs text-neutral-600 hover:border-red-300 hover:text-red-600"
+                    >
+                      {step > 0 ? `+${step}s` : `${step}s`}
+                    </button>
+                  ))}
+                  {issues.map((issue, i) => (
+                    <span key={i} className="ml-1 text-xs text-amber-700">
+                      {issue.message}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+
+          {generalIssues.map((issue, i) => (
+            <p key={i} className="text-xs text-amber-700">
+              {issue.message}
+            </p>
+          ))}
+
+          <div className="flex flex-wrap items-center gap-2 pt-1">
+            <button
+              type="button"
+              onClick={handleAdd}
+              className="rounded-md border border-neutral-300 px-3 py-1.5 text-xs font-medium text-neutral-700 hover:border-red-400 hover:text-red-600"
+            >
+              新增章節
+            </button>
+            <button
+              type="button"
+              onClick={handleSort}
+              className="rounded-md border border-neutral-300 px-3 py-1.5 text-xs font-medium text-neutral-700 hover:border-red-400 hover:text-red-600"
+            >
+              依時間排序
+            </button>
+            {isDirty && (
+              <button
+                type="button"
+                onClick={() => setItems(chapters)}
+                className="rounded-md px-3 py-1.5 text-xs text-neutral-500 hover:text-neutral-800"
+              >
+                還原
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={() => onMerge(items)}
+              disabled={!validation.valid}
+              className="ml-auto rounded-md px-3 py-1.5 text-xs font-semibold bg-red-50 text-red-600 hover:bg-red-100 transition-colors disabled:cursor-not-allowed disabled:bg-neutral-100 disabled:text-neutral-400"
+            >
+              合併到說明
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -574,6 +574,11 @@ export function KeywordAnalysisPanel({
                                     via OpenRouter
                                   </span>
                                 )}
+                                {recommendedModelInfo.isLocal && (
+                                  <span className="px-2 py-0.5 bg-emerald-100 text-emerald-700 rounded-full font-semibold">
+                                    本機
+                                  </span>
+                                )}
                               </div>
                             </div>
                             <span
@@ -0,0 +1,252 @@
+import { useEffect, useState } from 'react';
+import type { YouTubeVideo } from '../types';
+import * as videoApiService from '../services/videoApiService';
+import type { MetadataTranslation } from '../services/videoApiService';
+import * as youtubeService from '../services/youtubeService';
+import { getQuotaSnapshot } from '../utils/quotaTracker';
+import { Loader } from './Loader';
+
+interface LocalizationPanelProps {
+  video: YouTubeVideo;
+  /** 目前要翻譯的原始語言標題、說明與標籤（通常是編輯中的草稿） */
+  title: string;
+  description: string;
+  tags: string[];
+}
+
+type StatusMessage = { type: 'success' | 'error'; message: string };
+
+const TARGET_LANGUAGES_KEY = 'metadataTargetLanguages';
+
+const languageNames =
+  typeof Intl !== 'undefined' && 'DisplayNames' in Intl
+    ? new Intl.DisplayNames(['zh-TW'], { type: 'language' })
+    : null;
+
+function getLanguageName(code: string): string {
+  try {
+    return languageNames?.of(code) ?? code;
+  } catch {
+    return code;
+  }
+}
+
+function parseLanguages(input: string): string[] {
+  return input
+    .split(/[,\s]+/)
+    .map((code) => code.trim())
+    .filter(Boolean);
+}
+
+export function LocalizationPanel({ video, title, description, tags }: LocalizationPanelProps) {
+  const [sourceLanguage, setSourceLanguage] = useState('zh-TW');
+  const [languagesInput, setLanguagesInput] = useState(() =>
+    typeof window !== 'undefined' ? window.localStorage.getItem(TARGET_LANGUAGES_KEY) ?? '' : ''
+  );
+  const [translations, setTranslations] = useState<Record<string, MetadataTranslation>>({});
+  const [activeLanguage, setActiveLanguage] = useState<string | null>(null);
+  const [isTranslating, setIsTranslating] = useState(false);
+  const [isWriting, setIsWriting] = useState(false);
+  const [status, setStatus] = useState<StatusMessage | null>(null);
+  const [lastQuotaUsed, setLastQuotaUsed] = useState<number | null>(null);
+
+  const estimatedQuota = youtubeService.estimateLocalizationUpdateQuota();
+  const languages = Object.keys(translations);
+
+  useEffect(() => {
+    videoApiService
+      .getMetadataLanguageConfig()
+      .then((config) => {
+        setSourceLanguage(config.sourceLanguage);
+        setLanguagesInput((current) => current || config.targetLanguages.join(', '));
+      })
+      .catch((err) => console.error('[Localization] Failed to load language config:', err));
+  }, []);
+
+  // 切換影片時清除上一支影片的翻譯
+  useEffect(() => {
+    setTranslations({});
+    setActiveLanguage(null);
+    setStatus(null);
+    setLastQuotaUsed(null);
+  }, [video.id]);
+
+  const handleTranslate = async () => {
+    const targetLanguages = parseLanguages(languagesInput);
+    if (targetLanguages.length === 0) {
+      setStatus({ type: 'error', message: '請至少輸入一個目標語言代碼（例如 en, ja）。' });
+      return;
+    }
+
+    setIsTranslating(true);
+    setStatus(null);
+    window.localStorage.setItem(TARGET_LANGUAGES_KEY, targetLanguages.join(', '));
+
+    try {
+      const result = await videoApiService.translateVideoMetadata({
+        title,
+        description,
+        tags,
+        languages: targetLanguages,
+        sourceLanguage,
+      });
+      setTranslations(result.translations);
+      setActiveLanguage(Object.keys(result.translations)[0] ?? null);
+      if (result.missing.length > 0) {
+        setStatus({ type: 'error', message: `以下語言未產生翻譯，可再試一次：${result.missing.join(', ')}` });
+      }
+    } catch (err: any) {
+      setStatus({ type: 'error', message: `翻譯失敗：${err.message}` });
+    } finally {
+      setIsTranslating(false);
+    }
+  };
+
+  const updateTranslation = (language: string, patch: Partial<MetadataTranslation>) => {
+    setTranslations((prev) => ({ ...prev, [language]: { ...prev[language]!, ...patch } }));
+  };
+
+  const removeLanguage = (language: string) => {
+    const { [language]: _removed, ...rest } = translations;
+    setTranslations(rest);
+    setActiveLanguage(Object.keys(rest)[0] ?? null);
+  };
+
+  const handleWrite = async () => {
+    if (languages.length === 0) return;
+
+    setIsWriting(true);
+    setStatus(null);
+    const quotaBefore = getQuotaSnapshot().totalUnits;
+
+    try {
+      const result = await youtubeService.updateVideoLocalizations(video.id, translations, sourceLanguage, {
+        source: 'LocalizationPanel',
+        trigger: 'metadata-localizations-update',
+      });
+      setStatus({
+        type: 'success',
+        message: `已寫入 ${languages.length} 個語言（影片預設語言：${getLanguageName(result.defaultLanguage)}）。`,
+      });
+    } catch (err: any) {
+      setStatus({ type: 'error', message: `寫入 YouTube 失敗：${err.message}` });
+    } finally {
+      setLastQuotaUsed(getQuotaSnapshot().totalUnits - quotaBefore);
+      setIsWriting(false);
+    }
+  };
+
+  const active = activeLanguage ? translations[activeLanguage] : undefined;
+
+  return (
+    <div className="space-y-3 rounded-lg border border-neutral-200 p-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="font-semibold text-neutral-800">多語系標題與說明</h3>
+        <span className="text-xs text-neutral-500">原始語言：{getLanguageName(sourceLanguage)}</span>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-2">
+        <div className="min-w-[12rem] flex-1">
+          <label className="mb-1 block text-xs text-neutral-500" htmlFor="localization-languages">
+            目標語言（語言代碼，以逗號分隔）
+          </label>
+          <input
+            id="localization-languages"
+            type="text"
+            value={languagesInput}
+            onChange={(e) => setLanguagesInput(e.target.value)}
+            placeholder="en, ja"
+            className="w-full rounded-lg border border-neutral-300 bg-white px-3 py-2 text-sm text-neutral-900 focus:border-red-500 focus:outline-none focus:ring-2 focus:ring-red-500"
+          />
+        </div>
+        <button
+          type="button"
+          onClick={handleTranslate}
+          disabled={isTranslating || !title.trim()}
+          className="rounded-md bg-red-50 px-3 py-2 text-xs font-semibold text-red-600 transition-colors hover:bg-red-100 disabled:cursor-not-allowed disabled:bg-neutral-100 disabled:text-neutral-400"
+        >
+          {languages.length > 0 ? '重新翻譯' : '產生翻譯'}
+        </button>
+      </div>
+
+      {isTranslating && (
+        <div className="flex items-center gap-2 text-sm text-neutral-600">
+          <Loader /> 正在翻譯標題與說明...
+        </div>
+      )}
+
+      {languages.length > 0 && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap gap-1 border-b border-neutral-200">
+            {languages.map((language) => (
+              <button
+                key={language}
+                type="button"
+                onClick={() => setActiveLanguage(language)}
+                className={`-mb-px rounded-t-md border px-3 py-1.5 text-xs font-medium ${
+                  language === activeLanguage
+                    ? 'border-neutral-200 border-b-white bg-white text-red-600'
+                    : 'border-transparent text-neutral-500 hover:text-neutral-800'
+                }`}
+              >
+                {getLanguageName(language)} <span className="font-mono text-neutral-400">{language}</span>
+              </button>
+            ))}
+          </div>
+
+          {activeLanguage && active && (
+            <div className="space-y-2">
+              <div>
+                <div className="mb-1 flex items-center justify-between text-xs text-neutral-500">
+                  <span>標題</span>
+                  <span className={active.title.length > 100 ? 'text-red-600' : ''}>{active.title.length} / 100</span>
+                </div>
+                <input
+                  type="text"
+                  value={active.title}
+                  onChange={(e) => updateTranslation(activeLanguage, { title: e.target.value })}
+                  className="w-full rounded-lg border border-neutral-300 bg-white px-3 py-2 text-sm text-neutral-900 focus:border-red-500 focus:outline-none focus:ring-2 focus:ring-red-500"
+                />
+              </div>
+              <div>
+                <label className="mb-1 block text-xs text-neutral-500">說明</label>
+                <textarea
+                  value={active.description}
+                  onChange={(e) => updateTranslation(activeLanguage, { description: e.target.value })}
+                  rows={8}
+                  className="w-full rounded-lg border border-neutral-300 bg-white px-3 py-2 font-mono text-sm text-neutral-900 focus:border-red-500 focus:outline-none focus:ring-2 focus:ring-red-500"
+                />
+              </div>
+              <button
+                type="button"
+                onClick={() => removeLanguage(activeLanguage)}
+                className="text-xs text-neutral-500 hover:text-red-600"
+              >
+                不寫入此語言
+              </button>
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-center gap-3 rounded-md bg-neutral-50 px-3 py-2">
+            <button
+              type="button"
+              onClick={handleWrite}
+              disabled={isWriting || languages.some((language) => !translations[language]?.title.trim())}
+              className="rounded-full bg-red-600 px-4 py-2 text-xs font-semibold text-white transition-colors hover:bg-red-700 disabled:cursor-not-allowed disabled:bg-neutral-300"
+            >
+              {isWriting ? '寫入中...' : `寫入 ${languages.length} 個語言到 YouTube`}
+            </button>
+            <span className="text-xs text-neutral-500">
+              預估消耗 {estimatedQuota} 單位 YouTube 配額（讀取目前的多語系資料後整批更新）
+              {lastQuotaUsed !== null && `・上次實際消耗 ${lastQuotaUsed} 單位`}
+            </span>
+          </div>
+        </div>
+      )}
+
+      {status && (
+        <p className={`text-xs ${status.type === 'success' ? 'text-green-600' : 'text-red-600'}`}>{status.message}</p>
+      )}
+    </div>
+  );
+}
@@ -1,10 +1,21 @@
-import React, { useState, useEffect } from 'react';
-import type { GeneratedContentType, ProgressMessage, YouTubeVideo } from '../types';
+import React, { useState, useEffect, useMemo } from 'react';
+import type { GeneratedContentType, ProgressMessage, VideoChapter, YouTubeVideo } from '../types';
 import * as geminiService from '../services/geminiService';
-import * as youtubeService from '../services/youtubeService';
+import * as metadataUpdateService from '../services/metadataUpdateService';
 import { Loader } from './Loader';
 import { SparklesIcon, CheckIcon } from './Icons';
 import { AppIcon } from './AppIcon';
+import { MetadataHistoryPanel } from './MetadataHistoryPanel';
+import { TitleExperimentPanel } from './TitleExperimentPanel';
+import { ChapterEditor } from './ChapterEditor';
+import { LocalizationPanel } from './LocalizationPanel';
+import { CaptionEditor } from './CaptionEditor';
+import { TagAssistant } from './TagAssistant';
+import {
+  extractChaptersFromDescription,
+  mergeChaptersIntoDescription,
+  parseIsoDurationSeconds,
+} from '../services/youtubeChapters.js';
 
 interface MetadataGeneratorProps {
   video: YouTubeVideo;
@@ -47,6 +58,7 @@ export function MetadataGenerator({ video, onClose, cachedContent, onContentUpda
   const [isDirty, setIsDirty] = useState(false);
   const [updateStatus, setUpdateStatus] = useState<UpdateStatus>('idle');
   const [isConfirmingUpdate, setIsConfirmingUpdate] = useState(false);
+  const [historyVersion, setHistoryVersion] = useState(0);
 
   // 載入快取內容
   useEffect(() => {
@@ -131,33 +143,23 @@ export function MetadataGenerator({ video, onClose, cachedContent, onContentUpda
     try {
       const tagsToUpdate = draftContent.tags.split(',').map(t => t.trim()).filter(t => t.length > 0);
 
-      // 如果 categoryId 無效（空字串或未定義），先獲取影片的完整資訊
-      let categoryId = video.categoryId;
-      if (!categoryId || categoryId.trim() === '') {
-        console.log('[MetadataGenerator] categoryId 無效，正在獲取影片完整資訊...');
-        const metadata = await youtubeService.getVideoMetadata(video.id, {
+      // categoryId 無效（空字串或未定義）時會先獲取影片的完整資訊
+      await metadataUpdateService.updateVideoMetadata(
+        video.id,
+        {
+          title: draftContent.title,
+          description: draftContent.description,
+          tags: tagsToUpdate,
+        },
+        {
+          categoryId: video.categoryId,
           source: 'MetadataGenerator',
-          trigger: 'fetch-categoryId',
-        });
-        categoryId = metadata.categoryId;
-        console.log('[MetadataGenerator] 已獲取 categoryId:', categoryId);
-      }
-
-      const videoDataToUpdate: YouTubeVideo = {
-        id: video.id,
-        categoryId: categoryId,
-        title: draftContent.title,
-        description: draftContent.description,
-        tags: tagsToUpdate,
-        thumbnailUrl: video.thumbnailUrl, // Not updated, but part of the type
-      };
-
-      await youtubeService.updateVideo(videoDataToUpdate, {
-        source: 'MetadataGenerator',
-        trigger: 'metadata-update-all',
-      });
+          trigger: 'metadata-update-all',
+        }
+      );
 
       setUpdateStatus('success');
+      setHistoryVersion(prev => prev + 1);
       // 更新成功後，將當前的草稿設為新的原始基準
       setOriginalContent({
         title: draftContent.title,
@@ -165,25 +167,6 @@ export function MetadataGenerator({ video, onClose, cachedContent, onContentUpda
         tags: tagsToUpdate,
       });
 
-      // 保存本地更新到 localStorage（用於覆蓋 Gist 快取）
-      try {
-        const updatesJson = localStorage.getItem('videoMetadataUpdates');
-        const updates = updatesJson ? JSON.parse(updatesJson) : {};
-
-        updates[video.id] = {
-          title: draftContent.title,
-          description: draftContent.description,
-          tags: tagsToUpdate,
-          categoryId: categoryId,
-          updatedAt: new Date().toISOString(),
-        };
-
-        localStorage.setItem('videoMetadataUpdates', JSON.stringify(updates));
-        console.log(`[MetadataGenerator] 已保存本地更新: ${video.id}`);
-      } catch (error) {
-        console.error('[MetadataGenerator] 保存本地更新失敗:', error);
-      }
-
       // 通知父組件更新影片列表
       if (onVideoUpdate) {
         onVideoUpdate({
@@ -203,6 +186,26 @@ export function MetadataGenerator({ video, onClose, cachedContent, onContentUpda
     }
   };
 
+  // 從修改紀錄還原後，以還原的版本作為新的基準
+  const handleRestored = (fields: { title: string; description: string; tags: string[] }) => {
+    setOriginalContent(fields);
+    setDraftContent({ ...fields, tags: fields.tags.join(', ') });
+    onVideoUpdate?.({ id: video.id, ...fields });
+  };
+
+  // 較早生成的快取內容沒有 chapters 欄位，改從建議的說明擷取
+  const suggestedChapters = useMemo<VideoChapter[]>(
+    () => generatedContent?.chapters ?? extractChaptersFromDescription(generatedContent?.description ?? ''),
+    [generatedContent]
+  );
+
+  const handleMergeChapters = (chapters: VideoChapter[]) => {
+    setDraftContent(prev => ({
+      ...prev,
+      description: mergeChaptersIntoDescription(prev.description, chapters, parseIsoDurationSeconds(video.duration)),
+    }));
+  };
+
   // 採用建議的函式
   const handleApplySuggestion = (field: 'title' | 'description' | 'tags', value: string | string[]) => {
     if (field === 'title') {
@@ -348,6 +351,16 @@ export function MetadataGenerator({ video, onClose, cachedContent, onContentUpda
             </div>
           </div>
 
+          {/* Chapters Section */}
+          {/* 建議章節變動時以 key 重新建立編輯器，捨棄先前的編輯內容 */}
+          <ChapterEditor
+            key={JSON.stringify(suggestedChapters)}
+            videoId={video.id}
+            duration={video.duration}
+            chapters={suggestedChapters}
+            onMerge={handleMergeChapters}
+          />
+
           {/* Tags Section */}
           <div className="space-y-3 rounded-lg border border-neutral-200 p-4">
             <h3 className="font-semibold text-neutral-800">後台標籤</h3>
@@ -371,6 +384,12 @@ export function MetadataGenerator({ video, onClose, cachedContent, onContentUpda
                 className="w-full rounded-lg px-3 py-2 bg-white border border-neutral-300 text-neutral-900 focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-red-500 transition-all shadow-sm"
               />
             </div>
+            <TagAssistant
+              videoId={video.id}
+              aiTags={generatedContent.tags}
+              draftTags={draftContent.tags.split(',').map(t => t.trim()).filter(Boolean)}
+              onApply={tags => handleApplySuggestion('tags', tags)}
+            />
           </div>
 
           {/* Action Buttons */}
@@ -385,7 +404,7 @@ export function MetadataGenerator({ video, onClose, cachedContent, onContentUpda
               </button>
             ) : (
               <div className="rounded-lg border-2 border-amber-400 bg-amber-50 p-4 space-y-3 text-center">
-                <p className="text-sm font-semibold text-amber-800">此操作將更新 YouTube 上的影片，並消耗 50 點 API 配額。</p>
+                <p className="text-sm font-semibold text-amber-800">此操作將更新 YouTube 上的影片，並消耗約 51 點 API 配額（讀取目前資料 1 點 + 更新 50 點）。</p>
                 <div className="flex justify-center gap-3">
                   <button 
                     onClick={() => setIsConfirmingUpdate(false)}
@@ -416,6 +435,28 @@ export function MetadataGenerator({ video, onClose, cachedContent, onContentUpda
           </div>
         </div>
       )}
+
+      <LocalizationPanel
+        video={video}
+        title={draftContent.title}
+        description={draftContent.description}
+        tags={draftContent.tags.split(',').map(t => t.trim()).filter(Boolean)}
+      />
+
+      <CaptionEditor video={video} />
+
+      <TitleExperimentPanel
+        video={video}
+        generatedContent={generatedContent}
+        onVideoUpdate={onVideoUpdate}
+      />
+
+      <MetadataHistoryPanel
+        videoId={video.id}
+        categoryId={video.categoryId}
+        refreshKey={historyVersion}
+        onRestored={handleRestored}
+      />
     </div>
   );
 }
@@ -0,0 +1,230 @@
+import { useEffect, useState } from 'react';
+import * as videoApiService from '../services/videoApiService';
+import type { MetadataHistoryEntry } from '../services/videoApiService';
+import * as metadataUpdateService from '../services/metadataUpdateService';
+import type { VideoMetadataFields } from '../services/metadataUpdateService';
+import { diffLines } from '../utils/lineDiff';
+
+interface MetadataHistoryPanelProps {
+  videoId: string;
+  categoryId?: string;
+  /** 已知的 YouTube 目前資料（剛讀取過時傳入，可省下還原時的讀取配額） */
+  current?: VideoMetadataFields;
+  /** 父元件完成更新後遞增，觸發重新載入紀錄 */
+  refreshKey?: number;
+  onRestored?: (fields: VideoMetadataFields) => void;
+}
+
+const FIELD_LABELS: Record<keyof VideoMetadataFields, string> = {
+  title: '標題',
+  description: '說明',
+  tags: '標籤',
+};
+
+const SOURCE_LABELS: Record<string, string> = {
+  MetadataGenerator: '中繼資料生成',
+  VideoAnalyticsExpandedView: '影片分析',
+  BatchMetadataReview: '批次生成',
+  MetadataHistoryPanel: '還原',
+  TitleExperiment: '標題實驗',
+};
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('zh-TW', { hour12: false });
+
+export function MetadataHistoryPanel({ videoId, categoryId, current, refreshKey = 0, onRestored }: MetadataHistoryPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [entries, setEntries] = useState<MetadataHistoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [confirmingId, setConfirmingId] = useState<string | null>(null);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  const loadHistory = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setEntries(await videoApiService.getMetadataHistory(videoId));
+    } catch (err: any) {
+      console.error('[MetadataHistory] Failed to load history:', err);
+      setError(`載入修改紀錄失敗：${err.message}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen) {
+      loadHistory();
+    }
+  }, [isOpen, videoId, refreshKey]);
+
+  const handleRestore = async (entry: MetadataHistoryEntry) => {
+    setConfirmingId(null);
+    setRestoringId(entry.id);
+    setError(null);
+    try {
+      const restored = await metadataUpdateService.updateVideoMetadata(videoId, entry.before, {
+        categoryId,
+        current,
+        source: 'MetadataHistoryPanel',
+        trigger: 'metadata-rollback',
+        restoredFrom: entry.id,
+      });
+      onRestored?.({ title: restored.title, description: restored.description, tags: restored.tags });
+      await loadHistory();
+    } catch (err: any) {
+      console.error('[MetadataHistory] Restore failed:', err);
+      setError(`還原失敗：${err.message}`);
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const renderDiff = (entry: MetadataHistoryEntry) => {
+    if (entry.changedFields.length === 0) {
+      return <p className="text-xs text-neutral-500">這次更新沒有變更任何欄位。</p>;
+    }
+
+    return (
+      <div className="space-y-3">
+        {entry.changedFields.includes('title') && (
+          <div className="space-y-1 text-sm">
+            <p className="text-xs font-semibold text-neutral-600">{FIELD_LABELS.title}</p>
+            <p className="rounded bg-red-50 px-2 py-1 text-red-700 line-through">{entry.before.title}</p>
+            <p className="rounded bg-emerald-50 px-2 py-1 text-emerald-700">{entry.after.title}</p>
+          </div>
+        )}
+        {entry.changedFields.includes('description') && (
+          <div className="space-y-1">
+            <p className="text-xs font-semibold text-neutral-600">{FIELD_LABELS.description}</p>
+            <pre className="max-h-64 overflow-auto rounded border border-neutral-200 bg-neutral-50 p-2 font-mono text-xs leading-5">
+              {diffLines(entry.before.description, entry.after.description).map((line, index) => (
+                <div
+                  key={index}
+                  className={
+                    line.type === 'added'
+                      ? 'bg-emerald-100 text-emerald-800'
+                      : line.type === 'removed'
+                        ? 'bg-red-100 text-red-800'
+                        : 'text-neutral-600'
+                  }
+                >
+                  {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}
+                  {line.text}
+                </div>
+              ))}
+            </pre>
+          </div>
+        )}
+        {entry.changedFields.includes('tags') && (
+          <div className="space-y-1">
+            <p className="text-xs font-semibold text-neutral-600">{FIELD_LABELS.tags}</p>
+            <div className="flex flex-wrap gap-1 text-xs">
+              {entry.before.tags.filter((tag) => !entry.after.tags.includes(tag)).map((tag) => (
+                <span key={`removed-${tag}`} className="rounded-full bg-red-50 px-2 py-0.5 text-red-700 line-through">{tag}</span>
+              ))}
+              {entry.after.tags.filter((tag) => !entry.before.tags.includes(tag)).map((tag) => (
+                <span key={`added-${tag}`} className="rounded-full bg-emerald-50 px-2 py-0.5 text-emerald-700">+ {tag}</span>
+              ))}
+              {entry.before.tags.join(',') !== entry.after.tags.join(',') &&
+                entry.before.tags.every((tag) => entry.after.tags.includes(tag)) &&
+                entry.after.tags.every((tag) => entry.before.tags.includes(tag)) && (
+                  <span className="text-neutral-500">（僅調整順序）</span>
+                )}
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="rounded-lg border border-neutral-200">
+      <button
+        type="button"
+        onClick={() => setIsOpen((prev) => !prev)}
+        className="flex w-full items-center justify-between px-4 py-3 text-sm font-semibold text-neutral-800 hover:bg-neutral-50"
+      >
+        <span>修改紀錄</span>
+        <span className="text-xs font-normal text-neutral-500">{isOpen ? '收合' : '展開'}</span>
+      </button>
+
+      {isOpen && (
+        <div className="space-y-3 border-t border-neutral-200 p-4">
+          {error && <div className="rounded-lg bg-red-50 px-3 py-2 text-sm text-red-600">{error}</div>}
+          {isLoading && entries.length === 0 && <p className="text-sm text-neutral-500">載入中...</p>}
+          {!isLoading && !error && entries.length === 0 && (
+            <p className="text-sm text-neutral-500">尚無修改紀錄，從本工具更新到 YouTube 後會記錄在這裡。</p>
+          )}
+
+          <ul className="space-y-2">
+            {entries.map((entry) => {
+              const isExpanded = expandedId === entry.id;
+              return (
+                <li key={entry.id} className="rounded-lg border border-neutral-200 bg-white">
+                  <button
+                    type="button"
+                    onClick={() => setExpandedId(isExpanded ? null : entry.id)}
+                    className="flex w-full flex-wrap items-center gap-2 px-3 py-2 text-left text-xs text-neutral-600 hover:bg-neutral-50"
+                  >
+                    <span className="font-medium text-neutral-800">{formatTime(entry.createdAt)}</span>
+                    <span>{entry.author || '未知使用者'}</span>
+                    <span className="rounded-full bg-neutral-100 px-2 py-0.5">
+                      {entry.restoredFrom ? '還原' : SOURCE_LABELS[entry.source ?? ''] ?? entry.source ?? '未知來源'}
+                    </span>
+                    {entry.changedFields.map((field) => (
+                      <span key={field} className="rounded-full bg-red-50 px-2 py-0.5 text-red-600">
+                        {FIELD_LABELS[field]}
+                      </span>
+                    ))}
+                  </button>
+
+                  {isExpanded && (
+                    <div className="space-y-3 border-t border-neutral-100 px-3 py-3">
+                      {renderDiff(entry)}
+
+                      {confirmingId === entry.id ? (
+                        <div className="space-y-2 rounded-lg border-2 border-amber-400 bg-amber-50 p-3 text-center">
+                          <p className="text-xs font-semibold text-amber-800">
+                            將把標題、說明、標籤還原為這次修改前的版本，並消耗約 {current ? 50 : 51} 點 API 配額。
+                          </p>
+                          <div className="flex justify-center gap-2">
+                            <button
+                              type="button"
+                              onClick={() => setConfirmingId(null)}
+                              className="rounded-full bg-neutral-200 px-4 py-1.5 text-xs font-semibold text-neutral-700 hover:bg-neutral-300"
+                            >
+                              取消
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => handleRestore(entry)}
+                              className="rounded-full bg-red-600 px-4 py-1.5 text-xs font-semibold text-white hover:bg-red-700"
+                            >
+                              確認還原
+                            </button>
+                          </div>
+                        </div>
+                      ) : (
+                        <button
+                          type="button"
+                          onClick={() => setConfirmingId(entry.id)}
+                          disabled={restoringId !== null || entry.changedFields.length === 0}
+                          className="rounded-full border border-red-200 bg-red-50 px-3 py-1.5 text-xs font-semibold text-red-600 hover:bg-red-100 disabled:opacity-50"
+                        >
+                          {restoringId === entry.id ? '還原中...' : '還原為修改前的版本'}
+                        </button>
+                      )}
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
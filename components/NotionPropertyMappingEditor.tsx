@@ -0,0 +1,188 @@
+import { useEffect, useState } from 'react';
+import * as notionClient from '../services/notionClient';
+import type { NotionDatabaseInfo, NotionPropertyField } from '../services/notionClient';
+
+interface NotionPropertyMappingEditorProps {
+  databaseId: string;
+  notionToken: string;
+  /** 已讀取的資料庫 schema；未提供時由元件自行讀取 */
+  databaseInfo?: NotionDatabaseInfo | null;
+}
+
+type StatusMessage = { type: 'success' | 'error'; message: string };
+
+const TYPE_LABELS: Record<string, string> = {
+  rich_text: '文字',
+  select: '單選',
+  multi_select: '多選',
+  url: '網址',
+  date: '日期',
+};
+
+export function NotionPropertyMappingEditor({ databaseId, notionToken, databaseInfo }: NotionPropertyMappingEditorProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [fields, setFields] = useState<NotionPropertyField[]>([]);
+  const [mapping, setMapping] = useState<Record<string, string>>({});
+  const [savedMapping, setSavedMapping] = useState<Record<string, string>>({});
+  const [schema, setSchema] = useState<NotionDatabaseInfo | null>(databaseInfo ?? null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [status, setStatus] = useState<StatusMessage | null>(null);
+
+  useEffect(() => {
+    setSchema(databaseInfo ?? null);
+  }, [databaseInfo]);
+
+  useEffect(() => {
+    if (!isOpen || !databaseId) return;
+    let cancelled = false;
+
+    const load = async () => {
+      setIsLoading(true);
+      setStatus(null);
+      try {
+        const [saved, info] = await Promise.all([
+          notionClient.getNotionPropertyMapping(databaseId),
+          databaseInfo ? Promise.resolve(databaseInfo) : notionClient.getNotionDatabaseInfo(notionToken, databaseId),
+        ]);
+        if (cancelled) return;
+        setFields(saved.fields);
+        setMapping(saved.mapping);
+        setSavedMapping(saved.mapping);
+        setSchema(info);
+      } catch (err: any) {
+        console.error('[Notion] 載入欄位對應失敗:', err);
+        if (!cancelled) {
+          setStatus({ type: 'error', message: err.message || '載入欄位對應失敗' });
+        }
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, databaseId, notionToken, databaseInfo]);
+
+  const properties = schema?.properties ?? [];
+  const mappedCount = Object.values(savedMapping).filter(Boolean).length;
+  const isDirty = JSON.stringify(mapping) !== JSON.stringify(savedMapping);
+
+  // 已儲存的對應若在資料庫中被刪除或改類型，提示使用者重新選擇
+  const getFieldWarning = (field: NotionPropertyField) => {
+    const propertyName = mapping[field.key];
+    if (!propertyName || !schema) return null;
+    const property = properties.find((prop) => prop.name === propertyName);
+    if (!property) return `資料庫中已沒有「${propertyName}」屬性`;
+    if (!property.type || !field.types.includes(property.type)) {
+      return `「${propertyName}」目前是 ${property.type} 類型，發佈時會略過`;
+    }
+    return null;
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setStatus(null);
+    try {
+      const nonEmpty = Object.fromEntries(Object.entries(mapping).filter(([, value]) => value));
+      const saved = await notionClient.saveNotionPropertyMapping(databaseId, notionToken, nonEmpty);
+      setMapping(saved.mapping);
+      setSavedMapping(saved.mapping);
+      setStatus({ type: 'success', message: '欄位對應已儲存，之後發佈到這個資料庫都會套用。' });
+    } catch (err: any) {
+      setStatus({ type: 'error', message: err.message || '儲存欄位對應失敗' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!databaseId) return null;
+
+  return (
+    <div className="rounded-lg border border-neutral-200 bg-white px-4 py-3 text-sm text-neutral-700">
+      <button
+        type="button"
+        onClick={() => setIsOpen((open) => !open)}
+        className="flex w-full items-center justify-between text-left"
+      >
+        <span className="font-medium text-neutral-800">
+          欄位對應
+          {mappedCount > 0 && <span className="ml-2 text-xs font-normal text-neutral-500">已對應 {mappedCount} 個屬性</span>}
+        </span>
+        <span className="text-xs text-neutral-500">{isOpen ? '收合' : '設定'}</span>
+      </button>
+
+      {isOpen && (
+        <div className="mt-3 space-y-3">
+          <p className="text-xs text-neutral-500">
+            將文章欄位寫入此資料庫的其他屬性。對應依資料庫保存，團隊成員發佈到同一個資料庫時會共用這份設定。
+          </p>
+
+          {isLoading && <p className="text-xs text-neutral-500">正在讀取資料庫欄位...</p>}
+
+          {!isLoading && fields.length > 0 && (
+            <div className="space-y-2">
+              {fields.map((field) => {
+                const compatible = properties.filter((prop) => prop.type && field.types.includes(prop.type));
+                const current = mapping[field.key] ?? '';
+                const warning = getFieldWarning(field);
+                return (
+                  <div key={field.key} className="grid items-center gap-2 sm:grid-cols-[8rem_1fr]">
+                    <label className="text-sm text-neutral-700" htmlFor={`notion-mapping-${field.key}`}>
+                      {field.label}
+                    </label>
+                    <div>
+                      <select
+                        id={`notion-mapping-${field.key}`}
+                        value={current}
+                        onChange={(e) => {
+                          setMapping((prev) => ({ ...prev, [field.key]: e.target.value }));
+                          setStatus(null);
+                        }}
+                        className="w-full rounded-lg border border-neutral-300 bg-white px-3 py-1.5 text-sm text-neutral-900 focus:border-red-500 focus:outline-none focus:ring-2 focus:ring-red-500"
+                      >
+                        <option value="">不寫入</option>
+                        {current && !compatible.some((prop) => prop.name === current) && (
+                          <option value={current}>{current}（不相容）</option>
+                        )}
+                        {compatible.map((prop) => (
+                          <option key={prop.name} value={prop.name}>
+                            {prop.name}（{TYPE_LABELS[prop.type ?? ''] ?? prop.type}）
+                          </option>
+                        ))}
+                      </select>
+                      {warning && <p className="mt-1 text-xs text-amber-600">{warning}</p>}
+                      {!warning && compatible.length === 0 && (
+                        <p className="mt-1 text-xs text-neutral-400">
+                          資料庫沒有{field.types.map((type) => TYPE_LABELS[type] ?? type).join('／')}類型的屬性
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          <div className="flex items-center gap-3">
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={isSaving || isLoading || !isDirty}
+              className="rounded-lg bg-neutral-900 px-3 py-1.5 text-xs font-semibold text-white transition-colors hover:bg-neutral-700 disabled:cursor-not-allowed disabled:bg-neutral-300"
+            >
+              {isSaving ? '儲存中...' : '儲存對應'}
+            </button>
+            {status && (
+              <span className={`text-xs ${status.type === 'success' ? 'text-green-600' : 'text-red-600'}`}>
+                {status.message}
+              </span>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
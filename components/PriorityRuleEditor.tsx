@@ -0,0 +1,410 @@
+import { useEffect, useState } from 'react';
+import * as videoApiService from '../services/videoApiService';
+import type { PriorityRule, PriorityRulePreview, PriorityRuleSet } from '../services/videoApiService';
+import {
+  CONTENT_TYPES,
+  MAX_PRIORITY_RULES,
+  PRIORITY_METRICS,
+  PRIORITY_OPERATORS,
+  SHORTS_MAX_SECONDS,
+} from '../services/priorityRules.js';
+import { Loader } from './Loader';
+
+interface PriorityRuleEditorProps {
+  channelId: string;
+  /** 規則儲存或恢復預設後呼叫，讓分析結果改用新規則排序 */
+  onSaved: () => void;
+}
+
+const METRIC_KEYS = Object.keys(PRIORITY_METRICS) as Array<keyof typeof PRIORITY_METRICS>;
+const OPERATOR_KEYS = Object.keys(PRIORITY_OPERATORS) as PriorityRule['conditions'][number]['operator'][];
+const CONTENT_TYPE_KEYS = Object.keys(CONTENT_TYPES) as PriorityRule['contentType'][];
+
+const inputClass =
+  'rounded-md border border-neutral-300 bg-white px-2 py-1 text-sm text-neutral-800 focus:border-red-400 focus:outline-none';
+
+const createEmptyRule = (): PriorityRule => ({
+  id: `rule-${Date.now().toString(36)}`,
+  name: '新規則',
+  effect: 'add',
+  weight: 10,
+  contentType: 'all',
+  conditions: [{ metric: 'views', operator: '>', threshold: 100 }],
+  reasonTemplate: '觀看次數 {views}',
+  enabled: true,
+});
+
+export function PriorityRuleEditor({ channelId, onSaved }: PriorityRuleEditorProps) {
+  const [ruleSet, setRuleSet] = useState<PriorityRuleSet | null>(null);
+  const [isDefault, setIsDefault] = useState(true);
+  const [preview, setPreview] = useState<PriorityRulePreview | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    setPreview(null);
+    videoApiService
+      .getPriorityRules(channelId)
+      .then((saved) => {
+        if (cancelled) return;
+        setRuleSet({ rules: saved.rules, maxResults: saved.maxResults });
+        setIsDefault(saved.isDefault);
+      })
+      .catch((err: any) => {
+        if (!cancelled) setError(`讀取規則失敗：${err.message}`);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [channelId]);
+
+  // 規則一有變動，舊的預覽就不再準確
+  const updateRuleSet = (updater: (current: PriorityRuleSet) => PriorityRuleSet) => {
+    setRuleSet((current) => (current ? updater(current) : current));
+    setPreview(null);
+    setMessage(null);
+  };
+
+  const updateRule = (index: number, patch: Partial<PriorityRule>) => {
+    updateRuleSet((current) => ({
+      ...current,
+      rules: current.rules.map((rule, i) => (i === index ? { ...rule, ...patch } : rule)),
+    }));
+  };
+
+  const updateCondition = (ruleIndex: number, conditionIndex: number, patch: Partial<PriorityRule['conditions'][number]>) => {
+    const rule = ruleSet?.rules[ruleIndex];
+    if (!rule) return;
+    updateRule(ruleIndex, {
+      conditions: rule.conditions.map((condition, i) => (i === conditionIndex ? { ...condition, ...patch } : condition)),
+    });
+  };
+
+  const handlePreview = async () => {
+    if (!ruleSet) return;
+    setIsPreviewing(true);
+    setError(null);
+    try {
+      setPreview(await videoApiService.previewPriorityRules(channelId, ruleSet));
+    } catch (err: any) {
+      setError(`預覽失敗：${err.message}`);
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!ruleSet) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      const saved = await videoApiService.savePriorityRules(channelId, ruleSet);
+      setRuleSet({ rules: saved.rules, maxResults: saved.maxResults });
+      setIsDefault(false);
+      setPreview(null);
+      setMessage('規則已儲存');
+      onSaved();
+    } catch (err: any) {
+      setError(`儲存失敗：${err.message}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReset = async () => {
+    if (!confirm('確定要恢復預設規則嗎？自訂的規則將被刪除。')) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      const saved = await videoApiService.resetPriorityRules(channelId);
+      setRuleSet({ rules: saved.rules, maxResults: saved.maxResults });
+      setIsDefault(true);
+      setPreview(null);
+      setMessage('已恢復預設規則');
+      onSaved();
+    } catch (err: any) {
+      setError(`恢復預設失敗：${err.message}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-2 rounded-lg border border-red-200 bg-white p-4 text-sm text-neutral-600">
+        <Loader /> 正在讀取優先級規則...
+      </div>
+    );
+  }
+
+  if (!ruleSet) {
+    return error ? <p className="text-sm text-red-600">{error}</p> : null;
+  }
+
+  const previewByRuleId = new Map((preview?.rules || []).map((item) => [item.id, item]));
+
+  return (
+    <div className="space-y-4 rounded-lg border border-red-200 bg-white p-4 shadow-sm">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h3 className="text-lg font-bold text-neutral-900">優先級規則</h3>
+          <p className="text-xs text-neutral-500">
+            {isDefault ? '目前使用預設規則' : '此頻道使用自訂規則'}。符合規則的所有條件時加上權重；排除規則優先，符合時不列入建議。
+            Shorts 指長度 {SHORTS_MAX_SECONDS} 秒以內的影片。
+          </p>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-neutral-700">
+          最多列出
+          <input
+            type="number"
+            min={1}
+            max={500}
+            value={ruleSet.maxResults}
+            onChange={(e) => updateRuleSet((current) => ({ ...current, maxResults: Number(e.target.value) }))}
+            className={`${inputClass} w-20`}
+          />
+          支影片
+        </label>
+      </div>
+
+      <ul className="space-y-3">
+        {ruleSet.rules.map((rule, ruleIndex) => {
+          const rulePreview = previewByRuleId.get(rule.id);
+          return (
+            <li
+              key={ruleIndex}
+              className={`space-y-2 rounded-md border p-3 ${rule.enabled === false ? 'border-neutral-200 bg-neutral-50 opacity-70' : 'border-neutral-200'}`}
+            >
+              <div className="flex flex-wrap items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={rule.enabled !== false}
+                  onChange={(e) => updateRule(ruleIndex, { enabled: e.target.checked })}
+                  className="accent-red-600"
+                  title="啟用"
+                />
+                <input
+                  value={rule.name}
+                  onChange={(e) => updateRule(ruleIndex, { name: e.target.value })}
+                  className={`${inputClass} min-w-[10rem] flex-1 font-medium`}
+                />
+                <select
+                  value={rule.effect}
+                  onChange={(e) => updateRule(ruleIndex, { effect: e.target.value as PriorityRule['effect'] })}
+                  className={inputClass}
+                >
+                  <option value="add">加分</option>
+                  <option value="exclude">排除</option>
+                </select>
+                {rule.effect === 'add' && (
+                  <label className="flex items-center gap-1 text-xs text-neutral-600">
+                    權重
+                    <input
+                      type="number"
+                      min={1}
+                      max={1000}
+                      value={rule.weight}
+                      onChange={(e) => updateRule(ruleIndex, { weight: Number(e.target.value) })}
+                      className={`${inputClass} w-20`}
+                    />
+                  </label>
+                )}
+                <select
+                  value={rule.contentType}
+                  onChange={(e) => updateRule(ruleIndex, { contentType: e.target.value as PriorityRule['contentType'] })}
+                  className={inputClass}
+                >
+                  {CONTENT_TYPE_KEYS.map((key) => (
+                    <option key={key} value={key}>
+                      {CONTENT_TYPES[key]}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  onClick={() =>
+                    updateRuleSet((current) => ({ ...current, rules: current.rules.filter((_, i) => i !== ruleIndex) }))
+                  }
+                  className="text-xs text-neutral-500 hover:text-red-600"
+                >
+                  刪除
+                </button>
+              </div>
+
+              <div className="space-y-1">
+                {rule.conditions.map((condition, conditionIndex) => (
+                  <div key={conditionIndex} className="flex flex-wrap items-center gap-2">
+                    <span className="w-8 text-xs text-neutral-500">{conditionIndex === 0 ? '當' : '且'}</span>
+                    <select
+                      value={condition.metric}
+                      onChange={(e) => updateCondition(ruleIndex, conditionIndex, { metric: e.target.value })}
+                      className={inputClass}
+                    >
+                      {METRIC_KEYS.map((key) => (
+                        <option key={key} value={key}>
+                          {PRIORITY_METRICS[key].label}
+                        </option>
+                      ))}
+                    </select>
+                    <select
+                      value={condition.operator}
+                      onChange={(e) =>
+                        updateCondition(ruleIndex, conditionIndex, {
+                          operator: e.target.value as PriorityRule['conditions'][number]['operator'],
+                        })
+                      }
+                      className={inputClass}
+                    >
+                      {OPERATOR_KEYS.map((operator) => (
+                        <option key={operator} value={operator}>
+                          {operator}
+                        </option>
+                      ))}
+                    </select>
+                    <input
+                      type="number"
+                      step="any"
+                      value={condition.threshold}
+                      onChange={(e) => updateCondition(ruleIndex, conditionIndex, { threshold: Number(e.target.value) })}
+                      className={`${inputClass} w-28`}
+                    />
+                    <span className="text-xs text-neutral-500">
+                      {PRIORITY_METRICS[condition.metric as keyof typeof PRIORITY_METRICS]?.unit}
+                    </span>
+                    {rule.conditions.length > 1 && (
+                      <button
+                        type="button"
+                        onClick={() =>
+                          updateRule(ruleIndex, { conditions: rule.conditions.filter((_, i) => i !== conditionIndex) })
+                        }
+                        className="text-xs text-neutral-400 hover:text-red-600"
+                      >
+                        移除
+                      </button>
+                    )}
+                  </div>
+                ))}
+                <button
+                  type="button"
+                  onClick={() =>
+                    updateRule(ruleIndex, {
+                      conditions: [...rule.conditions, { metric: 'views', operator: '>', threshold: 0 }],
+                    })
+                  }
+                  className="ml-10 text-xs font-medium text-red-600 hover:text-red-700"
+                >
+                  + 新增條件
+                </button>
+              </div>
+
+              <label className="block text-xs text-neutral-600">
+                原因
+                <input
+                  value={rule.reasonTemplate}
+                  onChange={(e) => updateRule(ruleIndex, { reasonTemplate: e.target.value })}
+                  className={`${inputClass} mt-1 w-full`}
+                  placeholder="例如：CTR 過低 ({ctr}%)"
+                />
+              </label>
+
+              {rulePreview && (
+                <details className="text-xs text-neutral-600">
+                  <summary className="cursor-pointer">
+                    符合 <span className="font-semibold text-neutral-800">{rulePreview.matchedCount}</span> 支影片
+                  </summary>
+                  <ul className="mt-1 space-y-0.5 pl-4">
+                    {rulePreview.videos.map((video) => (
+                      <li key={video.videoId} className="truncate">
+                        {video.title}
+                        {video.contentType === 'short' && <span className="ml-1 text-neutral-400">(Shorts)</span>}
+                      </li>
+                    ))}
+                    {rulePreview.matchedCount > rulePreview.videos.length && (
+                      <li className="text-neutral-400">…另有 {rulePreview.matchedCount - rulePreview.videos.length} 支</li>
+                    )}
+                  </ul>
+                </details>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          onClick={() => updateRuleSet((current) => ({ ...current, rules: [...current.rules, createEmptyRule()] }))}
+          disabled={ruleSet.rules.length >= MAX_PRIORITY_RULES}
+          className="rounded-md border border-red-200 px-3 py-1.5 text-xs font-semibold text-red-600 hover:bg-red-50 disabled:cursor-not-allowed disabled:text-neutral-400"
+        >
+          + 新增規則
+        </button>
+        <span className="text-xs text-neutral-500">
+          原因可用 {'{'}指標{'}'} 帶入數值：{METRIC_KEYS.map((key) => `{${key}}`).join(' ')}
+        </span>
+      </div>
+
+      {preview && (
+        <div className="space-y-2 rounded-md bg-neutral-50 p-3 text-sm text-neutral-700">
+          <p>
+            以最近一次分析的 {preview.totalVideos} 支影片預覽：共 {preview.recommendedCount} 支列入建議
+          </p>
+          {preview.added.length > 0 && (
+            <p className="text-xs text-emerald-700">
+              新增：{preview.added.map((video) => video.title).join('、')}
+            </p>
+          )}
+          {preview.removed.length > 0 && (
+            <p className="text-xs text-amber-700">
+              移出：{preview.removed.map((video) => video.title).join('、')}
+            </p>
+          )}
+          {preview.added.length === 0 && preview.removed.length === 0 && (
+            <p className="text-xs text-neutral-500">建議清單與目前的規則相同</p>
+          )}
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {message && <p className="text-sm text-emerald-700">{message}</p>}
+
+      <div className="flex flex-wrap justify-end gap-2">
+        {!isDefault && (
+          <button
+            type="button"
+            onClick={handleReset}
+            disabled={isSaving}
+            className="rounded-md px-3 py-1.5 text-sm font-semibold text-neutral-600 hover:bg-neutral-100 disabled:cursor-not-allowed"
+          >
+            恢復預設
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={handlePreview}
+          disabled={isPreviewing || isSaving}
+          className="rounded-md bg-red-50 px-3 py-1.5 text-sm font-semibold text-red-600 hover:bg-red-100 disabled:cursor-not-allowed disabled:text-neutral-400"
+        >
+          {isPreviewing ? '預覽中...' : '預覽'}
+        </button>
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={isSaving}
+          className="rounded-md bg-red-600 px-3 py-1.5 text-sm font-semibold text-white hover:bg-red-700 disabled:cursor-not-allowed disabled:bg-neutral-300"
+        >
+          {isSaving ? '儲存中...' : '儲存規則'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,599 @@
+import { useCallback, useEffect, useState } from 'react';
+import { ChevronDown, ChevronUp, FileText, Plus, Trash2 } from 'lucide-react';
+import * as videoApiService from '../services/videoApiService';
+import type { ReportDefinitionInput, ReportRun, ReportSection, ScheduledReport } from '../services/videoApiService';
+import { pollTaskUntilComplete } from '../services/taskPollingService';
+import {
+  CRON_PRESETS,
+  DEFAULT_REPORT_DEFINITION,
+  MAX_REPORT_KEYWORD_GROUPS,
+  NARRATIVE_TYPES,
+  REPORT_DATE_PRESETS,
+  REPORT_SECTIONS,
+} from '../services/reportDefinitions.js';
+import { getDateRangeLabel } from '../utils/dateRangeUtils.js';
+import type { AIModel } from './AIModelSelector';
+
+interface ScheduledReportsPanelProps {
+  channelId: string;
+}
+
+interface ReportDraft extends ReportDefinitionInput {
+  /** 輸入框內容：每行一個 Email */
+  emailsText: string;
+}
+
+const SECTION_KEYS = Object.keys(REPORT_SECTIONS) as ReportSection[];
+const NARRATIVE_KEYS = Object.keys(NARRATIVE_TYPES) as ReportDefinitionInput['narrative']['analysisType'][];
+const CRON_PRESET_KEYS = Object.keys(CRON_PRESETS) as Array<keyof typeof CRON_PRESETS>;
+
+const inputClass =
+  'rounded-md border border-[#E5E5E5] bg-white px-2 py-1 text-xs text-[#030303] focus:border-[#FF3B30] focus:outline-none';
+
+const DELIVERY_STATUS_LABELS: Record<string, string> = {
+  sent: '已寄送',
+  failed: '寄送失敗',
+  skipped: '略過',
+};
+
+function toDraft(channelId: string, report?: ScheduledReport): ReportDraft {
+  const base = report || { ...DEFAULT_REPORT_DEFINITION, channelId, delivery: { ...DEFAULT_REPORT_DEFINITION.delivery } };
+  return {
+    name: base.name,
+    channelId: base.channelId,
+    datePreset: base.datePreset,
+    sections: [...base.sections] as ReportSection[],
+    topVideosLimit: base.topVideosLimit,
+    keywordGroups: base.keywordGroups.map((group) => ({ ...group })),
+    narrative: { ...base.narrative } as ReportDefinitionInput['narrative'],
+    schedule: base.schedule,
+    delivery: { emails: [...base.delivery.emails], webhookUrl: base.delivery.webhookUrl },
+    enabled: base.enabled,
+    emailsText: base.delivery.emails.join('\n'),
+  };
+}
+
+function describeSchedule(schedule: string): string {
+  if (!schedule) return '手動產生';
+  const preset = CRON_PRESET_KEYS.find((key) => CRON_PRESETS[key].expression === schedule);
+  return preset ? CRON_PRESETS[preset].label : `cron：${schedule}`;
+}
+
+const formatTime = (time: number | null) => (time ? new Date(time).toLocaleString('zh-TW') : '—');
+
+export function ScheduledReportsPanel({ channelId }: ScheduledReportsPanelProps) {
+  const [reports, setReports] = useState<ScheduledReport[]>([]);
+  const [mailConfigured, setMailConfigured] = useState(true);
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // 編輯中的報表（editingId 為 null 代表新增）
+  const [draft, setDraft] = useState<ReportDraft | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [hasWebhookSecret, setHasWebhookSecret] = useState(false);
+  const [webhookSecretInput, setWebhookSecretInput] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [availableModels, setAvailableModels] = useState<AIModel[]>([]);
+
+  const [runsReportId, setRunsReportId] = useState<string | null>(null);
+  const [runs, setRuns] = useState<ReportRun[]>([]);
+  const [runningReportId, setRunningReportId] = useState<string | null>(null);
+  const [runProgress, setRunProgress] = useState<string | null>(null);
+
+  const loadReports = useCallback(async () => {
+    try {
+      const result = await videoApiService.listScheduledReports(channelId);
+      setReports(result.reports);
+      setMailConfigured(result.mailConfigured);
+      setError(null);
+    } catch (err: any) {
+      setError(`讀取報表失敗：${err.message}`);
+    }
+  }, [channelId]);
+
+  useEffect(() => {
+    loadReports();
+    setDraft(null);
+    setRunsReportId(null);
+  }, [loadReports]);
+
+  const loadRuns = useCallback(async (reportId: string) => {
+    try {
+      setRuns(await videoApiService.listReportRuns(reportId));
+    } catch (err: any) {
+      setError(`讀取產生紀錄失敗：${err.message}`);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (runsReportId) loadRuns(runsReportId);
+  }, [runsReportId, loadRuns]);
+
+  // 載入可用模型（開啟編輯器時才需要）
+  useEffect(() => {
+    if (!draft || availableModels.length > 0) return;
+    fetch('/api/ai-models/available')
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.success) {
+          setAvailableModels(data.models);
+        }
+      })
+      .catch((err) => console.error('Failed to load available models:', err));
+  }, [draft, availableModels.length]);
+
+  const openEditor = (report?: ScheduledReport) => {
+    setDraft(toDraft(channelId, report));
+    setEditingId(report?.id || null);
+    setHasWebhookSecret(Boolean(report?.secrets.webhookSecret));
+    setWebhookSecretInput('');
+    setMessage(null);
+    setIsExpanded(true);
+  };
+
+  const updateDraft = (patch: Partial<ReportDraft>) => {
+    setDraft((current) => (current ? { ...current, ...patch } : current));
+  };
+
+  const toggleSection = (section: ReportSection) => {
+    if (!draft) return;
+    const sections = draft.sections.includes(section)
+      ? draft.sections.filter((item) => item !== section)
+      : SECTION_KEYS.filter((key) => key === section || draft.sections.includes(key));
+    updateDraft({ sections });
+  };
+
+  const updateKeywordGroup = (index: number, patch: Partial<{ name: string; keyword: string }>) => {
+    if (!draft) return;
+    updateDraft({
+      keywordGroups: draft.keywordGroups.map((group, groupIndex) => (groupIndex === index ? { ...group, ...patch } : group)),
+    });
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    setIsSaving(true);
+    setMessage(null);
+    try {
+      const { emailsText, ...definition } = draft;
+      await videoApiService.saveScheduledReport(editingId, {
+        ...definition,
+        delivery: {
+          emails: emailsText.split(/[\n,;]/).map((email) => email.trim()).filter(Boolean),
+          webhookUrl: definition.delivery.webhookUrl,
+          webhookSecret: webhookSecretInput || undefined,
+        },
+      });
+      setDraft(null);
+      setMessage(`已儲存報表「${draft.name}」`);
+      setError(null);
+      await loadReports();
+    } catch (err: any) {
+      setError(`儲存報表失敗：${err.message}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (report: ScheduledReport) => {
+    if (!window.confirm(`確定要刪除報表「${report.name}」與所有產生紀錄嗎？`)) return;
+    try {
+      await videoApiService.deleteScheduledReport(report.id);
+      if (runsReportId === report.id) setRunsReportId(null);
+      await loadReports();
+    } catch (err: any) {
+      setError(`刪除報表失敗：${err.message}`);
+    }
+  };
+
+  const handleRun = async (report: ScheduledReport, deliver: boolean) => {
+    setRunningReportId(report.id);
+    setRunProgress('建立任務...');
+    setMessage(null);
+    try {
+      const { taskId } = await videoApiService.runScheduledReport(report.id, { deliver });
+      const run = await pollTaskUntilComplete<ReportRun>(taskId, {
+        timeout: 10 * 60 * 1000,
+        onProgress: (_progress, progressMessage) => setRunProgress(progressMessage),
+      });
+      setMessage(`已產生「${report.name}」${run.startDate} ~ ${run.endDate}${deliver ? '' : '（未寄送）'}`);
+      setError(null);
+      setRunsReportId(report.id);
+      await Promise.all([loadReports(), loadRuns(report.id)]);
+    } catch (err: any) {
+      setError(`產生報表失敗：${err.message}`);
+      await loadReports();
+    } finally {
+      setRunningReportId(null);
+      setRunProgress(null);
+    }
+  };
+
+  const handleDownload = async (run: ReportRun, format: 'html' | 'pdf') => {
+    try {
+      const { blob, fileName } = await videoApiService.downloadReportRun(run.id, format);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err: any) {
+      setError(`下載失敗：${err.message}`);
+    }
+  };
+
+  const datePresetOptions = draft && !REPORT_DATE_PRESETS.includes(draft.datePreset)
+    ? [...REPORT_DATE_PRESETS, draft.datePreset]
+    : REPORT_DATE_PRESETS;
+  const scheduleMode = draft
+    ? !draft.schedule
+      ? 'manual'
+      : CRON_PRESET_KEYS.find((key) => CRON_PRESETS[key].expression === draft.schedule) || 'custom'
+    : 'manual';
+
+  return (
+    <div className="rounded-2xl border border-[#E5E5E5] bg-white shadow-[0_1px_3px_rgba(0,0,0,0.08)] overflow-hidden">
+      <div className="flex flex-wrap items-center justify-between gap-3 p-5">
+        <button type="button" onClick={() => setIsExpanded(!isExpanded)} className="flex items-center gap-3">
+          <FileText className="w-5 h-5 text-[#FF3B30]" />
+          <strong className="text-[13px] text-[#0F0F0F] font-semibold">定期報表</strong>
+          <span className="text-xs text-[#606060]">{reports.length} 份</span>
+          {isExpanded ? <ChevronUp className="w-4 h-4 text-[#606060]" /> : <ChevronDown className="w-4 h-4 text-[#606060]" />}
+        </button>
+        <button
+          type="button"
+          onClick={() => openEditor()}
+          className="flex items-center gap-1 rounded-full border border-[#E5E5E5] bg-white px-3 py-1 text-xs font-semibold text-[#B20000] hover:bg-[#FFF5F5]"
+        >
+          <Plus className="w-3.5 h-3.5" />
+          新增報表
+        </button>
+      </div>
+
+      {(message || error || runProgress) && (
+        <div className="px-5 pb-3 text-xs">
+          {error && <p className="text-[#C5221F]">{error}</p>}
+          {runProgress && <p className="text-[#606060]">{runProgress}</p>}
+          {message && <p className="text-[#0F9D58]">{message}</p>}
+        </div>
+      )}
+
+      {draft && (
+        <div className="mx-5 mb-4 space-y-3 rounded-xl bg-[#F9F9F9] px-4 py-3 text-xs text-[#606060]">
+          <p>報表數據來自已同步的數據快照，排程執行前請確認快照每天都有同步。</p>
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              type="text"
+              value={draft.name}
+              placeholder="報表名稱"
+              onChange={(e) => updateDraft({ name: e.target.value })}
+              className={`${inputClass} min-w-[12rem] flex-1`}
+            />
+            <select
+              value={draft.datePreset}
+              onChange={(e) => updateDraft({ datePreset: e.target.value })}
+              className={inputClass}
+            >
+              {datePresetOptions.map((preset) => (
+                <option key={preset} value={preset}>
+                  {getDateRangeLabel(preset)}
+                </option>
+              ))}
+            </select>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={draft.enabled}
+                onChange={(e) => updateDraft({ enabled: e.target.checked })}
+                className="accent-[#FF3B30]"
+              />
+              啟用排程
+            </label>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-4">
+            {SECTION_KEYS.map((section) => (
+              <label key={section} className="flex items-center gap-2" title={REPORT_SECTIONS[section].description}>
+                <input
+                  type="checkbox"
+                  checked={draft.sections.includes(section)}
+                  onChange={() => toggleSection(section)}
+                  className="accent-[#FF3B30]"
+                />
+                {REPORT_SECTIONS[section].label}
+              </label>
+            ))}
+            {draft.sections.includes('topVideos') && (
+              <label className="flex items-center gap-2">
+                前
+                <input
+                  type="number"
+                  min={1}
+                  max={50}
+                  value={draft.topVideosLimit}
+                  onChange={(e) => updateDraft({ topVideosLimit: Number(e.target.value) })}
+                  className={`${inputClass} w-14`}
+                />
+                支影片
+              </label>
+            )}
+          </div>
+
+          {draft.sections.includes('keywordGroups') && (
+            <div className="space-y-2">
+              {draft.keywordGroups.map((group, index) => (
+                <div key={index} className="flex flex-wrap items-center gap-2">
+                  <input
+                    type="text"
+                    value={group.name}
+                    placeholder="組合名稱"
+                    onChange={(e) => updateKeywordGroup(index, { name: e.target.value })}
+                    className={`${inputClass} w-40`}
+                  />
+                  <input
+                    type="text"
+                    value={group.keyword}
+                    placeholder="標題關鍵字（留空為所有影片）"
+                    onChange={(e) => updateKeywordGroup(index, { keyword: e.target.value })}
+                    className={`${inputClass} min-w-[12rem] flex-1`}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => updateDraft({ keywordGroups: draft.keywordGroups.filter((_, groupIndex) => groupIndex !== index) })}
+                    className="rounded-full p-1 text-[#606060] hover:bg-white hover:text-[#C5221F]"
+                    aria-label="移除關鍵字組合"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              ))}
+              {draft.keywordGroups.length < MAX_REPORT_KEYWORD_GROUPS && (
+                <button
+                  type="button"
+                  onClick={() => updateDraft({ keywordGroups: [...draft.keywordGroups, { name: '', keyword: '' }] })}
+                  className="font-semibold text-[#B20000] hover:underline"
+                >
+                  + 新增關鍵字組合
+                </button>
+              )}
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-center gap-2">
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={draft.narrative.enabled}
+                onChange={(e) => updateDraft({ narrative: { ...draft.narrative, enabled: e.target.checked } })}
+                className="accent-[#FF3B30]"
+              />
+              加上 AI 摘要
+            </label>
+            {draft.narrative.enabled && (
+              <>
+                <select
+                  value={draft.narrative.analysisType}
+                  onChange={(e) =>
+                    updateDraft({
+                      narrative: { ...draft.narrative, analysisType: e.target.value as ReportDefinitionInput['narrative']['analysisType'] },
+                    })
+                  }
+                  className={inputClass}
+                >
+                  {NARRATIVE_KEYS.map((type) => (
+                    <option key={type} value={type}>
+                      {NARRATIVE_TYPES[type]}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={draft.narrative.modelType}
+                  onChange={(e) => updateDraft({ narrative: { ...draft.narrative, modelType: e.target.value } })}
+                  className={inputClass}
+                >
+                  {!availableModels.some((model) => model.id === draft.narrative.modelType) && (
+                    <option value={draft.narrative.modelType}>{draft.narrative.modelType}</option>
+                  )}
+                  {availableModels.map((model) => (
+                    <option key={model.id} value={model.id}>
+                      {model.name}
+                    </option>
+                  ))}
+                </select>
+              </>
+            )}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            排程
+            <select
+              value={scheduleMode}
+              onChange={(e) => {
+                const mode = e.target.value;
+                if (mode === 'manual') updateDraft({ schedule: '' });
+                else if (mode === 'custom') updateDraft({ schedule: draft.schedule || '0 9 * * *' });
+                else updateDraft({ schedule: CRON_PRESETS[mode as keyof typeof CRON_PRESETS].expression });
+              }}
+              className={inputClass}
+            >
+              <option value="manual">只手動產生</option>
+              {CRON_PRESET_KEYS.map((key) => (
+                <option key={key} value={key}>
+                  {CRON_PRESETS[key].label}
+                </option>
+              ))}
+              <option value="custom">自訂 cron</option>
+            </select>
+            {scheduleMode === 'custom' && (
+              <input
+                type="text"
+                value={draft.schedule}
+                placeholder="分 時 日 月 星期（台北時間）"
+                onChange={(e) => updateDraft({ schedule: e.target.value })}
+                className={`${inputClass} w-40 font-mono`}
+              />
+            )}
+          </div>
+
+          <div className="flex flex-wrap items-start gap-2">
+            <textarea
+              value={draft.emailsText}
+              rows={2}
+              placeholder={mailConfigured ? '收件者 Email（每行一個，選填）' : '伺服器尚未設定 SMTP，Email 寄送會略過'}
+              onChange={(e) => updateDraft({ emailsText: e.target.value })}
+              className={`${inputClass} min-w-[14rem] flex-1`}
+            />
+            <div className="flex min-w-[14rem] flex-1 flex-col gap-2">
+              <input
+                type="url"
+                value={draft.delivery.webhookUrl}
+                placeholder="Webhook 網址（選填）"
+                onChange={(e) => updateDraft({ delivery: { ...draft.delivery, webhookUrl: e.target.value } })}
+                className={inputClass}
+              />
+              <input
+                type="password"
+                value={webhookSecretInput}
+                placeholder={hasWebhookSecret ? '簽署密鑰（已設定，留空沿用）' : '簽署密鑰（選填）'}
+                onChange={(e) => setWebhookSecretInput(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => setDraft(null)}
+              className="rounded-full px-3 py-1 font-semibold text-[#606060] hover:bg-white"
+            >
+              取消
+            </button>
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={isSaving}
+              className="rounded-full bg-[#FF3B30] px-3 py-1 font-semibold text-white hover:bg-[#B20000] disabled:cursor-not-allowed disabled:bg-[#909090]"
+            >
+              {isSaving ? '儲存中...' : '儲存報表'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {isExpanded && (
+        <div className="border-t border-[#E5E5E5] px-5 py-4">
+          {reports.length === 0 ? (
+            <p className="text-sm text-[#606060]">尚未建立報表</p>
+          ) : (
+            <ul className="space-y-3">
+              {reports.map((report) => (
+                <li key={report.id} className="rounded-xl border border-[#E5E5E5] px-3 py-2 text-sm">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <div>
+                      <p className="font-semibold text-[#030303]">{report.name}</p>
+                      <p className="text-xs text-[#606060]">
+                        {getDateRangeLabel(report.datePreset)}｜{describeSchedule(report.schedule)}
+                        {!report.enabled && '（已停用）'}
+                        {report.nextRunAt && `｜下次 ${formatTime(report.nextRunAt)}`}
+                        {report.lastRunAt && (
+                          <span className={report.lastRunStatus === 'failed' ? 'text-[#C5221F]' : ''}>
+                            ｜上次 {formatTime(report.lastRunAt)}
+                            {report.lastRunStatus === 'failed' && '（失敗）'}
+                          </span>
+                        )}
+                      </p>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-2 text-xs">
+                      <button
+                        type="button"
+                        onClick={() => handleRun(report, true)}
+                        disabled={runningReportId !== null}
+                        className="rounded-full bg-[#FF3B30] px-3 py-1 font-semibold text-white hover:bg-[#B20000] disabled:cursor-not-allowed disabled:bg-[#909090]"
+                      >
+                        {runningReportId === report.id ? '產生中...' : '立即產生'}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleRun(report, false)}
+                        disabled={runningReportId !== null}
+                        className="rounded-full px-3 py-1 font-semibold text-[#606060] hover:bg-[#F9F9F9] disabled:cursor-not-allowed"
+                        title="只產生檔案，不寄送 Email / Webhook"
+                      >
+                        預覽
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setRunsReportId(runsReportId === report.id ? null : report.id)}
+                        className="rounded-full px-3 py-1 font-semibold text-[#606060] hover:bg-[#F9F9F9]"
+                      >
+                        產生紀錄
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => openEditor(report)}
+                        className="rounded-full px-3 py-1 font-semibold text-[#606060] hover:bg-[#F9F9F9]"
+                      >
+                        編輯
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleDelete(report)}
+                        className="rounded-full p-1 text-[#606060] hover:bg-[#F9F9F9] hover:text-[#C5221F]"
+                        aria-label="刪除報表"
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </button>
+                    </div>
+                  </div>
+
+                  {runsReportId === report.id && (
+                    <div className="mt-2 border-t border-[#E5E5E5] pt-2">
+                      {runs.length === 0 ? (
+                        <p className="text-xs text-[#606060]">尚無產生紀錄</p>
+                      ) : (
+                        <ul className="space-y-1 text-xs">
+                          {runs.map((run) => (
+                            <li key={run.id} className="flex flex-wrap items-center justify-between gap-2 rounded-lg bg-[#F9F9F9] px-2 py-1">
+                              <span className={run.status === 'failed' ? 'text-[#C5221F]' : 'text-[#030303]'}>
+                                {formatTime(run.completedAt)}｜{run.trigger === 'schedule' ? '排程' : '手動'}｜
+                                {run.status === 'failed' ? `失敗：${run.error}` : `${run.startDate} ~ ${run.endDate}`}
+                                {run.delivery?.email && `｜Email ${DELIVERY_STATUS_LABELS[run.delivery.email.status]}`}
+                                {run.delivery?.webhook && `｜Webhook ${DELIVERY_STATUS_LABELS[run.delivery.webhook.status]}`}
+                                {run.warnings && run.warnings.length > 0 && (
+                                  <span className="text-[#606060]" title={run.warnings.join('\n')}>
+                                    ｜⚠ {run.warnings.length} 則提醒
+                                  </span>
+                                )}
+                              </span>
+                              {run.status === 'completed' && (
+                                <span className="flex gap-2">
+                                  {run.files.html && (
+                                    <button type="button" onClick={() => handleDownload(run, 'html')} className="font-semibold text-[#B20000] hover:underline">
+                                      HTML
+                                    </button>
+                                  )}
+                                  {run.files.pdf && (
+                                    <button type="button" onClick={() => handleDownload(run, 'pdf')} className="font-semibold text-[#B20000] hover:underline">
+                                      PDF
+                                    </button>
+                                  )}
+                                </span>
+                              )}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+import { useEffect, useState } from 'react';
+import * as videoApiService from '../services/videoApiService';
+import type { TagResearchResult, TagSuggestionReason } from '../services/videoApiService';
+import * as youtubeService from '../services/youtubeService';
+import { YOUTUBE_TAG_CHAR_LIMIT, dedupeTags, measureTagsLength } from '../services/tagResearch.js';
+import { Loader } from './Loader';
+
+interface TagAssistantProps {
+  videoId: string;
+  /** AI 建議的標籤 */
+  aiTags: string[];
+  /** 目前草稿中的標籤 */
+  draftTags: string[];
+  onApply: (tags: string[]) => void;
+}
+
+const ACTIVE_CHANNEL_STORAGE_KEY = 'videoAnalytics.activeChannelId';
+
+const REASON_STYLES: Record<TagSuggestionReason['type'], string> = {
+  'search-term': 'bg-blue-50 text-blue-700',
+  'top-video': 'bg-emerald-50 text-emerald-700',
+  'channel-frequency': 'bg-neutral-100 text-neutral-600',
+  ai: 'bg-red-50 text-red-600',
+};
+
+// 未登入時不帶搜尋字詞，仍可使用頻道快取的數據
+const getChannelId = async (): Promise<string | null> => {
+  const cached = localStorage.getItem(ACTIVE_CHANNEL_STORAGE_KEY) || localStorage.getItem('channelId');
+  if (cached) return cached;
+  try {
+    const channelId = await youtubeService.getChannelId({ source: 'TagAssistant', trigger: 'tag-research' });
+    localStorage.setItem(ACTIVE_CHANNEL_STORAGE_KEY, channelId);
+    return channelId;
+  } catch (err) {
+    console.warn('[TagAssistant] Failed to get channel ID:', err);
+    return null;
+  }
+};
+
+export function TagAssistant({ videoId, aiTags, draftTags, onApply }: TagAssistantProps) {
+  const [research, setResearch] = useState<TagResearchResult | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const draftLength = measureTagsLength(draftTags);
+  const draftDuplicates = dedupeTags(draftTags).duplicates;
+
+  const selectedTags = research ? research.suggestions.map((item) => item.tag).filter((tag) => selected.has(tag)) : [];
+  const selectedLength = measureTagsLength(selectedTags);
+
+  useEffect(() => {
+    setResearch(null);
+    setSelected(new Set());
+    setError(null);
+  }, [videoId]);
+
+  const handleResearch = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const accessToken = youtubeService.getAccessToken();
+      const result = await videoApiService.researchVideoTags({
+        videoId,
+        tags: aiTags,
+        accessToken,
+        channelId: accessToken ? await getChannelId() : null,
+      });
+      setResearch(result);
+      setSelected(new Set(result.recommended));
+    } catch (err: any) {
+      setError(`標籤分析失敗：${err.message}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const toggleTag = (tag: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(tag)) next.delete(tag);
+      else next.add(tag);
+      return next;
+    });
+  };
+
+  return (
+    <div className="space-y-3 rounded-md bg-neutral-50 p-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="text-xs text-neutral-600">
+          標籤字數{' '}
+          <span className={draftLength > YOUTUBE_TAG_CHAR_LIMIT ? 'font-semibold text-red-600' : 'font-semibold text-neutral-800'}>
+            {draftLength} / {YOUTUBE_TAG_CHAR_LIMIT}
+          </span>
+          {draftLength > YOUTUBE_TAG_CHAR_LIMIT && <span className="ml-1 text-red-600">超過 YouTube 上限，更新時會失敗</span>}
+        </div>
+        <button
+          type="button"
+          onClick={handleResearch}
+          disabled={isLoading || aiTags.length === 0}
+          className="rounded-md bg-red-50 px-3 py-1.5 text-xs font-semibold text-red-600 transition-colors hover:bg-red-100 disabled:cursor-not-allowed disabled:bg-neutral-100 disabled:text-neutral-400"
+        >
+          {research ? '重新分析標籤' : '用頻道數據分析標籤'}
+        </button>
+      </div>
+
+      {draftDuplicates.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 text-xs text-amber-700">
+          <span>
+            近似重複：{draftDuplicates.map((item) => `「${item.tag}」≈「${item.duplicateOf}」`).join('、')}
+          </span>
+          <button
+            type="button"
+            onClick={() => onApply(dedupeTags(draftTags).tags)}
+            className="rounded border border-amber-300 px-2 py-0.5 font-medium hover:bg-amber-50"
+          >
+            移除重複
+          </button>
+        </div>
+      )}
+
+      {isLoading && (
+        <div className="flex items-center gap-2 text-sm text-neutral-600">
+          <Loader /> 正在比對搜尋字詞與頻道影片標籤...
+        </div>
+      )}
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      {research && (
+        <div className="space-y-2">
+          <p className="text-xs text-neutral-500">
+            參考 {research.sources.searchTerms} 個搜尋字詞、{research.sources.cachedVideos} 支頻道影片
+            {research.duplicates.length > 0 && `，已合併 ${research.duplicates.length} 個近似重複的 AI 標籤`}
+          </p>
+          {research.warnings.map((warning) => (
+            <p key={warning} className="text-xs text-amber-700">
+              {warning}
+            </p>
+          ))}
+
+          <ul className="max-h-80 space-y-1 overflow-y-auto pr-1">
+            {research.suggestions.map((item) => (
+              <li key={item.tag}>
+                <label className="flex cursor-pointer items-start gap-2 rounded-md border border-neutral-200 bg-white p-2 hover:border-red-200">
+                  <input
+                    type="checkbox"
+                    checked={selected.has(item.tag)}
+                    onChange={() => toggleTag(item.tag)}
+                    className="mt-0.5 accent-red-600"
+                  />
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-sm font-medium text-neutral-800">{item.tag}</span>
+                      <span className="font-mono text-xs text-neutral-500">{item.score}</span>
+                    </div>
+                    <div className="mt-1 flex flex-wrap gap-1">
+                      {item.reasons.map((reason) => (
+                        <span key={reason.type} className={`rounded px-1.5 py-0.5 text-[11px] ${REASON_STYLES[reason.type]}`}>
+                          {reason.message}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                </label>
+              </li>
+            ))}
+          </ul>
+
+          <div className="flex flex-wrap items-center gap-3">
+            <button
+              type="button"
+              onClick={() => onApply(selectedTags)}
+              disabled={selectedTags.length === 0 || selectedLength > YOUTUBE_TAG_CHAR_LIMIT}
+              className="rounded-md bg-red-600 px-3 py-1.5 text-xs font-semibold text-white transition-colors hover:bg-red-700 disabled:cursor-not-allowed disabled:bg-neutral-300"
+            >
+              套用 {selectedTags.length} 個標籤
+            </button>
+            <span className={`text-xs ${selectedLength > YOUTUBE_TAG_CHAR_LIMIT ? 'text-red-600' : 'text-neutral-500'}`}>
+              已選 {selectedLength} / {YOUTUBE_TAG_CHAR_LIMIT} 字元
+            </span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
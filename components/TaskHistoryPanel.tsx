@@ -0,0 +1,292 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { ArticleGenerationResult, GeneratedContentType, YouTubeVideo } from '../types';
+import * as taskPollingService from '../services/taskPollingService';
+import type { TaskSummary } from '../services/taskPollingService';
+import * as youtubeService from '../services/youtubeService';
+import { CopyButton } from './CopyButton';
+
+export interface OpenArticlePayload {
+  video: YouTubeVideo;
+  result: ArticleGenerationResult;
+}
+
+interface TaskHistoryPanelProps {
+  onOpenArticle: (payload: OpenArticlePayload) => void;
+}
+
+const TASK_TYPE_LABELS: Record<string, string> = {
+  'analyze-video-url': '中繼資料生成',
+  'generate-article-url': '影片文章生成',
+  'generate-article-from-url': '網址文章生成',
+  'generate-transcript': '逐字稿生成',
+  'sync-analytics-snapshots': '數據快照同步',
+  'generate-report': '定期報表',
+  'capture-screenshots': '影片截圖',
+};
+
+// 可在面板中開啟結果的任務類型（截圖結果需回到文章頁面使用）
+const OPENABLE_TYPES = new Set(['analyze-video-url', 'generate-article-url', 'generate-article-from-url']);
+
+const STATUS_STYLES: Record<TaskSummary['status'], { label: string; className: string }> = {
+  pending: { label: '排隊中', className: 'bg-amber-50 text-amber-700 ring-amber-200' },
+  processing: { label: '執行中', className: 'bg-blue-50 text-blue-700 ring-blue-200' },
+  completed: { label: '已完成', className: 'bg-emerald-50 text-emerald-700 ring-emerald-200' },
+  failed: { label: '失敗', className: 'bg-red-50 text-red-700 ring-red-200' },
+  cancelled: { label: '已取消', className: 'bg-neutral-100 text-neutral-600 ring-neutral-200' },
+};
+
+const ACTIVE_REFRESH_MS = 5000;
+
+const isActive = (task: TaskSummary) => task.status === 'pending' || task.status === 'processing';
+
+const formatTimestamp = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('zh-TW', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+const formatDuration = (task: TaskSummary) => {
+  const start = task.startedAt ?? task.createdAt;
+  const end = task.completedAt ?? Date.now();
+  const seconds = Math.max(0, Math.round((end - start) / 1000));
+  if (seconds < 60) return `${seconds} 秒`;
+  return `${Math.floor(seconds / 60)} 分 ${seconds % 60} 秒`;
+};
+
+const toArticleVideo = (task: TaskSummary): YouTubeVideo => {
+  const params = task.params || {};
+  if (task.type === 'generate-article-from-url') {
+    return {
+      id: `url_${task.id}`,
+      title: params.url,
+      description: '',
+      thumbnailUrl: '',
+      tags: [],
+      categoryId: '',
+      privacyStatus: 'public',
+      isUrlOnly: true,
+    };
+  }
+  return {
+    id: params.videoId,
+    title: params.videoTitle || params.videoId,
+    description: '',
+    thumbnailUrl: '',
+    tags: [],
+    categoryId: '',
+  };
+};
+
+export function TaskHistoryPanel({ onOpenArticle }: TaskHistoryPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [tasks, setTasks] = useState<TaskSummary[]>([]);
+  const [isFetching, setIsFetching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [busyTaskId, setBusyTaskId] = useState<string | null>(null);
+  const [metadataPreview, setMetadataPreview] = useState<{ taskId: string; content: GeneratedContentType } | null>(null);
+
+  const refreshTasks = useCallback(async () => {
+    setIsFetching(true);
+    setError(null);
+    try {
+      setTasks(await taskPollingService.listTasks());
+    } catch (err: any) {
+      console.error('Failed to load task history:', err);
+      setError(err.message ?? '取得任務列表失敗');
+    } finally {
+      setIsFetching(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) {
+      refreshTasks();
+    }
+  }, [isOpen, refreshTasks]);
+
+  // 有進行中的任務時定期更新
+  const hasActiveTasks = tasks.some(isActive);
+  useEffect(() => {
+    if (!isOpen || !hasActiveTasks) return;
+    const timer = setInterval(refreshTasks, ACTIVE_REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [isOpen, hasActiveTasks, refreshTasks]);
+
+  const runTaskAction = async (taskId: string, action: () => Promise<void>) => {
+    setBusyTaskId(taskId);
+    setError(null);
+    try {
+      await action();
+      await refreshTasks();
+    } catch (err: any) {
+      console.error('Task action failed:', err);
+      setError(err.message ?? '操作失敗');
+    } finally {
+      setBusyTaskId(null);
+    }
+  };
+
+  const handleOpenResult = (task: TaskSummary) =>
+    runTaskAction(task.id, async () => {
+      const status = await taskPollingService.getTaskStatus(task.id);
+      if (!status.result) {
+        throw new Error('此任務沒有可開啟的結果');
+      }
+      if (task.type === 'analyze-video-url') {
+        setMetadataPreview({ taskId: task.id, content: status.result.metadata });
+        return;
+      }
+      onOpenArticle({ video: toArticleVideo(task), result: status.result });
+      setIsOpen(false);
+    });
+
+  const handleRetry = (task: TaskSummary) =>
+    runTaskAction(task.id, async () => {
+      const extraParams = task.type === 'generate-article-url'
+        ? { accessToken: youtubeService.getAccessToken() }
+        : {};
+      await taskPollingService.retryTask(task, extraParams);
+    });
+
+  const handleCancel = (task: TaskSummary) =>
+    runTaskAction(task.id, () => taskPollingService.cancelTask(task.id));
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setIsOpen(true)}
+        className="fixed bottom-20 right-6 z-[900] inline-flex h-12 items-center justify-center rounded-full bg-neutral-900 px-5 text-sm font-semibold text-white shadow-lg transition hover:bg-neutral-700 focus:outline-none focus-visible:ring-2 focus-visible:ring-neutral-500 focus-visible:ring-offset-2"
+        title="檢視我的背景任務"
+      >
+        我的任務
+      </button>
+      {!isOpen ? null : (
+    <div className="fixed inset-0 z-[1000] flex items-center justify-center bg-black/60 backdrop-blur-sm">
+      <div className="max-h-[85vh] w-[min(840px,90vw)] overflow-hidden rounded-2xl border border-neutral-200 bg-white shadow-2xl flex flex-col">
+        <header className="flex items-center justify-between border-b border-neutral-200 bg-neutral-50 px-5 py-3">
+          <div>
+            <h2 className="text-lg font-semibold text-neutral-900">我的任務</h2>
+            <p className="text-xs text-neutral-500">關閉分頁不會中斷任務，完成後可在這裡重新開啟結果。</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              onClick={refreshTasks}
+              disabled={isFetching}
+              className="rounded-full border border-neutral-300 px-3 py-1 text-sm font-medium text-neutral-700 transition hover:bg-neutral-100 disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              {isFetching ? '載入中…' : '重新整理'}
+            </button>
+            <button
+              type="button"
+              onClick={() => setIsOpen(false)}
+              className="rounded-full border border-neutral-300 px-3 py-1 text-sm font-medium text-neutral-600 transition hover:bg-neutral-100"
+            >
+              關閉
+            </button>
+          </div>
+        </header>
+
+        <div className="flex-1 overflow-y-auto">
+          {error && (
+            <div className="bg-red-50 px-5 py-3 text-sm text-red-600">
+              {error}
+            </div>
+          )}
+
+          <ul className="divide-y divide-neutral-100">
+            {tasks.map((task) => {
+              const statusStyle = STATUS_STYLES[task.status];
+              const isBusy = busyTaskId === task.id;
+              return (
+                <li key={task.id} className="px-5 py-4 text-sm">
+                  <div className="flex flex-wrap items-start justify-between gap-3">
+                    <div className="min-w-0 flex-1">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className={`rounded-full px-2 py-0.5 text-xs font-semibold ring-1 ${statusStyle.className}`}>
+                          {statusStyle.label}
+                        </span>
+                        <span className="text-xs text-neutral-500">{TASK_TYPE_LABELS[task.type] ?? task.type}</span>
+                      </div>
+                      <p className="mt-1 font-medium text-neutral-900 break-all line-clamp-2">{task.title ?? task.id}</p>
+                      <p className="mt-1 text-xs text-neutral-500">
+                        建立於 {formatTimestamp(task.createdAt)}・耗時 {formatDuration(task)}
+                      </p>
+                      {isActive(task) && (
+                        <p className="mt-1 text-xs text-blue-700">
+                          {task.queuePosition ? `排隊中：第 ${task.queuePosition} 位` : `${task.progress}%・${task.progressMessage}`}
+                        </p>
+                      )}
+                      {task.status === 'failed' && task.error && (
+                        <p className="mt-1 text-xs text-red-600">{task.error}</p>
+                      )}
+                    </div>
+                    <div className="flex shrink-0 gap-2">
+                      {task.status === 'completed' && task.hasResult && OPENABLE_TYPES.has(task.type) && (
+                        <button
+                          type="button"
+                          onClick={() => handleOpenResult(task)}
+                          disabled={isBusy}
+                          className="rounded-full bg-neutral-900 px-3 py-1 text-xs font-semibold text-white transition hover:bg-neutral-700 disabled:opacity-60"
+                        >
+                          開啟結果
+                        </button>
+                      )}
+                      {(task.status === 'failed' || task.status === 'cancelled') && taskPollingService.canRetryTask(task) && (
+                        <button
+                          type="button"
+                          onClick={() => handleRetry(task)}
+                          disabled={isBusy}
+                          className="rounded-full border border-neutral-300 px-3 py-1 text-xs font-medium text-neutral-700 transition hover:bg-neutral-100 disabled:opacity-60"
+                        >
+                          重試
+                        </button>
+                      )}
+                      {isActive(task) && (
+                        <button
+                          type="button"
+                          onClick={() => handleCancel(task)}
+                          disabled={isBusy}
+                          className="rounded-full border border-red-200 bg-red-50 px-3 py-1 text-xs font-medium text-red-600 transition hover:bg-red-100 disabled:opacity-60"
+                        >
+                          取消
+                        </button>
+                      )}
+                    </div>
+                  </div>
+
+                  {metadataPreview?.taskId === task.id && (
+                    <div className="mt-3 space-y-3 rounded-xl border border-neutral-200 bg-neutral-50 p-3">
+                      {(['titleA', 'titleB', 'titleC'] as const).map((key) => (
+                        <div key={key} className="flex items-start justify-between gap-2">
+                          <p className="text-neutral-800">{metadataPreview.content[key]}</p>
+                          <CopyButton textToCopy={metadataPreview.content[key]} />
+                        </div>
+                      ))}
+                      <div className="flex items-start justify-between gap-2">
+                        <p className="whitespace-pre-wrap text-xs text-neutral-600">{metadataPreview.content.description}</p>
+                        <CopyButton textToCopy={metadataPreview.content.description} />
+                      </div>
+                      <div className="flex items-start justify-between gap-2">
+                        <p className="text-xs text-neutral-600">{metadataPreview.content.tags.join(', ')}</p>
+                        <CopyButton textToCopy={metadataPreview.content.tags.join(', ')} />
+                      </div>
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+            {tasks.length === 0 && !isFetching && (
+              <li className="px-5 py-10 text-center text-sm text-neutral-500">目前沒有任務紀錄</li>
+            )}
+          </ul>
+        </div>
+      </div>
+    </div>
+      )}
+    </>
+  );
+}
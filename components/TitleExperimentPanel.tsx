@@ -0,0 +1,320 @@
+import { useEffect, useState } from 'react';
+import type { GeneratedContentType, YouTubeVideo } from '../types';
+import * as videoApiService from '../services/videoApiService';
+import type { TitleExperiment, TitleExperimentVariant } from '../services/videoApiService';
+import * as metadataUpdateService from '../services/metadataUpdateService';
+import * as youtubeService from '../services/youtubeService';
+import { applyDueTitleRotations } from '../services/titleExperimentRunner';
+
+interface TitleExperimentPanelProps {
+  video: YouTubeVideo;
+  generatedContent: GeneratedContentType | null;
+  onVideoUpdate?: (updatedVideo: Partial<YouTubeVideo> & { id: string }) => void;
+}
+
+type VariantKey = 'current' | 'titleA' | 'titleB' | 'titleC';
+
+const ACTIVE_CHANNEL_STORAGE_KEY = 'videoAnalytics.activeChannelId';
+
+const VARIANT_LABELS: Record<VariantKey, string> = {
+  current: '目前標題',
+  titleA: '建議 A',
+  titleB: '建議 B',
+  titleC: '建議 C',
+};
+
+const STATUS_LABELS: Record<TitleExperiment['status'], string> = {
+  scheduled: '等待開始',
+  running: '輪替中',
+  completed: '已完成',
+  cancelled: '已停止',
+};
+
+const ROTATION_DAY_OPTIONS = [1, 2, 3, 7];
+const CYCLE_OPTIONS = [1, 2, 3];
+
+// 每次輪替：videos.list（1）+ videos.update（50）
+const QUOTA_PER_ROTATION = 51;
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('zh-TW', { hour12: false });
+
+const getChannelId = async (): Promise<string> => {
+  const cached = localStorage.getItem(ACTIVE_CHANNEL_STORAGE_KEY) || localStorage.getItem('channelId');
+  if (cached) return cached;
+  const channelId = await youtubeService.getChannelId({
+    source: 'TitleExperimentPanel',
+    trigger: 'title-experiment-report',
+  });
+  localStorage.setItem(ACTIVE_CHANNEL_STORAGE_KEY, channelId);
+  return channelId;
+};
+
+export function TitleExperimentPanel({ video, generatedContent, onVideoUpdate }: TitleExperimentPanelProps) {
+  const [experiments, setExperiments] = useState<TitleExperiment[]>([]);
+  const [selectedKeys, setSelectedKeys] = useState<VariantKey[]>(['titleA', 'titleB']);
+  const [rotationDays, setRotationDays] = useState(2);
+  const [cycles, setCycles] = useState(1);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const latest = experiments[0] ?? null;
+  const isActive = latest?.status === 'scheduled' || latest?.status === 'running';
+
+  const loadExperiments = async () => {
+    try {
+      setExperiments(await videoApiService.listTitleExperiments(video.id));
+    } catch (err: any) {
+      console.error('[TitleExperiment] Failed to load experiments:', err);
+      setError(`載入標題實驗失敗：${err.message}`);
+    }
+  };
+
+  useEffect(() => {
+    setError(null);
+    loadExperiments();
+  }, [video.id]);
+
+  const getVariantTitle = (key: VariantKey) =>
+    key === 'current' ? video.title : generatedContent?.[key] ?? '';
+
+  const toggleKey = (key: VariantKey) => {
+    setSelectedKeys(prev => (prev.includes(key) ? prev.filter(item => item !== key) : [...prev, key]));
+  };
+
+  const runAction = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await action();
+      await loadExperiments();
+    } catch (err: any) {
+      console.error('[TitleExperiment] Action failed:', err);
+      setError(err.message);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleStart = () => runAction(async () => {
+    const variants: TitleExperimentVariant[] = selectedKeys.map(key => ({
+      label: VARIANT_LABELS[key],
+      title: getVariantTitle(key).trim(),
+    }));
+    await videoApiService.createTitleExperiment({
+      videoId: video.id,
+      originalTitle: video.title,
+      variants,
+      rotationHours: rotationDays * 24,
+      cycles,
+    });
+    // 第一個標題立即上線
+    const applied = await applyDueTitleRotations();
+    applied
+      .filter(rotation => rotation.videoId === video.id)
+      .forEach(rotation => onVideoUpdate?.({ id: video.id, title: rotation.title }));
+  });
+
+  const handleStop = (experiment: TitleExperiment) => runAction(async () => {
+    await videoApiService.stopTitleExperiment(experiment.id);
+  });
+
+  const handleReport = (experiment: TitleExperiment) => runAction(async () => {
+    const accessToken = youtubeService.getAccessToken();
+    if (!accessToken) {
+      throw new Error('請先登入 YouTube 帳號');
+    }
+    await videoApiService.getTitleExperimentReport(experiment.id, accessToken, await getChannelId());
+  });
+
+  const handleApplyTitle = (title: string) => runAction(async () => {
+    await metadataUpdateService.updateVideoMetadata(video.id, { title }, {
+      categoryId: video.categoryId,
+      source: 'TitleExperiment',
+      trigger: 'title-experiment-apply',
+    });
+    onVideoUpdate?.({ id: video.id, title });
+  });
+
+  const selectedTitles = selectedKeys.map(getVariantTitle).filter(Boolean);
+  const canStart = selectedTitles.length >= 2 && new Set(selectedTitles).size === selectedTitles.length;
+
+  const renderExperiment = (experiment: TitleExperiment) => {
+    const liveWindow = experiment.windows[experiment.windows.length - 1];
+    const report = experiment.report;
+    const winner = report && report.winnerIndex !== null ? experiment.variants[report.winnerIndex] : null;
+
+    return (
+      <div className="space-y-3">
+        <div className="flex flex-wrap items-center gap-2 text-xs text-neutral-600">
+          <span className="rounded-full bg-neutral-100 px-2 py-0.5 font-medium text-neutral-800">
+            {STATUS_LABELS[experiment.status]}
+          </span>
+          <span>第 {experiment.windows.length}/{experiment.plan.length} 個時段・每段 {experiment.rotationHours / 24} 天</span>
+          {experiment.nextRotationAt && <span>下次輪替：{formatTime(experiment.nextRotationAt)}</span>}
+        </div>
+
+        {liveWindow && !liveWindow.endedAt && (
+          <p className="text-sm text-neutral-700">
+            目前上線：<span className="font-medium">{liveWindow.title}</span>
+          </p>
+        )}
+
+        {experiment.windows.length > 0 && (
+          <ul className="divide-y divide-neutral-100 rounded-lg border border-neutral-200 text-xs">
+            {experiment.windows.map((timeWindow, index) => (
+              <li key={index} className="flex flex-wrap gap-2 px-3 py-2">
+                <span className="font-medium text-neutral-800">{experiment.variants[timeWindow.variantIndex]?.label}</span>
+                <span className="text-neutral-500">
+                  {formatTime(timeWindow.startedAt)} → {timeWindow.endedAt ? formatTime(timeWindow.endedAt) : '進行中'}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {report && (
+          <div className="space-y-2 rounded-lg border border-neutral-200 p-3">
+            <table className="w-full text-xs">
+              <thead className="text-neutral-500">
+                <tr>
+                  <th className="py-1 text-left font-medium">標題</th>
+                  <th className="py-1 text-right font-medium">上線時數</th>
+                  <th className="py-1 text-right font-medium">觀看</th>
+                  <th className="py-1 text-right font-medium">每日觀看</th>
+                  <th className="py-1 text-right font-medium">CTR</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.variants.map(result => (
+                  <tr
+                    key={result.variantIndex}
+                    className={result.variantIndex === report.winnerIndex ? 'font-semibold text-emerald-700' : 'text-neutral-700'}
+                  >
+                    <td className="py-1 pr-2" title={result.title}>{result.label}</td>
+                    <td className="py-1 text-right">{result.liveHours}</td>
+                    <td className="py-1 text-right">{result.views.toLocaleString()}</td>
+                    <td className="py-1 text-right">{result.viewsPerDay ?? '-'}</td>
+                    <td className="py-1 text-right">{result.ctr !== null ? `${result.ctr}%` : '-'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="text-xs text-neutral-600">{report.note}</p>
+            <p className="text-[11px] text-neutral-400">
+              數據截至 {report.dataThrough ?? '尚無數據'}・輪替當天的數據依上線時數分攤，結果僅供參考
+            </p>
+            {winner && !isActive && (
+              <button
+                type="button"
+                onClick={() => handleApplyTitle(winner.title)}
+                disabled={isBusy}
+                className="rounded-full bg-emerald-600 px-3 py-1.5 text-xs font-semibold text-white hover:bg-emerald-700 disabled:opacity-50"
+              >
+                套用勝出標題：{winner.title}
+              </button>
+            )}
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          {experiment.windows.length > 0 && (
+            <button
+              type="button"
+              onClick={() => handleReport(experiment)}
+              disabled={isBusy}
+              className="rounded-full border border-neutral-300 px-3 py-1.5 text-xs font-semibold text-neutral-700 hover:bg-neutral-100 disabled:opacity-50"
+            >
+              {report ? '更新報表' : '產生報表'}
+            </button>
+          )}
+          {(experiment.status === 'scheduled' || experiment.status === 'running') && (
+            <button
+              type="button"
+              onClick={() => handleStop(experiment)}
+              disabled={isBusy}
+              className="rounded-full border border-red-200 bg-red-50 px-3 py-1.5 text-xs font-semibold text-red-600 hover:bg-red-100 disabled:opacity-50"
+            >
+              停止實驗
+            </button>
+          )}
+          {!isActive && experiment.originalTitle && experiment.originalTitle !== video.title && (
+            <button
+              type="button"
+              onClick={() => handleApplyTitle(experiment.originalTitle)}
+              disabled={isBusy}
+              className="rounded-full border border-neutral-300 px-3 py-1.5 text-xs font-semibold text-neutral-700 hover:bg-neutral-100 disabled:opacity-50"
+            >
+              還原實驗前的標題
+            </button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border border-neutral-200 p-4">
+      <h3 className="font-semibold text-neutral-800">標題 A/B 輪替實驗</h3>
+      {error && <div className="rounded-lg bg-red-50 px-3 py-2 text-sm text-red-600">{error}</div>}
+
+      {latest && renderExperiment(latest)}
+
+      {!isActive && generatedContent && (
+        <div className="space-y-3 border-t border-neutral-100 pt-3">
+          <p className="text-xs text-neutral-500">選擇至少兩個標題，依排程輪流設為影片標題，再以各時段的觀看與 CTR 比較成效。</p>
+          <div className="space-y-1">
+            {(Object.keys(VARIANT_LABELS) as VariantKey[]).map(key => (
+              <label key={key} className="flex items-start gap-2 text-sm text-neutral-700">
+                <input
+                  type="checkbox"
+                  checked={selectedKeys.includes(key)}
+                  onChange={() => toggleKey(key)}
+                  className="mt-1 accent-red-600"
+                />
+                <span>
+                  <span className="text-xs text-neutral-500">{VARIANT_LABELS[key]}：</span>
+                  {getVariantTitle(key)}
+                </span>
+              </label>
+            ))}
+          </div>
+          <div className="flex flex-wrap items-center gap-3 text-sm text-neutral-700">
+            <label className="flex items-center gap-2">
+              每個標題上線
+              <select
+                value={rotationDays}
+                onChange={e => setRotationDays(Number(e.target.value))}
+                className="rounded-md border border-neutral-300 px-2 py-1"
+              >
+                {ROTATION_DAY_OPTIONS.map(days => <option key={days} value={days}>{days} 天</option>)}
+              </select>
+            </label>
+            <label className="flex items-center gap-2">
+              輪替
+              <select
+                value={cycles}
+                onChange={e => setCycles(Number(e.target.value))}
+                className="rounded-md border border-neutral-300 px-2 py-1"
+              >
+                {CYCLE_OPTIONS.map(count => <option key={count} value={count}>{count} 輪</option>)}
+              </select>
+            </label>
+          </div>
+          <p className="text-xs text-amber-700">
+            共 {selectedKeys.length * cycles} 次輪替，約消耗 {selectedKeys.length * cycles * QUOTA_PER_ROTATION} 點 API 配額。
+            輪替需在已登入本工具時執行，未開啟期間到期的輪替會在下次開啟時補上。
+          </p>
+          <button
+            type="button"
+            onClick={handleStart}
+            disabled={!canStart || isBusy}
+            className="w-full rounded-full bg-red-600 py-2 text-sm font-bold text-white hover:bg-red-700 disabled:cursor-not-allowed disabled:bg-neutral-400"
+          >
+            {isBusy ? '處理中...' : '開始實驗'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
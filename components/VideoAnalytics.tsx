@@ -3,6 +3,8 @@ import { Loader } from './Loader';
 import * as youtubeService from '../services/youtubeService';
 import { VideoAnalyticsExpandedView } from './VideoAnalyticsExpandedView';
 import { AppIcon } from './AppIcon';
+import { PriorityRuleEditor } from './PriorityRuleEditor';
+import * as videoApiService from '../services/videoApiService';
 
 interface AnalyticsMetrics {
   views: number;
@@ -43,6 +45,7 @@ interface VideoAnalyticsData {
   metrics: AnalyticsMetrics;
   trafficSources: TrafficSources;
   impressions: Impressions;
+  durationSeconds?: number | null;
   priorityScore: number;
   updateReasons: string[];
 }
@@ -103,6 +106,7 @@ export function VideoAnalytics() {
   const [selectedYears, setSelectedYears] = useState(1); // 預設 1 年
   const [currentYearRange, setCurrentYearRange] = useState(1); // 當前已載入的年份範圍
   const [showMetadataGenerator, setShowMetadataGenerator] = useState<Record<string, boolean>>({});
+  const [showRuleEditor, setShowRuleEditor] = useState(false);
   const previousChannelIdRef = useRef<string | null>(null);
 
   const persistAnalyticsData = useCallback((channelId: string, data: VideoAnalyticsData[], yearRange: number) => {
@@ -337,6 +341,19 @@ export function VideoAnalytics() {
     }
   };
 
+  // 規則儲存後，以伺服器上最近一次的分析數據重新排序（不重新查詢 YouTube API）
+  const applySavedRules = async () => {
+    if (!activeChannelId) return;
+    try {
+      const data = await videoApiService.getPriorityRecommendations<VideoAnalyticsData>(activeChannelId);
+      setAnalyticsData(data.recommendations);
+      setExpandedVideoId(null);
+      persistAnalyticsData(activeChannelId, data.recommendations, currentYearRange);
+    } catch (err: any) {
+      console.warn('[Analytics] 套用新規則失敗，請重新分析:', err);
+    }
+  };
+
   const loadMoreYears = () => {
     const nextYearRange = currentYearRange + 1;
     fetchAnalytics(nextYearRange, true);
@@ -549,6 +566,17 @@ export function VideoAnalytics() {
               </span>
             </button>
             <div className="flex gap-2">
+              {activeChannelId && (
+                <button
+                  onClick={() => setShowRuleEditor(prev => !prev)}
+                  className="px-4 py-2 rounded-lg font-semibold transition-all hover:shadow-lg text-sm bg-red-50 text-red-600 border border-red-200"
+                >
+                  <span className="inline-flex items-center gap-2">
+                    <AppIcon name="target" size={16} className="text-red-600" />
+                    {showRuleEditor ? '收合規則' : '調整優先級規則'}
+                  </span>
+                </button>
+              )}
               <button
                 onClick={loadMoreYears}
                 className="px-6 py-2 rounded-lg font-semibold transition-all hover:shadow-lg bg-red-50 text-red-600 border border-red-200"
@@ -570,6 +598,10 @@ export function VideoAnalytics() {
             </div>
           </div>
 
+          {showRuleEditor && activeChannelId && (
+            <PriorityRuleEditor channelId={activeChannelId} onSaved={applySavedRules} />
+          )}
+
           {/* 影片列表 */}
           <div className="grid gap-4">
             {analyticsData.map((video, index) => (
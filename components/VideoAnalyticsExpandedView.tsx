@@ -3,8 +3,10 @@ import { Loader } from './Loader';
 import { SparklesIcon, CheckIcon } from './Icons';
 import * as youtubeService from '../services/youtubeService';
 import * as geminiService from '../services/geminiService';
+import * as metadataUpdateService from '../services/metadataUpdateService';
 import type { GeneratedContentType, ProgressMessage, YouTubeVideo } from '../types';
 import { AppIcon } from './AppIcon';
+import { MetadataHistoryPanel } from './MetadataHistoryPanel';
 
 const ACTIVE_CHANNEL_STORAGE_KEY = 'videoAnalytics.activeChannelId';
 
@@ -135,6 +137,7 @@ export function VideoAnalyticsExpandedView({
   const [prompt, setPrompt] = useState('');
   const [updateState, setUpdateState] = useState<UpdateState>({ title: 'idle', description: 'idle', tags: 'idle' });
   const [geminiFileName, setGeminiFileName] = useState<string | undefined>(undefined);
+  const [historyVersion, setHistoryVersion] = useState(0);
 
   // 當生成內容變化時，更新可編輯內容
   useEffect(() => {
@@ -443,31 +446,24 @@ export function VideoAnalyticsExpandedView({
 
     setUpdateState(prev => ({ ...prev, [field]: 'loading' }));
     try {
-      const tagsToUpdate = field === 'tags'
-        ? editableContent.tags.split(',').map(t => t.trim()).filter(t => t.length > 0)
-        : youtubeCurrentValues.tags;
+      const changes = field === 'tags'
+        ? { tags: editableContent.tags.split(',').map(t => t.trim()).filter(t => t.length > 0) }
+        : { [field]: editableContent[field] };
 
-      const videoDataToUpdate: YouTubeVideo = {
-        id: fullVideoData.id,
+      // youtubeCurrentValues 為展開時從 YouTube 讀取的最新值，只覆寫目前這個欄位
+      const updated = await metadataUpdateService.updateVideoMetadata(fullVideoData.id, changes, {
         categoryId: fullVideoData.categoryId,
-        title: field === 'title' ? editableContent.title : youtubeCurrentValues.title,
-        description: field === 'description' ? editableContent.description : youtubeCurrentValues.description,
-        tags: tagsToUpdate,
-        thumbnailUrl: fullVideoData.thumbnailUrl,
-      };
-
-      await youtubeService.updateVideo(videoDataToUpdate, {
+        current: youtubeCurrentValues,
         source: 'VideoAnalyticsExpandedView',
         trigger: `metadata-update-${field}`,
       });
 
-      if (field === 'title') {
-        setYoutubeCurrentValues(prev => ({ ...prev, title: editableContent.title }));
-      } else if (field === 'description') {
-        setYoutubeCurrentValues(prev => ({ ...prev, description: editableContent.description }));
-      } else if (field === 'tags') {
-        setYoutubeCurrentValues(prev => ({ ...prev, tags: tagsToUpdate }));
-      }
+      setYoutubeCurrentValues({
+        title: updated.title,
+        description: updated.description,
+        tags: updated.tags,
+      });
+      setHistoryVersion(prev => prev + 1);
 
       setUpdateState(prev => ({ ...prev, [field]: 'success' }));
     } catch (e: any) {
@@ -1295,6 +1291,16 @@ export function VideoAnalyticsExpandedView({
                   </div>
                 </div>
               )}
+
+              <div className="mt-6">
+                <MetadataHistoryPanel
+                  videoId={fullVideoData.id}
+                  categoryId={fullVideoData.categoryId}
+                  current={youtubeCurrentValues}
+                  refreshKey={historyVersion}
+                  onRestored={setYoutubeCurrentValues}
+                />
+              </div>
             </>
           )}
         </div>
@@ -1,24 +1,78 @@
-import React from 'react';
+import React, { forwardRef, useEffect, useImperativeHandle, useLayoutEffect, useRef } from 'react';
 
 interface VideoPlayerProps {
   videoId: string;
+  /** 播放時間更新（秒）；提供時會啟用 YouTube embed 的 postMessage 介面 */
+  onTimeUpdate?: (seconds: number) => void;
 }
 
-export function VideoPlayer({ videoId }: VideoPlayerProps) {
-  const videoSrc = `https://www.youtube.com/embed/${videoId}`;
+export interface VideoPlayerHandle {
+  seekTo: (seconds: number) => void;
+  play: () => void;
+  pause: () => void;
+}
+
+const YOUTUBE_ORIGIN = 'https://www.youtube.com';
+
+export const VideoPlayer = forwardRef<VideoPlayerHandle, VideoPlayerProps>(function VideoPlayer(
+  { videoId, onTimeUpdate },
+  ref
+) {
+  const iframeRef = useRef<HTMLIFrameElement>(null);
+  const onTimeUpdateRef = useRef(onTimeUpdate);
+  useLayoutEffect(() => {
+    onTimeUpdateRef.current = onTimeUpdate;
+  }, [onTimeUpdate]);
+
+  const videoSrc = `${YOUTUBE_ORIGIN}/embed/${videoId}?enablejsapi=1&rel=0`;
+
+  const sendCommand = (func: string, args: unknown[] = []) => {
+    iframeRef.current?.contentWindow?.postMessage(JSON.stringify({ event: 'command', func, args }), YOUTUBE_ORIGIN);
+  };
+
+  useImperativeHandle(ref, () => ({
+    seekTo: (seconds: number) => sendCommand('seekTo', [seconds, true]),
+    play: () => sendCommand('playVideo'),
+    pause: () => sendCommand('pauseVideo'),
+  }));
+
+  // 播放器會定期以 infoDelivery 訊息回報 currentTime
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      if (event.origin !== YOUTUBE_ORIGIN || event.source !== iframeRef.current?.contentWindow) return;
+      try {
+        const data = typeof event.data === 'string' ? JSON.parse(event.data) : event.data;
+        const currentTime = data?.info?.currentTime;
+        if (typeof currentTime === 'number') {
+          onTimeUpdateRef.current?.(currentTime);
+        }
+      } catch {
+        // 忽略非 JSON 訊息
+      }
+    };
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, []);
+
+  // 告知播放器開始推送狀態（未訂閱時播放器不會送出 infoDelivery）
+  const handleLoad = () => {
+    iframeRef.current?.contentWindow?.postMessage(JSON.stringify({ event: 'listening', id: videoId }), YOUTUBE_ORIGIN);
+  };
 
   return (
     <div className="space-y-4">
       <div className="aspect-video w-full">
         <iframe
+            ref={iframeRef}
             src={videoSrc}
             title="YouTube video player"
             frameBorder="0"
             allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
             allowFullScreen
+            onLoad={handleLoad}
             className="w-full h-full rounded-lg shadow-lg"
         ></iframe>
       </div>
     </div>
   );
-}
+});
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState } from 'react';
 import type { YouTubeVideo } from '../types';
 import { Loader } from './Loader';
 import { VideoCard } from './VideoCard';
@@ -12,6 +12,7 @@ interface VideoSelectorProps {
   selectedVideoId: string | null;
   onSelectVideo: (videoId: string) => void;
   showInlineDetail?: boolean;
+  onBatchGenerate?: (videos: YouTubeVideo[]) => void;
 }
 
 export function VideoSelector({
@@ -23,7 +24,30 @@ export function VideoSelector({
   selectedVideoId,
   onSelectVideo,
   showInlineDetail = false,
+  onBatchGenerate,
 }: VideoSelectorProps) {
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+
+  const toggleSelected = (videoId: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(videoId)) next.delete(videoId);
+      else next.add(videoId);
+      return next;
+    });
+  };
+
+  const exitSelection = () => {
+    setIsSelecting(false);
+    setSelectedIds(new Set());
+  };
+
+  const handleBatchGenerate = () => {
+    if (!onBatchGenerate) return;
+    onBatchGenerate(videos.filter(video => selectedIds.has(video.id)));
+    exitSelection();
+  };
 
   return (
     <div className="space-y-5 font-['Roboto',sans-serif]">
@@ -39,9 +63,43 @@ export function VideoSelector({
             {videos.length}
           </span>
           <span>條符合條件的影片</span>
+          {onBatchGenerate && (
+            <button
+              type="button"
+              onClick={() => (isSelecting ? exitSelection() : setIsSelecting(true))}
+              className="ml-2 rounded-full border border-[#CCCCCC] px-3 py-1.5 text-sm font-medium text-[#030303] transition-colors hover:bg-[#F2F2F2] focus:outline-none focus-visible:ring-2 focus-visible:ring-[#065FD4]"
+            >
+              {isSelecting ? '取消選取' : '批次生成'}
+            </button>
+          )}
         </div>
       </header>
 
+      {isSelecting && (
+        <div className="sticky top-20 z-10 flex flex-wrap items-center justify-between gap-3 rounded-xl border border-[#065FD4] bg-[#E8F0FE] px-4 py-3 text-sm text-[#065FD4]">
+          <span>
+            已選擇 <span className="font-semibold">{selectedIds.size}</span> 支影片，將為每支影片排入中繼資料生成任務
+          </span>
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              onClick={() => setSelectedIds(new Set(videos.map(video => video.id)))}
+              className="rounded-full px-3 py-1.5 font-medium hover:bg-white/60"
+            >
+              全選已載入
+            </button>
+            <button
+              type="button"
+              onClick={handleBatchGenerate}
+              disabled={selectedIds.size === 0}
+              className="rounded-full bg-[#065FD4] px-4 py-1.5 font-medium text-white transition-colors hover:bg-[#0553C1] disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              開始批次生成
+            </button>
+          </div>
+        </div>
+      )}
+
       {error && !isLoading && (
         <div className="rounded-xl border border-[#FCE8E8] bg-[#FEF7F7] px-4 py-3 text-sm text-[#C5221F] shadow-[0_1px_2px_rgba(0,0,0,0.1)]">
           <div className="flex items-start gap-2">
@@ -79,12 +137,25 @@ export function VideoSelector({
 
             return (
               <div key={video.id} className="space-y-3">
-                <VideoCard
-                  video={video}
-                  isActive={isActive}
-                  onSelect={onSelectVideo}
-                  cardId={cardId}
-                />
+                <div className="flex items-center gap-3">
+                  {isSelecting && (
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.has(video.id)}
+                      onChange={() => toggleSelected(video.id)}
+                      aria-label={`選取 ${video.title}`}
+                      className="h-5 w-5 flex-shrink-0 accent-[#065FD4]"
+                    />
+                  )}
+                  <div className="min-w-0 flex-1">
+                    <VideoCard
+                      video={video}
+                      isActive={isActive}
+                      onSelect={isSelecting ? toggleSelected : onSelectVideo}
+                      cardId={cardId}
+                    />
+                  </div>
+                </div>
                 {/* Inline detail 佔位元素 - 由 App.tsx 透過條件渲染或 Portal */}
                 <div
                   id={`detail-slot-${video.id}`}
@@ -35,7 +35,7 @@ export const YOUTUBE_CLIENT_ID =
 export const YOUTUBE_SCOPES =
     runtimeConfig?.YOUTUBE_SCOPES ??
     envConfig.YOUTUBE_SCOPES ??
-    'https://www.googleapis.com/auth/youtube https://www.googleapis.com/auth/yt-analytics.readonly';
+    'https://www.googleapis.com/auth/youtube https://www.googleapis.com/auth/youtube.force-ssl https://www.googleapis.com/auth/yt-analytics.readonly';
 
 // GitHub Gist ID for video cache
 export const GITHUB_GIST_ID =
@@ -0,0 +1,24 @@
+import { getAIBudgetStatus } from '../services/aiUsageLedger.js';
+
+/**
+ * 檢查使用者的 AI 預算，超出每日或每月預算時拒絕新的 AI 請求
+ * 使用方式：app.post('/api/endpoint', requireAIBudget, handler)
+ */
+export function requireAIBudget(req, res, next) {
+  const userId = req.user?.email || req.ip;
+  const status = getAIBudgetStatus(userId);
+
+  if (!status.exceeded) {
+    return next();
+  }
+
+  const limit = status.exceeded === 'daily' ? status.budget.dailyUsd : status.budget.monthlyUsd;
+  const spent = status.exceeded === 'daily' ? status.dailySpentUsd : status.monthlySpentUsd;
+  console.warn(`[AIUsage] 拒絕 ${userId} 的 AI 請求：已超出${status.exceeded === 'daily' ? '每日' : '每月'}預算`);
+
+  return res.status(429).json({
+    error: 'AI_BUDGET_EXCEEDED',
+    details: `已超出${status.exceeded === 'daily' ? '今日' : '本月'} AI 預算（已使用 $${spent.toFixed(2)} / $${limit.toFixed(2)}）`,
+    budget: status,
+  });
+}
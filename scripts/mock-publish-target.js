@@ -0,0 +1,114 @@
+/**
+ * 本機模擬發佈目標，用來測試 WordPress / Webhook 發佈而不需要真的架站
+ *
+ * 啟動：npm run mock-publish-target
+ * 在「發佈到…」新增目標時填入：
+ *   - WordPress：網站網址 http://localhost:4010，帳號與應用程式密碼任意（預設不檢查）
+ *   - Webhook：網址 http://localhost:4010/webhook
+ *
+ * 環境變數：
+ *   MOCK_PUBLISH_PORT            監聽埠（預設 4010）
+ *   MOCK_WORDPRESS_PASSWORD      設定時只接受這組應用程式密碼
+ *   MOCK_WEBHOOK_SECRET          設定時驗證 X-Signature-256 簽章
+ */
+
+import http from 'http';
+import crypto from 'crypto';
+
+const PORT = parseInt(process.env.MOCK_PUBLISH_PORT, 10) || 4010;
+const WORDPRESS_PASSWORD = process.env.MOCK_WORDPRESS_PASSWORD;
+const WEBHOOK_SECRET = process.env.MOCK_WEBHOOK_SECRET;
+
+const media = [];
+const posts = [];
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    const chunks = [];
+    req.on('data', (chunk) => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
+
+function sendJson(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function isWordPressAuthorized(req) {
+  const [scheme, encoded] = (req.headers.authorization || '').split(' ');
+  if (scheme !== 'Basic' || !encoded) return false;
+  const [, password] = Buffer.from(encoded, 'base64').toString().split(':');
+  return !WORDPRESS_PASSWORD || password === WORDPRESS_PASSWORD;
+}
+
+const server = http.createServer(async (req, res) => {
+  const body = await readBody(req);
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+  console.log(`→ ${req.method} ${url.pathname} (${body.length} bytes)`);
+
+  if (url.pathname.startsWith('/wp-json/wp/v2/')) {
+    if (!isWordPressAuthorized(req)) {
+      return sendJson(res, 401, { code: 'rest_not_logged_in', message: '應用程式密碼不正確' });
+    }
+
+    if (req.method === 'GET' && url.pathname === '/wp-json/wp/v2/users/me') {
+      return sendJson(res, 200, { id: 1, name: 'Mock Admin', slug: 'admin' });
+    }
+
+    if (req.method === 'POST' && url.pathname === '/wp-json/wp/v2/media') {
+      const fileName = decodeURIComponent(
+        (req.headers['content-disposition'] || '').match(/filename="([^"]+)"/)?.[1] || 'upload.bin'
+      );
+      const item = {
+        id: 100 + media.length,
+        source_url: `http://localhost:${PORT}/wp-content/uploads/${fileName}`,
+        mime_type: req.headers['content-type'],
+      };
+      media.push(item);
+      console.log(`  📷 媒體 #${item.id}: ${fileName}（${req.headers['content-type']}, ${body.length} bytes）`);
+      return sendJson(res, 201, item);
+    }
+
+    if (req.method === 'POST' && url.pathname === '/wp-json/wp/v2/posts') {
+      const data = JSON.parse(body.toString() || '{}');
+      const post = { id: 1 + posts.length, link: `http://localhost:${PORT}/?p=${1 + posts.length}`, status: data.status };
+      posts.push({ ...post, ...data });
+      console.log(`  📝 文章 #${post.id}「${data.title}」status=${data.status} featured_media=${data.featured_media ?? '-'}`);
+      console.log(`     內容 ${String(data.content || '').length} 字元，摘要：${data.excerpt || '-'}`);
+      return sendJson(res, 201, post);
+    }
+
+    return sendJson(res, 404, { code: 'rest_no_route', message: 'No route was found' });
+  }
+
+  if (req.method === 'POST' && url.pathname === '/webhook') {
+    if (WEBHOOK_SECRET) {
+      const expected = `sha256=${crypto.createHmac('sha256', WEBHOOK_SECRET).update(body).digest('hex')}`;
+      if (req.headers['x-signature-256'] !== expected) {
+        console.log('  ❌ 簽章不符');
+        return sendJson(res, 401, { error: 'invalid signature' });
+      }
+    }
+
+    const payload = JSON.parse(body.toString() || '{}');
+    if (payload.event === 'ping') {
+      return sendJson(res, 200, { ok: true });
+    }
+
+    const screenshots = payload.article?.screenshots || [];
+    const imageCount = screenshots.reduce((sum, group) => sum + group.images.length, 0);
+    const embedded = screenshots.reduce((sum, group) => sum + group.images.filter((image) => image.data).length, 0);
+    console.log(`  🔔 ${payload.event}「${payload.article?.title}」截圖 ${imageCount} 張（內嵌 ${embedded} 張）`);
+    return sendJson(res, 200, { id: `hook-${Date.now()}`, url: `http://localhost:${PORT}/posts/${payload.article?.videoId}` });
+  }
+
+  sendJson(res, 404, { error: 'not found' });
+});
+
+server.listen(PORT, () => {
+  console.log(`🧪 模擬發佈目標已啟動：http://localhost:${PORT}`);
+  console.log(`   WordPress REST：http://localhost:${PORT}/wp-json/wp/v2/`);
+  console.log(`   Webhook：http://localhost:${PORT}/webhook`);
+});
@@ -0,0 +1,153 @@
+/**
+ * 同步頻道數據歷史快照
+ * 每天由 cron job 執行一次即可補上最新的數據；設定 SNAPSHOT_START_DATE 可回補更早的歷史
+ * 同步完成後伺服器會自動偵測數據異常，新增的提醒會出現在站內收件匣（並依頻道設定送出 webhook）
+ * 支援 refresh token 自動刷新
+ *
+ * 注意：快照保存在 API 伺服器的 DATA_DIR，API_URL 需指向實際提供服務的伺服器
+ */
+
+import dotenv from 'dotenv';
+import { refreshAccessToken, parseTokenInput } from '../services/youtubeTokenService.js';
+import { signSessionToken } from '../middleware/auth.js';
+
+// 載入環境變數
+dotenv.config({ path: '.env.local' });
+
+const API_URL = process.env.API_URL || 'http://localhost:3001';
+const YOUTUBE_TOKEN = process.env.YOUTUBE_TOKEN || process.env.YOUTUBE_ACCESS_TOKEN; // 支援舊環境變數
+const YOUTUBE_REFRESH_TOKEN = process.env.YOUTUBE_REFRESH_TOKEN;
+const YOUTUBE_CHANNEL_ID = process.env.YOUTUBE_CHANNEL_ID;
+const YOUTUBE_CLIENT_ID = process.env.YOUTUBE_CLIENT_ID;
+const YOUTUBE_CLIENT_SECRET = process.env.YOUTUBE_CLIENT_SECRET;
+const SNAPSHOT_START_DATE = process.env.SNAPSHOT_START_DATE || null; // 例如 2023-01-01（回補歷史）
+const SNAPSHOT_END_DATE = process.env.SNAPSHOT_END_DATE || null;
+const SNAPSHOT_SKIP_VIDEOS = process.env.SNAPSHOT_SKIP_VIDEOS === 'true';
+const FORCE_UPDATE = process.env.FORCE_UPDATE === 'true';
+
+const POLL_INTERVAL_MS = 5000;
+
+async function getAccessToken() {
+  if (YOUTUBE_REFRESH_TOKEN) {
+    console.log('🔄 使用 refresh token 取得 access token...');
+    const tokenData = await refreshAccessToken(YOUTUBE_REFRESH_TOKEN, YOUTUBE_CLIENT_ID, YOUTUBE_CLIENT_SECRET);
+    console.log(`✅ Access token 取得成功（有效期限: ${tokenData.expires_in} 秒）\n`);
+    return tokenData.access_token;
+  }
+  return parseTokenInput(YOUTUBE_TOKEN).accessToken;
+}
+
+async function waitForTask(taskId, headers) {
+  let lastMessage = '';
+  for (;;) {
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+    const response = await fetch(`${API_URL}/api/task/${taskId}`, { headers });
+    if (!response.ok) {
+      throw new Error(`查詢任務失敗: ${response.status} ${await response.text()}`);
+    }
+
+    const task = await response.json();
+    if (task.progressMessage && task.progressMessage !== lastMessage) {
+      lastMessage = task.progressMessage;
+      console.log(`   [${task.progress}%] ${lastMessage}`);
+    }
+    if (task.status === 'completed') return task.result;
+    if (task.status === 'failed' || task.status === 'cancelled') {
+      throw new Error(task.error || `任務${task.status === 'failed' ? '失敗' : '已取消'}`);
+    }
+  }
+}
+
+async function updateSnapshots() {
+  console.log('========================================');
+  console.log('🗄️  開始同步頻道數據歷史快照');
+  console.log('========================================\n');
+
+  const missingVars = [];
+  if (!YOUTUBE_TOKEN && !YOUTUBE_REFRESH_TOKEN) {
+    missingVars.push('YOUTUBE_TOKEN 或 YOUTUBE_REFRESH_TOKEN');
+  }
+  if (!YOUTUBE_CHANNEL_ID) missingVars.push('YOUTUBE_CHANNEL_ID');
+  if (YOUTUBE_REFRESH_TOKEN && (!YOUTUBE_CLIENT_ID || !YOUTUBE_CLIENT_SECRET)) {
+    missingVars.push('YOUTUBE_CLIENT_ID 和 YOUTUBE_CLIENT_SECRET（使用 refresh token 時需要）');
+  }
+
+  if (missingVars.length > 0) {
+    console.error('❌ 缺少必要的環境變數：');
+    missingVars.forEach(v => console.error(`   - ${v}`));
+    process.exit(1);
+  }
+
+  console.log('✅ 環境變數檢查通過');
+  console.log(`   - Channel ID: ${YOUTUBE_CHANNEL_ID}`);
+  console.log(`   - 日期範圍: ${SNAPSHOT_START_DATE || '(最近 30 天)'} ~ ${SNAPSHOT_END_DATE || '(最新可查日期)'}`);
+  console.log(`   - 影片數據: ${SNAPSHOT_SKIP_VIDEOS ? '略過' : '同步'}`);
+  console.log(`   - Force Update: ${FORCE_UPDATE}\n`);
+
+  let accessToken;
+  try {
+    accessToken = await getAccessToken();
+  } catch (error) {
+    console.error('❌ Token 處理失敗:', error.message);
+    process.exit(1);
+  }
+
+  try {
+    console.log('📡 正在建立同步任務...');
+    const headers = {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${signSessionToken('github-actions')}`,
+    };
+    const response = await fetch(
+      `${API_URL}/api/analytics-snapshots/${encodeURIComponent(YOUTUBE_CHANNEL_ID)}/sync`,
+      {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          accessToken,
+          startDate: SNAPSHOT_START_DATE,
+          endDate: SNAPSHOT_END_DATE,
+          includeVideos: !SNAPSHOT_SKIP_VIDEOS,
+          force: FORCE_UPDATE,
+        }),
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error(`API 請求失敗: ${response.status} ${await response.text()}`);
+    }
+
+    const { taskId } = await response.json();
+    console.log(`✅ 任務已建立：${taskId}\n`);
+
+    const result = await waitForTask(taskId, headers);
+
+    console.log('\n✅ 快照同步完成！');
+    console.log('========================================');
+    console.log(`📅 日期範圍：${result.startDate} ~ ${result.endDate}`);
+    console.log(`📊 頻道數據：${result.channelDaysSynced} 天`);
+    console.log(`🎬 影片數據：${result.videoDaysSynced} 天${result.videoSource === 'top-videos' ? '（沒有影片快取，只記錄每天觀看最高的影片）' : ''}`);
+    console.log(`🔢 Analytics 查詢次數：${result.queries}`);
+    if (result.anomalies) {
+      const webhookNote = result.anomalies.webhook ? `（webhook ${result.anomalies.webhook === 'sent' ? '已送出' : '發送失敗'}）` : '';
+      console.log(`🚨 數據異常：偵測到 ${result.anomalies.detected} 項，新增 ${result.anomalies.newAlerts} 則提醒${webhookNote}`);
+    }
+    console.log('========================================\n');
+
+    process.exit(0);
+  } catch (error) {
+    console.error('\n❌ 同步快照失敗：');
+    console.error(`   ${error.message}\n`);
+
+    if (error.message.includes('ECONNREFUSED')) {
+      console.error('💡 可能原因：');
+      console.error('   - 伺服器未啟動');
+      console.error('   - 請確認 API_URL 指向正在運行的伺服器\n');
+    }
+
+    process.exit(1);
+  }
+}
+
+// 執行同步
+updateSnapshots();
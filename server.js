@@ -3,6 +3,7 @@ import cors from 'cors';
 import helmet from 'helmet';
 import { exec } from 'child_process';
 import { requireAuth, signSessionToken } from './middleware/auth.js';
+import { requireAIBudget } from './middleware/aiBudget.js';
 import { errorHandler } from './middleware/errorHandler.js';
 import crypto from 'crypto';
 import fs from 'fs';
@@ -11,15 +12,41 @@ import { promisify } from 'util';
 import { GoogleGenAI } from '@google/genai';
 import dotenv from 'dotenv';
 import multer from 'multer';
-import { generateFullPrompt } from './services/promptService.js';
+import {
+  generateFullPrompt,
+  generateTranslationPrompt,
+  generateTranscriptPrompt,
+  generateTranscriptTranslationPrompt,
+} from './services/promptService.js';
+import {
+  DEFAULT_SOURCE_LANGUAGE,
+  getDefaultTargetLanguages,
+  normalizeLanguageList,
+  normalizeTranslations,
+} from './services/metadataLocalizationService.js';
+import { attachMetadataChapters, parseIsoDurationSeconds } from './services/youtubeChapters.js';
+import * as transcripts from './services/transcriptStore.js';
+import { transcriptToText } from './services/captionFormats.js';
 import { generateArticlePrompt, generateArticlePromptWithReferences } from './services/articlePromptService.js';
 import { AIModelManager } from './services/aiProviders/AIModelManager.js';
 import { generateContentWithFallback } from './services/aiProviders/geminiFallback.js';
 import { PromptTemplates } from './services/analysisPrompts/PromptTemplates.js';
 import { aggregateChannelData, clearAnalyticsCache } from './services/channelAnalyticsService.js';
 import { fetchAllVideoTitles, uploadToGist, searchVideosFromCache, loadFromGist } from './services/videoCacheService.js';
-import { getChannelVideosAnalytics, calculateUpdatePriority, getVideoSearchTerms, getVideoExternalTrafficDetails } from './services/analyticsService.js';
+import { getChannelVideosAnalytics, calculateUpdatePriority, getVideoSearchTerms, getVideoExternalTrafficDetails, getVideoDailyMetrics } from './services/analyticsService.js';
 import { generateKeywordAnalysisPrompt } from './services/keywordAnalysisPromptService.js';
+import { scoreVideos, rankVideosByPriority, validatePriorityRuleSet } from './services/priorityRules.js';
+import * as priorityRuleStore from './services/priorityRuleStore.js';
+import * as channelAccess from './services/channelAccessStore.js';
+import * as keywordWorkspaces from './services/keywordWorkspaceStore.js';
+import * as analyticsSnapshots from './services/analyticsSnapshotStore.js';
+import { syncAnalyticsSnapshots, resolveSyncRange } from './services/analyticsSnapshotService.js';
+import * as anomalyAlerts from './services/anomalyAlertStore.js';
+import { runAnomalyDetection, sendAnomalyWebhook } from './services/anomalyAlertService.js';
+import * as reportStore from './services/reportStore.js';
+import { runReport, startReportScheduler } from './services/reportService.js';
+import { isMailConfigured } from './services/smtpMailer.js';
+import { dedupeTags, isRelevantSuggestion, rankTagSuggestions, selectTagsWithinLimit } from './services/tagResearch.js';
 import { TOOL_DEFINITIONS, executeTool } from './services/analyticsTools.js';
 import {
   getQuotaSnapshot as getServerQuotaSnapshot,
@@ -33,7 +60,29 @@ import {
   getArticleTemplateStatus,
   listAvailableArticleTemplates,
 } from './services/articlePromptService.js';
-import { publishArticleToNotion, listNotionDatabases, getNotionDatabase } from './services/notionService.js';
+import { publishArticleToNotion, listNotionDatabases, getNotionDatabase, getNotionPageSyncStatus } from './services/notionService.js';
+import * as notionPropertyMappings from './services/notionPropertyMappingStore.js';
+import { exportArticle } from './services/articleExportService.js';
+import { createPublisher } from './services/publishers/index.js';
+import * as publishTargets from './services/publishTargetStore.js';
+import { recordMetadataChange, listMetadataHistory } from './services/metadataHistoryStore.js';
+import {
+  listArticleDrafts,
+  getArticleDraft,
+  saveArticleDraftRevision,
+  restoreArticleDraftRevision,
+  deleteArticleDraft,
+  setArticleDraftNotionPage,
+} from './services/articleDraftStore.js';
+import * as articleReviews from './services/articleReviewStore.js';
+import * as titleExperiments from './services/titleExperimentService.js';
+import {
+  getAIUsageSummary,
+  getAIBudgetStatus,
+  listAIBudgets,
+  canManageAIBudgets,
+  setAIBudget,
+} from './services/aiUsageLedger.js';
 import { jsonrepair } from 'jsonrepair';
 import { postprocessArticleHtml } from './services/articleHtmlPostprocess.js';
 
@@ -296,7 +345,8 @@ app.use('/images', express.static(IMAGES_DIR));
 app.get('/app-config.js', (_req, res) => {
   const cfg = {
     YOUTUBE_CLIENT_ID: process.env.YOUTUBE_CLIENT_ID || null,
-    YOUTUBE_SCOPES: 'https://www.googleapis.com/auth/youtube',
+    // youtube.force-ssl：上傳字幕（captions.insert / update）需要此權限
+    YOUTUBE_SCOPES: 'https://www.googleapis.com/auth/youtube https://www.googleapis.com/auth/youtube.force-ssl',
   };
   res.type('application/javascript').send(`window.__APP_CONFIG__ = ${JSON.stringify(cfg)};`);
 });
@@ -328,8 +378,84 @@ app.post('/api/quota/server/reset', (_req, res) => {
   }
 });
 
+// ==================== AI 用量 API ====================
+
+/**
+ * 取得 AI 用量統計（今日、本月、每日走勢、最近呼叫）與目前使用者的預算狀態
+ * 預設只統計自己的用量；scope=all（含每位使用者的花費）僅限 AI_BUDGET_ADMINS
+ * GET /api/ai-usage/summary?days=30&scope=me|all
+ */
+app.get('/api/ai-usage/summary', (req, res) => {
+  const userId = req.user?.email || req.ip;
+  const days = parseInt(req.query.days, 10) || 30;
+  const scope = req.query.scope === 'all' ? 'all' : 'me';
+
+  if (scope === 'all' && !canManageAIBudgets(userId)) {
+    return res.status(403).json({ error: 'Forbidden', details: '只有 AI_BUDGET_ADMINS 可以查看所有使用者的用量' });
+  }
+
+  try {
+    res.json({
+      success: true,
+      scope,
+      summary: getAIUsageSummary({ userId: scope === 'me' ? userId : undefined, days }),
+      budget: getAIBudgetStatus(userId),
+    });
+  } catch (error) {
+    console.error('[AIUsage] Failed to build usage summary:', error);
+    res.status(500).json({ error: 'Failed to get AI usage summary', details: error.message });
+  }
+});
+
+/**
+ * 列出預算設定（預設值與個人設定；非管理者只看得到自己的個人設定）
+ * GET /api/ai-usage/budgets
+ */
+app.get('/api/ai-usage/budgets', (req, res) => {
+  const userId = req.user?.email || req.ip;
+  const canManage = canManageAIBudgets(userId);
+  const { defaults, users } = listAIBudgets();
+  res.json({
+    success: true,
+    defaults,
+    users: canManage ? users : Object.fromEntries(Object.entries(users).filter(([id]) => id === userId)),
+    canManage,
+  });
+});
+
+/**
+ * 設定使用者的個人預算（僅限 AI_BUDGET_ADMINS）
+ * PUT /api/ai-usage/budgets/:userId
+ * Body: { dailyUsd?: number | null, monthlyUsd?: number | null, reset?: boolean }
+ */
+app.put('/api/ai-usage/budgets/:userId', (req, res) => {
+  if (!canManageAIBudgets(req.user?.email || req.ip)) {
+    return res.status(403).json({ error: 'Forbidden', details: '只有 AI_BUDGET_ADMINS 可以調整預算' });
+  }
+
+  const { dailyUsd, monthlyUsd, reset } = req.body || {};
+  try {
+    const budget = setAIBudget(req.params.userId, reset ? null : { dailyUsd, monthlyUsd });
+    res.json({ success: true, userId: req.params.userId, budget });
+  } catch (error) {
+    res.status(400).json({ error: 'Invalid budget', details: error.message });
+  }
+});
+
 // ==================== 任務管理 API ====================
 
+/**
+ * 回傳前移除 params 中的敏感欄位，避免 token 洩漏
+ */
+function toSafeTask(task) {
+  const safeTask = { ...task };
+  if (safeTask.params) {
+    const { accessToken: _t, ...safeParams } = safeTask.params;
+    safeTask.params = safeParams;
+  }
+  return safeTask;
+}
+
 /**
  * 獲取任務狀態
  * GET /api/task/:taskId
@@ -342,17 +468,86 @@ app.get('/api/task/:taskId', (req, res) => {
     return res.status(404).json({ error: 'Task not found' });
   }
 
-  // 回傳前移除 params 中的敏感欄位，避免 token 洩漏
-  const safeTask = { ...task };
-  if (safeTask.params) {
-    const { accessToken: _t, ...safeParams } = safeTask.params;
-    safeTask.params = safeParams;
+  res.json(toSafeTask(task));
+});
+
+/**
+ * 以 Server-Sent Events 推送任務進度
+ * GET /api/task/:taskId/events
+ * 事件：snapshot（連線時的目前狀態）、progress（含排隊位置）、complete、failed、cancelled、ping
+ */
+app.get('/api/task/:taskId/events', (req, res) => {
+  const { taskId } = req.params;
+
+  const task = taskQueue.getTask(taskId);
+  if (!task) {
+    return res.status(404).json({ error: 'Task not found' });
+  }
+
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.flushHeaders?.();
+
+  const sendEvent = (event, data) => {
+    res.write(`event: ${event}\n`);
+    res.write(`data: ${JSON.stringify(data)}\n\n`);
+  };
+
+  const isFinished = (current) =>
+    current.status === taskQueue.TaskStatus.COMPLETED ||
+    current.status === taskQueue.TaskStatus.FAILED ||
+    current.status === taskQueue.TaskStatus.CANCELLED;
+
+  const sendFinalEvent = (current) => {
+    if (current.status === taskQueue.TaskStatus.COMPLETED) {
+      sendEvent('complete', toSafeTask(current));
+    } else if (current.status === taskQueue.TaskStatus.CANCELLED) {
+      sendEvent('cancelled', toSafeTask(current));
+    } else {
+      sendEvent('failed', toSafeTask(current));
+    }
+  };
+
+  sendEvent('snapshot', toSafeTask(task));
+
+  // 已結束的任務直接回傳結果
+  if (isFinished(task)) {
+    sendFinalEvent(task);
+    return res.end();
   }
-  res.json(safeTask);
+
+  const heartbeat = setInterval(() => {
+    sendEvent('ping', {});
+  }, 25000);
+
+  let unsubscribe = () => {};
+  const cleanup = () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  };
+
+  unsubscribe = taskQueue.subscribeToTask(taskId, ({ type, task: current }) => {
+    if (type === 'progress' || type === 'queued') {
+      sendEvent('progress', {
+        progress: current.progress,
+        progressMessage: current.progressMessage,
+        status: current.status,
+        queuePosition: taskQueue.getQueuePosition(taskId),
+        updatedAt: current.updatedAt,
+      });
+      return;
+    }
+    sendFinalEvent(current);
+    cleanup();
+    res.end();
+  });
+
+  req.on('close', cleanup);
 });
 
 /**
- * 刪除/取消任務（任務會在完成後自動清理）
+ * 取消任務（已結束的任務會在保留期限後自動清理）
  * DELETE /api/task/:taskId
  */
 app.delete('/api/task/:taskId', (req, res) => {
@@ -363,130 +558,746 @@ app.delete('/api/task/:taskId', (req, res) => {
     return res.status(404).json({ error: 'Task not found' });
   }
 
-  // taskQueue 會自動清理已完成的任務，不需要手動刪除
+  const currentUser = req.user?.email || req.ip;
+  if (task.userId && task.userId !== currentUser) {
+    return res.status(403).json({ error: 'Task belongs to another user' });
+  }
+
+  const cancelled = taskQueue.cancelTask(taskId);
   res.json({
     success: true,
-    message: 'Tasks are automatically cleaned up after completion. No manual deletion needed.'
+    cancelled,
+    status: taskQueue.getTask(taskId)?.status,
+    message: cancelled ? '任務已取消' : '任務已結束，無需取消'
   });
 });
 
-// ==================== 模板管理 API ====================
+/**
+ * 列出目前使用者的任務（新到舊，不含完整結果）
+ * GET /api/tasks?limit=50
+ */
+app.get('/api/tasks', (req, res) => {
+  const currentUser = req.user?.email || req.ip;
+  const limit = Math.min(parseInt(req.query.limit, 10) || 50, 200);
+
+  const tasks = taskQueue.listTasksByUser(currentUser).slice(0, limit).map((task) => ({
+    id: task.id,
+    type: task.type,
+    category: task.category,
+    status: task.status,
+    progress: task.progress,
+    progressMessage: task.progressMessage,
+    queuePosition: task.queuePosition,
+    error: task.error,
+    interrupted: Boolean(task.interrupted),
+    title: task.params?.videoTitle || task.params?.url || task.params?.videoId || null,
+    params: toSafeTask(task).params,
+    hasResult: task.result != null,
+    resultUrl: `/api/task/${task.id}`,
+    createdAt: task.createdAt,
+    startedAt: task.startedAt || null,
+    updatedAt: task.updatedAt,
+    completedAt: task.completedAt,
+  }));
+
+  res.json({ tasks });
+});
+
+// ==================== 中繼資料修改紀錄 API ====================
 
 /**
- * 啟用自訂模板
- * POST /api/templates/enable
+ * 記錄一次影片中繼資料更新（修改前後的標題、說明、標籤）
+ * POST /api/metadata-history
+ * Body: { videoId, before, after, source?, trigger?, restoredFrom? }
  */
-app.post('/api/templates/enable', async (req, res) => {
+app.post('/api/metadata-history', (req, res) => {
+  const { videoId, before, after, source, trigger, restoredFrom } = req.body || {};
+
   try {
-    await enableArticleTemplates();
-    const status = getArticleTemplateStatus();
-    res.json({
-      success: true,
-      message: 'Custom templates enabled',
-      usingCustomTemplates: status.usingCustomTemplates,
-      lastLoadedAt: status.lastLoadedAt
+    const entry = recordMetadataChange({
+      videoId,
+      before,
+      after,
+      source,
+      trigger,
+      restoredFrom,
+      author: req.user?.email || req.ip,
     });
+    res.status(201).json({ success: true, entry });
   } catch (error) {
-    console.error('[Templates] Enable error:', error);
-    res.status(500).json({
-      error: 'Failed to enable templates',
-      details: error.message
-    });
+    res.status(400).json({ error: 'Invalid metadata history entry', details: error.message });
   }
 });
 
 /**
- * 停用自訂模板
- * POST /api/templates/disable
+ * 取得目前使用者對影片的中繼資料修改紀錄（新到舊）
+ * GET /api/metadata-history/:videoId
  */
-app.post('/api/templates/disable', (req, res) => {
-  try {
-    disableArticleTemplates();
-    res.json({ success: true, message: 'Custom templates disabled' });
-  } catch (error) {
-    console.error('[Templates] Disable error:', error);
-    res.status(500).json({
-      error: 'Failed to disable templates',
-      details: error.message
-    });
-  }
+app.get('/api/metadata-history/:videoId', (req, res) => {
+  const { videoId } = req.params;
+  res.json({ videoId, entries: listMetadataHistory(req.user?.email || req.ip, videoId) });
+});
+
+// ==================== 多語系中繼資料 API ====================
+
+/**
+ * 取得預設的來源語言與目標語言（METADATA_SOURCE_LANGUAGE / METADATA_TARGET_LANGUAGES）
+ * GET /api/metadata-translations/languages
+ */
+app.get('/api/metadata-translations/languages', (req, res) => {
+  res.json({
+    sourceLanguage: DEFAULT_SOURCE_LANGUAGE,
+    targetLanguages: getDefaultTargetLanguages(),
+  });
 });
 
 /**
- * 刷新模板
- * POST /api/templates/refresh
+ * 將影片標題與說明翻譯成多個語言（供寫入 YouTube localizations）
+ * POST /api/metadata-translations
+ * Body: { title, description, tags?, languages: string[], sourceLanguage? }
  */
-app.post('/api/templates/refresh', async (req, res) => {
+app.post('/api/metadata-translations', requireAIBudget, async (req, res) => {
+  const { title, description, tags, languages, sourceLanguage } = req.body || {};
+  const resolvedSource =
+    typeof sourceLanguage === 'string' && sourceLanguage.trim() ? sourceLanguage.trim() : DEFAULT_SOURCE_LANGUAGE;
+  const targetLanguages = normalizeLanguageList(languages, resolvedSource);
+
+  if (typeof title !== 'string' || !title.trim()) {
+    return res.status(400).json({ error: 'Missing title' });
+  }
+  if (targetLanguages.length === 0) {
+    return res.status(400).json({ error: 'At least one target language is required' });
+  }
+
   try {
-    const result = await refreshArticleTemplates();
-    res.json({
-      success: true,
-      message: 'Templates refreshed',
-      ...result
+    console.log(`[Localization] 翻譯中繼資料 ${resolvedSource} → ${targetLanguages.join(', ')}`);
+    const ai = new GoogleGenAI({
+      apiKey: process.env.GEMINI_API_KEY,
+      httpOptions: GEMINI_HTTP_OPTIONS
     });
+
+    const prompt = generateTranslationPrompt(
+      {
+        title: title.trim(),
+        description: typeof description === 'string' ? description : '',
+        tags: Array.isArray(tags) ? tags.filter((tag) => typeof tag === 'string') : [],
+      },
+      resolvedSource,
+      targetLanguages
+    );
+    const response = await generateContentWithFallback(ai, {
+      contents: [{ role: 'user', parts: [{ text: prompt }] }],
+      config: {
+        responseMimeType: "application/json",
+        maxOutputTokens: 16384,
+      },
+    }, { usageContext: { userId: req.user?.email || req.ip, feature: 'metadata-translation' } });
+
+    const translations = normalizeTranslations(parseGeminiJson(response.text), targetLanguages);
+    const missing = targetLanguages.filter((language) => !translations[language]);
+    if (missing.length > 0) {
+      console.warn(`[Localization] 缺少翻譯: ${missing.join(', ')}`);
+    }
+
+    res.json({ sourceLanguage: resolvedSource, translations, missing });
   } catch (error) {
-    console.error('[Templates] Refresh error:', error);
-    res.status(500).json({
-      error: 'Failed to refresh templates',
-      details: error.message
-    });
+    console.error('[Localization] 翻譯失敗:', error);
+    res.status(500).json({ error: 'Failed to translate metadata', details: error.message });
   }
 });
 
+// ==================== 字幕 API ====================
+
 /**
- * 獲取模板狀態
- * GET /api/templates/status
+ * 產生影片逐字稿：優先使用 Files API 中已上傳的影片（分析過的非公開影片），否則使用 YouTube URL
  */
-app.get('/api/templates/status', (req, res) => {
+async function runTranscriptTask(taskId, { videoId, videoTitle, language, privacyStatus, duration, userId }, { signal }) {
+  const ai = new GoogleGenAI({
+    apiKey: process.env.GEMINI_API_KEY,
+    httpOptions: GEMINI_HTTP_OPTIONS
+  });
+
+  taskQueue.updateTaskProgress(taskId, 10, '檢查 Files API 中是否已有此影片...');
+  const existingFile = await findFileByDisplayName(ai, videoId);
+
+  let videoPart;
+  let source;
+  if (existingFile?.uri) {
+    console.log(`[Transcript] ✅ 使用 Files API 中的影片: ${existingFile.name}`);
+    videoPart = { fileData: { fileUri: existingFile.uri, mimeType: existingFile.mimeType } };
+    source = 'gemini-file';
+  } else if (!privacyStatus || privacyStatus === 'public') {
+    videoPart = { fileData: { fileUri: `https://www.youtube.com/watch?v=${videoId}` } };
+    source = 'youtube-url';
+  } else {
+    throw new Error('非公開影片需要先執行一次影片分析（上傳至 Gemini）才能產生逐字稿');
+  }
+
+  taskQueue.updateTaskProgress(taskId, 30, 'Gemini AI 正在聽打影片內容...');
+  const response = await generateContentWithFallback(ai, {
+    contents: [{ role: 'user', parts: [videoPart, { text: generateTranscriptPrompt(videoTitle || videoId, language) }] }],
+    config: {
+      responseMimeType: "application/json",
+      maxOutputTokens: 65536,
+      abortSignal: signal,
+    },
+  }, { usageContext: { userId, feature: 'transcript' } });
+
+  taskQueue.updateTaskProgress(taskId, 90, '整理字幕時間軸...');
+  const parsed = parseGeminiJson(response.text);
+  const transcript = transcripts.saveTranscript({
+    videoId,
+    language,
+    segments: Array.isArray(parsed) ? parsed : parsed?.segments,
+    durationSeconds: parseIsoDurationSeconds(duration),
+    source,
+    userId,
+  });
+
+  taskQueue.updateTaskProgress(taskId, 100, `完成，共 ${transcript.segments.length} 段字幕`);
+  return transcript;
+}
+
+/**
+ * 建立逐字稿生成任務
+ * POST /api/transcripts/:videoId/generate
+ * Body: { videoTitle?, language?, privacyStatus?, duration? }   (duration 為 ISO 8601，例如 PT12M3S)
+ */
+app.post('/api/transcripts/:videoId/generate', requireAIBudget, (req, res) => {
+  const { videoId } = req.params;
+  const { videoTitle, language, privacyStatus, duration } = req.body || {};
+
+  if (!isValidVideoId(videoId)) {
+    return res.status(400).json({ error: 'Invalid videoId format' });
+  }
+
+  const userId = req.user?.email || req.ip;
+  const params = {
+    videoId,
+    videoTitle: typeof videoTitle === 'string' ? videoTitle : '',
+    language: typeof language === 'string' && language.trim() ? language.trim() : DEFAULT_SOURCE_LANGUAGE,
+    privacyStatus: typeof privacyStatus === 'string' ? privacyStatus : null,
+    duration: typeof duration === 'string' ? duration : null,
+  };
+
+  const taskId = taskQueue.createTask('generate-transcript', params, { userId });
+  res.json({ success: true, taskId, message: '任務已建立，請使用 taskId 查詢進度' });
+
+  taskQueue.executeTask(taskId, (taskId, { signal }) => runTranscriptTask(taskId, { ...params, userId }, { signal }));
+});
+
+/**
+ * 取得目前使用者的影片逐字稿（含各語言翻譯）
+ * GET /api/transcripts/:videoId
+ */
+app.get('/api/transcripts/:videoId', (req, res) => {
+  const transcript = transcripts.getTranscript(req.user?.email || req.ip, req.params.videoId);
+  if (!transcript) {
+    return res.status(404).json({ error: 'Transcript not found' });
+  }
+  res.json(transcript);
+});
+
+/**
+ * 儲存編輯後的字幕片段
+ * PUT /api/transcripts/:videoId
+ * Body: { language, segments: [{ start, end, text }] }
+ */
+app.put('/api/transcripts/:videoId', (req, res) => {
+  const { language, segments } = req.body || {};
   try {
-    const status = getArticleTemplateStatus();
-    res.json(status);
+    const transcript = transcripts.updateTranscriptSegments(
+      req.user?.email || req.ip,
+      req.params.videoId,
+      typeof language === 'string' ? language : null,
+      segments
+    );
+    if (!transcript) {
+      return res.status(404).json({ error: 'Transcript not found' });
+    }
+    res.json(transcript);
   } catch (error) {
-    console.error('[Templates] Status error:', error);
-    res.status(500).json({
-      error: 'Failed to get template status',
-      details: error.message
-    });
+    res.status(400).json({ error: 'Failed to update transcript', details: error.message });
   }
 });
 
 /**
- * 列出可用模板
- * GET /api/templates
+ * 將逐字稿翻譯成另一個語言（沿用原本的時間軸）
+ * POST /api/transcripts/:videoId/translate
+ * Body: { language }
  */
-app.get('/api/templates', async (req, res) => {
+app.post('/api/transcripts/:videoId/translate', requireAIBudget, async (req, res) => {
+  const { videoId } = req.params;
+  const userId = req.user?.email || req.ip;
+  const transcript = transcripts.getTranscript(userId, videoId);
+  if (!transcript) {
+    return res.status(404).json({ error: 'Transcript not found' });
+  }
+
+  const [language] = normalizeLanguageList([req.body?.language], transcript.language);
+  if (!language) {
+    return res.status(400).json({ error: 'Invalid or missing target language' });
+  }
+
   try {
-    const templates = await listAvailableArticleTemplates();
-    const status = getArticleTemplateStatus();
-    res.json({
-      success: true,
-      templates,
-      usingCustomTemplates: status.usingCustomTemplates,
-      lastLoadedAt: status.lastLoadedAt,
-      disabled: status.disabled
+    console.log(`[Transcript] 翻譯 ${videoId} 的逐字稿 ${transcript.language} → ${language}`);
+    const ai = new GoogleGenAI({
+      apiKey: process.env.GEMINI_API_KEY,
+      httpOptions: GEMINI_HTTP_OPTIONS
     });
+
+    const lines = transcript.segments.map((segment, i) => ({ i, text: segment.text }));
+    const response = await generateContentWithFallback(ai, {
+      contents: [{ role: 'user', parts: [{ text: generateTranscriptTranslationPrompt(lines, transcript.language, language) }] }],
+      config: {
+        responseMimeType: "application/json",
+        maxOutputTokens: 65536,
+      },
+    }, { usageContext: { userId, feature: 'transcript-translation' } });
+
+    const parsed = parseGeminiJson(response.text);
+    const translatedLines = Array.isArray(parsed) ? parsed : parsed?.lines;
+    const textByIndex = new Map(
+      (Array.isArray(translatedLines) ? translatedLines : [])
+        .filter((line) => Number.isInteger(line?.i) && typeof line.text === 'string')
+        .map((line) => [line.i, line.text.trim()])
+    );
+    // 漏翻的行保留原文，避免字幕時間軸出現空缺
+    const missingCount = transcript.segments.filter((_, i) => !textByIndex.get(i)).length;
+    if (missingCount > 0) {
+      console.warn(`[Transcript] ${language} 翻譯缺少 ${missingCount} 行，保留原文`);
+    }
+    const segments = transcript.segments.map((segment, i) => ({ ...segment, text: textByIndex.get(i) || segment.text }));
+
+    res.json({ ...transcripts.setTranscriptTranslation(userId, videoId, language, segments), missingCount });
   } catch (error) {
-    console.error('[Templates] List error:', error);
-    res.status(500).json({
-      error: 'Failed to list templates',
-      details: error.message
-    });
+    console.error('[Transcript] 翻譯失敗:', error);
+    res.status(500).json({ error: 'Failed to translate transcript', details: error.message });
   }
 });
 
-// ==================== Notion 整合 API ====================
+// ==================== 文章草稿 API ====================
 
 /**
- * 獲取 Notion OAuth URL
- * GET /api/notion/oauth/url
+ * 列出目前使用者的文章草稿（新到舊，不含版本內容）
+ * GET /api/article-drafts
  */
-app.get('/api/notion/oauth/url', (req, res) => {
+app.get('/api/article-drafts', (req, res) => {
+  res.json({ success: true, drafts: listArticleDrafts(req.user?.email || req.ip) });
+});
+
+/**
+ * 新增草稿版本（同一影片的每次生成都保留為一個版本）
+ * POST /api/article-drafts
+ * Body: { video, result, templateId?, colorTheme?, customPrompt?, referenceUrls?, referenceVideos?, source?, savedAt? }
+ */
+app.post('/api/article-drafts', (req, res) => {
   try {
-    const clientId = process.env.NOTION_CLIENT_ID;
-    const redirectUri = process.env.NOTION_REDIRECT_URI;
+    const saved = saveArticleDraftRevision(req.user?.email || req.ip, req.body || {});
+    res.status(saved.created ? 201 : 200).json({ success: true, ...saved });
+  } catch (error) {
+    res.status(400).json({ error: 'Invalid article draft', details: error.message });
+  }
+});
 
-    if (!clientId || !redirectUri) {
-      return res.status(400).json({
+/**
+ * 取得單篇草稿與所有版本（新到舊）
+ * GET /api/article-drafts/:videoId
+ */
+app.get('/api/article-drafts/:videoId', (req, res) => {
+  const draft = getArticleDraft(req.user?.email || req.ip, req.params.videoId);
+  if (!draft) {
+    return res.status(404).json({ error: 'Draft not found' });
+  }
+  res.json({ success: true, draft });
+});
+
+/**
+ * 將指定版本還原為最新版本
+ * POST /api/article-drafts/:videoId/revisions/:revisionId/restore
+ */
+app.post('/api/article-drafts/:videoId/revisions/:revisionId/restore', (req, res) => {
+  const restored = restoreArticleDraftRevision(
+    req.user?.email || req.ip,
+    req.params.videoId,
+    req.params.revisionId
+  );
+  if (!restored) {
+    return res.status(404).json({ error: 'Draft revision not found' });
+  }
+  res.json({ success: true, ...restored });
+});
+
+/**
+ * 刪除整篇草稿
+ * DELETE /api/article-drafts/:videoId
+ */
+app.delete('/api/article-drafts/:videoId', (req, res) => {
+  if (!deleteArticleDraft(req.user?.email || req.ip, req.params.videoId)) {
+    return res.status(404).json({ error: 'Draft not found' });
+  }
+  res.json({ success: true });
+});
+
+// ==================== 文章審稿 API ====================
+
+/**
+ * 列出審稿佇列（所有使用者共用）
+ * GET /api/article-reviews?status=in_review
+ */
+app.get('/api/article-reviews', (req, res) => {
+  const { status } = req.query;
+  if (status && !articleReviews.REVIEW_STATUSES.includes(status)) {
+    return res.status(400).json({ error: 'Invalid status', details: articleReviews.REVIEW_STATUSES.join(', ') });
+  }
+  res.json({ success: true, reviews: articleReviews.listArticleReviews({ status }) });
+});
+
+/**
+ * 送出文章審稿（已有紀錄時以新內容重新送審）
+ * POST /api/article-reviews
+ * Body: { video: { id, title, isUrlOnly? }, result, revisionId? }
+ */
+app.post('/api/article-reviews', (req, res) => {
+  const { video, result, revisionId } = req.body || {};
+  try {
+    const review = articleReviews.submitArticleForReview({
+      video,
+      result,
+      revisionId,
+      userId: req.user?.email || req.ip,
+    });
+    res.json({ success: true, review });
+  } catch (error) {
+    res.status(400).json({ error: 'Invalid review submission', details: error.message });
+  }
+});
+
+/**
+ * 取得文章的審稿紀錄（含送審內容、留言與狀態歷程）
+ * GET /api/article-reviews/:videoId
+ */
+app.get('/api/article-reviews/:videoId', (req, res) => {
+  const review = articleReviews.getArticleReview(req.params.videoId);
+  if (!review) {
+    return res.status(404).json({ error: 'Review not found' });
+  }
+  res.json({
+    success: true,
+    review,
+    canApprove: articleReviews.canApproveArticleReview(review, req.user?.email || req.ip),
+  });
+});
+
+/**
+ * 變更審稿狀態（approved：核准；draft：退回修改或撤銷核准）
+ * POST /api/article-reviews/:videoId/status
+ * Body: { status, note? }
+ */
+app.post('/api/article-reviews/:videoId/status', (req, res) => {
+  const { status, note } = req.body || {};
+  const review = articleReviews.getArticleReview(req.params.videoId);
+  if (!review) {
+    return res.status(404).json({ error: 'Review not found' });
+  }
+
+  const userId = req.user?.email || req.ip;
+  if (status === 'approved' && !articleReviews.canApproveArticleReview(review, userId)) {
+    return res.status(403).json({ error: 'Forbidden', details: '不能核准自己送審的文章' });
+  }
+
+  try {
+    res.json({ success: true, review: articleReviews.transitionArticleReview(req.params.videoId, { status, note, userId }) });
+  } catch (error) {
+    res.status(409).json({ error: 'Invalid review transition', details: error.message });
+  }
+});
+
+/**
+ * 新增段落留言
+ * POST /api/article-reviews/:videoId/comments
+ * Body: { sectionIndex, sectionHeading?, quote?, body }
+ */
+app.post('/api/article-reviews/:videoId/comments', (req, res) => {
+  if (!articleReviews.getArticleReview(req.params.videoId)) {
+    return res.status(404).json({ error: 'Review not found' });
+  }
+
+  const { sectionIndex, sectionHeading, quote, body } = req.body || {};
+  try {
+    const comment = articleReviews.addArticleReviewComment(req.params.videoId, {
+      sectionIndex,
+      sectionHeading,
+      quote,
+      body,
+      author: req.user?.email || req.ip,
+    });
+    res.status(201).json({ success: true, comment });
+  } catch (error) {
+    res.status(400).json({ error: 'Invalid comment', details: error.message });
+  }
+});
+
+/**
+ * 標記留言為已解決／重新開啟
+ * PATCH /api/article-reviews/:videoId/comments/:commentId
+ * Body: { resolved: boolean }
+ */
+app.patch('/api/article-reviews/:videoId/comments/:commentId', (req, res) => {
+  const comment = articleReviews.setArticleReviewCommentResolved(req.params.videoId, req.params.commentId, {
+    resolved: req.body?.resolved,
+    userId: req.user?.email || req.ip,
+  });
+  if (!comment) {
+    return res.status(404).json({ error: 'Comment not found' });
+  }
+  res.json({ success: true, comment });
+});
+
+// ==================== 標題 A/B 輪替實驗 API ====================
+
+/**
+ * 取得目前使用者的實驗，不存在或屬於其他使用者時回傳 null 並送出錯誤回應
+ */
+function getOwnTitleExperiment(req, res) {
+  const experiment = titleExperiments.getTitleExperiment(req.params.experimentId);
+  if (!experiment) {
+    res.status(404).json({ error: 'Experiment not found' });
+    return null;
+  }
+  if (experiment.userId !== (req.user?.email || req.ip)) {
+    res.status(403).json({ error: 'Experiment belongs to another user' });
+    return null;
+  }
+  return experiment;
+}
+
+/**
+ * 建立標題輪替實驗
+ * POST /api/title-experiments
+ * Body: { videoId, originalTitle, variants: [{ label, title }], rotationHours, cycles }
+ */
+app.post('/api/title-experiments', (req, res) => {
+  const { videoId, originalTitle, variants, rotationHours, cycles } = req.body || {};
+
+  if (videoId && titleExperiments.findActiveTitleExperiment(videoId)) {
+    return res.status(409).json({ error: '這支影片已有進行中的標題實驗' });
+  }
+
+  try {
+    const experiment = titleExperiments.createTitleExperiment({
+      userId: req.user?.email || req.ip,
+      videoId,
+      originalTitle,
+      variants,
+      rotationHours,
+      cycles,
+    });
+    res.status(201).json({ success: true, experiment });
+  } catch (error) {
+    res.status(400).json({ error: 'Invalid experiment', details: error.message });
+  }
+});
+
+/**
+ * 列出目前使用者的實驗
+ * GET /api/title-experiments?videoId=xxx
+ */
+app.get('/api/title-experiments', (req, res) => {
+  const currentUser = req.user?.email || req.ip;
+  const videoId = typeof req.query.videoId === 'string' ? req.query.videoId : undefined;
+  res.json({ experiments: titleExperiments.listTitleExperiments(currentUser, videoId) });
+});
+
+/**
+ * 列出現在該輪替的標題（前端套用到 YouTube 後再回報時段開始）
+ * GET /api/title-experiments/due
+ */
+app.get('/api/title-experiments/due', (req, res) => {
+  const currentUser = req.user?.email || req.ip;
+  res.json({ rotations: titleExperiments.listDueTitleRotations(currentUser) });
+});
+
+/**
+ * 回報標題已在 YouTube 上線，開始新的時段
+ * POST /api/title-experiments/:experimentId/windows
+ * Body: { variantIndex }
+ */
+app.post('/api/title-experiments/:experimentId/windows', (req, res) => {
+  const experiment = getOwnTitleExperiment(req, res);
+  if (!experiment) return;
+
+  try {
+    const updated = titleExperiments.recordTitleExperimentWindow(experiment.id, req.body?.variantIndex);
+    res.json({ success: true, experiment: updated });
+  } catch (error) {
+    res.status(409).json({ error: 'Rotation conflict', details: error.message });
+  }
+});
+
+/**
+ * 提前結束實驗（目前的標題維持不變）
+ * POST /api/title-experiments/:experimentId/stop
+ */
+app.post('/api/title-experiments/:experimentId/stop', (req, res) => {
+  const experiment = getOwnTitleExperiment(req, res);
+  if (!experiment) return;
+  res.json({ success: true, experiment: titleExperiments.stopTitleExperiment(experiment.id) });
+});
+
+/**
+ * 以 YouTube Analytics 每日數據產生實驗報表（各時段觀看次數、CTR 與勝出標題）
+ * POST /api/title-experiments/:experimentId/report
+ * Body: { accessToken, channelId }
+ */
+app.post('/api/title-experiments/:experimentId/report', async (req, res) => {
+  const experiment = getOwnTitleExperiment(req, res);
+  if (!experiment) return;
+
+  const { accessToken, channelId } = req.body || {};
+  if (!accessToken || !channelId) {
+    return res.status(400).json({ error: '缺少 accessToken 或 channelId' });
+  }
+
+  const range = titleExperiments.getTitleExperimentDateRange(experiment);
+  if (!range) {
+    return res.status(400).json({ error: '實驗尚未開始輪替，沒有可分析的時段' });
+  }
+
+  try {
+    const dailyMetrics = await getVideoDailyMetrics(
+      accessToken,
+      channelId,
+      experiment.videoId,
+      range.startDate,
+      range.endDate
+    );
+    const report = titleExperiments.buildTitleExperimentReport(experiment, dailyMetrics);
+    titleExperiments.saveTitleExperimentReport(experiment.id, report);
+    res.json({ success: true, report });
+  } catch (error) {
+    console.error('[TitleExperiment] ❌ 產生報表失敗:', error);
+    res.status(500).json({ error: '產生實驗報表失敗', details: error.message });
+  }
+});
+
+// ==================== 模板管理 API ====================
+
+/**
+ * 啟用自訂模板
+ * POST /api/templates/enable
+ */
+app.post('/api/templates/enable', async (req, res) => {
+  try {
+    await enableArticleTemplates();
+    const status = getArticleTemplateStatus();
+    res.json({
+      success: true,
+      message: 'Custom templates enabled',
+      usingCustomTemplates: status.usingCustomTemplates,
+      lastLoadedAt: status.lastLoadedAt
+    });
+  } catch (error) {
+    console.error('[Templates] Enable error:', error);
+    res.status(500).json({
+      error: 'Failed to enable templates',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * 停用自訂模板
+ * POST /api/templates/disable
+ */
+app.post('/api/templates/disable', (req, res) => {
+  try {
+    disableArticleTemplates();
+    res.json({ success: true, message: 'Custom templates disabled' });
+  } catch (error) {
+    console.error('[Templates] Disable error:', error);
+    res.status(500).json({
+      error: 'Failed to disable templates',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * 刷新模板
+ * POST /api/templates/refresh
+ */
+app.post('/api/templates/refresh', async (req, res) => {
+  try {
+    const result = await refreshArticleTemplates();
+    res.json({
+      success: true,
+      message: 'Templates refreshed',
+      ...result
+    });
+  } catch (error) {
+    console.error('[Templates] Refresh error:', error);
+    res.status(500).json({
+      error: 'Failed to refresh templates',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * 獲取模板狀態
+ * GET /api/templates/status
+ */
+app.get('/api/templates/status', (req, res) => {
+  try {
+    const status = getArticleTemplateStatus();
+    res.json(status);
+  } catch (error) {
+    console.error('[Templates] Status error:', error);
+    res.status(500).json({
+      error: 'Failed to get template status',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * 列出可用模板
+ * GET /api/templates
+ */
+app.get('/api/templates', async (req, res) => {
+  try {
+    const templates = await listAvailableArticleTemplates();
+    const status = getArticleTemplateStatus();
+    res.json({
+      success: true,
+      templates,
+      usingCustomTemplates: status.usingCustomTemplates,
+      lastLoadedAt: status.lastLoadedAt,
+      disabled: status.disabled
+    });
+  } catch (error) {
+    console.error('[Templates] List error:', error);
+    res.status(500).json({
+      error: 'Failed to list templates',
+      details: error.message
+    });
+  }
+});
+
+// ==================== Notion 整合 API ====================
+
+/**
+ * 獲取 Notion OAuth URL
+ * GET /api/notion/oauth/url
+ */
+app.get('/api/notion/oauth/url', (req, res) => {
+  try {
+    const clientId = process.env.NOTION_CLIENT_ID;
+    const redirectUri = process.env.NOTION_REDIRECT_URI;
+
+    if (!clientId || !redirectUri) {
+      return res.status(400).json({
         error: 'Notion OAuth 尚未設定，請在環境變數加入 NOTION_CLIENT_ID 及 NOTION_REDIRECT_URI。',
       });
     }
@@ -703,8 +1514,23 @@ app.get('/api/notion/oauth/callback', async (req, res) => {
 });
 
 /**
- * 發佈文章到 Notion 資料庫
+ * 取得文章已發佈的 Notion 頁面（共用的審稿紀錄優先，其次是自己的草稿）
+ * @param {string} userId
+ * @param {string} videoId
+ * @returns {{ pageId: string, url: string, databaseId: string, lastEditedTime: string } | null}
+ */
+function getPublishedNotionPage(userId, videoId) {
+  return articleReviews.getArticleReview(videoId)?.notion || getArticleDraft(userId, videoId)?.notion || null;
+}
+
+const normalizeNotionId = (id) => String(id).replace(/-/g, '').toLowerCase();
+
+/**
+ * 發佈文章到 Notion 資料庫（文章需已通過審稿，且內容與核准版本相同）
  * POST /api/notion/publish
+ * Body: { videoId, title, article, pageId?, fields?, ... }
+ * 提供 pageId 時就地更新該文章先前發佈的頁面（重新發佈），pageId 必須與審稿紀錄或草稿記錄的頁面相同；否則建立新頁面；
+ * 資料庫設有欄位對應時，fields（titleA/B/C、tags、templateId）與 SEO 描述、影片網址會寫入對應屬性
  */
 app.post('/api/notion/publish', async (req, res) => {
   try {
@@ -718,6 +1544,9 @@ app.post('/api/notion/publish', async (req, res) => {
       titleProperty,
       screenshotPlan,
       imageUrls,
+      videoId,
+      pageId,
+      fields,
     } = req.body || {};
 
     const resolvedToken = notionToken || process.env.NOTION_API_TOKEN;
@@ -745,8 +1574,48 @@ app.post('/api/notion/publish', async (req, res) => {
       return res.status(400).json({ error: '缺少文章內容。' });
     }
 
+    // 只有通過審稿的文章才能發佈
+    const publishable = articleReviews.checkArticlePublishable(videoId, article);
+    if (!publishable.allowed) {
+      return res.status(409).json({ error: publishable.reason });
+    }
+
+    const userId = req.user?.email || req.ip;
+    // 重新發佈只能更新這篇文章先前發佈的頁面，不接受任意 pageId（更新時會清空頁面原有內容）
+    let targetPageId;
+    if (typeof pageId === 'string' && pageId.trim()) {
+      const publishedPage = getPublishedNotionPage(userId, videoId);
+      if (!publishedPage || normalizeNotionId(publishedPage.pageId) !== normalizeNotionId(pageId.trim())) {
+        return res.status(409).json({ error: '指定的 Notion 頁面不是這篇文章先前發佈的頁面，無法更新。' });
+      }
+      targetPageId = publishedPage.pageId;
+    }
+
     console.log('[Notion] 正在發佈文章到資料庫:', resolvedDatabaseId);
 
+    // 依資料庫的欄位對應產生其他屬性（以當下的 schema 檢查類型）
+    let extraProperties = {};
+    let skippedProperties = [];
+    const propertyMapping = notionPropertyMappings.getNotionPropertyMapping(resolvedDatabaseId);
+    if (propertyMapping) {
+      const databaseInfo = await getNotionDatabase(resolvedToken, resolvedDatabaseId);
+      const mapped = notionPropertyMappings.buildMappedNotionProperties(propertyMapping.mapping, databaseInfo, {
+        titleA: fields?.titleA,
+        titleB: fields?.titleB,
+        titleC: fields?.titleC,
+        seoDescription: typeof seoDescription === 'string' ? seoDescription : undefined,
+        videoUrl: typeof videoUrl === 'string' ? videoUrl : undefined,
+        publishDate: new Date().toISOString().slice(0, 10),
+        tags: Array.isArray(fields?.tags) ? fields.tags.filter((tag) => typeof tag === 'string') : undefined,
+        templateId: fields?.templateId,
+      });
+      extraProperties = mapped.properties;
+      skippedProperties = mapped.skipped;
+      if (skippedProperties.length > 0) {
+        console.warn('[Notion] 欄位對應與資料庫不符，已略過:', skippedProperties.join(', '));
+      }
+    }
+
     const result = await publishArticleToNotion({
       notionToken: resolvedToken,
       databaseId: resolvedDatabaseId,
@@ -757,14 +1626,34 @@ app.post('/api/notion/publish', async (req, res) => {
       titleProperty: resolvedTitleProperty,
       screenshotPlan: Array.isArray(screenshotPlan) ? screenshotPlan : undefined,
       imageUrls: Array.isArray(imageUrls) ? imageUrls : undefined,
+      pageId: targetPageId,
+      extraProperties,
     });
 
-    console.log('[Notion] 發佈成功，頁面 ID:', result.pageId);
+    console.log(`[Notion] ${result.updated ? '已更新' : '發佈成功，'}頁面 ID:`, result.pageId);
 
-    res.json({
+    const notionPage = {
+      pageId: result.pageId,
+      url: result.url,
+      databaseId: resolvedDatabaseId,
+      lastEditedTime: result.lastEditedTime,
+    };
+    articleReviews.markArticlePublished(videoId, {
+      userId,
+      target: 'notion',
+      url: result.url,
+      pageId: result.pageId,
+    });
+    const review = articleReviews.setArticleNotionPage(videoId, notionPage);
+    setArticleDraftNotionPage(userId, videoId, notionPage);
+
+    res.json({
       success: true,
       pageId: result.pageId,
       url: result.url,
+      updated: result.updated,
+      skippedProperties,
+      review,
     });
   } catch (error) {
     console.error('[Notion] 發佈失敗:', error);
@@ -774,6 +1663,34 @@ app.post('/api/notion/publish', async (req, res) => {
   }
 });
 
+/**
+ * 檢查文章對應的 Notion 頁面是否在發佈後被修改
+ * POST /api/notion/sync-status
+ * Body: { videoId, notionToken? }
+ * 回傳 status: not_published | in_sync | modified | missing
+ */
+app.post('/api/notion/sync-status', async (req, res) => {
+  const { videoId, notionToken } = req.body || {};
+  const userId = req.user?.email || req.ip;
+  const notionPage = getPublishedNotionPage(userId, videoId);
+  if (!notionPage) {
+    return res.json({ success: true, status: 'not_published', page: null });
+  }
+
+  const resolvedToken = notionToken || process.env.NOTION_API_TOKEN;
+  if (!resolvedToken) {
+    return res.status(400).json({ error: '缺少 Notion 金鑰。' });
+  }
+
+  try {
+    const sync = await getNotionPageSyncStatus(resolvedToken, notionPage.pageId, notionPage.lastEditedTime);
+    res.json({ success: true, ...sync, page: notionPage });
+  } catch (error) {
+    console.error('[Notion] 檢查同步狀態失敗:', error);
+    res.status(500).json({ error: error.message || '檢查 Notion 同步狀態失敗' });
+  }
+});
+
 /**
  * Notion OAuth 回調處理 (POST - 舊版相容)
  * POST /api/notion/oauth/callback
@@ -902,6 +1819,220 @@ app.post('/api/notion/database-info', async (req, res) => {
   }
 });
 
+/**
+ * 取得資料庫的欄位對應與可對應的文章欄位
+ * GET /api/notion/property-mappings/:databaseId
+ */
+app.get('/api/notion/property-mappings/:databaseId', (req, res) => {
+  const record = notionPropertyMappings.getNotionPropertyMapping(req.params.databaseId);
+  res.json({
+    fields: notionPropertyMappings.listArticlePropertyFields(),
+    mapping: record?.mapping ?? {},
+    updatedAt: record?.updatedAt ?? null,
+    updatedBy: record?.updatedBy ?? null,
+  });
+});
+
+/**
+ * 儲存資料庫的欄位對應（依資料庫 schema 檢查屬性類型）
+ * PUT /api/notion/property-mappings/:databaseId
+ * Body: { notionToken, mapping: { titleA?: '屬性名稱', tags?: '屬性名稱', ... } }
+ */
+app.put('/api/notion/property-mappings/:databaseId', async (req, res) => {
+  const { notionToken, mapping } = req.body || {};
+  const resolvedToken = notionToken || process.env.NOTION_API_TOKEN;
+  if (!resolvedToken) {
+    return res.status(400).json({ error: '缺少 Notion Access Token' });
+  }
+  if (!mapping || typeof mapping !== 'object' || Array.isArray(mapping)) {
+    return res.status(400).json({ error: 'mapping 必須是物件' });
+  }
+
+  let databaseInfo;
+  try {
+    databaseInfo = await getNotionDatabase(resolvedToken, req.params.databaseId);
+  } catch (error) {
+    console.error('[Notion] 取得資料庫資訊失敗:', error);
+    const statusCode = error?.statusCode && Number.isInteger(error.statusCode) ? error.statusCode : 500;
+    return res.status(statusCode).json({ error: error.message || '取得 Notion 資料庫資訊失敗' });
+  }
+
+  try {
+    const userId = req.user?.email || req.ip;
+    const record = notionPropertyMappings.saveNotionPropertyMapping(req.params.databaseId, mapping, databaseInfo, userId);
+    res.json({
+      fields: notionPropertyMappings.listArticlePropertyFields(),
+      mapping: record?.mapping ?? {},
+      updatedAt: record?.updatedAt ?? null,
+      updatedBy: record?.updatedBy ?? null,
+    });
+  } catch (error) {
+    res.status(400).json({ error: error.message });
+  }
+});
+
+/**
+ * 清除資料庫的欄位對應（發佈時只寫入標題）
+ * DELETE /api/notion/property-mappings/:databaseId
+ */
+app.delete('/api/notion/property-mappings/:databaseId', (req, res) => {
+  notionPropertyMappings.deleteNotionPropertyMapping(req.params.databaseId);
+  res.json({ success: true });
+});
+
+// ==================== 文章匯出 API ====================
+
+/**
+ * 截圖在伺服器上是 /images/... 相對路徑，匯出或發佈到外部時轉成此伺服器的絕對網址
+ */
+function getPublicBaseUrl(req) {
+  return process.env.ARTICLE_EXPORT_BASE_URL || `${req.protocol}://${req.get('host')}`;
+}
+
+/**
+ * 匯出文章為 Markdown、HTML 壓縮包（含截圖）或 WordPress WXR 匯入檔
+ * POST /api/article-export/:format   (format: markdown | html | wxr)
+ * Body: { video: { id, title, isUrlOnly? }, result }
+ * 回應為檔案下載（Content-Disposition: attachment）
+ */
+app.post('/api/article-export/:format', async (req, res) => {
+  try {
+    const { video, result } = req.body || {};
+    const file = await exportArticle(req.params.format, result, { video, baseUrl: getPublicBaseUrl(req) });
+
+    console.log(`[ArticleExport] 匯出 ${video.id} 為 ${req.params.format}（${file.fileName}）`);
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${file.fileName}"`);
+    res.send(file.data);
+  } catch (error) {
+    console.error('[ArticleExport] 匯出失敗:', error);
+    res.status(400).json({ error: 'Failed to export article', details: error.message });
+  }
+});
+
+// ==================== 發佈目標 API（WordPress / Webhook）====================
+
+/**
+ * 列出目前使用者的發佈目標（機密欄位已遮罩）
+ * GET /api/publish-targets
+ */
+app.get('/api/publish-targets', (req, res) => {
+  res.json({ success: true, targets: publishTargets.listPublishTargets(req.user?.email || req.ip) });
+});
+
+/**
+ * 新增發佈目標
+ * POST /api/publish-targets
+ * Body: { type: 'wordpress' | 'webhook', name?, config }
+ *   wordpress config: { siteUrl, username, applicationPassword, status? }
+ *   webhook config: { url, secret?, embedImages? }
+ */
+app.post('/api/publish-targets', (req, res) => {
+  try {
+    const target = publishTargets.createPublishTarget(req.user?.email || req.ip, req.body || {});
+    res.status(201).json({ success: true, target });
+  } catch (error) {
+    res.status(400).json({ error: 'Invalid publish target', details: error.message });
+  }
+});
+
+/**
+ * 更新發佈目標（機密欄位留空時沿用原本的值）
+ * PUT /api/publish-targets/:targetId
+ * Body: { name?, config? }
+ */
+app.put('/api/publish-targets/:targetId', (req, res) => {
+  try {
+    const target = publishTargets.updatePublishTarget(req.user?.email || req.ip, req.params.targetId, req.body || {});
+    if (!target) {
+      return res.status(404).json({ error: 'Publish target not found' });
+    }
+    res.json({ success: true, target });
+  } catch (error) {
+    res.status(400).json({ error: 'Invalid publish target', details: error.message });
+  }
+});
+
+/**
+ * 刪除發佈目標
+ * DELETE /api/publish-targets/:targetId
+ */
+app.delete('/api/publish-targets/:targetId', (req, res) => {
+  if (!publishTargets.deletePublishTarget(req.user?.email || req.ip, req.params.targetId)) {
+    return res.status(404).json({ error: 'Publish target not found' });
+  }
+  res.json({ success: true });
+});
+
+/**
+ * 測試發佈目標連線
+ * POST /api/publish-targets/:targetId/test
+ */
+app.post('/api/publish-targets/:targetId/test', async (req, res) => {
+  const target = publishTargets.getPublishTarget(req.user?.email || req.ip, req.params.targetId);
+  if (!target) {
+    return res.status(404).json({ error: 'Publish target not found' });
+  }
+  try {
+    const result = await createPublisher(target).testConnection();
+    res.json({ success: true, ...result });
+  } catch (error) {
+    console.error(`[Publish] ${target.type} 連線測試失敗:`, error);
+    res.status(500).json({ error: 'Connection test failed', details: error.message });
+  }
+});
+
+/**
+ * 發佈文章到 WordPress / Webhook（與 Notion 相同，文章需已通過審稿）
+ * POST /api/publish-targets/:targetId/publish
+ * Body: { videoId, title, article, seoDescription?, videoUrl?, screenshotPlan?, imageUrls? }
+ */
+app.post('/api/publish-targets/:targetId/publish', async (req, res) => {
+  const userId = req.user?.email || req.ip;
+  const target = publishTargets.getPublishTarget(userId, req.params.targetId);
+  if (!target) {
+    return res.status(404).json({ error: 'Publish target not found' });
+  }
+
+  const { videoId, title, article, seoDescription, videoUrl, screenshotPlan, imageUrls } = req.body || {};
+  if (typeof title !== 'string' || !title.trim() || typeof article !== 'string' || !article.trim()) {
+    return res.status(400).json({ error: '缺少文章標題或內容。' });
+  }
+
+  const publishable = articleReviews.checkArticlePublishable(videoId, article);
+  if (!publishable.allowed) {
+    return res.status(409).json({ error: publishable.reason });
+  }
+
+  try {
+    console.log(`[Publish] 正在發佈 ${videoId} 到 ${target.type}「${target.name}」`);
+    const result = await createPublisher(target).publish({
+      videoId,
+      title: title.trim(),
+      article,
+      seoDescription: typeof seoDescription === 'string' ? seoDescription : undefined,
+      videoUrl: typeof videoUrl === 'string' ? videoUrl : undefined,
+      screenshotPlan: Array.isArray(screenshotPlan) ? screenshotPlan : undefined,
+      imageUrls: Array.isArray(imageUrls) ? imageUrls : undefined,
+      baseUrl: getPublicBaseUrl(req),
+    });
+
+    publishTargets.markPublishTargetUsed(userId, target.id);
+    const review = articleReviews.markArticlePublished(videoId, {
+      userId,
+      target: target.type,
+      url: result.url,
+      pageId: result.id != null ? String(result.id) : null,
+    });
+
+    console.log(`[Publish] 發佈成功: ${result.url || result.id}`);
+    res.json({ success: true, id: result.id, url: result.url, review });
+  } catch (error) {
+    console.error(`[Publish] 發佈到 ${target.type} 失敗:`, error);
+    res.status(500).json({ error: `發佈到 ${target.name} 失敗`, details: error.message });
+  }
+});
+
 // ==================== JSON 修復工具 ====================
 
 /**
@@ -999,9 +2130,10 @@ function secondsToTime(seconds) {
  * @param {number} timeInSeconds - 截圖時間點（秒）
  * @param {string} outputPath - 輸出檔案路徑
  * @param {number} quality - 截圖品質（2-31，數字越小品質越高），預設 2（最高品質）
+ * @param {AbortSignal} [signal] - 取消時終止 FFmpeg 子程序
  * @returns {Promise<void>}
  */
-async function captureScreenshot(videoPath, timeInSeconds, outputPath, quality = 2) {
+async function captureScreenshot(videoPath, timeInSeconds, outputPath, quality = 2, signal) {
   // 限制品質範圍在 2-31 之間
   const validQuality = Math.max(2, Math.min(31, quality));
 
@@ -1012,7 +2144,163 @@ async function captureScreenshot(videoPath, timeInSeconds, outputPath, quality =
   // -q:v: JPEG 品質（2=最高品質，31=最低品質）
   // -y: 覆蓋已存在的檔案
   const command = `ffmpeg -ss ${timeInSeconds} -i "${videoPath}" -vframes 1 -q:v ${validQuality} "${outputPath}" -y`;
-  await execAsync(command);
+  await execAsync(command, { signal });
+}
+
+/**
+ * 等待指定時間，signal 觸發時提早中止
+ * @param {number} ms - 等待毫秒數
+ * @param {AbortSignal} [signal]
+ * @returns {Promise<void>}
+ */
+function waitWithSignal(ms, signal) {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * 刪除檔案（不存在或刪除失敗時忽略）
+ * @param {string[]} filePaths
+ */
+function removeFilesQuietly(filePaths) {
+  for (const filePath of filePaths) {
+    try {
+      if (fs.existsSync(filePath)) {
+        fs.unlinkSync(filePath);
+      }
+    } catch (error) {
+      console.warn(`[Cleanup] 無法刪除 ${filePath}:`, error.message);
+    }
+  }
+}
+
+/**
+ * 下載影片（若尚未下載）並依時間點截取截圖組（每個時間點前後 2 秒各一張）
+ * 取消時會終止 yt-dlp / FFmpeg，並刪除本次下載的殘留檔與已產生的截圖
+ * @param {Object} options
+ * @param {string} options.videoId - YouTube 影片 ID
+ * @param {Array<{ timestamp_seconds: string }>} options.screenshots - 截圖時間點
+ * @param {number} [options.quality] - 截圖品質（2-31）
+ * @param {AbortSignal} [options.signal] - 取消訊號
+ * @param {(progress: number, message: string) => void} [options.onProgress] - 進度回調
+ * @returns {Promise<string[][]>} 每組截圖的 URL
+ */
+async function captureScreenshotGroups({ videoId, screenshots, quality = 2, signal, onProgress }) {
+  const youtubeUrl = `https://www.youtube.com/watch?v=${videoId}`;
+  const outputPath = path.join(DOWNLOAD_DIR, `${videoId}.mp4`);
+  const createdFiles = [];
+  let downloadedNow = false;
+
+  try {
+    // 檢查影片是否已經下載，如果沒有則下載
+    if (!fs.existsSync(outputPath)) {
+      console.log('[Capture Screenshots] 影片尚未下載，開始下載...');
+      onProgress?.(10, '正在下載影片...');
+      downloadedNow = true;
+
+      let formatSelector;
+      if (quality <= 10) {
+        formatSelector = '"bestvideo[height<=1080][ext=mp4]+bestaudio[ext=m4a]/bestvideo[height<=1080]+bestaudio/best[height<=1080]/bestvideo[height<=720][ext=mp4]+bestaudio[ext=m4a]/bestvideo[height<=720]+bestaudio/best[height<=720]/best"';
+      } else {
+        formatSelector = '"bestvideo[height<=720][ext=mp4]+bestaudio[ext=m4a]/bestvideo[height<=720]+bestaudio/best[height<=720]/bestvideo[height<=480][ext=mp4]+bestaudio[ext=m4a]/bestvideo[height<=480]+bestaudio/best[height<=480]/best"';
+      }
+
+      const commandParts = [
+        'yt-dlp',
+        '-f', formatSelector,
+        '--merge-output-format', 'mp4',
+        '-o', `"${outputPath}"`,
+        '--retries', '5',
+        '--fragment-retries', '5',
+        `"${youtubeUrl}"`,
+      ];
+
+      const command = commandParts.join(' ');
+      await execAsync(command, { maxBuffer: 10 * 1024 * 1024, signal });
+
+      if (!fs.existsSync(outputPath)) {
+        throw new Error('Video download failed');
+      }
+
+      console.log('[Capture Screenshots] ✅ 影片下載完成');
+    } else {
+      console.log('[Capture Screenshots] 使用已存在的影片檔案');
+    }
+
+    // 執行截圖
+    console.log('[Capture Screenshots] 開始截取畫面...');
+    const imageUrls = [];
+
+    for (let i = 0; i < screenshots.length; i++) {
+      signal?.throwIfAborted();
+
+      const screenshot = screenshots[i];
+      const timestamp = screenshot.timestamp_seconds;
+      const currentSeconds = timeToSeconds(timestamp);
+
+      const screenshotGroup = [];
+      const offsets = [
+        { offset: -2, label: 'before' },
+        { offset: 0, label: 'current' },
+        { offset: 2, label: 'after' }
+      ];
+
+      console.log(`[Capture Screenshots] 截圖組 ${i + 1}/${screenshots.length} - 時間點: ${timestamp}`);
+      onProgress?.(
+        40 + Math.round((i / screenshots.length) * 55),
+        `正在截取畫面（${i + 1}/${screenshots.length}）...`
+      );
+
+      for (const { offset, label } of offsets) {
+        const targetSeconds = Math.max(0, currentSeconds + offset);
+        const targetTime = secondsToTime(targetSeconds);
+        const outputFilename = `${videoId}_screenshot_${i}_${label}_${targetTime.replace(':', '-')}.jpg`;
+        const screenshotPath = path.join(IMAGES_DIR, outputFilename);
+
+        try {
+          await captureScreenshot(outputPath, targetSeconds, screenshotPath, quality, signal);
+          createdFiles.push(screenshotPath);
+          screenshotGroup.push(`/images/${outputFilename}`);
+          console.log(`[Capture Screenshots] ✅ 截圖已儲存: ${outputFilename}`);
+        } catch (error) {
+          if (signal?.aborted) throw error;
+          console.error(`[Capture Screenshots] ❌ 截圖失敗:`, error.message);
+        }
+      }
+
+      if (screenshotGroup.length > 0) {
+        imageUrls.push(screenshotGroup);
+      }
+    }
+
+    return imageUrls;
+  } catch (error) {
+    if (signal?.aborted) {
+      // 清理：yt-dlp 下載到一半的檔案（含 .part / 分離的影音軌）與本次產生的截圖
+      console.log(`[Capture Screenshots] 🛑 已取消，清理暫存檔 (${videoId})`);
+      if (downloadedNow && fs.existsSync(DOWNLOAD_DIR)) {
+        const partialFiles = fs.readdirSync(DOWNLOAD_DIR)
+          .filter((file) => file.startsWith(`${videoId}.`))
+          .map((file) => path.join(DOWNLOAD_DIR, file));
+        removeFilesQuietly(partialFiles);
+      }
+      removeFilesQuietly(createdFiles);
+    }
+    throw error;
+  }
 }
 
 // =============== Files API helpers ===============
@@ -1156,7 +2444,7 @@ app.post('/api/download-video', async (req, res) => {
  * POST /api/analyze-video-url
  * Body: { videoId: string, prompt: string, videoTitle: string }
  */
-app.post('/api/analyze-video-url', async (req, res) => {
+app.post('/api/analyze-video-url', requireAIBudget, async (req, res) => {
   const { videoId, prompt, videoTitle } = req.body;
 
   if (!videoId || !isValidVideoId(videoId)) {
@@ -1196,10 +2484,10 @@ app.post('/api/analyze-video-url', async (req, res) => {
         responseMimeType: "application/json",
         maxOutputTokens: 8192,  // 設定較高的 token 上限，避免生成結果被截斷
       },
-    });
+    }, { usageContext: { userId: req.user?.email || req.ip, feature: 'video-metadata' } });
 
     console.log('[Analyze URL] ✅ Gemini 分析完成!');
-    const result = parseGeminiJson(response.text);
+    const result = attachMetadataChapters(parseGeminiJson(response.text));
     console.log(`[Analyze URL] Generated: ${result.titleA}`);
     console.log(`========== 分析完成 ==========\n`);
 
@@ -1218,12 +2506,60 @@ app.post('/api/analyze-video-url', async (req, res) => {
   }
 });
 
+/**
+ * 中繼資料生成任務的執行函數（單支與批次共用）
+ * @param {string} taskId - 任務 ID
+ * @param {{ videoId: string, prompt?: string, videoTitle?: string }} params - 任務參數
+ * @param {AbortSignal} signal - 任務取消訊號
+ */
+async function runVideoMetadataTask(taskId, { videoId, prompt, videoTitle }, signal) {
+  const youtubeUrl = `https://www.youtube.com/watch?v=${videoId}`;
+
+  taskQueue.updateTaskProgress(taskId, 10, '正在初始化 Gemini AI...');
+  const ai = new GoogleGenAI({
+    apiKey: process.env.GEMINI_API_KEY,
+    httpOptions: GEMINI_HTTP_OPTIONS
+  });
+
+  taskQueue.updateTaskProgress(taskId, 30, '正在生成 SEO 強化內容...');
+  const fullPrompt = generateFullPrompt(videoTitle, prompt);
+
+  taskQueue.updateTaskProgress(taskId, 50, '正在使用 YouTube URL 分析影片...');
+  const response = await generateContentWithFallback(ai, {
+    contents: [
+      {
+        role: 'user',
+        parts: [
+          { fileData: { fileUri: youtubeUrl } },
+          { text: fullPrompt }
+        ]
+      }
+    ],
+    config: {
+      responseMimeType: "application/json",
+      maxOutputTokens: 8192,
+      abortSignal: signal,
+    },
+  }, { usageContext: { userId: taskQueue.getTask(taskId)?.userId, feature: 'video-metadata' } });
+
+  taskQueue.updateTaskProgress(taskId, 90, '正在解析 Gemini 回應...');
+  const result = attachMetadataChapters(parseGeminiJson(response.text));
+
+  console.log(`[Analyze URL Async] ✅ 分析完成: ${result.titleA}`);
+
+  return {
+    success: true,
+    metadata: result,
+    usedYouTubeUrl: true
+  };
+}
+
 /**
  * 使用 YouTube URL 直接分析影片（異步版本，適合手機端）
  * POST /api/analyze-video-url-async
  * Body: { videoId: string, prompt: string, videoTitle: string }
  */
-app.post('/api/analyze-video-url-async', async (req, res) => {
+app.post('/api/analyze-video-url-async', requireAIBudget, async (req, res) => {
   const { videoId, prompt, videoTitle } = req.body;
 
   if (!videoId || !isValidVideoId(videoId)) {
@@ -1240,62 +2576,120 @@ app.post('/api/analyze-video-url-async', async (req, res) => {
       videoId,
       prompt,
       videoTitle
-    });
+    }, { userId: req.user?.email || req.ip });
 
     console.log(`[Analyze URL Async] Task created: ${taskId}`);
     res.json({ taskId });
 
     // 在背景執行任務
-    taskQueue.executeTask(taskId, async (taskId) => {
-      const youtubeUrl = `https://www.youtube.com/watch?v=${videoId}`;
+    taskQueue.executeTask(taskId, (taskId, { signal }) =>
+      runVideoMetadataTask(taskId, { videoId, prompt, videoTitle }, signal)
+    );
 
-      taskQueue.updateTaskProgress(taskId, 10, '正在初始化 Gemini AI...');
-      const ai = new GoogleGenAI({
-        apiKey: process.env.GEMINI_API_KEY,
-        httpOptions: GEMINI_HTTP_OPTIONS
-      });
+  } catch (error) {
+    console.error('[Analyze URL Async] Error:', error);
+    res.status(500).json({
+      error: 'Failed to create async analysis task',
+      details: error.message
+    });
+  }
+});
 
-      taskQueue.updateTaskProgress(taskId, 30, '正在生成 SEO 強化內容...');
-      const fullPrompt = generateFullPrompt(videoTitle, prompt);
-
-      taskQueue.updateTaskProgress(taskId, 50, '正在使用 YouTube URL 分析影片...');
-      const response = await generateContentWithFallback(ai, {
-        contents: [
-          {
-            role: 'user',
-            parts: [
-              { fileData: { fileUri: youtubeUrl } },
-              { text: fullPrompt }
-            ]
-          }
-        ],
-        config: {
-          responseMimeType: "application/json",
-          maxOutputTokens: 8192,
-        },
-      });
+// 單一批次最多可排入的影片數
+const MAX_BATCH_METADATA_VIDEOS = parseInt(process.env.BATCH_METADATA_MAX_VIDEOS || '100', 10);
 
-      taskQueue.updateTaskProgress(taskId, 90, '正在解析 Gemini 回應...');
-      const result = parseGeminiJson(response.text);
+/**
+ * 批次生成多支影片的中繼資料（每支影片一個 analyze-video-url 任務，由任務隊列排程）
+ * POST /api/analyze-video-url-batch-async
+ * Body: { videos: Array<{ videoId: string, videoTitle?: string }>, prompt?: string }
+ */
+app.post('/api/analyze-video-url-batch-async', requireAIBudget, async (req, res) => {
+  const { videos, prompt = '' } = req.body;
 
-      console.log(`[Analyze URL Async] ✅ 分析完成: ${result.titleA}`);
+  if (!Array.isArray(videos) || videos.length === 0) {
+    return res.status(400).json({ error: 'Missing or invalid videos array' });
+  }
 
-      return {
-        success: true,
-        metadata: result,
-        usedYouTubeUrl: true
-      };
+  if (videos.length > MAX_BATCH_METADATA_VIDEOS) {
+    return res.status(400).json({
+      error: 'Too many videos in one batch',
+      details: `每批最多 ${MAX_BATCH_METADATA_VIDEOS} 支影片`
+    });
+  }
+
+  const invalid = videos.find((video) => !video?.videoId || !isValidVideoId(video.videoId));
+  if (invalid) {
+    return res.status(400).json({ error: 'Missing or invalid videoId format', details: invalid?.videoId });
+  }
+
+  try {
+    const userId = req.user?.email || req.ip;
+    const batchId = `batch_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+    const tasks = videos.map(({ videoId, videoTitle = '' }) => {
+      const taskId = taskQueue.createTask('analyze-video-url', {
+        videoId,
+        prompt,
+        videoTitle
+      }, { userId, batchId });
+
+      taskQueue.executeTask(taskId, (taskId, { signal }) =>
+        runVideoMetadataTask(taskId, { videoId, prompt, videoTitle }, signal)
+      );
+
+      return { videoId, taskId };
     });
 
+    console.log(`[Analyze Batch] Created batch ${batchId} with ${tasks.length} tasks`);
+    res.json({ success: true, batchId, tasks });
+
   } catch (error) {
-    console.error('[Analyze URL Async] Error:', error);
+    console.error('[Analyze Batch] Error:', error);
     res.status(500).json({
-      error: 'Failed to create async analysis task',
+      error: 'Failed to create batch analysis tasks',
       details: error.message
     });
   }
 });
 
+/**
+ * 查詢批次任務狀態（含已完成任務的中繼資料建議）
+ * GET /api/task-batch/:batchId
+ */
+app.get('/api/task-batch/:batchId', (req, res) => {
+  const { batchId } = req.params;
+  const currentUser = req.user?.email || req.ip;
+
+  const tasks = taskQueue.listTasksByUser(currentUser)
+    .filter((task) => task.batchId === batchId)
+    .sort((a, b) => a.createdAt - b.createdAt);
+
+  if (tasks.length === 0) {
+    return res.status(404).json({ error: 'Batch not found' });
+  }
+
+  const summary = { total: tasks.length, pending: 0, processing: 0, completed: 0, failed: 0, cancelled: 0 };
+  for (const task of tasks) {
+    summary[task.status] = (summary[task.status] || 0) + 1;
+  }
+
+  res.json({
+    batchId,
+    summary,
+    tasks: tasks.map((task) => ({
+      id: task.id,
+      videoId: task.params?.videoId,
+      status: task.status,
+      progress: task.progress,
+      progressMessage: task.progressMessage,
+      queuePosition: task.queuePosition,
+      error: task.error,
+      metadata: task.result?.metadata || null,
+      updatedAt: task.updatedAt,
+    })),
+  });
+});
+
 // （Moved to bottom）
 
 /**
@@ -1303,7 +2697,7 @@ app.post('/api/analyze-video-url-async', async (req, res) => {
  * POST /api/analyze-video
  * Body: { videoId: string, filePath?: string, prompt: string, videoTitle: string }
  */
-app.post('/api/analyze-video', async (req, res) => {
+app.post('/api/analyze-video', requireAIBudget, async (req, res) => {
   const { videoId, filePath: rawFilePath, prompt, videoTitle } = req.body;
 
   if (!videoId || !isValidVideoId(videoId)) {
@@ -1437,10 +2831,10 @@ app.post('/api/analyze-video', async (req, res) => {
         responseMimeType: "application/json",
         maxOutputTokens: 8192,  // 設定較高的 token 上限，避免生成結果被截斷
       },
-    });
+    }, { usageContext: { userId: req.user?.email || req.ip, feature: 'video-metadata' } });
 
     console.log('[Analyze] ✅ Gemini 分析完成!');
-    const result = parseGeminiJson(response.text);
+    const result = attachMetadataChapters(parseGeminiJson(response.text));
     console.log(`[Analyze] Generated: ${result.titleA}`);
 
     // 清理暫存檔案（如果還存在的話）
@@ -1477,7 +2871,7 @@ app.post('/api/analyze-video', async (req, res) => {
  * POST /api/reanalyze-with-existing-file
  * Body: { geminiFileName: string, prompt: string, videoTitle: string }
  */
-app.post('/api/reanalyze-with-existing-file', async (req, res) => {
+app.post('/api/reanalyze-with-existing-file', requireAIBudget, async (req, res) => {
   const { geminiFileName, prompt, videoTitle } = req.body;
 
   if (!geminiFileName) {
@@ -1531,9 +2925,9 @@ app.post('/api/reanalyze-with-existing-file', async (req, res) => {
         responseMimeType: "application/json",
         maxOutputTokens: 8192,  // 設定較高的 token 上限，避免生成結果被截斷
       },
-    });
+    }, { usageContext: { userId: req.user?.email || req.ip, feature: 'video-metadata' } });
 
-    const result = parseGeminiJson(response.text);
+    const result = attachMetadataChapters(parseGeminiJson(response.text));
 
     res.json({
       success: true,
@@ -1677,7 +3071,7 @@ app.delete('/api/gemini/file/:name', async (req, res) => {
  * POST /api/generate-article-url
  * Body: { videoId: string, prompt: string, videoTitle: string, quality?: number }
  */
-app.post('/api/generate-article-url', async (req, res) => {
+app.post('/api/generate-article-url', requireAIBudget, async (req, res) => {
   const { videoId, prompt, videoTitle, quality = 2 } = req.body;
 
   if (!videoId || !isValidVideoId(videoId)) {
@@ -1730,7 +3124,7 @@ app.post('/api/generate-article-url', async (req, res) => {
       config: {
         responseMimeType: "application/json",
       },
-    });
+    }, { usageContext: { userId: req.user?.email || req.ip, feature: 'article' } });
 
     let result;
     try {
@@ -1780,9 +3174,10 @@ app.post('/api/generate-article-url', async (req, res) => {
 /**
  * 使用 YouTube URL 生成文章（異步版本，適合手機端）
  * POST /api/generate-article-url-async
- * Body: { videoId: string, prompt: string, videoTitle: string, quality?: number }
+ * Body: { videoId: string, prompt: string, videoTitle: string, quality?: number, useTranscript?: boolean }
+ * useTranscript 為 true 且已有逐字稿時，以逐字稿取代影片內容，不再重新分析影片
  */
-app.post('/api/generate-article-url-async', async (req, res) => {
+app.post('/api/generate-article-url-async', requireAIBudget, async (req, res) => {
   const {
     videoId,
     prompt,
@@ -1793,7 +3188,8 @@ app.post('/api/generate-article-url-async', async (req, res) => {
     templateId = 'default',
     colorTheme = 'neutral',
     referenceUrls = [],
-    referenceVideos = []
+    referenceVideos = [],
+    useTranscript = false
   } = req.body;
 
   if (!videoId || !isValidVideoId(videoId)) {
@@ -1810,9 +3206,11 @@ app.post('/api/generate-article-url-async', async (req, res) => {
       uploadedFiles,
       accessToken,
       templateId,
+      colorTheme,
       referenceUrls,
-      referenceVideos
-    });
+      referenceVideos,
+      useTranscript
+    }, { userId: req.user?.email || req.ip });
 
     // 立即返回任務 ID
     res.json({
@@ -1822,7 +3220,7 @@ app.post('/api/generate-article-url-async', async (req, res) => {
     });
 
     // 在背景執行任務
-    taskQueue.executeTask(taskId, async (taskId) => {
+    taskQueue.executeTask(taskId, async (taskId, { signal }) => {
       // 速率限制檢查
       const rateLimitId = accessToken || req.ip;
       const clientIp = req.ip;
@@ -1884,10 +3282,14 @@ app.post('/api/generate-article-url-async', async (req, res) => {
       // 生成包含所有參考資料指示的完整 prompt
       const fullPrompt = await generateArticlePromptWithReferences(videoTitle, prompt, references, templateId, 'video', colorTheme);
 
-      // 建立 parts 陣列
-      const parts = [
-        { fileData: { fileUri: youtubeUrl } }
-      ];
+      // 建立 parts 陣列：有逐字稿時以逐字稿取代影片，省去重新分析影片
+      const transcriptSegments = useTranscript ? transcripts.getTranscriptSegments(req.user?.email || req.ip, videoId) : null;
+      const parts = transcriptSegments
+        ? [{ text: `# 影片逐字稿（[分:秒] 為影片時間點，可作為截圖時間點的依據）\n${transcriptToText(transcriptSegments)}` }]
+        : [{ fileData: { fileUri: youtubeUrl } }];
+      if (transcriptSegments) {
+        console.log(`[Article URL] 📜 使用已儲存的逐字稿（${transcriptSegments.length} 段），不重新分析影片`);
+      }
 
       // 加入使用者上傳的參考檔案
       if (uploadedFiles.length > 0) {
@@ -1939,8 +3341,8 @@ app.post('/api/generate-article-url-async', async (req, res) => {
       let attempts = 0;
       const maxAttempts = 3;
 
-      // 準備 config
-      const geminiConfig = {};
+      // 準備 config（abortSignal：任務取消時中止 Gemini 請求）
+      const geminiConfig = { abortSignal: signal };
 
       // 如果有參考網址，啟用 URL Context 工具
       if (referenceUrls && referenceUrls.length > 0) {
@@ -1961,7 +3363,7 @@ app.post('/api/generate-article-url-async', async (req, res) => {
               }
             ],
             config: geminiConfig,
-          });
+          }, { usageContext: { userId: req.user?.email || req.ip, feature: 'article' } });
           break;
         } catch (error) {
           attempts++;
@@ -1969,7 +3371,7 @@ app.post('/api/generate-article-url-async', async (req, res) => {
             const waitTime = attempts * 5;
             console.log(`[Article URL] ⚠️  Gemini API 過載，${waitTime} 秒後重試（第 ${attempts}/${maxAttempts} 次）...`);
             taskQueue.updateTaskProgress(taskId, 50 + attempts * 5, `Gemini API 過載，${waitTime} 秒後重試...`);
-            await new Promise(resolve => setTimeout(resolve, waitTime * 1000));
+            await waitWithSignal(waitTime * 1000, signal);
           } else {
             throw error;
           }
@@ -2073,8 +3475,13 @@ app.post('/api/capture-screenshots', async (req, res) => {
     return res.status(400).json({ error: 'Missing or invalid screenshots array' });
   }
 
-  const youtubeUrl = `https://www.youtube.com/watch?v=${videoId}`;
-  const outputPath = path.join(DOWNLOAD_DIR, `${videoId}.mp4`);
+  // 用戶端中斷連線時一併終止 yt-dlp / FFmpeg
+  const abortController = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) {
+      abortController.abort(new Error('Client disconnected'));
+    }
+  });
 
   try {
     console.log(`\n========== 📸 開始執行截圖 ==========`);
@@ -2092,90 +3499,99 @@ app.post('/api/capture-screenshots', async (req, res) => {
       });
     }
 
-    // 檢查影片是否已經下載，如果沒有則下載
-    if (!fs.existsSync(outputPath)) {
-      console.log('[Capture Screenshots] 影片尚未下載，開始下載...');
-
-      let formatSelector;
-      if (quality <= 10) {
-        formatSelector = '"bestvideo[height<=1080][ext=mp4]+bestaudio[ext=m4a]/bestvideo[height<=1080]+bestaudio/best[height<=1080]/bestvideo[height<=720][ext=mp4]+bestaudio[ext=m4a]/bestvideo[height<=720]+bestaudio/best[height<=720]/best"';
-      } else {
-        formatSelector = '"bestvideo[height<=720][ext=mp4]+bestaudio[ext=m4a]/bestvideo[height<=720]+bestaudio/best[height<=720]/bestvideo[height<=480][ext=mp4]+bestaudio[ext=m4a]/bestvideo[height<=480]+bestaudio/best[height<=480]/best"';
-      }
-
-      const commandParts = [
-        'yt-dlp',
-        '-f', formatSelector,
-        '--merge-output-format', 'mp4',
-        '-o', `"${outputPath}"`,
-        '--retries', '5',
-        '--fragment-retries', '5',
-        `"${youtubeUrl}"`,
-      ];
+    const imageUrls = await captureScreenshotGroups({
+      videoId,
+      screenshots,
+      quality,
+      signal: abortController.signal,
+    });
 
-      const command = commandParts.join(' ');
-      await execAsync(command, { maxBuffer: 10 * 1024 * 1024 });
+    console.log(`[Capture Screenshots] ✅ 截圖完成，共 ${imageUrls.length} 組`);
+    console.log(`========== 截圖完成 ==========\n`);
 
-      if (!fs.existsSync(outputPath)) {
-        throw new Error('Video download failed');
-      }
+    res.json({
+      success: true,
+      image_urls: imageUrls,
+      screenshotsCount: imageUrls.length
+    });
 
-      console.log('[Capture Screenshots] ✅ 影片下載完成');
-    } else {
-      console.log('[Capture Screenshots] 使用已存在的影片檔案');
+  } catch (error) {
+    if (abortController.signal.aborted) {
+      console.log('[Capture Screenshots] 用戶端已中斷連線，停止截圖');
+      return;
     }
+    console.error('[Capture Screenshots] Error:', error);
+    res.status(500).json({
+      error: 'Failed to capture screenshots',
+      details: error.message
+    });
+  }
+});
 
-    // 執行截圖
-    console.log('[Capture Screenshots] 開始截取畫面...');
-    const imageUrls = [];
+/**
+ * 手動執行截圖（異步版本，可透過 DELETE /api/task/:taskId 取消）
+ * POST /api/capture-screenshots-async
+ * Body: { videoId: string, screenshots: array, quality?: number }
+ */
+app.post('/api/capture-screenshots-async', async (req, res) => {
+  const { videoId, screenshots, quality = 2 } = req.body;
 
-    for (let i = 0; i < screenshots.length; i++) {
-      const screenshot = screenshots[i];
-      const timestamp = screenshot.timestamp_seconds;
-      const currentSeconds = timeToSeconds(timestamp);
+  if (!videoId || !isValidVideoId(videoId)) {
+    return res.status(400).json({ error: 'Missing or invalid videoId format' });
+  }
 
-      const screenshotGroup = [];
-      const offsets = [
-        { offset: -2, label: 'before' },
-        { offset: 0, label: 'current' },
-        { offset: 2, label: 'after' }
-      ];
+  if (!screenshots || !Array.isArray(screenshots)) {
+    return res.status(400).json({ error: 'Missing or invalid screenshots array' });
+  }
 
-      console.log(`[Capture Screenshots] 截圖組 ${i + 1}/${screenshots.length} - 時間點: ${timestamp}`);
+  try {
+    const taskId = taskQueue.createTask('capture-screenshots', {
+      videoId,
+      screenshots,
+      quality
+    }, { userId: req.user?.email || req.ip });
 
-      for (const { offset, label } of offsets) {
-        const targetSeconds = Math.max(0, currentSeconds + offset);
-        const targetTime = secondsToTime(targetSeconds);
-        const outputFilename = `${videoId}_screenshot_${i}_${label}_${targetTime.replace(':', '-')}.jpg`;
-        const screenshotPath = path.join(IMAGES_DIR, outputFilename);
+    res.json({
+      success: true,
+      taskId,
+      message: '任務已建立，請使用 taskId 查詢進度'
+    });
 
-        try {
-          await captureScreenshot(outputPath, targetSeconds, screenshotPath, quality);
-          screenshotGroup.push(`/images/${outputFilename}`);
-          console.log(`[Capture Screenshots] ✅ 截圖已儲存: ${outputFilename}`);
-        } catch (error) {
-          console.error(`[Capture Screenshots] ❌ 截圖失敗:`, error.message);
-        }
-      }
+    // 在背景執行任務
+    taskQueue.executeTask(taskId, async (taskId, { signal }) => {
+      console.log(`\n========== 📸 [Task ${taskId}] 開始執行截圖 ==========`);
+      console.log(`[Capture Screenshots] Video ID: ${videoId}`);
+      console.log(`[Capture Screenshots] 截圖數量: ${screenshots.length}`);
 
-      if (screenshotGroup.length > 0) {
-        imageUrls.push(screenshotGroup);
+      taskQueue.updateTaskProgress(taskId, 5, '檢查 FFmpeg 安裝狀態...');
+      try {
+        await execAsync('ffmpeg -version');
+      } catch (error) {
+        throw new Error('FFmpeg is not installed. Please install it first.');
       }
-    }
 
-    console.log(`[Capture Screenshots] ✅ 截圖完成，共 ${imageUrls.length} 組`);
-    console.log(`========== 截圖完成 ==========\n`);
+      const imageUrls = await captureScreenshotGroups({
+        videoId,
+        screenshots,
+        quality,
+        signal,
+        onProgress: (progress, message) => taskQueue.updateTaskProgress(taskId, progress, message),
+      });
 
-    res.json({
-      success: true,
-      image_urls: imageUrls,
-      screenshotsCount: imageUrls.length
+      console.log(`[Capture Screenshots] ✅ 截圖完成，共 ${imageUrls.length} 組`);
+      console.log(`========== 截圖完成 ==========\n`);
+
+      return {
+        success: true,
+        image_urls: imageUrls,
+        screenshotsCount: imageUrls.length
+      };
     });
 
   } catch (error) {
-    console.error('[Capture Screenshots] Error:', error);
+    console.error('[Capture Screenshots Async] Error:', error);
     res.status(500).json({
-      error: 'Failed to capture screenshots',
+      error: 'Failed to create screenshot task',
       details: error.message
     });
   }
@@ -2186,7 +3602,7 @@ app.post('/api/capture-screenshots', async (req, res) => {
  * POST /api/generate-article-from-url-async
  * Body: { url: string, prompt: string, uploadedFiles?: any[], templateId?: string, referenceUrls?: string[], referenceVideos?: string[] }
  */
-app.post('/api/generate-article-from-url-async', async (req, res) => {
+app.post('/api/generate-article-from-url-async', requireAIBudget, async (req, res) => {
   const {
     url,
     prompt,
@@ -2215,9 +3631,10 @@ app.post('/api/generate-article-from-url-async', async (req, res) => {
       prompt,
       uploadedFiles,
       templateId,
+      colorTheme,
       referenceUrls,
       referenceVideos
-    });
+    }, { userId: req.user?.email || req.ip });
 
     // 立即返回任務 ID
     res.json({
@@ -2227,7 +3644,7 @@ app.post('/api/generate-article-from-url-async', async (req, res) => {
     });
 
     // 在背景執行任務
-    taskQueue.executeTask(taskId, async (taskId) => {
+    taskQueue.executeTask(taskId, async (taskId, { signal }) => {
       console.log(`\n========== 📝 [Task ${taskId}] 使用純網址生成文章 ==========`);
       console.log(`[Article URL-Only] URL: ${url}`);
       console.log(`[Article URL-Only] Template: ${templateId}`);
@@ -2316,7 +3733,8 @@ app.post('/api/generate-article-from-url-async', async (req, res) => {
 
       // 準備 config - 啟用 URL Context 工具
       const geminiConfig = {
-        tools: [{ urlContext: {} }]
+        tools: [{ urlContext: {} }],
+        abortSignal: signal
       };
       console.log(`[Article URL-Only] 🔧 已啟用 URL Context 工具`);
 
@@ -2330,7 +3748,7 @@ app.post('/api/generate-article-from-url-async', async (req, res) => {
               }
             ],
             config: geminiConfig,
-          });
+          }, { usageContext: { userId: req.user?.email || req.ip, feature: 'article' } });
           break;
         } catch (error) {
           attempts++;
@@ -2338,7 +3756,7 @@ app.post('/api/generate-article-from-url-async', async (req, res) => {
             const waitTime = attempts * 5;
             console.log(`[Article URL-Only] ⚠️  Gemini API 過載，${waitTime} 秒後重試（第 ${attempts}/${maxAttempts} 次）...`);
             taskQueue.updateTaskProgress(taskId, 50 + attempts * 5, `Gemini API 過載，${waitTime} 秒後重試...`);
-            await new Promise(resolve => setTimeout(resolve, waitTime * 1000));
+            await waitWithSignal(waitTime * 1000, signal);
           } else {
             throw error;
           }
@@ -2465,7 +3883,7 @@ app.post('/api/generate-article-from-url-async', async (req, res) => {
  * Body: { videoId: string, filePath: string, prompt: string, videoTitle: string, quality?: number }
  * 注意：filePath 是必需的，因為需要本地檔案來截圖
  */
-app.post('/api/generate-article', async (req, res) => {
+app.post('/api/generate-article', requireAIBudget, async (req, res) => {
   const { videoId, filePath: rawFilePath2, prompt, videoTitle, templateId = 'default', colorTheme = 'neutral', referenceUrls = [], uploadedFiles = [], referenceVideos = [] } = req.body;
 
   if (!videoId || !isValidVideoId(videoId)) {
@@ -2663,7 +4081,7 @@ app.post('/api/generate-article', async (req, res) => {
         }
       ],
       config: geminiConfig,
-    });
+    }, { usageContext: { userId: req.user?.email || req.ip, feature: 'article' } });
 
     // 檢查 URL Context metadata
     if (response.candidates && response.candidates[0]?.urlContextMetadata) {
@@ -2756,7 +4174,7 @@ app.post('/api/generate-article', async (req, res) => {
  * POST /api/regenerate-article
  * Body: { videoId: string, geminiFileName: string, prompt: string, videoTitle: string }
  */
-app.post('/api/regenerate-article', async (req, res) => {
+app.post('/api/regenerate-article', requireAIBudget, async (req, res) => {
   const { videoId, geminiFileName, prompt, videoTitle } = req.body;
 
   if (!videoId || !isValidVideoId(videoId)) {
@@ -2815,7 +4233,7 @@ app.post('/api/regenerate-article', async (req, res) => {
         responseMimeType: "application/json",
         maxOutputTokens: 8192,  // 設定較高的 token 上限，避免生成結果被截斷
       },
-    });
+    }, { usageContext: { userId: req.user?.email || req.ip, feature: 'article' } });
 
     let result;
     try {
@@ -2868,7 +4286,7 @@ app.post('/api/regenerate-article', async (req, res) => {
  * POST /api/regenerate-screenshots
  * Body: { videoId: string, videoTitle: string, filePath: string, prompt?: string, quality?: number }
  */
-app.post('/api/regenerate-screenshots', async (req, res) => {
+app.post('/api/regenerate-screenshots', requireAIBudget, async (req, res) => {
   const { videoId, videoTitle, filePath: rawFilePath3, prompt, quality = 2 } = req.body;
 
   if (!videoId || !isValidVideoId(videoId)) {
@@ -2929,7 +4347,7 @@ app.post('/api/regenerate-screenshots', async (req, res) => {
       config: {
         responseMimeType: "application/json",
       },
-    });
+    }, { usageContext: { userId: req.user?.email || req.ip, feature: 'article-screenshots' } });
 
     let result;
     try {
@@ -3192,7 +4610,7 @@ app.get('/api/ai-models/recommend', (req, res) => {
  * AI 頻道分析（支援多模型、多分析類型）
  * POST /api/analyze-channel
  */
-app.post('/api/analyze-channel', async (req, res) => {
+app.post('/api/analyze-channel', requireAIBudget, async (req, res) => {
   const {
     startDate,
     endDate,
@@ -3236,7 +4654,7 @@ app.post('/api/analyze-channel', async (req, res) => {
       prompt,
       temperature: 0.7,
       maxTokens: getMaxTokensForModel(modelType),
-    });
+    }, { userId: req.user?.email || req.ip, feature: 'channel-analysis' });
 
     console.log('[Channel Analysis] ✅ 分析完成');
     console.log(`[Channel Analysis] 模型: ${response.model}`);
@@ -3275,7 +4693,7 @@ app.post('/api/analyze-channel', async (req, res) => {
  * 頻道分析（SSE 串流版）
  * POST /api/analyze-channel/stream
  */
-app.post('/api/analyze-channel/stream', async (req, res) => {
+app.post('/api/analyze-channel/stream', requireAIBudget, async (req, res) => {
   const {
     startDate,
     endDate,
@@ -3352,7 +4770,8 @@ app.post('/api/analyze-channel/stream', async (req, res) => {
         onComplete: (result) => {
           finalResult = result;
         },
-      }
+      },
+      { userId: req.user?.email || req.ip, feature: 'channel-analysis' }
     );
 
     sendEvent('stage', { id: 'request', status: 'completed' });
@@ -3401,7 +4820,7 @@ app.post('/api/analyze-channel/stream', async (req, res) => {
  * 多模型協同分析
  * POST /api/analyze-channel/multi-model
  */
-app.post('/api/analyze-channel/multi-model', async (req, res) => {
+app.post('/api/analyze-channel/multi-model', requireAIBudget, async (req, res) => {
   const {
     startDate,
     endDate,
@@ -3439,7 +4858,7 @@ app.post('/api/analyze-channel/multi-model', async (req, res) => {
           prompt,
           temperature: 0.7,
           maxTokens: getMaxTokensForModel(modelType),
-        });
+        }, { userId: req.user?.email || req.ip, feature: 'channel-analysis' });
 
         return {
           model: response.model,
@@ -3495,7 +4914,7 @@ app.post('/api/analyze-channel/multi-model', async (req, res) => {
  * AI 關鍵字報表分析（支援多模型）
  * POST /api/analyze-keywords
  */
-app.post('/api/analyze-keywords', async (req, res) => {
+app.post('/api/analyze-keywords', requireAIBudget, async (req, res) => {
   const {
     keywordGroups,      // 關鍵字組合列表
     dateColumns,        // 日期列列表
@@ -3552,7 +4971,7 @@ app.post('/api/analyze-keywords', async (req, res) => {
       prompt,
       temperature: 0.7,
       maxTokens: getMaxTokensForModel(modelType),
-    });
+    }, { userId: req.user?.email || req.ip, feature: 'keyword-analysis' });
 
     console.log('[Keyword Analysis] ✅ 分析完成');
     console.log(`[Keyword Analysis] 模型: ${response.model}`);
@@ -3592,7 +5011,7 @@ app.post('/api/analyze-keywords', async (req, res) => {
  * AI 關鍵字報表分析（SSE 串流版）
  * POST /api/analyze-keywords/stream
  */
-app.post('/api/analyze-keywords/stream', async (req, res) => {
+app.post('/api/analyze-keywords/stream', requireAIBudget, async (req, res) => {
   const {
     keywordGroups,
     dateColumns,
@@ -3679,7 +5098,8 @@ app.post('/api/analyze-keywords/stream', async (req, res) => {
         onComplete: (result) => {
           finalResult = result;
         },
-      }
+      },
+      { userId: req.user?.email || req.ip, feature: 'keyword-analysis' }
     );
 
     sendEvent('stage', { id: 'request', status: 'completed' });
@@ -3726,10 +5146,11 @@ app.post('/api/analyze-keywords/stream', async (req, res) => {
 /**
  * 頻道數據聚合（支援關鍵字過濾和多個日期範圍）
  * POST /api/channel-analytics/aggregate
+ * Body: { accessToken, channelId, keywordGroups, dateRanges, workspaceId? }（workspaceId：從關鍵字報表工作區執行時記錄執行時間）
  */
 app.post('/api/channel-analytics/aggregate', async (req, res) => {
   try {
-    const { accessToken, channelId, keywordGroups, dateRanges } = req.body;
+    const { accessToken, channelId, keywordGroups, dateRanges, workspaceId } = req.body;
 
     // 驗證參數
     if (!accessToken) {
@@ -3758,6 +5179,9 @@ app.post('/api/channel-analytics/aggregate', async (req, res) => {
       }
     }
 
+    // 完整涵蓋日期範圍時會改用已保存的快照，先確認 token 屬於這個頻道
+    if (!(await requireChannelAccess(req, res, channelId, accessToken))) return;
+
     // 驗證 dateRanges 格式
     for (const range of dateRanges) {
       if (!range.label || typeof range.label !== 'string') {
@@ -3784,6 +5208,13 @@ app.post('/api/channel-analytics/aggregate', async (req, res) => {
     );
 
     console.log('[Channel Analytics] ✅ 數據聚合完成');
+    if (typeof workspaceId === 'string') {
+      const userId = req.user?.email || req.ip;
+      const workspace = keywordWorkspaces.getKeywordWorkspace(workspaceId);
+      if (workspace && keywordWorkspaces.canViewKeywordWorkspace(workspace, userId)) {
+        keywordWorkspaces.recordKeywordWorkspaceRun(userId, workspaceId);
+      }
+    }
     res.json(result);
   } catch (error) {
     console.error('[Channel Analytics] ❌ 數據聚合失敗:', error);
@@ -3814,6 +5245,9 @@ app.post('/api/channel-analytics/clear-cache', (_req, res) => {
   }
 });
 
+// 最近一次影片表現分析的完整數據（channelId -> { data, daysThreshold, fetchedAt }），供規則預覽使用，不需重新查詢 API
+const latestVideoAnalytics = new Map();
+
 /**
  * 影片表現分析 API
  * POST /api/analytics/channel
@@ -3838,6 +5272,9 @@ app.post('/api/analytics/channel', async (req, res) => {
       });
     }
 
+    // 分析結果會成為此頻道規則預覽的數據，先確認 token 屬於這個頻道
+    if (!(await requireChannelAccess(req, res, channelId, accessToken))) return;
+
     console.log(`\n========== 📊 開始影片表現分析 ==========`);
     console.log(`[Video Analytics] 頻道 ID: ${channelId}`);
     console.log(`[Video Analytics] 天數範圍: ${daysThreshold} 天`);
@@ -3845,9 +5282,11 @@ app.post('/api/analytics/channel', async (req, res) => {
     // 步驟 1: 獲取頻道影片分析數據
     const analyticsData = await getChannelVideosAnalytics(accessToken, channelId, daysThreshold);
     console.log(`[Video Analytics] 獲取到 ${analyticsData.length} 支影片的分析數據`);
+    latestVideoAnalytics.set(channelId, { data: analyticsData, daysThreshold, fetchedAt: Date.now() });
 
-    // 步驟 2: 計算更新優先級
-    const recommendations = calculateUpdatePriority(analyticsData);
+    // 步驟 2: 依頻道的優先級規則計算更新優先級
+    const ruleSet = priorityRuleStore.getPriorityRuleSet(channelId);
+    const recommendations = calculateUpdatePriority(analyticsData, ruleSet);
     console.log(`[Video Analytics] 找到 ${recommendations.length} 支建議更新的影片`);
 
     res.json({
@@ -3869,7 +5308,7 @@ app.post('/api/analytics/channel', async (req, res) => {
  * POST /api/analytics/keyword-analysis
  * 使用 AI 分析影片關鍵字並提供優化建議
  */
-app.post('/api/analytics/keyword-analysis', async (req, res) => {
+app.post('/api/analytics/keyword-analysis', requireAIBudget, async (req, res) => {
   try {
     const kwRate = checkRateLimit(req.user?.email || req.ip, aiRateLimiter, MAX_AI_REQUESTS_PER_HOUR);
     if (!kwRate.allowed) {
@@ -3886,205 +5325,928 @@ app.post('/api/analytics/keyword-analysis', async (req, res) => {
       });
     }
 
-    console.log(`\n========== 🔍 開始關鍵字分析 ==========`);
-    console.log(`[Keyword Analysis] 影片標題: ${videoData.title}`);
+    console.log(`\n========== 🔍 開始關鍵字分析 ==========`);
+    console.log(`[Keyword Analysis] 影片標題: ${videoData.title}`);
+
+    // 步驟 1: 生成分析 prompt
+    const prompt = generateKeywordAnalysisPrompt(videoData);
+
+    // 步驟 2: 使用 AI 模型進行分析（使用 Gemini Flash 以節省成本）
+    const modelType = 'gemini-flash-latest';
+    console.log(`[Keyword Analysis] 使用模型: ${modelType}`);
+
+    const response = await aiManager.analyze(modelType, {
+      prompt,
+      temperature: 0.7,
+      maxTokens: 4096,
+    }, { userId: req.user?.email || req.ip, feature: 'keyword-analysis' });
+
+    console.log('[Keyword Analysis] ✅ 分析完成');
+    console.log(`[Keyword Analysis] 結果長度: ${response.text.length} 字元`);
+
+    // 步驟 3: 解析 JSON 結果
+    let analysis;
+    try {
+      // 嘗試從回應中提取 JSON（可能包含 markdown code block）
+      const jsonMatch = response.text.match(/```json\s*([\s\S]*?)\s*```/) ||
+                        response.text.match(/```\s*([\s\S]*?)\s*```/);
+
+      const jsonText = jsonMatch ? jsonMatch[1] : response.text;
+      analysis = JSON.parse(jsonText);
+    } catch (parseError) {
+      console.error('[Keyword Analysis] ⚠️ JSON 解析失敗，返回原始文本');
+      // 如果無法解析為 JSON，返回基本結構
+      analysis = {
+        currentKeywords: {
+          score: 0,
+          strengths: [],
+          weaknesses: ['AI 分析結果格式錯誤'],
+        },
+        recommendedKeywords: {
+          primary: [],
+          secondary: [],
+          longtail: [],
+        },
+        titleSuggestions: [],
+        descriptionTips: [],
+        actionPlan: {
+          priority: 'medium',
+          estimatedImpact: '未知',
+          steps: [],
+        },
+        metadataHints: {
+          titleHooks: [],
+          descriptionAngles: [],
+          callToActions: [],
+        },
+        rawResponse: response.text,
+      };
+    }
+
+    res.json({
+      success: true,
+      analysis: analysis,
+      metadata: {
+        model: response.model,
+        provider: response.provider,
+        usage: response.usage,
+        cost: response.cost,
+      },
+    });
+  } catch (error) {
+    console.error('[Keyword Analysis] ❌ 分析失敗:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || '關鍵字分析失敗',
+    });
+  }
+});
+
+/**
+ * 影片搜尋字詞 API
+ * POST /api/analytics/search-terms
+ * 獲取單一影片的熱門搜尋字詞
+ */
+app.post('/api/analytics/search-terms', async (req, res) => {
+  try {
+    const { accessToken, channelId, videoId, daysThreshold = 365, maxResults = 10 } = req.body;
+
+    // 驗證必要參數
+    if (!accessToken) {
+      return res.status(400).json({
+        success: false,
+        message: '缺少 accessToken',
+      });
+    }
+
+    if (!channelId) {
+      return res.status(400).json({
+        success: false,
+        message: '缺少 channelId',
+      });
+    }
+
+    if (!videoId) {
+      return res.status(400).json({
+        success: false,
+        message: '缺少 videoId',
+      });
+    }
+
+    console.log(`\n========== 🔍 開始獲取搜尋字詞 ==========`);
+    console.log(`[Search Terms] 影片 ID: ${videoId}`);
+    console.log(`[Search Terms] 天數範圍: ${daysThreshold} 天`);
+    console.log(`[Search Terms] 最大結果數: ${maxResults}`);
+
+    // 調用服務獲取搜尋字詞
+    const searchTerms = await getVideoSearchTerms(
+      accessToken,
+      channelId,
+      videoId,
+      daysThreshold,
+      maxResults
+    );
+
+    console.log(`[Search Terms] ✅ 找到 ${searchTerms.length} 個搜尋字詞`);
+
+    res.json({
+      success: true,
+      searchTerms: searchTerms,
+    });
+  } catch (error) {
+    console.error('[Search Terms] ❌ 獲取失敗:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || '獲取搜尋字詞失敗',
+    });
+  }
+});
+
+/**
+ * 外部流量細節 API
+ * POST /api/analytics/external-traffic
+ * 獲取單一影片的外部流量詳細資料
+ */
+app.post('/api/analytics/external-traffic', async (req, res) => {
+  try {
+    const { accessToken, channelId, videoId, daysThreshold = 365, maxResults = 25 } = req.body;
+
+    // 驗證必要參數
+    if (!accessToken) {
+      return res.status(400).json({
+        success: false,
+        message: '缺少 accessToken',
+      });
+    }
+
+    if (!channelId) {
+      return res.status(400).json({
+        success: false,
+        message: '缺少 channelId',
+      });
+    }
+
+    if (!videoId) {
+      return res.status(400).json({
+        success: false,
+        message: '缺少 videoId',
+      });
+    }
+
+    console.log(`\n========== 🌐 開始獲取外部流量細節 ==========`);
+    console.log(`[External Traffic] 影片 ID: ${videoId}`);
+    console.log(`[External Traffic] 天數範圍: ${daysThreshold} 天`);
+    console.log(`[External Traffic] 最大結果數: ${maxResults}`);
+
+    // 調用服務獲取外部流量細節
+    const trafficDetails = await getVideoExternalTrafficDetails(
+      accessToken,
+      channelId,
+      videoId,
+      daysThreshold,
+      maxResults
+    );
+
+    console.log(`[External Traffic] ✅ Google 搜尋觀看: ${trafficDetails.googleSearch}`);
+    console.log(`[External Traffic] ✅ 外部來源數量: ${trafficDetails.topExternalSources.length}`);
+
+    res.json({
+      success: true,
+      googleSearch: trafficDetails.googleSearch,
+      adjustedExternal: trafficDetails.adjustedExternal,
+      totalExternalViews: trafficDetails.totalExternalViews,
+      topExternalSources: trafficDetails.topExternalSources,
+    });
+  } catch (error) {
+    console.error('[External Traffic] ❌ 獲取失敗:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || '獲取外部流量細節失敗',
+    });
+  }
+});
+
+// ==================== 關鍵字報表工作區 API ====================
+
+/**
+ * 取得目前使用者可查看的工作區，不存在或沒有權限時回傳 null 並送出錯誤回應
+ * @param {{ ownerOnly?: boolean }} [options] - ownerOnly：只有建立者可以操作（更新、刪除）
+ */
+function getAccessibleKeywordWorkspace(req, res, { ownerOnly = false } = {}) {
+  const userId = req.user?.email || req.ip;
+  const workspace = keywordWorkspaces.getKeywordWorkspace(req.params.workspaceId);
+  if (!workspace || !keywordWorkspaces.canViewKeywordWorkspace(workspace, userId)) {
+    res.status(404).json({ error: 'Workspace not found' });
+    return null;
+  }
+  if (ownerOnly && workspace.ownerId !== userId) {
+    res.status(403).json({ error: 'Workspace belongs to another user', details: '只有建立者可以修改，請先複製成自己的工作區' });
+    return null;
+  }
+  return workspace;
+}
+
+/**
+ * 列出自己的與其他人共享的工作區
+ * GET /api/keyword-workspaces
+ */
+app.get('/api/keyword-workspaces', (req, res) => {
+  res.json({ workspaces: keywordWorkspaces.listKeywordWorkspaces(req.user?.email || req.ip) });
+});
+
+/**
+ * 建立工作區
+ * POST /api/keyword-workspaces
+ * Body: { name, keywordGroups: [{ name }], dateColumns: [{ config }], selectedMetrics, visibility?: 'private' | 'shared' }
+ */
+app.post('/api/keyword-workspaces', (req, res) => {
+  try {
+    const workspace = keywordWorkspaces.createKeywordWorkspace(req.user?.email || req.ip, req.body || {});
+    res.status(201).json({ success: true, workspace });
+  } catch (error) {
+    res.status(400).json({ error: 'Invalid workspace', details: error.message });
+  }
+});
+
+/**
+ * 更新工作區（只有建立者可以更新）
+ * PUT /api/keyword-workspaces/:workspaceId
+ */
+app.put('/api/keyword-workspaces/:workspaceId', (req, res) => {
+  if (!getAccessibleKeywordWorkspace(req, res, { ownerOnly: true })) return;
+  try {
+    const workspace = keywordWorkspaces.updateKeywordWorkspace(req.user?.email || req.ip, req.params.workspaceId, req.body || {});
+    res.json({ success: true, workspace });
+  } catch (error) {
+    res.status(400).json({ error: 'Invalid workspace', details: error.message });
+  }
+});
+
+/**
+ * 刪除工作區（只有建立者可以刪除）
+ * DELETE /api/keyword-workspaces/:workspaceId
+ */
+app.delete('/api/keyword-workspaces/:workspaceId', (req, res) => {
+  if (!getAccessibleKeywordWorkspace(req, res, { ownerOnly: true })) return;
+  keywordWorkspaces.deleteKeywordWorkspace(req.params.workspaceId);
+  res.json({ success: true });
+});
+
+/**
+ * 複製工作區成自己的私人工作區
+ * POST /api/keyword-workspaces/:workspaceId/clone
+ * Body: { name? }
+ */
+app.post('/api/keyword-workspaces/:workspaceId/clone', (req, res) => {
+  if (!getAccessibleKeywordWorkspace(req, res)) return;
+  try {
+    const workspace = keywordWorkspaces.cloneKeywordWorkspace(req.user?.email || req.ip, req.params.workspaceId, {
+      name: req.body?.name,
+    });
+    res.status(201).json({ success: true, workspace });
+  } catch (error) {
+    res.status(400).json({ error: 'Failed to clone workspace', details: error.message });
+  }
+});
+
+// ==================== 標籤研究 API ====================
+
+/**
+ * 依頻道數據排序建議標籤並合併近似重複的標籤
+ * POST /api/tag-research
+ * Body: { videoId, tags: string[], accessToken?, channelId? }
+ * 有 accessToken / channelId 時加入影片的搜尋字詞；有 GITHUB_GIST_ID 時加入頻道影片快取的標籤數據
+ * 任一資料來源失敗時仍會回傳結果，並在 warnings 中說明
+ */
+app.post('/api/tag-research', async (req, res) => {
+  const { videoId, tags, accessToken, channelId } = req.body || {};
+
+  if (!videoId || !isValidVideoId(videoId)) {
+    return res.status(400).json({ error: 'Missing or invalid videoId format' });
+  }
+  if (!Array.isArray(tags)) {
+    return res.status(400).json({ error: 'tags must be an array' });
+  }
+
+  const warnings = [];
+  const aiTags = tags.filter((tag) => typeof tag === 'string');
+
+  const loadSearchTerms = async () => {
+    if (!accessToken || !channelId) {
+      warnings.push('未登入 YouTube，未使用搜尋字詞');
+      return [];
+    }
+    try {
+      return await getVideoSearchTerms(accessToken, channelId, videoId, 365, 25);
+    } catch (error) {
+      console.warn('[TagResearch] 取得搜尋字詞失敗:', error.message);
+      warnings.push(`無法取得搜尋字詞：${error.message}`);
+      return [];
+    }
+  };
+
+  const loadCachedVideos = async () => {
+    const gistId = process.env.GITHUB_GIST_ID;
+    if (!gistId) {
+      warnings.push('未設定 GITHUB_GIST_ID，未使用頻道影片快取');
+      return { videos: [], updatedAt: null };
+    }
+    try {
+      const cache = await loadFromGist(gistId, process.env.GITHUB_GIST_TOKEN || null);
+      return { videos: Array.isArray(cache.videos) ? cache.videos : [], updatedAt: cache.updatedAt || null };
+    } catch (error) {
+      console.warn('[TagResearch] 載入影片快取失敗:', error.message);
+      warnings.push(`無法載入頻道影片快取：${error.message}`);
+      return { videos: [], updatedAt: null };
+    }
+  };
+
+  try {
+    const [searchTerms, cache] = await Promise.all([loadSearchTerms(), loadCachedVideos()]);
+    const { duplicates } = dedupeTags(aiTags);
+    const suggestions = rankTagSuggestions({ videoId, aiTags, searchTerms, cachedVideos: cache.videos });
+
+    console.log(`[TagResearch] ${videoId}: ${suggestions.length} 個候選標籤（搜尋字詞 ${searchTerms.length}、快取影片 ${cache.videos.length}）`);
+
+    res.json({
+      suggestions,
+      // 預設勾選：與影片相關的標籤依分數排序，直到達到 500 字元上限
+      recommended: selectTagsWithinLimit(suggestions.filter(isRelevantSuggestion).map((item) => item.tag)),
+      duplicates,
+      sources: {
+        searchTerms: searchTerms.length,
+        cachedVideos: cache.videos.length,
+        cacheUpdatedAt: cache.updatedAt,
+      },
+      warnings,
+    });
+  } catch (error) {
+    console.error('[TagResearch] 分析失敗:', error);
+    res.status(500).json({ error: 'Failed to research tags', details: error.message });
+  }
+});
+
+// ==================== 頻道存取權 ====================
+
+/**
+ * 以 YouTube access token 取得其所屬的頻道 ID
+ * @param {string} accessToken
+ * @returns {Promise<string | null>} token 無效或沒有頻道時回傳 null
+ */
+async function fetchOwnChannelId(accessToken) {
+  try {
+    const response = await fetch('https://www.googleapis.com/youtube/v3/channels?part=id&mine=true', {
+      headers: { Authorization: `Bearer ${accessToken}` },
+    });
+    if (!response.ok) return null;
+    const data = await response.json();
+    return data.items?.[0]?.id || null;
+  } catch (error) {
+    console.error('[ChannelAccess] 驗證 YouTube token 失敗:', error.message);
+    return null;
+  }
+}
+
+/**
+ * 確認目前使用者可以存取頻道的私人設定與數據，無權限時直接回應 403
+ * 以頻道登入或曾通過驗證的使用者直接放行；否則以請求附帶的 YouTube token
+ * （參數 accessToken 或 X-YouTube-Access-Token 標頭）確認該 token 屬於此頻道，通過後記錄下來
+ * @param {import('express').Request} req
+ * @param {import('express').Response} res
+ * @param {string} channelId
+ * @param {string} [accessToken] - 請求 body 中的 YouTube token
+ * @returns {Promise<boolean>}
+ */
+async function requireChannelAccess(req, res, channelId, accessToken) {
+  const userId = req.user?.email || req.ip;
+  if (channelAccess.hasChannelAccess(channelId, userId)) {
+    return true;
+  }
+
+  const token = accessToken || req.get('X-YouTube-Access-Token');
+  if (token && (await fetchOwnChannelId(token)) === channelId) {
+    channelAccess.grantChannelAccess(channelId, userId);
+    return true;
+  }
+
+  console.warn(`[ChannelAccess] 拒絕 ${userId} 存取頻道 ${channelId}`);
+  res.status(403).json({ error: 'Channel access denied', details: '請以此頻道的 YouTube 帳號授權後再試' });
+  return false;
+}
+
+// ==================== 優先級規則 API ====================
+
+/**
+ * 取得頻道的影片更新優先級規則（未自訂時回傳預設規則）
+ * GET /api/priority-rules/:channelId
+ */
+app.get('/api/priority-rules/:channelId', async (req, res) => {
+  if (!(await requireChannelAccess(req, res, req.params.channelId))) return;
+  res.json(priorityRuleStore.getPriorityRuleSet(req.params.channelId));
+});
+
+/**
+ * 儲存頻道的優先級規則
+ * PUT /api/priority-rules/:channelId
+ * Body: { rules: [{ id, name, effect, weight, contentType, conditions: [{ metric, operator, threshold }], reasonTemplate, enabled }], maxResults }
+ */
+app.put('/api/priority-rules/:channelId', async (req, res) => {
+  if (!(await requireChannelAccess(req, res, req.params.channelId))) return;
+  try {
+    const ruleSet = priorityRuleStore.savePriorityRuleSet(req.params.channelId, req.body, req.user?.email || req.ip);
+    res.json(ruleSet);
+  } catch (error) {
+    res.status(400).json({ error: 'Invalid priority rules', details: error.message });
+  }
+});
+
+/**
+ * 恢復預設規則
+ * DELETE /api/priority-rules/:channelId
+ */
+app.delete('/api/priority-rules/:channelId', async (req, res) => {
+  if (!(await requireChannelAccess(req, res, req.params.channelId))) return;
+  priorityRuleStore.resetPriorityRuleSet(req.params.channelId);
+  res.json(priorityRuleStore.getPriorityRuleSet(req.params.channelId));
+});
+
+/**
+ * 以已儲存的規則重新排序最近一次影片表現分析的數據（儲存規則後套用，不需重新查詢 API）
+ * GET /api/priority-rules/:channelId/recommendations
+ */
+app.get('/api/priority-rules/:channelId/recommendations', async (req, res) => {
+  const { channelId } = req.params;
+  if (!(await requireChannelAccess(req, res, channelId))) return;
+  const latest = latestVideoAnalytics.get(channelId);
+  if (!latest) {
+    return res.status(409).json({ error: 'No analytics data', details: '請先執行一次影片表現分析' });
+  }
+
+  res.json({
+    success: true,
+    totalVideos: latest.data.length,
+    recommendations: rankVideosByPriority(latest.data, priorityRuleStore.getPriorityRuleSet(channelId)),
+  });
+});
+
+/**
+ * 預覽規則：以最近一次影片表現分析的數據，列出每條規則會標記的影片，以及與目前已儲存規則的差異
+ * POST /api/priority-rules/:channelId/preview
+ * Body: { rules, maxResults }
+ */
+app.post('/api/priority-rules/:channelId/preview', async (req, res) => {
+  const { channelId } = req.params;
+  if (!(await requireChannelAccess(req, res, channelId))) return;
+  const { ruleSet, errors } = validatePriorityRuleSet(req.body);
+  if (!ruleSet) {
+    return res.status(400).json({ error: 'Invalid priority rules', details: errors.join('；'), errors });
+  }
+
+  const latest = latestVideoAnalytics.get(channelId);
+  if (!latest) {
+    return res.status(409).json({ error: 'No analytics data', details: '請先執行一次影片表現分析，再預覽規則' });
+  }
+
+  const PREVIEW_VIDEO_LIMIT = 20;
+  const scored = scoreVideos(latest.data, ruleSet);
+  const rules = ruleSet.rules.map((rule) => {
+    const matched = scored.filter((video) => video.matchedRuleIds.includes(rule.id));
+    return {
+      id: rule.id,
+      matchedCount: matched.length,
+      videos: matched.slice(0, PREVIEW_VIDEO_LIMIT).map((video) => ({
+        videoId: video.videoId,
+        title: video.title,
+        contentType: video.contentType,
+      })),
+    };
+  });
+
+  const recommendations = rankVideosByPriority(latest.data, ruleSet);
+  const currentIds = new Set(
+    rankVideosByPriority(latest.data, priorityRuleStore.getPriorityRuleSet(channelId)).map((video) => video.videoId)
+  );
+  const previewIds = new Set(recommendations.map((video) => video.videoId));
+  const toSummary = (video) => ({ videoId: video.videoId, title: video.title });
+
+  res.json({
+    totalVideos: latest.data.length,
+    daysThreshold: latest.daysThreshold,
+    fetchedAt: latest.fetchedAt,
+    rules,
+    recommendations: recommendations.slice(0, PREVIEW_VIDEO_LIMIT).map((video) => ({
+      ...toSummary(video),
+      priorityScore: video.priorityScore,
+      updateReasons: video.updateReasons,
+    })),
+    recommendedCount: recommendations.length,
+    added: recommendations.filter((video) => !currentIds.has(video.videoId)).map(toSummary),
+    removed: latest.data.filter((video) => currentIds.has(video.videoId) && !previewIds.has(video.videoId)).map(toSummary),
+  });
+});
+
+// ==================== 數據快照 API ====================
+
+const DATE_PARAM_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * 驗證快照查詢的頻道與日期範圍，不正確時直接回應 400
+ * @returns {{ channelId: string, startDate: string, endDate: string } | null}
+ */
+function parseSnapshotQuery(req, res) {
+  const { channelId } = req.params;
+  const { startDate, endDate } = req.query;
+  if (!analyticsSnapshots.isValidSnapshotChannelId(channelId)) {
+    res.status(400).json({ error: 'Invalid channelId' });
+    return null;
+  }
+  if (!DATE_PARAM_PATTERN.test(startDate || '') || !DATE_PARAM_PATTERN.test(endDate || '') || startDate > endDate) {
+    res.status(400).json({ error: 'Invalid date range', details: 'startDate、endDate 需為 YYYY-MM-DD，且開始日期不能晚於結束日期' });
+    return null;
+  }
+  return { channelId, startDate, endDate };
+}
+
+/**
+ * 取得頻道快照概況（已保存的日期範圍）
+ * GET /api/analytics-snapshots/:channelId
+ */
+app.get('/api/analytics-snapshots/:channelId', async (req, res) => {
+  if (!analyticsSnapshots.isValidSnapshotChannelId(req.params.channelId)) {
+    return res.status(400).json({ error: 'Invalid channelId' });
+  }
+  if (!(await requireChannelAccess(req, res, req.params.channelId))) return;
+  res.json(analyticsSnapshots.getSnapshotStatus(req.params.channelId));
+});
+
+/**
+ * 讀取頻道每日數據
+ * GET /api/analytics-snapshots/:channelId/channel?startDate=YYYY-MM-DD&endDate=YYYY-MM-DD
+ * 回傳 { coverage: { totalDays, syncedDays, missingDates, complete }, days, totals }
+ */
+app.get('/api/analytics-snapshots/:channelId/channel', async (req, res) => {
+  const query = parseSnapshotQuery(req, res);
+  if (!query || !(await requireChannelAccess(req, res, query.channelId))) return;
+  res.json(analyticsSnapshots.readChannelSnapshots(query.channelId, query.startDate, query.endDate));
+});
+
+/**
+ * 讀取日期範圍內每支影片的彙總數據
+ * GET /api/analytics-snapshots/:channelId/videos?startDate=YYYY-MM-DD&endDate=YYYY-MM-DD
+ * 回傳 { coverage, videos, totals }
+ */
+app.get('/api/analytics-snapshots/:channelId/videos', async (req, res) => {
+  const query = parseSnapshotQuery(req, res);
+  if (!query || !(await requireChannelAccess(req, res, query.channelId))) return;
+  res.json(analyticsSnapshots.readVideoSnapshots(query.channelId, query.startDate, query.endDate));
+});
+
+/**
+ * 建立快照同步任務（補齊日期範圍內尚未保存或尚未定案的日期）
+ * POST /api/analytics-snapshots/:channelId/sync
+ * Body: { accessToken, startDate?, endDate?, includeVideos?, force? }
+ */
+app.post('/api/analytics-snapshots/:channelId/sync', async (req, res) => {
+  const { channelId } = req.params;
+  const { accessToken, startDate, endDate, includeVideos = true, force = false } = req.body || {};
+
+  if (!accessToken) {
+    return res.status(400).json({ error: '缺少 accessToken' });
+  }
+  if (!analyticsSnapshots.isValidSnapshotChannelId(channelId)) {
+    return res.status(400).json({ error: 'Invalid channelId' });
+  }
+  // 同步時確認 token 屬於此頻道並記錄同步者，之後讀取快照只開放給通過驗證的使用者
+  if (!(await requireChannelAccess(req, res, channelId, accessToken))) return;
+
+  let range;
+  try {
+    range = resolveSyncRange(startDate, endDate);
+  } catch (error) {
+    return res.status(400).json({ error: 'Invalid date range', details: error.message });
+  }
+
+  const userId = req.user?.email || req.ip;
+  // accessToken 不放進任務參數，避免寫入任務儲存
+  const params = { channelId, ...range, includeVideos: includeVideos !== false, force: force === true };
+  const taskId = taskQueue.createTask('sync-analytics-snapshots', params, { userId });
+  res.json({ success: true, taskId, message: '任務已建立，請使用 taskId 查詢進度' });
+
+  taskQueue.executeTask(taskId, async (taskId, { signal }) => {
+    const result = await syncAnalyticsSnapshots({
+      ...params,
+      accessToken,
+      signal,
+      onProgress: (done, total, message) =>
+        taskQueue.updateTaskProgress(taskId, Math.min(99, Math.round((done / Math.max(total, 1)) * 100)), message),
+    });
 
-    // 步驟 1: 生成分析 prompt
-    const prompt = generateKeywordAnalysisPrompt(videoData);
+    // 同步完成後偵測異常（排程每天同步一次即為每日偵測），偵測失敗不影響同步結果
+    let anomalies = null;
+    try {
+      taskQueue.updateTaskProgress(taskId, 99, '偵測數據異常...');
+      const detection = await runAnomalyDetection(channelId);
+      anomalies = { detected: detection.detected, newAlerts: detection.alerts.length, webhook: detection.webhook };
+    } catch (error) {
+      console.error('[AnomalyAlert] ❌ 異常偵測失敗:', error.message);
+    }
+    return { ...result, anomalies };
+  });
+});
 
-    // 步驟 2: 使用 AI 模型進行分析（使用 Gemini Flash 以節省成本）
-    const modelType = 'gemini-flash-latest';
-    console.log(`[Keyword Analysis] 使用模型: ${modelType}`);
+// ==================== 數據異常提醒 API ====================
 
-    const response = await aiManager.analyze(modelType, {
-      prompt,
-      temperature: 0.7,
-      maxTokens: 4096,
-    });
+/**
+ * 決定提醒收件匣要處理的頻道：指定頻道時需有該頻道的存取權，否則為使用者可存取的所有頻道
+ * @returns {Promise<string[] | null>} 無權限時已回應 403 並回傳 null
+ */
+async function resolveAlertChannelIds(req, res, channelId) {
+  if (typeof channelId === 'string' && channelId) {
+    return (await requireChannelAccess(req, res, channelId)) ? [channelId] : null;
+  }
+  return channelAccess.listAccessibleChannelIds(req.user?.email || req.ip);
+}
 
-    console.log('[Keyword Analysis] ✅ 分析完成');
-    console.log(`[Keyword Analysis] 結果長度: ${response.text.length} 字元`);
+/**
+ * 列出異常提醒（由新到舊，只包含使用者可存取的頻道）
+ * GET /api/anomaly-alerts?channelId=xxx&unreadOnly=true&limit=50
+ * 回傳 { alerts, unreadCount }
+ */
+app.get('/api/anomaly-alerts', async (req, res) => {
+  const { channelId, unreadOnly, limit } = req.query;
+  const channelIds = await resolveAlertChannelIds(req, res, channelId);
+  if (!channelIds) return;
+  const parsedLimit = Number.parseInt(limit, 10);
+  res.json(
+    anomalyAlerts.listAnomalyAlerts({
+      channelIds,
+      unreadOnly: unreadOnly === 'true',
+      limit: Number.isFinite(parsedLimit) ? Math.min(Math.max(parsedLimit, 1), 200) : 50,
+    })
+  );
+});
 
-    // 步驟 3: 解析 JSON 結果
-    let analysis;
-    try {
-      // 嘗試從回應中提取 JSON（可能包含 markdown code block）
-      const jsonMatch = response.text.match(/```json\s*([\s\S]*?)\s*```/) ||
-                        response.text.match(/```\s*([\s\S]*?)\s*```/);
+/**
+ * 標記提醒為已讀
+ * POST /api/anomaly-alerts/read
+ * Body: { ids?: string[], channelId?: string }（未指定 ids 時標記該頻道全部提醒；未指定頻道時為所有可存取的頻道）
+ */
+app.post('/api/anomaly-alerts/read', async (req, res) => {
+  const { ids, channelId } = req.body || {};
+  if (ids !== undefined && (!Array.isArray(ids) || ids.some((id) => typeof id !== 'string'))) {
+    return res.status(400).json({ error: 'ids 必須是字串陣列' });
+  }
+  const channelIds = await resolveAlertChannelIds(req, res, channelId);
+  if (!channelIds) return;
+  const updated = anomalyAlerts.markAnomalyAlertsRead({ ids, channelIds });
+  res.json({ success: true, updated });
+});
 
-      const jsonText = jsonMatch ? jsonMatch[1] : response.text;
-      analysis = JSON.parse(jsonText);
-    } catch (parseError) {
-      console.error('[Keyword Analysis] ⚠️ JSON 解析失敗，返回原始文本');
-      // 如果無法解析為 JSON，返回基本結構
-      analysis = {
-        currentKeywords: {
-          score: 0,
-          strengths: [],
-          weaknesses: ['AI 分析結果格式錯誤'],
-        },
-        recommendedKeywords: {
-          primary: [],
-          secondary: [],
-          longtail: [],
-        },
-        titleSuggestions: [],
-        descriptionTips: [],
-        actionPlan: {
-          priority: 'medium',
-          estimatedImpact: '未知',
-          steps: [],
-        },
-        metadataHints: {
-          titleHooks: [],
-          descriptionAngles: [],
-          callToActions: [],
-        },
-        rawResponse: response.text,
-      };
-    }
+/**
+ * 取得頻道的提醒設定（webhookSecret 遮罩）
+ * GET /api/anomaly-alerts/settings/:channelId
+ */
+app.get('/api/anomaly-alerts/settings/:channelId', async (req, res) => {
+  if (!analyticsSnapshots.isValidSnapshotChannelId(req.params.channelId)) {
+    return res.status(400).json({ error: 'Invalid channelId' });
+  }
+  if (!(await requireChannelAccess(req, res, req.params.channelId))) return;
+  res.json(anomalyAlerts.getPublicAnomalySettings(req.params.channelId));
+});
 
-    res.json({
-      success: true,
-      analysis: analysis,
-      metadata: {
-        model: response.model,
-        provider: response.provider,
-        usage: response.usage,
-        cost: response.cost,
-      },
-    });
+/**
+ * 更新頻道的提醒設定
+ * PUT /api/anomaly-alerts/settings/:channelId
+ * Body: { enabled?, threshold?, includeVideos?, webhookUrl?, webhookSecret? }（webhookSecret 留空沿用、null 清除）
+ */
+app.put('/api/anomaly-alerts/settings/:channelId', async (req, res) => {
+  if (!analyticsSnapshots.isValidSnapshotChannelId(req.params.channelId)) {
+    return res.status(400).json({ error: 'Invalid channelId' });
+  }
+  if (!(await requireChannelAccess(req, res, req.params.channelId))) return;
+  try {
+    res.json(anomalyAlerts.saveAnomalySettings(req.params.channelId, req.body || {}));
   } catch (error) {
-    console.error('[Keyword Analysis] ❌ 分析失敗:', error);
-    res.status(500).json({
-      success: false,
-      message: error.message || '關鍵字分析失敗',
-    });
+    res.status(400).json({ error: 'Invalid settings', details: error.message });
   }
 });
 
 /**
- * 影片搜尋字詞 API
- * POST /api/analytics/search-terms
- * 獲取單一影片的熱門搜尋字詞
+ * 送出測試 webhook
+ * POST /api/anomaly-alerts/settings/:channelId/test
  */
-app.post('/api/analytics/search-terms', async (req, res) => {
+app.post('/api/anomaly-alerts/settings/:channelId/test', async (req, res) => {
+  if (!analyticsSnapshots.isValidSnapshotChannelId(req.params.channelId)) {
+    return res.status(400).json({ error: 'Invalid channelId' });
+  }
+  if (!(await requireChannelAccess(req, res, req.params.channelId))) return;
+  const settings = anomalyAlerts.getAnomalySettings(req.params.channelId);
+  if (!settings.webhookUrl) {
+    return res.status(400).json({ error: '尚未設定 Webhook 網址' });
+  }
   try {
-    const { accessToken, channelId, videoId, daysThreshold = 365, maxResults = 10 } = req.body;
+    await sendAnomalyWebhook(settings, { event: 'ping', sentAt: new Date().toISOString(), channelId: req.params.channelId });
+    res.json({ success: true, message: 'Webhook 已回應' });
+  } catch (error) {
+    res.status(502).json({ error: 'Webhook 測試失敗', details: error.message });
+  }
+});
 
-    // 驗證必要參數
-    if (!accessToken) {
-      return res.status(400).json({
-        success: false,
-        message: '缺少 accessToken',
-      });
-    }
+/**
+ * 立即以已保存的快照偵測異常（不呼叫 YouTube API）
+ * POST /api/anomaly-alerts/detect/:channelId
+ * 回傳 { checkedDates, detected, alerts（本次新增）, webhook }
+ */
+app.post('/api/anomaly-alerts/detect/:channelId', async (req, res) => {
+  if (!analyticsSnapshots.isValidSnapshotChannelId(req.params.channelId)) {
+    return res.status(400).json({ error: 'Invalid channelId' });
+  }
+  if (!(await requireChannelAccess(req, res, req.params.channelId))) return;
+  try {
+    res.json(await runAnomalyDetection(req.params.channelId, { force: true }));
+  } catch (error) {
+    console.error('[AnomalyAlert] ❌ 異常偵測失敗:', error.message);
+    res.status(500).json({ error: 'Failed to detect anomalies', details: error.message });
+  }
+});
 
-    if (!channelId) {
-      return res.status(400).json({
-        success: false,
-        message: '缺少 channelId',
-      });
-    }
+// ==================== 定期報表 API ====================
 
-    if (!videoId) {
-      return res.status(400).json({
-        success: false,
-        message: '缺少 videoId',
-      });
+/**
+ * 報表 AI 摘要：與頻道分析相同經由 aiManager，計入報表建立者的 AI 用量與預算
+ * @param {string} userId
+ */
+function createReportAnalyzer(userId) {
+  return async (modelType, prompt) => {
+    const budget = getAIBudgetStatus(userId);
+    if (budget.exceeded) {
+      throw new Error(`已超出${budget.exceeded === 'daily' ? '今日' : '本月'} AI 預算`);
     }
+    const response = await aiManager.analyze(modelType, {
+      prompt,
+      temperature: 0.7,
+      maxTokens: getMaxTokensForModel(modelType),
+    }, { userId, feature: 'scheduled-report' });
+    return { text: response.text, model: response.model };
+  };
+}
 
-    console.log(`\n========== 🔍 開始獲取搜尋字詞 ==========`);
-    console.log(`[Search Terms] 影片 ID: ${videoId}`);
-    console.log(`[Search Terms] 天數範圍: ${daysThreshold} 天`);
-    console.log(`[Search Terms] 最大結果數: ${maxResults}`);
+/**
+ * 建立報表產生任務（手動與排程共用）
+ * @param {object} report
+ * @param {{ trigger: 'manual' | 'schedule', userId: string, deliver?: boolean }} options
+ * @returns {string} taskId
+ */
+function startReportTask(report, { trigger, userId, deliver = true }) {
+  const params = { reportId: report.id, reportName: report.name, channelId: report.channelId, trigger, deliver };
+  const taskId = taskQueue.createTask('generate-report', params, { userId });
+  taskQueue.executeTask(taskId, async (taskId) =>
+    runReport(report.id, {
+      trigger,
+      deliver,
+      analyze: createReportAnalyzer(userId),
+      onProgress: (progress, message) => taskQueue.updateTaskProgress(taskId, progress, message),
+    })
+  );
+  return taskId;
+}
 
-    // 調用服務獲取搜尋字詞
-    const searchTerms = await getVideoSearchTerms(
-      accessToken,
-      channelId,
-      videoId,
-      daysThreshold,
-      maxResults
-    );
+/**
+ * 取得目前使用者建立的報表，不存在或屬於其他使用者時回傳 null 並送出 404（不透露報表是否存在）
+ * @param {string} reportId
+ * @returns {object | null} 含機密的報表設定
+ */
+function getOwnReport(req, res, reportId) {
+  const report = reportStore.getReport(reportId);
+  if (!report || report.createdBy !== (req.user?.email || req.ip)) {
+    res.status(404).json({ error: 'Report not found' });
+    return null;
+  }
+  return report;
+}
 
-    console.log(`[Search Terms] ✅ 找到 ${searchTerms.length} 個搜尋字詞`);
+/**
+ * 列出目前使用者建立的報表設定（webhookSecret 遮罩）
+ * GET /api/reports?channelId=xxx
+ * 回傳 { reports, mailConfigured }
+ */
+app.get('/api/reports', (req, res) => {
+  const { channelId } = req.query;
+  res.json({
+    reports: reportStore.listReports({
+      createdBy: req.user?.email || req.ip,
+      channelId: typeof channelId === 'string' && channelId ? channelId : undefined,
+    }),
+    mailConfigured: isMailConfigured(),
+  });
+});
 
-    res.json({
-      success: true,
-      searchTerms: searchTerms,
-    });
+/**
+ * 建立報表
+ * POST /api/reports
+ * Body: { name, channelId, datePreset, sections, topVideosLimit?, keywordGroups?, narrative?, schedule?, delivery?: { emails, webhookUrl, webhookSecret? }, enabled? }
+ */
+app.post('/api/reports', async (req, res) => {
+  // 報表內容來自頻道的數據快照，只有該頻道的管理者可以建立
+  const { channelId } = req.body || {};
+  if (typeof channelId === 'string' && channelId && !(await requireChannelAccess(req, res, channelId))) return;
+  try {
+    const report = reportStore.saveReport(null, req.body || {}, req.user?.email || req.ip);
+    res.status(201).json({ success: true, report });
   } catch (error) {
-    console.error('[Search Terms] ❌ 獲取失敗:', error);
-    res.status(500).json({
-      success: false,
-      message: error.message || '獲取搜尋字詞失敗',
-    });
+    res.status(400).json({ error: 'Invalid report', details: error.message });
   }
 });
 
 /**
- * 外部流量細節 API
- * POST /api/analytics/external-traffic
- * 獲取單一影片的外部流量詳細資料
+ * 取得報表設定
+ * GET /api/reports/:reportId
  */
-app.post('/api/analytics/external-traffic', async (req, res) => {
-  try {
-    const { accessToken, channelId, videoId, daysThreshold = 365, maxResults = 25 } = req.body;
-
-    // 驗證必要參數
-    if (!accessToken) {
-      return res.status(400).json({
-        success: false,
-        message: '缺少 accessToken',
-      });
-    }
-
-    if (!channelId) {
-      return res.status(400).json({
-        success: false,
-        message: '缺少 channelId',
-      });
-    }
+app.get('/api/reports/:reportId', (req, res) => {
+  if (!getOwnReport(req, res, req.params.reportId)) return;
+  res.json(reportStore.getPublicReport(req.params.reportId));
+});
 
-    if (!videoId) {
-      return res.status(400).json({
-        success: false,
-        message: '缺少 videoId',
-      });
-    }
+/**
+ * 更新報表設定（delivery.webhookSecret 留空沿用、null 清除）
+ * PUT /api/reports/:reportId
+ */
+app.put('/api/reports/:reportId', async (req, res) => {
+  const existing = getOwnReport(req, res, req.params.reportId);
+  if (!existing) return;
+  const { channelId } = req.body || {};
+  if (typeof channelId === 'string' && channelId && channelId !== existing.channelId
+    && !(await requireChannelAccess(req, res, channelId))) return;
+  try {
+    const report = reportStore.saveReport(req.params.reportId, req.body || {}, req.user?.email || req.ip);
+    res.json({ success: true, report });
+  } catch (error) {
+    res.status(400).json({ error: 'Invalid report', details: error.message });
+  }
+});
 
-    console.log(`\n========== 🌐 開始獲取外部流量細節 ==========`);
-    console.log(`[External Traffic] 影片 ID: ${videoId}`);
-    console.log(`[External Traffic] 天數範圍: ${daysThreshold} 天`);
-    console.log(`[External Traffic] 最大結果數: ${maxResults}`);
+/**
+ * 刪除報表與所有產生紀錄
+ * DELETE /api/reports/:reportId
+ */
+app.delete('/api/reports/:reportId', (req, res) => {
+  if (!getOwnReport(req, res, req.params.reportId)) return;
+  reportStore.deleteReport(req.params.reportId);
+  res.json({ success: true });
+});
 
-    // 調用服務獲取外部流量細節
-    const trafficDetails = await getVideoExternalTrafficDetails(
-      accessToken,
-      channelId,
-      videoId,
-      daysThreshold,
-      maxResults
-    );
+/**
+ * 立即產生報表（背景任務）
+ * POST /api/reports/:reportId/run
+ * Body: { deliver?: boolean }（false 時只產生檔案、不寄送）
+ */
+app.post('/api/reports/:reportId/run', (req, res) => {
+  const report = getOwnReport(req, res, req.params.reportId);
+  if (!report) return;
+  const taskId = startReportTask(report, {
+    trigger: 'manual',
+    userId: req.user?.email || req.ip,
+    deliver: req.body?.deliver !== false,
+  });
+  res.json({ success: true, taskId, message: '任務已建立，請使用 taskId 查詢進度' });
+});
 
-    console.log(`[External Traffic] ✅ Google 搜尋觀看: ${trafficDetails.googleSearch}`);
-    console.log(`[External Traffic] ✅ 外部來源數量: ${trafficDetails.topExternalSources.length}`);
+/**
+ * 列出報表的產生紀錄（由新到舊）
+ * GET /api/reports/:reportId/runs?limit=30
+ */
+app.get('/api/reports/:reportId/runs', (req, res) => {
+  if (!getOwnReport(req, res, req.params.reportId)) return;
+  const parsedLimit = Number.parseInt(req.query.limit, 10);
+  res.json({
+    runs: reportStore.listReportRuns({
+      reportId: req.params.reportId,
+      limit: Number.isFinite(parsedLimit) ? Math.min(Math.max(parsedLimit, 1), 100) : 30,
+    }),
+  });
+});
 
-    res.json({
-      success: true,
-      googleSearch: trafficDetails.googleSearch,
-      adjustedExternal: trafficDetails.adjustedExternal,
-      totalExternalViews: trafficDetails.totalExternalViews,
-      topExternalSources: trafficDetails.topExternalSources,
-    });
-  } catch (error) {
-    console.error('[External Traffic] ❌ 獲取失敗:', error);
-    res.status(500).json({
-      success: false,
-      message: error.message || '獲取外部流量細節失敗',
-    });
+/**
+ * 下載產生的報表
+ * GET /api/report-runs/:runId/:format   (format: html | pdf)
+ * 回應為檔案下載（Content-Disposition: attachment）
+ */
+app.get('/api/report-runs/:runId/:format', (req, res) => {
+  const { runId, format } = req.params;
+  const fileFormat = reportStore.REPORT_FILE_FORMATS[format];
+  if (!fileFormat) {
+    return res.status(400).json({ error: 'Invalid format' });
   }
+  const run = reportStore.getReportRun(runId);
+  const report = run ? reportStore.getReport(run.reportId) : null;
+  const data = report?.createdBy === (req.user?.email || req.ip) ? reportStore.readReportRunFile(runId, format) : null;
+  if (!data) {
+    return res.status(404).json({ error: 'Report file not found' });
+  }
+  const fileName = `report-${run.startDate}_${run.endDate}.${fileFormat.extension}`;
+  res.setHeader('Content-Type', fileFormat.mimeType);
+  res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+  res.send(data);
 });
 
 // ==================== 影片快取 API ====================
@@ -4166,7 +6328,7 @@ app.post('/api/video-cache/generate', async (req, res) => {
  * POST /api/analytics/ai-chat
  * 接收自然語言需求，透過 tool calling 自動拉取數據並生成報告
  */
-app.post('/api/analytics/ai-chat', async (req, res) => {
+app.post('/api/analytics/ai-chat', requireAIBudget, async (req, res) => {
   const { query, model = 'gemini-flash-latest', messages = [], accessToken, channelId } = req.body;
 
   if (!query && messages.length === 0) {
@@ -4329,7 +6491,11 @@ app.post('/api/analytics/ai-chat', async (req, res) => {
             systemInstruction: { parts: [{ text: systemPrompt }] },
             temperature: 0.3,
           },
-        }, { preferredModel: geminiModel, logPrefix: '[Chat]' });
+        }, {
+          preferredModel: geminiModel,
+          logPrefix: '[Chat]',
+          usageContext: { userId: req.user?.email || req.ip, feature: 'ai-chat' },
+        });
 
         const candidate = response.candidates?.[0];
         if (!candidate) break;
@@ -4671,6 +6837,19 @@ process.on('uncaughtException', (err) => {
   // 嚴重錯誤：記錄後讓平台重啟（Render 會自動拉起）
   process.exit(1);
 });
+// 平台重新部署會送 SIGTERM：先把任務狀態寫入磁碟再結束
+for (const signal of ['SIGTERM', 'SIGINT']) {
+  process.once(signal, () => {
+    console.log(`[Process] Received ${signal}, flushing task store...`);
+    taskQueue.flushTaskStore();
+    process.exit(0);
+  });
+}
+
+// 定期報表排程：到期的報表以建立者的身分建立背景任務（AI 摘要計入建立者的用量）
+startReportScheduler((report) => {
+  startReportTask(report, { trigger: 'schedule', userId: report.createdBy });
+});
 
 // 啟動伺服器前先執行清理
 startupCleanup().then(() => {
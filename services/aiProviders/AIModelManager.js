@@ -5,17 +5,46 @@
 
 import { GeminiProvider } from './GeminiProvider.js';
 import { OpenRouterProvider } from './OpenRouterProvider.js';
+import { OpenAICompatibleProvider } from './OpenAICompatibleProvider.js';
+import { recordAIUsage } from '../aiUsageLedger.js';
 
 // ⚙️ OpenRouter（Claude / GPT / Grok）暫時停用 —— 目前只跑原生 Google Gemini。
 // 要恢復多供應商：把下面改成 true，並在環境變數設定 OPENROUTER_API_KEY 即可，
 // 不需要改其他程式碼（registry / 推薦對照表都會自動帶回來）。
 const ENABLE_OPENROUTER = false;
 
+// 本機 / 內部部署的 OpenAI 相容模型（Ollama、llama.cpp server、vLLM）以此前綴註冊
+const LOCAL_MODEL_PREFIX = 'local/';
+
+/**
+ * 讀取本機模型設定
+ * LOCAL_AI_BASE_URL：OpenAI 相容端點（例如 http://localhost:11434/v1）
+ * LOCAL_AI_MODELS：逗號分隔的模型名稱（第一個為預設）
+ */
+function readLocalModelConfig() {
+  const baseURL = process.env.LOCAL_AI_BASE_URL?.trim() || '';
+  const models = (process.env.LOCAL_AI_MODELS || '')
+    .split(',')
+    .map((model) => model.trim())
+    .filter(Boolean);
+
+  return {
+    baseURL,
+    apiKey: process.env.LOCAL_AI_API_KEY?.trim() || '',
+    providerName: process.env.LOCAL_AI_PROVIDER_NAME?.trim() || 'Local',
+    models: baseURL ? models : [],
+    // 設為 true 時所有分析類型都推薦本機模型（敏感資料不離開內部網路）
+    preferred: process.env.LOCAL_AI_PREFERRED === 'true',
+    maxTokens: parseInt(process.env.LOCAL_AI_MAX_TOKENS, 10) || 4096,
+  };
+}
+
 export class AIModelManager {
   constructor() {
     this.providers = new Map();
     this.geminiApiKey = process.env.GEMINI_API_KEY;
     this.openRouterApiKey = process.env.OPENROUTER_API_KEY;
+    this.localConfig = readLocalModelConfig();
     this.initializeProviders();
   }
 
@@ -74,12 +103,43 @@ export class AIModelManager {
         })
       );
     }
+
+    // 初始化本機 OpenAI 相容模型
+    for (const model of this.localConfig.models) {
+      this.providers.set(
+        `${LOCAL_MODEL_PREFIX}${model}`,
+        new OpenAICompatibleProvider({
+          baseURL: this.localConfig.baseURL,
+          apiKey: this.localConfig.apiKey,
+          providerName: this.localConfig.providerName,
+          model,
+          temperature: 0.7,
+          maxTokens: this.localConfig.maxTokens,
+        })
+      );
+    }
+  }
+
+  /**
+   * 將分析結果的 token 用量記到 AI 用量帳本
+   */
+  recordUsage(modelType, result, usageContext = {}) {
+    recordAIUsage({
+      ...usageContext,
+      model: modelType,
+      provider: result?.provider,
+      usage: result?.usage,
+      cost: result?.cost,
+    });
   }
 
   /**
    * 執行 AI 分析
+   * @param {string} modelType
+   * @param {Object} request
+   * @param {{userId?: string, feature?: string}} [usageContext] - 記錄用量時的使用者與功能
    */
-  async analyze(modelType, request) {
+  async analyze(modelType, request, usageContext) {
     const provider = this.providers.get(modelType);
 
     if (!provider) {
@@ -91,10 +151,12 @@ export class AIModelManager {
       throw new Error(`模型 ${modelType} 配置不正確。`);
     }
 
-    return provider.analyze(request);
+    const result = await provider.analyze(request);
+    this.recordUsage(modelType, result, usageContext);
+    return result;
   }
 
-  async streamAnalyze(modelType, request, handlers = {}) {
+  async streamAnalyze(modelType, request, handlers = {}, usageContext) {
     const provider = this.providers.get(modelType);
 
     if (!provider) {
@@ -107,11 +169,14 @@ export class AIModelManager {
     }
 
     if (typeof provider.streamAnalyze === 'function') {
-      return provider.streamAnalyze(request, handlers);
+      const result = await provider.streamAnalyze(request, handlers);
+      this.recordUsage(modelType, result, usageContext);
+      return result;
     }
 
     // Fallback：不支援串流時直接執行一次性分析
     const result = await provider.analyze(request);
+    this.recordUsage(modelType, result, usageContext);
     if (handlers?.onChunk && result?.text) {
       handlers.onChunk(result.text);
     }
@@ -194,8 +259,21 @@ export class AIModelManager {
       },
     ];
 
+    const localModels = this.localConfig.models.map((model) => ({
+      id: `${LOCAL_MODEL_PREFIX}${model}`,
+      name: model,
+      provider: this.localConfig.providerName,
+      description: '本機 / 內部部署模型，資料不會送出到外部服務，也可離線測試',
+      cost: 'low',
+      speedRating: 3,
+      qualityRating: 3,
+      bestFor: ['敏感資料', '離線測試', '內部部署'],
+      useOpenRouter: false,
+      isLocal: true,
+    }));
+
     // 只返回已配置的模型
-    return allModels.filter((model) => this.providers.has(model.id));
+    return [...allModels, ...localModels].filter((model) => this.providers.has(model.id));
   }
 
   /**
@@ -211,6 +289,7 @@ export class AIModelManager {
         apiKeyStatus: {
           gemini: !!this.geminiApiKey,
           openRouter: !!this.openRouterApiKey,
+          local: !!this.localConfig.baseURL,
         },
       };
     }
@@ -224,6 +303,7 @@ export class AIModelManager {
       apiKeyStatus: {
         gemini: !!this.geminiApiKey,
         openRouter: !!this.openRouterApiKey,
+        local: !!this.localConfig.baseURL,
       },
     };
   }
@@ -240,6 +320,12 @@ export class AIModelManager {
       comprehensive: 'gemini-pro-latest', // 綜合分析
     };
 
+    // 指定優先使用本機模型時，一律推薦第一個本機模型
+    const [defaultLocalModel] = this.localConfig.models;
+    if (this.localConfig.preferred && defaultLocalModel) {
+      return `${LOCAL_MODEL_PREFIX}${defaultLocalModel}`;
+    }
+
     const recommended = recommendations[analysisType];
 
     // 確保推薦的模型實際可用
@@ -30,6 +30,9 @@ export class GeminiProvider extends BaseAIProvider {
             temperature: request.temperature ?? this.config.temperature ?? 0.7,
             maxOutputTokens: request.maxTokens ?? this.config.maxTokens ?? 8192,
           },
+          config: {
+            abortSignal: request.abortSignal,
+          },
         },
         { preferredModel: this.config.model, logPrefix: '[GeminiProvider]' }
       );
@@ -0,0 +1,215 @@
+/**
+ * OpenAI 相容 Provider - 連接任何提供 /chat/completions 的端點
+ * 適用於本機或內部部署的 Ollama、llama.cpp server、vLLM，讓頻道資料不必送出到外部服務
+ */
+
+import { BaseAIProvider } from './BaseAIProvider.js';
+
+export class OpenAICompatibleProvider extends BaseAIProvider {
+  constructor(config) {
+    super(config);
+    this.baseURL = (config.baseURL || '').replace(/\/+$/, '');
+  }
+
+  buildMessages(request) {
+    const messages = [];
+    if (request.systemPrompt) {
+      messages.push({ role: 'system', content: request.systemPrompt });
+    }
+    messages.push({ role: 'user', content: request.prompt });
+    return messages;
+  }
+
+  buildHeaders() {
+    const headers = { 'Content-Type': 'application/json' };
+    // 本機伺服器通常不需要金鑰；vLLM 等可設定 --api-key
+    if (this.config.apiKey) {
+      headers.Authorization = `Bearer ${this.config.apiKey}`;
+    }
+    return headers;
+  }
+
+  buildBody(request, stream) {
+    return JSON.stringify({
+      model: this.config.model,
+      messages: this.buildMessages(request),
+      temperature: request.temperature ?? this.config.temperature ?? 0.7,
+      // 本機模型的 context 通常較小，以 LOCAL_AI_MAX_TOKENS 設定為準
+      max_tokens: this.config.maxTokens ?? request.maxTokens ?? 4096,
+      stream,
+      ...(stream ? { stream_options: { include_usage: true } } : {}),
+    });
+  }
+
+  async readError(response) {
+    const errorData = await response.json().catch(() => ({}));
+    return new Error(
+      errorData.error?.message || errorData.error || `${this.baseURL} 回應錯誤: ${response.status}`
+    );
+  }
+
+  toUsage(usage) {
+    if (!usage) return null;
+    return {
+      promptTokens: usage.prompt_tokens || 0,
+      completionTokens: usage.completion_tokens || 0,
+      totalTokens: usage.total_tokens || 0,
+    };
+  }
+
+  async analyze(request) {
+    try {
+      const response = await fetch(`${this.baseURL}/chat/completions`, {
+        method: 'POST',
+        headers: this.buildHeaders(),
+        body: this.buildBody(request, false),
+        signal: request.abortSignal,
+      });
+
+      if (!response.ok) {
+        throw await this.readError(response);
+      }
+
+      const data = await response.json();
+      const completion = data.choices?.[0];
+      const content = completion?.message?.content ?? '';
+
+      if (!content) {
+        console.warn(
+          `[OpenAICompatibleProvider] 收到空白內容 (finish_reason: ${completion?.finish_reason || 'unknown'})`
+        );
+      }
+
+      return {
+        text: content,
+        model: this.config.model,
+        provider: this.getProviderName(),
+        usage: this.toUsage(data.usage) || { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+        finishReason: completion?.finish_reason,
+      };
+    } catch (error) {
+      if (error?.name === 'AbortError') throw error;
+      console.error('[OpenAICompatibleProvider] Error:', error);
+      throw new Error(`本機模型錯誤: ${error.message}`);
+    }
+  }
+
+  supportsStreaming() {
+    return true;
+  }
+
+  async streamAnalyze(request, handlers = {}) {
+    try {
+      const response = await fetch(`${this.baseURL}/chat/completions`, {
+        method: 'POST',
+        headers: this.buildHeaders(),
+        body: this.buildBody(request, true),
+        signal: request.abortSignal,
+      });
+
+      if (!response.ok) {
+        throw await this.readError(response);
+      }
+
+      const reader = response.body?.getReader();
+      if (!reader) {
+        throw new Error('無法讀取串流回應');
+      }
+
+      const decoder = new TextDecoder('utf-8');
+      let buffer = '';
+      let aggregatedText = '';
+      let finishReason = null;
+      let usage = null;
+      let streamClosed = false;
+
+      const processLine = (line) => {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith('data:')) return;
+        const dataStr = trimmed.slice(5).trim();
+        if (!dataStr) return;
+        if (dataStr === '[DONE]') {
+          streamClosed = true;
+          return;
+        }
+
+        let payload;
+        try {
+          payload = JSON.parse(dataStr);
+        } catch (err) {
+          console.error('[OpenAICompatibleProvider] 無法解析串流資料:', err);
+          return;
+        }
+
+        if (payload.error) {
+          throw new Error(payload.error.message || '串流錯誤');
+        }
+
+        const choice = payload.choices?.[0];
+        const chunkText = choice?.delta?.content;
+        if (typeof chunkText === 'string' && chunkText) {
+          aggregatedText += chunkText;
+          handlers.onChunk?.(chunkText);
+        }
+        if (choice?.finish_reason) {
+          finishReason = choice.finish_reason;
+        }
+        if (payload.usage) {
+          usage = this.toUsage(payload.usage);
+        }
+      };
+
+      while (!streamClosed) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        let newlineIndex;
+        while (!streamClosed && (newlineIndex = buffer.indexOf('\n')) !== -1) {
+          const line = buffer.slice(0, newlineIndex);
+          buffer = buffer.slice(newlineIndex + 1);
+          processLine(line);
+        }
+      }
+      if (!streamClosed && buffer) {
+        processLine(buffer);
+      }
+
+      const finalResult = {
+        text: aggregatedText,
+        model: this.config.model,
+        provider: this.getProviderName(),
+        usage,
+        finishReason: finishReason || 'stop',
+      };
+
+      handlers.onComplete?.(finalResult);
+      return finalResult;
+    } catch (error) {
+      if (request.abortSignal?.aborted || error?.name === 'AbortError') {
+        const abortError = new Error('串流已中止');
+        abortError.name = 'AbortError';
+        throw abortError;
+      }
+      console.error('[OpenAICompatibleProvider] Streaming Error:', error);
+      throw new Error(`本機模型串流錯誤: ${error.message}`);
+    }
+  }
+
+  async isAvailable() {
+    return Boolean(this.baseURL && this.config.model);
+  }
+
+  getModelInfo() {
+    return {
+      name: this.config.model,
+      provider: this.getProviderName(),
+      cost: 'Low',
+      description: `OpenAI 相容端點（${this.baseURL}）`,
+    };
+  }
+
+  getProviderName() {
+    return this.config.providerName || 'Local';
+  }
+}
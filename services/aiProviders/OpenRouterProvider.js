@@ -48,6 +48,7 @@ export class OpenRouterProvider extends BaseAIProvider {
           max_output_tokens: maxTokens,
           route: 'fallback', // 如果模型不可用，自動降級
         }),
+        signal: request.abortSignal,
       });
 
       if (!response.ok) {
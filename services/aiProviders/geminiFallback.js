@@ -15,6 +15,8 @@
  * 註：gemini-2.0-flash 系列已於 2026-06-01 被 Google 停用，請勿放入 chain。
  */
 
+import { recordAIUsage, fromGeminiUsageMetadata } from '../aiUsageLedger.js';
+
 const DEFAULT_GEMINI_MODEL_CHAIN = [
   'gemini-flash-latest',
   'gemini-3.5-flash',
@@ -62,12 +64,14 @@ export function isGeminiOverloadError(error) {
  * 呼叫 generateContent，遇過載自動降級到 chain 的下一個模型。
  *
  * @param {object} client - GoogleGenAI 實例
- * @param {object} params - generateContent 參數（不需帶 model；由 chain 注入）
+ * @param {object} params - generateContent 參數（不需帶 model；由 chain 注入）；
+ *   config.abortSignal 觸發後會中止請求且不再降級
  * @param {object} [opts]
  * @param {string} [opts.preferredModel] - 優先嘗試的模型（排在 chain 最前）
  * @param {string[]} [opts.chain] - 自訂 chain（覆寫預設與環境變數）
  * @param {(info:{from:string,to:string,index:number,error:Error})=>void} [opts.onFallback] - 每次降級時呼叫（可更新進度）
  * @param {string} [opts.logPrefix]
+ * @param {{userId?:string, feature?:string}} [opts.usageContext] - 傳入時將 token 用量記到 AI 用量帳本
  * @returns {Promise<object>} 原始 generateContent 回應
  */
 export async function generateContentWithFallback(client, params, opts = {}) {
@@ -80,9 +84,19 @@ export async function generateContentWithFallback(client, params, opts = {}) {
     try {
       const response = await client.models.generateContent({ ...params, model });
       if (i > 0) console.log(`${logPrefix} ✅ 已改用備援模型 ${model} 成功`);
+      if (opts.usageContext) {
+        recordAIUsage({
+          ...opts.usageContext,
+          model,
+          provider: 'Google',
+          usage: fromGeminiUsageMetadata(response.usageMetadata),
+        });
+      }
       return response;
     } catch (error) {
       lastError = error;
+      // 呼叫端已取消（config.abortSignal）就不再換模型
+      if (params.config?.abortSignal?.aborted) throw error;
       const hasNext = i < chain.length - 1;
       if (hasNext && isGeminiOverloadError(error)) {
         const next = chain[i + 1];
@@ -135,6 +149,7 @@ export async function generateContentStreamWithFallback(client, params, handlers
       return { text: aggregatedText, model, lastChunk };
     } catch (error) {
       lastError = error;
+      if (params.config?.abortSignal?.aborted) throw error;
       const hasNext = i < chain.length - 1;
       // 已經吐過內容就不能再換模型重來，只能往上拋
       if (!emitted && hasNext && isGeminiOverloadError(error)) {
@@ -0,0 +1,304 @@
+/**
+ * AI 用量帳本
+ * 記錄每次 AI 呼叫（文章生成、中繼資料、頻道分析、AI 對話）的使用者、功能、模型、token 與預估費用，
+ * 並提供每日／每月統計與使用者預算檢查
+ */
+
+import crypto from 'crypto';
+import { createJsonFileStore } from './jsonFileStore.js';
+
+// 紀錄保留天數（超過時移除，每月統計只需要當月資料）
+const RETENTION_DAYS = Math.max(parseInt(process.env.AI_USAGE_RETENTION_DAYS, 10) || 90, 31);
+
+// 未設定個人預算時套用的預設預算（美元，0 或未設定 = 不限制）
+const DEFAULT_DAILY_BUDGET_USD = parseFloat(process.env.AI_DAILY_BUDGET_USD) || 0;
+const DEFAULT_MONTHLY_BUDGET_USD = parseFloat(process.env.AI_MONTHLY_BUDGET_USD) || 0;
+
+// 可調整個人預算的使用者（JWT email 或頻道 ID，逗號分隔）
+const BUDGET_ADMINS = (process.env.AI_BUDGET_ADMINS || '')
+  .split(',')
+  .map((id) => id.trim().toLowerCase())
+  .filter(Boolean);
+
+/**
+ * 預設單價（美元 / 每百萬 token），可用 AI_MODEL_PRICING（JSON）覆寫或新增：
+ * AI_MODEL_PRICING={"gemini-flash-latest":{"input":0.3,"output":2.5}}
+ */
+const DEFAULT_MODEL_PRICING = {
+  'gemini-flash-latest': { input: 0.3, output: 2.5 },
+  'gemini-3.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-pro-latest': { input: 1.25, output: 10 },
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'anthropic/claude-sonnet-4.5': { input: 3, output: 15 },
+  'openai/gpt-5.1': { input: 1.25, output: 10 },
+  'x-ai/grok-4': { input: 3, output: 15 },
+};
+
+function readPricingOverrides() {
+  if (!process.env.AI_MODEL_PRICING) return {};
+  try {
+    return JSON.parse(process.env.AI_MODEL_PRICING);
+  } catch (error) {
+    console.warn('[AIUsage] AI_MODEL_PRICING 不是有效的 JSON，使用預設單價:', error.message);
+    return {};
+  }
+}
+
+const MODEL_PRICING = { ...DEFAULT_MODEL_PRICING, ...readPricingOverrides() };
+
+const file = createJsonFileStore('ai-usage.json', { entries: [], budgets: {} });
+const initial = file.read();
+let entries = Array.isArray(initial.entries) ? initial.entries : [];
+const budgets = new Map(Object.entries(initial.budgets || {}));
+
+const persist = () => {
+  file.write({ entries, budgets: Object.fromEntries(budgets) });
+};
+
+/** 以伺服器時區取得日期字串 YYYY-MM-DD */
+function toDateKey(timestamp) {
+  const date = new Date(timestamp);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * 依單價表預估費用，本機模型不計費；查不到單價時回傳 null
+ * @param {string} model
+ * @param {{ promptTokens: number, completionTokens: number }} usage
+ * @returns {number | null}
+ */
+export function estimateAICost(model, usage) {
+  if (!model) return null;
+  if (model.startsWith('local/')) return 0;
+  const pricing = MODEL_PRICING[model];
+  if (!pricing) return null;
+  return (usage.promptTokens * (pricing.input || 0) + usage.completionTokens * (pricing.output || 0)) / 1_000_000;
+}
+
+/**
+ * 將 Gemini 的 usageMetadata 轉成帳本使用的格式
+ * @param {object} [usageMetadata]
+ */
+export function fromGeminiUsageMetadata(usageMetadata) {
+  return {
+    promptTokens: usageMetadata?.promptTokenCount || 0,
+    completionTokens: usageMetadata?.candidatesTokenCount || 0,
+    totalTokens: usageMetadata?.totalTokenCount || 0,
+  };
+}
+
+/**
+ * 記錄一次 AI 呼叫
+ * @param {object} record
+ * @param {string} [record.userId] - 呼叫者（JWT email 或頻道 ID）
+ * @param {string} [record.feature] - 功能，例如 article / video-metadata / channel-analysis / ai-chat
+ * @param {string} record.model - 實際使用的模型
+ * @param {string} [record.provider]
+ * @param {{ promptTokens?: number, completionTokens?: number, totalTokens?: number }} [record.usage]
+ * @param {number} [record.cost] - 供應商回報的實際費用（美元），有值時優先於預估
+ * @returns {object} 新增的紀錄
+ */
+export function recordAIUsage({ userId, feature, model, provider, usage, cost }) {
+  const promptTokens = usage?.promptTokens || 0;
+  const completionTokens = usage?.completionTokens || 0;
+  const normalizedUsage = {
+    promptTokens,
+    completionTokens,
+    totalTokens: usage?.totalTokens || promptTokens + completionTokens,
+  };
+  const hasProviderCost = typeof cost === 'number' && Number.isFinite(cost);
+  const costUsd = hasProviderCost ? cost : estimateAICost(model, normalizedUsage);
+
+  const entry = {
+    id: `ai_${Date.now()}_${crypto.randomBytes(4).toString('hex')}`,
+    userId: userId || null,
+    feature: feature || 'other',
+    model: model || 'unknown',
+    provider: provider || null,
+    ...normalizedUsage,
+    costUsd,
+    costSource: hasProviderCost ? 'provider' : costUsd === null ? 'unknown' : 'estimate',
+    createdAt: Date.now(),
+  };
+
+  const cutoff = Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000;
+  entries = entries.filter((item) => item.createdAt >= cutoff);
+  entries.push(entry);
+  persist();
+
+  console.log(
+    `[AIUsage] ${entry.feature} / ${entry.model}：${entry.totalTokens} tokens` +
+      `${costUsd === null ? '（無單價）' : `，約 $${costUsd.toFixed(4)}`} by ${entry.userId || 'unknown'}`
+  );
+  return entry;
+}
+
+function emptyTotals() {
+  return { calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0, unpricedCalls: 0 };
+}
+
+function addToTotals(totals, entry) {
+  totals.calls += 1;
+  totals.promptTokens += entry.promptTokens;
+  totals.completionTokens += entry.completionTokens;
+  totals.totalTokens += entry.totalTokens;
+  if (entry.costUsd === null) {
+    totals.unpricedCalls += 1;
+  } else {
+    totals.costUsd += entry.costUsd;
+  }
+  return totals;
+}
+
+function groupTotals(list, key) {
+  const groups = {};
+  for (const entry of list) {
+    const group = entry[key] || 'unknown';
+    groups[group] = addToTotals(groups[group] || emptyTotals(), entry);
+  }
+  return groups;
+}
+
+function summarize(list) {
+  return {
+    totals: list.reduce(addToTotals, emptyTotals()),
+    byFeature: groupTotals(list, 'feature'),
+    byModel: groupTotals(list, 'model'),
+    byUser: groupTotals(list, 'userId'),
+  };
+}
+
+/**
+ * 取得用量統計
+ * @param {object} [options]
+ * @param {string} [options.userId] - 只統計指定使用者
+ * @param {number} [options.days=30] - 每日走勢的天數
+ * @param {number} [options.now=Date.now()]
+ * @returns {object} { today, month, daily, recent }
+ */
+export function getAIUsageSummary({ userId, days = 30, now = Date.now() } = {}) {
+  const scoped = userId ? entries.filter((entry) => entry.userId === userId) : entries;
+  const todayKey = toDateKey(now);
+  const monthKey = todayKey.slice(0, 7);
+
+  const daily = [];
+  for (let offset = Math.min(Math.max(days, 1), RETENTION_DAYS) - 1; offset >= 0; offset--) {
+    const dateKey = toDateKey(now - offset * 24 * 60 * 60 * 1000);
+    daily.push({ date: dateKey, ...emptyTotals() });
+  }
+  const dailyByDate = new Map(daily.map((day) => [day.date, day]));
+  for (const entry of scoped) {
+    const day = dailyByDate.get(toDateKey(entry.createdAt));
+    if (day) addToTotals(day, entry);
+  }
+
+  return {
+    today: { date: todayKey, ...summarize(scoped.filter((entry) => toDateKey(entry.createdAt) === todayKey)) },
+    month: { month: monthKey, ...summarize(scoped.filter((entry) => toDateKey(entry.createdAt).startsWith(monthKey))) },
+    daily,
+    recent: scoped.slice(-50).reverse(),
+  };
+}
+
+/**
+ * 取得使用者的預算設定（個人設定優先，否則套用預設）
+ * @param {string} userId
+ * @returns {{ dailyUsd: number | null, monthlyUsd: number | null, isCustom: boolean }}
+ */
+export function getAIBudget(userId) {
+  const custom = userId ? budgets.get(userId) : null;
+  if (custom) {
+    return { dailyUsd: custom.dailyUsd ?? null, monthlyUsd: custom.monthlyUsd ?? null, isCustom: true };
+  }
+  return {
+    dailyUsd: DEFAULT_DAILY_BUDGET_USD || null,
+    monthlyUsd: DEFAULT_MONTHLY_BUDGET_USD || null,
+    isCustom: false,
+  };
+}
+
+/**
+ * 檢查使用者是否已超出預算
+ * @param {string} userId
+ * @param {number} [now=Date.now()]
+ * @returns {{ budget: object, dailySpentUsd: number, monthlySpentUsd: number, exceeded: 'daily' | 'monthly' | null }}
+ */
+export function getAIBudgetStatus(userId, now = Date.now()) {
+  const budget = getAIBudget(userId);
+  const todayKey = toDateKey(now);
+  const monthKey = todayKey.slice(0, 7);
+
+  let dailySpentUsd = 0;
+  let monthlySpentUsd = 0;
+  for (const entry of entries) {
+    if (entry.userId !== userId || entry.costUsd === null) continue;
+    const dateKey = toDateKey(entry.createdAt);
+    if (!dateKey.startsWith(monthKey)) continue;
+    monthlySpentUsd += entry.costUsd;
+    if (dateKey === todayKey) dailySpentUsd += entry.costUsd;
+  }
+
+  let exceeded = null;
+  if (budget.dailyUsd && dailySpentUsd >= budget.dailyUsd) exceeded = 'daily';
+  else if (budget.monthlyUsd && monthlySpentUsd >= budget.monthlyUsd) exceeded = 'monthly';
+
+  return { budget, dailySpentUsd, monthlySpentUsd, exceeded };
+}
+
+/**
+ * 列出所有個人預算設定與預設值
+ */
+export function listAIBudgets() {
+  return {
+    defaults: {
+      dailyUsd: DEFAULT_DAILY_BUDGET_USD || null,
+      monthlyUsd: DEFAULT_MONTHLY_BUDGET_USD || null,
+    },
+    users: Object.fromEntries(budgets),
+  };
+}
+
+/**
+ * 是否可調整預算（需列在 AI_BUDGET_ADMINS）
+ * @param {string} userId
+ */
+export function canManageAIBudgets(userId) {
+  return Boolean(userId) && BUDGET_ADMINS.includes(String(userId).toLowerCase());
+}
+
+function normalizeBudgetValue(value) {
+  if (value === null || value === undefined || value === '') return null;
+  const amount = Number(value);
+  if (!Number.isFinite(amount) || amount < 0) {
+    throw new Error('Budget must be a non-negative number or null');
+  }
+  return amount;
+}
+
+/**
+ * 設定或清除使用者的個人預算
+ * @param {string} userId
+ * @param {{ dailyUsd?: number | null, monthlyUsd?: number | null } | null} budget - 傳入 null 時改回預設預算
+ * @returns {object} 套用後的預算
+ * @throws {Error} 金額格式不正確時
+ */
+export function setAIBudget(userId, budget) {
+  if (!userId) throw new Error('userId is required');
+
+  if (budget === null) {
+    budgets.delete(userId);
+  } else {
+    budgets.set(userId, {
+      dailyUsd: normalizeBudgetValue(budget.dailyUsd),
+      monthlyUsd: normalizeBudgetValue(budget.monthlyUsd),
+      updatedAt: Date.now(),
+    });
+  }
+  persist();
+
+  console.log(`[AIUsage] 已更新 ${userId} 的預算`);
+  return getAIBudget(userId);
+}
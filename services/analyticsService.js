@@ -5,6 +5,8 @@
 
 import { google } from 'googleapis';
 import { recordQuota as recordQuotaServer } from './quotaTracker.js';
+import { rankVideosByPriority, DEFAULT_PRIORITY_RULE_SET } from './priorityRules.js';
+import { parseIsoDurationSeconds } from './youtubeChapters.js';
 
 const YOUTUBE_QUOTA_COST = {
   channelsList: 1,
@@ -172,12 +174,13 @@ async function getAllChannelVideos(youtube, channelId, cutoffDate) {
 
       if (videosInPage.length > 0) {
         const videoIds = videosInPage.map(item => item.snippet.resourceId.videoId).join(',');
+        // contentDetails 提供影片長度，供優先級規則區分 Shorts 與一般影片
         const videoDetailsResponse = await youtube.videos.list({
-          part: 'snippet',
+          part: 'snippet,contentDetails',
           id: videoIds,
         });
-        recordQuotaServer('youtube.videos.list', YOUTUBE_QUOTA_COST.playlistItemsSnippet, { // Cost is similar to playlistItems
-          part: 'snippet',
+        recordQuotaServer('youtube.videos.list', YOUTUBE_QUOTA_COST.playlistItemsSnippet * 2, { // snippet + contentDetails，每個 part 與 playlistItems 相同
+          part: 'snippet,contentDetails',
           context: 'analytics:getAllChannelVideos:details',
           caller: 'analyticsService.getAllChannelVideos',
         });
@@ -185,7 +188,7 @@ async function getAllChannelVideos(youtube, channelId, cutoffDate) {
         const videoDetailsMap = new Map();
         if (videoDetailsResponse.data.items) {
           videoDetailsResponse.data.items.forEach(video => {
-            videoDetailsMap.set(video.id, video.snippet);
+            videoDetailsMap.set(video.id, { ...video.snippet, duration: video.contentDetails?.duration });
           });
         }
 
@@ -200,6 +203,7 @@ async function getAllChannelVideos(youtube, channelId, cutoffDate) {
               tags: details.tags || [],
               publishedAt: details.publishedAt,
               thumbnail: details.thumbnails?.medium?.url || '',
+              durationSeconds: parseIsoDurationSeconds(details.duration),
             });
             addedCount++;
           }
@@ -425,6 +429,7 @@ async function getVideosAnalyticsData(youtubeAnalytics, channelId, videos, start
         title: video.title,
         publishedAt: video.publishedAt,
         thumbnail: video.thumbnail,
+        durationSeconds: video.durationSeconds,
         metrics: {
           views: totalViews,
           estimatedMinutesWatched: estimatedMinutes,
@@ -463,63 +468,11 @@ async function getVideosAnalyticsData(youtubeAnalytics, channelId, videos, start
 /**
  * 計算影片更新優先級
  * @param {Array} analyticsData - 影片分析數據
- * @returns {Array} 排序後的前 50 名建議更新影片
+ * @param {{ rules: Array, maxResults: number }} [ruleSet] - 頻道的優先級規則（未提供時使用預設規則）
+ * @returns {Array} 排序後分數最高的建議更新影片（預設前 50 名）
  */
-export function calculateUpdatePriority(analyticsData) {
-  const scored = analyticsData.map(video => {
-    let score = 0;
-    let reasons = [];
-
-    const { metrics, trafficSources, impressions } = video;
-    const views = metrics.views;
-    const avgViewPercentage = parseFloat(metrics.averageViewPercentage);
-    const ctr = impressions.ctr;
-    const searchPercentage = parseFloat(trafficSources.searchPercentage);
-    const likeRatio = parseFloat(metrics.likeRatio);
-
-    // 規則 1: CTR 過低且有曝光（高優先）
-    if (ctr < 5 && impressions.impressions > 1000) {
-      score += 50;
-      reasons.push(`CTR 過低 (${ctr.toFixed(2)}%)，但曝光量高 (${impressions.impressions})`);
-    }
-
-    // 規則 2: 平均觀看時長過低（高優先）
-    if (avgViewPercentage < 40 && views > 100) {
-      score += 40;
-      reasons.push(`觀看時長過低 (${avgViewPercentage}%)，可能標題與內容不符`);
-    }
-
-    // 規則 3: 搜尋流量佔比高但 CTR 低（中優先）
-    if (searchPercentage > 30 && ctr < 8) {
-      score += 30;
-      reasons.push(`搜尋流量佔比高 (${searchPercentage}%)，SEO 有潛力`);
-    }
-
-    // 規則 4: 讚數比例過低（低優先）
-    if (likeRatio < 1 && views > 200) {
-      score += 20;
-      reasons.push(`讚數比例過低 (${likeRatio}%)，內容品質可能需改善`);
-    }
-
-    // 規則 5: 近期觀看次數過低（排除條件）
-    if (views < 50) {
-      score = 0;
-      reasons = ['近期觀看次數過低，不建議更新'];
-    }
-
-    return {
-      ...video,
-      priorityScore: score,
-      updateReasons: reasons,
-    };
-  });
-
-  // 排序並取前 50 名
-  const sorted = scored
-    .filter(v => v.priorityScore > 0)
-    .sort((a, b) => b.priorityScore - a.priorityScore)
-    .slice(0, 50);
-
+export function calculateUpdatePriority(analyticsData, ruleSet = DEFAULT_PRIORITY_RULE_SET) {
+  const sorted = rankVideosByPriority(analyticsData, ruleSet);
   console.log(`[Analytics] 計算完成，找到 ${sorted.length} 支建議更新的影片`);
   return sorted;
 }
@@ -689,3 +642,87 @@ export async function getVideoExternalTrafficDetails(
     throw error;
   }
 }
+
+/**
+ * 取得單一影片的每日指標（觀看次數與曝光點擊）
+ * CTR 與 getVideosAnalyticsData 相同，來自 cardImpressions / cardClicks；頻道沒有此數據時為 0
+ * @param {string} accessToken - YouTube OAuth access token
+ * @param {string} channelId - YouTube 頻道 ID
+ * @param {string} videoId - 影片 ID
+ * @param {string} startDate - 開始日期（YYYY-MM-DD）
+ * @param {string} endDate - 結束日期（YYYY-MM-DD）
+ * @returns {Promise<Array<{ date: string, views: number, estimatedMinutesWatched: number, impressions: number, clicks: number }>>}
+ */
+export async function getVideoDailyMetrics(accessToken, channelId, videoId, startDate, endDate) {
+  try {
+    const oauth2Client = new google.auth.OAuth2();
+    oauth2Client.setCredentials({ access_token: accessToken });
+
+    const youtubeAnalytics = google.youtubeAnalytics({ version: 'v2', auth: oauth2Client });
+
+    console.log(`[DailyMetrics] 查詢影片 ${videoId} 的每日指標 (${startDate} ~ ${endDate})`);
+
+    const days = new Map();
+    const getDay = (date) => {
+      if (!days.has(date)) {
+        days.set(date, { date, views: 0, estimatedMinutesWatched: 0, impressions: 0, clicks: 0 });
+      }
+      return days.get(date);
+    };
+
+    const basicReport = await youtubeAnalytics.reports.query({
+      ids: `channel==${channelId}`,
+      startDate,
+      endDate,
+      metrics: 'views,estimatedMinutesWatched',
+      dimensions: 'day',
+      filters: `video==${videoId}`,
+      sort: 'day',
+    });
+    recordQuotaServer('youtubeAnalytics.reports.query', YOUTUBE_QUOTA_COST.analyticsReportsQuery, {
+      metrics: 'views,estimatedMinutesWatched',
+      dimensions: 'day',
+      context: 'dailyMetrics',
+      videoId,
+      caller: 'analyticsService.getVideoDailyMetrics',
+    });
+
+    (basicReport.data.rows || []).forEach(row => {
+      const day = getDay(row[0]);
+      day.views = Number(row[1]) || 0;
+      day.estimatedMinutesWatched = Number(row[2]) || 0;
+    });
+
+    try {
+      const impressionReport = await youtubeAnalytics.reports.query({
+        ids: `channel==${channelId}`,
+        startDate,
+        endDate,
+        metrics: 'cardImpressions,cardClicks',
+        dimensions: 'day',
+        filters: `video==${videoId}`,
+        sort: 'day',
+      });
+      recordQuotaServer('youtubeAnalytics.reports.query', YOUTUBE_QUOTA_COST.analyticsReportsQuery, {
+        metrics: 'cardImpressions,cardClicks',
+        dimensions: 'day',
+        context: 'dailyImpressions',
+        videoId,
+        caller: 'analyticsService.getVideoDailyMetrics',
+      });
+
+      (impressionReport.data.rows || []).forEach(row => {
+        const day = getDay(row[0]);
+        day.impressions = Number(row[1]) || 0;
+        day.clicks = Number(row[2]) || 0;
+      });
+    } catch (error) {
+      console.log(`[DailyMetrics] 影片 ${videoId} 曝光數據不可用（正常，部分頻道沒有此數據）`);
+    }
+
+    return Array.from(days.values()).sort((a, b) => a.date.localeCompare(b.date));
+  } catch (error) {
+    console.error('[DailyMetrics] 錯誤:', error.message);
+    throw error;
+  }
+}
@@ -0,0 +1,218 @@
+/**
+ * 頻道數據歷史快照同步
+ * 從 YouTube Analytics API 抓取每日的頻道與影片數據，寫入 analyticsSnapshotStore
+ * 已同步且數據已定案的日期會略過，因此每天執行一次只需補上最近幾天
+ */
+
+import { google } from 'googleapis';
+import { recordQuota as recordQuotaServer } from './quotaTracker.js';
+import { loadFromGist } from './videoCacheService.js';
+import * as snapshotStore from './analyticsSnapshotStore.js';
+
+// Analytics API 數據比 YT Studio 晚 1~3 天，最晚僅能查到「今天往前 3 天」
+export const ANALYTICS_DATA_DELAY_DAYS = 3;
+export const DEFAULT_SYNC_DAYS = 30;
+
+const ANALYTICS_QUERY_COST = 1;
+const VIDEO_BATCH_SIZE = 200;
+// 沒有影片快取時，退而求其次抓每天觀看最高的影片
+const TOP_VIDEOS_LIMIT = 200;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const METRICS_PARAM = snapshotStore.SNAPSHOT_METRICS.join(',');
+
+const formatDate = (date) => date.toISOString().slice(0, 10);
+
+/**
+ * Analytics API 目前能查到的最後一天
+ * @returns {string} YYYY-MM-DD
+ */
+export function getLatestAvailableDate() {
+  const date = new Date();
+  date.setUTCDate(date.getUTCDate() - ANALYTICS_DATA_DELAY_DAYS);
+  return formatDate(date);
+}
+
+/**
+ * 整理同步的日期範圍（預設為最近 DEFAULT_SYNC_DAYS 天，結束日不超過 API 可查的最後一天）
+ * @param {string} [startDate]
+ * @param {string} [endDate]
+ * @returns {{ startDate: string, endDate: string }}
+ */
+export function resolveSyncRange(startDate, endDate) {
+  for (const value of [startDate, endDate]) {
+    if (value && !DATE_PATTERN.test(value)) {
+      throw new Error(`日期格式不正確：${value}（需為 YYYY-MM-DD）`);
+    }
+  }
+
+  const latest = getLatestAvailableDate();
+  const end = endDate && endDate < latest ? endDate : latest;
+  let start = startDate;
+  if (!start) {
+    const date = new Date(`${end}T00:00:00Z`);
+    date.setUTCDate(date.getUTCDate() - (DEFAULT_SYNC_DAYS - 1));
+    start = formatDate(date);
+  }
+  if (start > end) {
+    throw new Error('開始日期不能晚於結束日期');
+  }
+  return { startDate: start, endDate: end };
+}
+
+/**
+ * 載入 Gist 影片快取（未設定或載入失敗時回傳 null）
+ * @returns {Promise<Array<object> | null>}
+ */
+export async function loadCachedVideos() {
+  const gistId = process.env.GITHUB_GIST_ID;
+  if (!gistId) return null;
+  try {
+    const cache = await loadFromGist(gistId, process.env.GITHUB_GIST_TOKEN);
+    return cache?.videos?.length ? cache.videos : null;
+  } catch (error) {
+    console.warn('[AnalyticsSnapshot] ⚠️ 無法載入 Gist 影片快取:', error.message);
+    return null;
+  }
+}
+
+function toRowsByKey(rows) {
+  return Object.fromEntries((rows || []).map(([key, ...values]) => [key, values]));
+}
+
+/**
+ * 同步日期範圍內的頻道與影片每日數據
+ * @param {object} options
+ * @param {string} options.accessToken
+ * @param {string} options.channelId
+ * @param {string} [options.startDate] - YYYY-MM-DD，預設為最近 DEFAULT_SYNC_DAYS 天
+ * @param {string} [options.endDate] - YYYY-MM-DD，預設為 API 可查的最後一天
+ * @param {boolean} [options.includeVideos] - 是否同步每支影片的數據（每天需要 1 次以上查詢）
+ * @param {boolean} [options.force] - 忽略已同步的日期，全部重新抓取
+ * @param {AbortSignal} [options.signal]
+ * @param {(done: number, total: number, message: string) => void} [options.onProgress]
+ * @returns {Promise<{ startDate: string, endDate: string, channelDaysSynced: number, videoDaysSynced: number, queries: number, videoSource: 'gist' | 'top-videos' | null }>}
+ */
+export async function syncAnalyticsSnapshots({
+  accessToken,
+  channelId,
+  startDate,
+  endDate,
+  includeVideos = true,
+  force = false,
+  signal,
+  onProgress,
+}) {
+  if (!accessToken) throw new Error('缺少 accessToken');
+  if (!snapshotStore.isValidSnapshotChannelId(channelId)) throw new Error('頻道 ID 格式不正確');
+
+  const range = resolveSyncRange(startDate, endDate);
+  const dates = snapshotStore.enumerateDates(range.startDate, range.endDate);
+
+  const oauth2Client = new google.auth.OAuth2();
+  oauth2Client.setCredentials({ access_token: accessToken });
+  const youtubeAnalytics = google.youtubeAnalytics({ version: 'v2', auth: oauth2Client });
+
+  let queries = 0;
+  const query = async (params, context) => {
+    signal?.throwIfAborted();
+    const response = await youtubeAnalytics.reports.query(
+      { ids: `channel==${channelId}`, metrics: METRICS_PARAM, ...params },
+      { signal }
+    );
+    queries++;
+    recordQuotaServer('youtubeAnalytics.reports.query', ANALYTICS_QUERY_COST, {
+      context: `analyticsSnapshot:${context}`,
+      dateRange: `${params.startDate} ~ ${params.endDate}`,
+      caller: 'analyticsSnapshotService.syncAnalyticsSnapshots',
+    });
+    return response.data.rows || [];
+  };
+
+  // 頻道每日數據：一次查詢涵蓋所有待同步的日期（流量來源另需一次）
+  const channelDates = snapshotStore.getDatesToSync(channelId, dates, 'channel', force);
+  if (channelDates.length > 0) {
+    onProgress?.(0, 1, `同步頻道每日數據（${channelDates.length} 天）...`);
+    const rows = await query(
+      { startDate: channelDates[0], endDate: channelDates[channelDates.length - 1], dimensions: 'day', sort: 'day' },
+      'channel-daily'
+    );
+    snapshotStore.saveChannelDays(channelId, channelDates, toRowsByKey(rows));
+
+    // 流量來源組成（異常偵測用）
+    const trafficRows = await query(
+      {
+        startDate: channelDates[0],
+        endDate: channelDates[channelDates.length - 1],
+        dimensions: 'day,insightTrafficSourceType',
+        metrics: 'views',
+        sort: 'day',
+      },
+      'traffic-daily'
+    );
+    const sourcesByDate = {};
+    for (const [date, source, views] of trafficRows) {
+      (sourcesByDate[date] ||= {})[source] = Number(views) || 0;
+    }
+    snapshotStore.saveTrafficDays(channelId, channelDates, sourcesByDate);
+  }
+
+  let videoDaysSynced = 0;
+  let videoSource = null;
+  const videoDates = includeVideos ? snapshotStore.getDatesToSync(channelId, dates, 'videos', force) : [];
+  if (videoDates.length > 0) {
+    const cachedVideos = await loadCachedVideos();
+    videoSource = cachedVideos ? 'gist' : 'top-videos';
+    if (!cachedVideos) {
+      console.log(`[AnalyticsSnapshot] ⚠️ 沒有影片快取，每天只記錄觀看最高的 ${TOP_VIDEOS_LIMIT} 支影片`);
+    }
+
+    for (const [index, date] of videoDates.entries()) {
+      onProgress?.(index, videoDates.length, `同步影片數據 ${date}（${index + 1}/${videoDates.length}）...`);
+
+      let rows = [];
+      if (cachedVideos) {
+        // 只查當天已發布的影片，以指定影片的報表取得完整指標
+        const videoIds = cachedVideos
+          .filter((video) => !video.publishedAt || video.publishedAt.slice(0, 10) <= date)
+          .map((video) => video.videoId || video.id)
+          .filter(Boolean);
+        for (let i = 0; i < videoIds.length; i += VIDEO_BATCH_SIZE) {
+          const batch = videoIds.slice(i, i + VIDEO_BATCH_SIZE);
+          rows.push(
+            ...(await query(
+              {
+                startDate: date,
+                endDate: date,
+                dimensions: 'video',
+                filters: `video==${batch.join(',')}`,
+                maxResults: VIDEO_BATCH_SIZE,
+              },
+              'video-daily'
+            ))
+          );
+        }
+      } else {
+        rows = await query(
+          { startDate: date, endDate: date, dimensions: 'video', sort: '-views', maxResults: TOP_VIDEOS_LIMIT },
+          'top-videos-daily'
+        );
+      }
+
+      snapshotStore.saveVideoDay(channelId, date, toRowsByKey(rows), { partial: !cachedVideos });
+      videoDaysSynced++;
+    }
+  }
+
+  console.log(
+    `[AnalyticsSnapshot] ✅ ${channelId} ${range.startDate} ~ ${range.endDate}：頻道 ${channelDates.length} 天、影片 ${videoDaysSynced} 天（${queries} 次查詢）`
+  );
+
+  return {
+    ...range,
+    channelDaysSynced: channelDates.length,
+    videoDaysSynced,
+    queries,
+    videoSource,
+  };
+}
@@ -0,0 +1,317 @@
+/**
+ * 頻道數據歷史快照（依頻道保存每日的頻道與影片數據）
+ * 讓儀表板與影片列表查詢長時間範圍時不必重打 YouTube Analytics API，也保留超過 API 可查範圍的歷史
+ *
+ * 檔案：DATA_DIR/analytics-snapshots/<channelId>.json
+ * 數值以陣列保存（欄位順序同 SNAPSHOT_METRICS），避免每天每支影片重複寫入欄位名稱
+ */
+
+import { createJsonFileStore } from './jsonFileStore.js';
+
+// 與 YouTube Analytics API 的 metrics 參數順序相同
+export const SNAPSHOT_METRICS = [
+  'views',
+  'estimatedMinutesWatched',
+  'averageViewDuration',
+  'averageViewPercentage',
+  'likes',
+  'dislikes',
+  'comments',
+  'shares',
+  'subscribersGained',
+  'subscribersLost',
+];
+
+// 平均值欄位：彙總時依觀看次數加權
+const WEIGHTED_METRICS = new Set(['averageViewDuration', 'averageViewPercentage']);
+
+// 同步時距離該日不足這些天數的數據仍可能被 YouTube 修正，之後同步會再更新
+const SETTLE_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_MISSING_DATES = 20;
+
+const CHANNEL_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+// channelId -> { file, data }
+const openSnapshots = new Map();
+
+/**
+ * @param {unknown} channelId
+ * @returns {boolean}
+ */
+export function isValidSnapshotChannelId(channelId) {
+  return typeof channelId === 'string' && CHANNEL_ID_PATTERN.test(channelId);
+}
+
+function loadSnapshot(channelId) {
+  if (!isValidSnapshotChannelId(channelId)) {
+    throw new Error('頻道 ID 格式不正確');
+  }
+  let snapshot = openSnapshots.get(channelId);
+  if (!snapshot) {
+    const file = createJsonFileStore(`analytics-snapshots/${channelId}.json`, {
+      channelId,
+      channelDays: {},
+      videoDays: {},
+      // 只記錄了當天觀看最高的影片（沒有影片快取時），不能用來彙總指定影片
+      partialVideoDays: {},
+      // 日期 -> { 流量來源類型: 觀看次數 }
+      trafficDays: {},
+      syncedAt: { channel: {}, videos: {} },
+      updatedAt: null,
+    });
+    snapshot = { file, data: file.read() };
+    openSnapshots.set(channelId, snapshot);
+  }
+  return snapshot;
+}
+
+function persist(snapshot) {
+  snapshot.data.updatedAt = Date.now();
+  snapshot.file.write(snapshot.data);
+}
+
+/**
+ * 列出日期範圍內的每一天（含頭尾）
+ * @param {string} startDate - YYYY-MM-DD
+ * @param {string} endDate - YYYY-MM-DD
+ * @returns {string[]}
+ */
+export function enumerateDates(startDate, endDate) {
+  const start = Date.parse(`${startDate}T00:00:00Z`);
+  const end = Date.parse(`${endDate}T00:00:00Z`);
+  if (!Number.isFinite(start) || !Number.isFinite(end) || start > end) return [];
+  const dates = [];
+  for (let time = start; time <= end; time += DAY_MS) {
+    dates.push(new Date(time).toISOString().slice(0, 10));
+  }
+  return dates;
+}
+
+function toMetricArray(values) {
+  return SNAPSHOT_METRICS.map((_, index) => Number(values[index]) || 0);
+}
+
+function toMetricObject(values) {
+  return Object.fromEntries(SNAPSHOT_METRICS.map((metric, index) => [metric, values[index] || 0]));
+}
+
+/**
+ * 彙總多天（或多支影片）的數值：次數加總，平均值依觀看次數加權
+ * @param {number[][]} rows
+ * @returns {Record<string, number>}
+ */
+function sumMetricRows(rows) {
+  const totals = SNAPSHOT_METRICS.map(() => 0);
+  const viewsIndex = SNAPSHOT_METRICS.indexOf('views');
+  for (const row of rows) {
+    SNAPSHOT_METRICS.forEach((metric, index) => {
+      totals[index] += WEIGHTED_METRICS.has(metric) ? (row[index] || 0) * (row[viewsIndex] || 0) : row[index] || 0;
+    });
+  }
+  const views = totals[viewsIndex];
+  SNAPSHOT_METRICS.forEach((metric, index) => {
+    if (WEIGHTED_METRICS.has(metric)) {
+      totals[index] = views > 0 ? totals[index] / views : 0;
+    }
+  });
+  return toMetricObject(totals);
+}
+
+function buildCoverage(dates, syncedDates, partialDates = {}) {
+  const missing = dates.filter((date) => !syncedDates[date]);
+  const partialDays = dates.filter((date) => syncedDates[date] && partialDates[date]).length;
+  return {
+    totalDays: dates.length,
+    syncedDays: dates.length - missing.length,
+    partialDays,
+    missingDates: missing.slice(0, MAX_MISSING_DATES),
+    complete: dates.length > 0 && missing.length === 0 && partialDays === 0,
+  };
+}
+
+/**
+ * 篩選需要同步的日期：尚未同步，或上次同步時數據可能還沒定案
+ * @param {string} channelId
+ * @param {string[]} dates
+ * @param {'channel' | 'videos'} kind
+ * @param {boolean} [force]
+ * @returns {string[]}
+ */
+export function getDatesToSync(channelId, dates, kind, force = false) {
+  if (force) return dates;
+  const syncedAt = loadSnapshot(channelId).data.syncedAt[kind];
+  return dates.filter((date) => {
+    const lastSynced = syncedAt[date];
+    return !lastSynced || lastSynced < Date.parse(`${date}T00:00:00Z`) + SETTLE_DAYS * DAY_MS;
+  });
+}
+
+/**
+ * 寫入頻道每日數據；rowsByDate 沒有的日期視為當天沒有數據（全部為 0）
+ * @param {string} channelId
+ * @param {string[]} dates - 這次同步的日期
+ * @param {Record<string, number[]>} rowsByDate - 日期 -> 數值（順序同 SNAPSHOT_METRICS）
+ */
+export function saveChannelDays(channelId, dates, rowsByDate) {
+  const snapshot = loadSnapshot(channelId);
+  const now = Date.now();
+  for (const date of dates) {
+    snapshot.data.channelDays[date] = toMetricArray(rowsByDate[date] || []);
+    snapshot.data.syncedAt.channel[date] = now;
+  }
+  persist(snapshot);
+}
+
+/**
+ * 寫入每日各流量來源的觀看次數（與頻道每日數據一起同步）
+ * @param {string} channelId
+ * @param {string[]} dates
+ * @param {Record<string, Record<string, number>>} sourcesByDate - 日期 -> { 流量來源類型: 觀看次數 }
+ */
+export function saveTrafficDays(channelId, dates, sourcesByDate) {
+  const snapshot = loadSnapshot(channelId);
+  snapshot.data.trafficDays ||= {};
+  for (const date of dates) {
+    snapshot.data.trafficDays[date] = sourcesByDate[date] || {};
+  }
+  persist(snapshot);
+}
+
+/**
+ * 寫入單日的影片數據（整天覆蓋）
+ * @param {string} channelId
+ * @param {string} date
+ * @param {Record<string, number[]>} rowsByVideo - 影片 ID -> 數值（順序同 SNAPSHOT_METRICS）
+ * @param {{ partial?: boolean }} [options] - partial：只有部分影片（觀看最高的影片）
+ */
+export function saveVideoDay(channelId, date, rowsByVideo, { partial = false } = {}) {
+  const snapshot = loadSnapshot(channelId);
+  snapshot.data.videoDays[date] = Object.fromEntries(
+    Object.entries(rowsByVideo).map(([videoId, values]) => [videoId, toMetricArray(values)])
+  );
+  snapshot.data.partialVideoDays ||= {};
+  if (partial) {
+    snapshot.data.partialVideoDays[date] = true;
+  } else {
+    delete snapshot.data.partialVideoDays[date];
+  }
+  snapshot.data.syncedAt.videos[date] = Date.now();
+  persist(snapshot);
+}
+
+/**
+ * 快照概況
+ * @param {string} channelId
+ * @returns {{ channelId: string, channelDays: number, videoDays: number, firstDate: string | null, lastDate: string | null, videoFirstDate: string | null, videoLastDate: string | null, updatedAt: number | null }}
+ */
+export function getSnapshotStatus(channelId) {
+  const { data } = loadSnapshot(channelId);
+  const channelDates = Object.keys(data.channelDays).sort();
+  const videoDates = Object.keys(data.videoDays).sort();
+  return {
+    channelId,
+    channelDays: channelDates.length,
+    videoDays: videoDates.length,
+    firstDate: channelDates[0] || null,
+    lastDate: channelDates[channelDates.length - 1] || null,
+    videoFirstDate: videoDates[0] || null,
+    videoLastDate: videoDates[videoDates.length - 1] || null,
+    updatedAt: data.updatedAt,
+  };
+}
+
+/**
+ * 讀取頻道每日數據
+ * 若該日有影片快照，附上當天觀看最高的影片
+ * @param {string} channelId
+ * @param {string} startDate
+ * @param {string} endDate
+ * @returns {{ coverage: object, days: Array<object>, totals: Record<string, number> }}
+ */
+export function readChannelSnapshots(channelId, startDate, endDate) {
+  const { data } = loadSnapshot(channelId);
+  const dates = enumerateDates(startDate, endDate);
+  const syncedDates = dates.filter((date) => data.channelDays[date]);
+
+  const days = syncedDates.map((date) => {
+    let topVideo = null;
+    for (const [videoId, values] of Object.entries(data.videoDays[date] || {})) {
+      if (!topVideo || values[0] > topVideo.views) topVideo = { videoId, views: values[0] };
+    }
+    return { date, ...toMetricObject(data.channelDays[date]), topVideo };
+  });
+
+  return {
+    coverage: buildCoverage(dates, data.channelDays),
+    days,
+    totals: sumMetricRows(syncedDates.map((date) => data.channelDays[date])),
+  };
+}
+
+/**
+ * 讀取日期範圍內每支影片的彙總數據
+ * @param {string} channelId
+ * @param {string} startDate
+ * @param {string} endDate
+ * @param {string[] | null} [videoIds] - 只取這些影片（null 為全部）
+ * @returns {{ coverage: object, videos: Array<object>, totals: Record<string, number> }}
+ */
+export function readVideoSnapshots(channelId, startDate, endDate, videoIds = null) {
+  const { data } = loadSnapshot(channelId);
+  const dates = enumerateDates(startDate, endDate);
+  const filter = videoIds ? new Set(videoIds) : null;
+
+  const rowsByVideo = new Map();
+  for (const date of dates) {
+    for (const [videoId, values] of Object.entries(data.videoDays[date] || {})) {
+      if (filter && !filter.has(videoId)) continue;
+      if (!rowsByVideo.has(videoId)) rowsByVideo.set(videoId, []);
+      rowsByVideo.get(videoId).push(values);
+    }
+  }
+
+  const allRows = [...rowsByVideo.values()].flat();
+  return {
+    coverage: buildCoverage(dates, data.videoDays, data.partialVideoDays),
+    videos: [...rowsByVideo].map(([videoId, rows]) => ({ videoId, ...sumMetricRows(rows) })),
+    totals: sumMetricRows(allRows),
+  };
+}
+
+/**
+ * 讀取每日各流量來源的觀看次數
+ * @param {string} channelId
+ * @param {string} startDate
+ * @param {string} endDate
+ * @returns {{ coverage: object, days: Array<{ date: string, sources: Record<string, number> }> }}
+ */
+export function readTrafficSnapshots(channelId, startDate, endDate) {
+  const { data } = loadSnapshot(channelId);
+  const trafficDays = data.trafficDays || {};
+  const dates = enumerateDates(startDate, endDate);
+  return {
+    coverage: buildCoverage(dates, trafficDays),
+    days: dates.filter((date) => trafficDays[date]).map((date) => ({ date, sources: trafficDays[date] })),
+  };
+}
+
+/**
+ * 讀取每支影片的每日觀看次數（只含有完整影片快照的日期，當天沒有數據的影片視為 0）
+ * @param {string} channelId
+ * @param {string} startDate
+ * @param {string} endDate
+ * @returns {{ dates: string[], viewsByVideo: Record<string, Record<string, number>> }}
+ */
+export function readVideoDailyViews(channelId, startDate, endDate) {
+  const { data } = loadSnapshot(channelId);
+  const partial = data.partialVideoDays || {};
+  const dates = enumerateDates(startDate, endDate).filter((date) => data.videoDays[date] && !partial[date]);
+  const viewsByVideo = {};
+  for (const date of dates) {
+    for (const [videoId, values] of Object.entries(data.videoDays[date])) {
+      (viewsByVideo[videoId] ||= {})[date] = values[0];
+    }
+  }
+  return { dates, viewsByVideo };
+}
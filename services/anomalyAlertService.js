@@ -0,0 +1,146 @@
+/**
+ * 數據異常偵測與提醒
+ * 讀取 analyticsSnapshotStore 的每日快照，偵測頻道與影片的異常後寫入站內收件匣，
+ * 並依頻道設定送出 webhook
+ */
+
+import * as snapshotStore from './analyticsSnapshotStore.js';
+import * as alertStore from './anomalyAlertStore.js';
+import { ANOMALY_METRICS, BASELINE_LOOKBACK_DAYS, detectSeriesAnomalies, toTrafficShareSeries } from './anomalyDetection.js';
+import { postSignedWebhook } from './webhookDelivery.js';
+
+// 預設檢查最近幾天（已提醒過的日期不會重複提醒）
+const DEFAULT_CHECK_DAYS = 7;
+// 每次偵測最多保留幾則影片提醒（依 |z| 排序），避免大量影片同時波動時洗版
+const MAX_VIDEO_ALERTS = 20;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const shiftDate = (date, days) => new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+const formatNumber = (value) => Math.round(value).toLocaleString('en-US');
+
+function describe(label, anomaly, unit = '') {
+  const trend = anomaly.direction === 'spike' ? '高於' : '低於';
+  return `${label} ${anomaly.date} 為 ${formatNumber(anomaly.value)}${unit}，${trend}預期的 ${formatNumber(anomaly.expected)}${unit}（z=${anomaly.zScore}）`;
+}
+
+function detectChannelAnomalies(channelId, startDate, endDate, checkDates, threshold) {
+  const { days } = snapshotStore.readChannelSnapshots(channelId, startDate, endDate);
+  const series = { views: {}, watchTimeMinutes: {}, subscribersNet: {} };
+  for (const day of days) {
+    series.views[day.date] = day.views;
+    series.watchTimeMinutes[day.date] = day.estimatedMinutesWatched;
+    series.subscribersNet[day.date] = day.subscribersGained - day.subscribersLost;
+  }
+
+  const found = [];
+  for (const [metric, valuesByDate] of Object.entries(series)) {
+    const spec = ANOMALY_METRICS[metric];
+    for (const anomaly of detectSeriesAnomalies(valuesByDate, checkDates, { threshold, ...spec })) {
+      found.push({ channelId, scope: 'channel', metric, ...anomaly, message: describe(spec.label, anomaly) });
+    }
+  }
+
+  const traffic = snapshotStore.readTrafficSnapshots(channelId, startDate, endDate);
+  const spec = ANOMALY_METRICS.trafficShare;
+  for (const [source, valuesByDate] of Object.entries(toTrafficShareSeries(traffic.days))) {
+    for (const anomaly of detectSeriesAnomalies(valuesByDate, checkDates, { threshold, ...spec })) {
+      found.push({
+        channelId,
+        scope: 'channel',
+        metric: `trafficShare:${source}`,
+        ...anomaly,
+        message: describe(`${spec.label}（${source}）`, anomaly, '%'),
+      });
+    }
+  }
+  return found;
+}
+
+function detectVideoAnomalies(channelId, startDate, endDate, checkDates, threshold) {
+  const { dates, viewsByVideo } = snapshotStore.readVideoDailyViews(channelId, startDate, endDate);
+  const spec = ANOMALY_METRICS.videoViews;
+  const targets = checkDates.filter((date) => dates.includes(date));
+  if (targets.length === 0) return [];
+
+  const found = [];
+  for (const [videoId, viewsByDate] of Object.entries(viewsByVideo)) {
+    // 影片第一次有觀看之前的日子不列入基準（尚未發布）；之後沒有數據的日子視為 0
+    const firstDate = dates.find((date) => viewsByDate[date] > 0);
+    if (!firstDate) continue;
+    const series = {};
+    for (const date of dates) {
+      if (date >= firstDate) series[date] = viewsByDate[date] || 0;
+    }
+    for (const anomaly of detectSeriesAnomalies(series, targets, { threshold, ...spec })) {
+      found.push({
+        channelId,
+        scope: 'video',
+        videoId,
+        metric: 'views',
+        ...anomaly,
+        message: describe(`影片 ${videoId} 觀看次數`, anomaly),
+      });
+    }
+  }
+  return found.sort((a, b) => Math.abs(b.zScore) - Math.abs(a.zScore)).slice(0, MAX_VIDEO_ALERTS);
+}
+
+/**
+ * 以 webhook 送出提醒
+ * @param {{ webhookUrl: string, webhookSecret?: string }} settings
+ * @param {object} payload
+ */
+export async function sendAnomalyWebhook(settings, payload) {
+  await postSignedWebhook(settings.webhookUrl, settings.webhookSecret, payload);
+}
+
+/**
+ * 偵測頻道最近的數據異常，新增提醒並送出通知
+ * 由數據快照同步任務在同步完成後呼叫（排程同步即為每日偵測），也可手動觸發
+ * @param {string} channelId
+ * @param {object} [options]
+ * @param {string} [options.endDate] - 檢查到哪一天，預設為快照的最後一天
+ * @param {number} [options.days] - 檢查最近幾天
+ * @param {boolean} [options.force] - 頻道停用提醒時仍執行（手動檢查）
+ * @returns {Promise<{ checkedDates: string[], detected: number, alerts: Array<object>, webhook: 'sent' | 'failed' | null }>}
+ */
+export async function runAnomalyDetection(channelId, { endDate, days = DEFAULT_CHECK_DAYS, force = false } = {}) {
+  const settings = alertStore.getAnomalySettings(channelId);
+  const lastDate = endDate || snapshotStore.getSnapshotStatus(channelId).lastDate;
+  if ((!settings.enabled && !force) || !lastDate) {
+    return { checkedDates: [], detected: 0, alerts: [], webhook: null };
+  }
+
+  const checkStart = shiftDate(lastDate, -(days - 1));
+  const checkDates = snapshotStore.enumerateDates(checkStart, lastDate);
+  const readStart = shiftDate(checkStart, -BASELINE_LOOKBACK_DAYS);
+
+  const found = detectChannelAnomalies(channelId, readStart, lastDate, checkDates, settings.threshold);
+  if (settings.includeVideos) {
+    found.push(...detectVideoAnomalies(channelId, readStart, lastDate, checkDates, settings.threshold));
+  }
+
+  const added = alertStore.addAnomalyAlerts(found);
+  let webhook = null;
+  if (added.length > 0 && settings.webhookUrl) {
+    try {
+      await sendAnomalyWebhook(settings, {
+        event: 'analytics.anomalies',
+        sentAt: new Date().toISOString(),
+        channelId,
+        alerts: added.map(({ readAt, delivery, ...alert }) => alert),
+      });
+      webhook = 'sent';
+      alertStore.markAlertsDelivered(added.map((alert) => alert.id), { webhook });
+    } catch (error) {
+      webhook = 'failed';
+      alertStore.markAlertsDelivered(added.map((alert) => alert.id), { webhook, error: error.message });
+      console.warn(`[AnomalyAlert] ⚠️ ${channelId} webhook 發送失敗:`, error.message);
+    }
+  }
+
+  console.log(
+    `[AnomalyAlert] ${channelId} ${checkStart} ~ ${lastDate}：偵測到 ${found.length} 項異常，新增 ${added.length} 則提醒`
+  );
+  return { checkedDates: checkDates, detected: found.length, alerts: added, webhook };
+}
@@ -0,0 +1,178 @@
+/**
+ * 數據異常提醒（站內收件匣與每個頻道的提醒設定）
+ * 同一頻道、同一指標、同一天只保留一則提醒，重複偵測不會再次通知
+ * 回傳設定給前端時 webhookSecret 一律遮罩，只告知是否已設定
+ */
+
+import crypto from 'crypto';
+import { createJsonFileStore } from './jsonFileStore.js';
+import { DEFAULT_ANOMALY_THRESHOLD } from './anomalyDetection.js';
+
+const MAX_ALERTS = 1000;
+const MIN_THRESHOLD = 2;
+const MAX_THRESHOLD = 10;
+
+const DEFAULT_SETTINGS = {
+  enabled: true,
+  threshold: DEFAULT_ANOMALY_THRESHOLD,
+  includeVideos: true,
+  webhookUrl: '',
+  webhookSecret: '',
+};
+
+const file = createJsonFileStore('anomaly-alerts.json', { alerts: [], settings: {} });
+const stored = file.read();
+// 由新到舊
+let alerts = Array.isArray(stored.alerts) ? stored.alerts : [];
+// channelId -> settings
+const settingsByChannel = new Map(Object.entries(stored.settings || {}));
+
+const persist = () => {
+  file.write({ alerts, settings: Object.fromEntries(settingsByChannel) });
+};
+
+const alertKey = (alert) => [alert.channelId, alert.scope, alert.videoId || '', alert.metric, alert.date].join(':');
+
+function toPublicSettings(channelId, settings) {
+  const { webhookSecret, ...rest } = settings;
+  return { channelId, ...rest, secrets: { webhookSecret: Boolean(webhookSecret) } };
+}
+
+/**
+ * 取得頻道的提醒設定（含機密，僅供伺服器端使用）
+ * @param {string} channelId
+ * @returns {{ enabled: boolean, threshold: number, includeVideos: boolean, webhookUrl: string, webhookSecret: string, updatedAt?: number }}
+ */
+export function getAnomalySettings(channelId) {
+  return { ...DEFAULT_SETTINGS, ...(settingsByChannel.get(channelId) || {}) };
+}
+
+/**
+ * 取得頻道的提醒設定（遮罩 webhookSecret）
+ * @param {string} channelId
+ * @returns {object}
+ */
+export function getPublicAnomalySettings(channelId) {
+  return toPublicSettings(channelId, getAnomalySettings(channelId));
+}
+
+/**
+ * 更新頻道的提醒設定；webhookSecret 留空時沿用原本的值，傳入 null 則清除
+ * @param {string} channelId
+ * @param {object} input
+ * @returns {object} 遮罩後的設定
+ * @throws {Error} 設定不正確時
+ */
+export function saveAnomalySettings(channelId, input = {}) {
+  const current = getAnomalySettings(channelId);
+  const next = { ...current };
+
+  if (input.enabled !== undefined) next.enabled = Boolean(input.enabled);
+  if (input.includeVideos !== undefined) next.includeVideos = Boolean(input.includeVideos);
+  if (input.threshold !== undefined) {
+    const threshold = Number(input.threshold);
+    if (!Number.isFinite(threshold) || threshold < MIN_THRESHOLD || threshold > MAX_THRESHOLD) {
+      throw new Error(`門檻需介於 ${MIN_THRESHOLD} 到 ${MAX_THRESHOLD} 之間`);
+    }
+    next.threshold = threshold;
+  }
+  if (input.webhookUrl !== undefined) {
+    const url = typeof input.webhookUrl === 'string' ? input.webhookUrl.trim() : '';
+    if (url && !/^https?:\/\/[^\s]+$/i.test(url)) {
+      throw new Error('Webhook 網址需為 http(s) URL');
+    }
+    next.webhookUrl = url;
+  }
+  if (input.webhookSecret === null) {
+    next.webhookSecret = '';
+  } else if (typeof input.webhookSecret === 'string' && input.webhookSecret.trim()) {
+    next.webhookSecret = input.webhookSecret.trim();
+  }
+
+  next.updatedAt = Date.now();
+  settingsByChannel.set(channelId, next);
+  persist();
+  return toPublicSettings(channelId, next);
+}
+
+/**
+ * 加入新偵測到的異常；已存在的（同頻道、範圍、影片、指標、日期）略過
+ * @param {Array<object>} items - { channelId, date, scope, videoId, metric, value, expected, zScore, direction, message }
+ * @returns {Array<object>} 實際新增的提醒
+ */
+export function addAnomalyAlerts(items) {
+  const existing = new Set(alerts.map(alertKey));
+  const added = [];
+  for (const item of items) {
+    const key = alertKey(item);
+    if (existing.has(key)) continue;
+    existing.add(key);
+    added.push({
+      id: crypto.randomUUID(),
+      ...item,
+      videoId: item.videoId || null,
+      createdAt: Date.now(),
+      readAt: null,
+      delivery: null,
+    });
+  }
+
+  if (added.length > 0) {
+    alerts = [...added, ...alerts].slice(0, MAX_ALERTS);
+    persist();
+  }
+  return added;
+}
+
+/**
+ * 記錄提醒的外部通知結果
+ * @param {string[]} ids
+ * @param {{ webhook: 'sent' | 'failed', error?: string }} delivery
+ */
+export function markAlertsDelivered(ids, delivery) {
+  const idSet = new Set(ids);
+  for (const alert of alerts) {
+    if (idSet.has(alert.id)) alert.delivery = { ...delivery, at: Date.now() };
+  }
+  persist();
+}
+
+/**
+ * 列出提醒（由新到舊）
+ * @param {object} options
+ * @param {string[]} options.channelIds - 只列出這些頻道的提醒（使用者可存取的頻道）
+ * @param {boolean} [options.unreadOnly]
+ * @param {number} [options.limit]
+ * @returns {{ alerts: Array<object>, unreadCount: number }}
+ */
+export function listAnomalyAlerts({ channelIds, unreadOnly = false, limit = 50 }) {
+  const channelSet = new Set(channelIds);
+  const scoped = alerts.filter((alert) => channelSet.has(alert.channelId));
+  const unread = scoped.filter((alert) => !alert.readAt);
+  return {
+    alerts: (unreadOnly ? unread : scoped).slice(0, limit),
+    unreadCount: unread.length,
+  };
+}
+
+/**
+ * 標記為已讀
+ * @param {object} options
+ * @param {string[]} [options.ids] - 指定提醒；未指定時標記 channelIds 的所有提醒
+ * @param {string[]} options.channelIds - 只處理這些頻道的提醒（使用者可存取的頻道）
+ * @returns {number} 標記的數量
+ */
+export function markAnomalyAlertsRead({ ids, channelIds }) {
+  const idSet = Array.isArray(ids) ? new Set(ids) : null;
+  const channelSet = new Set(channelIds);
+  const now = Date.now();
+  let count = 0;
+  for (const alert of alerts) {
+    if (alert.readAt || !channelSet.has(alert.channelId)) continue;
+    if (idSet && !idSet.has(alert.id)) continue;
+    alert.readAt = now;
+    count++;
+  }
+  if (count > 0) persist();
+  return count;
+}
@@ -0,0 +1,138 @@
+/**
+ * 頻道數據異常偵測
+ * 以過去幾週「同一個星期幾」的數值作為基準（避開週末與平日的固定落差），
+ * 用中位數與 MAD（中位數絕對偏差）計算穩健的 z 分數，超過門檻即視為異常
+ */
+
+export const DEFAULT_ANOMALY_THRESHOLD = 3;
+
+// 基準：往前 8 週的同一天；同一天不足 4 筆時改用前 28 天
+const BASELINE_WEEKS = 8;
+const MIN_SEASONAL_POINTS = 4;
+const FALLBACK_BASELINE_DAYS = 28;
+const MIN_FALLBACK_POINTS = 14;
+
+// MAD 換算成常態分布標準差的係數
+const MAD_SCALE = 1.4826;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const ANOMALY_METRICS = {
+  views: { label: '觀看次數', minValue: 100, minDelta: 0 },
+  watchTimeMinutes: { label: '觀看時間（分鐘）', minValue: 60, minDelta: 0 },
+  subscribersNet: { label: '淨訂閱數', minValue: 0, minDelta: 5 },
+  trafficShare: { label: '流量來源佔比', minValue: 0, minDelta: 5 },
+  videoViews: { label: '影片觀看次數', minValue: 50, minDelta: 0 },
+};
+
+// 需要往前讀取的天數（供呼叫端決定讀取快照的範圍）
+export const BASELINE_LOOKBACK_DAYS = Math.max(BASELINE_WEEKS * 7, FALLBACK_BASELINE_DAYS);
+
+const shiftDate = (date, days) => new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+
+const median = (values) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+/**
+ * 取得某天的基準值（優先用同一個星期幾）
+ * @param {Record<string, number>} valuesByDate
+ * @param {string} date
+ * @returns {number[] | null} 資料不足時回傳 null
+ */
+function getBaselineValues(valuesByDate, date) {
+  const seasonal = [];
+  for (let week = 1; week <= BASELINE_WEEKS; week++) {
+    const value = valuesByDate[shiftDate(date, -7 * week)];
+    if (typeof value === 'number') seasonal.push(value);
+  }
+  if (seasonal.length >= MIN_SEASONAL_POINTS) return seasonal;
+
+  const recent = [];
+  for (let day = 1; day <= FALLBACK_BASELINE_DAYS; day++) {
+    const value = valuesByDate[shiftDate(date, -day)];
+    if (typeof value === 'number') recent.push(value);
+  }
+  return recent.length >= MIN_FALLBACK_POINTS ? recent : null;
+}
+
+/**
+ * 計算數值相對基準的穩健 z 分數
+ * MAD 為 0（基準每天都一樣）時，以基準值的 10% 或 1 作為最小尺度，避免除以 0 或小波動就觸發
+ * @param {number} value
+ * @param {number[]} baseline
+ * @returns {{ expected: number, zScore: number }}
+ */
+export function scoreAgainstBaseline(value, baseline) {
+  const expected = median(baseline);
+  const mad = median(baseline.map((item) => Math.abs(item - expected))) * MAD_SCALE;
+  const scale = Math.max(mad, Math.abs(expected) * 0.1, 1);
+  return { expected, zScore: (value - expected) / scale };
+}
+
+/**
+ * 偵測單一數列在指定日期的異常
+ * @param {Record<string, number>} valuesByDate - 日期 -> 數值（缺少的日期不列入基準）
+ * @param {string[]} targetDates - 要檢查的日期
+ * @param {object} [options]
+ * @param {number} [options.threshold] - |z| 超過此值才算異常
+ * @param {number} [options.minValue] - 當天數值與基準都低於此值時忽略（量太小，波動沒有意義）
+ * @param {number} [options.minDelta] - 與基準的差距低於此值時忽略
+ * @returns {Array<{ date: string, value: number, expected: number, zScore: number, direction: 'spike' | 'drop' }>}
+ */
+export function detectSeriesAnomalies(valuesByDate, targetDates, options = {}) {
+  const { threshold = DEFAULT_ANOMALY_THRESHOLD, minValue = 0, minDelta = 0 } = options;
+  const anomalies = [];
+
+  for (const date of targetDates) {
+    const value = valuesByDate[date];
+    if (typeof value !== 'number') continue;
+    const baseline = getBaselineValues(valuesByDate, date);
+    if (!baseline) continue;
+
+    const { expected, zScore } = scoreAgainstBaseline(value, baseline);
+    if (Math.abs(zScore) < threshold) continue;
+    if (Math.max(Math.abs(value), Math.abs(expected)) < minValue) continue;
+    if (Math.abs(value - expected) < minDelta) continue;
+
+    anomalies.push({
+      date,
+      value,
+      expected,
+      zScore: Math.round(zScore * 10) / 10,
+      direction: value > expected ? 'spike' : 'drop',
+    });
+  }
+  return anomalies;
+}
+
+/**
+ * 把每日流量來源觀看次數換算成各來源的佔比（%）數列
+ * 只保留至少有一天佔比達 minShare 的來源
+ * @param {Array<{ date: string, sources: Record<string, number> }>} days
+ * @param {number} [minShare]
+ * @returns {Record<string, Record<string, number>>} 來源 -> 日期 -> 佔比
+ */
+export function toTrafficShareSeries(days, minShare = 5) {
+  const series = {};
+  for (const { date, sources } of days) {
+    const total = Object.values(sources).reduce((sum, views) => sum + views, 0);
+    if (total <= 0) continue;
+    for (const [source, views] of Object.entries(sources)) {
+      (series[source] ||= {})[date] = Math.round((views / total) * 1000) / 10;
+    }
+  }
+  // 有流量但某來源為 0 的日期補 0，避免基準只剩下有數據的日子
+  for (const { date, sources } of days) {
+    if (Object.values(sources).some((views) => views > 0)) {
+      for (const source of Object.keys(series)) {
+        series[source][date] ??= 0;
+      }
+    }
+  }
+  return Object.fromEntries(
+    Object.entries(series).filter(([, byDate]) => Object.values(byDate).some((share) => share >= minShare))
+  );
+}
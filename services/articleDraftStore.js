@@ -0,0 +1,203 @@
+/**
+ * 文章草稿（伺服器端）
+ * 依 JWT 使用者與影片保存文章草稿，每次生成／重新截圖都新增一個版本，供比對差異與還原
+ */
+
+import crypto from 'crypto';
+import { createJsonFileStore } from './jsonFileStore.js';
+
+// 每篇草稿最多保留的版本數（超過時移除最舊的）
+const MAX_REVISIONS_PER_DRAFT = Math.max(parseInt(process.env.ARTICLE_DRAFT_MAX_REVISIONS, 10) || 30, 1);
+
+const REVISION_SOURCES = ['generate', 'regenerate-screenshots', 'capture-screenshots', 'restore', 'local-migration'];
+
+const file = createJsonFileStore('article-drafts.json', { users: {} });
+// userId -> { [videoId]: draft }
+const draftsByUser = new Map(Object.entries(file.read().users || {}));
+
+const persist = () => {
+  file.write({ users: Object.fromEntries(draftsByUser) });
+};
+
+function getUserDrafts(userId) {
+  if (!draftsByUser.has(userId)) {
+    draftsByUser.set(userId, {});
+  }
+  return draftsByUser.get(userId);
+}
+
+function toSummary(draft) {
+  const latest = draft.revisions[draft.revisions.length - 1];
+  return {
+    videoId: draft.videoId,
+    video: draft.video,
+    createdAt: draft.createdAt,
+    updatedAt: draft.updatedAt,
+    revisionCount: draft.revisions.length,
+    latestRevisionId: latest?.id ?? null,
+    latestTitle: latest?.result?.titleA ?? '',
+    notion: draft.notion ?? null,
+  };
+}
+
+/**
+ * 解析前端傳入的儲存時間（只接受不晚於現在的有效時間，用於搬移舊草稿時保留原時間）
+ */
+function resolveSavedAt(savedAt) {
+  const timestamp = typeof savedAt === 'string' ? Date.parse(savedAt) : NaN;
+  return Number.isFinite(timestamp) && timestamp <= Date.now() ? timestamp : Date.now();
+}
+
+function isSameContent(revision, payload) {
+  return (
+    JSON.stringify(revision.result) === JSON.stringify(payload.result) &&
+    revision.templateId === payload.templateId &&
+    revision.colorTheme === payload.colorTheme
+  );
+}
+
+/**
+ * 列出使用者的草稿（依最後更新時間新到舊）
+ * @param {string} userId
+ * @returns {Array<object>} 草稿摘要（不含版本內容）
+ */
+export function listArticleDrafts(userId) {
+  return Object.values(draftsByUser.get(userId) || {})
+    .map(toSummary)
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+/**
+ * 取得單篇草稿與所有版本（版本依時間新到舊）
+ * @param {string} userId
+ * @param {string} videoId
+ * @returns {object | null}
+ */
+export function getArticleDraft(userId, videoId) {
+  const draft = draftsByUser.get(userId)?.[videoId];
+  if (!draft) return null;
+  return { ...toSummary(draft), revisions: [...draft.revisions].reverse() };
+}
+
+/**
+ * 新增一個草稿版本（內容與最新版本相同時不重複新增）
+ * @param {string} userId
+ * @param {object} payload
+ * @param {{ id: string, title: string, isUrlOnly?: boolean }} payload.video
+ * @param {object} payload.result - ArticleGenerationResult
+ * @param {string} [payload.templateId]
+ * @param {string} [payload.colorTheme]
+ * @param {string} [payload.customPrompt]
+ * @param {string[]} [payload.referenceUrls]
+ * @param {string[]} [payload.referenceVideos]
+ * @param {string} [payload.source] - generate / regenerate-screenshots / capture-screenshots / local-migration
+ * @param {string} [payload.savedAt] - ISO 時間（搬移舊草稿時保留原時間）
+ * @returns {{ draft: object, revision: object, created: boolean }}
+ * @throws {Error} 缺少影片或文章內容時
+ */
+export function saveArticleDraftRevision(userId, payload) {
+  const { video, result } = payload || {};
+  if (!video?.id || typeof video.id !== 'string' || !result || typeof result.article !== 'string') {
+    throw new Error('video.id and result.article are required');
+  }
+
+  const userDrafts = getUserDrafts(userId);
+  const existing = userDrafts[video.id];
+  const latest = existing?.revisions[existing.revisions.length - 1];
+  const normalized = {
+    templateId: payload.templateId || '',
+    colorTheme: payload.colorTheme || '',
+    result,
+  };
+
+  if (latest && isSameContent(latest, normalized)) {
+    return { draft: toSummary(existing), revision: latest, created: false };
+  }
+
+  const savedAt = resolveSavedAt(payload.savedAt);
+  const revision = {
+    id: `rev_${Date.now()}_${crypto.randomBytes(4).toString('hex')}`,
+    savedAt,
+    source: REVISION_SOURCES.includes(payload.source) ? payload.source : 'generate',
+    templateId: normalized.templateId,
+    colorTheme: normalized.colorTheme,
+    customPrompt: payload.customPrompt || '',
+    referenceUrls: Array.isArray(payload.referenceUrls) ? payload.referenceUrls : [],
+    referenceVideos: Array.isArray(payload.referenceVideos) ? payload.referenceVideos : [],
+    restoredFrom: payload.restoredFrom || null,
+    result,
+  };
+
+  const draft = existing || {
+    videoId: video.id,
+    video: { id: video.id, title: video.title || video.id, isUrlOnly: Boolean(video.isUrlOnly) },
+    createdAt: savedAt,
+    revisions: [],
+  };
+  draft.video.title = video.title || draft.video.title;
+  draft.revisions = [...draft.revisions, revision]
+    .sort((a, b) => a.savedAt - b.savedAt)
+    .slice(-MAX_REVISIONS_PER_DRAFT);
+  draft.updatedAt = Math.max(draft.updatedAt || 0, savedAt);
+  userDrafts[video.id] = draft;
+  persist();
+
+  console.log(`[ArticleDrafts] 已儲存 ${video.id} 的草稿版本 ${revision.id}（${revision.source}）by ${userId}`);
+  return { draft: toSummary(draft), revision, created: true };
+}
+
+/**
+ * 將舊版本還原為最新版本（以新增版本的方式，保留完整歷程）
+ * @param {string} userId
+ * @param {string} videoId
+ * @param {string} revisionId
+ * @returns {{ draft: object, revision: object } | null} 找不到草稿或版本時回傳 null
+ */
+export function restoreArticleDraftRevision(userId, videoId, revisionId) {
+  const draft = draftsByUser.get(userId)?.[videoId];
+  const target = draft?.revisions.find((revision) => revision.id === revisionId);
+  if (!draft || !target) return null;
+
+  const { draft: summary, revision } = saveArticleDraftRevision(userId, {
+    video: draft.video,
+    result: target.result,
+    templateId: target.templateId,
+    colorTheme: target.colorTheme,
+    customPrompt: target.customPrompt,
+    referenceUrls: target.referenceUrls,
+    referenceVideos: target.referenceVideos,
+    source: 'restore',
+    restoredFrom: target.id,
+  });
+  return { draft: summary, revision };
+}
+
+/**
+ * 記錄草稿發佈到的 Notion 頁面（重新發佈時更新同一頁面）
+ * @param {string} userId
+ * @param {string} videoId
+ * @param {{ pageId: string, url: string, databaseId: string, lastEditedTime: string }} page
+ * @returns {boolean} 是否有找到草稿
+ */
+export function setArticleDraftNotionPage(userId, videoId, page) {
+  const draft = draftsByUser.get(userId)?.[videoId];
+  if (!draft) return false;
+  const latest = draft.revisions[draft.revisions.length - 1];
+  draft.notion = { ...page, revisionId: latest?.id ?? null, publishedAt: Date.now() };
+  persist();
+  return true;
+}
+
+/**
+ * 刪除整篇草稿（含所有版本）
+ * @param {string} userId
+ * @param {string} videoId
+ * @returns {boolean} 是否有刪除
+ */
+export function deleteArticleDraft(userId, videoId) {
+  const userDrafts = draftsByUser.get(userId);
+  if (!userDrafts?.[videoId]) return false;
+  delete userDrafts[videoId];
+  persist();
+  return true;
+}
@@ -0,0 +1,503 @@
+/**
+ * 文章匯出
+ * 將 ArticleGenerationResult 轉成 Markdown（含 front matter）、可離線開啟的 HTML 壓縮包，
+ * 或 WordPress 匯入用的 WXR 檔案；文章可能是 HTML（AEO 模板）或 Markdown，兩種都支援
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { postprocessArticleHtml } from './articleHtmlPostprocess.js';
+import { resolveLocalImagePath } from './notionService.js';
+import { createZipArchive } from './zipArchive.js';
+
+export const EXPORT_FORMATS = {
+  markdown: { extension: 'md', contentType: 'text/markdown; charset=utf-8' },
+  html: { extension: 'zip', contentType: 'application/zip' },
+  wxr: { extension: 'xml', contentType: 'application/rss+xml; charset=utf-8' },
+};
+
+const SCREENSHOT_SECTION_TITLE = '關鍵畫面截圖';
+
+function isHtmlArticle(article) {
+  return article.trimStart().startsWith('<');
+}
+
+export function escapeHtml(text) {
+  return String(text ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function decodeHtmlEntities(text) {
+  return text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+// 去掉 <html>/<head>/<body> 外層，只保留文章本體（與前端「複製 HTML 內容」一致）
+function extractHtmlBody(html) {
+  const bodyMatch = html.match(/<body[^>]*>([\s\S]*?)<\/body>/i);
+  return bodyMatch ? bodyMatch[1].trim() : html;
+}
+
+function renderInlineMarkdown(text) {
+  return escapeHtml(text)
+    .replace(/!\[([^\]]*)\]\(([^)\s]+)\)/g, '<img src="$2" alt="$1">')
+    .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, '<a href="$2">$1</a>')
+    .replace(/`([^`]+)`/g, '<code>$1</code>')
+    .replace(/\*\*([^*]+)\*\*/g, '<strong>$1</strong>')
+    .replace(/(^|[^*])\*([^*\s][^*]*)\*/g, '$1<em>$2</em>');
+}
+
+/**
+ * 將 Markdown 轉成 HTML（只處理生成文章會用到的語法：標題、段落、清單、引言、程式碼區塊、分隔線）
+ * @param {string} markdown
+ * @returns {string}
+ */
+export function markdownToHtml(markdown) {
+  const lines = markdown.replace(/\r\n/g, '\n').split('\n');
+  const html = [];
+  let paragraph = [];
+  let list = null; // { tag: 'ul' | 'ol', items: string[] }
+  let codeBlock = null;
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      html.push(`<p>${paragraph.map(renderInlineMarkdown).join('<br>\n')}</p>`);
+      paragraph = [];
+    }
+  };
+  const flushList = () => {
+    if (list) {
+      html.push(`<${list.tag}>\n${list.items.map((item) => `<li>${renderInlineMarkdown(item)}</li>`).join('\n')}\n</${list.tag}>`);
+      list = null;
+    }
+  };
+
+  for (const line of lines) {
+    if (codeBlock) {
+      if (line.trim().startsWith('```')) {
+        html.push(`<pre><code>${escapeHtml(codeBlock.join('\n'))}</code></pre>`);
+        codeBlock = null;
+      } else {
+        codeBlock.push(line);
+      }
+      continue;
+    }
+
+    const trimmed = line.trim();
+    const heading = trimmed.match(/^(#{1,6})\s+(.+?)\s*#*$/);
+    const bullet = trimmed.match(/^[-*+]\s+(.+)$/);
+    const ordered = trimmed.match(/^\d+[.)]\s+(.+)$/);
+
+    if (trimmed.startsWith('```')) {
+      flushParagraph();
+      flushList();
+      codeBlock = [];
+    } else if (!trimmed) {
+      flushParagraph();
+      flushList();
+    } else if (heading) {
+      flushParagraph();
+      flushList();
+      const level = heading[1].length;
+      html.push(`<h${level}>${renderInlineMarkdown(heading[2])}</h${level}>`);
+    } else if (/^(-{3,}|\*{3,}|_{3,})$/.test(trimmed)) {
+      flushParagraph();
+      flushList();
+      html.push('<hr>');
+    } else if (bullet || ordered) {
+      flushParagraph();
+      const tag = bullet ? 'ul' : 'ol';
+      if (list && list.tag !== tag) flushList();
+      list = list || { tag, items: [] };
+      list.items.push((bullet || ordered)[1]);
+    } else if (trimmed.startsWith('>')) {
+      flushParagraph();
+      flushList();
+      html.push(`<blockquote><p>${renderInlineMarkdown(trimmed.replace(/^>\s?/, ''))}</p></blockquote>`);
+    } else {
+      flushList();
+      paragraph.push(trimmed);
+    }
+  }
+
+  if (codeBlock) html.push(`<pre><code>${escapeHtml(codeBlock.join('\n'))}</code></pre>`);
+  flushParagraph();
+  flushList();
+  return html.join('\n');
+}
+
+/**
+ * 將 HTML 文章轉成 Markdown（保留標題、段落、清單、連結、圖片、粗斜體與表格，其餘標籤與樣式移除）
+ * @param {string} html
+ * @returns {string}
+ */
+export function htmlToMarkdown(html) {
+  let text = extractHtmlBody(html)
+    .replace(/<(script|style|head)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<!--[\s\S]*?-->/g, '');
+
+  text = text
+    .replace(/<pre[^>]*>\s*(?:<code[^>]*>)?([\s\S]*?)(?:<\/code>)?\s*<\/pre>/gi, (_, code) => `\n\n\`\`\`\n${code.replace(/<[^>]+>/g, '')}\n\`\`\`\n\n`)
+    .replace(/<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level, content) => `\n\n${'#'.repeat(Number(level))} ${content.replace(/<[^>]+>/g, '').trim()}\n\n`)
+    .replace(/<img[^>]*>/gi, (tag) => {
+      const src = tag.match(/\bsrc\s*=\s*["']([^"']+)["']/i)?.[1];
+      const alt = tag.match(/\balt\s*=\s*["']([^"']*)["']/i)?.[1] ?? '';
+      return src ? `![${alt}](${src})` : '';
+    })
+    .replace(/<a\s[^>]*href\s*=\s*["']([^"']+)["'][^>]*>([\s\S]*?)<\/a>/gi, (_, href, label) => {
+      const content = label.replace(/<[^>]+>/g, '').trim();
+      // 目錄錨點在 Markdown 中沒有意義，只保留文字
+      return href.startsWith('#') ? content : `[${content}](${href})`;
+    })
+    .replace(/<(strong|b)(\s[^>]*)?>([\s\S]*?)<\/\1>/gi, '**$3**')
+    .replace(/<(em|i)(\s[^>]*)?>([\s\S]*?)<\/\1>/gi, '*$3*')
+    .replace(/<code[^>]*>([\s\S]*?)<\/code>/gi, '`$1`')
+    .replace(/<br\s*\/?>/gi, '  \n')
+    .replace(/<hr[^>]*>/gi, '\n\n---\n\n');
+
+  // 清單：依外層標籤決定項目符號
+  text = text.replace(/<(ul|ol)[^>]*>([\s\S]*?)<\/\1>/gi, (_, tag, items) => {
+    let index = 0;
+    const lines = [...items.matchAll(/<li[^>]*>([\s\S]*?)<\/li>/gi)].map((match) => {
+      index++;
+      const content = match[1].replace(/<[^>]+>/g, '').replace(/\s+/g, ' ').trim();
+      return `${tag.toLowerCase() === 'ol' ? `${index}.` : '-'} ${content}`;
+    });
+    return `\n\n${lines.join('\n')}\n\n`;
+  });
+
+  // 表格：第一列視為表頭
+  text = text.replace(/<table[^>]*>([\s\S]*?)<\/table>/gi, (_, table) => {
+    const rows = [...table.matchAll(/<tr[^>]*>([\s\S]*?)<\/tr>/gi)].map((row) =>
+      [...row[1].matchAll(/<t[hd][^>]*>([\s\S]*?)<\/t[hd]>/gi)].map((cell) =>
+        cell[1].replace(/<[^>]+>/g, '').replace(/\s+/g, ' ').replace(/\|/g, '\\|').trim()
+      )
+    );
+    if (rows.length === 0) return '';
+    const lines = rows.map((cells) => `| ${cells.join(' | ')} |`);
+    lines.splice(1, 0, `| ${rows[0].map(() => '---').join(' | ')} |`);
+    return `\n\n${lines.join('\n')}\n\n`;
+  });
+
+  text = text
+    .replace(/<blockquote[^>]*>([\s\S]*?)<\/blockquote>/gi, (_, quote) =>
+      `\n\n${quote.replace(/<[^>]+>/g, '').trim().split('\n').map((line) => `> ${line.trim()}`).join('\n')}\n\n`
+    )
+    .replace(/<\/(p|div|section|article|header|footer|figure|figcaption|nav|aside)>/gi, '\n\n')
+    .replace(/<[^>]+>/g, '');
+
+  return decodeHtmlEntities(text)
+    .split('\n')
+    .map((line) => line.replace(/[ \t]+$/g, (spaces) => (spaces === '  ' ? spaces : '')))
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+export function toAbsoluteUrl(url, baseUrl) {
+  if (!baseUrl || /^(https?:|data:)/i.test(url)) return url;
+  return new URL(url, baseUrl).toString();
+}
+
+// 文章內嵌的圖片也可能是伺服器相對路徑
+function absolutizeHtmlImages(html, baseUrl) {
+  return html.replace(/(<img[^>]*\bsrc\s*=\s*["'])([^"']+)(["'])/gi, (_, before, src, after) =>
+    `${before}${toAbsoluteUrl(src, baseUrl)}${after}`
+  );
+}
+
+/**
+ * 整理截圖：每個時間點一組（通常為 -2s、當前、+2s 三張），搭配截圖規劃的說明
+ */
+function collectScreenshotGroups(result) {
+  const groups = Array.isArray(result.image_urls) ? result.image_urls : [];
+  return groups
+    .map((group, index) => {
+      const urls = Array.isArray(group)
+        ? group.map((url) => (typeof url === 'string' ? url.trim() : '')).filter(Boolean)
+        : [];
+      const plan = Array.isArray(result.screenshots) ? result.screenshots[index] : null;
+      return {
+        urls,
+        // 中間那張是截圖時間點當下的畫面
+        primary: urls[Math.floor(urls.length / 2)] ?? urls[0],
+        timestamp: plan?.timestamp_seconds || '',
+        caption: plan?.reason_for_screenshot || '',
+      };
+    })
+    .filter((group) => group.urls.length > 0);
+}
+
+/**
+ * 取得可直接放進 CMS 的文章 HTML（Markdown 文章先轉成 HTML，再套用 postprocessArticleHtml）
+ * @param {string} article
+ * @returns {string}
+ */
+export function renderArticleHtml(article) {
+  const body = isHtmlArticle(article) ? extractHtmlBody(article) : markdownToHtml(article);
+  return postprocessArticleHtml(body);
+}
+
+function yamlString(value) {
+  return JSON.stringify(String(value ?? ''));
+}
+
+/**
+ * 匯出 Markdown（front matter 來自 titleA 與 seo_description）
+ * @param {object} result - ArticleGenerationResult
+ * @param {object} options
+ * @param {{ id: string, title: string, isUrlOnly?: boolean }} options.video
+ * @param {string} [options.baseUrl] - 伺服器網址，用於把 /images/... 轉成絕對網址
+ * @param {Date} [options.date]
+ * @returns {string}
+ */
+export function exportArticleMarkdown(result, { video, baseUrl, date = new Date() }) {
+  const body = (isHtmlArticle(result.article) ? htmlToMarkdown(renderArticleHtml(result.article)) : result.article.trim())
+    .replace(/!\[([^\]]*)\]\(([^)\s]+)\)/g, (_, alt, src) => `![${alt}](${toAbsoluteUrl(src, baseUrl)})`);
+  const frontMatter = [
+    '---',
+    `title: ${yamlString(result.titleA)}`,
+    `description: ${yamlString(result.seo_description)}`,
+    `date: ${date.toISOString()}`,
+    `source: ${yamlString(getSourceUrl(video))}`,
+    '---',
+  ];
+
+  const screenshots = collectScreenshotGroups(result);
+  const screenshotSection = screenshots.length > 0
+    ? [
+        '',
+        `## ${SCREENSHOT_SECTION_TITLE}`,
+        '',
+        ...screenshots.flatMap((group) => [
+          `![${group.caption || group.timestamp}](${toAbsoluteUrl(group.primary, baseUrl)})`,
+          group.timestamp || group.caption ? `*${[group.timestamp, group.caption].filter(Boolean).join(' ')}*` : '',
+          '',
+        ]),
+      ]
+    : [];
+
+  return `${[...frontMatter, '', body, ...screenshotSection].join('\n').trim()}\n`;
+}
+
+function getSourceUrl(video) {
+  // URL-only 模式：video.title 存的是原始網址
+  return video.isUrlOnly ? video.title : `https://www.youtube.com/watch?v=${video.id}`;
+}
+
+/**
+ * 匯出可離線開啟的 HTML 壓縮包（index.html + images/），截圖檔案一併打包
+ * @param {object} result - ArticleGenerationResult
+ * @param {object} options
+ * @param {{ id: string, title: string, isUrlOnly?: boolean }} options.video
+ * @param {string} [options.baseUrl] - 本機找不到的截圖改用此伺服器的絕對網址
+ * @returns {Promise<Buffer>} ZIP 檔內容
+ */
+export async function exportArticleHtmlBundle(result, { video, baseUrl }) {
+  const images = [];
+  const localNames = new Map(); // 原始 URL -> 壓縮包內路徑
+
+  // 能在本機找到的截圖打包進 images/，找不到的保留原網址
+  const bundleImage = async (url) => {
+    if (localNames.has(url)) return localNames.get(url);
+    const localPath = resolveLocalImagePath(url);
+    if (!localPath) {
+      localNames.set(url, toAbsoluteUrl(url, baseUrl));
+      return localNames.get(url);
+    }
+    try {
+      const name = `images/${images.length + 1}-${path.basename(localPath)}`;
+      images.push({ name, data: await fs.promises.readFile(localPath) });
+      localNames.set(url, name);
+      return name;
+    } catch (error) {
+      console.warn(`[ArticleExport] 無法讀取截圖 ${localPath}:`, error.message);
+      localNames.set(url, toAbsoluteUrl(url, baseUrl));
+      return localNames.get(url);
+    }
+  };
+
+  let articleHtml = renderArticleHtml(result.article);
+  for (const src of new Set([...articleHtml.matchAll(/<img[^>]*\bsrc\s*=\s*["']([^"']+)["']/gi)].map((match) => match[1]))) {
+    const bundled = await bundleImage(src);
+    if (bundled !== src) articleHtml = articleHtml.split(src).join(bundled);
+  }
+
+  const figures = [];
+  for (const group of collectScreenshotGroups(result)) {
+    const sources = [];
+    for (const url of group.urls) {
+      sources.push(await bundleImage(url));
+    }
+    const caption = [group.timestamp, group.caption].filter(Boolean).join(' ');
+    figures.push(
+      `<figure>\n${sources.map((src) => `  <img src="${escapeHtml(src)}" alt="${escapeHtml(group.caption)}">`).join('\n')}\n` +
+        `${caption ? `  <figcaption>${escapeHtml(caption)}</figcaption>\n` : ''}</figure>`
+    );
+  }
+
+  const sourceUrl = getSourceUrl(video);
+  const document = `<!DOCTYPE html>
+<html lang="zh-Hant">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(result.titleA)}</title>
+<meta name="description" content="${escapeHtml(result.seo_description)}">
+<style>
+body { max-width: 760px; margin: 2rem auto; padding: 0 1rem; font-family: system-ui, -apple-system, "Noto Sans TC", sans-serif; line-height: 1.8; color: #1f2937; }
+img { max-width: 100%; height: auto; }
+figure { margin: 1.5rem 0; display: grid; grid-template-columns: repeat(auto-fit, minmax(200px, 1fr)); gap: 0.5rem; }
+figcaption { grid-column: 1 / -1; font-size: 0.875rem; color: #6b7280; }
+</style>
+</head>
+<body>
+<article>
+<h1>${escapeHtml(result.titleA)}</h1>
+${articleHtml}
+</article>
+${figures.length > 0 ? `<section>\n<h2>${SCREENSHOT_SECTION_TITLE}</h2>\n${figures.join('\n')}\n</section>\n` : ''}<footer><p>原始內容：<a href="${escapeHtml(sourceUrl)}">${escapeHtml(sourceUrl)}</a></p></footer>
+</body>
+</html>
+`;
+
+  return createZipArchive([{ name: 'index.html', data: document }, ...images]);
+}
+
+function cdata(text) {
+  return `<![CDATA[${String(text ?? '').replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+}
+
+function formatWxrDate(date) {
+  return date.toISOString().replace('T', ' ').slice(0, 19);
+}
+
+/**
+ * 匯出 WordPress WXR 匯入檔（文章為草稿狀態；截圖以附件匯入，需為 WordPress 可下載的絕對網址）
+ * @param {object} result - ArticleGenerationResult
+ * @param {object} options
+ * @param {{ id: string, title: string, isUrlOnly?: boolean }} options.video
+ * @param {string} [options.baseUrl] - 伺服器網址，用於把 /images/... 轉成絕對網址
+ * @param {string} [options.author='admin'] - WordPress 作者登入名稱（匯入時可重新指定）
+ * @param {Date} [options.date]
+ * @returns {string}
+ */
+export function exportArticleWxr(result, { video, baseUrl, author = 'admin', date = new Date() }) {
+  const screenshots = collectScreenshotGroups(result);
+  const screenshotHtml = screenshots
+    .map((group) => {
+      const caption = [group.timestamp, group.caption].filter(Boolean).join(' ');
+      return `<figure class="wp-block-image"><img src="${escapeHtml(toAbsoluteUrl(group.primary, baseUrl))}" alt="${escapeHtml(group.caption)}">${caption ? `<figcaption>${escapeHtml(caption)}</figcaption>` : ''}</figure>`;
+    })
+    .join('\n');
+  const content = [
+    absolutizeHtmlImages(renderArticleHtml(result.article), baseUrl),
+    screenshotHtml ? `<h2>${SCREENSHOT_SECTION_TITLE}</h2>\n${screenshotHtml}` : '',
+  ].filter(Boolean).join('\n');
+
+  const postId = 1;
+  const postDate = formatWxrDate(date);
+  const attachments = screenshots
+    .map((group) => toAbsoluteUrl(group.primary, baseUrl))
+    .filter((url) => /^https?:\/\//i.test(url))
+    .map((url, index) => `
+  <item>
+    <title>${escapeHtml(path.basename(new URL(url).pathname))}</title>
+    <dc:creator>${cdata(author)}</dc:creator>
+    <content:encoded>${cdata('')}</content:encoded>
+    <wp:post_id>${postId + index + 1}</wp:post_id>
+    <wp:post_date>${cdata(postDate)}</wp:post_date>
+    <wp:post_date_gmt>${cdata(postDate)}</wp:post_date_gmt>
+    <wp:status>${cdata('inherit')}</wp:status>
+    <wp:post_parent>${postId}</wp:post_parent>
+    <wp:post_type>${cdata('attachment')}</wp:post_type>
+    <wp:attachment_url>${cdata(url)}</wp:attachment_url>
+  </item>`)
+    .join('');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0"
+  xmlns:excerpt="http://wordpress.org/export/1.2/excerpt/"
+  xmlns:content="http://purl.org/rss/1.0/modules/content/"
+  xmlns:wfw="http://wellformedweb.org/CommentAPI/"
+  xmlns:dc="http://purl.org/dc/elements/1.1/"
+  xmlns:wp="http://wordpress.org/export/1.2/">
+<channel>
+  <title>${escapeHtml(result.titleA)}</title>
+  <link>${escapeHtml(baseUrl || '')}</link>
+  <description>${escapeHtml(result.seo_description)}</description>
+  <pubDate>${date.toUTCString()}</pubDate>
+  <language>zh-TW</language>
+  <wp:wxr_version>1.2</wp:wxr_version>
+  <wp:author>
+    <wp:author_login>${cdata(author)}</wp:author_login>
+    <wp:author_display_name>${cdata(author)}</wp:author_display_name>
+  </wp:author>
+  <item>
+    <title>${escapeHtml(result.titleA)}</title>
+    <pubDate>${date.toUTCString()}</pubDate>
+    <dc:creator>${cdata(author)}</dc:creator>
+    <guid isPermaLink="false">${escapeHtml(`ai-video-writer:${video.id}`)}</guid>
+    <description></description>
+    <content:encoded>${cdata(content)}</content:encoded>
+    <excerpt:encoded>${cdata(result.seo_description)}</excerpt:encoded>
+    <wp:post_id>${postId}</wp:post_id>
+    <wp:post_date>${cdata(postDate)}</wp:post_date>
+    <wp:post_date_gmt>${cdata(postDate)}</wp:post_date_gmt>
+    <wp:comment_status>${cdata('closed')}</wp:comment_status>
+    <wp:ping_status>${cdata('closed')}</wp:ping_status>
+    <wp:status>${cdata('draft')}</wp:status>
+    <wp:post_parent>0</wp:post_parent>
+    <wp:menu_order>0</wp:menu_order>
+    <wp:post_type>${cdata('post')}</wp:post_type>
+    <wp:is_sticky>0</wp:is_sticky>
+    <wp:postmeta>
+      <wp:meta_key>${cdata('source_url')}</wp:meta_key>
+      <wp:meta_value>${cdata(getSourceUrl(video))}</wp:meta_value>
+    </wp:postmeta>
+  </item>${attachments}
+</channel>
+</rss>
+`;
+}
+
+/**
+ * 依格式匯出文章
+ * @param {'markdown' | 'html' | 'wxr'} format
+ * @param {object} result - ArticleGenerationResult
+ * @param {object} options - 見各格式的匯出函式
+ * @returns {Promise<{ fileName: string, contentType: string, data: Buffer | string }>}
+ * @throws {Error} 格式不支援或缺少文章內容時
+ */
+export async function exportArticle(format, result, options) {
+  const spec = EXPORT_FORMATS[format];
+  if (!spec) {
+    throw new Error(`Unsupported export format: ${format}`);
+  }
+  if (!result || typeof result.article !== 'string' || !result.article.trim()) {
+    throw new Error('result.article is required');
+  }
+  if (!options?.video?.id) {
+    throw new Error('video.id is required');
+  }
+
+  const data =
+    format === 'markdown'
+      ? exportArticleMarkdown(result, options)
+      : format === 'html'
+        ? await exportArticleHtmlBundle(result, options)
+        : exportArticleWxr(result, options);
+
+  const baseName = options.video.id.replace(/[^a-zA-Z0-9_-]/g, '_');
+  return { fileName: `${baseName}.${spec.extension}`, contentType: spec.contentType, data };
+}
@@ -0,0 +1,257 @@
+/**
+ * 文章審稿流程
+ * 文章依影片共用一筆審稿紀錄（所有登入工作區的使用者看到同一個佇列），
+ * 狀態依序為 draft → in_review → approved → published，審稿者可針對文章段落留言；
+ * 只有核准且內容與核准版本一致的文章才能發佈到 Notion
+ */
+
+import crypto from 'crypto';
+import { createJsonFileStore } from './jsonFileStore.js';
+
+export const REVIEW_STATUSES = ['draft', 'in_review', 'approved', 'published'];
+
+// 允許的人工狀態轉換（published 只能由發佈成功時設定）
+const ALLOWED_TRANSITIONS = {
+  draft: ['in_review'],
+  in_review: ['approved', 'draft'],
+  approved: ['draft'],
+  published: ['draft'],
+};
+
+// 預設不允許作者核准自己的文章；單人工作區可設為 true
+const ALLOW_SELF_APPROVAL = process.env.ARTICLE_REVIEW_ALLOW_SELF_APPROVAL === 'true';
+
+const MAX_COMMENT_LENGTH = 2000;
+
+const file = createJsonFileStore('article-reviews.json', { reviews: {} });
+// videoId -> review
+const reviews = new Map(Object.entries(file.read().reviews || {}));
+
+const persist = () => {
+  file.write({ reviews: Object.fromEntries(reviews) });
+};
+
+function toSummary(review) {
+  return {
+    videoId: review.videoId,
+    video: review.video,
+    owner: review.owner,
+    status: review.status,
+    title: review.content?.titleA ?? '',
+    openComments: review.comments.filter((comment) => !comment.resolved).length,
+    createdAt: review.createdAt,
+    updatedAt: review.updatedAt,
+    published: review.published,
+  };
+}
+
+function pushHistory(review, status, by, note) {
+  review.history.push({ status, by, note: note || null, at: Date.now() });
+  review.status = status;
+  review.updatedAt = Date.now();
+}
+
+/**
+ * 列出審稿紀錄（最近更新的在前）
+ * @param {object} [options]
+ * @param {string} [options.status] - 只列出指定狀態
+ * @returns {Array<object>} 摘要（不含文章內容）
+ */
+export function listArticleReviews({ status } = {}) {
+  return Array.from(reviews.values())
+    .filter((review) => !status || review.status === status)
+    .map(toSummary)
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+/**
+ * 取得完整審稿紀錄（含送審內容、留言與狀態歷程）
+ * @param {string} videoId
+ * @returns {object | null}
+ */
+export function getArticleReview(videoId) {
+  return reviews.get(videoId) ?? null;
+}
+
+/**
+ * 送出文章審稿；已有紀錄時以新內容取代並重新進入 in_review（留言保留）
+ * @param {object} submission
+ * @param {{ id: string, title: string, isUrlOnly?: boolean }} submission.video
+ * @param {object} submission.result - ArticleGenerationResult
+ * @param {string} [submission.revisionId] - 對應的草稿版本
+ * @param {string} submission.userId - 送審者
+ * @returns {object} 審稿紀錄
+ * @throws {Error} 缺少影片或文章內容時
+ */
+export function submitArticleForReview({ video, result, revisionId, userId }) {
+  if (!video?.id || typeof video.id !== 'string' || !result || typeof result.article !== 'string' || !result.article.trim()) {
+    throw new Error('video.id and result.article are required');
+  }
+
+  const existing = reviews.get(video.id);
+  const review = existing || {
+    videoId: video.id,
+    createdAt: Date.now(),
+    comments: [],
+    history: [],
+    published: null,
+    notion: null,
+  };
+
+  review.video = { id: video.id, title: video.title || video.id, isUrlOnly: Boolean(video.isUrlOnly) };
+  review.owner = userId;
+  review.content = result;
+  review.revisionId = revisionId || null;
+  pushHistory(review, 'in_review', userId, existing ? '重新送審' : null);
+  reviews.set(video.id, review);
+  persist();
+
+  console.log(`[ArticleReview] ${video.id} 已送審 by ${userId}`);
+  return review;
+}
+
+/**
+ * 檢查使用者是否可以核准這篇文章
+ * @param {object} review
+ * @param {string} userId
+ */
+export function canApproveArticleReview(review, userId) {
+  return ALLOW_SELF_APPROVAL || review.owner !== userId;
+}
+
+/**
+ * 變更審稿狀態（核准、退回修改、撤銷核准）
+ * @param {string} videoId
+ * @param {object} change
+ * @param {string} change.status - 目標狀態
+ * @param {string} change.userId
+ * @param {string} [change.note] - 退回原因等備註
+ * @returns {object} 審稿紀錄
+ * @throws {Error} 找不到紀錄或不允許的狀態轉換時
+ */
+export function transitionArticleReview(videoId, { status, userId, note }) {
+  const review = reviews.get(videoId);
+  if (!review) throw new Error('Review not found');
+  if (!ALLOWED_TRANSITIONS[review.status]?.includes(status)) {
+    throw new Error(`Cannot change status from ${review.status} to ${status}`);
+  }
+  if (status === 'approved' && !canApproveArticleReview(review, userId)) {
+    throw new Error('Authors cannot approve their own article');
+  }
+
+  pushHistory(review, status, userId, typeof note === 'string' ? note.trim().slice(0, MAX_COMMENT_LENGTH) : null);
+  persist();
+
+  console.log(`[ArticleReview] ${videoId} → ${status} by ${userId}`);
+  return review;
+}
+
+/**
+ * 檢查文章是否可以發佈（已核准或已發佈過，且內容與核准時相同）
+ * @param {string} videoId
+ * @param {string} article - 要發佈的文章內容
+ * @returns {{ allowed: boolean, reason?: string }}
+ */
+export function checkArticlePublishable(videoId, article) {
+  const review = reviews.get(videoId);
+  if (!review || !['approved', 'published'].includes(review.status)) {
+    return { allowed: false, reason: '文章尚未通過審稿，核准後才能發佈' };
+  }
+  if (review.content?.article !== article) {
+    return { allowed: false, reason: '文章內容與核准版本不同，請重新送審' };
+  }
+  return { allowed: true };
+}
+
+/**
+ * 發佈成功後標記為 published
+ * @param {string} videoId
+ * @param {object} publication
+ * @param {string} publication.userId
+ * @param {string} publication.target - 發佈目的地，例如 notion
+ * @param {string} [publication.url]
+ * @param {string} [publication.pageId]
+ * @returns {object | null} 審稿紀錄
+ */
+export function markArticlePublished(videoId, { userId, target, url, pageId }) {
+  const review = reviews.get(videoId);
+  if (!review) return null;
+
+  review.published = { target, url: url || null, pageId: pageId || null, by: userId, at: Date.now() };
+  pushHistory(review, 'published', userId, null);
+  persist();
+
+  console.log(`[ArticleReview] ${videoId} 已發佈到 ${target} by ${userId}`);
+  return review;
+}
+
+/**
+ * 記錄文章對應的 Notion 頁面，之後重新發佈時更新同一頁面
+ * @param {string} videoId
+ * @param {{ pageId: string, url: string, databaseId: string, lastEditedTime: string }} page
+ * @returns {object | null} 審稿紀錄
+ */
+export function setArticleNotionPage(videoId, page) {
+  const review = reviews.get(videoId);
+  if (!review) return null;
+  review.notion = { ...page, publishedAt: Date.now() };
+  persist();
+  return review;
+}
+
+/**
+ * 新增段落留言
+ * @param {string} videoId
+ * @param {object} comment
+ * @param {number} comment.sectionIndex - 文章段落索引
+ * @param {string} [comment.sectionHeading] - 段落標題（內容變動後用於對回段落）
+ * @param {string} [comment.quote] - 引用的文字
+ * @param {string} comment.body
+ * @param {string} comment.author
+ * @returns {object} 新增的留言
+ * @throws {Error} 找不到紀錄或留言內容不正確時
+ */
+export function addArticleReviewComment(videoId, { sectionIndex, sectionHeading, quote, body, author }) {
+  const review = reviews.get(videoId);
+  if (!review) throw new Error('Review not found');
+  if (!Number.isInteger(sectionIndex) || sectionIndex < 0) {
+    throw new Error('sectionIndex must be a non-negative integer');
+  }
+  if (typeof body !== 'string' || !body.trim() || body.length > MAX_COMMENT_LENGTH) {
+    throw new Error(`Comment body is required (max ${MAX_COMMENT_LENGTH} characters)`);
+  }
+
+  const comment = {
+    id: `cm_${Date.now()}_${crypto.randomBytes(4).toString('hex')}`,
+    sectionIndex,
+    sectionHeading: typeof sectionHeading === 'string' ? sectionHeading.slice(0, 200) : '',
+    quote: typeof quote === 'string' ? quote.slice(0, 500) : '',
+    body: body.trim(),
+    author,
+    createdAt: Date.now(),
+    resolved: false,
+    resolvedBy: null,
+  };
+  review.comments.push(comment);
+  review.updatedAt = Date.now();
+  persist();
+  return comment;
+}
+
+/**
+ * 標記留言為已解決／重新開啟
+ * @param {string} videoId
+ * @param {string} commentId
+ * @param {{ resolved: boolean, userId: string }} change
+ * @returns {object | null} 更新後的留言，找不到時回傳 null
+ */
+export function setArticleReviewCommentResolved(videoId, commentId, { resolved, userId }) {
+  const comment = reviews.get(videoId)?.comments.find((item) => item.id === commentId);
+  if (!comment) return null;
+
+  comment.resolved = Boolean(resolved);
+  comment.resolvedBy = comment.resolved ? userId : null;
+  reviews.get(videoId).updatedAt = Date.now();
+  persist();
+  return comment;
+}
@@ -0,0 +1,142 @@
+/**
+ * 字幕格式工具：整理逐字稿片段並匯出 SRT / WebVTT
+ *
+ * 注意：此檔案使用 .js 格式，讓 server.js 與前端字幕編輯器共用同一套規則
+ * 片段格式：{ start: 秒, end: 秒, text: 字幕文字 }
+ */
+
+export const CAPTION_FORMATS = {
+  srt: { extension: 'srt', mimeType: 'application/x-subrip' },
+  vtt: { extension: 'vtt', mimeType: 'text/vtt' },
+};
+
+// AI 未提供結束時間時，每個片段預設的顯示長度（秒）
+const DEFAULT_SEGMENT_SECONDS = 3;
+
+/**
+ * 解析字幕時間（接受 "01:02:03,456"、"01:02:03.456"、"02:03"、"2:03.5" 或秒數）
+ * @param {unknown} value
+ * @returns {number | null} 無法解析時回傳 null
+ */
+export function parseCaptionTime(value) {
+  if (typeof value === 'number') return Number.isFinite(value) && value >= 0 ? value : null;
+  const text = String(value ?? '').trim().replace(',', '.');
+  if (/^\d+(?:\.\d+)?$/.test(text)) return parseFloat(text);
+
+  const parts = text.split(':');
+  if (parts.length < 2 || parts.length > 3) return null;
+  if (!parts.slice(0, -1).every((part) => /^\d{1,2}$/.test(part)) || !/^\d{1,2}(?:\.\d+)?$/.test(parts[parts.length - 1])) {
+    return null;
+  }
+  const numbers = parts.map((part) => parseFloat(part));
+  if (numbers.slice(1).some((number) => number >= 60)) return null;
+  return numbers.reduce((total, number) => total * 60 + number, 0);
+}
+
+/**
+ * 秒數轉為字幕時間
+ * @param {number} seconds
+ * @param {',' | '.'} [millisecondSeparator] - SRT 使用逗號、WebVTT 使用句點
+ * @returns {string} 例如 00:01:02,345
+ */
+export function formatCaptionTime(seconds, millisecondSeparator = ',') {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (number, length = 2) => String(number).padStart(length, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${millisecondSeparator}${pad(ms, 3)}`;
+}
+
+/**
+ * 整理 AI 回傳或使用者編輯的片段：依時間排序、移除空白片段、補上缺少的結束時間並修正重疊
+ * @param {unknown} rawSegments
+ * @param {number | null} [durationSeconds] - 影片長度，提供時最後一段不會超出影片
+ * @returns {Array<{ start: number, end: number, text: string }>}
+ */
+export function normalizeTranscriptSegments(rawSegments, durationSeconds) {
+  if (!Array.isArray(rawSegments)) return [];
+
+  const segments = rawSegments
+    .map((segment) => {
+      if (!segment || typeof segment !== 'object') return null;
+      const start = parseCaptionTime(segment.start ?? segment.startTime);
+      const end = parseCaptionTime(segment.end ?? segment.endTime);
+      const text = String(segment.text ?? '').replace(/\s*\n\s*/g, '\n').trim();
+      if (start === null || !text) return null;
+      return { start, end, text };
+    })
+    .filter(Boolean)
+    .sort((a, b) => a.start - b.start);
+
+  return segments.map((segment, index) => {
+    const next = segments[index + 1];
+    let end = segment.end !== null && segment.end > segment.start ? segment.end : segment.start + DEFAULT_SEGMENT_SECONDS;
+    if (next && end > next.start) end = next.start;
+    if (typeof durationSeconds === 'number' && end > durationSeconds) end = Math.max(segment.start, durationSeconds);
+    // 與下一段同時開始時至少保留 0.1 秒，避免播放器忽略零長度字幕
+    if (end <= segment.start) end = segment.start + 0.1;
+    return { start: roundMs(segment.start), end: roundMs(end), text: segment.text };
+  });
+}
+
+function roundMs(seconds) {
+  return Math.round(seconds * 1000) / 1000;
+}
+
+/**
+ * 匯出 SRT
+ * @param {Array<{ start: number, end: number, text: string }>} segments
+ * @returns {string}
+ */
+export function toSrt(segments) {
+  return segments
+    .map((segment, index) =>
+      [index + 1, `${formatCaptionTime(segment.start, ',')} --> ${formatCaptionTime(segment.end, ',')}`, segment.text].join('\n')
+    )
+    .join('\n\n')
+    .concat('\n');
+}
+
+/**
+ * 匯出 WebVTT
+ * @param {Array<{ start: number, end: number, text: string }>} segments
+ * @returns {string}
+ */
+export function toWebVtt(segments) {
+  const cues = segments.map(
+    (segment) =>
+      // WebVTT 字幕文字中不能出現 "-->"
+      `${formatCaptionTime(segment.start, '.')} --> ${formatCaptionTime(segment.end, '.')}\n${segment.text.replace(/-->/g, '->')}`
+  );
+  return ['WEBVTT', ...cues].join('\n\n').concat('\n');
+}
+
+/**
+ * 依格式匯出字幕
+ * @param {Array<{ start: number, end: number, text: string }>} segments
+ * @param {'srt' | 'vtt'} format
+ * @returns {string}
+ */
+export function formatCaptions(segments, format) {
+  return format === 'vtt' ? toWebVtt(segments) : toSrt(segments);
+}
+
+/**
+ * 將逐字稿轉為帶時間標記的純文字（供文章生成等 prompt 使用）
+ * @param {Array<{ start: number, end: number, text: string }>} segments
+ * @returns {string} 每行格式為 "[MM:SS] 文字"
+ */
+export function transcriptToText(segments) {
+  return segments
+    .map((segment) => {
+      const total = Math.floor(segment.start);
+      const hours = Math.floor(total / 3600);
+      const minutes = String(Math.floor((total % 3600) / 60)).padStart(2, '0');
+      const seconds = String(total % 60).padStart(2, '0');
+      const time = hours > 0 ? `${hours}:${minutes}:${seconds}` : `${minutes}:${seconds}`;
+      return `[${time}] ${segment.text.replace(/\n/g, ' ')}`;
+    })
+    .join('\n');
+}
@@ -0,0 +1,59 @@
+/**
+ * 頻道存取權
+ * 記錄哪些使用者曾以頻道的 YouTube 授權證明自己管理該頻道，
+ * 頻道的私人設定與數據（優先級規則、數據快照、異常提醒、定期報表）只開放給這些使用者
+ * 以頻道登入（ALLOWED_CHANNEL_IDS）時 JWT 使用者就是頻道 ID，不需另外記錄
+ */
+
+import { createJsonFileStore } from './jsonFileStore.js';
+
+const file = createJsonFileStore('channel-access.json', { channels: {} });
+// channelId -> { [userId]: 驗證時間 }
+const usersByChannel = new Map(Object.entries(file.read().channels || {}));
+
+const persist = () => {
+  file.write({ channels: Object.fromEntries(usersByChannel) });
+};
+
+/**
+ * 使用者是否可以存取頻道
+ * @param {string} channelId
+ * @param {string} userId
+ * @returns {boolean}
+ */
+export function hasChannelAccess(channelId, userId) {
+  if (!channelId || !userId) return false;
+  return userId === channelId || Boolean(usersByChannel.get(channelId)?.[userId]);
+}
+
+/**
+ * 記錄使用者已通過頻道驗證
+ * @param {string} channelId
+ * @param {string} userId
+ */
+export function grantChannelAccess(channelId, userId) {
+  if (!channelId || !userId || userId === channelId) return;
+  const users = usersByChannel.get(channelId) || {};
+  const isNew = !users[userId];
+  users[userId] = Date.now();
+  usersByChannel.set(channelId, users);
+  persist();
+
+  if (isNew) {
+    console.log(`[ChannelAccess] ${userId} 已通過頻道 ${channelId} 的驗證`);
+  }
+}
+
+/**
+ * 列出使用者可以存取的頻道（以頻道登入時包含使用者本身的頻道）
+ * @param {string} userId
+ * @returns {string[]}
+ */
+export function listAccessibleChannelIds(userId) {
+  const channelIds = [];
+  for (const [channelId, users] of usersByChannel) {
+    if (users[userId]) channelIds.push(channelId);
+  }
+  if (userId && !channelIds.includes(userId)) channelIds.push(userId);
+  return channelIds;
+}
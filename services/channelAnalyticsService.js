@@ -6,6 +6,7 @@
 import { google } from 'googleapis';
 import { recordQuota as recordQuotaServer } from './quotaTracker.js';
 import { loadFromGist } from './videoCacheService.js';
+import { isValidSnapshotChannelId, readVideoSnapshots } from './analyticsSnapshotStore.js';
 import dotenv from 'dotenv';
 
 dotenv.config({ path: '.env.local' });
@@ -30,7 +31,7 @@ const DEFAULT_MAX_VIDEOS = 10000;
  * @param {string} keyword - 關鍵字
  * @returns {Array} 符合條件的影片列表
  */
-function filterVideosByKeywordClient(videos, keyword) {
+export function filterVideosByKeywordClient(videos, keyword) {
   if (!keyword || keyword.trim() === '') {
     return videos;
   }
@@ -382,6 +383,40 @@ async function getAllChannelVideos(youtube, channelId, maxVideos = DEFAULT_MAX_V
   return videos;
 }
 
+/**
+ * 從歷史快照彙總指定影片的數據（快照涵蓋整個日期範圍時才使用）
+ * @returns {Object|null} 聚合數據，快照不完整時回傳 null
+ */
+function getAggregatedFromSnapshots(channelId, videoIds, startDate, endDate) {
+  if (videoIds.length === 0 || !isValidSnapshotChannelId(channelId)) {
+    return null;
+  }
+
+  try {
+    const { coverage, totals } = readVideoSnapshots(channelId, startDate, endDate, videoIds);
+    if (!coverage.complete) {
+      return null;
+    }
+
+    const interactions = totals.likes + totals.comments + totals.shares;
+    return {
+      views: totals.views,
+      estimatedMinutesWatched: totals.estimatedMinutesWatched,
+      averageViewDuration: totals.averageViewDuration,
+      averageViewPercentage: totals.averageViewPercentage,
+      likes: totals.likes,
+      comments: totals.comments,
+      shares: totals.shares,
+      subscribersGained: totals.subscribersGained,
+      interactionRate: totals.views > 0 ? parseFloat((interactions / totals.views * 100).toFixed(2)) : 0,
+      videoCount: videoIds.length,
+    };
+  } catch (error) {
+    console.warn('[ChannelAnalytics] ⚠️ 讀取歷史快照失敗:', error.message);
+    return null;
+  }
+}
+
 /**
  * 獲取指定日期範圍的影片聚合數據
  * 注意：此函數只查詢指定時間段內的數據，不是影片的全部歷史數據
@@ -401,6 +436,14 @@ async function getAggregatedAnalytics(youtubeAnalytics, channelId, videoIds, sta
     return cached.data;
   }
 
+  // 歷史快照已涵蓋此時間段時不需查詢 API（零配額成本）
+  const snapshotData = getAggregatedFromSnapshots(channelId, videoIds, startDate, endDate);
+  if (snapshotData) {
+    console.log(`[ChannelAnalytics] 🗄️ 使用歷史快照: ${startDate} ~ ${endDate} (${videoIds.length} 支影片)`);
+    analyticsCache.set(cacheKey, { data: snapshotData, timestamp: Date.now() });
+    return snapshotData;
+  }
+
   console.log(`[ChannelAnalytics] 📊 查詢指定時間段數據: ${startDate} ~ ${endDate} (${videoIds.length} 支影片)`);
 
   if (videoIds.length === 0) {
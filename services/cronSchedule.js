@@ -0,0 +1,118 @@
+/**
+ * Cron 排程解析
+ * 支援標準 5 欄位（分 時 日 月 星期）與 *、逗號清單、範圍（1-5）、間隔（*\/15、1-10/2），不需額外套件
+ * 時間一律以台灣時間（UTC+8，無日光節約）計算，與儀表板的日期一致
+ */
+
+const TIMEZONE_OFFSET_MS = 8 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+// 找不到下一次執行時間時的搜尋上限（例如 2 月 30 日）
+const MAX_SEARCH_YEARS = 5;
+
+const FIELDS = [
+  { name: '分', min: 0, max: 59 },
+  { name: '時', min: 0, max: 23 },
+  { name: '日', min: 1, max: 31 },
+  { name: '月', min: 1, max: 12 },
+  { name: '星期', min: 0, max: 7 },
+];
+
+export const CRON_PRESETS = {
+  daily: { label: '每天 09:00', expression: '0 9 * * *' },
+  weekly: { label: '每週一 09:00', expression: '0 9 * * 1' },
+  monthly: { label: '每月 1 日 09:00', expression: '0 9 1 * *' },
+};
+
+function parseField(source, { name, min, max }) {
+  const values = new Set();
+  for (const part of source.split(',')) {
+    const match = part.match(/^(\*|\d+(?:-\d+)?)(?:\/(\d+))?$/);
+    if (!match) {
+      throw new Error(`「${name}」欄位格式不正確：${part}`);
+    }
+    const [, range, stepText] = match;
+    const step = stepText ? Number(stepText) : 1;
+    let [start, end] = range === '*' ? [min, max] : range.split('-').map(Number);
+    if (end === undefined) end = stepText ? max : start;
+    if (start < min || end > max || start > end || step < 1) {
+      throw new Error(`「${name}」欄位超出範圍（${min}-${max}）：${part}`);
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+}
+
+/**
+ * 解析 cron 表達式
+ * @param {string} expression - 例如 "0 9 * * 1"（每週一 09:00）
+ * @returns {{ minutes: Set<number>, hours: Set<number>, days: Set<number>, months: Set<number>, weekdays: Set<number>, dayRestricted: boolean, weekdayRestricted: boolean }}
+ * @throws {Error} 格式不正確時
+ */
+export function parseCronExpression(expression) {
+  const parts = typeof expression === 'string' ? expression.trim().split(/\s+/) : [];
+  if (parts.length !== 5) {
+    throw new Error('Cron 表達式需為 5 個欄位：分 時 日 月 星期');
+  }
+
+  const [minutes, hours, days, months, weekdays] = parts.map((part, index) => parseField(part, FIELDS[index]));
+  // 星期的 7 與 0 同為星期日
+  if (weekdays.delete(7)) weekdays.add(0);
+
+  return {
+    minutes,
+    hours,
+    days,
+    months,
+    weekdays,
+    dayRestricted: parts[2] !== '*',
+    weekdayRestricted: parts[4] !== '*',
+  };
+}
+
+function matchesDay(schedule, date) {
+  const dayMatch = schedule.days.has(date.getUTCDate());
+  const weekdayMatch = schedule.weekdays.has(date.getUTCDay());
+  // 與標準 cron 相同：日與星期都有限制時，符合其一即可
+  if (schedule.dayRestricted && schedule.weekdayRestricted) return dayMatch || weekdayMatch;
+  if (schedule.dayRestricted) return dayMatch;
+  if (schedule.weekdayRestricted) return weekdayMatch;
+  return true;
+}
+
+/**
+ * 計算下一次執行時間（晚於 after 的第一個符合的分鐘）
+ * @param {string} expression
+ * @param {number} [after] - 毫秒時間戳，預設為現在
+ * @returns {number | null} 毫秒時間戳，找不到時回傳 null
+ */
+export function getNextRunTime(expression, after = Date.now()) {
+  const schedule = parseCronExpression(expression);
+  // 以 UTC 欄位表示台灣時間，避免受伺服器時區影響
+  const cursor = new Date(Math.floor((after + TIMEZONE_OFFSET_MS) / MINUTE_MS) * MINUTE_MS + MINUTE_MS);
+  const limitYear = cursor.getUTCFullYear() + MAX_SEARCH_YEARS;
+
+  while (cursor.getUTCFullYear() <= limitYear) {
+    if (!schedule.months.has(cursor.getUTCMonth() + 1)) {
+      cursor.setUTCMonth(cursor.getUTCMonth() + 1, 1);
+      cursor.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!matchesDay(schedule, cursor)) {
+      cursor.setUTCDate(cursor.getUTCDate() + 1);
+      cursor.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.hours.has(cursor.getUTCHours())) {
+      cursor.setUTCHours(cursor.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.minutes.has(cursor.getUTCMinutes())) {
+      cursor.setUTCMinutes(cursor.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+    return cursor.getTime() - TIMEZONE_OFFSET_MS;
+  }
+  return null;
+}
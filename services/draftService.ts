@@ -1,21 +1,32 @@
 import type { ArticleGenerationResult, YouTubeVideo } from '../types';
+import * as videoApiService from './videoApiService';
+import type {
+  ArticleDraftDetail,
+  ArticleDraftRevision,
+  ArticleDraftSource,
+  ArticleDraftSummary,
+} from './videoApiService';
 
-export interface ArticleDraft {
+export type { ArticleDraftDetail, ArticleDraftRevision, ArticleDraftSummary };
+
+/** 舊版存在 localStorage 的草稿格式（只用於搬移到伺服器） */
+interface LegacyArticleDraft {
   id: string;
   savedAt: string;
   video: Pick<YouTubeVideo, 'id' | 'title' | 'isUrlOnly'>;
   templateId: string;
   colorTheme: string;
   customPrompt: string;
-  referenceUrls: string[];
-  referenceVideos: string[];
+  referenceUrls?: string[];
+  referenceVideos?: string[];
   result: ArticleGenerationResult;
 }
 
-const MAX_DRAFTS = 20;
 const DRAFTS_KEY_PREFIX = 'cockpit_drafts';
 const USER_SUB_KEY = 'cockpit_user_sub';
 
+let migrationPromise: Promise<number> | null = null;
+
 function getDraftKey(): string {
   try {
     const sub = sessionStorage.getItem(USER_SUB_KEY);
@@ -25,7 +36,7 @@ function getDraftKey(): string {
   }
 }
 
-/** Call once after Google login with the access token to namespace drafts by account. */
+/** Call once after Google login with the access token to find this account's legacy drafts. */
 export async function initUserSub(accessToken: string | null): Promise<void> {
   if (!accessToken) return;
   try {
@@ -39,57 +50,105 @@ export async function initUserSub(accessToken: string | null): Promise<void> {
   } catch {}
 }
 
-export function loadDrafts(): ArticleDraft[] {
+function readLegacyDrafts(key: string): LegacyArticleDraft[] {
   try {
-    const raw = localStorage.getItem(getDraftKey());
+    const raw = localStorage.getItem(key);
     return raw ? JSON.parse(raw) : [];
   } catch {
     return [];
   }
 }
 
-export function saveDraft(
+/**
+ * 將 localStorage 的舊草稿搬到伺服器（由舊到新上傳，成功的會從 localStorage 移除）
+ * @returns 成功搬移的草稿數
+ */
+async function migrateLegacyDrafts(): Promise<number> {
+  const key = getDraftKey();
+  const legacyDrafts = readLegacyDrafts(key);
+  if (legacyDrafts.length === 0) return 0;
+
+  const remaining: LegacyArticleDraft[] = [];
+  let migrated = 0;
+  for (const draft of [...legacyDrafts].reverse()) {
+    try {
+      await videoApiService.saveArticleDraftRevision({
+        video: draft.video,
+        result: draft.result,
+        templateId: draft.templateId,
+        colorTheme: draft.colorTheme,
+        customPrompt: draft.customPrompt,
+        referenceUrls: draft.referenceUrls ?? [],
+        referenceVideos: draft.referenceVideos ?? [],
+        source: 'local-migration',
+        savedAt: draft.savedAt,
+      });
+      migrated++;
+    } catch (error) {
+      console.warn(`[Drafts] 搬移草稿 ${draft.video?.id} 失敗，下次載入時重試:`, error);
+      remaining.unshift(draft);
+    }
+  }
+
+  try {
+    if (remaining.length > 0) {
+      localStorage.setItem(key, JSON.stringify(remaining));
+    } else {
+      localStorage.removeItem(key);
+    }
+  } catch {}
+
+  console.log(`[Drafts] 已將 ${migrated} 份本機草稿搬移到伺服器`);
+  return migrated;
+}
+
+/** 首次載入時搬移舊草稿（同一頁面只執行一次，失敗的草稿留到下次重新整理） */
+function ensureLegacyDraftsMigrated(): Promise<number> {
+  if (!migrationPromise) {
+    migrationPromise = migrateLegacyDrafts().catch((error) => {
+      console.warn('[Drafts] 搬移本機草稿失敗:', error);
+      return 0;
+    });
+  }
+  return migrationPromise;
+}
+
+export async function loadDrafts(): Promise<ArticleDraftSummary[]> {
+  await ensureLegacyDraftsMigrated();
+  return videoApiService.listArticleDrafts();
+}
+
+export function getDraft(videoId: string): Promise<ArticleDraftDetail | null> {
+  return videoApiService.getArticleDraft(videoId);
+}
+
+export async function saveDraft(
   video: Pick<YouTubeVideo, 'id' | 'title' | 'isUrlOnly'>,
   result: ArticleGenerationResult,
   templateId: string,
   colorTheme: string,
   customPrompt: string,
   referenceUrls: string[] = [],
-  referenceVideos: string[] = []
-): ArticleDraft {
-  const drafts = loadDrafts();
-  const id = `${video.id}_${Date.now()}`;
-  const newDraft: ArticleDraft = {
-    id,
-    savedAt: new Date().toISOString(),
-    video,
+  referenceVideos: string[] = [],
+  source: ArticleDraftSource = 'generate'
+): Promise<ArticleDraftRevision> {
+  const { revision } = await videoApiService.saveArticleDraftRevision({
+    video: { id: video.id, title: video.title, isUrlOnly: video.isUrlOnly },
+    result,
     templateId,
     colorTheme,
     customPrompt,
     referenceUrls,
     referenceVideos,
-    result,
-  };
-
-  // Replace existing draft for the same video (one draft per video)
-  const filtered = drafts.filter((d) => d.video.id !== video.id);
-  filtered.unshift(newDraft);
-  const trimmed = filtered.slice(0, MAX_DRAFTS);
-
-  try {
-    localStorage.setItem(getDraftKey(), JSON.stringify(trimmed));
-  } catch {
-    // localStorage full — keep newest half and retry
-    const half = trimmed.slice(0, Math.floor(MAX_DRAFTS / 2));
-    try { localStorage.setItem(getDraftKey(), JSON.stringify(half)); } catch {}
-  }
+    source,
+  });
+  return revision;
+}
 
-  return newDraft;
+export function restoreRevision(videoId: string, revisionId: string): Promise<ArticleDraftRevision> {
+  return videoApiService.restoreArticleDraftRevision(videoId, revisionId);
 }
 
-export function deleteDraft(id: string): void {
-  const drafts = loadDrafts().filter((d) => d.id !== id);
-  try {
-    localStorage.setItem(getDraftKey(), JSON.stringify(drafts));
-  } catch {}
+export function deleteDraft(videoId: string): Promise<void> {
+  return videoApiService.deleteArticleDraft(videoId);
 }
@@ -0,0 +1,96 @@
+/**
+ * JSON 檔案儲存工具
+ * 提供伺服器端各服務共用的輕量持久化（不需額外資料庫）
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+// 資料目錄（可透過 DATA_DIR 指定，例如 Render 的 persistent disk 掛載點）
+export const DATA_DIR = process.env.DATA_DIR
+  ? path.resolve(process.env.DATA_DIR)
+  : path.join(process.cwd(), 'data');
+
+// 寫入節流：短時間內的多次更新合併成一次寫檔
+const WRITE_DEBOUNCE_MS = 200;
+
+// 已建立的 store，程序結束前統一 flush
+const openStores = new Set();
+
+/**
+ * 建立 JSON 檔案 store
+ * @param {string} fileName - 檔名（相對於 DATA_DIR），也可傳入絕對路徑
+ * @param {any} defaultValue - 檔案不存在或損毀時的預設值
+ * @returns {{ filePath: string, read: () => any, write: (value: any) => void, flushSync: () => void }}
+ */
+export function createJsonFileStore(fileName, defaultValue) {
+  const filePath = path.isAbsolute(fileName) ? fileName : path.join(DATA_DIR, fileName);
+  let pendingValue;
+  let hasPending = false;
+  let timer = null;
+
+  const writeNow = (value) => {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    // 先寫暫存檔再 rename，避免寫到一半當機造成檔案損毀
+    const tempPath = `${filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(value));
+    fs.renameSync(tempPath, filePath);
+  };
+
+  const flushSync = () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    if (!hasPending) return;
+    const value = pendingValue;
+    hasPending = false;
+    pendingValue = undefined;
+    try {
+      writeNow(value);
+    } catch (error) {
+      console.error(`[JsonFileStore] Failed to write ${filePath}:`, error.message);
+    }
+  };
+
+  const store = {
+    filePath,
+
+    read() {
+      try {
+        if (!fs.existsSync(filePath)) {
+          return structuredClone(defaultValue);
+        }
+        return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+      } catch (error) {
+        console.error(`[JsonFileStore] Failed to read ${filePath}, using default:`, error.message);
+        return structuredClone(defaultValue);
+      }
+    },
+
+    write(value) {
+      pendingValue = value;
+      hasPending = true;
+      if (!timer) {
+        timer = setTimeout(flushSync, WRITE_DEBOUNCE_MS);
+        timer.unref?.();
+      }
+    },
+
+    flushSync,
+  };
+
+  openStores.add(store);
+  return store;
+}
+
+/**
+ * 立即寫出所有尚未落地的變更（程序結束前呼叫）
+ */
+export function flushAllJsonFileStores() {
+  for (const store of openStores) {
+    store.flushSync();
+  }
+}
+
+process.once('exit', flushAllJsonFileStores);
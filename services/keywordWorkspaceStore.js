@@ -0,0 +1,243 @@
+/**
+ * 關鍵字報表工作區（關鍵字組合、日期欄位與顯示指標）
+ * 建立者可以編輯與刪除；設為共享後其他使用者可以查看、執行與複製成自己的工作區
+ */
+
+import crypto from 'crypto';
+import { createJsonFileStore } from './jsonFileStore.js';
+import { parseDateConfig } from '../utils/dateRangeUtils.js';
+
+const MAX_WORKSPACES_PER_USER = 50;
+const MAX_KEYWORD_GROUPS = 50;
+const MAX_DATE_COLUMNS = 12;
+const MAX_NAME_LENGTH = 80;
+const MAX_KEYWORD_LENGTH = 100;
+
+// 與 ChannelAnalytics 的 AVAILABLE_METRICS 相同
+const KEYWORD_REPORT_METRICS = new Set([
+  'views',
+  'estimatedMinutesWatched',
+  'averageViewDuration',
+  'averageViewPercentage',
+  'likes',
+  'comments',
+  'shares',
+  'subscribersGained',
+  'interactionRate',
+]);
+
+export const WORKSPACE_VISIBILITIES = ['private', 'shared'];
+
+const file = createJsonFileStore('keyword-workspaces.json', { workspaces: [] });
+// workspaceId -> workspace
+const workspaces = new Map((file.read().workspaces || []).map((workspace) => [workspace.id, workspace]));
+
+const persist = () => {
+  file.write({ workspaces: [...workspaces.values()] });
+};
+
+/**
+ * 驗證並整理工作區內容
+ * @param {unknown} input
+ * @returns {{ name: string, keywordGroups: Array<{ name: string }>, dateColumns: Array<{ config: string }>, selectedMetrics: string[], visibility: string }}
+ * @throws {Error} 內容不正確時（訊息為所有錯誤，以「；」分隔）
+ */
+function normalizeWorkspaceInput(input) {
+  const source = input && typeof input === 'object' ? input : {};
+  const errors = [];
+
+  const name = typeof source.name === 'string' ? source.name.trim() : '';
+  if (!name || name.length > MAX_NAME_LENGTH) errors.push(`工作區名稱需為 1 到 ${MAX_NAME_LENGTH} 個字`);
+
+  const rawGroups = Array.isArray(source.keywordGroups) ? source.keywordGroups : [];
+  if (rawGroups.length === 0) errors.push('至少需要一個關鍵字組合');
+  if (rawGroups.length > MAX_KEYWORD_GROUPS) errors.push(`最多 ${MAX_KEYWORD_GROUPS} 個關鍵字組合`);
+  const keywordGroups = [];
+  const seenKeywords = new Set();
+  for (const group of rawGroups.slice(0, MAX_KEYWORD_GROUPS)) {
+    const keyword = typeof group?.name === 'string' ? group.name.trim() : '';
+    if (!keyword || keyword.length > MAX_KEYWORD_LENGTH) {
+      errors.push(`關鍵字需為 1 到 ${MAX_KEYWORD_LENGTH} 個字`);
+      continue;
+    }
+    if (seenKeywords.has(keyword.toLowerCase())) {
+      errors.push(`關鍵字重複：「${keyword}」`);
+      continue;
+    }
+    seenKeywords.add(keyword.toLowerCase());
+    keywordGroups.push({ name: keyword });
+  }
+
+  const rawColumns = Array.isArray(source.dateColumns) ? source.dateColumns : [];
+  if (rawColumns.length === 0) errors.push('至少需要一個日期範圍');
+  if (rawColumns.length > MAX_DATE_COLUMNS) errors.push(`最多 ${MAX_DATE_COLUMNS} 個日期範圍`);
+  const dateColumns = [];
+  for (const column of rawColumns.slice(0, MAX_DATE_COLUMNS)) {
+    const config = typeof column?.config === 'string' ? column.config.trim() : '';
+    if (!parseDateConfig(config)) {
+      errors.push(`無法解析日期範圍「${config}」`);
+      continue;
+    }
+    dateColumns.push({ config });
+  }
+
+  const selectedMetrics = Array.isArray(source.selectedMetrics)
+    ? [...new Set(source.selectedMetrics.filter((metric) => KEYWORD_REPORT_METRICS.has(metric)))]
+    : [];
+  if (selectedMetrics.length === 0) errors.push('至少選擇一個指標');
+
+  const visibility = source.visibility ?? 'private';
+  if (!WORKSPACE_VISIBILITIES.includes(visibility)) errors.push(`不支援的共享設定「${visibility}」`);
+
+  if (errors.length > 0) {
+    throw new Error(errors.join('；'));
+  }
+  return { name, keywordGroups, dateColumns, selectedMetrics, visibility };
+}
+
+const canView = (workspace, userId) => workspace.ownerId === userId || workspace.visibility === 'shared';
+
+const toPublic = (workspace, userId) => ({ ...workspace, isOwner: workspace.ownerId === userId });
+
+function assertWithinLimit(userId) {
+  const owned = [...workspaces.values()].filter((workspace) => workspace.ownerId === userId).length;
+  if (owned >= MAX_WORKSPACES_PER_USER) {
+    throw new Error(`每位使用者最多 ${MAX_WORKSPACES_PER_USER} 個工作區`);
+  }
+}
+
+/**
+ * 列出使用者可以查看的工作區（自己的與其他人共享的，最近更新的在前）
+ * @param {string} userId
+ * @returns {Array<object>}
+ */
+export function listKeywordWorkspaces(userId) {
+  return [...workspaces.values()]
+    .filter((workspace) => canView(workspace, userId))
+    .sort((a, b) => b.updatedAt - a.updatedAt)
+    .map((workspace) => toPublic(workspace, userId));
+}
+
+/**
+ * 取得工作區（不檢查權限，由呼叫端判斷 ownerId / visibility）
+ * @param {string} workspaceId
+ * @returns {object | null}
+ */
+export function getKeywordWorkspace(workspaceId) {
+  return workspaces.get(workspaceId) || null;
+}
+
+/**
+ * 使用者是否可以查看工作區
+ * @param {object} workspace
+ * @param {string} userId
+ * @returns {boolean}
+ */
+export function canViewKeywordWorkspace(workspace, userId) {
+  return canView(workspace, userId);
+}
+
+/**
+ * 建立工作區
+ * @param {string} userId
+ * @param {unknown} input - { name, keywordGroups: [{ name }], dateColumns: [{ config }], selectedMetrics, visibility? }
+ * @returns {object}
+ * @throws {Error} 內容不正確或超過數量上限時
+ */
+export function createKeywordWorkspace(userId, input) {
+  assertWithinLimit(userId);
+  const now = Date.now();
+  const workspace = {
+    id: crypto.randomUUID(),
+    ...normalizeWorkspaceInput(input),
+    ownerId: userId,
+    clonedFrom: null,
+    createdAt: now,
+    updatedAt: now,
+    lastRunAt: null,
+    lastRunBy: null,
+  };
+  workspaces.set(workspace.id, workspace);
+  persist();
+  console.log(`[KeywordWorkspace] ${userId} 建立工作區「${workspace.name}」`);
+  return toPublic(workspace, userId);
+}
+
+/**
+ * 更新工作區（只有建立者可以更新，權限由呼叫端檢查）
+ * @param {string} userId
+ * @param {string} workspaceId
+ * @param {unknown} input
+ * @returns {object | null} 工作區不存在時回傳 null
+ * @throws {Error} 內容不正確時
+ */
+export function updateKeywordWorkspace(userId, workspaceId, input) {
+  const existing = workspaces.get(workspaceId);
+  if (!existing) return null;
+  const workspace = { ...existing, ...normalizeWorkspaceInput(input), updatedAt: Date.now() };
+  workspaces.set(workspaceId, workspace);
+  persist();
+  return toPublic(workspace, userId);
+}
+
+/**
+ * 刪除工作區
+ * @param {string} workspaceId
+ * @returns {boolean} 是否有刪除
+ */
+export function deleteKeywordWorkspace(workspaceId) {
+  if (!workspaces.delete(workspaceId)) return false;
+  persist();
+  return true;
+}
+
+/**
+ * 複製工作區成使用者自己的私人工作區
+ * @param {string} userId
+ * @param {string} workspaceId
+ * @param {{ name?: string }} [options]
+ * @returns {object | null} 來源不存在時回傳 null
+ * @throws {Error} 超過數量上限時
+ */
+export function cloneKeywordWorkspace(userId, workspaceId, { name } = {}) {
+  const source = workspaces.get(workspaceId);
+  if (!source) return null;
+  assertWithinLimit(userId);
+
+  const now = Date.now();
+  const cloneName = typeof name === 'string' && name.trim() ? name.trim() : `${source.name}（副本）`;
+  const workspace = {
+    ...source,
+    id: crypto.randomUUID(),
+    name: cloneName.slice(0, MAX_NAME_LENGTH),
+    keywordGroups: source.keywordGroups.map((group) => ({ ...group })),
+    dateColumns: source.dateColumns.map((column) => ({ ...column })),
+    selectedMetrics: [...source.selectedMetrics],
+    visibility: 'private',
+    ownerId: userId,
+    clonedFrom: source.id,
+    createdAt: now,
+    updatedAt: now,
+    lastRunAt: null,
+    lastRunBy: null,
+  };
+  workspaces.set(workspace.id, workspace);
+  persist();
+  console.log(`[KeywordWorkspace] ${userId} 複製工作區「${source.name}」`);
+  return toPublic(workspace, userId);
+}
+
+/**
+ * 記錄工作區最近一次執行（報表數據由前端呼叫 /api/channel-analytics/aggregate 取得）
+ * @param {string} userId
+ * @param {string} workspaceId
+ * @returns {object | null}
+ */
+export function recordKeywordWorkspaceRun(userId, workspaceId) {
+  const workspace = workspaces.get(workspaceId);
+  if (!workspace) return null;
+  workspace.lastRunAt = Date.now();
+  workspace.lastRunBy = userId;
+  persist();
+  return toPublic(workspace, userId);
+}
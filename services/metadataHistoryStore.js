@@ -0,0 +1,107 @@
+/**
+ * 影片中繼資料修改紀錄
+ * 每次從前端更新 YouTube 標題／說明／標籤時記錄修改前後的值，供檢視差異與一鍵還原
+ * 紀錄依 JWT 使用者分開保存，使用者只能查看與新增自己的紀錄
+ */
+
+import crypto from 'crypto';
+import { createJsonFileStore } from './jsonFileStore.js';
+
+// 每位使用者每支影片最多保留的紀錄數（超過時移除最舊的）
+const MAX_ENTRIES_PER_VIDEO = Math.max(parseInt(process.env.METADATA_HISTORY_MAX_PER_VIDEO, 10) || 50, 1);
+
+const METADATA_FIELDS = ['title', 'description', 'tags'];
+
+const file = createJsonFileStore('metadata-history.json', { users: {} });
+const snapshot = file.read();
+// userId -> { [videoId]: entries }
+const historyByUser = new Map(Object.entries(snapshot.users || {}));
+
+// 舊版檔案只依影片保存（{ videos: { [videoId]: entries } }），依每筆紀錄的 author 分到各使用者
+for (const [videoId, entries] of Object.entries(snapshot.videos || {})) {
+  for (const entry of entries) {
+    if (!entry.author) continue;
+    const userHistory = historyByUser.get(entry.author) || {};
+    userHistory[videoId] = [...(userHistory[videoId] || []), entry];
+    historyByUser.set(entry.author, userHistory);
+  }
+}
+
+const persist = () => {
+  file.write({ users: Object.fromEntries(historyByUser) });
+};
+
+/**
+ * 正規化欄位值，回傳 null 表示格式不正確
+ * @param {any} fields
+ * @returns {{ title: string, description: string, tags: string[] } | null}
+ */
+function normalizeFields(fields) {
+  if (!fields || typeof fields !== 'object') return null;
+  if (typeof fields.title !== 'string' || typeof fields.description !== 'string') return null;
+  if (!Array.isArray(fields.tags) || fields.tags.some((tag) => typeof tag !== 'string')) return null;
+  return { title: fields.title, description: fields.description, tags: [...fields.tags] };
+}
+
+function getChangedFields(before, after) {
+  return METADATA_FIELDS.filter((field) =>
+    field === 'tags'
+      ? before.tags.join('\u0000') !== after.tags.join('\u0000')
+      : before[field] !== after[field]
+  );
+}
+
+/**
+ * 新增一筆修改紀錄
+ * @param {object} change
+ * @param {string} change.videoId
+ * @param {object} change.before - 修改前的 { title, description, tags }
+ * @param {object} change.after - 修改後的 { title, description, tags }
+ * @param {string} change.author - 操作者（JWT email），紀錄保存在此使用者底下
+ * @param {string} [change.source] - 觸發來源元件
+ * @param {string} [change.trigger] - 觸發動作
+ * @param {string} [change.restoredFrom] - 由哪一筆紀錄還原而來
+ * @returns {object} 新增的紀錄
+ * @throws {Error} 欄位格式不正確時
+ */
+export function recordMetadataChange({ videoId, before, after, author, source, trigger, restoredFrom }) {
+  const normalizedBefore = normalizeFields(before);
+  const normalizedAfter = normalizeFields(after);
+  if (!videoId || typeof videoId !== 'string' || !normalizedBefore || !normalizedAfter) {
+    throw new Error('videoId, before and after ({ title, description, tags }) are required');
+  }
+  if (!author || typeof author !== 'string') {
+    throw new Error('author is required');
+  }
+
+  const entry = {
+    id: `mh_${Date.now()}_${crypto.randomBytes(4).toString('hex')}`,
+    videoId,
+    before: normalizedBefore,
+    after: normalizedAfter,
+    changedFields: getChangedFields(normalizedBefore, normalizedAfter),
+    author,
+    source: source || null,
+    trigger: trigger || null,
+    restoredFrom: restoredFrom || null,
+    createdAt: Date.now(),
+  };
+
+  const userHistory = historyByUser.get(author) || {};
+  userHistory[videoId] = [...(userHistory[videoId] || []), entry].slice(-MAX_ENTRIES_PER_VIDEO);
+  historyByUser.set(author, userHistory);
+  persist();
+
+  console.log(`[MetadataHistory] 已記錄 ${videoId} 的修改（${entry.changedFields.join(', ') || '無變更'}）by ${entry.author}`);
+  return entry;
+}
+
+/**
+ * 取得使用者對影片的修改紀錄（新到舊）
+ * @param {string} userId
+ * @param {string} videoId
+ * @returns {Array<object>}
+ */
+export function listMetadataHistory(userId, videoId) {
+  return [...(historyByUser.get(userId)?.[videoId] || [])].reverse();
+}
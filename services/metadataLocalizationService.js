@@ -0,0 +1,80 @@
+/**
+ * 多語系中繼資料
+ * 整理目標語言清單與 AI 翻譯結果，寫入 YouTube localizations 前先套用 YouTube 的長度限制
+ */
+
+// YouTube 標題上限 100 字元、說明上限 5000 位元組
+const MAX_TITLE_LENGTH = 100;
+const MAX_DESCRIPTION_BYTES = 5000;
+const MAX_TARGET_LANGUAGES = 10;
+
+// BCP-47 語言代碼（例如 en、ja、zh-TW、pt-BR）
+const LANGUAGE_CODE_PATTERN = /^[a-z]{2,3}(?:-[A-Za-z0-9]{2,8})*$/;
+
+export const DEFAULT_SOURCE_LANGUAGE = process.env.METADATA_SOURCE_LANGUAGE || 'zh-TW';
+
+/**
+ * 環境變數設定的預設目標語言
+ * @returns {string[]}
+ */
+export function getDefaultTargetLanguages() {
+  return normalizeLanguageList((process.env.METADATA_TARGET_LANGUAGES || 'en,ja').split(','), DEFAULT_SOURCE_LANGUAGE);
+}
+
+/**
+ * 整理目標語言：去除空白、重複、格式不正確與來源語言本身
+ * @param {unknown} languages
+ * @param {string} [sourceLanguage]
+ * @returns {string[]}
+ */
+export function normalizeLanguageList(languages, sourceLanguage = DEFAULT_SOURCE_LANGUAGE) {
+  if (!Array.isArray(languages)) return [];
+  const source = String(sourceLanguage || '').toLowerCase();
+  const result = [];
+  for (const raw of languages) {
+    const code = typeof raw === 'string' ? raw.trim() : '';
+    if (!LANGUAGE_CODE_PATTERN.test(code) || code.toLowerCase() === source) continue;
+    if (result.some((existing) => existing.toLowerCase() === code.toLowerCase())) continue;
+    result.push(code);
+  }
+  return result.slice(0, MAX_TARGET_LANGUAGES);
+}
+
+function truncateBytes(text, maxBytes) {
+  const encoder = new TextEncoder();
+  if (encoder.encode(text).length <= maxBytes) return text;
+  let result = '';
+  let bytes = 0;
+  for (const char of text) {
+    const size = encoder.encode(char).length;
+    if (bytes + size > maxBytes) break;
+    result += char;
+    bytes += size;
+  }
+  return result;
+}
+
+/**
+ * 整理 AI 回傳的翻譯，只保留要求的語言並套用 YouTube 長度限制
+ * @param {unknown} raw - { translations: { [lang]: { title, description } } } 或直接是語言對應
+ * @param {string[]} languages
+ * @returns {Record<string, { title: string, description: string }>}
+ */
+export function normalizeTranslations(raw, languages) {
+  const source = raw && typeof raw === 'object' && raw.translations && typeof raw.translations === 'object'
+    ? raw.translations
+    : raw || {};
+  const translations = {};
+  for (const language of languages) {
+    const entry = source[language] ?? Object.entries(source).find(([key]) => key.toLowerCase() === language.toLowerCase())?.[1];
+    if (!entry || typeof entry !== 'object') continue;
+    const title = String(entry.title ?? '').replace(/[<>]/g, '').trim();
+    const description = String(entry.description ?? '').replace(/[<>]/g, '').trim();
+    if (!title) continue;
+    translations[language] = {
+      title: Array.from(title).slice(0, MAX_TITLE_LENGTH).join(''),
+      description: truncateBytes(description, MAX_DESCRIPTION_BYTES),
+    };
+  }
+  return translations;
+}
@@ -0,0 +1,101 @@
+import * as youtubeService from './youtubeService';
+import { recordMetadataChange } from './videoApiService';
+
+export interface VideoMetadataFields {
+  title: string;
+  description: string;
+  tags: string[];
+}
+
+interface UpdateVideoMetadataOptions {
+  source: string;
+  trigger: string;
+  categoryId?: string;
+  /** 剛從 YouTube 讀取的目前資料；未提供時會先向 YouTube 讀取，作為合併基準與修改紀錄的「修改前」 */
+  current?: VideoMetadataFields;
+  /** 還原操作時，對應的修改紀錄 ID */
+  restoredFrom?: string;
+}
+
+const LOCAL_UPDATES_KEY = 'videoMetadataUpdates';
+
+/**
+ * 保存本地更新到 localStorage（用於覆蓋 Gist 快取，App 載入影片時會合併）
+ */
+export function saveLocalMetadataUpdate(
+  videoId: string,
+  fields: VideoMetadataFields & { categoryId: string }
+): void {
+  try {
+    const updatesJson = localStorage.getItem(LOCAL_UPDATES_KEY);
+    const updates = updatesJson ? JSON.parse(updatesJson) : {};
+
+    updates[videoId] = {
+      ...fields,
+      updatedAt: new Date().toISOString(),
+    };
+
+    localStorage.setItem(LOCAL_UPDATES_KEY, JSON.stringify(updates));
+    console.log(`[MetadataUpdate] 已保存本地更新: ${videoId}`);
+  } catch (error) {
+    console.error('[MetadataUpdate] 保存本地更新失敗:', error);
+  }
+}
+
+/**
+ * 更新影片標題／說明／標籤到 YouTube
+ * YouTube 的 snippet 更新會覆寫整個 snippet，因此會先讀取目前資料再合併；
+ * 更新成功後把修改前後的值寫入伺服器的修改紀錄（紀錄失敗不影響更新結果）。
+ * @returns 更新後的完整欄位（含 categoryId）
+ */
+export async function updateVideoMetadata(
+  videoId: string,
+  changes: Partial<VideoMetadataFields>,
+  options: UpdateVideoMetadataOptions
+): Promise<VideoMetadataFields & { categoryId: string }> {
+  let categoryId = options.categoryId?.trim() || '';
+  let current = options.current;
+
+  if (!categoryId || !current) {
+    console.log(`[MetadataUpdate] 正在獲取影片完整資訊: ${videoId}`);
+    const metadata = await youtubeService.getVideoMetadata(videoId, {
+      source: options.source,
+      trigger: 'fetch-current-metadata',
+    });
+    categoryId = categoryId || metadata.categoryId;
+    current = current ?? {
+      title: metadata.title,
+      description: metadata.description,
+      tags: metadata.tags,
+    };
+  }
+
+  const merged = {
+    title: changes.title ?? current.title,
+    description: changes.description ?? current.description,
+    tags: changes.tags ?? current.tags,
+    categoryId,
+  };
+
+  await youtubeService.updateVideo({ id: videoId, ...merged }, {
+    source: options.source,
+    trigger: options.trigger,
+  });
+
+  saveLocalMetadataUpdate(videoId, merged);
+
+  try {
+    await recordMetadataChange({
+      videoId,
+      before: current,
+      after: { title: merged.title, description: merged.description, tags: merged.tags },
+      source: options.source,
+      trigger: options.trigger,
+      restoredFrom: options.restoredFrom,
+    });
+  } catch (error) {
+    console.warn('[MetadataUpdate] 修改紀錄寫入失敗:', error);
+  }
+
+  return merged;
+}
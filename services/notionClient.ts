@@ -1,8 +1,12 @@
+import type { ArticleNotionPage, ArticleReview } from './videoApiService';
+
 const API_BASE_URL =
   import.meta.env.VITE_API_URL ||
   (import.meta.env.DEV ? 'http://localhost:3001/api' : '/api');
 
 export interface NotionPublishPayload {
+  /** 審稿紀錄的影片 ID，只有核准的文章才能發佈 */
+  videoId: string;
   title: string;
   article: string;
   seoDescription?: string;
@@ -12,12 +16,38 @@ export interface NotionPublishPayload {
   titleProperty?: string;
   screenshotPlan?: NotionScreenshotPlanItem[];
   imageUrls?: string[][];
+  /** 已發佈過的頁面 ID；提供時就地更新該頁面 */
+  pageId?: string;
+  /** 依資料庫欄位對應寫入屬性的文章欄位 */
+  fields?: NotionArticleFields;
+}
+
+export interface NotionArticleFields {
+  titleA?: string;
+  titleB?: string;
+  titleC?: string;
+  tags?: string[];
+  templateId?: string;
 }
 
 export interface NotionPublishResponse {
   success: boolean;
   pageId: string;
   url: string;
+  /** 是否為更新既有頁面 */
+  updated?: boolean;
+  /** 欄位對應與資料庫目前的 schema 不符而略過的屬性 */
+  skippedProperties?: string[];
+  review?: ArticleReview | null;
+}
+
+export type NotionSyncState = 'not_published' | 'in_sync' | 'modified' | 'missing';
+
+export interface NotionSyncStatusResponse {
+  status: NotionSyncState;
+  page: ArticleNotionPage | null;
+  url?: string;
+  lastEditedTime?: string;
 }
 
 export interface NotionScreenshotPlanItem {
@@ -64,6 +94,82 @@ export interface NotionDatabaseInfo {
   }>;
 }
 
+export interface NotionPropertyField {
+  key: string;
+  label: string;
+  /** 可對應的 Notion 屬性類型 */
+  types: string[];
+}
+
+export interface NotionPropertyMappingResponse {
+  fields: NotionPropertyField[];
+  /** 文章欄位 -> Notion 屬性名稱 */
+  mapping: Record<string, string>;
+  updatedAt: number | null;
+  updatedBy: string | null;
+}
+
+/**
+ * 取得資料庫的欄位對應
+ */
+export async function getNotionPropertyMapping(databaseId: string): Promise<NotionPropertyMappingResponse> {
+  const response = await fetch(`${API_BASE_URL}/notion/property-mappings/${encodeURIComponent(databaseId)}`);
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData?.error || '無法取得 Notion 欄位對應');
+  }
+
+  return response.json();
+}
+
+/**
+ * 儲存資料庫的欄位對應（伺服器會依資料庫 schema 檢查屬性類型）
+ */
+export async function saveNotionPropertyMapping(
+  databaseId: string,
+  notionToken: string,
+  mapping: Record<string, string>
+): Promise<NotionPropertyMappingResponse> {
+  const response = await fetch(`${API_BASE_URL}/notion/property-mappings/${encodeURIComponent(databaseId)}`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ notionToken, mapping }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData?.error || '無法儲存 Notion 欄位對應');
+  }
+
+  return response.json();
+}
+
+/**
+ * 檢查文章對應的 Notion 頁面是否在發佈後被修改
+ */
+export async function getNotionSyncStatus(
+  videoId: string,
+  notionToken?: string
+): Promise<NotionSyncStatusResponse> {
+  const response = await fetch(`${API_BASE_URL}/notion/sync-status`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ videoId, notionToken }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData?.error || '無法檢查 Notion 同步狀態');
+  }
+
+  return response.json();
+}
+
 /**
  * 將生成的文章發佈到 Notion
  */
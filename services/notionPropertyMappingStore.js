@@ -0,0 +1,206 @@
+/**
+ * Notion 資料庫欄位對應
+ * 依資料庫 ID 保存「文章欄位 → Notion 屬性」的對應（同一個資料庫所有使用者共用），
+ * 儲存時依資料庫 schema 檢查屬性類型，發佈時再依當下 schema 轉成 Notion 屬性值
+ */
+
+import { createJsonFileStore } from './jsonFileStore.js';
+
+// 可對應的文章欄位與可接受的 Notion 屬性類型（頁面標題仍寫入資料庫的 title 屬性）
+export const ARTICLE_PROPERTY_FIELDS = {
+  titleA: { label: '標題 A', types: ['rich_text', 'select'] },
+  titleB: { label: '標題 B', types: ['rich_text', 'select'] },
+  titleC: { label: '標題 C', types: ['rich_text', 'select'] },
+  seoDescription: { label: 'SEO 描述', types: ['rich_text'] },
+  videoUrl: { label: '影片網址', types: ['url', 'rich_text'] },
+  publishDate: { label: '發佈日期', types: ['date', 'rich_text'] },
+  tags: { label: '標籤', types: ['multi_select', 'rich_text'] },
+  templateId: { label: '模板 ID', types: ['select', 'rich_text'] },
+};
+
+// Notion rich_text 單段文字上限
+const NOTION_TEXT_LIMIT = 2000;
+const NOTION_OPTION_LIMIT = 100;
+
+const file = createJsonFileStore('notion-property-mappings.json', { databases: {} });
+// databaseId（去除連字號）-> { databaseId, mapping, updatedAt, updatedBy }
+const mappingsByDatabase = new Map(Object.entries(file.read().databases || {}));
+
+const persist = () => {
+  file.write({ databases: Object.fromEntries(mappingsByDatabase) });
+};
+
+/**
+ * 資料庫 ID 可能帶或不帶連字號，統一成 32 碼小寫
+ * @param {string} databaseId
+ * @returns {string}
+ */
+export function normalizeNotionDatabaseId(databaseId) {
+  return String(databaseId || '').replace(/-/g, '').trim().toLowerCase();
+}
+
+/**
+ * 列出可對應的文章欄位（供前端繪製對應表）
+ * @returns {Array<{ key: string, label: string, types: string[] }>}
+ */
+export function listArticlePropertyFields() {
+  return Object.entries(ARTICLE_PROPERTY_FIELDS).map(([key, { label, types }]) => ({ key, label, types }));
+}
+
+/**
+ * 取得資料庫的欄位對應
+ * @param {string} databaseId
+ * @returns {{ databaseId: string, mapping: Record<string, string>, updatedAt: number, updatedBy: string } | null}
+ */
+export function getNotionPropertyMapping(databaseId) {
+  return mappingsByDatabase.get(normalizeNotionDatabaseId(databaseId)) ?? null;
+}
+
+/**
+ * 依資料庫 schema 檢查對應：屬性必須存在、類型相容，且同一個屬性只能對應一個欄位
+ * @param {Record<string, string>} mapping - 文章欄位 -> Notion 屬性名稱
+ * @param {{ properties: Array<{ name: string, type: string | null }> }} databaseInfo
+ * @returns {{ mapping: Record<string, string>, errors: string[] }}
+ */
+export function validateNotionPropertyMapping(mapping, databaseInfo) {
+  const propertyTypes = new Map((databaseInfo?.properties || []).map((prop) => [prop.name, prop.type]));
+  const normalized = {};
+  const errors = [];
+  const usedProperties = new Map();
+
+  for (const [field, rawName] of Object.entries(mapping || {})) {
+    const spec = ARTICLE_PROPERTY_FIELDS[field];
+    if (!spec) {
+      errors.push(`不支援的文章欄位：${field}`);
+      continue;
+    }
+    const propertyName = typeof rawName === 'string' ? rawName.trim() : '';
+    if (!propertyName) continue;
+
+    if (!propertyTypes.has(propertyName)) {
+      errors.push(`${spec.label}：資料庫中沒有「${propertyName}」屬性`);
+      continue;
+    }
+    const type = propertyTypes.get(propertyName);
+    if (!spec.types.includes(type)) {
+      errors.push(`${spec.label}：「${propertyName}」是 ${type} 類型，只能對應 ${spec.types.join(' / ')}`);
+      continue;
+    }
+    if (usedProperties.has(propertyName)) {
+      errors.push(`「${propertyName}」已對應到 ${ARTICLE_PROPERTY_FIELDS[usedProperties.get(propertyName)].label}`);
+      continue;
+    }
+    usedProperties.set(propertyName, field);
+    normalized[field] = propertyName;
+  }
+
+  return { mapping: normalized, errors };
+}
+
+/**
+ * 儲存資料庫的欄位對應（空的對應等同刪除）
+ * @param {string} databaseId
+ * @param {Record<string, string>} mapping
+ * @param {Object} databaseInfo - getNotionDatabase() 取得的 schema
+ * @param {string} userId
+ * @returns {{ databaseId: string, mapping: Record<string, string>, updatedAt: number, updatedBy: string } | null}
+ * @throws {Error} 對應與 schema 不相容時
+ */
+export function saveNotionPropertyMapping(databaseId, mapping, databaseInfo, userId) {
+  const key = normalizeNotionDatabaseId(databaseId);
+  if (!key) {
+    throw new Error('缺少 Notion 資料庫 ID');
+  }
+
+  const { mapping: normalized, errors } = validateNotionPropertyMapping(mapping, databaseInfo);
+  if (errors.length > 0) {
+    throw new Error(errors.join('；'));
+  }
+
+  if (Object.keys(normalized).length === 0) {
+    deleteNotionPropertyMapping(key);
+    return null;
+  }
+
+  const record = { databaseId: key, mapping: normalized, updatedAt: Date.now(), updatedBy: userId };
+  mappingsByDatabase.set(key, record);
+  persist();
+
+  console.log(`[NotionMapping] ${userId} 更新資料庫 ${key} 的欄位對應：${Object.keys(normalized).join(', ')}`);
+  return record;
+}
+
+/**
+ * 刪除資料庫的欄位對應
+ * @param {string} databaseId
+ * @returns {boolean} 是否有刪除
+ */
+export function deleteNotionPropertyMapping(databaseId) {
+  const deleted = mappingsByDatabase.delete(normalizeNotionDatabaseId(databaseId));
+  if (deleted) {
+    persist();
+  }
+  return deleted;
+}
+
+function toRichText(text) {
+  const content = String(text ?? '');
+  const chunks = [];
+  for (let i = 0; i < content.length; i += NOTION_TEXT_LIMIT) {
+    chunks.push({ type: 'text', text: { content: content.slice(i, i + NOTION_TEXT_LIMIT) } });
+  }
+  return chunks;
+}
+
+// select / multi_select 選項名稱不能含逗號且長度有限
+function toOptionName(value) {
+  return String(value ?? '').replace(/,/g, ' ').trim().slice(0, NOTION_OPTION_LIMIT);
+}
+
+function toPropertyValue(type, value) {
+  switch (type) {
+    case 'rich_text':
+      return { rich_text: toRichText(Array.isArray(value) ? value.join(', ') : value) };
+    case 'url':
+      return { url: value ? String(value) : null };
+    case 'date':
+      return { date: value ? { start: String(value) } : null };
+    case 'select': {
+      const name = toOptionName(value);
+      return { select: name ? { name } : null };
+    }
+    case 'multi_select': {
+      const names = [...new Set((Array.isArray(value) ? value : [value]).map(toOptionName).filter(Boolean))];
+      return { multi_select: names.map((name) => ({ name })) };
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * 依對應與目前的資料庫 schema 產生 Notion 頁面屬性；
+ * 發佈後才被刪除或改類型的屬性會略過並回報，不會讓整次發佈失敗
+ * @param {Record<string, string>} mapping
+ * @param {Object} databaseInfo - getNotionDatabase() 取得的 schema
+ * @param {Record<string, any>} values - 文章欄位值（tags 為字串陣列）
+ * @returns {{ properties: Record<string, Object>, skipped: string[] }}
+ */
+export function buildMappedNotionProperties(mapping, databaseInfo, values) {
+  const propertyTypes = new Map((databaseInfo?.properties || []).map((prop) => [prop.name, prop.type]));
+  const properties = {};
+  const skipped = [];
+
+  for (const [field, propertyName] of Object.entries(mapping || {})) {
+    const spec = ARTICLE_PROPERTY_FIELDS[field];
+    const type = propertyTypes.get(propertyName);
+    if (!spec || !spec.types.includes(type)) {
+      skipped.push(`${spec?.label || field} → ${propertyName}`);
+      continue;
+    }
+    if (values?.[field] === undefined) continue;
+    properties[propertyName] = toPropertyValue(type, values[field]);
+  }
+
+  return { properties, skipped };
+}
@@ -1,6 +1,8 @@
 import fs from 'fs';
 import path from 'path';
 const NOTION_API_ENDPOINT = 'https://api.notion.com/v1/pages';
+const NOTION_BLOCKS_ENDPOINT = 'https://api.notion.com/v1/blocks';
+const NOTION_BLOCKS_PER_REQUEST = 100;
 export const NOTION_API_VERSION = '2022-06-28';
 const NOTION_FILES_VERSION = '2025-09-03';
 
@@ -15,52 +17,48 @@ const IMAGE_MIME_TYPES = {
   '.webp': 'image/webp',
 };
 
-function guessImageMimeType(filePath) {
+export function guessImageMimeType(filePath) {
   const ext = path.extname(filePath || '').toLowerCase();
   return IMAGE_MIME_TYPES[ext] || 'image/png';
 }
 
-function resolveLocalImagePath(imageUrl) {
+/**
+ * 將文章中的截圖 URL（/images/<檔名> 或本機伺服器網址）對應到 public/images 內的檔案路徑
+ * 只接受 /images/ 底下的單一檔名，其他路徑（絕對路徑、../ 等）一律視為找不到，避免讀到伺服器上的其他檔案
+ * @param {string} imageUrl
+ * @returns {string | null} 找不到本機檔案或路徑不在截圖目錄內時回傳 null
+ */
+export function resolveLocalImagePath(imageUrl) {
   if (!imageUrl || typeof imageUrl !== 'string') {
     return null;
   }
 
-  const candidates = [];
-
-  const pushCandidatesForPath = (rawPath) => {
-    if (!rawPath) return;
-    const trimmed = rawPath.startsWith('/') ? rawPath.slice(1) : rawPath;
-    // Absolute path
-    if (path.isAbsolute(rawPath)) {
-      candidates.push(rawPath);
-    } else {
-      candidates.push(path.join(process.cwd(), trimmed));
-    }
-    candidates.push(path.join(process.cwd(), 'public', trimmed));
-    if (trimmed.startsWith('images/')) {
-      candidates.push(path.join(process.cwd(), 'public', trimmed));
-    }
-  };
-
+  let pathname = imageUrl;
   try {
     if (imageUrl.startsWith('http://') || imageUrl.startsWith('https://')) {
-      const parsed = new URL(imageUrl);
-      const pathname = decodeURIComponent(parsed.pathname || '');
-      pushCandidatesForPath(pathname);
-    } else {
-      pushCandidatesForPath(imageUrl);
+      pathname = decodeURIComponent(new URL(imageUrl).pathname || '');
     }
   } catch (err) {
-    pushCandidatesForPath(imageUrl);
+    return null;
   }
 
-  for (const candidate of candidates) {
-    if (candidate && fs.existsSync(candidate)) {
-      return candidate;
-    }
+  const match = /^\/images\/([^/\\]+)$/.exec(pathname);
+  if (!match || match[1] === '.' || match[1] === '..') {
+    return null;
   }
 
-  return null;
+  const imagesDir = path.join(process.cwd(), 'public', 'images');
+  const candidate = path.join(imagesDir, path.basename(match[1]));
+  try {
+    const realImagesDir = fs.realpathSync(imagesDir);
+    const realCandidate = fs.realpathSync(candidate);
+    if (!realCandidate.startsWith(realImagesDir + path.sep) || !fs.statSync(realCandidate).isFile()) {
+      return null;
+    }
+    return realCandidate;
+  } catch (err) {
+    return null;
+  }
 }
 
 async function uploadImageToNotion(notionToken, buffer, filename, mimeType, contentLength) {
@@ -215,7 +213,7 @@ function chunkText(text, chunkSize = 1800) {
 }
 
 /**
- * 將文章發佈到 Notion 資料庫
+ * 將文章發佈到 Notion 資料庫（提供 pageId 時就地更新既有頁面）
  * @param {object} params
  * @param {string} params.notionToken - Notion 整合金鑰
  * @param {string} params.databaseId - 目標資料庫 ID
@@ -226,7 +224,9 @@ function chunkText(text, chunkSize = 1800) {
  * @param {string} [params.titleProperty='Name'] - 目標資料庫的標題欄位名稱
  * @param {Array<{ timestamp_seconds?: string, timestamp?: string, reason_for_screenshot?: string, reason?: string }>} [params.screenshotPlan] - 截圖規劃
  * @param {string[][]} [params.imageUrls] - 截圖圖片 URL 陣列
- * @returns {Promise<{pageId: string, url: string}>}
+ * @param {string} [params.pageId] - 已發佈過的頁面 ID；提供時就地更新該頁面而不是建立新頁面
+ * @param {Record<string, Object>} [params.extraProperties] - 依欄位對應產生的其他頁面屬性
+ * @returns {Promise<{pageId: string, url: string, lastEditedTime: string, updated: boolean}>}
  */
 export async function publishArticleToNotion({
   notionToken,
@@ -238,6 +238,8 @@ export async function publishArticleToNotion({
   titleProperty = 'Name',
   screenshotPlan,
   imageUrls,
+  pageId,
+  extraProperties = {},
 }) {
   if (!notionToken) {
     throw new Error('缺少 Notion 金鑰');
@@ -493,25 +495,70 @@ export async function publishArticleToNotion({
     });
   }
 
-  const payload = {
-    parent: { database_id: databaseId },
-    properties: {
-      [titleProperty]: {
-        title: [
-          {
-            type: 'text',
-            text: { content: title },
-          },
-        ],
-      },
+  const properties = {
+    ...extraProperties,
+    [titleProperty]: {
+      title: [
+        {
+          type: 'text',
+          text: { content: title },
+        },
+      ],
     },
-    children,
   };
 
-  const response = await fetch(NOTION_API_ENDPOINT, {
-    method: 'POST',
+  // 任何寫入前先檢查所有區塊，避免寫到一半才被 Notion 拒絕
+  validateNotionBlocks(children);
+
+  let page;
+  if (pageId) {
+    // 重新發佈：先附加新內容與更新屬性，成功後才刪除舊區塊；中途失敗時移除已附加的區塊，保留原本的文章
+    const oldBlockIds = await listNotionPageBlockIds(headers, pageId);
+    const appendedBlockIds = [];
+    try {
+      await appendNotionBlocks(headers, pageId, children, appendedBlockIds);
+      page = await callNotionApi(headers, `${NOTION_API_ENDPOINT}/${pageId}`, {
+        method: 'PATCH',
+        body: { properties },
+      });
+    } catch (error) {
+      await deleteNotionBlocks(headers, appendedBlockIds).catch((cleanupError) => {
+        console.error('[Notion] 移除未完成的新區塊失敗:', cleanupError);
+      });
+      throw error;
+    }
+    await deleteNotionBlocks(headers, oldBlockIds);
+  } else {
+    // 建立頁面一次最多只能帶 100 個區塊，其餘的之後再附加
+    page = await callNotionApi(headers, NOTION_API_ENDPOINT, {
+      method: 'POST',
+      body: {
+        parent: { database_id: databaseId },
+        properties,
+        children: children.slice(0, NOTION_BLOCKS_PER_REQUEST),
+      },
+    });
+    await appendNotionBlocks(headers, page.id, children.slice(NOTION_BLOCKS_PER_REQUEST));
+  }
+
+  // 寫入區塊後 last_edited_time 會更新，重新讀取作為之後判斷同步狀態的基準
+  const latest = await callNotionApi(headers, `${NOTION_API_ENDPOINT}/${page.id}`);
+  return {
+    pageId: page.id,
+    url: latest.url || page.url,
+    lastEditedTime: latest.last_edited_time,
+    updated: Boolean(pageId),
+  };
+}
+
+/**
+ * 呼叫 Notion API，失敗時拋出帶有 statusCode 的錯誤
+ */
+async function callNotionApi(headers, url, { method = 'GET', body } = {}) {
+  const response = await fetch(url, {
+    method,
     headers,
-    body: JSON.stringify(payload),
+    ...(body ? { body: JSON.stringify(body) } : {}),
   });
 
   if (!response.ok) {
@@ -524,13 +571,110 @@ export async function publishArticleToNotion({
     } catch {
       // ignore JSON parse error
     }
-    throw new Error(errorMessage);
+    const err = new Error(errorMessage);
+    err.statusCode = response.status;
+    throw err;
   }
 
-  const data = await response.json();
+  return response.json();
+}
+
+/**
+ * 檢查區塊內容是否符合 Notion 的限制（文字長度、外部圖片網址）
+ * @throws {Error} 有不合法的區塊時
+ */
+function validateNotionBlocks(blocks) {
+  blocks.forEach((block, index) => {
+    const content = block[block.type];
+    for (const item of content?.rich_text || []) {
+      if (item.text?.content?.length > 2000) {
+        throw new Error(`第 ${index + 1} 個區塊的文字超過 Notion 2000 字元的限制`);
+      }
+    }
+    if (block.type === 'image' && content.type === 'external' && !/^https?:\/\//i.test(content.external?.url || '')) {
+      throw new Error(`截圖網址無法被 Notion 讀取：${content.external?.url || '(空白)'}`);
+    }
+  });
+}
+
+/**
+ * 分批附加區塊到頁面（Notion 每次最多 100 個）
+ * @param {string[]} [appendedIds] - 傳入時收集已建立的區塊 ID，供失敗時移除
+ */
+async function appendNotionBlocks(headers, pageId, blocks, appendedIds = []) {
+  for (let i = 0; i < blocks.length; i += NOTION_BLOCKS_PER_REQUEST) {
+    const data = await callNotionApi(headers, `${NOTION_BLOCKS_ENDPOINT}/${pageId}/children`, {
+      method: 'PATCH',
+      body: { children: blocks.slice(i, i + NOTION_BLOCKS_PER_REQUEST) },
+    });
+    appendedIds.push(...(data.results || []).map((block) => block.id));
+  }
+}
+
+/**
+ * 列出頁面上所有頂層區塊的 ID
+ */
+async function listNotionPageBlockIds(headers, pageId) {
+  const blockIds = [];
+  let cursor;
+  do {
+    const query = new URLSearchParams({ page_size: String(NOTION_BLOCKS_PER_REQUEST) });
+    if (cursor) query.set('start_cursor', cursor);
+    const data = await callNotionApi(headers, `${NOTION_BLOCKS_ENDPOINT}/${pageId}/children?${query}`);
+    blockIds.push(...(data.results || []).map((block) => block.id));
+    cursor = data.has_more ? data.next_cursor : undefined;
+  } while (cursor);
+  return blockIds;
+}
+
+/**
+ * 刪除指定的區塊（子區塊會一併移除）
+ */
+async function deleteNotionBlocks(headers, blockIds) {
+  for (const blockId of blockIds) {
+    await callNotionApi(headers, `${NOTION_BLOCKS_ENDPOINT}/${blockId}`, { method: 'DELETE' });
+  }
+}
+
+/**
+ * 檢查已發佈的 Notion 頁面是否在發佈後被修改
+ * Notion 的 last_edited_time 只精確到分鐘，同一分鐘內的修改無法分辨
+ * @param {string} notionToken
+ * @param {string} pageId
+ * @param {string} publishedEditedTime - 發佈完成時頁面的 last_edited_time
+ * @returns {Promise<{ status: 'in_sync' | 'modified' | 'missing', url?: string, lastEditedTime?: string }>}
+ */
+export async function getNotionPageSyncStatus(notionToken, pageId, publishedEditedTime) {
+  if (!notionToken) {
+    throw new Error('缺少 Notion 金鑰');
+  }
+
+  const headers = {
+    Authorization: `Bearer ${notionToken}`,
+    'Content-Type': 'application/json',
+    'Notion-Version': NOTION_API_VERSION,
+  };
+
+  let page;
+  try {
+    page = await callNotionApi(headers, `${NOTION_API_ENDPOINT}/${pageId}`);
+  } catch (error) {
+    // 頁面被刪除或整合沒有權限時都回 404
+    if (error.statusCode === 404) {
+      return { status: 'missing' };
+    }
+    throw error;
+  }
+
+  if (page.archived || page.in_trash) {
+    return { status: 'missing', url: page.url, lastEditedTime: page.last_edited_time };
+  }
+
+  const modified = Date.parse(page.last_edited_time) > Date.parse(publishedEditedTime || 0);
   return {
-    pageId: data.id,
-    url: data.url,
+    status: modified ? 'modified' : 'in_sync',
+    url: page.url,
+    lastEditedTime: page.last_edited_time,
   };
 }
 
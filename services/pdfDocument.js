@@ -0,0 +1,245 @@
+/**
+ * PDF 文件產生工具
+ * 只支援報表用途的最小功能（標題、段落、表格、自動換行與分頁），不需額外套件
+ * 中文使用 PDF 閱讀器內建的 MSung-Light（Adobe-CNS1）字型，不嵌入字型檔，檔案很小；
+ * 不支援 BMP 以外的字元（例如 emoji），會以「?」取代
+ */
+
+import zlib from 'zlib';
+
+const PAGE_WIDTH = 595; // A4（pt）
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+
+const STYLES = {
+  title: { size: 20, gap: 12 },
+  heading: { size: 14, gap: 8 },
+  paragraph: { size: 10.5, gap: 6 },
+  note: { size: 9, gap: 4, gray: 0.45 },
+  table: { size: 9, gap: 8 },
+};
+const LINE_HEIGHT = 1.45;
+const CELL_PADDING = 4;
+
+// ASCII 為半形（0.5em），其他字元以全形（1em）估算
+const charWidth = (char, size) => (char.charCodeAt(0) < 0x7f ? size * 0.5 : size);
+
+function textWidth(text, size) {
+  let width = 0;
+  for (const char of text) width += charWidth(char, size);
+  return width;
+}
+
+/**
+ * 依寬度換行；英數字串盡量在空白處斷行
+ * @param {string} text
+ * @param {number} size
+ * @param {number} maxWidth
+ * @returns {string[]}
+ */
+function wrapText(text, size, maxWidth) {
+  const lines = [];
+  for (const paragraph of String(text ?? '').split('\n')) {
+    let line = '';
+    let width = 0;
+    for (const char of paragraph) {
+      const w = charWidth(char, size);
+      if (width + w > maxWidth && line) {
+        const breakAt = line.lastIndexOf(' ');
+        if (char !== ' ' && charWidth(char, size) < size && breakAt > line.length * 0.6) {
+          lines.push(line.slice(0, breakAt));
+          line = line.slice(breakAt + 1);
+        } else {
+          lines.push(line);
+          line = '';
+        }
+        width = textWidth(line, size);
+        if (char === ' ' && !line) continue;
+      }
+      line += char;
+      width += w;
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+// CID 字型搭配 UniCNS-UCS2-H 編碼：每個字元 2 bytes（UCS-2 big-endian）
+function encodeText(text) {
+  let hex = '';
+  for (const char of text) {
+    const code = char.codePointAt(0);
+    hex += (code > 0xffff ? 0x3f : code).toString(16).padStart(4, '0');
+  }
+  return `<${hex}>`;
+}
+
+// Info 字典的文字字串使用 UTF-16BE（含 BOM）
+function encodeInfoString(text) {
+  const buffer = Buffer.from(`\ufeff${text}`, 'utf16le').swap16();
+  return `<${buffer.toString('hex')}>`;
+}
+
+const formatNumber = (value) => Number(value.toFixed(2)).toString();
+
+class PageWriter {
+  constructor() {
+    this.pages = [];
+    this.addPage();
+  }
+
+  addPage() {
+    this.ops = [];
+    this.pages.push(this.ops);
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  ensureSpace(height) {
+    if (this.y - height < MARGIN) this.addPage();
+  }
+
+  text(x, y, text, size, gray = 0) {
+    this.ops.push(`${gray} g BT /F1 ${formatNumber(size)} Tf ${formatNumber(x)} ${formatNumber(y)} Td ${encodeText(text)} Tj ET`);
+  }
+
+  rect(x, y, width, height, gray) {
+    this.ops.push(`${gray} g ${formatNumber(x)} ${formatNumber(y)} ${formatNumber(width)} ${formatNumber(height)} re f`);
+  }
+
+  line(x1, y1, x2, y2, gray = 0.8) {
+    this.ops.push(`${gray} G 0.5 w ${formatNumber(x1)} ${formatNumber(y1)} m ${formatNumber(x2)} ${formatNumber(y2)} l S`);
+  }
+
+  writeLines(text, style) {
+    const lineHeight = style.size * LINE_HEIGHT;
+    for (const line of wrapText(text, style.size, CONTENT_WIDTH)) {
+      this.ensureSpace(lineHeight);
+      this.y -= lineHeight;
+      this.text(MARGIN, this.y + (lineHeight - style.size) / 2, line, style.size, style.gray || 0);
+    }
+    this.y -= style.gap;
+  }
+
+  writeTable({ columns, rows }) {
+    const { size, gap } = STYLES.table;
+    const lineHeight = size * LINE_HEIGHT;
+    const totalWeight = columns.reduce((sum, column) => sum + (column.width || 1), 0);
+    const widths = columns.map((column) => (CONTENT_WIDTH * (column.width || 1)) / totalWeight);
+
+    const writeRow = (cells, isHeader) => {
+      const wrapped = cells.map((cell, index) => wrapText(cell, size, widths[index] - CELL_PADDING * 2));
+      const height = Math.max(...wrapped.map((lines) => lines.length)) * lineHeight + CELL_PADDING * 2;
+      if (this.y - height < MARGIN) {
+        this.addPage();
+        if (!isHeader) writeRow(columns.map((column) => column.label), true);
+      }
+      if (isHeader) this.rect(MARGIN, this.y - height, CONTENT_WIDTH, height, 0.93);
+
+      let x = MARGIN;
+      wrapped.forEach((lines, index) => {
+        lines.forEach((line, lineIndex) => {
+          const baseline = this.y - CELL_PADDING - (lineIndex + 1) * lineHeight + (lineHeight - size) / 2;
+          const offset = columns[index].align === 'right' ? widths[index] - CELL_PADDING * 2 - textWidth(line, size) : 0;
+          this.text(x + CELL_PADDING + offset, baseline, line, size);
+        });
+        x += widths[index];
+      });
+      this.y -= height;
+      this.line(MARGIN, this.y, MARGIN + CONTENT_WIDTH, this.y);
+    };
+
+    this.ensureSpace(lineHeight * 2 + CELL_PADDING * 4);
+    writeRow(columns.map((column) => column.label), true);
+    for (const row of rows) writeRow(row.map((cell) => String(cell ?? '')), false);
+    this.y -= gap;
+  }
+}
+
+/**
+ * 建立 PDF 文件
+ * @param {object} options
+ * @param {string} options.title - 文件標題（寫入 PDF 屬性）
+ * @param {Array<object>} options.blocks - 內容區塊：
+ *   { type: 'title' | 'heading' | 'paragraph' | 'note', text }
+ *   { type: 'table', columns: [{ label, width?, align?: 'left' | 'right' }], rows: string[][] }
+ * @param {Date} [options.createdAt=new Date()]
+ * @returns {Buffer}
+ */
+export function createPdfDocument({ title, blocks, createdAt = new Date() }) {
+  const writer = new PageWriter();
+  for (const block of blocks) {
+    if (block.type === 'table') {
+      if (block.rows.length > 0) writer.writeTable(block);
+    } else {
+      const style = STYLES[block.type] || STYLES.paragraph;
+      if (block.type === 'heading') writer.ensureSpace(style.size * LINE_HEIGHT * 3);
+      writer.writeLines(block.text, style);
+    }
+  }
+
+  // 頁碼
+  writer.pages.forEach((ops, index) => {
+    const label = `${index + 1} / ${writer.pages.length}`;
+    ops.push(`0.5 g BT /F1 8 Tf ${formatNumber(PAGE_WIDTH / 2 - textWidth(label, 8) / 2)} ${MARGIN / 2} Td ${encodeText(label)} Tj ET`);
+  });
+
+  // 物件編號：1 Catalog、2 Pages、3 Type0 字型、4 CID 字型、5 FontDescriptor、6 Info，之後每頁 2 個物件（Page + 內容）
+  const objects = [];
+  const pageIds = writer.pages.map((_, index) => 7 + index * 2);
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+  objects[3] = '<< /Type /Font /Subtype /Type0 /BaseFont /MSung-Light /Encoding /UniCNS-UCS2-H /DescendantFonts [4 0 R] >>';
+  objects[4] =
+    '<< /Type /Font /Subtype /CIDFontType0 /BaseFont /MSung-Light ' +
+    '/CIDSystemInfo << /Registry (Adobe) /Ordering (CNS1) /Supplement 0 >> ' +
+    '/FontDescriptor 5 0 R /DW 1000 /W [1 95 500] >>';
+  objects[5] =
+    '<< /Type /FontDescriptor /FontName /MSung-Light /Flags 6 /FontBBox [0 -200 1000 900] ' +
+    '/ItalicAngle 0 /Ascent 880 /Descent -120 /CapHeight 880 /StemV 50 >>';
+  const timestamp = createdAt.toISOString().replace(/[-:T]/g, '').slice(0, 14);
+  objects[6] = `<< /Title ${encodeInfoString(title)} /Producer (ai-video-writer) /CreationDate (D:${timestamp}Z) >>`;
+
+  const streams = new Map();
+  writer.pages.forEach((ops, index) => {
+    const pageId = pageIds[index];
+    objects[pageId] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+    const content = zlib.deflateSync(Buffer.from(ops.join('\n'), 'latin1'));
+    streams.set(pageId + 1, content);
+    objects[pageId + 1] = `<< /Length ${content.length} /Filter /FlateDecode >>`;
+  });
+
+  const parts = [Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'latin1')];
+  let offset = parts[0].length;
+  const offsets = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = offset;
+    const stream = streams.get(id);
+    const chunk = stream
+      ? Buffer.concat([
+          Buffer.from(`${id} 0 obj\n${objects[id]}\nstream\n`, 'latin1'),
+          stream,
+          Buffer.from('\nendstream\nendobj\n', 'latin1'),
+        ])
+      : Buffer.from(`${id} 0 obj\n${objects[id]}\nendobj\n`, 'latin1');
+    parts.push(chunk);
+    offset += chunk.length;
+  }
+
+  const xref = [
+    'xref',
+    `0 ${objects.length}`,
+    '0000000000 65535 f ',
+    ...offsets.slice(1).map((value) => `${String(value).padStart(10, '0')} 00000 n `),
+    'trailer',
+    `<< /Size ${objects.length} /Root 1 0 R /Info 6 0 R >>`,
+    'startxref',
+    String(offset),
+    '%%EOF',
+  ].join('\n');
+  parts.push(Buffer.from(`${xref}\n`, 'latin1'));
+
+  return Buffer.concat(parts);
+}
@@ -0,0 +1,73 @@
+/**
+ * 影片更新優先級規則（依頻道保存）
+ * 未自訂的頻道使用 priorityRules.js 的預設規則
+ */
+
+import { createJsonFileStore } from './jsonFileStore.js';
+import { DEFAULT_PRIORITY_RULE_SET, validatePriorityRuleSet } from './priorityRules.js';
+
+const file = createJsonFileStore('priority-rules.json', { channels: {} });
+// channelId -> { channelId, rules, maxResults, updatedAt, updatedBy }
+const ruleSetsByChannel = new Map(Object.entries(file.read().channels || {}));
+
+const persist = () => {
+  file.write({ channels: Object.fromEntries(ruleSetsByChannel) });
+};
+
+/**
+ * 取得頻道的規則設定
+ * @param {string} channelId
+ * @returns {{ rules: Array, maxResults: number, isDefault: boolean, updatedAt: number | null, updatedBy: string | null }}
+ */
+export function getPriorityRuleSet(channelId) {
+  const record = channelId ? ruleSetsByChannel.get(channelId) : null;
+  if (!record) {
+    return { ...DEFAULT_PRIORITY_RULE_SET, isDefault: true, updatedAt: null, updatedBy: null };
+  }
+  return {
+    rules: record.rules,
+    maxResults: record.maxResults,
+    isDefault: false,
+    updatedAt: record.updatedAt,
+    updatedBy: record.updatedBy,
+  };
+}
+
+/**
+ * 儲存頻道的規則設定
+ * @param {string} channelId
+ * @param {unknown} input - { rules, maxResults }
+ * @param {string} userId
+ * @returns {object} 儲存後的設定
+ * @throws {Error} 規則格式不正確時（訊息為所有錯誤，以「；」分隔）
+ */
+export function savePriorityRuleSet(channelId, input, userId) {
+  if (!channelId) {
+    throw new Error('缺少頻道 ID');
+  }
+
+  const { ruleSet, errors } = validatePriorityRuleSet(input);
+  if (!ruleSet) {
+    throw new Error(errors.join('；'));
+  }
+
+  const record = { channelId, ...ruleSet, updatedAt: Date.now(), updatedBy: userId };
+  ruleSetsByChannel.set(channelId, record);
+  persist();
+
+  console.log(`[PriorityRules] ${userId} 更新頻道 ${channelId} 的優先級規則（${ruleSet.rules.length} 條）`);
+  return getPriorityRuleSet(channelId);
+}
+
+/**
+ * 刪除頻道的自訂規則（恢復預設）
+ * @param {string} channelId
+ * @returns {boolean} 是否有刪除
+ */
+export function resetPriorityRuleSet(channelId) {
+  const deleted = ruleSetsByChannel.delete(channelId);
+  if (deleted) {
+    persist();
+  }
+  return deleted;
+}
@@ -0,0 +1,294 @@
+/**
+ * 影片更新優先級規則引擎
+ * 規則以資料描述（指標、比較運算子、門檻、權重、原因模板、內容類型），可依頻道調整
+ *
+ * 注意：此檔案使用 .js 格式，讓 server.js 與前端規則編輯器共用指標定義與預設規則
+ */
+
+// Shorts 判斷：影片長度不超過 3 分鐘
+export const SHORTS_MAX_SECONDS = 180;
+
+export const MAX_PRIORITY_RULES = 20;
+const MAX_CONDITIONS_PER_RULE = 5;
+
+/**
+ * 可用的指標；get 從 analyticsService 的影片資料取值
+ * decimals 為原因模板中最多顯示的小數位數（去除結尾的 0），padDecimals 為 true 時固定位數
+ */
+export const PRIORITY_METRICS = {
+  views: { label: '觀看次數', unit: '', decimals: 0, get: (video) => video.metrics.views },
+  impressions: { label: '曝光次數', unit: '', decimals: 0, get: (video) => video.impressions.impressions },
+  ctr: { label: '點閱率 (CTR)', unit: '%', decimals: 2, padDecimals: true, get: (video) => video.impressions.ctr },
+  averageViewPercentage: {
+    label: '平均觀看百分比',
+    unit: '%',
+    decimals: 2,
+    get: (video) => parseFloat(video.metrics.averageViewPercentage),
+  },
+  averageViewDuration: { label: '平均觀看秒數', unit: '秒', decimals: 0, get: (video) => video.metrics.averageViewDuration },
+  likeRatio: { label: '按讚比例', unit: '%', decimals: 2, get: (video) => parseFloat(video.metrics.likeRatio) },
+  searchPercentage: {
+    label: '搜尋流量佔比',
+    unit: '%',
+    decimals: 2,
+    get: (video) => parseFloat(video.trafficSources.searchPercentage),
+  },
+  comments: { label: '留言數', unit: '', decimals: 0, get: (video) => video.metrics.comments },
+  shares: { label: '分享數', unit: '', decimals: 0, get: (video) => video.metrics.shares },
+  subscribersGained: { label: '新增訂閱', unit: '', decimals: 0, get: (video) => video.metrics.subscribersGained },
+  durationSeconds: { label: '影片長度（秒）', unit: '秒', decimals: 0, get: (video) => video.durationSeconds },
+  daysSincePublished: {
+    label: '發布天數',
+    unit: '天',
+    decimals: 0,
+    get: (video) => {
+      const publishedAt = Date.parse(video.publishedAt);
+      return Number.isFinite(publishedAt) ? Math.floor((Date.now() - publishedAt) / 86400000) : null;
+    },
+  },
+};
+
+export const PRIORITY_OPERATORS = {
+  '<': (value, threshold) => value < threshold,
+  '<=': (value, threshold) => value <= threshold,
+  '>': (value, threshold) => value > threshold,
+  '>=': (value, threshold) => value >= threshold,
+};
+
+export const CONTENT_TYPES = {
+  all: '全部影片',
+  long: '一般影片',
+  short: 'Shorts',
+};
+
+/**
+ * 規則效果：add 為加分；exclude 為排除（分數歸零，不列入建議）
+ */
+export const RULE_EFFECTS = ['add', 'exclude'];
+
+// 與原本寫死在 calculateUpdatePriority 的五條規則相同
+export const DEFAULT_PRIORITY_RULE_SET = {
+  maxResults: 50,
+  rules: [
+    {
+      id: 'low-ctr-high-impressions',
+      name: 'CTR 過低但曝光量高',
+      effect: 'add',
+      weight: 50,
+      contentType: 'all',
+      conditions: [
+        { metric: 'ctr', operator: '<', threshold: 5 },
+        { metric: 'impressions', operator: '>', threshold: 1000 },
+      ],
+      reasonTemplate: 'CTR 過低 ({ctr}%)，但曝光量高 ({impressions})',
+    },
+    {
+      id: 'low-view-percentage',
+      name: '觀看時長過低',
+      effect: 'add',
+      weight: 40,
+      contentType: 'all',
+      conditions: [
+        { metric: 'averageViewPercentage', operator: '<', threshold: 40 },
+        { metric: 'views', operator: '>', threshold: 100 },
+      ],
+      reasonTemplate: '觀看時長過低 ({averageViewPercentage}%)，可能標題與內容不符',
+    },
+    {
+      id: 'search-potential',
+      name: '搜尋流量佔比高但 CTR 低',
+      effect: 'add',
+      weight: 30,
+      contentType: 'all',
+      conditions: [
+        { metric: 'searchPercentage', operator: '>', threshold: 30 },
+        { metric: 'ctr', operator: '<', threshold: 8 },
+      ],
+      reasonTemplate: '搜尋流量佔比高 ({searchPercentage}%)，SEO 有潛力',
+    },
+    {
+      id: 'low-like-ratio',
+      name: '讚數比例過低',
+      effect: 'add',
+      weight: 20,
+      contentType: 'all',
+      conditions: [
+        { metric: 'likeRatio', operator: '<', threshold: 1 },
+        { metric: 'views', operator: '>', threshold: 200 },
+      ],
+      reasonTemplate: '讚數比例過低 ({likeRatio}%)，內容品質可能需改善',
+    },
+    {
+      id: 'too-few-views',
+      name: '近期觀看次數過低',
+      effect: 'exclude',
+      weight: 0,
+      contentType: 'all',
+      conditions: [{ metric: 'views', operator: '<', threshold: 50 }],
+      reasonTemplate: '近期觀看次數過低，不建議更新',
+    },
+  ],
+};
+
+/**
+ * 依影片長度判斷內容類型；長度未知時回傳 null（只符合「全部影片」的規則）
+ * @param {{ durationSeconds?: number | null }} video
+ * @returns {'short' | 'long' | null}
+ */
+export function getVideoContentType(video) {
+  if (typeof video.durationSeconds !== 'number' || video.durationSeconds <= 0) return null;
+  return video.durationSeconds <= SHORTS_MAX_SECONDS ? 'short' : 'long';
+}
+
+function formatMetricValue(metricKey, value) {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return '-';
+  const { decimals = 0, padDecimals = false } = PRIORITY_METRICS[metricKey] || {};
+  if (decimals === 0) return String(Math.round(value));
+  return padDecimals ? value.toFixed(decimals) : String(Number(value.toFixed(decimals)));
+}
+
+/**
+ * 將原因模板中的 {指標} 換成影片的實際數值
+ * @param {string} template
+ * @param {object} video
+ * @returns {string}
+ */
+export function renderReason(template, video) {
+  return String(template || '').replace(/\{(\w+)\}/g, (match, key) =>
+    PRIORITY_METRICS[key] ? formatMetricValue(key, PRIORITY_METRICS[key].get(video)) : match
+  );
+}
+
+/**
+ * 影片是否符合規則（內容類型與所有條件皆成立）
+ * @param {object} rule
+ * @param {object} video
+ * @returns {boolean}
+ */
+export function matchesRule(rule, video) {
+  if (rule.enabled === false) return false;
+  if (rule.contentType && rule.contentType !== 'all' && getVideoContentType(video) !== rule.contentType) return false;
+  return rule.conditions.every((condition) => {
+    const value = PRIORITY_METRICS[condition.metric]?.get(video);
+    if (typeof value !== 'number' || !Number.isFinite(value)) return false;
+    return PRIORITY_OPERATORS[condition.operator](value, condition.threshold);
+  });
+}
+
+/**
+ * 驗證並整理規則設定
+ * @param {unknown} input - { rules, maxResults }
+ * @returns {{ ruleSet: object | null, errors: string[] }}
+ */
+export function validatePriorityRuleSet(input) {
+  const errors = [];
+  const rawRules = Array.isArray(input?.rules) ? input.rules : null;
+  if (!rawRules) {
+    return { ruleSet: null, errors: ['rules 必須是陣列'] };
+  }
+  if (rawRules.length > MAX_PRIORITY_RULES) {
+    errors.push(`最多 ${MAX_PRIORITY_RULES} 條規則`);
+  }
+
+  const maxResults = Number(input.maxResults ?? DEFAULT_PRIORITY_RULE_SET.maxResults);
+  if (!Number.isInteger(maxResults) || maxResults < 1 || maxResults > 500) {
+    errors.push('maxResults 必須是 1 到 500 的整數');
+  }
+
+  const seenIds = new Set();
+  const rules = rawRules.slice(0, MAX_PRIORITY_RULES).map((rule, index) => {
+    const label = `規則 ${index + 1}`;
+    const id = typeof rule?.id === 'string' && rule.id.trim() ? rule.id.trim() : `rule-${index + 1}`;
+    if (seenIds.has(id)) errors.push(`${label}：id「${id}」重複`);
+    seenIds.add(id);
+
+    const effect = RULE_EFFECTS.includes(rule?.effect) ? rule.effect : 'add';
+    const weight = Number(rule?.weight ?? 0);
+    if (effect === 'add' && (!Number.isFinite(weight) || weight <= 0 || weight > 1000)) {
+      errors.push(`${label}：權重必須介於 0 到 1000`);
+    }
+    const contentType = rule?.contentType ?? 'all';
+    if (!CONTENT_TYPES[contentType]) errors.push(`${label}：不支援的內容類型「${contentType}」`);
+
+    const rawConditions = Array.isArray(rule?.conditions) ? rule.conditions : [];
+    if (rawConditions.length === 0 || rawConditions.length > MAX_CONDITIONS_PER_RULE) {
+      errors.push(`${label}：需要 1 到 ${MAX_CONDITIONS_PER_RULE} 個條件`);
+    }
+    const conditions = rawConditions.slice(0, MAX_CONDITIONS_PER_RULE).map((condition) => {
+      if (!PRIORITY_METRICS[condition?.metric]) errors.push(`${label}：不支援的指標「${condition?.metric}」`);
+      if (!PRIORITY_OPERATORS[condition?.operator]) errors.push(`${label}：不支援的運算子「${condition?.operator}」`);
+      const threshold = Number(condition?.threshold);
+      if (!Number.isFinite(threshold)) errors.push(`${label}：門檻必須是數字`);
+      return { metric: condition?.metric, operator: condition?.operator, threshold };
+    });
+
+    const reasonTemplate = typeof rule?.reasonTemplate === 'string' ? rule.reasonTemplate.trim() : '';
+    if (!reasonTemplate) errors.push(`${label}：原因模板不能空白`);
+
+    return {
+      id,
+      name: typeof rule?.name === 'string' && rule.name.trim() ? rule.name.trim() : label,
+      effect,
+      weight: effect === 'add' ? weight : 0,
+      contentType,
+      conditions,
+      reasonTemplate,
+      enabled: rule?.enabled !== false,
+    };
+  });
+
+  return errors.length > 0 ? { ruleSet: null, errors } : { ruleSet: { rules, maxResults }, errors };
+}
+
+/**
+ * 依規則計算每支影片的分數與原因
+ * @param {Array} analyticsData
+ * @param {{ rules: Array }} ruleSet
+ * @returns {Array} 每支影片加上 priorityScore、updateReasons、matchedRuleIds
+ */
+export function scoreVideos(analyticsData, ruleSet) {
+  return analyticsData.map((video) => {
+    let score = 0;
+    let reasons = [];
+    const matchedRuleIds = [];
+    let excludedBy = null;
+
+    for (const rule of ruleSet.rules) {
+      if (!matchesRule(rule, video)) continue;
+      matchedRuleIds.push(rule.id);
+      if (rule.effect === 'exclude') {
+        excludedBy = excludedBy || rule;
+        continue;
+      }
+      score += rule.weight;
+      reasons.push(renderReason(rule.reasonTemplate, video));
+    }
+
+    // 排除規則優先：分數歸零，只保留排除原因
+    if (excludedBy) {
+      score = 0;
+      reasons = [renderReason(excludedBy.reasonTemplate, video)];
+    }
+
+    return {
+      ...video,
+      contentType: getVideoContentType(video),
+      priorityScore: score,
+      updateReasons: reasons,
+      matchedRuleIds,
+    };
+  });
+}
+
+/**
+ * 套用規則並取分數最高的影片
+ * @param {Array} analyticsData
+ * @param {{ rules: Array, maxResults: number }} [ruleSet]
+ * @returns {Array}
+ */
+export function rankVideosByPriority(analyticsData, ruleSet = DEFAULT_PRIORITY_RULE_SET) {
+  return scoreVideos(analyticsData, ruleSet)
+    .filter((video) => video.priorityScore > 0)
+    .sort((a, b) => b.priorityScore - a.priorityScore)
+    .slice(0, ruleSet.maxResults);
+}
@@ -91,5 +91,90 @@ MM:SS 段落的核心主題\\n
 3. **範例格式**：
    \"這是核心主題介紹，包含重要關鍵字。\\n這是第二句補充說明。\\n第三句強調價值。\\n\\n背景資訊第一句。\\n背景資訊第二句。\\n\\n📍 章節導覽\\n00:00 開場\\n- 00:30 自我介紹\\n02:30 主題一\\n- 03:00 步驟一\\n- 04:00 步驟二\\n05:00 結語\\n\\n歡迎訂閱頻道！\\n更多資訊請見連結。\\n\\n#關鍵字1 #關鍵字2 #關鍵字3\"
 
-請以 JSON 格式回傳，包含 titleA, titleB, titleC, description (完整說明含章節和標籤，使用 \\n 表示換行), tags (陣列，不含#)`;
+## 4. 章節 (chapters)
+將說明中章節導覽的每一個時間點（含子主題）另外整理成陣列，每項包含 timestamp（MM:SS，超過一小時用 H:MM:SS）與 title，必須與說明中的時間軸一致：
+- 第一個章節必須是 00:00
+- 至少 3 個章節，每個章節長度至少 10 秒
+- 時間點依序遞增且不可超過影片長度
+
+請以 JSON 格式回傳，包含 titleA, titleB, titleC, description (完整說明含章節和標籤，使用 \\n 表示換行), tags (陣列，不含#), chapters (陣列，每項為 { "timestamp": "00:00", "title": "開場" })`;
+}
+
+/**
+ * 生成影片標題與說明的多語系翻譯提示詞
+ * @param {{ title: string, description: string, tags?: string[] }} metadata 原始語言的標題、說明與標籤
+ * @param {string} sourceLanguage 原始語言代碼（例如 zh-TW）
+ * @param {string[]} targetLanguages 目標語言代碼（例如 ['en', 'ja']）
+ * @returns {string} 完整的提示詞
+ */
+export function generateTranslationPrompt(metadata, sourceLanguage, targetLanguages) {
+  return `# 角色 (Role)
+您是一位熟悉各地 YouTube 觀眾用語的在地化 (localization) 專家。
+
+# 任務
+將以下 ${sourceLanguage} 的 YouTube 影片標題與說明，翻譯成這些語言：${targetLanguages.join(', ')}。
+
+# 翻譯原則
+1. **在地化而非直譯:** 使用目標語言觀眾習慣的搜尋關鍵字與語氣，保留原標題的吸引力
+2. **保留格式:** 說明中的換行、Emoji、章節時間軸（例如 00:00）、網址與 #hashtag 結構必須保留，時間軸的時間不可更動
+3. **標題格式:** 保留【】框起的主題標記，並翻譯框內文字；標題長度不可超過 100 個字元
+4. **專有名詞:** 產品名稱、品牌、程式語言等專有名詞維持原文
+5. **禁止使用 < 或 > 符號**（YouTube 不允許）
+${metadata.tags?.length ? `\n參考標籤（協助理解主題，不需翻譯）：${metadata.tags.join(', ')}\n` : ''}
+# 原始標題
+${metadata.title}
+
+# 原始說明
+${metadata.description}
+
+請以 JSON 格式回傳：{ "translations": { "<語言代碼>": { "title": "...", "description": "..." } } }，語言代碼必須與上面列出的完全相同，description 使用 \\n 表示換行`;
+}
+
+/**
+ * 生成影片逐字稿（字幕）的提示詞
+ * @param {string} videoTitle 影片標題
+ * @param {string} language 逐字稿語言代碼（例如 zh-TW）
+ * @returns {string} 完整的提示詞
+ */
+export function generateTranscriptPrompt(videoTitle, language) {
+  return `# 角色 (Role)
+您是一位專業的影片字幕聽打員。
+
+# 任務
+為這支影片「${videoTitle}」產生完整、帶時間軸的逐字稿，用於製作字幕。
+
+# 聽打原則
+1. **完整聽打:** 逐句記錄影片中所有說話內容，不要摘要或省略
+2. **語言:** 以 ${language} 輸出；若說話內容是其他語言，仍以原本說的內容聽打
+3. **斷句:** 每個片段為一句或一個短語，顯示時間 1 到 7 秒，文字不超過 42 個字元（中日文約 20 字）
+4. **時間軸:** start / end 為該片段在影片中的開始與結束秒數（可含小數），片段依時間排序且不可重疊
+5. **清理:** 移除「嗯」「呃」等贅字，修正明顯的口誤，但不要改寫意思
+6. **非語音內容:** 只有音樂或無人說話的段落不要產生片段
+
+請以 JSON 格式回傳：{ "segments": [{ "start": 0.0, "end": 2.5, "text": "..." }] }`;
+}
+
+/**
+ * 生成逐字稿翻譯的提示詞（只翻譯文字，時間軸由伺服器保留）
+ * @param {Array<{ i: number, text: string }>} lines 依序編號的字幕文字
+ * @param {string} sourceLanguage 原始語言代碼
+ * @param {string} targetLanguage 目標語言代碼
+ * @returns {string} 完整的提示詞
+ */
+export function generateTranscriptTranslationPrompt(lines, sourceLanguage, targetLanguage) {
+  return `# 角色 (Role)
+您是一位專業的影片字幕翻譯。
+
+# 任務
+將以下 ${sourceLanguage} 字幕逐行翻譯成 ${targetLanguage}。
+
+# 翻譯原則
+1. **逐行對應:** 每一行都必須翻譯，並保留相同的 i 編號，不可合併或拆分行
+2. **字幕長度:** 譯文要精簡易讀，適合在畫面上快速閱讀
+3. **前後文一致:** 參考前後行理解語意，專有名詞翻譯保持一致；產品名稱、品牌、程式語言等維持原文
+
+# 字幕
+${JSON.stringify(lines)}
+
+請以 JSON 格式回傳：{ "lines": [{ "i": 0, "text": "..." }] }`;
 }
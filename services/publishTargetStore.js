@@ -0,0 +1,138 @@
+/**
+ * 發佈目標設定（每位使用者各自保存 WordPress / Webhook 憑證）
+ * 回傳給前端時機密欄位一律遮罩，只告知是否已設定
+ */
+
+import crypto from 'crypto';
+import { createJsonFileStore } from './jsonFileStore.js';
+import { PUBLISHER_TYPES, normalizePublisherConfig } from './publishers/index.js';
+
+const MAX_TARGETS_PER_USER = 20;
+
+const file = createJsonFileStore('publish-targets.json', { users: {} });
+// userId -> target[]
+const targetsByUser = new Map(Object.entries(file.read().users || {}));
+
+const persist = () => {
+  file.write({ users: Object.fromEntries(targetsByUser) });
+};
+
+function toPublic(target) {
+  const { secretFields } = PUBLISHER_TYPES[target.type];
+  const config = { ...target.config };
+  const secrets = {};
+  for (const field of secretFields) {
+    secrets[field] = Boolean(config[field]);
+    delete config[field];
+  }
+  return { ...target, config, secrets };
+}
+
+function normalizeName(name, type) {
+  const trimmed = typeof name === 'string' ? name.trim().slice(0, 80) : '';
+  return trimmed || PUBLISHER_TYPES[type].label;
+}
+
+/**
+ * 列出使用者的發佈目標（機密欄位已遮罩）
+ * @param {string} userId
+ * @returns {Array<Object>}
+ */
+export function listPublishTargets(userId) {
+  return (targetsByUser.get(userId) || []).map(toPublic);
+}
+
+/**
+ * 取得完整的發佈目標設定（含憑證，僅供伺服器內部發佈使用）
+ * @param {string} userId
+ * @param {string} targetId
+ * @returns {Object | null}
+ */
+export function getPublishTarget(userId, targetId) {
+  return (targetsByUser.get(userId) || []).find((target) => target.id === targetId) ?? null;
+}
+
+/**
+ * 新增發佈目標
+ * @param {string} userId
+ * @param {{ type: string, name?: string, config: Object }} input
+ * @returns {Object} 遮罩後的發佈目標
+ * @throws {Error} 設定不正確或超過數量上限時
+ */
+export function createPublishTarget(userId, { type, name, config }) {
+  const targets = targetsByUser.get(userId) || [];
+  if (targets.length >= MAX_TARGETS_PER_USER) {
+    throw new Error(`At most ${MAX_TARGETS_PER_USER} publish targets are allowed`);
+  }
+
+  const target = {
+    id: `pt_${Date.now()}_${crypto.randomBytes(4).toString('hex')}`,
+    type,
+    name: '',
+    config: normalizePublisherConfig(type, config),
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+    lastPublishedAt: null,
+  };
+  target.name = normalizeName(name, type);
+  targetsByUser.set(userId, [...targets, target]);
+  persist();
+
+  console.log(`[PublishTargets] ${userId} 新增 ${type} 發佈目標 ${target.id}`);
+  return toPublic(target);
+}
+
+/**
+ * 更新發佈目標（機密欄位留空時沿用原本的值）
+ * @param {string} userId
+ * @param {string} targetId
+ * @param {{ name?: string, config?: Object }} input
+ * @returns {Object | null} 遮罩後的發佈目標，找不到時回傳 null
+ * @throws {Error} 設定不正確時
+ */
+export function updatePublishTarget(userId, targetId, { name, config }) {
+  const target = getPublishTarget(userId, targetId);
+  if (!target) return null;
+
+  const merged = { ...target.config, ...(config || {}) };
+  for (const field of PUBLISHER_TYPES[target.type].secretFields) {
+    if (!config?.[field]) {
+      merged[field] = target.config[field];
+    }
+  }
+
+  target.config = normalizePublisherConfig(target.type, merged);
+  if (name !== undefined) {
+    target.name = normalizeName(name, target.type);
+  }
+  target.updatedAt = Date.now();
+  persist();
+  return toPublic(target);
+}
+
+/**
+ * 刪除發佈目標
+ * @param {string} userId
+ * @param {string} targetId
+ * @returns {boolean} 是否有刪除
+ */
+export function deletePublishTarget(userId, targetId) {
+  const targets = targetsByUser.get(userId) || [];
+  const remaining = targets.filter((target) => target.id !== targetId);
+  if (remaining.length === targets.length) return false;
+  targetsByUser.set(userId, remaining);
+  persist();
+  return true;
+}
+
+/**
+ * 記錄最後一次發佈時間
+ * @param {string} userId
+ * @param {string} targetId
+ */
+export function markPublishTargetUsed(userId, targetId) {
+  const target = getPublishTarget(userId, targetId);
+  if (!target) return;
+  target.lastPublishedAt = Date.now();
+  persist();
+}
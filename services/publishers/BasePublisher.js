@@ -0,0 +1,111 @@
+/**
+ * Base Publisher - 所有文章發佈目標的抽象基類
+ * 截圖處理與 Notion 相同：能在本機找到的截圖先上傳到目標，失敗或找不到時改用原始網址
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { guessImageMimeType, resolveLocalImagePath } from '../notionService.js';
+import { toAbsoluteUrl } from '../articleExportService.js';
+
+export class BasePublisher {
+  constructor(config) {
+    this.config = config;
+  }
+
+  /**
+   * 發佈目標名稱（用於 log）
+   * @returns {string}
+   */
+  getName() {
+    throw new Error('getName() must be implemented by subclass');
+  }
+
+  /**
+   * 檢查連線與憑證是否有效
+   * @returns {Promise<{ message: string }>}
+   */
+  async testConnection() {
+    throw new Error('testConnection() must be implemented by subclass');
+  }
+
+  /**
+   * 發佈文章
+   * @param {Object} article - { videoId, title, article, seoDescription?, videoUrl?, screenshotPlan?, imageUrls?, baseUrl? }
+   * @returns {Promise<Object>} { id, url }
+   */
+  async publish(article) {
+    throw new Error('publish() must be implemented by subclass');
+  }
+
+  /**
+   * 是否需要把截圖檔案交給 uploadImage()
+   * @returns {boolean}
+   */
+  supportsImageUpload() {
+    return false;
+  }
+
+  /**
+   * 上傳單張截圖
+   * @param {Buffer} buffer
+   * @param {string} fileName
+   * @param {string} mimeType
+   * @returns {Promise<Object | null>} 會合併到 prepareImage() 的結果；回傳 null 表示改用原始網址
+   */
+  async uploadImage(buffer, fileName, mimeType) {
+    return null;
+  }
+
+  /**
+   * 準備單張截圖
+   * @param {string} imageUrl - /images/... 或完整網址
+   * @param {string} [baseUrl] - 把相對路徑轉成絕對網址用
+   * @returns {Promise<{ url: string, mediaId?: number | string, fileName?: string, mimeType?: string, data?: string }>}
+   */
+  async prepareImage(imageUrl, baseUrl) {
+    const externalUrl = toAbsoluteUrl(imageUrl, baseUrl);
+    const localPath = this.supportsImageUpload() ? resolveLocalImagePath(imageUrl) : null;
+    if (!localPath) {
+      return { url: externalUrl };
+    }
+
+    try {
+      const buffer = await fs.promises.readFile(localPath);
+      const uploaded = await this.uploadImage(buffer, path.basename(localPath), guessImageMimeType(localPath));
+      return { url: externalUrl, ...(uploaded || {}) };
+    } catch (error) {
+      console.error(`[Publisher:${this.getName()}] 圖片上傳失敗，改用原始 URL:`, error);
+      return { url: externalUrl };
+    }
+  }
+
+  /**
+   * 依截圖組（每個時間點一組）準備所有截圖，並附上截圖規劃的說明
+   * @param {Object} article
+   * @returns {Promise<Array<{ timestamp: string, reason: string, images: Array<Object> }>>}
+   */
+  async prepareScreenshotGroups(article) {
+    const groups = Array.isArray(article.imageUrls) ? article.imageUrls : [];
+    const plan = Array.isArray(article.screenshotPlan) ? article.screenshotPlan : [];
+    const prepared = [];
+
+    for (const [index, group] of groups.entries()) {
+      const urls = Array.isArray(group)
+        ? group.map((url) => (typeof url === 'string' ? url.trim() : '')).filter(Boolean)
+        : [];
+      if (urls.length === 0) continue;
+
+      const images = [];
+      for (const url of urls) {
+        images.push(await this.prepareImage(url, article.baseUrl));
+      }
+      prepared.push({
+        timestamp: plan[index]?.timestamp || plan[index]?.timestamp_seconds || '',
+        reason: plan[index]?.reason || plan[index]?.reason_for_screenshot || '',
+        images,
+      });
+    }
+    return prepared;
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * Webhook Publisher - 將文章以 JSON POST 到自訂網址（例如 Zapier、n8n 或自架 CMS）
+ * 設定 secret 時會以 HMAC-SHA256 簽署 body，放在 X-Signature-256 標頭（格式：sha256=<hex>）
+ */
+
+import crypto from 'crypto';
+import { BasePublisher } from './BasePublisher.js';
+import { renderArticleHtml } from '../articleExportService.js';
+
+const REQUEST_TIMEOUT_MS = 30000;
+
+export class WebhookPublisher extends BasePublisher {
+  getName() {
+    return 'Webhook';
+  }
+
+  // 開啟 embedImages 時把截圖以 base64 放進 payload，接收端不需要能連回這台伺服器
+  supportsImageUpload() {
+    return Boolean(this.config.embedImages);
+  }
+
+  async uploadImage(buffer, fileName, mimeType) {
+    return { fileName, mimeType, data: buffer.toString('base64') };
+  }
+
+  async send(payload) {
+    const body = JSON.stringify(payload);
+    const headers = { 'Content-Type': 'application/json', 'User-Agent': 'ai-video-writer-webhook' };
+    if (this.config.secret) {
+      headers['X-Signature-256'] = `sha256=${crypto.createHmac('sha256', this.config.secret).update(body).digest('hex')}`;
+    }
+
+    const response = await fetch(this.config.url, {
+      method: 'POST',
+      headers,
+      body,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    const text = await response.text();
+    if (!response.ok) {
+      throw new Error(`Webhook 回應錯誤: ${response.status}${text ? ` ${text.slice(0, 200)}` : ''}`);
+    }
+
+    try {
+      return text ? JSON.parse(text) : {};
+    } catch {
+      return {};
+    }
+  }
+
+  async testConnection() {
+    await this.send({ event: 'ping', sentAt: new Date().toISOString() });
+    return { message: 'Webhook 已回應' };
+  }
+
+  async publish(article) {
+    const screenshots = await this.prepareScreenshotGroups(article);
+    const data = await this.send({
+      event: 'article.published',
+      sentAt: new Date().toISOString(),
+      article: {
+        videoId: article.videoId,
+        title: article.title,
+        seoDescription: article.seoDescription || '',
+        videoUrl: article.videoUrl || null,
+        content: article.article,
+        html: renderArticleHtml(article.article),
+        screenshots,
+      },
+    });
+
+    // 接收端可回傳 { id, url } 讓前端顯示發佈後的連結
+    return { id: data.id ?? null, url: typeof data.url === 'string' ? data.url : null };
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * WordPress Publisher - 透過 WordPress REST API 建立文章並上傳截圖到媒體庫
+ * 驗證使用「應用程式密碼」（使用者 → 個人資料 → 應用程式密碼），不需安裝外掛
+ */
+
+import { BasePublisher } from './BasePublisher.js';
+import { escapeHtml, renderArticleHtml } from '../articleExportService.js';
+
+export class WordPressPublisher extends BasePublisher {
+  constructor(config) {
+    super(config);
+    this.apiBase = `${(config.siteUrl || '').replace(/\/+$/, '')}/wp-json/wp/v2`;
+  }
+
+  getName() {
+    return 'WordPress';
+  }
+
+  supportsImageUpload() {
+    return true;
+  }
+
+  buildHeaders(extra = {}) {
+    const credentials = Buffer.from(`${this.config.username}:${this.config.applicationPassword}`).toString('base64');
+    return { Authorization: `Basic ${credentials}`, ...extra };
+  }
+
+  async readError(response) {
+    const errorData = await response.json().catch(() => ({}));
+    return new Error(errorData.message || errorData.code || `WordPress 回應錯誤: ${response.status}`);
+  }
+
+  async testConnection() {
+    const response = await fetch(`${this.apiBase}/users/me?context=edit`, {
+      headers: this.buildHeaders(),
+    });
+    if (!response.ok) {
+      throw await this.readError(response);
+    }
+    const user = await response.json();
+    return { message: `已連線為 ${user.name || user.slug || this.config.username}` };
+  }
+
+  async uploadImage(buffer, fileName, mimeType) {
+    const response = await fetch(`${this.apiBase}/media`, {
+      method: 'POST',
+      headers: this.buildHeaders({
+        'Content-Type': mimeType,
+        'Content-Disposition': `attachment; filename="${encodeURIComponent(fileName)}"`,
+      }),
+      body: buffer,
+    });
+    if (!response.ok) {
+      throw await this.readError(response);
+    }
+    const media = await response.json();
+    return { url: media.source_url, mediaId: media.id };
+  }
+
+  buildContent(article, screenshotGroups) {
+    const parts = [];
+    if (article.videoUrl) {
+      parts.push(`<p>🎬 原始影片：<a href="${escapeHtml(article.videoUrl)}">${escapeHtml(article.videoUrl)}</a></p>`);
+    }
+    parts.push(renderArticleHtml(article.article));
+
+    if (screenshotGroups.length > 0) {
+      parts.push('<h2>關鍵畫面截圖</h2>');
+      for (const group of screenshotGroups) {
+        const caption = [group.timestamp, group.reason].filter(Boolean).join(' — ');
+        const images = group.images
+          .map((image) => {
+            const className = image.mediaId ? ` class="wp-image-${image.mediaId}"` : '';
+            return `<figure class="wp-block-image"><img src="${escapeHtml(image.url)}" alt="${escapeHtml(group.reason)}"${className}></figure>`;
+          })
+          .join('');
+        parts.push(
+          `<figure class="wp-block-gallery has-nested-images columns-${group.images.length}">${images}` +
+            `${caption ? `<figcaption class="blocks-gallery-caption">${escapeHtml(caption)}</figcaption>` : ''}</figure>`
+        );
+      }
+    }
+    return parts.join('\n');
+  }
+
+  async publish(article) {
+    const screenshotGroups = await this.prepareScreenshotGroups(article);
+    // 精選圖片優先用第一組中間那張（截圖時間點當下），沒上傳成功時改用任一張已上傳的截圖
+    const firstGroup = screenshotGroups[0]?.images ?? [];
+    const featured = [firstGroup[Math.floor(firstGroup.length / 2)], ...screenshotGroups.flatMap((group) => group.images)]
+      .find((image) => image?.mediaId);
+
+    const response = await fetch(`${this.apiBase}/posts`, {
+      method: 'POST',
+      headers: this.buildHeaders({ 'Content-Type': 'application/json' }),
+      body: JSON.stringify({
+        title: article.title,
+        content: this.buildContent(article, screenshotGroups),
+        excerpt: article.seoDescription || '',
+        status: this.config.status || 'draft',
+        ...(featured?.mediaId ? { featured_media: featured.mediaId } : {}),
+      }),
+    });
+    if (!response.ok) {
+      throw await this.readError(response);
+    }
+
+    const post = await response.json();
+    return { id: post.id, url: post.link || null };
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * 文章發佈目標
+ * 每種目標定義必填欄位與需要遮罩的機密欄位，並由 createPublisher() 建立對應的 Publisher
+ */
+
+import { WordPressPublisher } from './WordPressPublisher.js';
+import { WebhookPublisher } from './WebhookPublisher.js';
+
+export const PUBLISHER_TYPES = {
+  wordpress: {
+    label: 'WordPress',
+    fields: ['siteUrl', 'username', 'applicationPassword', 'status'],
+    requiredFields: ['siteUrl', 'username', 'applicationPassword'],
+    urlFields: ['siteUrl'],
+    secretFields: ['applicationPassword'],
+    Publisher: WordPressPublisher,
+  },
+  webhook: {
+    label: 'Webhook',
+    fields: ['url', 'secret', 'embedImages'],
+    requiredFields: ['url'],
+    urlFields: ['url'],
+    secretFields: ['secret'],
+    Publisher: WebhookPublisher,
+  },
+};
+
+const WORDPRESS_STATUSES = ['draft', 'pending', 'publish'];
+
+/**
+ * 驗證並整理發佈目標設定（只保留該類型的欄位）
+ * @param {string} type
+ * @param {Object} config
+ * @returns {Object}
+ * @throws {Error} 類型不支援或欄位不正確時
+ */
+export function normalizePublisherConfig(type, config) {
+  const spec = PUBLISHER_TYPES[type];
+  if (!spec) {
+    throw new Error(`Unsupported publish target type: ${type}`);
+  }
+
+  const normalized = {};
+  for (const field of spec.fields) {
+    const value = config?.[field];
+    normalized[field] = typeof value === 'string' ? value.trim() : value;
+  }
+
+  for (const field of spec.requiredFields) {
+    if (!normalized[field]) {
+      throw new Error(`${field} is required`);
+    }
+  }
+  for (const field of spec.urlFields) {
+    if (!/^https?:\/\/[^\s]+$/i.test(normalized[field])) {
+      throw new Error(`${field} must be an http(s) URL`);
+    }
+  }
+
+  if (type === 'wordpress') {
+    normalized.status = WORDPRESS_STATUSES.includes(normalized.status) ? normalized.status : 'draft';
+  }
+  if (type === 'webhook') {
+    normalized.embedImages = Boolean(normalized.embedImages);
+  }
+  return normalized;
+}
+
+/**
+ * 建立 Publisher
+ * @param {{ type: string, config: Object }} target
+ * @returns {import('./BasePublisher.js').BasePublisher}
+ */
+export function createPublisher(target) {
+  const spec = PUBLISHER_TYPES[target.type];
+  if (!spec) {
+    throw new Error(`Unsupported publish target type: ${target.type}`);
+  }
+  return new spec.Publisher(target.config);
+}
@@ -0,0 +1,134 @@
+/**
+ * 定期報表的設定格式與驗證（前端編輯器與伺服器共用）
+ * 日期範圍使用 dateRangeUtils 的設定字串（相對日期如 last7days，或絕對日期如 2024、202410）
+ */
+
+import { parseDateConfig } from '../utils/dateRangeUtils.js';
+import { CRON_PRESETS, parseCronExpression } from './cronSchedule.js';
+
+export { CRON_PRESETS };
+
+export const REPORT_SECTIONS = {
+  kpis: { label: '重點指標', description: '觀看、觀看時間、訂閱與互動，並與前一期比較' },
+  topVideos: { label: '熱門影片', description: '期間內觀看次數最高的影片' },
+  trafficSources: { label: '流量來源', description: '各流量來源的觀看次數與佔比' },
+  keywordGroups: { label: '關鍵字組合', description: '依標題關鍵字分組彙總（同關鍵字報表）' },
+};
+
+// 報表常用的日期範圍（其他 dateRangeUtils 支援的設定字串也可以直接輸入）
+export const REPORT_DATE_PRESETS = ['last7days', 'last30days', 'thisMonth', 'lastMonth', 'thisYear', 'lastYear'];
+
+// AI 摘要使用 PromptTemplates 的分析類型
+export const NARRATIVE_TYPES = {
+  comprehensive: '綜合診斷',
+  'traffic-growth': '流量成長',
+  'view-optimization': '影片優化',
+};
+
+export const MAX_REPORT_KEYWORD_GROUPS = 20;
+export const MAX_REPORT_RECIPIENTS = 20;
+const MAX_TOP_VIDEOS = 50;
+const MAX_NAME_LENGTH = 100;
+const EMAIL_PATTERN = /^[^\s@<>]+@[^\s@<>]+\.[^\s@<>]+$/;
+const CHANNEL_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+export const DEFAULT_REPORT_DEFINITION = {
+  name: '頻道週報',
+  datePreset: 'last7days',
+  sections: ['kpis', 'topVideos', 'trafficSources'],
+  topVideosLimit: 10,
+  keywordGroups: [],
+  narrative: { enabled: false, modelType: 'gemini-flash-latest', analysisType: 'comprehensive' },
+  schedule: CRON_PRESETS.weekly.expression,
+  delivery: { emails: [], webhookUrl: '' },
+  enabled: true,
+};
+
+/**
+ * 驗證並整理報表設定（webhookSecret 由 store 另外處理，不在此驗證）
+ * @param {unknown} input
+ * @returns {{ definition: object | null, errors: string[] }}
+ */
+export function validateReportDefinition(input) {
+  const errors = [];
+  const source = { ...DEFAULT_REPORT_DEFINITION, ...(input && typeof input === 'object' ? input : {}) };
+
+  const name = typeof source.name === 'string' ? source.name.trim() : '';
+  if (!name || name.length > MAX_NAME_LENGTH) errors.push(`報表名稱需為 1 到 ${MAX_NAME_LENGTH} 個字`);
+
+  if (typeof source.channelId !== 'string' || !CHANNEL_ID_PATTERN.test(source.channelId)) {
+    errors.push('頻道 ID 格式不正確');
+  }
+
+  const datePreset = typeof source.datePreset === 'string' ? source.datePreset.trim() : '';
+  if (!parseDateConfig(datePreset)) errors.push(`無法解析日期範圍「${datePreset}」`);
+
+  const sections = Array.isArray(source.sections) ? [...new Set(source.sections)] : [];
+  if (sections.length === 0) errors.push('至少選擇一個報表區塊');
+  for (const section of sections) {
+    if (!REPORT_SECTIONS[section]) errors.push(`不支援的報表區塊「${section}」`);
+  }
+
+  const topVideosLimit = Number(source.topVideosLimit);
+  if (!Number.isInteger(topVideosLimit) || topVideosLimit < 1 || topVideosLimit > MAX_TOP_VIDEOS) {
+    errors.push(`熱門影片數量需為 1 到 ${MAX_TOP_VIDEOS} 的整數`);
+  }
+
+  const rawGroups = Array.isArray(source.keywordGroups) ? source.keywordGroups : [];
+  if (rawGroups.length > MAX_REPORT_KEYWORD_GROUPS) errors.push(`最多 ${MAX_REPORT_KEYWORD_GROUPS} 個關鍵字組合`);
+  const keywordGroups = rawGroups.slice(0, MAX_REPORT_KEYWORD_GROUPS).map((group, index) => {
+    const groupName = typeof group?.name === 'string' ? group.name.trim() : '';
+    if (!groupName) errors.push(`關鍵字組合 ${index + 1}：名稱不能空白`);
+    return { name: groupName, keyword: typeof group?.keyword === 'string' ? group.keyword.trim() : '' };
+  });
+  if (sections.includes('keywordGroups') && keywordGroups.length === 0) {
+    errors.push('選擇「關鍵字組合」區塊時至少需要一個關鍵字組合');
+  }
+
+  const narrative = {
+    enabled: Boolean(source.narrative?.enabled),
+    modelType:
+      typeof source.narrative?.modelType === 'string' && source.narrative.modelType.trim()
+        ? source.narrative.modelType.trim()
+        : DEFAULT_REPORT_DEFINITION.narrative.modelType,
+    analysisType: source.narrative?.analysisType ?? DEFAULT_REPORT_DEFINITION.narrative.analysisType,
+  };
+  if (!NARRATIVE_TYPES[narrative.analysisType]) errors.push(`不支援的 AI 摘要類型「${narrative.analysisType}」`);
+
+  // 排程留空表示只手動產生
+  const schedule = typeof source.schedule === 'string' ? source.schedule.trim() : '';
+  if (schedule) {
+    try {
+      parseCronExpression(schedule);
+    } catch (error) {
+      errors.push(error.message);
+    }
+  }
+
+  const emails = Array.isArray(source.delivery?.emails)
+    ? [...new Set(source.delivery.emails.map((email) => String(email).trim()).filter(Boolean))]
+    : [];
+  if (emails.length > MAX_REPORT_RECIPIENTS) errors.push(`最多 ${MAX_REPORT_RECIPIENTS} 位收件者`);
+  for (const email of emails) {
+    if (!EMAIL_PATTERN.test(email)) errors.push(`Email 格式不正確：${email}`);
+  }
+  const webhookUrl = typeof source.delivery?.webhookUrl === 'string' ? source.delivery.webhookUrl.trim() : '';
+  if (webhookUrl && !/^https?:\/\/[^\s]+$/i.test(webhookUrl)) errors.push('Webhook 網址需為 http(s) URL');
+
+  if (errors.length > 0) return { definition: null, errors };
+  return {
+    definition: {
+      name,
+      channelId: source.channelId,
+      datePreset,
+      sections,
+      topVideosLimit,
+      keywordGroups,
+      narrative,
+      schedule,
+      delivery: { emails, webhookUrl },
+      enabled: source.enabled !== false,
+    },
+    errors,
+  };
+}
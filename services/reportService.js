@@ -0,0 +1,669 @@
+/**
+ * 定期報表產生與寄送
+ * 數據全部來自 analyticsSnapshotStore 的每日快照（排程執行時不需要使用者的 OAuth token），
+ * 影片標題與關鍵字比對使用 Gist 影片快取；可選擇以 PromptTemplates 加上 AI 摘要
+ * 產生 HTML 與 PDF 後保存到產生紀錄，並依設定寄送 Email 或 webhook
+ */
+
+import * as snapshotStore from './analyticsSnapshotStore.js';
+import * as reportStore from './reportStore.js';
+import { getLatestAvailableDate, loadCachedVideos } from './analyticsSnapshotService.js';
+import { filterVideosByKeywordClient } from './channelAnalyticsService.js';
+import { escapeHtml, markdownToHtml } from './articleExportService.js';
+import { PromptTemplates } from './analysisPrompts/PromptTemplates.js';
+import { createPdfDocument } from './pdfDocument.js';
+import { isMailConfigured, sendMail } from './smtpMailer.js';
+import { postSignedWebhook } from './webhookDelivery.js';
+import { REPORT_SECTIONS } from './reportDefinitions.js';
+import { getDateRangeLabel, parseDateConfig } from '../utils/dateRangeUtils.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SCHEDULER_INTERVAL_MS = 60 * 1000;
+const ROLLING_PRESETS = new Set(['last7days', 'last30days']);
+
+const TRAFFIC_SOURCE_LABELS = {
+  YT_SEARCH: 'YouTube 搜尋',
+  SUBSCRIBER: '訂閱者',
+  BROWSE: '瀏覽功能',
+  SUGGESTED: '建議影片',
+  RELATED_VIDEO: '相關影片',
+  YT_CHANNEL: 'YouTube 頻道頁',
+  YT_OTHER_PAGE: 'YouTube 其他頁面',
+  EXT_URL: '外部連結',
+  EXTERNAL_APP: '外部應用程式',
+  NO_LINK_OTHER: '其他',
+  NOTIFICATION: '通知',
+  PLAYLIST: '播放清單',
+  YT_PLAYLIST_PAGE: 'YouTube 播放清單頁',
+  END_SCREEN: '結束畫面',
+  SHORTS: 'Shorts',
+  HASHTAGS: '主題標籤',
+};
+
+const KPI_DEFINITIONS = [
+  { key: 'views', label: '觀看次數', format: 'number' },
+  { key: 'watchTimeHours', label: '觀看時數', format: 'decimal' },
+  { key: 'averageViewDuration', label: '平均觀看時長', format: 'duration' },
+  { key: 'subscribersNet', label: '淨訂閱數', format: 'signed' },
+  { key: 'likes', label: '按讚', format: 'number' },
+  { key: 'comments', label: '留言', format: 'number' },
+  { key: 'shares', label: '分享', format: 'number' },
+];
+
+const shiftDate = (date, days) => new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+
+function formatValue(value, format) {
+  if (value === null || value === undefined) return '—';
+  switch (format) {
+    case 'decimal':
+      return value.toLocaleString('en-US', { maximumFractionDigits: 1 });
+    case 'duration': {
+      const seconds = Math.round(value);
+      return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+    }
+    case 'signed':
+      return `${value > 0 ? '+' : ''}${Math.round(value).toLocaleString('en-US')}`;
+    case 'percent':
+      return `${value.toFixed(1)}%`;
+    default:
+      return Math.round(value).toLocaleString('en-US');
+  }
+}
+
+const formatChange = (change) => (change === null ? '—' : `${change > 0 ? '▲' : change < 0 ? '▼' : ''} ${Math.abs(change).toFixed(1)}%`.trim());
+
+/**
+ * 解析報表的日期範圍（結束日不超過 Analytics API 可查的最後一天），並計算等長的前一期
+ * @param {string} datePreset - dateRangeUtils 的設定字串
+ * @returns {{ startDate: string, endDate: string, label: string, previousStartDate: string, previousEndDate: string }}
+ * @throws {Error} 無法解析或範圍內還沒有數據時
+ */
+export function resolveReportRange(datePreset) {
+  const range = parseDateConfig(datePreset);
+  if (!range) {
+    throw new Error(`無法解析日期範圍「${datePreset}」`);
+  }
+  const latest = getLatestAvailableDate();
+  let { startDate, endDate } = range;
+  if (endDate > latest) {
+    // 「過去 N 天」整段往前移到最新可查的日期，保持天數；其他範圍（本月、今年）只截短結束日
+    if (ROLLING_PRESETS.has(datePreset)) {
+      const lag = snapshotStore.enumerateDates(latest, endDate).length - 1;
+      startDate = shiftDate(startDate, -lag);
+    }
+    endDate = latest;
+  }
+  if (startDate > endDate) {
+    throw new Error(`日期範圍 ${range.startDate} ~ ${range.endDate} 還沒有可用的數據（最新可查到 ${latest}）`);
+  }
+
+  const days = snapshotStore.enumerateDates(startDate, endDate).length;
+  const previousEndDate = shiftDate(startDate, -1);
+  return {
+    startDate,
+    endDate,
+    label: getDateRangeLabel(datePreset),
+    previousStartDate: shiftDate(previousEndDate, -(days - 1)),
+    previousEndDate,
+  };
+}
+
+function toKpiValues(totals) {
+  return {
+    views: totals.views,
+    watchTimeHours: totals.estimatedMinutesWatched / 60,
+    averageViewDuration: totals.averageViewDuration,
+    subscribersNet: totals.subscribersGained - totals.subscribersLost,
+    likes: totals.likes,
+    comments: totals.comments,
+    shares: totals.shares,
+  };
+}
+
+function buildKpis(channelId, range) {
+  const current = snapshotStore.readChannelSnapshots(channelId, range.startDate, range.endDate);
+  const previous = snapshotStore.readChannelSnapshots(channelId, range.previousStartDate, range.previousEndDate);
+  const currentValues = toKpiValues(current.totals);
+  const previousValues = previous.coverage.complete ? toKpiValues(previous.totals) : null;
+
+  return {
+    coverage: current.coverage,
+    channelStats: currentValues,
+    kpis: KPI_DEFINITIONS.map(({ key, label, format }) => {
+      const value = currentValues[key];
+      const before = previousValues?.[key] ?? null;
+      const change = before ? ((value - before) / Math.abs(before)) * 100 : null;
+      return { key, label, format, value, previous: before, change };
+    }),
+  };
+}
+
+/**
+ * 整理報表數據
+ * @param {object} report - reportStore 的報表設定
+ * @param {object} [options]
+ * @param {(modelType: string, prompt: string) => Promise<{ text: string, model?: string }>} [options.analyze] - AI 摘要（未提供時略過）
+ * @returns {Promise<object>}
+ */
+export async function buildReportData(report, { analyze } = {}) {
+  const range = resolveReportRange(report.datePreset);
+  const sections = new Set(report.sections);
+  const warnings = [];
+
+  const { coverage, channelStats, kpis } = buildKpis(report.channelId, range);
+  if (coverage.syncedDays === 0) {
+    throw new Error(`頻道 ${report.channelId} 在 ${range.startDate} ~ ${range.endDate} 沒有任何數據快照，請先同步快照`);
+  }
+  if (!coverage.complete) {
+    warnings.push(`頻道數據快照缺少 ${coverage.totalDays - coverage.syncedDays} 天（例如 ${coverage.missingDates.slice(0, 3).join('、')}），數字可能偏低`);
+  }
+
+  const needsVideos = sections.has('topVideos') || sections.has('keywordGroups') || report.narrative?.enabled;
+  const cachedVideos = needsVideos ? await loadCachedVideos() : null;
+  const videoById = new Map((cachedVideos || []).map((video) => [video.videoId || video.id, video]));
+
+  let topVideos = [];
+  if (sections.has('topVideos') || report.narrative?.enabled) {
+    const videoSnapshots = snapshotStore.readVideoSnapshots(report.channelId, range.startDate, range.endDate);
+    if (!videoSnapshots.coverage.complete) {
+      warnings.push('影片數據快照不完整，熱門影片排名僅供參考');
+    }
+    topVideos = videoSnapshots.videos
+      .sort((a, b) => b.views - a.views)
+      .slice(0, report.topVideosLimit)
+      .map((video) => {
+        const cached = videoById.get(video.videoId);
+        return {
+          videoId: video.videoId,
+          title: cached?.title || video.videoId,
+          publishedAt: cached?.publishedAt || null,
+          views: video.views,
+          watchTimeHours: video.estimatedMinutesWatched / 60,
+          averageViewPercentage: video.averageViewPercentage,
+          likes: video.likes,
+          comments: video.comments,
+          subscribersGained: video.subscribersGained,
+        };
+      });
+  }
+
+  let trafficSources = [];
+  if (sections.has('trafficSources') || report.narrative?.enabled) {
+    const traffic = snapshotStore.readTrafficSnapshots(report.channelId, range.startDate, range.endDate);
+    const viewsBySource = {};
+    for (const day of traffic.days) {
+      for (const [source, views] of Object.entries(day.sources)) {
+        viewsBySource[source] = (viewsBySource[source] || 0) + views;
+      }
+    }
+    const total = Object.values(viewsBySource).reduce((sum, views) => sum + views, 0);
+    trafficSources = Object.entries(viewsBySource)
+      .map(([source, views]) => ({
+        source,
+        label: TRAFFIC_SOURCE_LABELS[source] || source,
+        views,
+        percentage: total > 0 ? (views / total) * 100 : 0,
+      }))
+      .sort((a, b) => b.views - a.views);
+    if (sections.has('trafficSources') && !traffic.coverage.complete) {
+      warnings.push('流量來源快照不完整（較早同步的日期沒有流量來源數據）');
+    }
+  }
+
+  let keywordGroups = [];
+  if (sections.has('keywordGroups')) {
+    if (!cachedVideos) {
+      warnings.push('沒有 Gist 影片快取，無法依關鍵字分組');
+    } else {
+      keywordGroups = report.keywordGroups.map((group) => {
+        const videoIds = filterVideosByKeywordClient(cachedVideos, group.keyword).map((video) => video.videoId || video.id);
+        const { totals } = snapshotStore.readVideoSnapshots(report.channelId, range.startDate, range.endDate, videoIds);
+        return {
+          name: group.name,
+          keyword: group.keyword,
+          videoCount: videoIds.length,
+          views: totals.views,
+          watchTimeHours: totals.estimatedMinutesWatched / 60,
+          likes: totals.likes,
+          subscribersGained: totals.subscribersGained,
+        };
+      });
+    }
+  }
+
+  let narrative = null;
+  let narrativeModel = null;
+  if (report.narrative?.enabled && analyze) {
+    try {
+      const videosInRange = (cachedVideos || []).filter((video) => {
+        const date = video.publishedAt?.slice(0, 10);
+        return date && date >= range.startDate && date <= range.endDate;
+      }).length;
+      const prompt = PromptTemplates.generatePrompt({
+        type: report.narrative.analysisType,
+        dateRange: { startDate: range.startDate, endDate: range.endDate },
+        channelStats: {
+          totalVideos: cachedVideos?.length || 0,
+          viewsInRange: channelStats.views,
+          watchTimeHours: Math.round(channelStats.watchTimeHours),
+          subscribersGained: channelStats.subscribersNet,
+          videosInRange,
+        },
+        videos: topVideos.map((video) => ({
+          title: video.title,
+          publishedAt: video.publishedAt,
+          viewCount: video.views,
+          likeCount: video.likes,
+          commentCount: video.comments,
+        })),
+        analytics: { trafficSources: trafficSources.map(({ label, views, percentage }) => ({ source: label, views, percentage })) },
+      });
+      const response = await analyze(
+        report.narrative.modelType,
+        `${prompt}\n\n（這份分析會放進定期報表：資料中沒有頻道總訂閱數與總觀看數，請不要引用這兩項；熱門影片的觀看次數為期間內的觀看，不是累計。）`
+      );
+      narrative = response.text;
+      narrativeModel = response.model || report.narrative.modelType;
+    } catch (error) {
+      console.warn(`[Reports] ⚠️ 報表「${report.name}」AI 摘要失敗:`, error.message);
+      warnings.push(`AI 摘要產生失敗：${error.message}`);
+    }
+  }
+
+  return {
+    report: { id: report.id, name: report.name, channelId: report.channelId, sections: report.sections },
+    range,
+    generatedAt: new Date().toISOString(),
+    warnings,
+    kpis,
+    topVideos,
+    trafficSources,
+    keywordGroups,
+    narrative,
+    narrativeModel,
+  };
+}
+
+const TOP_VIDEO_COLUMNS = [
+  { label: '#', width: 0.4, align: 'right' },
+  { label: '影片', width: 5 },
+  { label: '觀看', width: 1.2, align: 'right' },
+  { label: '觀看時數', width: 1.2, align: 'right' },
+  { label: '平均觀看 %', width: 1.2, align: 'right' },
+  { label: '新訂閱', width: 1, align: 'right' },
+];
+
+const topVideoCells = (video, index) => [
+  String(index + 1),
+  video.title,
+  formatValue(video.views),
+  formatValue(video.watchTimeHours, 'decimal'),
+  formatValue(video.averageViewPercentage, 'percent'),
+  formatValue(video.subscribersGained),
+];
+
+const KEYWORD_GROUP_COLUMNS = [
+  { label: '組合', width: 2 },
+  { label: '關鍵字', width: 2 },
+  { label: '影片數', width: 1, align: 'right' },
+  { label: '觀看', width: 1.2, align: 'right' },
+  { label: '觀看時數', width: 1.2, align: 'right' },
+  { label: '新訂閱', width: 1, align: 'right' },
+];
+
+const keywordGroupCells = (group) => [
+  group.name,
+  group.keyword || '(所有影片)',
+  formatValue(group.videoCount),
+  formatValue(group.views),
+  formatValue(group.watchTimeHours, 'decimal'),
+  formatValue(group.subscribersGained),
+];
+
+const reportTitle = (data) => `${data.report.name}（${data.range.startDate} ~ ${data.range.endDate}）`;
+
+/**
+ * 產生可直接寄送或離線開啟的 HTML（樣式內嵌）
+ * @param {object} data - buildReportData 的結果
+ * @returns {string}
+ */
+export function renderReportHtml(data) {
+  const sections = new Set(data.report.sections);
+  const table = (columns, rows) => `
+    <table>
+      <thead><tr>${columns.map((column) => `<th class="${column.align === 'right' ? 'num' : ''}">${escapeHtml(column.label)}</th>`).join('')}</tr></thead>
+      <tbody>${rows
+        .map(
+          (cells) =>
+            `<tr>${cells.map((cell, index) => `<td class="${columns[index].align === 'right' ? 'num' : ''}">${cell}</td>`).join('')}</tr>`
+        )
+        .join('')}</tbody>
+    </table>`;
+
+  const parts = [];
+  if (data.warnings.length > 0) {
+    parts.push(`<div class="warning">${data.warnings.map((warning) => `<p>⚠ ${escapeHtml(warning)}</p>`).join('')}</div>`);
+  }
+
+  if (sections.has('kpis')) {
+    parts.push(`<h2>${REPORT_SECTIONS.kpis.label}</h2>
+    <div class="kpis">${data.kpis
+      .map(
+        (kpi) => `<div class="kpi">
+        <div class="kpi-label">${escapeHtml(kpi.label)}</div>
+        <div class="kpi-value">${formatValue(kpi.value, kpi.format)}</div>
+        <div class="kpi-change ${kpi.change > 0 ? 'up' : kpi.change < 0 ? 'down' : ''}">${kpi.change === null ? '無前期數據' : `${formatChange(kpi.change)}（前期 ${formatValue(kpi.previous, kpi.format)}）`}</div>
+      </div>`
+      )
+      .join('')}</div>
+    <p class="note">前期：${data.range.previousStartDate} ~ ${data.range.previousEndDate}</p>`);
+  }
+
+  if (sections.has('topVideos') && data.topVideos.length > 0) {
+    parts.push(
+      `<h2>${REPORT_SECTIONS.topVideos.label}</h2>` +
+        table(
+          TOP_VIDEO_COLUMNS,
+          data.topVideos.map((video, index) => {
+            const cells = topVideoCells(video, index).map(escapeHtml);
+            cells[1] = `<a href="https://www.youtube.com/watch?v=${encodeURIComponent(video.videoId)}">${cells[1]}</a>`;
+            return cells;
+          })
+        )
+    );
+  }
+
+  if (sections.has('trafficSources') && data.trafficSources.length > 0) {
+    parts.push(
+      `<h2>${REPORT_SECTIONS.trafficSources.label}</h2>` +
+        table(
+          [{ label: '來源' }, { label: '觀看', align: 'right' }, { label: '佔比', align: 'right' }, { label: '' }],
+          data.trafficSources.map((source) => [
+            escapeHtml(source.label),
+            formatValue(source.views),
+            formatValue(source.percentage, 'percent'),
+            `<div class="bar"><span style="width:${source.percentage.toFixed(1)}%"></span></div>`,
+          ])
+        )
+    );
+  }
+
+  if (sections.has('keywordGroups') && data.keywordGroups.length > 0) {
+    parts.push(
+      `<h2>${REPORT_SECTIONS.keywordGroups.label}</h2>` +
+        table(KEYWORD_GROUP_COLUMNS, data.keywordGroups.map((group) => keywordGroupCells(group).map(escapeHtml)))
+    );
+  }
+
+  if (data.narrative) {
+    parts.push(`<h2>AI 摘要</h2><div class="narrative">${markdownToHtml(data.narrative)}</div>
+    <p class="note">由 ${escapeHtml(data.narrativeModel)} 產生，僅供參考</p>`);
+  }
+
+  return `<!DOCTYPE html>
+<html lang="zh-Hant">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(reportTitle(data))}</title>
+<style>
+  body { font-family: -apple-system, "PingFang TC", "Microsoft JhengHei", "Noto Sans TC", sans-serif; color: #0f0f0f; max-width: 880px; margin: 0 auto; padding: 24px; line-height: 1.6; }
+  h1 { font-size: 24px; margin-bottom: 4px; }
+  h2 { font-size: 18px; border-bottom: 2px solid #ff3b30; padding-bottom: 4px; margin-top: 32px; }
+  .note { color: #606060; font-size: 12px; }
+  .warning { background: #fff8e1; border: 1px solid #ffe08a; border-radius: 8px; padding: 8px 12px; font-size: 13px; }
+  .warning p { margin: 4px 0; }
+  .kpis { display: flex; flex-wrap: wrap; gap: 12px; }
+  .kpi { flex: 1 1 180px; border: 1px solid #e5e5e5; border-radius: 12px; padding: 12px; }
+  .kpi-label { color: #606060; font-size: 12px; }
+  .kpi-value { font-size: 22px; font-weight: 700; }
+  .kpi-change { font-size: 12px; color: #606060; }
+  .kpi-change.up { color: #0f9d58; }
+  .kpi-change.down { color: #c5221f; }
+  table { width: 100%; border-collapse: collapse; font-size: 13px; }
+  th, td { border-bottom: 1px solid #e5e5e5; padding: 6px 8px; text-align: left; vertical-align: top; }
+  th { background: #f9f9f9; }
+  .num { text-align: right; white-space: nowrap; }
+  a { color: #b20000; text-decoration: none; }
+  .bar { background: #f2f2f2; border-radius: 4px; height: 8px; width: 120px; }
+  .bar span { display: block; background: #ff3b30; border-radius: 4px; height: 8px; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(data.report.name)}</h1>
+<p class="note">${escapeHtml(data.range.label)}：${data.range.startDate} ~ ${data.range.endDate}｜頻道 ${escapeHtml(data.report.channelId)}｜產生時間 ${new Date(data.generatedAt).toLocaleString('zh-TW', { timeZone: 'Asia/Taipei' })}</p>
+${parts.join('\n')}
+</body>
+</html>
+`;
+}
+
+// PDF 不支援 Markdown：標題轉成小節標題，其餘移除 Markdown 符號
+function narrativeToPdfBlocks(markdown) {
+  const blocks = [];
+  const text = markdown.replace(/<!--[\s\S]*?-->/g, '').replace(/<[^>]+>/g, '');
+  for (const rawLine of text.split('\n')) {
+    const line = rawLine.trim();
+    if (!line || /^\|?\s*:?-{3,}/.test(line) || /^-{3,}$/.test(line)) continue;
+    const heading = line.match(/^#{1,6}\s+(.*)$/);
+    const cleaned = (heading ? heading[1] : line)
+      .replace(/\*\*([^*]+)\*\*/g, '$1')
+      .replace(/`([^`]+)`/g, '$1')
+      .replace(/\[([^\]]+)\]\([^)]+\)/g, '$1')
+      .replace(/^\|\s*|\s*\|$/g, '')
+      .replace(/\s*\|\s*/g, '｜');
+    blocks.push({ type: heading ? 'heading' : 'paragraph', text: cleaned });
+  }
+  return blocks;
+}
+
+/**
+ * 產生 PDF
+ * @param {object} data - buildReportData 的結果
+ * @returns {Buffer}
+ */
+export function renderReportPdf(data) {
+  const sections = new Set(data.report.sections);
+  const blocks = [
+    { type: 'title', text: data.report.name },
+    {
+      type: 'note',
+      text: `${data.range.label}：${data.range.startDate} ~ ${data.range.endDate}｜頻道 ${data.report.channelId}｜產生時間 ${new Date(data.generatedAt).toLocaleString('zh-TW', { timeZone: 'Asia/Taipei' })}`,
+    },
+    ...data.warnings.map((warning) => ({ type: 'note', text: `⚠ ${warning}` })),
+  ];
+
+  if (sections.has('kpis')) {
+    blocks.push(
+      { type: 'heading', text: REPORT_SECTIONS.kpis.label },
+      {
+        type: 'table',
+        columns: [
+          { label: '指標', width: 2 },
+          { label: '本期', align: 'right' },
+          { label: '前期', align: 'right' },
+          { label: '變化', align: 'right' },
+        ],
+        rows: data.kpis.map((kpi) => [
+          kpi.label,
+          formatValue(kpi.value, kpi.format),
+          formatValue(kpi.previous, kpi.format),
+          formatChange(kpi.change),
+        ]),
+      },
+      { type: 'note', text: `前期：${data.range.previousStartDate} ~ ${data.range.previousEndDate}` }
+    );
+  }
+  if (sections.has('topVideos') && data.topVideos.length > 0) {
+    blocks.push(
+      { type: 'heading', text: REPORT_SECTIONS.topVideos.label },
+      { type: 'table', columns: TOP_VIDEO_COLUMNS, rows: data.topVideos.map(topVideoCells) }
+    );
+  }
+  if (sections.has('trafficSources') && data.trafficSources.length > 0) {
+    blocks.push(
+      { type: 'heading', text: REPORT_SECTIONS.trafficSources.label },
+      {
+        type: 'table',
+        columns: [{ label: '來源', width: 3 }, { label: '觀看', align: 'right' }, { label: '佔比', align: 'right' }],
+        rows: data.trafficSources.map((source) => [source.label, formatValue(source.views), formatValue(source.percentage, 'percent')]),
+      }
+    );
+  }
+  if (sections.has('keywordGroups') && data.keywordGroups.length > 0) {
+    blocks.push(
+      { type: 'heading', text: REPORT_SECTIONS.keywordGroups.label },
+      { type: 'table', columns: KEYWORD_GROUP_COLUMNS, rows: data.keywordGroups.map(keywordGroupCells) }
+    );
+  }
+  if (data.narrative) {
+    blocks.push(
+      { type: 'heading', text: 'AI 摘要' },
+      ...narrativeToPdfBlocks(data.narrative),
+      { type: 'note', text: `由 ${data.narrativeModel} 產生，僅供參考` }
+    );
+  }
+
+  return createPdfDocument({ title: reportTitle(data), blocks, createdAt: new Date(data.generatedAt) });
+}
+
+// Email 純文字版本（只列重點指標）
+function renderReportText(data) {
+  const lines = [reportTitle(data), ''];
+  for (const kpi of data.kpis) {
+    lines.push(`${kpi.label}：${formatValue(kpi.value, kpi.format)}（${formatChange(kpi.change)}）`);
+  }
+  lines.push('', '完整報表請見附件 PDF。');
+  return lines.join('\n');
+}
+
+const toFileName = (data, extension) =>
+  `${data.report.name.replace(/[\\/:*?"<>|\s]+/g, '-')}_${data.range.startDate}_${data.range.endDate}.${extension}`;
+
+async function deliverReport(report, data, run, { html, pdf }) {
+  const delivery = {};
+
+  if (report.delivery.emails.length > 0) {
+    if (!isMailConfigured()) {
+      delivery.email = { status: 'skipped', error: '伺服器尚未設定 SMTP' };
+    } else {
+      try {
+        await sendMail({
+          to: report.delivery.emails,
+          subject: reportTitle(data),
+          text: renderReportText(data),
+          html,
+          attachments: [{ fileName: toFileName(data, 'pdf'), mimeType: 'application/pdf', content: pdf }],
+        });
+        delivery.email = { status: 'sent', recipients: report.delivery.emails.length };
+      } catch (error) {
+        console.warn(`[Reports] ⚠️ 報表「${report.name}」Email 寄送失敗:`, error.message);
+        delivery.email = { status: 'failed', error: error.message };
+      }
+    }
+  }
+
+  if (report.delivery.webhookUrl) {
+    try {
+      await postSignedWebhook(report.delivery.webhookUrl, report.webhookSecret, {
+        event: 'report.generated',
+        sentAt: new Date().toISOString(),
+        report: { id: report.id, name: report.name, channelId: report.channelId },
+        run: { id: run.id, startDate: data.range.startDate, endDate: data.range.endDate, trigger: run.trigger },
+        kpis: data.kpis.map(({ key, label, value, previous, change }) => ({ key, label, value, previous, change })),
+        warnings: data.warnings,
+        html,
+        pdf: { fileName: toFileName(data, 'pdf'), data: pdf.toString('base64') },
+      });
+      delivery.webhook = { status: 'sent' };
+    } catch (error) {
+      console.warn(`[Reports] ⚠️ 報表「${report.name}」webhook 發送失敗:`, error.message);
+      delivery.webhook = { status: 'failed', error: error.message };
+    }
+  }
+
+  return delivery;
+}
+
+/**
+ * 產生報表、保存產生紀錄並寄送
+ * @param {string} reportId
+ * @param {object} [options]
+ * @param {'schedule' | 'manual'} [options.trigger]
+ * @param {(modelType: string, prompt: string) => Promise<{ text: string, model?: string }>} [options.analyze]
+ * @param {boolean} [options.deliver] - 是否寄送（手動產生時可只預覽）
+ * @param {(progress: number, message: string) => void} [options.onProgress]
+ * @returns {Promise<object>} 產生紀錄
+ * @throws {Error} 報表不存在或數據不足時（失敗同樣會留下紀錄）
+ */
+export async function runReport(reportId, { trigger = 'manual', analyze, deliver = true, onProgress } = {}) {
+  const report = reportStore.getReport(reportId);
+  if (!report) {
+    throw new Error('找不到報表');
+  }
+
+  const baseRun = {
+    reportId: report.id,
+    reportName: report.name,
+    channelId: report.channelId,
+    trigger,
+    createdAt: Date.now(),
+  };
+
+  let data;
+  try {
+    onProgress?.(10, '整理報表數據...');
+    data = await buildReportData(report, { analyze: report.narrative?.enabled ? analyze : undefined });
+  } catch (error) {
+    reportStore.saveReportRun({ ...baseRun, status: 'failed', error: error.message, delivery: null });
+    throw error;
+  }
+
+  onProgress?.(60, '產生 HTML 與 PDF...');
+  const html = renderReportHtml(data);
+  const pdf = renderReportPdf(data);
+  const run = reportStore.saveReportRun(
+    {
+      ...baseRun,
+      startDate: data.range.startDate,
+      endDate: data.range.endDate,
+      status: 'completed',
+      error: null,
+      warnings: data.warnings,
+      kpis: data.kpis.map(({ key, label, format, value, change }) => ({ key, label, format, value, change })),
+      delivery: null,
+    },
+    { html, pdf }
+  );
+
+  if (deliver && (report.delivery.emails.length > 0 || report.delivery.webhookUrl)) {
+    onProgress?.(80, '寄送報表...');
+    const delivery = await deliverReport(report, data, run, { html, pdf });
+    reportStore.updateReportRunDelivery(run.id, delivery);
+    run.delivery = delivery;
+  }
+
+  console.log(`[Reports] ✅ 報表「${report.name}」${data.range.startDate} ~ ${data.range.endDate} 產生完成（${trigger}）`);
+  return run;
+}
+
+/**
+ * 啟動排程：每分鐘檢查一次到期的報表
+ * 到期時先排定下一次執行時間再觸發，伺服器停機期間錯過的排程只補跑一次
+ * @param {(report: object) => void} onDue - 到期時呼叫（通常建立背景任務執行 runReport）
+ * @returns {NodeJS.Timeout}
+ */
+export function startReportScheduler(onDue) {
+  const check = () => {
+    for (const report of reportStore.getDueReports()) {
+      reportStore.advanceReportSchedule(report.id);
+      try {
+        onDue(report);
+      } catch (error) {
+        console.error(`[Reports] ❌ 報表「${report.name}」排程觸發失敗:`, error.message);
+      }
+    }
+  };
+  check();
+  return setInterval(check, SCHEDULER_INTERVAL_MS);
+}
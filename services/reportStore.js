@@ -0,0 +1,249 @@
+/**
+ * 定期報表設定與產生紀錄
+ * 產生的 HTML / PDF 存在 DATA_DIR/reports/<runId>.html|pdf，紀錄超過上限時連同檔案一併刪除
+ * 回傳給前端時 webhookSecret 一律遮罩，只告知是否已設定
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { createJsonFileStore, DATA_DIR } from './jsonFileStore.js';
+import { getNextRunTime } from './cronSchedule.js';
+import { validateReportDefinition } from './reportDefinitions.js';
+
+const MAX_REPORTS = 100;
+const MAX_RUNS_PER_REPORT = 30;
+const REPORT_FILES_DIR = path.join(DATA_DIR, 'reports');
+export const REPORT_FILE_FORMATS = {
+  html: { extension: 'html', mimeType: 'text/html; charset=utf-8' },
+  pdf: { extension: 'pdf', mimeType: 'application/pdf' },
+};
+
+const file = createJsonFileStore('scheduled-reports.json', { reports: [], runs: [] });
+const stored = file.read();
+// 報表設定（含 webhookSecret）
+const reports = new Map((stored.reports || []).map((report) => [report.id, report]));
+// 產生紀錄（由新到舊）
+let runs = Array.isArray(stored.runs) ? stored.runs : [];
+
+const persist = () => {
+  file.write({ reports: [...reports.values()], runs });
+};
+
+function toPublic(report) {
+  const { webhookSecret, ...rest } = report;
+  return { ...rest, secrets: { webhookSecret: Boolean(webhookSecret) } };
+}
+
+const computeNextRunAt = (report, after = Date.now()) =>
+  report.enabled && report.schedule ? getNextRunTime(report.schedule, after) : null;
+
+const runFilePath = (runId, format) => path.join(REPORT_FILES_DIR, `${runId}.${REPORT_FILE_FORMATS[format].extension}`);
+
+function deleteRunFiles(run) {
+  for (const format of Object.keys(REPORT_FILE_FORMATS)) {
+    fs.rmSync(runFilePath(run.id, format), { force: true });
+  }
+}
+
+/**
+ * 列出使用者建立的報表設定（遮罩 webhookSecret）
+ * @param {{ createdBy: string, channelId?: string }} options
+ * @returns {Array<object>}
+ */
+export function listReports({ createdBy, channelId }) {
+  return [...reports.values()]
+    .filter((report) => report.createdBy === createdBy && (!channelId || report.channelId === channelId))
+    .sort((a, b) => b.createdAt - a.createdAt)
+    .map(toPublic);
+}
+
+/**
+ * 取得報表設定（含機密，僅供伺服器端使用）
+ * @param {string} reportId
+ * @returns {object | null}
+ */
+export function getReport(reportId) {
+  return reports.get(reportId) || null;
+}
+
+/**
+ * 取得報表設定（遮罩 webhookSecret）
+ * @param {string} reportId
+ * @returns {object | null}
+ */
+export function getPublicReport(reportId) {
+  const report = reports.get(reportId);
+  return report ? toPublic(report) : null;
+}
+
+/**
+ * 建立或更新報表設定；webhookSecret 留空時沿用原本的值，傳入 null 則清除
+ * @param {string | null} reportId - null 為新增
+ * @param {unknown} input
+ * @param {string} userId
+ * @returns {object | null} 遮罩後的設定；更新的報表不存在時回傳 null
+ * @throws {Error} 設定不正確時（訊息為所有錯誤，以「；」分隔）
+ */
+export function saveReport(reportId, input, userId) {
+  const existing = reportId ? reports.get(reportId) : null;
+  if (reportId && !existing) return null;
+  if (!existing && reports.size >= MAX_REPORTS) {
+    throw new Error(`最多 ${MAX_REPORTS} 份報表`);
+  }
+
+  const { definition, errors } = validateReportDefinition(input);
+  if (!definition) {
+    throw new Error(errors.join('；'));
+  }
+
+  const rawSecret = input?.delivery?.webhookSecret;
+  let webhookSecret = existing?.webhookSecret || '';
+  if (rawSecret === null) {
+    webhookSecret = '';
+  } else if (typeof rawSecret === 'string' && rawSecret.trim()) {
+    webhookSecret = rawSecret.trim();
+  }
+
+  const now = Date.now();
+  const report = {
+    ...(existing || { id: crypto.randomUUID(), createdAt: now, createdBy: userId, lastRunAt: null, lastRunStatus: null }),
+    ...definition,
+    webhookSecret,
+    updatedAt: now,
+    updatedBy: userId,
+  };
+  report.nextRunAt = computeNextRunAt(report, now);
+  reports.set(report.id, report);
+  persist();
+
+  console.log(`[Reports] ${userId} ${existing ? '更新' : '建立'}報表「${report.name}」（排程：${report.schedule || '手動'}）`);
+  return toPublic(report);
+}
+
+/**
+ * 刪除報表設定與所有產生紀錄
+ * @param {string} reportId
+ * @returns {boolean} 是否有刪除
+ */
+export function deleteReport(reportId) {
+  if (!reports.delete(reportId)) return false;
+  runs = runs.filter((run) => {
+    if (run.reportId !== reportId) return true;
+    deleteRunFiles(run);
+    return false;
+  });
+  persist();
+  return true;
+}
+
+/**
+ * 列出已到排程時間的報表
+ * @param {number} [now]
+ * @returns {Array<object>}
+ */
+export function getDueReports(now = Date.now()) {
+  return [...reports.values()].filter((report) => report.enabled && report.nextRunAt && report.nextRunAt <= now);
+}
+
+/**
+ * 將報表的下一次執行時間往後排（排程觸發時先呼叫，避免執行期間重複觸發）
+ * @param {string} reportId
+ * @param {number} [after]
+ */
+export function advanceReportSchedule(reportId, after = Date.now()) {
+  const report = reports.get(reportId);
+  if (!report) return;
+  report.nextRunAt = computeNextRunAt(report, after);
+  persist();
+}
+
+/**
+ * 保存一次產生紀錄與檔案，並更新報表的最後執行狀態
+ * @param {object} run - { reportId, reportName, channelId, trigger, startDate, endDate, status, error, summary, delivery, createdAt }
+ * @param {{ html?: string, pdf?: Buffer }} [files]
+ * @returns {object} 保存後的紀錄（含 id 與 files）
+ */
+export function saveReportRun(run, files = {}) {
+  const record = { id: crypto.randomUUID(), ...run, completedAt: Date.now(), files: { html: false, pdf: false } };
+
+  fs.mkdirSync(REPORT_FILES_DIR, { recursive: true });
+  if (files.html) {
+    fs.writeFileSync(runFilePath(record.id, 'html'), files.html);
+    record.files.html = true;
+  }
+  if (files.pdf) {
+    fs.writeFileSync(runFilePath(record.id, 'pdf'), files.pdf);
+    record.files.pdf = true;
+  }
+
+  runs.unshift(record);
+  const kept = [];
+  const countByReport = new Map();
+  for (const item of runs) {
+    const count = (countByReport.get(item.reportId) || 0) + 1;
+    countByReport.set(item.reportId, count);
+    if (count > MAX_RUNS_PER_REPORT) {
+      deleteRunFiles(item);
+    } else {
+      kept.push(item);
+    }
+  }
+  runs = kept;
+
+  const report = reports.get(run.reportId);
+  if (report) {
+    report.lastRunAt = record.completedAt;
+    report.lastRunStatus = record.status;
+  }
+  persist();
+  return record;
+}
+
+/**
+ * 更新產生紀錄的寄送結果
+ * @param {string} runId
+ * @param {object} delivery - { email?: { status, error? }, webhook?: { status, error? } }
+ */
+export function updateReportRunDelivery(runId, delivery) {
+  const run = runs.find((item) => item.id === runId);
+  if (!run) return;
+  run.delivery = { ...(run.delivery || {}), ...delivery };
+  persist();
+}
+
+/**
+ * 列出產生紀錄（由新到舊）
+ * @param {{ reportId?: string, channelId?: string, limit?: number }} [options]
+ * @returns {Array<object>}
+ */
+export function listReportRuns({ reportId, channelId, limit = 50 } = {}) {
+  return runs
+    .filter((run) => (!reportId || run.reportId === reportId) && (!channelId || run.channelId === channelId))
+    .slice(0, limit);
+}
+
+/**
+ * 取得產生紀錄
+ * @param {string} runId
+ * @returns {object | null}
+ */
+export function getReportRun(runId) {
+  return runs.find((run) => run.id === runId) || null;
+}
+
+/**
+ * 讀取產生的報表檔案
+ * @param {string} runId
+ * @param {'html' | 'pdf'} format
+ * @returns {Buffer | null} 檔案不存在時回傳 null
+ */
+export function readReportRunFile(runId, format) {
+  const run = getReportRun(runId);
+  if (!run?.files?.[format]) return null;
+  try {
+    return fs.readFileSync(runFilePath(runId, format));
+  } catch {
+    return null;
+  }
+}
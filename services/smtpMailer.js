@@ -0,0 +1,95 @@
+/**
+ * SMTP 寄信工具（nodemailer）
+ *
+ * 環境變數：
+ * - SMTP_HOST、SMTP_PORT（預設 587；465 會直接使用 SSL）
+ * - SMTP_SECURE=true：強制使用 SSL 連線
+ * - SMTP_USER、SMTP_PASS：帳號密碼（未設定時不驗證）；有帳號時一定要 SSL 或 STARTTLS，不會以明文送出密碼
+ * - SMTP_FROM：寄件者（預設為 SMTP_USER）
+ */
+
+import nodemailer from 'nodemailer';
+
+const COMMAND_TIMEOUT_MS = 30000;
+const EMAIL_PATTERN = /^[^\s@<>]+@[^\s@<>]+\.[^\s@<>]+$/;
+
+/**
+ * @param {unknown} value
+ * @returns {boolean}
+ */
+export function isValidEmail(value) {
+  return typeof value === 'string' && EMAIL_PATTERN.test(value);
+}
+
+function getSmtpConfig() {
+  const port = Number.parseInt(process.env.SMTP_PORT || '', 10) || 587;
+  return {
+    host: process.env.SMTP_HOST,
+    port,
+    secure: process.env.SMTP_SECURE === 'true' || port === 465,
+    user: process.env.SMTP_USER,
+    pass: process.env.SMTP_PASS,
+    from: process.env.SMTP_FROM || process.env.SMTP_USER,
+  };
+}
+
+/**
+ * 是否已設定 SMTP（未設定時報表只能用 webhook 或站內查看）
+ * @returns {boolean}
+ */
+export function isMailConfigured() {
+  const config = getSmtpConfig();
+  return Boolean(config.host && config.from);
+}
+
+/**
+ * 寄送 Email
+ * @param {object} options
+ * @param {string[]} options.to - 收件者
+ * @param {string} options.subject
+ * @param {string} [options.text] - 純文字內文
+ * @param {string} [options.html] - HTML 內文
+ * @param {Array<{ fileName: string, mimeType: string, content: Buffer | string }>} [options.attachments]
+ * @returns {Promise<void>}
+ * @throws {Error} 未設定 SMTP、連線失敗、需要驗證但伺服器不支援 TLS，或伺服器拒絕時
+ */
+export async function sendMail({ to, subject, text, html, attachments }) {
+  const config = getSmtpConfig();
+  if (!isMailConfigured()) {
+    throw new Error('尚未設定 SMTP（SMTP_HOST、SMTP_FROM）');
+  }
+  if (!to?.length || !to.every(isValidEmail)) {
+    throw new Error('收件者 Email 格式不正確');
+  }
+
+  const transporter = nodemailer.createTransport({
+    host: config.host,
+    port: config.port,
+    secure: config.secure,
+    // 有帳號密碼時必須先升級 STARTTLS，伺服器未提供時直接失敗
+    requireTLS: !config.secure && Boolean(config.user),
+    auth: config.user ? { user: config.user, pass: config.pass || '' } : undefined,
+    connectionTimeout: COMMAND_TIMEOUT_MS,
+    greetingTimeout: COMMAND_TIMEOUT_MS,
+    socketTimeout: COMMAND_TIMEOUT_MS,
+  });
+
+  try {
+    await transporter.sendMail({
+      from: config.from,
+      to,
+      subject,
+      text,
+      html,
+      attachments: (attachments || []).map((attachment) => ({
+        filename: attachment.fileName,
+        contentType: attachment.mimeType,
+        content: attachment.content,
+      })),
+    });
+  } catch (error) {
+    throw new Error(`SMTP 寄送失敗：${error.message}`);
+  } finally {
+    transporter.close();
+  }
+}
@@ -0,0 +1,235 @@
+/**
+ * 標籤研究：檢查 YouTube 標籤長度上限、合併近似重複的標籤，並依頻道自己的數據排序建議標籤
+ *
+ * 注意：此檔案使用 .js 格式，讓 server.js 與前端標籤助理共用同一套規則
+ * 排序依據：影片的 YouTube 搜尋字詞、頻道表現最好影片使用的標籤、標籤在整個頻道的使用頻率
+ */
+
+// YouTube 標籤欄位上限 500 字元（含分隔逗號，含空白的標籤會被加上引號）
+export const YOUTUBE_TAG_CHAR_LIMIT = 500;
+
+// 表現最好的影片：觀看數前 10%，至少 5 支、最多 30 支
+const TOP_VIDEO_RATIO = 0.1;
+const MIN_TOP_VIDEOS = 5;
+const MAX_TOP_VIDEOS = 30;
+
+// 各項分數上限（合計 100）
+const SCORE_WEIGHTS = {
+  searchTerm: 40,
+  topVideos: 30,
+  channelFrequency: 20,
+  ai: 10,
+};
+
+/**
+ * 計算標籤在 YouTube 中佔用的字元數
+ * @param {string[]} tags
+ * @returns {number}
+ */
+export function measureTagsLength(tags) {
+  const list = tags.filter((tag) => tag.trim());
+  const tagChars = list.reduce((total, tag) => {
+    const trimmed = tag.trim();
+    return total + Array.from(trimmed).length + (/\s/.test(trimmed) ? 2 : 0);
+  }, 0);
+  return tagChars + Math.max(0, list.length - 1);
+}
+
+/**
+ * 近似重複比對用的鍵：全形轉半形、忽略大小寫、空白、# 與標點
+ * @param {string} tag
+ * @returns {string}
+ */
+export function normalizeTagKey(tag) {
+  return String(tag || '')
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[\s#_\-.,，、。・·'"’]+/g, '');
+}
+
+// 兩個鍵的編輯距離是否不超過 1（用於抓拼字差一個字母的英文標籤）
+function isWithinOneEdit(a, b) {
+  if (Math.abs(a.length - b.length) > 1) return false;
+  let i = 0;
+  let j = 0;
+  let edits = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      i++;
+      j++;
+      continue;
+    }
+    if (++edits > 1) return false;
+    if (a.length > b.length) i++;
+    else if (b.length > a.length) j++;
+    else {
+      i++;
+      j++;
+    }
+  }
+  return edits + (a.length - i) + (b.length - j) <= 1;
+}
+
+function isNearDuplicate(keyA, keyB) {
+  if (keyA === keyB) return true;
+  // 只對較長的英數標籤做拼字容錯，避免把不同的短詞或中文詞合併
+  return /^[a-z0-9]{5,}$/.test(keyA) && /^[a-z0-9]{5,}$/.test(keyB) && isWithinOneEdit(keyA, keyB);
+}
+
+/**
+ * 合併近似重複的標籤，保留第一次出現的寫法
+ * @param {string[]} tags
+ * @returns {{ tags: string[], duplicates: Array<{ tag: string, duplicateOf: string }> }}
+ */
+export function dedupeTags(tags) {
+  const kept = [];
+  const duplicates = [];
+  for (const raw of tags) {
+    const tag = String(raw || '').trim().replace(/^#/, '');
+    const key = normalizeTagKey(tag);
+    if (!key) continue;
+    const existing = kept.find((item) => isNearDuplicate(item.key, key));
+    if (existing) {
+      duplicates.push({ tag, duplicateOf: existing.tag });
+    } else {
+      kept.push({ tag, key });
+    }
+  }
+  return { tags: kept.map((item) => item.tag), duplicates };
+}
+
+/**
+ * 依排序結果挑選標籤，直到達到字元上限
+ * @param {string[]} tags - 已排序的標籤
+ * @param {number} [limit]
+ * @returns {string[]}
+ */
+export function selectTagsWithinLimit(tags, limit = YOUTUBE_TAG_CHAR_LIMIT) {
+  const selected = [];
+  for (const tag of tags) {
+    if (measureTagsLength([...selected, tag]) <= limit) {
+      selected.push(tag);
+    }
+  }
+  return selected;
+}
+
+function pickTopVideos(videos) {
+  const sorted = [...videos].sort((a, b) => (b.viewCount || 0) - (a.viewCount || 0));
+  const count = Math.min(MAX_TOP_VIDEOS, Math.max(MIN_TOP_VIDEOS, Math.ceil(sorted.length * TOP_VIDEO_RATIO)));
+  return sorted.slice(0, count);
+}
+
+function countTagUsage(videos) {
+  const usage = new Map();
+  for (const video of videos) {
+    // 同一支影片的近似重複標籤只算一次
+    for (const key of new Set((video.tags || []).map(normalizeTagKey).filter(Boolean))) {
+      usage.set(key, (usage.get(key) || 0) + 1);
+    }
+  }
+  return usage;
+}
+
+/**
+ * 是否與這支影片本身相關（AI 依內容建議或觀眾實際搜尋）；只來自頻道數據的標籤需要人工判斷
+ * @param {{ reasons: Array<{ type: string }> }} suggestion
+ * @returns {boolean}
+ */
+export function isRelevantSuggestion(suggestion) {
+  return suggestion.reasons.some((reason) => reason.type === 'ai' || reason.type === 'search-term');
+}
+
+/**
+ * 排序候選標籤並附上建議原因
+ * 候選來源：AI 建議的標籤、影片的搜尋字詞、表現最好影片中被多支影片使用的標籤
+ * @param {object} input
+ * @param {string} [input.videoId] - 目前影片（計算頻道數據時排除，避免自己影響自己）
+ * @param {string[]} [input.aiTags] - AI 建議的標籤
+ * @param {Array<{ term: string, views: number }>} [input.searchTerms] - 影片的 YouTube 搜尋字詞
+ * @param {Array<{ videoId: string, title?: string, tags?: string[], viewCount?: number }>} [input.cachedVideos] - Gist 快取中的頻道影片
+ * @returns {Array<{ tag: string, score: number, reasons: Array<{ type: string, message: string }> }>}
+ */
+export function rankTagSuggestions({ videoId, aiTags = [], searchTerms = [], cachedVideos = [] }) {
+  const channelVideos = cachedVideos.filter((video) => video.videoId !== videoId);
+  const topVideos = pickTopVideos(channelVideos);
+  const topUsage = countTagUsage(topVideos);
+  const channelUsage = countTagUsage(channelVideos);
+
+  const totalSearchViews = searchTerms.reduce((sum, item) => sum + (item.views || 0), 0);
+  const searchByKey = new Map();
+  for (const item of searchTerms) {
+    const key = normalizeTagKey(item.term);
+    if (key && !searchByKey.has(key)) searchByKey.set(key, item);
+  }
+
+  // 候選標籤：鍵 -> 顯示的寫法（AI 的寫法優先，其次是搜尋字詞、頻道既有的寫法）
+  const candidates = new Map();
+  const addCandidate = (tag) => {
+    const trimmed = String(tag || '').trim().replace(/^#/, '');
+    const key = normalizeTagKey(trimmed);
+    if (key && ![...candidates.keys()].some((existing) => isNearDuplicate(existing, key))) {
+      candidates.set(key, trimmed);
+    }
+  };
+  aiTags.forEach(addCandidate);
+  searchTerms.forEach((item) => addCandidate(item.term));
+  for (const video of topVideos) {
+    for (const tag of video.tags || []) {
+      if ((topUsage.get(normalizeTagKey(tag)) || 0) >= 2) addCandidate(tag);
+    }
+  }
+
+  const aiKeys = aiTags.map(normalizeTagKey);
+  const findUsage = (usage, key) => {
+    let count = 0;
+    for (const [usedKey, usedCount] of usage) {
+      if (isNearDuplicate(usedKey, key)) count += usedCount;
+    }
+    return count;
+  };
+
+  const ranked = [...candidates].map(([key, tag]) => {
+    const reasons = [];
+    let score = 0;
+
+    // 搜尋字詞：完全相同或互相包含（例如標籤「iphone」與搜尋字詞「iphone 15 評測」）
+    const searchMatches = [...searchByKey].filter(
+      ([termKey]) => isNearDuplicate(termKey, key) || (key.length >= 2 && termKey.includes(key))
+    );
+    if (searchMatches.length > 0 && totalSearchViews > 0) {
+      const views = searchMatches.reduce((sum, [, item]) => sum + (item.views || 0), 0);
+      const share = views / totalSearchViews;
+      score += SCORE_WEIGHTS.searchTerm * Math.min(1, share * 2);
+      const terms = searchMatches.slice(0, 3).map(([, item]) => `「${item.term}」`).join('、');
+      reasons.push({
+        type: 'search-term',
+        message: `觀眾以${terms}搜尋到這支影片（佔搜尋觀看 ${(share * 100).toFixed(1)}%）`,
+      });
+    }
+
+    const topCount = findUsage(topUsage, key);
+    if (topCount > 0) {
+      score += SCORE_WEIGHTS.topVideos * Math.min(1, topCount / 3);
+      reasons.push({ type: 'top-video', message: `頻道觀看數前 ${topVideos.length} 名的影片中有 ${topCount} 支使用` });
+    }
+
+    const channelCount = findUsage(channelUsage, key);
+    if (channelCount > 0) {
+      score += SCORE_WEIGHTS.channelFrequency * Math.min(1, channelCount / 10);
+      reasons.push({
+        type: 'channel-frequency',
+        message: `頻道 ${channelVideos.length} 支影片中有 ${channelCount} 支使用`,
+      });
+    }
+
+    if (aiKeys.some((aiKey) => isNearDuplicate(aiKey, key))) {
+      score += SCORE_WEIGHTS.ai;
+      reasons.push({ type: 'ai', message: 'AI 依影片內容建議' });
+    }
+
+    return { tag, score: Math.round(score * 10) / 10, reasons };
+  });
+
+  return ranked.sort((a, b) => b.score - a.score);
+}
@@ -10,19 +10,58 @@ const API_BASE_URL = import.meta.env.VITE_API_URL || (import.meta.env.DEV ? 'htt
 export interface TaskStatus {
   id: string;
   type: string;
-  status: 'pending' | 'processing' | 'completed' | 'failed';
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
   progress: number;
   progressMessage: string;
+  queuePosition?: number | null; // 排隊位置（1 = 下一個執行），執行中或已結束時為 null
   result: any | null;
   error: string | null;
   createdAt: number;
   updatedAt: number;
 }
 
+// GET /api/tasks 回傳的任務摘要（不含完整結果）
+export interface TaskSummary {
+  id: string;
+  type: string;
+  category?: string;
+  status: TaskStatus['status'];
+  progress: number;
+  progressMessage: string;
+  queuePosition: number | null;
+  error: string | null;
+  interrupted: boolean;
+  title: string | null;
+  params: Record<string, any> | null;
+  hasResult: boolean;
+  resultUrl: string;
+  createdAt: number;
+  startedAt: number | null;
+  updatedAt: number;
+  completedAt: number | null;
+}
+
+// 可重試的任務類型 → 建立任務的端點（params 即原始請求 body）
+const RETRY_ENDPOINTS: Record<string, string> = {
+  'analyze-video-url': '/analyze-video-url-async',
+  'generate-article-url': '/generate-article-url-async',
+  'generate-article-from-url': '/generate-article-from-url-async',
+  'capture-screenshots': '/capture-screenshots-async',
+};
+
 export interface PollingOptions {
   interval?: number; // 輪詢間隔（毫秒），預設 2000ms
   timeout?: number;  // 超時時間（毫秒），預設 10分鐘
   onProgress?: (progress: number, message: string) => void; // 進度回調
+  useEventStream?: boolean; // 優先使用 SSE 即時推送，預設 true（失敗時自動退回輪詢）
+}
+
+// SSE 無法使用（端點不存在、連線中斷等），需退回輪詢
+class EventStreamUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EventStreamUnavailableError';
+  }
 }
 
 /**
@@ -44,8 +83,120 @@ export async function getTaskStatus(taskId: string): Promise<TaskStatus> {
   return await response.json();
 }
 
+const parseSseEvent = (rawEvent: string) => {
+  let eventName = 'message';
+  const dataLines: string[] = [];
+
+  for (const rawLine of rawEvent.split('\n')) {
+    const line = rawLine.trim();
+    if (!line) continue;
+    if (line.startsWith('event:')) {
+      eventName = line.slice(6).trim();
+    } else if (line.startsWith('data:')) {
+      dataLines.push(line.slice(5).trim());
+    }
+  }
+
+  return { event: eventName, data: dataLines.join('\n') };
+};
+
+/**
+ * 透過 SSE（/api/task/:taskId/events）等待任務完成
+ * 每則進度訊息都會即時回調；串流無法建立或中途斷線時拋出 EventStreamUnavailableError
+ * @param taskId - 任務 ID
+ * @param timeout - 超時時間（毫秒）
+ * @param onProgress - 進度回調
+ * @returns 任務結果
+ */
+async function streamTaskUntilComplete<T = any>(
+  taskId: string,
+  timeout: number,
+  onProgress?: (progress: number, message: string) => void
+): Promise<T> {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeout);
+
+  try {
+    let response: Response;
+    try {
+      response = await fetch(`${API_BASE_URL}/task/${taskId}/events`, {
+        headers: { Accept: 'text/event-stream' },
+        signal: controller.signal,
+      });
+    } catch (error) {
+      if (timedOut) throw new Error('Task polling timeout');
+      throw new EventStreamUnavailableError(error instanceof Error ? error.message : 'Stream request failed');
+    }
+
+    if (response.status === 404) {
+      throw new Error('Task not found or has been cleaned up');
+    }
+    const contentType = response.headers.get('Content-Type') || '';
+    if (!response.ok || !response.body || !contentType.includes('text/event-stream')) {
+      throw new EventStreamUnavailableError(`Event stream unavailable (HTTP ${response.status})`);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder('utf-8');
+    let buffer = '';
+
+    while (true) {
+      let chunk: ReadableStreamReadResult<Uint8Array>;
+      try {
+        chunk = await reader.read();
+      } catch (error) {
+        if (timedOut) throw new Error('Task polling timeout');
+        throw new EventStreamUnavailableError(error instanceof Error ? error.message : 'Stream interrupted');
+      }
+      if (chunk.done) break;
+
+      buffer += decoder.decode(chunk.value, { stream: true });
+      buffer = buffer.replace(/\r/g, '\n');
+
+      let separatorIndex;
+      while ((separatorIndex = buffer.indexOf('\n\n')) !== -1) {
+        const rawEvent = buffer.slice(0, separatorIndex);
+        buffer = buffer.slice(separatorIndex + 2);
+        if (!rawEvent.trim()) continue;
+
+        const { event, data } = parseSseEvent(rawEvent);
+        if (!data) continue;
+        const payload = JSON.parse(data);
+
+        switch (event) {
+          case 'snapshot':
+          case 'progress':
+            onProgress?.(payload.progress, payload.progressMessage);
+            break;
+          case 'complete':
+            console.log(`[TaskPolling] Task ${taskId} completed successfully (stream)`);
+            return payload.result;
+          case 'failed':
+            console.error(`[TaskPolling] Task ${taskId} failed:`, payload.error);
+            throw new Error(payload.error || 'Task failed');
+          case 'cancelled':
+            throw new Error('任務已取消');
+          default:
+            break;
+        }
+      }
+    }
+
+    // 伺服器在任務結束前關閉串流（例如代理逾時），交給輪詢接手
+    throw new EventStreamUnavailableError('Stream closed before task finished');
+  } finally {
+    clearTimeout(timer);
+    controller.abort();
+  }
+}
+
 /**
  * 輪詢任務直到完成
+ * 預設先嘗試 SSE 即時推送，無法使用時退回固定間隔輪詢
  * @param taskId - 任務 ID
  * @param options - 輪詢選項
  * @returns 任務結果
@@ -57,11 +208,24 @@ export async function pollTaskUntilComplete<T = any>(
   const {
     interval = 2000,
     timeout = 10 * 60 * 1000, // 預設 10 分鐘
-    onProgress
+    onProgress,
+    useEventStream = true
   } = options;
 
   const startTime = Date.now();
   let lastProgress = -1;
+  let lastMessage = '';
+
+  if (useEventStream && typeof ReadableStream !== 'undefined') {
+    try {
+      return await streamTaskUntilComplete<T>(taskId, timeout, onProgress);
+    } catch (error) {
+      if (!(error instanceof EventStreamUnavailableError)) {
+        throw error;
+      }
+      console.warn(`[TaskPolling] Event stream unavailable for ${taskId}, falling back to polling:`, error.message);
+    }
+  }
 
   while (true) {
     // 檢查超時
@@ -72,10 +236,11 @@ export async function pollTaskUntilComplete<T = any>(
     try {
       const status = await getTaskStatus(taskId);
 
-      // 更新進度（只有當進度變化時才回調）
-      if (onProgress && status.progress !== lastProgress) {
+      // 更新進度（只有當進度或訊息變化時才回調，排隊位置會反映在訊息中）
+      if (onProgress && (status.progress !== lastProgress || status.progressMessage !== lastMessage)) {
         onProgress(status.progress, status.progressMessage);
         lastProgress = status.progress;
+        lastMessage = status.progressMessage;
       }
 
       // 檢查任務狀態
@@ -89,6 +254,10 @@ export async function pollTaskUntilComplete<T = any>(
         throw new Error(status.error || 'Task failed');
       }
 
+      if (status.status === 'cancelled') {
+        throw new Error('任務已取消');
+      }
+
       // 任務還在進行中，等待後繼續輪詢
       await new Promise(resolve => setTimeout(resolve, interval));
 
@@ -120,6 +289,62 @@ export async function cancelTask(taskId: string): Promise<void> {
   console.log(`[TaskPolling] Task ${taskId} cancelled`);
 }
 
+/**
+ * 列出目前使用者的任務（新到舊）
+ * @param limit - 最多回傳筆數
+ * @returns 任務摘要列表
+ */
+export async function listTasks(limit = 50): Promise<TaskSummary[]> {
+  const response = await fetch(`${API_BASE_URL}/tasks?limit=${limit}`);
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to list tasks');
+  }
+
+  const data = await response.json();
+  return data.tasks || [];
+}
+
+/**
+ * 是否可以用原始參數重新建立任務
+ * @param task - 任務摘要
+ */
+export function canRetryTask(task: Pick<TaskSummary, 'type' | 'params'>): boolean {
+  return Boolean(RETRY_ENDPOINTS[task.type] && task.params);
+}
+
+/**
+ * 以原始參數重新建立任務（accessToken 不會保存在任務中，會由呼叫端補上）
+ * @param task - 失敗或已取消的任務
+ * @param extraParams - 額外參數（例如 accessToken）
+ * @returns 新任務 ID
+ */
+export async function retryTask(
+  task: Pick<TaskSummary, 'type' | 'params'>,
+  extraParams: Record<string, unknown> = {}
+): Promise<string> {
+  const endpoint = RETRY_ENDPOINTS[task.type];
+  if (!endpoint || !task.params) {
+    throw new Error(`Task type ${task.type} cannot be retried`);
+  }
+
+  const response = await fetch(`${API_BASE_URL}${endpoint}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...task.params, ...extraParams }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to retry task');
+  }
+
+  const data = await response.json();
+  console.log(`[TaskPolling] Task ${data.taskId} created (retry)`);
+  return data.taskId;
+}
+
 /**
  * 使用異步任務模式執行操作
  * @param createTaskFn - 創建任務的函數，返回 taskId
@@ -1,34 +1,188 @@
 /**
- * 簡單的內存任務隊列系統
+ * 任務隊列系統
  * 解決手機端長時間請求被中斷的問題
+ * 任務透過可替換的儲存後端（services/taskStore.js）持久化，伺服器重啟後仍可查詢結果
  */
 
+import { EventEmitter } from 'events';
+import { createTaskStoreFromEnv } from './taskStore.js';
+
 // 任務狀態
 export const TaskStatus = {
   PENDING: 'pending',     // 等待執行
   PROCESSING: 'processing', // 執行中
   COMPLETED: 'completed',   // 已完成
-  FAILED: 'failed'          // 失敗
+  FAILED: 'failed',         // 失敗
+  CANCELLED: 'cancelled'    // 已取消
 };
 
-// 任務存儲（內存版本）
+const isFinishedStatus = (status) =>
+  status === TaskStatus.COMPLETED || status === TaskStatus.FAILED || status === TaskStatus.CANCELLED;
+
+// 已完成/失敗任務的保留時間（預設 7 天，可透過 TASK_RETENTION_HOURS 調整）
+const TASK_RETENTION_MS =
+  parseFloat(process.env.TASK_RETENTION_HOURS || '168') * 60 * 60 * 1000;
+
+// 伺服器重啟時中斷任務的錯誤訊息
+const INTERRUPTED_MESSAGE = '伺服器重新啟動，任務已中斷，請重新執行';
+
+// 任務類別：download（yt-dlp / FFmpeg，吃頻寬與磁碟）、analysis（Gemini，吃記憶體與 rate limit）
+export const TaskCategory = {
+  DOWNLOAD: 'download',
+  ANALYSIS: 'analysis'
+};
+
+// 任務類型 → 類別（未列出的類型視為 analysis）
+const TASK_TYPE_CATEGORIES = {
+  'analyze-video-url': TaskCategory.ANALYSIS,
+  'generate-article-url': TaskCategory.ANALYSIS,
+  'generate-article-from-url': TaskCategory.ANALYSIS,
+  'generate-transcript': TaskCategory.ANALYSIS,
+  'sync-analytics-snapshots': TaskCategory.ANALYSIS,
+  'generate-report': TaskCategory.ANALYSIS,
+  'capture-screenshots': TaskCategory.DOWNLOAD,
+};
+
+const readLimit = (name, fallback) => {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+// 並發上限（可透過環境變數調整）
+const MAX_CONCURRENT_TASKS = readLimit('TASK_MAX_CONCURRENCY', 3);
+const MAX_CONCURRENT_PER_CATEGORY = {
+  [TaskCategory.DOWNLOAD]: readLimit('TASK_MAX_CONCURRENT_DOWNLOADS', 1),
+  [TaskCategory.ANALYSIS]: readLimit('TASK_MAX_CONCURRENT_ANALYSIS', 2),
+};
+const MAX_CONCURRENT_PER_USER = readLimit('TASK_MAX_CONCURRENT_PER_USER', 2);
+
+// 任務儲存後端
+let store = createTaskStoreFromEnv();
+
+// 任務工作集（從儲存後端載入）
 const tasks = new Map();
 
-// 自動清理已完成任務的時間（30分鐘）
-const TASK_RETENTION_MS = 30 * 60 * 1000;
+// 任務事件（供 SSE 即時推送進度），事件名稱即 taskId
+const taskEvents = new EventEmitter();
+taskEvents.setMaxListeners(0);
+
+function emitTaskEvent(task, type) {
+  taskEvents.emit(task.id, { type, task });
+}
+
+// 排程狀態：等待執行的 executor 與執行中的計數
+const pendingExecutors = new Map(); // taskId → { executor, resolve }
+const running = {
+  total: 0,
+  byCategory: new Map(),
+  byUser: new Map(),
+};
+
+// 執行中任務的 AbortController（取消時中止子程序與 AI 請求）
+const abortControllers = new Map(); // taskId → AbortController
+
+const increment = (map, key, delta) => {
+  const next = (map.get(key) || 0) + delta;
+  if (next > 0) {
+    map.set(key, next);
+  } else {
+    map.delete(key);
+  }
+};
+
+function persist(task) {
+  try {
+    store.save(task);
+  } catch (error) {
+    console.error(`[TaskQueue] Failed to persist task ${task.id}:`, error.message);
+  }
+}
+
+function removeTask(taskId) {
+  tasks.delete(taskId);
+  try {
+    store.remove(taskId);
+  } catch (error) {
+    console.error(`[TaskQueue] Failed to remove task ${taskId}:`, error.message);
+  }
+}
+
+/**
+ * 從儲存後端載入任務，並將上次執行中斷的任務標記為失敗
+ * （執行函數是閉包，無法在重啟後恢復，因此改為明確失敗讓前端停止輪詢）
+ */
+function loadTasksFromStore() {
+  tasks.clear();
+  let interruptedCount = 0;
+
+  for (const task of store.loadAll()) {
+    if (task.status === TaskStatus.PENDING || task.status === TaskStatus.PROCESSING) {
+      task.status = TaskStatus.FAILED;
+      task.error = INTERRUPTED_MESSAGE;
+      task.interrupted = true;
+      task.updatedAt = Date.now();
+      task.completedAt = Date.now();
+      persist(task);
+      interruptedCount++;
+    }
+    tasks.set(task.id, task);
+  }
+
+  if (tasks.size > 0) {
+    console.log(`[TaskQueue] Loaded ${tasks.size} tasks from ${store.name} store`);
+  }
+  if (interruptedCount > 0) {
+    console.warn(`[TaskQueue] Marked ${interruptedCount} interrupted tasks as failed`);
+  }
+}
+
+/**
+ * 替換任務儲存後端（會重新從新後端載入任務）
+ * @param {Object} newStore - 實作 loadAll/save/remove/flush 的儲存後端
+ */
+export function setTaskStore(newStore) {
+  store.flush();
+  store = newStore;
+  loadTasksFromStore();
+}
+
+/**
+ * 立即寫出尚未落地的任務變更（程序結束前呼叫）
+ */
+export function flushTaskStore() {
+  store.flush();
+}
+
+/**
+ * 訂閱單一任務的事件
+ * @param {string} taskId - 任務 ID
+ * @param {(event: { type: 'progress'|'queued'|'completed'|'failed'|'cancelled', task: Object }) => void} listener - 事件回調
+ * @returns {() => void} 取消訂閱函數
+ */
+export function subscribeToTask(taskId, listener) {
+  taskEvents.on(taskId, listener);
+  return () => taskEvents.off(taskId, listener);
+}
 
 /**
  * 創建新任務
  * @param {string} taskType - 任務類型
  * @param {Object} params - 任務參數
+ * @param {Object} [options]
+ * @param {string} [options.userId] - 建立者（JWT email / channel ID），用於公平排程
+ * @param {string} [options.category] - 任務類別，預設依 taskType 判斷
+ * @param {string} [options.batchId] - 所屬批次（批次建立的任務共用同一個 ID）
  * @returns {string} taskId - 任務 ID
  */
-export function createTask(taskType, params) {
+export function createTask(taskType, params, options = {}) {
   const taskId = `task_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
-  tasks.set(taskId, {
+  const task = {
     id: taskId,
     type: taskType,
+    category: options.category || TASK_TYPE_CATEGORIES[taskType] || TaskCategory.ANALYSIS,
+    userId: options.userId || 'anonymous',
+    batchId: options.batchId || null,
     status: TaskStatus.PENDING,
     params,
     progress: 0,
@@ -38,7 +192,10 @@ export function createTask(taskType, params) {
     createdAt: Date.now(),
     updatedAt: Date.now(),
     completedAt: null
-  });
+  };
+
+  tasks.set(taskId, task);
+  persist(task);
 
   console.log(`[TaskQueue] Created task: ${taskId} (type: ${taskType})`);
   return taskId;
@@ -50,7 +207,135 @@ export function createTask(taskType, params) {
  * @returns {Object|null} 任務資訊
  */
 export function getTask(taskId) {
-  return tasks.get(taskId) || null;
+  const task = tasks.get(taskId);
+  if (!task) return null;
+  return { ...task, queuePosition: getQueuePosition(taskId) };
+}
+
+/**
+ * 依公平排程順序列出等待中的任務
+ * 每位使用者的第 k 個等待任務排在第 (k + 該使用者執行中任務數) 輪，同輪依建立時間排序，
+ * 避免單一使用者一次送出多個任務時佔滿隊列
+ * @returns {Array<Object>} 等待中的任務（依預計執行順序）
+ */
+function getQueueOrder() {
+  const perUserCount = new Map();
+  const queued = Array.from(pendingExecutors.keys())
+    .map((taskId) => tasks.get(taskId))
+    .filter(Boolean)
+    .sort((a, b) => a.createdAt - b.createdAt);
+
+  const withRound = queued.map((task) => {
+    const seen = perUserCount.get(task.userId) || 0;
+    perUserCount.set(task.userId, seen + 1);
+    return { task, round: seen + (running.byUser.get(task.userId) || 0) };
+  });
+
+  withRound.sort((a, b) => a.round - b.round || a.task.createdAt - b.task.createdAt);
+  return withRound.map(({ task }) => task);
+}
+
+/**
+ * 取得任務在隊列中的位置（1 = 下一個執行），未在排隊時回傳 null
+ * @param {string} taskId - 任務 ID
+ * @returns {number|null}
+ */
+export function getQueuePosition(taskId) {
+  if (!pendingExecutors.has(taskId)) return null;
+  const index = getQueueOrder().findIndex((task) => task.id === taskId);
+  return index === -1 ? null : index + 1;
+}
+
+/**
+ * 取得排程器狀態（用於監控）
+ */
+export function getSchedulerStats() {
+  return {
+    running: running.total,
+    queued: pendingExecutors.size,
+    runningByCategory: Object.fromEntries(running.byCategory),
+    runningByUser: Object.fromEntries(running.byUser),
+    limits: {
+      total: MAX_CONCURRENT_TASKS,
+      perCategory: { ...MAX_CONCURRENT_PER_CATEGORY },
+      perUser: MAX_CONCURRENT_PER_USER,
+    },
+  };
+}
+
+function canStart(task) {
+  if (running.total >= MAX_CONCURRENT_TASKS) return false;
+  const categoryLimit = MAX_CONCURRENT_PER_CATEGORY[task.category] ?? MAX_CONCURRENT_TASKS;
+  if ((running.byCategory.get(task.category) || 0) >= categoryLimit) return false;
+  return (running.byUser.get(task.userId) || 0) < MAX_CONCURRENT_PER_USER;
+}
+
+/**
+ * 更新排隊中任務的位置訊息並推送事件
+ */
+function announceQueuePositions() {
+  getQueueOrder().forEach((task, index) => {
+    const message = `排隊中：第 ${index + 1} 位，等待其他任務完成...`;
+    if (task.progressMessage !== message) {
+      task.progressMessage = message;
+      task.updatedAt = Date.now();
+      persist(task);
+      emitTaskEvent(task, 'queued');
+    }
+  });
+}
+
+/**
+ * 依公平順序啟動所有可執行的任務
+ */
+function scheduleTasks() {
+  for (const task of getQueueOrder()) {
+    if (running.total >= MAX_CONCURRENT_TASKS) break;
+    if (canStart(task)) {
+      startTask(task);
+    }
+  }
+  announceQueuePositions();
+}
+
+async function startTask(task) {
+  const { executor, resolve } = pendingExecutors.get(task.id);
+  pendingExecutors.delete(task.id);
+
+  const controller = new AbortController();
+  abortControllers.set(task.id, controller);
+
+  running.total++;
+  increment(running.byCategory, task.category, 1);
+  increment(running.byUser, task.userId, 1);
+
+  try {
+    task.status = TaskStatus.PROCESSING;
+    task.startedAt = Date.now();
+    task.updatedAt = Date.now();
+    persist(task);
+    console.log(`[TaskQueue] Starting task execution: ${task.id}`);
+
+    // 執行任務（signal 於任務被取消時觸發 abort）
+    const result = await executor(task.id, { signal: controller.signal });
+
+    // 任務完成
+    completeTask(task.id, result);
+  } catch (error) {
+    if (controller.signal.aborted) {
+      console.log(`[TaskQueue] Task ${task.id} stopped after cancellation`);
+    } else {
+      console.error(`[TaskQueue] Task ${task.id} execution error:`, error);
+      failTask(task.id, error);
+    }
+  } finally {
+    abortControllers.delete(task.id);
+    running.total--;
+    increment(running.byCategory, task.category, -1);
+    increment(running.byUser, task.userId, -1);
+    resolve();
+    scheduleTasks();
+  }
 }
 
 /**
@@ -61,11 +346,13 @@ export function getTask(taskId) {
  */
 export function updateTaskProgress(taskId, progress, message) {
   const task = tasks.get(taskId);
-  if (task) {
+  if (task && !isFinishedStatus(task.status)) {
     task.progress = progress;
     task.progressMessage = message;
     task.updatedAt = Date.now();
     task.status = TaskStatus.PROCESSING;
+    persist(task);
+    emitTaskEvent(task, 'progress');
     console.log(`[TaskQueue] Task ${taskId}: ${progress}% - ${message}`);
   }
 }
@@ -77,20 +364,16 @@ export function updateTaskProgress(taskId, progress, message) {
  */
 export function completeTask(taskId, result) {
   const task = tasks.get(taskId);
-  if (task) {
+  if (task && !isFinishedStatus(task.status)) {
     task.status = TaskStatus.COMPLETED;
     task.progress = 100;
     task.progressMessage = '任務已完成';
     task.result = result;
     task.updatedAt = Date.now();
     task.completedAt = Date.now();
+    persist(task);
+    emitTaskEvent(task, 'completed');
     console.log(`[TaskQueue] Task ${taskId} completed successfully`);
-
-    // 設定自動清理
-    setTimeout(() => {
-      tasks.delete(taskId);
-      console.log(`[TaskQueue] Task ${taskId} auto-cleaned after retention period`);
-    }, TASK_RETENTION_MS);
   }
 }
 
@@ -101,51 +384,83 @@ export function completeTask(taskId, result) {
  */
 export function failTask(taskId, error) {
   const task = tasks.get(taskId);
-  if (task) {
+  if (task && !isFinishedStatus(task.status)) {
     task.status = TaskStatus.FAILED;
     task.error = error instanceof Error ? error.message : error;
     task.updatedAt = Date.now();
     task.completedAt = Date.now();
+    persist(task);
+    emitTaskEvent(task, 'failed');
     console.error(`[TaskQueue] Task ${taskId} failed:`, task.error);
-
-    // 設定自動清理
-    setTimeout(() => {
-      tasks.delete(taskId);
-      console.log(`[TaskQueue] Failed task ${taskId} auto-cleaned after retention period`);
-    }, TASK_RETENTION_MS);
   }
 }
 
 /**
- * 執行任務（異步）
+ * 取得執行中任務的 AbortSignal（任務未在執行時回傳 null）
  * @param {string} taskId - 任務 ID
- * @param {Function} executor - 任務執行函數
+ * @returns {AbortSignal|null}
  */
-export async function executeTask(taskId, executor) {
+export function getTaskSignal(taskId) {
+  return abortControllers.get(taskId)?.signal ?? null;
+}
+
+/**
+ * 取消任務
+ * 排隊中的任務直接移出隊列；執行中的任務標記為已取消並觸發 AbortSignal，
+ * 由執行函數中止 yt-dlp / FFmpeg 子程序與 AI 請求，之後的進度與結果都會被忽略
+ * @param {string} taskId - 任務 ID
+ * @returns {boolean} 是否成功取消（已結束的任務回傳 false）
+ */
+export function cancelTask(taskId) {
   const task = tasks.get(taskId);
-  if (!task) {
-    console.error(`[TaskQueue] Task ${taskId} not found`);
-    return;
+  if (!task || isFinishedStatus(task.status)) {
+    return false;
   }
 
-  try {
-    task.status = TaskStatus.PROCESSING;
-    task.updatedAt = Date.now();
-    console.log(`[TaskQueue] Starting task execution: ${taskId}`);
+  const pending = pendingExecutors.get(taskId);
+  if (pending) {
+    pendingExecutors.delete(taskId);
+    pending.resolve();
+  }
 
-    // 執行任務
-    const result = await executor(taskId);
+  task.status = TaskStatus.CANCELLED;
+  task.progressMessage = '任務已取消';
+  task.updatedAt = Date.now();
+  task.completedAt = Date.now();
+  persist(task);
+  emitTaskEvent(task, 'cancelled');
+  console.log(`[TaskQueue] Task ${taskId} cancelled`);
 
-    // 任務完成
-    completeTask(taskId, result);
-  } catch (error) {
-    console.error(`[TaskQueue] Task ${taskId} execution error:`, error);
-    failTask(taskId, error);
+  abortControllers.get(taskId)?.abort(new Error('任務已取消'));
+
+  if (pending) {
+    scheduleTasks();
   }
+  return true;
 }
 
 /**
- * 清理所有已完成的任務
+ * 排入任務（異步）
+ * 依全域、類別、使用者的並發上限排程，額滿時在隊列中等待
+ * @param {string} taskId - 任務 ID
+ * @param {(taskId: string, context: { signal: AbortSignal }) => Promise<any>} executor - 任務執行函數
+ * @returns {Promise<void>} 任務結束（完成或失敗）時 resolve
+ */
+export function executeTask(taskId, executor) {
+  const task = tasks.get(taskId);
+  if (!task) {
+    console.error(`[TaskQueue] Task ${taskId} not found`);
+    return Promise.resolve();
+  }
+
+  return new Promise((resolve) => {
+    pendingExecutors.set(taskId, { executor, resolve });
+    scheduleTasks();
+  });
+}
+
+/**
+ * 清理超過保留時間的已結束任務（完成、失敗、取消）
  */
 export function cleanupCompletedTasks() {
   const now = Date.now();
@@ -153,11 +468,11 @@ export function cleanupCompletedTasks() {
 
   for (const [taskId, task] of tasks.entries()) {
     if (
-      (task.status === TaskStatus.COMPLETED || task.status === TaskStatus.FAILED) &&
+      isFinishedStatus(task.status) &&
       task.completedAt &&
       (now - task.completedAt > TASK_RETENTION_MS)
     ) {
-      tasks.delete(taskId);
+      removeTask(taskId);
       cleanedCount++;
     }
   }
@@ -167,6 +482,18 @@ export function cleanupCompletedTasks() {
   }
 }
 
+/**
+ * 列出某位使用者的任務（新到舊）
+ * @param {string} userId - 使用者（JWT email / channel ID）
+ * @returns {Array<Object>} 任務列表（含排隊位置）
+ */
+export function listTasksByUser(userId) {
+  return Array.from(tasks.values())
+    .filter((task) => task.userId === userId)
+    .sort((a, b) => b.createdAt - a.createdAt)
+    .map((task) => ({ ...task, queuePosition: getQueuePosition(task.id) }));
+}
+
 /**
  * 獲取所有任務（用於調試）
  */
@@ -174,5 +501,8 @@ export function getAllTasks() {
   return Array.from(tasks.values());
 }
 
-// 定期清理（每10分鐘）
-setInterval(cleanupCompletedTasks, 10 * 60 * 1000);
+loadTasksFromStore();
+cleanupCompletedTasks();
+
+// 定期清理（每10分鐘）；unref 讓只匯入此模組的腳本與測試可以自行結束
+setInterval(cleanupCompletedTasks, 10 * 60 * 1000).unref();
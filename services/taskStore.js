@@ -0,0 +1,88 @@
+/**
+ * 任務儲存後端
+ * taskQueue 透過此介面持久化任務，伺服器重啟（Render 重新部署、當機）後仍可查詢
+ *
+ * 每個 store 需實作：
+ * - loadAll(): Array<Task>   啟動時載入所有任務
+ * - save(task): void         新增或更新任務
+ * - remove(taskId): void     刪除任務
+ * - flush(): void            立即寫出尚未落地的變更
+ */
+
+import { createJsonFileStore } from './jsonFileStore.js';
+
+// 不寫入磁碟的敏感參數（例如 YouTube OAuth token）
+const SENSITIVE_PARAM_KEYS = ['accessToken'];
+
+function toStorableTask(task) {
+  if (!task.params) return task;
+  const params = { ...task.params };
+  for (const key of SENSITIVE_PARAM_KEYS) {
+    delete params[key];
+  }
+  return { ...task, params };
+}
+
+/**
+ * 內存儲存（重啟即消失，適合測試或不需要持久化的環境）
+ */
+export function createMemoryTaskStore() {
+  return {
+    name: 'memory',
+    loadAll() {
+      return [];
+    },
+    save() {},
+    remove() {},
+    flush() {},
+  };
+}
+
+/**
+ * JSON 檔案儲存（預設）
+ * @param {string} fileName - 檔名（相對於 DATA_DIR）
+ */
+export function createFileTaskStore(fileName = 'tasks.json') {
+  const file = createJsonFileStore(fileName, { tasks: {} });
+  const snapshot = file.read();
+  const records = new Map(Object.entries(snapshot.tasks || {}));
+
+  const persist = () => {
+    file.write({ tasks: Object.fromEntries(records) });
+  };
+
+  return {
+    name: 'file',
+    filePath: file.filePath,
+    loadAll() {
+      return Array.from(records.values());
+    },
+    save(task) {
+      records.set(task.id, toStorableTask(task));
+      persist();
+    },
+    remove(taskId) {
+      if (records.delete(taskId)) {
+        persist();
+      }
+    },
+    flush() {
+      file.flushSync();
+    },
+  };
+}
+
+/**
+ * 依環境變數建立任務儲存
+ * TASK_STORE=file（預設）| memory
+ */
+export function createTaskStoreFromEnv() {
+  const backend = (process.env.TASK_STORE || 'file').toLowerCase();
+  if (backend === 'memory') {
+    return createMemoryTaskStore();
+  }
+  if (backend !== 'file') {
+    console.warn(`[TaskStore] Unknown TASK_STORE "${backend}", falling back to file store`);
+  }
+  return createFileTaskStore(process.env.TASK_STORE_FILE || 'tasks.json');
+}
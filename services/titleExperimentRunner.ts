@@ -0,0 +1,46 @@
+/**
+ * 標題輪替執行器
+ * 向伺服器詢問到期的標題輪替，透過 YouTube API 更新標題後回報時段開始。
+ * 需要使用者的 YouTube 授權，因此只在 App 開啟且已登入時執行；
+ * 未開啟期間到期的輪替會在下次開啟時補上，時段以實際上線時間記錄。
+ */
+
+import * as videoApiService from './videoApiService';
+import type { TitleRotation } from './videoApiService';
+import * as metadataUpdateService from './metadataUpdateService';
+
+let isApplying = false;
+
+/**
+ * 套用所有到期的標題輪替
+ * @returns 成功套用的輪替
+ */
+export async function applyDueTitleRotations(): Promise<TitleRotation[]> {
+  if (isApplying) return [];
+  isApplying = true;
+
+  const applied: TitleRotation[] = [];
+  try {
+    const rotations = await videoApiService.getDueTitleRotations();
+    for (const rotation of rotations) {
+      try {
+        await metadataUpdateService.updateVideoMetadata(
+          rotation.videoId,
+          { title: rotation.title },
+          { source: 'TitleExperiment', trigger: 'title-rotation' }
+        );
+        await videoApiService.recordTitleExperimentWindow(rotation.experimentId, rotation.variantIndex);
+        applied.push(rotation);
+        console.log(`[TitleExperiment] 已輪替 ${rotation.videoId} 的標題：${rotation.title}`);
+      } catch (error) {
+        console.error(`[TitleExperiment] 輪替 ${rotation.videoId} 失敗:`, error);
+      }
+    }
+  } catch (error) {
+    console.warn('[TitleExperiment] 無法取得到期的輪替:', error);
+  } finally {
+    isApplying = false;
+  }
+
+  return applied;
+}
@@ -0,0 +1,357 @@
+/**
+ * 標題 A/B 輪替實驗
+ * 依排程輪流把選定的標題設為影片標題，記錄每個時段實際上線的標題，
+ * 再以每日分析數據換算各標題的觀看與 CTR，找出表現最好的標題。
+ *
+ * 標題更新由前端（使用者的 YouTube 授權）執行：前端定期詢問哪些實驗該輪替，
+ * 更新成功後回報時段開始時間，因此時段紀錄反映的是實際上線時間。
+ */
+
+import crypto from 'crypto';
+import { createJsonFileStore } from './jsonFileStore.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// YouTube Analytics 以太平洋時間切日，這裡以 PST（UTC-8）近似，忽略夏令時間的 1 小時誤差
+const ANALYTICS_DAY_OFFSET_MS = 8 * HOUR_MS;
+
+// 每個標題都至少要有這麼多曝光，才以 CTR 判定勝負；否則改用每日觀看次數
+const MIN_IMPRESSIONS_FOR_CTR = 100;
+
+const MIN_ROTATION_HOURS = 24;
+const MAX_ROTATION_HOURS = 24 * 14;
+const MAX_CYCLES = 5;
+
+const file = createJsonFileStore('title-experiments.json', { experiments: {} });
+const experiments = new Map(Object.entries(file.read().experiments || {}));
+
+const persist = () => {
+  file.write({ experiments: Object.fromEntries(experiments) });
+};
+
+const isActive = (experiment) => experiment.status === 'scheduled' || experiment.status === 'running';
+
+const closeOpenWindow = (experiment, endedAt) => {
+  const current = experiment.windows[experiment.windows.length - 1];
+  if (current && !current.endedAt) {
+    current.endedAt = endedAt;
+  }
+};
+
+/**
+ * 找出影片進行中的實驗（同一支影片同時只能有一個）
+ * @param {string} videoId
+ * @returns {object | null}
+ */
+export function findActiveTitleExperiment(videoId) {
+  for (const experiment of experiments.values()) {
+    if (experiment.videoId === videoId && isActive(experiment)) {
+      return experiment;
+    }
+  }
+  return null;
+}
+
+/**
+ * 建立實驗（第一個時段由前端在下一次輪替檢查時套用）
+ * @param {object} params
+ * @param {string} params.userId - 建立者（JWT email）
+ * @param {string} params.videoId
+ * @param {string} params.originalTitle - 建立時的影片標題，實驗結束後可用來還原
+ * @param {Array<{ label: string, title: string }>} params.variants - 參與輪替的標題（至少 2 個）
+ * @param {number} params.rotationHours - 每個時段長度（小時）
+ * @param {number} params.cycles - 所有標題輪替幾輪
+ * @returns {object}
+ * @throws {Error} 參數不正確時
+ */
+export function createTitleExperiment({ userId, videoId, originalTitle, variants, rotationHours, cycles }) {
+  if (!videoId || typeof videoId !== 'string') {
+    throw new Error('videoId is required');
+  }
+  if (!Array.isArray(variants) || variants.length < 2) {
+    throw new Error('At least two title variants are required');
+  }
+  const normalizedVariants = variants.map((variant) => ({
+    label: String(variant?.label || '').trim(),
+    title: String(variant?.title || '').trim(),
+  }));
+  if (normalizedVariants.some((variant) => !variant.label || !variant.title || variant.title.length > 100)) {
+    throw new Error('Each variant needs a label and a title of at most 100 characters');
+  }
+  if (new Set(normalizedVariants.map((variant) => variant.title)).size !== normalizedVariants.length) {
+    throw new Error('Variant titles must be different');
+  }
+
+  const hours = Number(rotationHours);
+  if (!Number.isInteger(hours) || hours < MIN_ROTATION_HOURS || hours > MAX_ROTATION_HOURS) {
+    throw new Error(`rotationHours must be an integer between ${MIN_ROTATION_HOURS} and ${MAX_ROTATION_HOURS}`);
+  }
+  const cycleCount = Number(cycles);
+  if (!Number.isInteger(cycleCount) || cycleCount < 1 || cycleCount > MAX_CYCLES) {
+    throw new Error(`cycles must be an integer between 1 and ${MAX_CYCLES}`);
+  }
+
+  const now = Date.now();
+  const plan = [];
+  for (let cycle = 0; cycle < cycleCount; cycle++) {
+    normalizedVariants.forEach((_variant, index) => plan.push(index));
+  }
+
+  const experiment = {
+    id: `exp_${now}_${crypto.randomBytes(4).toString('hex')}`,
+    userId,
+    videoId,
+    originalTitle: originalTitle || '',
+    variants: normalizedVariants,
+    rotationHours: hours,
+    cycles: cycleCount,
+    plan,
+    windows: [],
+    status: 'scheduled',
+    nextRotationAt: now,
+    createdAt: now,
+    updatedAt: now,
+    completedAt: null,
+    report: null,
+  };
+
+  experiments.set(experiment.id, experiment);
+  persist();
+  console.log(`[TitleExperiment] 建立實驗 ${experiment.id}（影片 ${videoId}，${plan.length} 個時段，每段 ${hours} 小時）`);
+  return experiment;
+}
+
+/**
+ * 取得實驗
+ * @param {string} experimentId
+ * @returns {object | null}
+ */
+export function getTitleExperiment(experimentId) {
+  return experiments.get(experimentId) || null;
+}
+
+/**
+ * 列出使用者的實驗（新到舊）
+ * @param {string} userId
+ * @param {string} [videoId] - 只列出指定影片
+ * @returns {Array<object>}
+ */
+export function listTitleExperiments(userId, videoId) {
+  return Array.from(experiments.values())
+    .filter((experiment) => experiment.userId === userId && (!videoId || experiment.videoId === videoId))
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * 列出該輪替的實驗；最後一個時段已到期的實驗會直接標記完成
+ * @param {string} userId
+ * @param {number} [now]
+ * @returns {Array<{ experimentId: string, videoId: string, variantIndex: number, title: string }>}
+ */
+export function listDueTitleRotations(userId, now = Date.now()) {
+  const due = [];
+  let changed = false;
+
+  for (const experiment of experiments.values()) {
+    if (experiment.userId !== userId || !isActive(experiment) || experiment.nextRotationAt > now) {
+      continue;
+    }
+
+    const step = experiment.windows.length;
+    if (step >= experiment.plan.length) {
+      closeOpenWindow(experiment, experiment.nextRotationAt);
+      experiment.status = 'completed';
+      experiment.completedAt = experiment.nextRotationAt;
+      experiment.nextRotationAt = null;
+      experiment.updatedAt = now;
+      changed = true;
+      console.log(`[TitleExperiment] 實驗 ${experiment.id} 已完成所有時段`);
+      continue;
+    }
+
+    const variantIndex = experiment.plan[step];
+    due.push({
+      experimentId: experiment.id,
+      videoId: experiment.videoId,
+      variantIndex,
+      title: experiment.variants[variantIndex].title,
+    });
+  }
+
+  if (changed) persist();
+  return due;
+}
+
+/**
+ * 記錄某個標題已在 YouTube 上線（開始新時段，並結束上一個時段）
+ * @param {string} experimentId
+ * @param {number} variantIndex - 必須是排程中的下一個標題，避免多個分頁重複回報
+ * @param {number} [startedAt]
+ * @returns {object} 更新後的實驗
+ * @throws {Error} 實驗已結束或不是排程中的下一個標題時
+ */
+export function recordTitleExperimentWindow(experimentId, variantIndex, startedAt = Date.now()) {
+  const experiment = experiments.get(experimentId);
+  if (!experiment || !isActive(experiment)) {
+    throw new Error('Experiment is not active');
+  }
+  const expectedIndex = experiment.plan[experiment.windows.length];
+  if (expectedIndex === undefined || expectedIndex !== Number(variantIndex)) {
+    throw new Error('Variant is not the next scheduled title');
+  }
+
+  closeOpenWindow(experiment, startedAt);
+  experiment.windows.push({
+    variantIndex: expectedIndex,
+    title: experiment.variants[expectedIndex].title,
+    startedAt,
+    endedAt: null,
+  });
+  experiment.status = 'running';
+  experiment.nextRotationAt = startedAt + experiment.rotationHours * HOUR_MS;
+  experiment.updatedAt = startedAt;
+  persist();
+
+  console.log(`[TitleExperiment] 實驗 ${experimentId} 第 ${experiment.windows.length} 個時段開始：${experiment.variants[expectedIndex].label}`);
+  return experiment;
+}
+
+/**
+ * 提前結束實驗
+ * @param {string} experimentId
+ * @returns {object | null} 更新後的實驗
+ */
+export function stopTitleExperiment(experimentId) {
+  const experiment = experiments.get(experimentId);
+  if (!experiment) return null;
+  if (!isActive(experiment)) return experiment;
+
+  const now = Date.now();
+  closeOpenWindow(experiment, now);
+  experiment.status = 'cancelled';
+  experiment.completedAt = now;
+  experiment.nextRotationAt = null;
+  experiment.updatedAt = now;
+  persist();
+
+  console.log(`[TitleExperiment] 實驗 ${experimentId} 已停止`);
+  return experiment;
+}
+
+/**
+ * 報表需要查詢的日期範圍（YYYY-MM-DD，太平洋時間近似）
+ * @param {object} experiment
+ * @param {number} [now]
+ * @returns {{ startDate: string, endDate: string } | null} 尚未有任何時段時為 null
+ */
+export function getTitleExperimentDateRange(experiment, now = Date.now()) {
+  const firstWindow = experiment.windows[0];
+  if (!firstWindow) return null;
+  const lastWindow = experiment.windows[experiment.windows.length - 1];
+  const toDate = (timestamp) => new Date(timestamp - ANALYTICS_DAY_OFFSET_MS).toISOString().split('T')[0];
+  return {
+    startDate: toDate(firstWindow.startedAt),
+    endDate: toDate(Math.min(lastWindow.endedAt || now, now) - 1),
+  };
+}
+
+/**
+ * 依每日指標計算各標題的表現並判定勝出者
+ * 每日數據依各時段與該日重疊的時數按比例分配（輪替當天會由前後兩個標題分攤）
+ * @param {object} experiment
+ * @param {Array<{ date: string, views: number, impressions: number, clicks: number }>} dailyMetrics
+ * @param {number} [now]
+ * @returns {object} 報表
+ */
+export function buildTitleExperimentReport(experiment, dailyMetrics, now = Date.now()) {
+  const variants = experiment.variants.map((variant, variantIndex) => ({
+    variantIndex,
+    label: variant.label,
+    title: variant.title,
+    liveHours: 0,
+    coveredHours: 0,
+    views: 0,
+    impressions: 0,
+    clicks: 0,
+    ctr: null,
+    viewsPerDay: null,
+  }));
+
+  for (const timeWindow of experiment.windows) {
+    const end = timeWindow.endedAt || now;
+    variants[timeWindow.variantIndex].liveHours += Math.max(end - timeWindow.startedAt, 0) / HOUR_MS;
+  }
+
+  for (const day of dailyMetrics) {
+    const dayStart = Date.parse(`${day.date}T00:00:00Z`) + ANALYTICS_DAY_OFFSET_MS;
+    const dayEnd = dayStart + DAY_MS;
+    for (const timeWindow of experiment.windows) {
+      const overlap = Math.min(timeWindow.endedAt || now, dayEnd) - Math.max(timeWindow.startedAt, dayStart);
+      if (overlap <= 0) continue;
+      const share = overlap / DAY_MS;
+      const variant = variants[timeWindow.variantIndex];
+      variant.coveredHours += overlap / HOUR_MS;
+      variant.views += day.views * share;
+      variant.impressions += day.impressions * share;
+      variant.clicks += day.clicks * share;
+    }
+  }
+
+  for (const variant of variants) {
+    variant.liveHours = Math.round(variant.liveHours * 10) / 10;
+    variant.coveredHours = Math.round(variant.coveredHours * 10) / 10;
+    variant.views = Math.round(variant.views);
+    variant.impressions = Math.round(variant.impressions);
+    variant.clicks = Math.round(variant.clicks);
+    variant.ctr = variant.impressions > 0 ? Number(((variant.clicks / variant.impressions) * 100).toFixed(2)) : null;
+    variant.viewsPerDay = variant.coveredHours > 0
+      ? Number((variant.views / (variant.coveredHours / 24)).toFixed(1))
+      : null;
+  }
+
+  const candidates = variants.filter((variant) => variant.coveredHours > 0);
+  const useCtr = candidates.length > 1 && candidates.every((variant) => variant.impressions >= MIN_IMPRESSIONS_FOR_CTR);
+  const metric = useCtr ? 'ctr' : 'viewsPerDay';
+
+  let winnerIndex = null;
+  let note = '';
+  if (candidates.length < 2) {
+    note = '至少需要兩個標題都有分析數據才能比較（YouTube 分析數據約有 2-3 天延遲）';
+  } else {
+    const ranked = [...candidates].sort((a, b) => (b[metric] ?? 0) - (a[metric] ?? 0));
+    const [best, runnerUp] = ranked;
+    if ((best[metric] ?? 0) > (runnerUp[metric] ?? 0)) {
+      winnerIndex = best.variantIndex;
+      const lift = runnerUp[metric] ? (((best[metric] - runnerUp[metric]) / runnerUp[metric]) * 100).toFixed(1) : null;
+      note = `${best.label} 的${useCtr ? ' CTR ' : '每日觀看次數'}最高${lift ? `，比第二名高 ${lift}%` : ''}`;
+    } else {
+      note = '各標題表現相同，無法判定勝出者';
+    }
+    if (!useCtr) {
+      note += `（曝光數不足 ${MIN_IMPRESSIONS_FOR_CTR}，改以每日觀看次數比較）`;
+    }
+  }
+
+  return {
+    generatedAt: now,
+    metric,
+    winnerIndex,
+    note,
+    dataThrough: dailyMetrics.length > 0 ? dailyMetrics[dailyMetrics.length - 1].date : null,
+    variants,
+  };
+}
+
+/**
+ * 保存最近一次的報表
+ * @param {string} experimentId
+ * @param {object} report
+ */
+export function saveTitleExperimentReport(experimentId, report) {
+  const experiment = experiments.get(experimentId);
+  if (!experiment) return;
+  experiment.report = report;
+  experiment.updatedAt = Date.now();
+  persist();
+}
@@ -0,0 +1,141 @@
+/**
+ * 影片逐字稿
+ * 儲存 AI 產生的時間軸逐字稿與各語言翻譯，供字幕編輯、匯出與文章生成重複使用
+ * 逐字稿依 JWT 使用者分開保存（與文章草稿相同），使用者只能讀取與修改自己產生的逐字稿
+ */
+
+import { createJsonFileStore } from './jsonFileStore.js';
+import { normalizeTranscriptSegments } from './captionFormats.js';
+
+const file = createJsonFileStore('transcripts.json', { users: {} });
+const snapshot = file.read();
+// userId -> { [videoId]: transcript }
+const transcriptsByUser = new Map(Object.entries(snapshot.users || {}));
+
+// 舊版檔案只依影片保存（{ videos: { [videoId]: transcript } }），依最後更新者分到各使用者
+for (const [videoId, transcript] of Object.entries(snapshot.videos || {})) {
+  if (!transcript.updatedBy) continue;
+  const userTranscripts = transcriptsByUser.get(transcript.updatedBy) || {};
+  userTranscripts[videoId] = transcript;
+  transcriptsByUser.set(transcript.updatedBy, userTranscripts);
+}
+
+const persist = () => {
+  file.write({ users: Object.fromEntries(transcriptsByUser) });
+};
+
+/**
+ * 取得使用者的影片逐字稿
+ * @param {string} userId
+ * @param {string} videoId
+ * @returns {object | null}
+ */
+export function getTranscript(userId, videoId) {
+  return transcriptsByUser.get(userId)?.[videoId] || null;
+}
+
+/**
+ * 取得指定語言的片段（原始語言或已翻譯的語言）
+ * @param {string} userId
+ * @param {string} videoId
+ * @param {string} [language] - 未指定時回傳原始語言
+ * @returns {Array<{ start: number, end: number, text: string }> | null}
+ */
+export function getTranscriptSegments(userId, videoId, language) {
+  const transcript = getTranscript(userId, videoId);
+  if (!transcript) return null;
+  if (!language || language === transcript.language) return transcript.segments;
+  return transcript.translations[language]?.segments || null;
+}
+
+/**
+ * 儲存新產生的逐字稿（會清除舊的翻譯，因為時間軸可能已改變）
+ * @param {object} input
+ * @param {string} input.videoId
+ * @param {string} input.language
+ * @param {unknown} input.segments
+ * @param {number | null} [input.durationSeconds] - 影片長度，超出的時間會被截斷
+ * @param {string} [input.source] - 產生來源（例如 gemini-file、youtube-url）
+ * @param {string} input.userId - 產生者（JWT email），逐字稿保存在此使用者底下
+ * @returns {object} 儲存後的逐字稿
+ * @throws {Error} 缺少 userId 或沒有有效片段時
+ */
+export function saveTranscript({ videoId, language, segments, durationSeconds, source, userId }) {
+  if (!userId) {
+    throw new Error('userId is required');
+  }
+  const normalized = normalizeTranscriptSegments(segments, durationSeconds);
+  if (normalized.length === 0) {
+    throw new Error('Transcript has no valid segments');
+  }
+
+  const now = Date.now();
+  const userTranscripts = transcriptsByUser.get(userId) || {};
+  const previous = userTranscripts[videoId];
+  const transcript = {
+    videoId,
+    language,
+    segments: normalized,
+    translations: {},
+    source: source || null,
+    createdAt: previous?.createdAt || now,
+    updatedAt: now,
+    updatedBy: userId,
+  };
+  userTranscripts[videoId] = transcript;
+  transcriptsByUser.set(userId, userTranscripts);
+  persist();
+
+  console.log(`[Transcript] 已儲存 ${videoId} 的逐字稿（${language}，${normalized.length} 段）by ${userId}`);
+  return transcript;
+}
+
+/**
+ * 更新編輯後的片段；language 為原始語言時更新逐字稿本身，否則更新該語言的翻譯
+ * @param {string} userId
+ * @param {string} videoId
+ * @param {string} language
+ * @param {unknown} segments
+ * @returns {object | null} 更新後的逐字稿；使用者沒有這支影片的逐字稿時回傳 null
+ * @throws {Error} 沒有有效片段時
+ */
+export function updateTranscriptSegments(userId, videoId, language, segments) {
+  const transcript = getTranscript(userId, videoId);
+  if (!transcript) return null;
+
+  const normalized = normalizeTranscriptSegments(segments);
+  if (normalized.length === 0) {
+    throw new Error('Transcript has no valid segments');
+  }
+
+  const now = Date.now();
+  if (!language || language === transcript.language) {
+    transcript.segments = normalized;
+  } else {
+    transcript.translations[language] = { segments: normalized, updatedAt: now };
+  }
+  transcript.updatedAt = now;
+  persist();
+  return transcript;
+}
+
+/**
+ * 儲存翻譯後的片段
+ * @param {string} userId
+ * @param {string} videoId
+ * @param {string} language
+ * @param {Array<{ start: number, end: number, text: string }>} segments
+ * @returns {object | null} 更新後的逐字稿；使用者沒有這支影片的逐字稿時回傳 null
+ */
+export function setTranscriptTranslation(userId, videoId, language, segments) {
+  const transcript = getTranscript(userId, videoId);
+  if (!transcript) return null;
+
+  const now = Date.now();
+  transcript.translations[language] = { segments: normalizeTranscriptSegments(segments), updatedAt: now };
+  transcript.updatedAt = now;
+  persist();
+
+  console.log(`[Transcript] 已儲存 ${videoId} 的 ${language} 翻譯`);
+  return transcript;
+}
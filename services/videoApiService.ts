@@ -1,6 +1,7 @@
-import type { AppIconName, GeneratedContentType, ProgressCallback } from '../types';
+import type { AppIconName, ArticleGenerationResult, GeneratedContentType, ProgressCallback } from '../types';
 import * as youtubeService from './youtubeService';
 import { executeAsyncTask, pollTaskUntilComplete } from './taskPollingService';
+import type { TaskStatus } from './taskPollingService';
 
 // 從環境變數獲取 API 基址
 // 開發模式使用 localhost:3001，生產模式使用相對路徑（與前端同域）
@@ -21,6 +22,18 @@ const notifyProgress = (callback: ProgressCallback | undefined, icon: AppIconNam
   });
 };
 
+/**
+ * 附上目前的 YouTube token，讓伺服器確認使用者管理此頻道（頻道的規則、快照、異常提醒與報表只開放給頻道管理者）
+ */
+function withChannelAccessToken(init: RequestInit | undefined): RequestInit {
+  const headers = new Headers(init?.headers);
+  const accessToken = youtubeService.getAccessToken();
+  if (accessToken) {
+    headers.set('X-YouTube-Access-Token', accessToken);
+  }
+  return { ...init, headers };
+}
+
 export interface AnalysisResult {
   metadata: GeneratedContentType;
   geminiFileName?: string;
@@ -294,6 +307,7 @@ export async function analyzeUnlistedVideo(
  * @param screenshotQuality 截圖品質 (2=高畫質, 20=壓縮)
  * @param onProgress Optional: progress callback function
  * @param uploadedFiles Optional: uploaded reference files
+ * @param useTranscript 已有逐字稿時以逐字稿取代影片內容（不重新分析影片）
  * @returns 文章生成結果
  */
 export async function generateArticleWithYouTubeUrlAsync(
@@ -306,7 +320,8 @@ export async function generateArticleWithYouTubeUrlAsync(
   templateId: string = 'default',
   referenceUrls: string[] = [],
   referenceVideos: string[] = [],
-  colorTheme: string = 'neutral'
+  colorTheme: string = 'neutral',
+  useTranscript: boolean = false
 ): Promise<any> {
   try {
     console.log(`[API Async] Generating article via YouTube URL (async mode): ${videoId}`);
@@ -343,6 +358,7 @@ export async function generateArticleWithYouTubeUrlAsync(
             colorTheme,
             referenceUrls,
             referenceVideos,
+            useTranscript,
           }),
         });
 
@@ -683,6 +699,59 @@ export async function regenerateScreenshots(
   }
 }
 
+/**
+ * 依截圖時間點擷取畫面（異步版本，可透過 DELETE /api/task/:taskId 取消）
+ * @param videoId YouTube 影片 ID
+ * @param screenshots 截圖時間點
+ * @param screenshotQuality 截圖品質 (2=高畫質, 20=壓縮)
+ * @param onProgress Optional: progress callback function
+ * @param onTaskCreated Optional: 任務建立後回傳 taskId（用於取消）
+ * @returns 截圖結果（image_urls）
+ */
+export async function captureScreenshotsAsync(
+  videoId: string,
+  screenshots: any[],
+  screenshotQuality: number = 2,
+  onProgress?: ProgressCallback,
+  onTaskCreated?: (taskId: string) => void
+): Promise<{ success: boolean; image_urls: string[][]; screenshotsCount: number }> {
+  console.log(`[API Async] Capturing screenshots (async mode): ${videoId}`);
+
+  return await executeAsyncTask(
+    async () => {
+      notifyProgress(onProgress, 'camera', '正在建立截圖任務...');
+
+      const response = await fetch(`${API_BASE_URL}/capture-screenshots-async`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          videoId,
+          screenshots,
+          quality: screenshotQuality,
+        }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.details || error.error || 'Failed to create screenshot task');
+      }
+
+      const data = await response.json();
+      console.log(`[API Async] Task created: ${data.taskId}`);
+      onTaskCreated?.(data.taskId);
+      return { taskId: data.taskId };
+    },
+    {
+      interval: 2000,
+      timeout: 15 * 60 * 1000, // 下載大型影片可能較久
+      onProgress: (progress, message) => {
+        console.log(`[API Async] Progress: ${progress}% - ${message}`);
+        notifyProgress(onProgress, 'camera', message);
+      }
+    }
+  );
+}
+
 /**
  * 使用純網址生成文章（不需要 YouTube 影片）
  * @param url 網址
@@ -760,3 +829,1599 @@ export async function generateArticleFromUrlOnly(
     throw new Error(`文章生成失敗: ${error.message}`);
   }
 }
+
+// ==================== 批次中繼資料生成 ====================
+// 每支影片在後端建立一個 analyze-video-url 任務，由任務隊列依並發上限排程
+
+export interface BatchVideoInput {
+  videoId: string;
+  videoTitle: string;
+}
+
+export interface BatchTaskRef {
+  videoId: string;
+  taskId: string;
+}
+
+export interface BatchTaskStatus {
+  id: string;
+  videoId: string;
+  status: TaskStatus['status'];
+  progress: number;
+  progressMessage: string;
+  queuePosition: number | null;
+  error: string | null;
+  metadata: GeneratedContentType | null;
+  updatedAt: number;
+}
+
+export interface BatchStatus {
+  batchId: string;
+  summary: Record<TaskStatus['status'] | 'total', number>;
+  tasks: BatchTaskStatus[];
+}
+
+/**
+ * 建立批次任務
+ * @param videos - 要生成中繼資料的影片
+ * @param prompt - 所有影片共用的額外提示
+ * @returns 批次 ID 與各影片的任務 ID
+ */
+export async function createMetadataBatch(
+  videos: BatchVideoInput[],
+  prompt = ''
+): Promise<{ batchId: string; tasks: BatchTaskRef[] }> {
+  const response = await fetch(`${API_BASE_URL}/analyze-video-url-batch-async`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ videos, prompt }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.details || error.error || 'Failed to create batch');
+  }
+
+  const data = await response.json();
+  console.log(`[API Batch] Batch ${data.batchId} created (${data.tasks.length} tasks)`);
+  return { batchId: data.batchId, tasks: data.tasks };
+}
+
+/**
+ * 查詢批次狀態（已完成的任務會附上中繼資料建議）
+ * @param batchId - 批次 ID
+ */
+export async function getMetadataBatch(batchId: string): Promise<BatchStatus> {
+  const response = await fetch(`${API_BASE_URL}/task-batch/${batchId}`);
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to get batch status');
+  }
+
+  return response.json();
+}
+
+// ==================== 中繼資料修改紀錄 ====================
+
+export interface MetadataSnapshot {
+  title: string;
+  description: string;
+  tags: string[];
+}
+
+export interface MetadataHistoryEntry {
+  id: string;
+  videoId: string;
+  before: MetadataSnapshot;
+  after: MetadataSnapshot;
+  changedFields: Array<keyof MetadataSnapshot>;
+  author: string | null;
+  source: string | null;
+  trigger: string | null;
+  restoredFrom: string | null;
+  createdAt: number;
+}
+
+/**
+ * 記錄一次中繼資料更新（修改前後的值）
+ */
+export async function recordMetadataChange(change: {
+  videoId: string;
+  before: MetadataSnapshot;
+  after: MetadataSnapshot;
+  source: string;
+  trigger: string;
+  restoredFrom?: string;
+}): Promise<MetadataHistoryEntry> {
+  const response = await fetch(`${API_BASE_URL}/metadata-history`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(change),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.details || error.error || 'Failed to record metadata change');
+  }
+
+  const data = await response.json();
+  return data.entry;
+}
+
+/**
+ * 取得影片的中繼資料修改紀錄（新到舊）
+ * @param videoId - 影片 ID
+ */
+export async function getMetadataHistory(videoId: string): Promise<MetadataHistoryEntry[]> {
+  const response = await fetch(`${API_BASE_URL}/metadata-history/${encodeURIComponent(videoId)}`);
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to get metadata history');
+  }
+
+  const data = await response.json();
+  return data.entries || [];
+}
+
+// ==================== 多語系中繼資料 ====================
+
+export interface MetadataTranslation {
+  title: string;
+  description: string;
+}
+
+export interface MetadataLanguageConfig {
+  sourceLanguage: string;
+  targetLanguages: string[];
+}
+
+export interface MetadataTranslationResult {
+  sourceLanguage: string;
+  /** 語言代碼 -> 翻譯後的標題與說明 */
+  translations: Record<string, MetadataTranslation>;
+  /** AI 未回傳的語言 */
+  missing: string[];
+}
+
+/**
+ * 取得伺服器設定的預設來源語言與目標語言
+ */
+export async function getMetadataLanguageConfig(): Promise<MetadataLanguageConfig> {
+  const response = await fetch(`${API_BASE_URL}/metadata-translations/languages`);
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to get metadata language config');
+  }
+
+  return response.json();
+}
+
+/**
+ * 將標題與說明翻譯成多個語言
+ */
+export async function translateVideoMetadata(request: {
+  title: string;
+  description: string;
+  tags?: string[];
+  languages: string[];
+  sourceLanguage?: string;
+}): Promise<MetadataTranslationResult> {
+  const response = await fetch(`${API_BASE_URL}/metadata-translations`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.details || error.error || 'Failed to translate metadata');
+  }
+
+  return response.json();
+}
+
+// ==================== 逐字稿與字幕 ====================
+
+export interface TranscriptSegment {
+  /** 開始秒數 */
+  start: number;
+  /** 結束秒數 */
+  end: number;
+  text: string;
+}
+
+export interface VideoTranscript {
+  videoId: string;
+  language: string;
+  segments: TranscriptSegment[];
+  /** 語言代碼 -> 翻譯後的片段（沿用原始時間軸） */
+  translations: Record<string, { segments: TranscriptSegment[]; updatedAt: number }>;
+  source: 'gemini-file' | 'youtube-url' | null;
+  createdAt: number;
+  updatedAt: number;
+  updatedBy: string | null;
+}
+
+/**
+ * 取得影片已儲存的逐字稿，尚未產生時回傳 null
+ */
+export async function getVideoTranscript(videoId: string): Promise<VideoTranscript | null> {
+  const response = await fetch(`${API_BASE_URL}/transcripts/${encodeURIComponent(videoId)}`);
+
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to get transcript');
+  }
+
+  return response.json();
+}
+
+/**
+ * 以 Gemini 產生帶時間軸的逐字稿（非同步任務）
+ * 非公開影片需要先分析過一次（影片已上傳到 Gemini Files API）
+ */
+export async function generateVideoTranscript(
+  video: { id: string; title: string; privacyStatus?: string; duration?: string },
+  language?: string,
+  onProgress?: (progress: number, message: string) => void
+): Promise<VideoTranscript> {
+  return executeAsyncTask<VideoTranscript>(
+    async () => {
+      const response = await fetch(`${API_BASE_URL}/transcripts/${encodeURIComponent(video.id)}/generate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          videoTitle: video.title,
+          language,
+          privacyStatus: video.privacyStatus,
+          duration: video.duration,
+        }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.details || error.error || 'Failed to create transcript task');
+      }
+
+      const data = await response.json();
+      return { taskId: data.taskId };
+    },
+    { timeout: 15 * 60 * 1000, onProgress }
+  );
+}
+
+/**
+ * 儲存編輯後的字幕片段（language 為原始語言時更新逐字稿本身，否則更新該語言的翻譯）
+ */
+export async function saveTranscriptSegments(
+  videoId: string,
+  language: string,
+  segments: TranscriptSegment[]
+): Promise<VideoTranscript> {
+  const response = await fetch(`${API_BASE_URL}/transcripts/${encodeURIComponent(videoId)}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ language, segments }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.details || error.error || 'Failed to save transcript');
+  }
+
+  return response.json();
+}
+
+/**
+ * 將逐字稿翻譯成另一個語言（時間軸不變）
+ */
+export async function translateVideoTranscript(
+  videoId: string,
+  language: string
+): Promise<VideoTranscript & { missingCount: number }> {
+  const response = await fetch(`${API_BASE_URL}/transcripts/${encodeURIComponent(videoId)}/translate`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ language }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.details || error.error || 'Failed to translate transcript');
+  }
+
+  return response.json();
+}
+
+// ==================== 標籤研究 ====================
+
+export interface TagSuggestionReason {
+  type: 'search-term' | 'top-video' | 'channel-frequency' | 'ai';
+  message: string;
+}
+
+export interface TagSuggestion {
+  tag: string;
+  /** 0-100，依搜尋字詞、表現最好的影片、頻道使用頻率與 AI 建議加權 */
+  score: number;
+  reasons: TagSuggestionReason[];
+}
+
+export interface TagResearchResult {
+  suggestions: TagSuggestion[];
+  /** 預設勾選的標籤（與影片相關且不超過 500 字元） */
+  recommended: string[];
+  /** AI 標籤中的近似重複 */
+  duplicates: Array<{ tag: string; duplicateOf: string }>;
+  sources: { searchTerms: number; cachedVideos: number; cacheUpdatedAt: string | null };
+  warnings: string[];
+}
+
+/**
+ * 依頻道數據排序 AI 建議的標籤（搜尋字詞需要 YouTube 登入）
+ */
+export async function researchVideoTags(request: {
+  videoId: string;
+  tags: string[];
+  accessToken?: string | null;
+  channelId?: string | null;
+}): Promise<TagResearchResult> {
+  const response = await fetch(`${API_BASE_URL}/tag-research`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.details || error.error || 'Failed to research tags');
+  }
+
+  return response.json();
+}
+
+// ==================== 關鍵字報表工作區 ====================
+
+export interface KeywordWorkspaceInput {
+  name: string;
+  /** name 即標題關鍵字 */
+  keywordGroups: Array<{ name: string }>;
+  /** dateRangeUtils 的設定字串（lastMonth、lastMonthLastYear、202410 等） */
+  dateColumns: Array<{ config: string }>;
+  selectedMetrics: string[];
+  visibility: 'private' | 'shared';
+}
+
+export interface KeywordWorkspace extends KeywordWorkspaceInput {
+  id: string;
+  ownerId: string;
+  isOwner: boolean;
+  clonedFrom: string | null;
+  createdAt: number;
+  updatedAt: number;
+  lastRunAt: number | null;
+  lastRunBy: string | null;
+}
+
+async function requestKeywordWorkspaces<T>(path: string, init: RequestInit | undefined, fallbackMessage: string): Promise<T> {
+  const response = await fetch(`${API_BASE_URL}/keyword-workspaces${path}`, init);
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.details || error.error || fallbackMessage);
+  }
+
+  return response.json();
+}
+
+/**
+ * 列出自己的與其他人共享的關鍵字報表工作區
+ */
+export async function listKeywordWorkspaces(): Promise<KeywordWorkspace[]> {
+  const data = await requestKeywordWorkspaces<{ workspaces: KeywordWorkspace[] }>('', undefined, 'Failed to list workspaces');
+  return data.workspaces;
+}
+
+/**
+ * 建立或更新工作區（workspaceId 為 null 時建立）
+ */
+export async function saveKeywordWorkspace(workspaceId: string | null, input: KeywordWorkspaceInput): Promise<KeywordWorkspace> {
+  const data = await requestKeywordWorkspaces<{ workspace: KeywordWorkspace }>(
+    workspaceId ? `/${encodeURIComponent(workspaceId)}` : '',
+    {
+      method: workspaceId ? 'PUT' : 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input),
+    },
+    'Failed to save workspace'
+  );
+  return data.workspace;
+}
+
+/**
+ * 刪除工作區（只有建立者可以刪除）
+ */
+export async function deleteKeywordWorkspace(workspaceId: string): Promise<void> {
+  await requestKeywordWorkspaces(`/${encodeURIComponent(workspaceId)}`, { method: 'DELETE' }, 'Failed to delete workspace');
+}
+
+/**
+ * 複製工作區成自己的私人工作區
+ */
+export async function cloneKeywordWorkspace(workspaceId: string, name?: string): Promise<KeywordWorkspace> {
+  const data = await requestKeywordWorkspaces<{ workspace: KeywordWorkspace }>(
+    `/${encodeURIComponent(workspaceId)}/clone`,
+    { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ name }) },
+    'Failed to clone workspace'
+  );
+  return data.workspace;
+}
+
+// ==================== 頻道數據歷史快照 ====================
+
+export interface SnapshotMetrics {
+  views: number;
+  estimatedMinutesWatched: number;
+  averageViewDuration: number;
+  averageViewPercentage: number;
+  likes: number;
+  dislikes: number;
+  comments: number;
+  shares: number;
+  subscribersGained: number;
+  subscribersLost: number;
+}
+
+export interface SnapshotCoverage {
+  totalDays: number;
+  syncedDays: number;
+  /** 只記錄了觀看最高影片的天數（不能用來彙總每支影片） */
+  partialDays: number;
+  missingDates: string[];
+  /** 日期範圍內每天都有完整快照 */
+  complete: boolean;
+}
+
+export interface ChannelSnapshotDay extends SnapshotMetrics {
+  date: string;
+  topVideo: { videoId: string; views: number } | null;
+}
+
+export interface ChannelSnapshots {
+  coverage: SnapshotCoverage;
+  days: ChannelSnapshotDay[];
+  totals: SnapshotMetrics;
+}
+
+export interface VideoSnapshots {
+  coverage: SnapshotCoverage;
+  videos: Array<SnapshotMetrics & { videoId: string }>;
+  totals: SnapshotMetrics;
+}
+
+export interface AnalyticsSnapshotStatus {
+  channelId: string;
+  channelDays: number;
+  videoDays: number;
+  firstDate: string | null;
+  lastDate: string | null;
+  videoFirstDate: string | null;
+  videoLastDate: string | null;
+  updatedAt: number | null;
+}
+
+async function requestAnalyticsSnapshots<T>(path: string, init: RequestInit | undefined, fallbackMessage: string): Promise<T> {
+  const response = await fetch(`${API_BASE_URL}/analytics-snapshots/${path}`, withChannelAccessToken(init));
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.details || error.error || fallbackMessage);
+  }
+
+  return response.json();
+}
+
+/**
+ * 取得頻道快照概況（已保存的日期範圍）
+ */
+export async function getAnalyticsSnapshotStatus(channelId: string): Promise<AnalyticsSnapshotStatus> {
+  return requestAnalyticsSnapshots(encodeURIComponent(channelId), undefined, 'Failed to get snapshot status');
+}
+
+/**
+ * 讀取頻道每日數據快照
+ */
+export async function getChannelSnapshots(channelId: string, startDate: string, endDate: string): Promise<ChannelSnapshots> {
+  const query = new URLSearchParams({ startDate, endDate });
+  return requestAnalyticsSnapshots(
+    `${encodeURIComponent(channelId)}/channel?${query}`,
+    undefined,
+    'Failed to read channel snapshots'
+  );
+}
+
+/**
+ * 讀取日期範圍內每支影片的彙總數據快照
+ */
+export async function getVideoSnapshots(channelId: string, startDate: string, endDate: string): Promise<VideoSnapshots> {
+  const query = new URLSearchParams({ startDate, endDate });
+  return requestAnalyticsSnapshots(
+    `${encodeURIComponent(channelId)}/videos?${query}`,
+    undefined,
+    'Failed to read video snapshots'
+  );
+}
+
+/**
+ * 建立快照同步任務（補齊日期範圍內尚未保存的日期），回傳 taskId
+ */
+export async function syncAnalyticsSnapshots(
+  channelId: string,
+  options: { accessToken: string; startDate?: string; endDate?: string; includeVideos?: boolean; force?: boolean }
+): Promise<{ success: boolean; taskId: string; message: string }> {
+  return requestAnalyticsSnapshots(
+    `${encodeURIComponent(channelId)}/sync`,
+    { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(options) },
+    'Failed to start snapshot sync'
+  );
+}
+
+// ==================== 數據異常提醒 ====================
+
+export interface AnomalyAlert {
+  id: string;
+  channelId: string;
+  date: string;
+  scope: 'channel' | 'video';
+  videoId: string | null;
+  /** views、watchTimeMinutes、subscribersNet 或 trafficShare:<來源類型> */
+  metric: string;
+  value: number;
+  expected: number;
+  zScore: number;
+  direction: 'spike' | 'drop';
+  message: string;
+  createdAt: number;
+  readAt: number | null;
+  delivery: { webhook: 'sent' | 'failed'; error?: string; at: number } | null;
+}
+
+export interface AnomalyAlertSettings {
+  channelId: string;
+  enabled: boolean;
+  /** |z| 超過此值才提醒 */
+  threshold: number;
+  includeVideos: boolean;
+  webhookUrl: string;
+  updatedAt?: number;
+  secrets: { webhookSecret: boolean };
+}
+
+export interface AnomalyDetectionResult {
+  checkedDates: string[];
+  detected: number;
+  /** 本次新增的提醒（已提醒過的異常不重複列出） */
+  alerts: AnomalyAlert[];
+  webhook: 'sent' | 'failed' | null;
+}
+
+async function requestAnomalyAlerts<T>(path: string, init: RequestInit | undefined, fallbackMessage: string): Promise<T> {
+  const response = await fetch(`${API_BASE_URL}/anomaly-alerts${path}`, withChannelAccessToken(init));
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.details || error.error || fallbackMessage);
+  }
+
+  return response.json();
+}
+
+/**
+ * 列出異常提醒（由新到舊）
+ */
+export async function getAnomalyAlerts(
+  options: { channelId?: string; unreadOnly?: boolean; limit?: number } = {}
+): Promise<{ alerts: AnomalyAlert[]; unreadCount: number }> {
+  const query = new URLSearchParams();
+  if (options.channelId) query.set('channelId', options.channelId);
+  if (options.unreadOnly) query.set('unreadOnly', 'true');
+  if (options.limit) query.set('limit', String(options.limit));
+  return requestAnomalyAlerts(`?${query}`, undefined, 'Failed to get anomaly alerts');
+}
+
+/**
+ * 標記提醒為已讀（未指定 ids 時標記該頻道全部提醒）
+ */
+export async function markAnomalyAlertsRead(options: { ids?: string[]; channelId?: string }): Promise<{ success: boolean; updated: number }> {
+  return requestAnomalyAlerts(
+    '/read',
+    { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(options) },
+    'Failed to mark alerts as read'
+  );
+}
+
+/**
+ * 取得頻道的提醒設定
+ */
+export async function getAnomalyAlertSettings(channelId: string): Promise<AnomalyAlertSettings> {
+  return requestAnomalyAlerts(`/settings/${encodeURIComponent(channelId)}`, undefined, 'Failed to get alert settings');
+}
+
+/**
+ * 更新頻道的提醒設定（webhookSecret 留空沿用原本的值，null 清除）
+ */
+export async function saveAnomalyAlertSettings(
+  channelId: string,
+  settings: { enabled?: boolean; threshold?: number; includeVideos?: boolean; webhookUrl?: string; webhookSecret?: string | null }
+): Promise<AnomalyAlertSettings> {
+  return requestAnomalyAlerts(
+    `/settings/${encodeURIComponent(channelId)}`,
+    { method: 'PUT', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(settings) },
+    'Failed to save alert settings'
+  );
+}
+
+/**
+ * 送出測試 webhook
+ */
+export async function testAnomalyAlertWebhook(channelId: string): Promise<{ success: boolean; message: string }> {
+  return requestAnomalyAlerts(
+    `/settings/${encodeURIComponent(channelId)}/test`,
+    { method: 'POST' },
+    'Failed to test webhook'
+  );
+}
+
+/**
+ * 立即以已保存的快照偵測異常
+ */
+export async function detectAnomalies(channelId: string): Promise<AnomalyDetectionResult> {
+  return requestAnomalyAlerts(
+    `/detect/${encodeURIComponent(channelId)}`,
+    { method: 'POST' },
+    'Failed to detect anomalies'
+  );
+}
+
+// ==================== 定期報表 ====================
+
+export type ReportSection = 'kpis' | 'topVideos' | 'trafficSources' | 'keywordGroups';
+export type ReportNarrativeType = 'comprehensive' | 'traffic-growth' | 'view-optimization';
+
+export interface ReportDefinitionInput {
+  name: string;
+  channelId: string;
+  /** dateRangeUtils 的設定字串（last7days、lastMonth、202410 等） */
+  datePreset: string;
+  sections: ReportSection[];
+  topVideosLimit: number;
+  keywordGroups: Array<{ name: string; keyword: string }>;
+  narrative: { enabled: boolean; modelType: string; analysisType: ReportNarrativeType };
+  /** cron 表示式（台北時間），空字串為只手動產生 */
+  schedule: string;
+  /** webhookSecret 留空沿用原本的值，null 清除 */
+  delivery: { emails: string[]; webhookUrl: string; webhookSecret?: string | null };
+  enabled: boolean;
+}
+
+export interface ScheduledReport extends Omit<ReportDefinitionInput, 'delivery'> {
+  id: string;
+  delivery: { emails: string[]; webhookUrl: string };
+  nextRunAt: number | null;
+  lastRunAt: number | null;
+  lastRunStatus: 'completed' | 'failed' | null;
+  createdAt: number;
+  createdBy: string;
+  updatedAt: number;
+  secrets: { webhookSecret: boolean };
+}
+
+export interface ReportDeliveryResult {
+  status: 'sent' | 'failed' | 'skipped';
+  error?: string;
+  recipients?: number;
+}
+
+export interface ReportRun {
+  id: string;
+  reportId: string;
+  reportName: string;
+  channelId: string;
+  trigger: 'manual' | 'schedule';
+  status: 'completed' | 'failed';
+  error: string | null;
+  startDate?: string;
+  endDate?: string;
+  warnings?: string[];
+  kpis?: Array<{ key: string; label: string; format: string; value: number; change: number | null }>;
+  delivery: { email?: ReportDeliveryResult; webhook?: ReportDeliveryResult } | null;
+  files: { html: boolean; pdf: boolean };
+  createdAt: number;
+  completedAt: number;
+}
+
+async function requestReports<T>(path: string, init: RequestInit | undefined, fallbackMessage: string): Promise<T> {
+  const response = await fetch(`${API_BASE_URL}${path}`, withChannelAccessToken(init));
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.details || error.error || fallbackMessage);
+  }
+
+  return response.json();
+}
+
+/**
+ * 列出頻道的定期報表（mailConfigured 為伺服器是否已設定 SMTP）
+ */
+export async function listScheduledReports(channelId?: string): Promise<{ reports: ScheduledReport[]; mailConfigured: boolean }> {
+  const query = channelId ? `?channelId=${encodeURIComponent(channelId)}` : '';
+  return requestReports(`/reports${query}`, undefined, 'Failed to list reports');
+}
+
+/**
+ * 建立或更新定期報表（reportId 為 null 時建立）
+ */
+export async function saveScheduledReport(reportId: string | null, definition: ReportDefinitionInput): Promise<ScheduledReport> {
+  const data = await requestReports<{ report: ScheduledReport }>(
+    reportId ? `/reports/${encodeURIComponent(reportId)}` : '/reports',
+    {
+      method: reportId ? 'PUT' : 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(definition),
+    },
+    'Failed to save report'
+  );
+  return data.report;
+}
+
+/**
+ * 刪除定期報表與所有產生紀錄
+ */
+export async function deleteScheduledReport(reportId: string): Promise<void> {
+  await requestReports(`/reports/${encodeURIComponent(reportId)}`, { method: 'DELETE' }, 'Failed to delete report');
+}
+
+/**
+ * 立即產生報表（背景任務，回傳 taskId）
+ */
+export async function runScheduledReport(reportId: string, options: { deliver?: boolean } = {}): Promise<{ taskId: string }> {
+  return requestReports(
+    `/reports/${encodeURIComponent(reportId)}/run`,
+    { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(options) },
+    'Failed to run report'
+  );
+}
+
+/**
+ * 列出報表的產生紀錄（由新到舊）
+ */
+export async function listReportRuns(reportId: string): Promise<ReportRun[]> {
+  const data = await requestReports<{ runs: ReportRun[] }>(
+    `/reports/${encodeURIComponent(reportId)}/runs`,
+    undefined,
+    'Failed to list report runs'
+  );
+  return data.runs;
+}
+
+/**
+ * 下載產生的報表檔案
+ */
+export async function downloadReportRun(runId: string, format: 'html' | 'pdf'): Promise<{ blob: Blob; fileName: string }> {
+  const response = await fetch(`${API_BASE_URL}/report-runs/${encodeURIComponent(runId)}/${format}`);
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.details || error.error || 'Failed to download report');
+  }
+  const disposition = response.headers.get('Content-Disposition') || '';
+  const fileName = disposition.match(/filename="([^"]+)"/)?.[1] || `report.${format}`;
+  return { blob: await response.blob(), fileName };
+}
+
+// ==================== 影片更新優先級規則 ====================
+
+export interface PriorityRuleCondition {
+  metric: string;
+  operator: '<' | '<=' | '>' | '>=';
+  threshold: number;
+}
+
+export interface PriorityRule {
+  id: string;
+  name: string;
+  /** add：符合時加上權重；exclude：符合時分數歸零、不列入建議 */
+  effect: 'add' | 'exclude';
+  weight: number;
+  contentType: 'all' | 'long' | 'short';
+  /** 所有條件都成立才算符合 */
+  conditions: PriorityRuleCondition[];
+  /** 可用 {指標} 帶入影片數值，例如「CTR 過低 ({ctr}%)」 */
+  reasonTemplate: string;
+  enabled?: boolean;
+}
+
+export interface PriorityRuleSet {
+  rules: PriorityRule[];
+  maxResults: number;
+}
+
+export interface SavedPriorityRuleSet extends PriorityRuleSet {
+  isDefault: boolean;
+  updatedAt: number | null;
+  updatedBy: string | null;
+}
+
+export interface PriorityRulePreview {
+  totalVideos: number;
+  daysThreshold: number;
+  fetchedAt: number;
+  rules: Array<{
+    id: string;
+    matchedCount: number;
+    videos: Array<{ videoId: string; title: string; contentType: 'short' | 'long' | null }>;
+  }>;
+  recommendations: Array<{ videoId: string; title: string; priorityScore: number; updateReasons: string[] }>;
+  recommendedCount: number;
+  /** 與目前已儲存的規則相比，新增與移出建議清單的影片 */
+  added: Array<{ videoId: string; title: string }>;
+  removed: Array<{ videoId: string; title: string }>;
+}
+
+async function requestPriorityRules<T>(path: string, init: RequestInit | undefined, fallbackMessage: string): Promise<T> {
+  const response = await fetch(`${API_BASE_URL}/priority-rules/${path}`, withChannelAccessToken(init));
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.details || error.error || fallbackMessage);
+  }
+
+  return response.json();
+}
+
+/**
+ * 取得頻道的優先級規則（未自訂時為預設規則）
+ */
+export async function getPriorityRules(channelId: string): Promise<SavedPriorityRuleSet> {
+  return requestPriorityRules(encodeURIComponent(channelId), undefined, 'Failed to get priority rules');
+}
+
+/**
+ * 儲存頻道的優先級規則
+ */
+export async function savePriorityRules(channelId: string, ruleSet: PriorityRuleSet): Promise<SavedPriorityRuleSet> {
+  return requestPriorityRules(
+    encodeURIComponent(channelId),
+    { method: 'PUT', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(ruleSet) },
+    'Failed to save priority rules'
+  );
+}
+
+/**
+ * 恢復預設規則
+ */
+export async function resetPriorityRules(channelId: string): Promise<SavedPriorityRuleSet> {
+  return requestPriorityRules(encodeURIComponent(channelId), { method: 'DELETE' }, 'Failed to reset priority rules');
+}
+
+/**
+ * 以最近一次影片表現分析的數據預覽規則（儲存前確認每條規則會標記哪些影片）
+ */
+export async function previewPriorityRules(channelId: string, ruleSet: PriorityRuleSet): Promise<PriorityRulePreview> {
+  return requestPriorityRules(
+    `${encodeURIComponent(channelId)}/preview`,
+    { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(ruleSet) },
+    'Failed to preview priority rules'
+  );
+}
+
+/**
+ * 以已儲存的規則重新排序最近一次的分析數據
+ */
+export async function getPriorityRecommendations<T = any>(
+  channelId: string
+): Promise<{ success: boolean; totalVideos: number; recommendations: T[] }> {
+  return requestPriorityRules(
+    `${encodeURIComponent(channelId)}/recommendations`,
+    undefined,
+    'Failed to apply priority rules'
+  );
+}
+
+// ==================== 標題 A/B 輪替實驗 ====================
+
+export interface TitleExperimentVariant {
+  label: string;
+  title: string;
+}
+
+export interface TitleExperimentWindow {
+  variantIndex: number;
+  title: string;
+  startedAt: number;
+  endedAt: number | null;
+}
+
+export interface TitleExperimentVariantResult {
+  variantIndex: number;
+  label: string;
+  title: string;
+  liveHours: number;
+  coveredHours: number;
+  views: number;
+  impressions: number;
+  clicks: number;
+  ctr: number | null;
+  viewsPerDay: number | null;
+}
+
+export interface TitleExperimentReport {
+  generatedAt: number;
+  metric: 'ctr' | 'viewsPerDay';
+  winnerIndex: number | null;
+  note: string;
+  dataThrough: string | null;
+  variants: TitleExperimentVariantResult[];
+}
+
+export interface TitleExperiment {
+  id: string;
+  videoId: string;
+  originalTitle: string;
+  variants: TitleExperimentVariant[];
+  rotationHours: number;
+  cycles: number;
+  plan: number[];
+  windows: TitleExperimentWindow[];
+  status: 'scheduled' | 'running' | 'completed' | 'cancelled';
+  nextRotationAt: number | null;
+  createdAt: number;
+  completedAt: number | null;
+  report: TitleExperimentReport | null;
+}
+
+export interface TitleRotation {
+  experimentId: string;
+  videoId: string;
+  variantIndex: number;
+  title: string;
+}
+
+const readExperimentError = async (response: Response, fallback: string) => {
+  const error = await response.json().catch(() => ({}));
+  return new Error(error.details || error.error || fallback);
+};
+
+/**
+ * 建立標題輪替實驗
+ */
+export async function createTitleExperiment(params: {
+  videoId: string;
+  originalTitle: string;
+  variants: TitleExperimentVariant[];
+  rotationHours: number;
+  cycles: number;
+}): Promise<TitleExperiment> {
+  const response = await fetch(`${API_BASE_URL}/title-experiments`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(params),
+  });
+  if (!response.ok) throw await readExperimentError(response, 'Failed to create experiment');
+  const data = await response.json();
+  return data.experiment;
+}
+
+/**
+ * 列出自己的標題實驗（可只列出指定影片）
+ */
+export async function listTitleExperiments(videoId?: string): Promise<TitleExperiment[]> {
+  const query = videoId ? `?videoId=${encodeURIComponent(videoId)}` : '';
+  const response = await fetch(`${API_BASE_URL}/title-experiments${query}`);
+  if (!response.ok) throw await readExperimentError(response, 'Failed to list experiments');
+  const data = await response.json();
+  return data.experiments || [];
+}
+
+/**
+ * 取得現在該輪替的標題
+ */
+export async function getDueTitleRotations(): Promise<TitleRotation[]> {
+  const response = await fetch(`${API_BASE_URL}/title-experiments/due`);
+  if (!response.ok) throw await readExperimentError(response, 'Failed to get due rotations');
+  const data = await response.json();
+  return data.rotations || [];
+}
+
+/**
+ * 回報標題已在 YouTube 上線
+ */
+export async function recordTitleExperimentWindow(experimentId: string, variantIndex: number): Promise<TitleExperiment> {
+  const response = await fetch(`${API_BASE_URL}/title-experiments/${experimentId}/windows`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ variantIndex }),
+  });
+  if (!response.ok) throw await readExperimentError(response, 'Failed to record rotation');
+  const data = await response.json();
+  return data.experiment;
+}
+
+/**
+ * 提前結束實驗
+ */
+export async function stopTitleExperiment(experimentId: string): Promise<TitleExperiment> {
+  const response = await fetch(`${API_BASE_URL}/title-experiments/${experimentId}/stop`, { method: 'POST' });
+  if (!response.ok) throw await readExperimentError(response, 'Failed to stop experiment');
+  const data = await response.json();
+  return data.experiment;
+}
+
+/**
+ * 以 YouTube Analytics 數據產生實驗報表
+ */
+export async function getTitleExperimentReport(
+  experimentId: string,
+  accessToken: string,
+  channelId: string
+): Promise<TitleExperimentReport> {
+  const response = await fetch(`${API_BASE_URL}/title-experiments/${experimentId}/report`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ accessToken, channelId }),
+  });
+  if (!response.ok) throw await readExperimentError(response, 'Failed to build experiment report');
+  const data = await response.json();
+  return data.report;
+}
+
+// ==================== AI 用量與預算 ====================
+
+export interface AIUsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+  /** 查不到單價、未計入 costUsd 的呼叫數 */
+  unpricedCalls: number;
+}
+
+export interface AIUsageBreakdown {
+  totals: AIUsageTotals;
+  byFeature: Record<string, AIUsageTotals>;
+  byModel: Record<string, AIUsageTotals>;
+  byUser: Record<string, AIUsageTotals>;
+}
+
+export interface AIUsageEntry {
+  id: string;
+  userId: string | null;
+  feature: string;
+  model: string;
+  provider: string | null;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number | null;
+  costSource: 'provider' | 'estimate' | 'unknown';
+  createdAt: number;
+}
+
+export interface AIBudgetStatus {
+  budget: { dailyUsd: number | null; monthlyUsd: number | null; isCustom: boolean };
+  dailySpentUsd: number;
+  monthlySpentUsd: number;
+  exceeded: 'daily' | 'monthly' | null;
+}
+
+export interface AIUsageSummary {
+  today: AIUsageBreakdown & { date: string };
+  month: AIUsageBreakdown & { month: string };
+  daily: Array<AIUsageTotals & { date: string }>;
+  recent: AIUsageEntry[];
+}
+
+export interface AIBudgetList {
+  defaults: { dailyUsd: number | null; monthlyUsd: number | null };
+  users: Record<string, { dailyUsd: number | null; monthlyUsd: number | null; updatedAt: number }>;
+  canManage: boolean;
+}
+
+/**
+ * 取得 AI 用量統計與目前使用者的預算狀態
+ * @param scope - me：只看自己；all：所有使用者（僅限 AI_BUDGET_ADMINS）
+ */
+export async function getAIUsageSummary(
+  scope: 'all' | 'me' = 'me',
+  days = 30
+): Promise<{ summary: AIUsageSummary; budget: AIBudgetStatus }> {
+  const response = await fetch(`${API_BASE_URL}/ai-usage/summary?scope=${scope}&days=${days}`);
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.details || error.error || 'Failed to get AI usage summary');
+  }
+
+  const data = await response.json();
+  return { summary: data.summary, budget: data.budget };
+}
+
+/**
+ * 列出預算設定
+ */
+export async function getAIBudgets(): Promise<AIBudgetList> {
+  const response = await fetch(`${API_BASE_URL}/ai-usage/budgets`);
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.details || error.error || 'Failed to get AI budgets');
+  }
+
+  const data = await response.json();
+  return { defaults: data.defaults, users: data.users || {}, canManage: Boolean(data.canManage) };
+}
+
+/**
+ * 設定使用者的個人預算（reset 為 true 時改回預設預算）
+ */
+export async function setAIBudget(
+  userId: string,
+  budget: { dailyUsd: number | null; monthlyUsd: number | null } | { reset: true }
+): Promise<void> {
+  const response = await fetch(`${API_BASE_URL}/ai-usage/budgets/${encodeURIComponent(userId)}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(budget),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.details || error.error || 'Failed to update AI budget');
+  }
+}
+
+// ==================== 文章草稿 ====================
+
+export type ArticleDraftSource =
+  | 'generate'
+  | 'regenerate-screenshots'
+  | 'capture-screenshots'
+  | 'restore'
+  | 'local-migration';
+
+export interface ArticleDraftVideo {
+  id: string;
+  title: string;
+  isUrlOnly?: boolean;
+}
+
+export interface ArticleDraftRevision {
+  id: string;
+  savedAt: number;
+  source: ArticleDraftSource;
+  templateId: string;
+  colorTheme: string;
+  customPrompt: string;
+  referenceUrls: string[];
+  referenceVideos: string[];
+  restoredFrom: string | null;
+  result: ArticleGenerationResult;
+}
+
+export interface ArticleDraftSummary {
+  videoId: string;
+  video: ArticleDraftVideo;
+  createdAt: number;
+  updatedAt: number;
+  revisionCount: number;
+  latestRevisionId: string | null;
+  latestTitle: string;
+  /** 發佈到 Notion 的頁面（重新發佈時更新同一頁面） */
+  notion?: ArticleNotionPage | null;
+}
+
+export interface ArticleNotionPage {
+  pageId: string;
+  url: string;
+  databaseId: string;
+  /** 發佈完成時頁面的 last_edited_time，用於判斷頁面之後是否被修改 */
+  lastEditedTime: string;
+  publishedAt: number;
+}
+
+export interface ArticleDraftDetail extends ArticleDraftSummary {
+  /** 新到舊 */
+  revisions: ArticleDraftRevision[];
+}
+
+async function readDraftError(response: Response, fallback: string): Promise<Error> {
+  const error = await response.json().catch(() => ({}));
+  return new Error(error.details || error.error || fallback);
+}
+
+/**
+ * 列出目前使用者的文章草稿
+ */
+export async function listArticleDrafts(): Promise<ArticleDraftSummary[]> {
+  const response = await fetch(`${API_BASE_URL}/article-drafts`);
+  if (!response.ok) throw await readDraftError(response, 'Failed to list article drafts');
+  const data = await response.json();
+  return data.drafts || [];
+}
+
+/**
+ * 取得單篇草稿與所有版本
+ */
+export async function getArticleDraft(videoId: string): Promise<ArticleDraftDetail | null> {
+  const response = await fetch(`${API_BASE_URL}/article-drafts/${encodeURIComponent(videoId)}`);
+  if (response.status === 404) return null;
+  if (!response.ok) throw await readDraftError(response, 'Failed to get article draft');
+  const data = await response.json();
+  return data.draft;
+}
+
+/**
+ * 新增草稿版本（內容與最新版本相同時伺服器不會重複新增）
+ */
+export async function saveArticleDraftRevision(draft: {
+  video: ArticleDraftVideo;
+  result: ArticleGenerationResult;
+  templateId: string;
+  colorTheme: string;
+  customPrompt: string;
+  referenceUrls: string[];
+  referenceVideos: string[];
+  source: ArticleDraftSource;
+  savedAt?: string;
+}): Promise<{ draft: ArticleDraftSummary; revision: ArticleDraftRevision; created: boolean }> {
+  const response = await fetch(`${API_BASE_URL}/article-drafts`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(draft),
+  });
+  if (!response.ok) throw await readDraftError(response, 'Failed to save article draft');
+  const data = await response.json();
+  return { draft: data.draft, revision: data.revision, created: data.created };
+}
+
+/**
+ * 將指定版本還原為最新版本
+ */
+export async function restoreArticleDraftRevision(videoId: string, revisionId: string): Promise<ArticleDraftRevision> {
+  const response = await fetch(
+    `${API_BASE_URL}/article-drafts/${encodeURIComponent(videoId)}/revisions/${encodeURIComponent(revisionId)}/restore`,
+    { method: 'POST' }
+  );
+  if (!response.ok) throw await readDraftError(response, 'Failed to restore draft revision');
+  const data = await response.json();
+  return data.revision;
+}
+
+/**
+ * 刪除整篇草稿（含所有版本）
+ */
+export async function deleteArticleDraft(videoId: string): Promise<void> {
+  const response = await fetch(`${API_BASE_URL}/article-drafts/${encodeURIComponent(videoId)}`, { method: 'DELETE' });
+  if (!response.ok) throw await readDraftError(response, 'Failed to delete article draft');
+}
+
+// ==================== 文章審稿 ====================
+
+export type ArticleReviewStatus = 'draft' | 'in_review' | 'approved' | 'published';
+
+export interface ArticleReviewComment {
+  id: string;
+  sectionIndex: number;
+  sectionHeading: string;
+  quote: string;
+  body: string;
+  author: string;
+  createdAt: number;
+  resolved: boolean;
+  resolvedBy: string | null;
+}
+
+export interface ArticleReviewHistoryEntry {
+  status: ArticleReviewStatus;
+  by: string;
+  note: string | null;
+  at: number;
+}
+
+export interface ArticleReviewPublication {
+  target: string;
+  url: string | null;
+  pageId: string | null;
+  by: string;
+  at: number;
+}
+
+export interface ArticleReviewSummary {
+  videoId: string;
+  video: ArticleDraftVideo;
+  owner: string;
+  status: ArticleReviewStatus;
+  title: string;
+  openComments: number;
+  createdAt: number;
+  updatedAt: number;
+  published: ArticleReviewPublication | null;
+}
+
+export interface ArticleReview {
+  videoId: string;
+  video: ArticleDraftVideo;
+  owner: string;
+  status: ArticleReviewStatus;
+  content: ArticleGenerationResult;
+  revisionId: string | null;
+  comments: ArticleReviewComment[];
+  history: ArticleReviewHistoryEntry[];
+  published: ArticleReviewPublication | null;
+  notion?: ArticleNotionPage | null;
+  createdAt: number;
+  updatedAt: number;
+}
+
+async function readReviewError(response: Response, fallback: string): Promise<Error> {
+  const error = await response.json().catch(() => ({}));
+  return new Error(error.details || error.error || fallback);
+}
+
+/**
+ * 列出審稿佇列（所有使用者共用）
+ */
+export async function listArticleReviews(status?: ArticleReviewStatus): Promise<ArticleReviewSummary[]> {
+  const query = status ? `?status=${status}` : '';
+  const response = await fetch(`${API_BASE_URL}/article-reviews${query}`);
+  if (!response.ok) throw await readReviewError(response, 'Failed to list article reviews');
+  const data = await response.json();
+  return data.reviews || [];
+}
+
+/**
+ * 取得文章的審稿紀錄，尚未送審時回傳 null
+ */
+export async function getArticleReview(videoId: string): Promise<{ review: ArticleReview; canApprove: boolean } | null> {
+  const response = await fetch(`${API_BASE_URL}/article-reviews/${encodeURIComponent(videoId)}`);
+  if (response.status === 404) return null;
+  if (!response.ok) throw await readReviewError(response, 'Failed to get article review');
+  const data = await response.json();
+  return { review: data.review, canApprove: Boolean(data.canApprove) };
+}
+
+/**
+ * 送出（或重新送出）文章審稿
+ */
+export async function submitArticleForReview(
+  video: ArticleDraftVideo,
+  result: ArticleGenerationResult,
+  revisionId?: string
+): Promise<ArticleReview> {
+  const response = await fetch(`${API_BASE_URL}/article-reviews`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ video, result, revisionId }),
+  });
+  if (!response.ok) throw await readReviewError(response, 'Failed to submit article for review');
+  const data = await response.json();
+  return data.review;
+}
+
+/**
+ * 變更審稿狀態（approved：核准；draft：退回修改或撤銷核准）
+ */
+export async function updateArticleReviewStatus(
+  videoId: string,
+  status: Exclude<ArticleReviewStatus, 'published' | 'in_review'>,
+  note?: string
+): Promise<ArticleReview> {
+  const response = await fetch(`${API_BASE_URL}/article-reviews/${encodeURIComponent(videoId)}/status`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ status, note }),
+  });
+  if (!response.ok) throw await readReviewError(response, 'Failed to update review status');
+  const data = await response.json();
+  return data.review;
+}
+
+/**
+ * 新增段落留言
+ */
+export async function addArticleReviewComment(
+  videoId: string,
+  comment: { sectionIndex: number; sectionHeading: string; quote?: string; body: string }
+): Promise<ArticleReviewComment> {
+  const response = await fetch(`${API_BASE_URL}/article-reviews/${encodeURIComponent(videoId)}/comments`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(comment),
+  });
+  if (!response.ok) throw await readReviewError(response, 'Failed to add comment');
+  const data = await response.json();
+  return data.comment;
+}
+
+/**
+ * 標記留言為已解決／重新開啟
+ */
+export async function setArticleReviewCommentResolved(
+  videoId: string,
+  commentId: string,
+  resolved: boolean
+): Promise<ArticleReviewComment> {
+  const response = await fetch(
+    `${API_BASE_URL}/article-reviews/${encodeURIComponent(videoId)}/comments/${encodeURIComponent(commentId)}`,
+    {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ resolved }),
+    }
+  );
+  if (!response.ok) throw await readReviewError(response, 'Failed to update comment');
+  const data = await response.json();
+  return data.comment;
+}
+
+// ==================== 文章匯出 ====================
+
+export type ArticleExportFormat = 'markdown' | 'html' | 'wxr';
+
+/**
+ * 匯出文章為檔案（Markdown、HTML 壓縮包或 WordPress WXR）
+ */
+export async function exportArticle(
+  format: ArticleExportFormat,
+  video: ArticleDraftVideo,
+  result: ArticleGenerationResult
+): Promise<{ blob: Blob; fileName: string }> {
+  const response = await fetch(`${API_BASE_URL}/article-export/${format}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ video, result }),
+  });
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.details || error.error || 'Failed to export article');
+  }
+  const disposition = response.headers.get('Content-Disposition') || '';
+  const fileName = disposition.match(/filename="([^"]+)"/)?.[1] || `${video.id}.${format}`;
+  return { blob: await response.blob(), fileName };
+}
+
+// ==================== 發佈目標（WordPress / Webhook）====================
+
+export type PublishTargetType = 'wordpress' | 'webhook';
+
+export interface WordPressTargetConfig {
+  siteUrl: string;
+  username: string;
+  applicationPassword?: string;
+  status?: 'draft' | 'pending' | 'publish';
+}
+
+export interface WebhookTargetConfig {
+  url: string;
+  secret?: string;
+  embedImages?: boolean;
+}
+
+export type PublishTargetConfig = WordPressTargetConfig | WebhookTargetConfig;
+
+export interface PublishTarget {
+  id: string;
+  type: PublishTargetType;
+  name: string;
+  /** 不含機密欄位（應用程式密碼、簽章金鑰） */
+  config: Partial<WordPressTargetConfig & WebhookTargetConfig>;
+  /** 機密欄位是否已設定 */
+  secrets: Record<string, boolean>;
+  createdAt: number;
+  updatedAt: number;
+  lastPublishedAt: number | null;
+}
+
+export interface PublishArticlePayload {
+  videoId: string;
+  title: string;
+  article: string;
+  seoDescription?: string;
+  videoUrl?: string;
+  screenshotPlan?: Array<{ timestamp: string; reason: string }>;
+  imageUrls?: string[][];
+}
+
+async function readPublishTargetError(response: Response, fallback: string): Promise<Error> {
+  const error = await response.json().catch(() => ({}));
+  return new Error(error.details || error.error || fallback);
+}
+
+/**
+ * 列出目前使用者的發佈目標
+ */
+export async function listPublishTargets(): Promise<PublishTarget[]> {
+  const response = await fetch(`${API_BASE_URL}/publish-targets`);
+  if (!response.ok) throw await readPublishTargetError(response, 'Failed to list publish targets');
+  const data = await response.json();
+  return data.targets;
+}
+
+/**
+ * 新增發佈目標
+ */
+export async function createPublishTarget(input: {
+  type: PublishTargetType;
+  name?: string;
+  config: PublishTargetConfig;
+}): Promise<PublishTarget> {
+  const response = await fetch(`${API_BASE_URL}/publish-targets`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input),
+  });
+  if (!response.ok) throw await readPublishTargetError(response, 'Failed to create publish target');
+  const data = await response.json();
+  return data.target;
+}
+
+/**
+ * 更新發佈目標（機密欄位留空時沿用原本的值）
+ */
+export async function updatePublishTarget(
+  targetId: string,
+  input: { name?: string; config?: Partial<PublishTargetConfig> }
+): Promise<PublishTarget> {
+  const response = await fetch(`${API_BASE_URL}/publish-targets/${encodeURIComponent(targetId)}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input),
+  });
+  if (!response.ok) throw await readPublishTargetError(response, 'Failed to update publish target');
+  const data = await response.json();
+  return data.target;
+}
+
+/**
+ * 刪除發佈目標
+ */
+export async function deletePublishTarget(targetId: string): Promise<void> {
+  const response = await fetch(`${API_BASE_URL}/publish-targets/${encodeURIComponent(targetId)}`, {
+    method: 'DELETE',
+  });
+  if (!response.ok) throw await readPublishTargetError(response, 'Failed to delete publish target');
+}
+
+/**
+ * 測試發佈目標連線
+ */
+export async function testPublishTarget(targetId: string): Promise<string> {
+  const response = await fetch(`${API_BASE_URL}/publish-targets/${encodeURIComponent(targetId)}/test`, {
+    method: 'POST',
+  });
+  if (!response.ok) throw await readPublishTargetError(response, 'Connection test failed');
+  const data = await response.json();
+  return data.message;
+}
+
+/**
+ * 發佈文章到指定目標（文章需已通過審稿）
+ */
+export async function publishArticleToTarget(
+  targetId: string,
+  payload: PublishArticlePayload
+): Promise<{ id: string | number | null; url: string | null; review: ArticleReview | null }> {
+  const response = await fetch(`${API_BASE_URL}/publish-targets/${encodeURIComponent(targetId)}/publish`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload),
+  });
+  if (!response.ok) throw await readPublishTargetError(response, 'Failed to publish article');
+  const data = await response.json();
+  return { id: data.id, url: data.url, review: data.review ?? null };
+}
@@ -0,0 +1,108 @@
+/**
+ * Webhook 通知（異常提醒、定期報表共用）
+ * 格式與 WebhookPublisher 相同：JSON POST，設定 secret 時以 HMAC-SHA256 簽署 body，放在 X-Signature-256 標頭
+ * 網址由使用者設定，預設不允許送到本機、私有網段與 link-local 位址，也不把對方的回應內容回傳給前端
+ */
+
+import crypto from 'crypto';
+import dns from 'dns';
+import net from 'net';
+
+const REQUEST_TIMEOUT_MS = 30000;
+
+// 自架在內網的接收端（例如 n8n）可設定 WEBHOOK_ALLOW_PRIVATE_NETWORK=true 放行
+const ALLOW_PRIVATE_NETWORK = process.env.WEBHOOK_ALLOW_PRIVATE_NETWORK === 'true';
+
+const BLOCKED_ADDRESSES = new net.BlockList();
+for (const [address, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+]) {
+  BLOCKED_ADDRESSES.addSubnet(address, prefix, 'ipv4');
+}
+for (const [address, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+]) {
+  BLOCKED_ADDRESSES.addSubnet(address, prefix, 'ipv6');
+}
+
+/**
+ * 位址是否屬於本機、私有網段或 link-local（IPv4-mapped IPv6 以 IPv4 判斷）
+ * @param {string} address
+ * @returns {boolean}
+ */
+export function isPrivateNetworkAddress(address) {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) return BLOCKED_ADDRESSES.check(mapped[1], 'ipv4');
+  const family = net.isIP(address);
+  if (family === 0) return true;
+  return BLOCKED_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+/**
+ * 檢查 webhook 網址：只接受 http(s)，且主機解析後不能是內部網路位址
+ * @param {string} url
+ * @throws {Error} 網址不正確或指向內部網路時
+ */
+async function assertDeliverableUrl(url) {
+  let parsed;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error('Webhook 網址格式不正確');
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new Error('Webhook 網址需為 http(s) URL');
+  }
+  if (ALLOW_PRIVATE_NETWORK) return;
+
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, '');
+  const addresses = net.isIP(hostname)
+    ? [hostname]
+    : (await dns.promises.lookup(hostname, { all: true, verbatim: true })).map((entry) => entry.address);
+  if (addresses.length === 0 || addresses.some(isPrivateNetworkAddress)) {
+    throw new Error('Webhook 網址不可指向本機或內部網路位址');
+  }
+}
+
+/**
+ * 送出 webhook
+ * @param {string} url
+ * @param {string | undefined} secret
+ * @param {object} payload
+ * @throws {Error} 網址指向內部網路、逾時或回應非 2xx 時（訊息只含狀態碼）
+ */
+export async function postSignedWebhook(url, secret, payload) {
+  await assertDeliverableUrl(url);
+
+  const body = JSON.stringify(payload);
+  const headers = { 'Content-Type': 'application/json', 'User-Agent': 'ai-video-writer-webhook' };
+  if (secret) {
+    headers['X-Signature-256'] = `sha256=${crypto.createHmac('sha256', secret).update(body).digest('hex')}`;
+  }
+
+  // 不跟隨轉址，避免經由轉址繞過上面的位址檢查
+  const response = await fetch(url, {
+    method: 'POST',
+    headers,
+    body,
+    redirect: 'manual',
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+  await response.body?.cancel();
+  if (!response.ok) {
+    throw new Error(`Webhook 回應錯誤: ${response.status}`);
+  }
+}
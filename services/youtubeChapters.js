@@ -0,0 +1,187 @@
+/**
+ * YouTube 章節（影片說明中的時間軸）解析、驗證與合併
+ *
+ * 注意：此檔案使用 .js 格式，讓 server.js 與前端元件共用同一套規則
+ * YouTube 規則：第一個章節從 0:00 開始、至少 3 個章節、每個章節至少 10 秒
+ */
+
+export const MIN_CHAPTER_COUNT = 3;
+export const MIN_CHAPTER_SECONDS = 10;
+export const CHAPTER_HEADING = '📍 章節導覽';
+
+// 說明中的章節行：可帶 "-" 等清單符號，時間後接章節名稱
+const CHAPTER_LINE_PATTERN = /^\s*(?:[-•*]\s*)?((?:\d{1,2}:)?\d{1,2}:\d{2})\s*(?:[-–—|:]\s*)?(.*)$/;
+
+/**
+ * 將 ISO 8601 duration（例如 PT1H2M3S）轉為秒數
+ * @param {string} [duration]
+ * @returns {number | null} 無法解析時回傳 null
+ */
+export function parseIsoDurationSeconds(duration) {
+  const match = typeof duration === 'string' ? duration.match(/^P(?:(\d+)D)?T?(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?$/) : null;
+  if (!match) return null;
+  const [, days, hours, minutes, seconds] = match.map((value) => parseInt(value || '0', 10));
+  return days * 86400 + hours * 3600 + minutes * 60 + seconds;
+}
+
+/**
+ * 將 "1:02:03"、"02:03" 轉為秒數
+ * @param {string} timestamp
+ * @returns {number | null}
+ */
+export function parseChapterTimestamp(timestamp) {
+  const parts = String(timestamp || '').trim().split(':');
+  if (parts.length < 2 || parts.length > 3 || parts.some((part) => !/^\d{1,2}$/.test(part))) {
+    return null;
+  }
+  const numbers = parts.map((part) => parseInt(part, 10));
+  // 分、秒不能超過 59（小時位以外）
+  if (numbers.slice(1).some((value) => value > 59)) return null;
+  return numbers.reduce((total, value) => total * 60 + value, 0);
+}
+
+/**
+ * 秒數轉為章節時間；影片超過一小時時統一使用 H:MM:SS
+ * @param {number} seconds
+ * @param {number | null} [durationSeconds]
+ * @returns {string}
+ */
+export function formatChapterTimestamp(seconds, durationSeconds) {
+  const total = Math.max(0, Math.floor(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = String(total % 60).padStart(2, '0');
+  if (hours > 0 || (durationSeconds ?? 0) >= 3600) {
+    return `${hours}:${String(minutes).padStart(2, '0')}:${secs}`;
+  }
+  return `${String(minutes).padStart(2, '0')}:${secs}`;
+}
+
+/**
+ * 從影片說明擷取章節
+ * @param {string} description
+ * @returns {Array<{ startSeconds: number, title: string }>}
+ */
+export function extractChaptersFromDescription(description) {
+  const chapters = [];
+  for (const line of String(description || '').split('\n')) {
+    const match = line.match(CHAPTER_LINE_PATTERN);
+    if (!match) continue;
+    const startSeconds = parseChapterTimestamp(match[1]);
+    if (startSeconds === null) continue;
+    chapters.push({ startSeconds, title: match[2].trim() });
+  }
+  return chapters;
+}
+
+/**
+ * 整理 AI 回傳的章節（接受 { timestamp, title } 或 { startSeconds, title }），依時間排序
+ * @param {unknown} rawChapters
+ * @returns {Array<{ startSeconds: number, title: string }>}
+ */
+export function normalizeChapters(rawChapters) {
+  if (!Array.isArray(rawChapters)) return [];
+  return rawChapters
+    .map((chapter) => {
+      if (!chapter || typeof chapter !== 'object') return null;
+      const startSeconds =
+        typeof chapter.startSeconds === 'number'
+          ? Math.max(0, Math.floor(chapter.startSeconds))
+          : parseChapterTimestamp(chapter.timestamp ?? chapter.time);
+      if (startSeconds === null || !Number.isFinite(startSeconds)) return null;
+      return { startSeconds, title: String(chapter.title ?? '').trim() };
+    })
+    .filter(Boolean)
+    .sort((a, b) => a.startSeconds - b.startSeconds);
+}
+
+/**
+ * 為 metadata 補上結構化章節：優先使用 AI 回傳的 chapters，否則從說明擷取
+ * @template {{ description?: string, chapters?: unknown }} T
+ * @param {T} metadata
+ * @returns {T & { chapters: Array<{ startSeconds: number, title: string }> }}
+ */
+export function attachMetadataChapters(metadata) {
+  const chapters = normalizeChapters(metadata?.chapters);
+  return {
+    ...metadata,
+    chapters: chapters.length > 0 ? chapters : extractChaptersFromDescription(metadata?.description),
+  };
+}
+
+/**
+ * 依 YouTube 章節規則驗證
+ * @param {Array<{ startSeconds: number, title: string }>} chapters
+ * @param {number | null} [durationSeconds] - 影片長度（秒），未知時略過長度相關檢查
+ * @returns {{ valid: boolean, issues: Array<{ index: number | null, message: string }> }}
+ */
+export function validateChapters(chapters, durationSeconds) {
+  const issues = [];
+  const list = Array.isArray(chapters) ? chapters : [];
+
+  if (list.length < MIN_CHAPTER_COUNT) {
+    issues.push({ index: null, message: `至少需要 ${MIN_CHAPTER_COUNT} 個章節（目前 ${list.length} 個）` });
+  }
+  if (list.length > 0 && list[0].startSeconds !== 0) {
+    issues.push({ index: 0, message: '第一個章節必須從 0:00 開始' });
+  }
+
+  list.forEach((chapter, index) => {
+    if (!chapter.title) {
+      issues.push({ index, message: '章節名稱不能空白' });
+    }
+    const next = list[index + 1];
+    if (next && next.startSeconds <= chapter.startSeconds) {
+      issues.push({ index: index + 1, message: '章節時間必須依序遞增' });
+      return;
+    }
+    const end = next ? next.startSeconds : durationSeconds;
+    if (typeof end === 'number' && chapter.startSeconds < end && end - chapter.startSeconds < MIN_CHAPTER_SECONDS) {
+      issues.push({ index, message: `章節長度至少 ${MIN_CHAPTER_SECONDS} 秒` });
+    }
+    if (typeof durationSeconds === 'number' && chapter.startSeconds >= durationSeconds) {
+      issues.push({ index, message: `超出影片長度（${formatChapterTimestamp(durationSeconds, durationSeconds)}）` });
+    }
+  });
+
+  return { valid: issues.length === 0, issues };
+}
+
+/**
+ * 以章節取代說明中原有的時間軸；說明中沒有章節時，加在結尾的 hashtag 之前
+ * @param {string} description
+ * @param {Array<{ startSeconds: number, title: string }>} chapters
+ * @param {number | null} [durationSeconds]
+ * @returns {string}
+ */
+export function mergeChaptersIntoDescription(description, chapters, durationSeconds) {
+  const chapterLines = chapters.map(
+    (chapter) => `${formatChapterTimestamp(chapter.startSeconds, durationSeconds)} ${chapter.title}`.trim()
+  );
+  const lines = String(description || '').split('\n');
+  const isChapterLine = (line) => {
+    const match = line.match(CHAPTER_LINE_PATTERN);
+    return Boolean(match && parseChapterTimestamp(match[1]) !== null);
+  };
+
+  const firstIndex = lines.findIndex(isChapterLine);
+  if (firstIndex !== -1) {
+    // 原有的章節行全部移除，新章節放在第一個章節行的位置
+    const remaining = lines.filter((line) => !isChapterLine(line));
+    remaining.splice(firstIndex, 0, ...chapterLines);
+    return remaining.join('\n');
+  }
+
+  const block = [CHAPTER_HEADING, ...chapterLines].join('\n');
+  const trimmed = String(description || '').replace(/\s+$/, '');
+  if (!trimmed) return block;
+
+  const paragraphs = trimmed.split(/\n{2,}/);
+  const last = paragraphs[paragraphs.length - 1];
+  if (paragraphs.length > 1 && /^(#\S+\s*)+$/.test(last.trim())) {
+    paragraphs.splice(paragraphs.length - 1, 0, block);
+  } else {
+    paragraphs.push(block);
+  }
+  return paragraphs.join('\n\n');
+}
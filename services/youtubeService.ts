@@ -36,8 +36,12 @@ const YT_QUOTA_COST = {
         status: 2,
         statistics: 2,
         contentDetails: 2,
+        localizations: 2,
     } as Record<string, number>,
     videosUpdate: 50,
+    captionsList: 50,
+    captionsInsert: 400,
+    captionsUpdate: 450,
 };
 
 function calculatePartCost(parts: string, mapping: Record<string, number>): number {
@@ -768,6 +772,208 @@ export async function updateVideo(
     }
 }
 
+export type VideoLocalizations = Record<string, { title: string; description: string }>;
+
+const LOCALIZATION_PARTS = 'snippet,localizations';
+
+/**
+ * 寫入多語系標題與說明預估消耗的配額（先讀取目前的 localizations 再更新）
+ */
+export function estimateLocalizationUpdateQuota(): number {
+    return calculatePartCost(LOCALIZATION_PARTS, YT_QUOTA_COST.videosListPartCost) + YT_QUOTA_COST.videosUpdate;
+}
+
+export async function getVideoLocalizations(
+    videoId: string,
+    options: QuotaTriggerOptions = {}
+): Promise<{ snippet: any; defaultLanguage: string | null; localizations: VideoLocalizations }> {
+    if (!isGapiInitialized || !isTokenValid()) {
+        throw new Error("Authentication required.");
+    }
+
+    try {
+        const response = await gapi.client.youtube.videos.list({
+            part: LOCALIZATION_PARTS,
+            id: videoId,
+        });
+        recordQuota(
+            'youtube.videos.list',
+            calculatePartCost(LOCALIZATION_PARTS, YT_QUOTA_COST.videosListPartCost),
+            {
+                part: LOCALIZATION_PARTS,
+                context: 'getVideoLocalizations',
+                trigger: options.trigger,
+                caller: options.source,
+                videoId,
+            }
+        );
+
+        const item = response.result.items?.[0];
+        if (!item) {
+            throw new Error('找不到影片資訊');
+        }
+
+        return {
+            snippet: item.snippet,
+            defaultLanguage: item.snippet?.defaultLanguage || null,
+            localizations: item.localizations || {},
+        };
+    } catch (error: any) {
+        console.error('Error fetching video localizations:', error);
+        throw new Error(error.result?.error?.message || error.message || 'Failed to fetch video localizations');
+    }
+}
+
+/**
+ * 寫入影片的多語系標題與說明
+ * YouTube 更新 localizations 會覆寫整個物件，且 snippet 必須一併送出，
+ * 因此先讀取目前的 snippet 與 localizations 再合併；影片沒有預設語言時以 sourceLanguage 設定。
+ */
+export async function updateVideoLocalizations(
+    videoId: string,
+    localizations: VideoLocalizations,
+    sourceLanguage: string,
+    options: QuotaTriggerOptions = {}
+): Promise<{ defaultLanguage: string; localizations: VideoLocalizations }> {
+    const current = await getVideoLocalizations(videoId, options);
+    const defaultLanguage = current.defaultLanguage || sourceLanguage;
+
+    // 與預設語言相同的翻譯不寫入，避免覆蓋原始標題
+    const merged: VideoLocalizations = { ...current.localizations };
+    for (const [language, value] of Object.entries(localizations)) {
+        if (language.toLowerCase() === defaultLanguage.toLowerCase()) continue;
+        merged[language] = value;
+    }
+
+    try {
+        const snippet = current.snippet || {};
+        const resource = {
+            id: videoId,
+            snippet: {
+                title: snippet.title,
+                description: snippet.description,
+                tags: snippet.tags,
+                categoryId: snippet.categoryId,
+                defaultLanguage,
+            },
+            localizations: merged,
+        };
+
+        await gapi.client.youtube.videos.update({
+            part: LOCALIZATION_PARTS,
+        }, resource);
+        recordQuota('youtube.videos.update', YT_QUOTA_COST.videosUpdate, {
+            part: LOCALIZATION_PARTS,
+            fields: ['localizations', ...Object.keys(localizations)],
+            trigger: options.trigger,
+            caller: options.source,
+            videoId,
+        });
+
+        return { defaultLanguage, localizations: merged };
+    } catch (error: any) {
+        console.error("Error updating video localizations:", error);
+        throw new Error(error.result?.error?.message || "Failed to update video localizations on YouTube.");
+    }
+}
+
+export interface CaptionUploadResult {
+    captionId: string;
+    /** true 表示更新了既有的同語言、同名稱字幕軌 */
+    updated: boolean;
+}
+
+/**
+ * 預估上傳字幕的配額：captions.list 查詢既有字幕軌 + captions.insert（或 update）
+ */
+export function estimateCaptionUploadQuota(): number {
+    return YT_QUOTA_COST.captionsList + YT_QUOTA_COST.captionsInsert;
+}
+
+/**
+ * 上傳字幕到 YouTube；已有相同語言與名稱的字幕軌時更新內容，否則新增字幕軌
+ * @param videoId 影片 ID
+ * @param language 字幕語言（BCP-47）
+ * @param name 字幕軌名稱（在 YouTube 播放器中顯示）
+ * @param content SRT 或 WebVTT 內容
+ */
+export async function uploadCaption(
+    videoId: string,
+    language: string,
+    name: string,
+    content: string,
+    options: QuotaTriggerOptions = {}
+): Promise<CaptionUploadResult> {
+    const accessToken = getAccessToken();
+    if (!accessToken) {
+        throw new Error('尚未登入 YouTube');
+    }
+
+    const listResponse = await gapi.client.youtube.captions.list({
+        part: 'snippet',
+        videoId,
+    });
+    recordQuota('youtube.captions.list', YT_QUOTA_COST.captionsList, {
+        part: 'snippet',
+        trigger: options.trigger,
+        caller: options.source,
+        videoId,
+    });
+    const existing = (listResponse.result.items || []).find(
+        (item: any) => item.snippet?.language === language && item.snippet?.name === name
+    );
+
+    // captions.insert / update 需要以 multipart 同時送出中繼資料與字幕檔，gapi.client 不支援，改用 fetch
+    const boundary = `caption_${Date.now()}`;
+    const resource = existing
+        ? { id: existing.id, snippet: { isDraft: false } }
+        : { snippet: { videoId, language, name, isDraft: false } };
+    const body = [
+        `--${boundary}`,
+        'Content-Type: application/json; charset=UTF-8',
+        '',
+        JSON.stringify(resource),
+        `--${boundary}`,
+        'Content-Type: application/octet-stream',
+        '',
+        content,
+        `--${boundary}--`,
+        '',
+    ].join('\r\n');
+
+    const response = await fetch(
+        'https://www.googleapis.com/upload/youtube/v3/captions?part=snippet&uploadType=multipart',
+        {
+            method: existing ? 'PUT' : 'POST',
+            headers: {
+                Authorization: `Bearer ${accessToken}`,
+                'Content-Type': `multipart/related; boundary=${boundary}`,
+            },
+            body,
+        }
+    );
+    recordQuota(
+        existing ? 'youtube.captions.update' : 'youtube.captions.insert',
+        existing ? YT_QUOTA_COST.captionsUpdate : YT_QUOTA_COST.captionsInsert,
+        {
+            part: 'snippet',
+            fields: [language],
+            trigger: options.trigger,
+            caller: options.source,
+            videoId,
+        }
+    );
+
+    if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        console.error('Error uploading caption:', error);
+        throw new Error(error.error?.message || 'Failed to upload caption to YouTube.');
+    }
+
+    const data = await response.json();
+    return { captionId: data.id, updated: Boolean(existing) };
+}
+
 export function logout(): void {
     // 清除 gapi token
     if (isGapiInitialized && gapi?.client?.getToken()) {
@@ -0,0 +1,83 @@
+/**
+ * AI 用量帳本：費用預估、使用者統計與預算檢查
+ */
+
+import './helpers/tempDataDir.js';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+// 預設預算與管理者名單在載入模組時讀取
+process.env.AI_DAILY_BUDGET_USD = '1';
+process.env.AI_BUDGET_ADMINS = 'Admin@Example.com';
+
+const {
+  canManageAIBudgets,
+  estimateAICost,
+  getAIBudget,
+  getAIBudgetStatus,
+  getAIUsageSummary,
+  recordAIUsage,
+  setAIBudget,
+} = await import('../services/aiUsageLedger.js');
+
+describe('estimateAICost', () => {
+  it('依單價表換算，本機模型免費，未知模型為 null', () => {
+    assert.equal(estimateAICost('gemini-2.5-pro', { promptTokens: 1_000_000, completionTokens: 100_000 }), 2.25);
+    assert.equal(estimateAICost('local/llama', { promptTokens: 1000, completionTokens: 1000 }), 0);
+    assert.equal(estimateAICost('unknown-model', { promptTokens: 1000, completionTokens: 1000 }), null);
+  });
+});
+
+describe('recordAIUsage', () => {
+  it('供應商回報的費用優先於預估，統計只包含指定使用者', () => {
+    recordAIUsage({ userId: 'summary@example.com', feature: 'article', model: 'gemini-2.5-pro', cost: 0.5, usage: { promptTokens: 10, completionTokens: 5 } });
+    const unpriced = recordAIUsage({ userId: 'summary@example.com', feature: 'ai-chat', model: 'unknown-model' });
+    recordAIUsage({ userId: 'other@example.com', feature: 'article', model: 'gemini-2.5-pro', cost: 9 });
+
+    assert.equal(unpriced.costSource, 'unknown');
+    const { today } = getAIUsageSummary({ userId: 'summary@example.com' });
+    assert.equal(today.totals.calls, 2);
+    assert.equal(today.totals.costUsd, 0.5);
+    assert.equal(today.totals.unpricedCalls, 1);
+    assert.equal(today.totals.totalTokens, 15);
+    assert.deepEqual(Object.keys(today.byUser), ['summary@example.com']);
+  });
+});
+
+describe('AI budgets', () => {
+  it('沒有個人預算時套用預設每日預算，達到上限即超出', () => {
+    assert.deepEqual(getAIBudget('daily@example.com'), { dailyUsd: 1, monthlyUsd: null, isCustom: false });
+
+    recordAIUsage({ userId: 'daily@example.com', model: 'gemini-2.5-pro', cost: 0.6 });
+    assert.equal(getAIBudgetStatus('daily@example.com').exceeded, null);
+
+    recordAIUsage({ userId: 'daily@example.com', model: 'gemini-2.5-pro', cost: 0.4 });
+    const status = getAIBudgetStatus('daily@example.com');
+    assert.equal(status.dailySpentUsd, 1);
+    assert.equal(status.exceeded, 'daily');
+    assert.equal(getAIBudgetStatus('someone-else@example.com').exceeded, null);
+  });
+
+  it('個人預算覆寫預設值，清除後改回預設', () => {
+    recordAIUsage({ userId: 'custom@example.com', model: 'gemini-2.5-pro', cost: 2 });
+    assert.equal(getAIBudgetStatus('custom@example.com').exceeded, 'daily');
+
+    setAIBudget('custom@example.com', { dailyUsd: null, monthlyUsd: 1.5 });
+    assert.equal(getAIBudgetStatus('custom@example.com').exceeded, 'monthly');
+
+    setAIBudget('custom@example.com', { dailyUsd: 10, monthlyUsd: '' });
+    assert.deepEqual(getAIBudget('custom@example.com'), { dailyUsd: 10, monthlyUsd: null, isCustom: true });
+    assert.equal(getAIBudgetStatus('custom@example.com').exceeded, null);
+
+    setAIBudget('custom@example.com', null);
+    assert.equal(getAIBudget('custom@example.com').isCustom, false);
+  });
+
+  it('拒絕負數或非數字的預算，只有管理者可調整預算', () => {
+    assert.throws(() => setAIBudget('custom@example.com', { dailyUsd: -1 }), /non-negative/);
+    assert.throws(() => setAIBudget('custom@example.com', { monthlyUsd: 'abc' }), /non-negative/);
+    assert.equal(canManageAIBudgets('admin@example.com'), true);
+    assert.equal(canManageAIBudgets('custom@example.com'), false);
+    assert.equal(canManageAIBudgets(undefined), false);
+  });
+});
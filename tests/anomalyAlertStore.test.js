@@ -0,0 +1,47 @@
+/**
+ * 異常提醒收件匣：只列出與標記使用者可存取頻道的提醒，同一異常不重複提醒
+ */
+
+import './helpers/tempDataDir.js';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { addAnomalyAlerts, listAnomalyAlerts, markAnomalyAlertsRead } from '../services/anomalyAlertStore.js';
+
+const alert = (channelId, date) => ({
+  channelId,
+  date,
+  scope: 'channel',
+  videoId: null,
+  metric: 'views',
+  value: 1500,
+  expected: 1000,
+  zScore: 5,
+  direction: 'spike',
+  message: `${channelId} ${date}`,
+});
+
+describe('anomalyAlertStore', () => {
+  const added = addAnomalyAlerts([alert('UC_a', '2026-03-01'), alert('UC_a', '2026-03-02'), alert('UC_b', '2026-03-01')]);
+
+  it('同頻道、同指標、同一天的異常只保留一則', () => {
+    assert.equal(added.length, 3);
+    assert.deepEqual(addAnomalyAlerts([alert('UC_a', '2026-03-01')]), []);
+  });
+
+  it('只列出指定頻道的提醒', () => {
+    const { alerts, unreadCount } = listAnomalyAlerts({ channelIds: ['UC_a'] });
+    assert.deepEqual(alerts.map((item) => item.message), ['UC_a 2026-03-01', 'UC_a 2026-03-02']);
+    assert.equal(unreadCount, 2);
+    assert.deepEqual(listAnomalyAlerts({ channelIds: [] }).alerts, []);
+  });
+
+  it('不能標記其他頻道的提醒為已讀', () => {
+    const otherId = added.find((item) => item.channelId === 'UC_b').id;
+    assert.equal(markAnomalyAlertsRead({ ids: [otherId], channelIds: ['UC_a'] }), 0);
+    assert.equal(listAnomalyAlerts({ channelIds: ['UC_b'] }).unreadCount, 1);
+
+    assert.equal(markAnomalyAlertsRead({ channelIds: ['UC_a'] }), 2);
+    assert.equal(listAnomalyAlerts({ channelIds: ['UC_a'], unreadOnly: true }).alerts.length, 0);
+    assert.equal(listAnomalyAlerts({ channelIds: ['UC_b'] }).unreadCount, 1);
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * 數據異常偵測：同星期幾基準、穩健 z 分數門檻與最小量過濾
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { detectSeriesAnomalies, scoreAgainstBaseline, toTrafficShareSeries } from '../services/anomalyDetection.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TARGET = '2026-03-01';
+const shift = (days) => new Date(Date.parse(`${TARGET}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+
+// 前 4 週同一個星期幾的數值
+function weeklyBaseline(values, extra = {}) {
+  const series = { ...extra };
+  values.forEach((value, index) => {
+    series[shift(-7 * (index + 1))] = value;
+  });
+  return series;
+}
+
+describe('scoreAgainstBaseline', () => {
+  it('以中位數為預期值，尺度至少為預期值的 10%', () => {
+    assert.deepEqual(scoreAgainstBaseline(150, [100, 110, 90, 100]), { expected: 100, zScore: 5 });
+    assert.deepEqual(scoreAgainstBaseline(3, [0, 0, 0, 0]), { expected: 0, zScore: 3 });
+  });
+});
+
+describe('detectSeriesAnomalies', () => {
+  it('超過門檻才視為異常，並標示方向', () => {
+    const baseline = [1000, 1100, 900, 1000];
+    assert.deepEqual(detectSeriesAnomalies(weeklyBaseline(baseline, { [TARGET]: 1500 }), [TARGET]), [
+      { date: TARGET, value: 1500, expected: 1000, zScore: 5, direction: 'spike' },
+    ]);
+    assert.equal(detectSeriesAnomalies(weeklyBaseline(baseline, { [TARGET]: 1250 }), [TARGET]).length, 0);
+    assert.equal(detectSeriesAnomalies(weeklyBaseline(baseline, { [TARGET]: 1250 }), [TARGET], { threshold: 2 }).length, 1);
+
+    const [drop] = detectSeriesAnomalies(weeklyBaseline(baseline, { [TARGET]: 400 }), [TARGET]);
+    assert.equal(drop.direction, 'drop');
+    assert.equal(drop.zScore, -6);
+  });
+
+  it('以同一個星期幾為基準，不受其他天的落差影響', () => {
+    // 同星期幾都是 3000，其他天只有 1000
+    const series = weeklyBaseline([3000, 3000, 3000, 3000], { [TARGET]: 3000 });
+    for (let day = 1; day <= 28; day++) {
+      series[shift(-day)] ??= 1000;
+    }
+    assert.deepEqual(detectSeriesAnomalies(series, [TARGET]), []);
+  });
+
+  it('同星期幾資料不足時改用前 28 天，仍不足 14 天則不判斷', () => {
+    const recent = { [TARGET]: 200 };
+    for (let day = 1; day <= 14; day++) recent[shift(-day)] = 100;
+    assert.equal(detectSeriesAnomalies(recent, [TARGET])[0].zScore, 10);
+
+    delete recent[shift(-14)];
+    assert.deepEqual(detectSeriesAnomalies(recent, [TARGET]), []);
+  });
+
+  it('數值太小或差距太小時忽略', () => {
+    const small = weeklyBaseline([10, 10, 10, 10], { [TARGET]: 50 });
+    assert.equal(detectSeriesAnomalies(small, [TARGET]).length, 1);
+    assert.deepEqual(detectSeriesAnomalies(small, [TARGET], { minValue: 100 }), []);
+    assert.deepEqual(detectSeriesAnomalies(small, [TARGET], { minDelta: 50 }), []);
+  });
+
+  it('沒有當天數值的日期略過', () => {
+    assert.deepEqual(detectSeriesAnomalies(weeklyBaseline([100, 100, 100, 100]), [TARGET]), []);
+  });
+});
+
+describe('toTrafficShareSeries', () => {
+  it('換算為佔比，缺少的來源補 0，只保留佔比達門檻的來源', () => {
+    const series = toTrafficShareSeries([
+      { date: '2026-03-01', sources: { SEARCH: 75, BROWSE: 24, OTHER: 1 } },
+      { date: '2026-03-02', sources: { SEARCH: 50, OTHER: 2 } },
+      { date: '2026-03-03', sources: {} },
+    ]);
+    assert.deepEqual(series, {
+      SEARCH: { '2026-03-01': 75, '2026-03-02': 96.2 },
+      BROWSE: { '2026-03-01': 24, '2026-03-02': 0 },
+    });
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * 文章審稿流程：狀態轉換、核准限制與發佈檢查
+ */
+
+import './helpers/tempDataDir.js';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  addArticleReviewComment,
+  checkArticlePublishable,
+  listArticleReviews,
+  markArticlePublished,
+  setArticleReviewCommentResolved,
+  submitArticleForReview,
+  transitionArticleReview,
+} from '../services/articleReviewStore.js';
+
+const AUTHOR = 'author@example.com';
+const REVIEWER = 'reviewer@example.com';
+
+let videoCounter = 0;
+
+function submit(article = '# 標題\n\n內容') {
+  videoCounter += 1;
+  return submitArticleForReview({
+    video: { id: `video${videoCounter}`, title: `影片 ${videoCounter}` },
+    result: { titleA: '標題', article },
+    userId: AUTHOR,
+  });
+}
+
+describe('transitionArticleReview', () => {
+  it('送審後進入 in_review，可核准或退回', () => {
+    const review = submit();
+    assert.equal(review.status, 'in_review');
+
+    transitionArticleReview(review.videoId, { status: 'draft', userId: REVIEWER, note: '  請補充範例  ' });
+    assert.equal(review.status, 'draft');
+    assert.equal(review.history.at(-1).note, '請補充範例');
+
+    transitionArticleReview(review.videoId, { status: 'in_review', userId: AUTHOR });
+    transitionArticleReview(review.videoId, { status: 'approved', userId: REVIEWER });
+    assert.deepEqual(review.history.map((entry) => entry.status), ['in_review', 'draft', 'in_review', 'approved']);
+  });
+
+  it('拒絕不允許的狀態轉換，published 只能由發佈設定', () => {
+    const review = submit();
+    assert.throws(
+      () => transitionArticleReview(review.videoId, { status: 'published', userId: REVIEWER }),
+      /from in_review to published/
+    );
+    transitionArticleReview(review.videoId, { status: 'draft', userId: REVIEWER });
+    assert.throws(
+      () => transitionArticleReview(review.videoId, { status: 'approved', userId: REVIEWER }),
+      /from draft to approved/
+    );
+    assert.throws(() => transitionArticleReview('missing', { status: 'draft', userId: REVIEWER }), /Review not found/);
+  });
+
+  it('作者不能核准自己的文章', () => {
+    const review = submit();
+    assert.throws(
+      () => transitionArticleReview(review.videoId, { status: 'approved', userId: AUTHOR }),
+      /cannot approve their own article/
+    );
+    assert.equal(review.status, 'in_review');
+  });
+
+  it('已發佈的文章可撤回為 draft，重新送審回到 in_review', () => {
+    const review = submit();
+    transitionArticleReview(review.videoId, { status: 'approved', userId: REVIEWER });
+    markArticlePublished(review.videoId, { userId: REVIEWER, target: 'notion', url: 'https://notion.so/page' });
+    assert.equal(review.status, 'published');
+    assert.equal(review.published.target, 'notion');
+
+    transitionArticleReview(review.videoId, { status: 'draft', userId: AUTHOR });
+    submitArticleForReview({ video: review.video, result: { titleA: '標題', article: '新內容' }, userId: AUTHOR });
+    assert.equal(review.status, 'in_review');
+    assert.equal(review.history.at(-1).note, '重新送審');
+  });
+});
+
+describe('checkArticlePublishable', () => {
+  it('尚未核准的文章不能發佈', () => {
+    const review = submit('內容');
+    assert.equal(checkArticlePublishable(review.videoId, '內容').allowed, false);
+    assert.equal(checkArticlePublishable('missing', '內容').allowed, false);
+  });
+
+  it('核准或已發佈的文章在內容相同時才能發佈', () => {
+    const review = submit('核准的內容');
+    transitionArticleReview(review.videoId, { status: 'approved', userId: REVIEWER });
+    assert.deepEqual(checkArticlePublishable(review.videoId, '核准的內容'), { allowed: true });
+
+    const changed = checkArticlePublishable(review.videoId, '偷改過的內容');
+    assert.equal(changed.allowed, false);
+    assert.match(changed.reason, /重新送審/);
+
+    markArticlePublished(review.videoId, { userId: REVIEWER, target: 'notion' });
+    assert.deepEqual(checkArticlePublishable(review.videoId, '核准的內容'), { allowed: true });
+  });
+});
+
+describe('article review comments', () => {
+  it('新增與解決留言會反映在佇列的未解決數量', () => {
+    const review = submit();
+    assert.throws(
+      () => addArticleReviewComment(review.videoId, { sectionIndex: -1, body: '留言', author: REVIEWER }),
+      /sectionIndex/
+    );
+    assert.throws(
+      () => addArticleReviewComment(review.videoId, { sectionIndex: 0, body: '   ', author: REVIEWER }),
+      /Comment body/
+    );
+
+    const comment = addArticleReviewComment(review.videoId, { sectionIndex: 0, body: ' 請修正 ', author: REVIEWER });
+    assert.equal(comment.body, '請修正');
+    const openComments = () => listArticleReviews().find((item) => item.videoId === review.videoId).openComments;
+    assert.equal(openComments(), 1);
+
+    setArticleReviewCommentResolved(review.videoId, comment.id, { resolved: true, userId: AUTHOR });
+    assert.equal(comment.resolvedBy, AUTHOR);
+    assert.equal(openComments(), 0);
+    assert.equal(setArticleReviewCommentResolved(review.videoId, 'missing', { resolved: true, userId: AUTHOR }), null);
+  });
+});
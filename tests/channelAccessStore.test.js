@@ -0,0 +1,31 @@
+/**
+ * 頻道存取權：只有以頻道登入或通過頻道驗證的使用者可以存取
+ */
+
+import './helpers/tempDataDir.js';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { grantChannelAccess, hasChannelAccess, listAccessibleChannelIds } from '../services/channelAccessStore.js';
+
+describe('channelAccessStore', () => {
+  it('以頻道登入的使用者可以存取自己的頻道', () => {
+    assert.equal(hasChannelAccess('UC_owner', 'UC_owner'), true);
+    assert.equal(hasChannelAccess('UC_owner', 'UC_other'), false);
+    assert.equal(hasChannelAccess('', ''), false);
+  });
+
+  it('通過驗證後才可存取，且只限該頻道', () => {
+    assert.equal(hasChannelAccess('UC_a', 'alice@example.com'), false);
+    grantChannelAccess('UC_a', 'alice@example.com');
+    assert.equal(hasChannelAccess('UC_a', 'alice@example.com'), true);
+    assert.equal(hasChannelAccess('UC_b', 'alice@example.com'), false);
+    assert.equal(hasChannelAccess('UC_a', 'bob@example.com'), false);
+  });
+
+  it('列出使用者可存取的頻道', () => {
+    grantChannelAccess('UC_c', 'carol@example.com');
+    grantChannelAccess('UC_d', 'carol@example.com');
+    assert.deepEqual(listAccessibleChannelIds('carol@example.com').sort(), ['UC_c', 'UC_d', 'carol@example.com']);
+    assert.deepEqual(listAccessibleChannelIds('UC_owner'), ['UC_owner']);
+  });
+});
@@ -0,0 +1,48 @@
+/**
+ * 報表排程的 cron 解析（台灣時間）
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { getNextRunTime, parseCronExpression } from '../services/cronSchedule.js';
+
+// 台灣時間轉成毫秒時間戳
+const taipei = (iso) => Date.parse(`${iso}+08:00`);
+
+describe('parseCronExpression', () => {
+  it('支援清單、範圍與間隔，星期 7 視為星期日', () => {
+    const schedule = parseCronExpression('*/15 9-11 1,15 * 7');
+    assert.deepEqual([...schedule.minutes], [0, 15, 30, 45]);
+    assert.deepEqual([...schedule.hours], [9, 10, 11]);
+    assert.deepEqual([...schedule.days], [1, 15]);
+    assert.deepEqual([...schedule.weekdays], [0]);
+  });
+
+  it('欄位數量或範圍不正確時拋出錯誤', () => {
+    assert.throws(() => parseCronExpression('0 9 * *'), /5 個欄位/);
+    assert.throws(() => parseCronExpression('60 9 * * *'), /超出範圍/);
+    assert.throws(() => parseCronExpression('0 9 * * mon'), /格式不正確/);
+  });
+});
+
+describe('getNextRunTime', () => {
+  it('以台灣時間計算下一次執行', () => {
+    assert.equal(getNextRunTime('0 9 * * *', taipei('2026-10-19T08:30:00')), taipei('2026-10-19T09:00:00'));
+    assert.equal(getNextRunTime('0 9 * * *', taipei('2026-10-19T09:00:00')), taipei('2026-10-20T09:00:00'));
+  });
+
+  it('每週與每月排程', () => {
+    // 2026-10-19 是星期一
+    assert.equal(getNextRunTime('0 9 * * 1', taipei('2026-10-19T10:00:00')), taipei('2026-10-26T09:00:00'));
+    assert.equal(getNextRunTime('0 9 1 * *', taipei('2026-12-05T00:00:00')), taipei('2027-01-01T09:00:00'));
+  });
+
+  it('日與星期都有限制時符合其一即可', () => {
+    // 下一個 13 日（2026-11-13）之前先遇到星期五 2026-10-23
+    assert.equal(getNextRunTime('0 0 13 * 5', taipei('2026-10-19T00:00:00')), taipei('2026-10-23T00:00:00'));
+  });
+
+  it('不存在的日期回傳 null', () => {
+    assert.equal(getNextRunTime('0 0 30 2 *', taipei('2026-10-19T00:00:00')), null);
+  });
+});
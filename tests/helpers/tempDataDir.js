@@ -0,0 +1,17 @@
+/**
+ * 測試用的暫存資料目錄
+ * 需在匯入任何使用 jsonFileStore 的服務之前匯入（ESM 依匯入順序執行），避免讀寫專案的 data/
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+export const TEST_DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'ai-video-writer-test-'));
+
+process.env.DATA_DIR = TEST_DATA_DIR;
+process.env.TASK_STORE = 'memory';
+
+process.once('exit', () => {
+  fs.rmSync(TEST_DATA_DIR, { recursive: true, force: true });
+});
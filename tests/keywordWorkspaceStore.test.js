@@ -0,0 +1,82 @@
+/**
+ * 關鍵字報表工作區：私人工作區只有建立者可見，共享後其他人可以查看與複製
+ */
+
+import './helpers/tempDataDir.js';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  canViewKeywordWorkspace,
+  cloneKeywordWorkspace,
+  createKeywordWorkspace,
+  getKeywordWorkspace,
+  listKeywordWorkspaces,
+  updateKeywordWorkspace,
+} from '../services/keywordWorkspaceStore.js';
+
+const input = (name, visibility) => ({
+  name,
+  keywordGroups: [{ name: '開箱' }, { name: '評測' }],
+  dateColumns: [{ config: 'lastMonth' }, { config: '202410' }],
+  selectedMetrics: ['views', 'likes'],
+  visibility,
+});
+
+const ids = (list) => list.map((workspace) => workspace.id).sort();
+
+describe('keywordWorkspaceStore', () => {
+  const privateOne = createKeywordWorkspace('alice@example.com', input('私人', undefined));
+  const sharedOne = createKeywordWorkspace('alice@example.com', input('共享', 'shared'));
+
+  it('驗證內容並回報所有錯誤', () => {
+    assert.equal(privateOne.visibility, 'private');
+    assert.throws(
+      () => createKeywordWorkspace('alice@example.com', {
+        ...input('x'),
+        keywordGroups: [{ name: '開箱' }, { name: '開箱' }],
+        dateColumns: [{ config: 'someday' }],
+        selectedMetrics: ['unknown'],
+        visibility: 'public',
+      }),
+      { message: '關鍵字重複：「開箱」；無法解析日期範圍「someday」；至少選擇一個指標；不支援的共享設定「public」' }
+    );
+  });
+
+  it('私人工作區只有建立者可見，共享的其他人也可見', () => {
+    assert.equal(canViewKeywordWorkspace(getKeywordWorkspace(privateOne.id), 'bob@example.com'), false);
+    assert.equal(canViewKeywordWorkspace(getKeywordWorkspace(sharedOne.id), 'bob@example.com'), true);
+    assert.deepEqual(ids(listKeywordWorkspaces('alice@example.com')), ids([privateOne, sharedOne]));
+
+    const bobView = listKeywordWorkspaces('bob@example.com');
+    assert.deepEqual(ids(bobView), [sharedOne.id]);
+    assert.equal(bobView[0].isOwner, false);
+  });
+
+  it('改回私人後其他人就看不到', () => {
+    const updated = updateKeywordWorkspace('alice@example.com', sharedOne.id, input('共享', 'private'));
+    assert.equal(updated.isOwner, true);
+    assert.deepEqual(listKeywordWorkspaces('bob@example.com'), []);
+    updateKeywordWorkspace('alice@example.com', sharedOne.id, input('共享', 'shared'));
+  });
+
+  it('複製成自己的私人工作區，與來源互不影響', () => {
+    const clone = cloneKeywordWorkspace('bob@example.com', sharedOne.id);
+    assert.equal(clone.name, '共享（副本）');
+    assert.equal(clone.ownerId, 'bob@example.com');
+    assert.equal(clone.visibility, 'private');
+    assert.equal(clone.clonedFrom, sharedOne.id);
+    assert.equal(clone.isOwner, true);
+    assert.deepEqual(clone.keywordGroups, sharedOne.keywordGroups);
+
+    getKeywordWorkspace(clone.id).keywordGroups.push({ name: '新增' });
+    assert.equal(getKeywordWorkspace(sharedOne.id).keywordGroups.length, 2);
+
+    assert.equal(canViewKeywordWorkspace(getKeywordWorkspace(clone.id), 'alice@example.com'), false);
+    assert.deepEqual(ids(listKeywordWorkspaces('bob@example.com')), ids([sharedOne, clone]));
+  });
+
+  it('可以指定副本名稱，來源不存在時回傳 null', () => {
+    assert.equal(cloneKeywordWorkspace('bob@example.com', sharedOne.id, { name: ' 我的版本 ' }).name, '我的版本');
+    assert.equal(cloneKeywordWorkspace('bob@example.com', 'missing'), null);
+  });
+});
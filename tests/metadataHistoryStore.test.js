@@ -0,0 +1,55 @@
+/**
+ * 中繼資料修改紀錄：依使用者分開保存，舊版檔案依 author 轉換
+ */
+
+import { TEST_DATA_DIR } from './helpers/tempDataDir.js';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+
+const fields = (title) => ({ title, description: '', tags: [] });
+
+// 在載入 store 前寫入舊版格式（只依影片保存）的紀錄
+fs.writeFileSync(
+  path.join(TEST_DATA_DIR, 'metadata-history.json'),
+  JSON.stringify({
+    videos: {
+      legacyVideo: [
+        { id: 'mh_old_1', videoId: 'legacyVideo', before: fields('a'), after: fields('b'), author: 'alice@example.com', createdAt: 1 },
+        { id: 'mh_old_2', videoId: 'legacyVideo', before: fields('b'), after: fields('c'), author: 'bob@example.com', createdAt: 2 },
+      ],
+    },
+  })
+);
+
+const { listMetadataHistory, recordMetadataChange } = await import('../services/metadataHistoryStore.js');
+
+describe('metadataHistoryStore', () => {
+  it('舊版紀錄依 author 分到各使用者', () => {
+    assert.deepEqual(listMetadataHistory('alice@example.com', 'legacyVideo').map((entry) => entry.id), ['mh_old_1']);
+    assert.deepEqual(listMetadataHistory('bob@example.com', 'legacyVideo').map((entry) => entry.id), ['mh_old_2']);
+  });
+
+  it('使用者只看得到自己的紀錄，新的在前', () => {
+    const first = recordMetadataChange({ videoId: 'v1', before: fields('x'), after: fields('y'), author: 'alice@example.com' });
+    const second = recordMetadataChange({ videoId: 'v1', before: fields('y'), after: fields('z'), author: 'alice@example.com' });
+    recordMetadataChange({ videoId: 'v1', before: fields('x'), after: fields('evil'), author: 'mallory@example.com' });
+
+    assert.deepEqual(listMetadataHistory('alice@example.com', 'v1').map((entry) => entry.id), [second.id, first.id]);
+    assert.equal(listMetadataHistory('mallory@example.com', 'v1').length, 1);
+    assert.deepEqual(listMetadataHistory('bob@example.com', 'v1'), []);
+  });
+
+  it('記錄變更的欄位，缺少 author 或欄位格式不正確時拋出錯誤', () => {
+    const entry = recordMetadataChange({
+      videoId: 'v2',
+      before: { title: 't', description: 'd', tags: ['a'] },
+      after: { title: 't', description: 'd2', tags: ['b'] },
+      author: 'alice@example.com',
+    });
+    assert.deepEqual(entry.changedFields, ['description', 'tags']);
+    assert.throws(() => recordMetadataChange({ videoId: 'v2', before: fields('a'), after: fields('b') }), /author/);
+    assert.throws(() => recordMetadataChange({ videoId: 'v2', before: {}, after: fields('b'), author: 'alice@example.com' }));
+  });
+});
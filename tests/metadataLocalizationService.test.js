@@ -0,0 +1,54 @@
+/**
+ * 多語系中繼資料：目標語言清單整理與翻譯結果的 YouTube 長度限制
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { normalizeLanguageList, normalizeTranslations } from '../services/metadataLocalizationService.js';
+
+describe('normalizeLanguageList', () => {
+  it('去除空白、重複、格式不正確與來源語言', () => {
+    assert.deepEqual(
+      normalizeLanguageList([' en ', 'EN', 'ja', 'zh-tw', 'pt-BR', 'english', '', 42], 'zh-TW'),
+      ['en', 'ja', 'pt-BR']
+    );
+  });
+
+  it('非陣列回傳空清單，最多保留 10 個語言', () => {
+    assert.deepEqual(normalizeLanguageList('en,ja'), []);
+    const many = ['en', 'ja', 'ko', 'fr', 'de', 'es', 'it', 'pt', 'ru', 'th', 'vi'];
+    assert.deepEqual(normalizeLanguageList(many, 'zh-TW'), many.slice(0, 10));
+  });
+});
+
+describe('normalizeTranslations', () => {
+  it('只保留要求的語言，語言代碼不分大小寫', () => {
+    const result = normalizeTranslations(
+      {
+        translations: {
+          EN: { title: ' Hello ', description: ' World ' },
+          fr: { title: 'Bonjour', description: '' },
+          ja: { title: '', description: '説明だけ' },
+        },
+      },
+      ['en', 'ja']
+    );
+    assert.deepEqual(result, { en: { title: 'Hello', description: 'World' } });
+  });
+
+  it('移除角括號並套用標題 100 字元、說明 5000 位元組的限制', () => {
+    const result = normalizeTranslations(
+      { ja: { title: '<b>' + 'あ'.repeat(120), description: '説'.repeat(2000) } },
+      ['ja']
+    );
+    assert.equal(Array.from(result.ja.title).length, 100);
+    assert.ok(result.ja.title.startsWith('b'));
+    // 每個字 3 位元組，不會切在字元中間
+    assert.equal(new TextEncoder().encode(result.ja.description).length, 4998);
+  });
+
+  it('格式不正確的回應回傳空物件', () => {
+    assert.deepEqual(normalizeTranslations(null, ['en']), {});
+    assert.deepEqual(normalizeTranslations({ en: 'Hello' }, ['en']), {});
+  });
+});
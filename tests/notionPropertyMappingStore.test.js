@@ -0,0 +1,105 @@
+/**
+ * Notion 資料庫欄位對應：依 schema 檢查對應，並轉成頁面屬性值
+ */
+
+import './helpers/tempDataDir.js';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  buildMappedNotionProperties,
+  deleteNotionPropertyMapping,
+  getNotionPropertyMapping,
+  saveNotionPropertyMapping,
+  validateNotionPropertyMapping,
+} from '../services/notionPropertyMappingStore.js';
+
+const DATABASE_ID = '0123abcd-0123-abcd-0123-abcd0123abcd';
+
+const databaseInfo = {
+  properties: [
+    { name: 'Name', type: 'title' },
+    { name: '副標題', type: 'rich_text' },
+    { name: '連結', type: 'url' },
+    { name: '日期', type: 'date' },
+    { name: '分類', type: 'select' },
+    { name: '標籤', type: 'multi_select' },
+  ],
+};
+
+describe('validateNotionPropertyMapping', () => {
+  it('接受類型相容的屬性並略過空白對應', () => {
+    const { mapping, errors } = validateNotionPropertyMapping(
+      { titleB: ' 副標題 ', videoUrl: '連結', tags: '標籤', titleC: '' },
+      databaseInfo
+    );
+    assert.deepEqual(errors, []);
+    assert.deepEqual(mapping, { titleB: '副標題', videoUrl: '連結', tags: '標籤' });
+  });
+
+  it('回報不存在、類型不符、重複使用的屬性與不支援的欄位', () => {
+    const { mapping, errors } = validateNotionPropertyMapping(
+      { titleA: '分類', titleB: '分類', seoDescription: '連結', publishDate: '不存在', unknown: 'Name' },
+      databaseInfo
+    );
+    assert.deepEqual(mapping, { titleA: '分類' });
+    assert.equal(errors.length, 4);
+    assert.ok(errors.some((error) => error.includes('已對應到 標題 A')));
+    assert.ok(errors.some((error) => error.includes('url 類型')));
+    assert.ok(errors.some((error) => error.includes('沒有「不存在」屬性')));
+    assert.ok(errors.some((error) => error.includes('不支援的文章欄位：unknown')));
+  });
+});
+
+describe('saveNotionPropertyMapping', () => {
+  it('資料庫 ID 不分連字號與大小寫，空的對應等同刪除', () => {
+    saveNotionPropertyMapping(DATABASE_ID, { tags: '標籤' }, databaseInfo, 'alice@example.com');
+    const saved = getNotionPropertyMapping(DATABASE_ID.replace(/-/g, '').toUpperCase());
+    assert.deepEqual(saved.mapping, { tags: '標籤' });
+    assert.equal(saved.updatedBy, 'alice@example.com');
+
+    assert.equal(saveNotionPropertyMapping(DATABASE_ID, {}, databaseInfo, 'alice@example.com'), null);
+    assert.equal(getNotionPropertyMapping(DATABASE_ID), null);
+    assert.equal(deleteNotionPropertyMapping(DATABASE_ID), false);
+  });
+
+  it('對應與 schema 不相容時拋出錯誤且不儲存', () => {
+    assert.throws(
+      () => saveNotionPropertyMapping(DATABASE_ID, { tags: '副標題', videoUrl: '日期' }, databaseInfo, 'alice@example.com'),
+      /影片網址/
+    );
+    assert.equal(getNotionPropertyMapping(DATABASE_ID), null);
+  });
+});
+
+describe('buildMappedNotionProperties', () => {
+  it('依屬性類型轉換欄位值', () => {
+    const { properties, skipped } = buildMappedNotionProperties(
+      { titleA: '分類', titleB: '副標題', videoUrl: '連結', publishDate: '日期', tags: '標籤' },
+      databaseInfo,
+      {
+        titleA: 'A, 標題',
+        titleB: 'x'.repeat(2500),
+        videoUrl: 'https://youtu.be/abc',
+        publishDate: '2026-01-01',
+        tags: ['教學', '教學', ' ', 'a,b'],
+      }
+    );
+
+    assert.deepEqual(skipped, []);
+    assert.deepEqual(properties['分類'], { select: { name: 'A  標題' } });
+    assert.deepEqual(properties['副標題'].rich_text.map((item) => item.text.content.length), [2000, 500]);
+    assert.deepEqual(properties['連結'], { url: 'https://youtu.be/abc' });
+    assert.deepEqual(properties['日期'], { date: { start: '2026-01-01' } });
+    assert.deepEqual(properties['標籤'], { multi_select: [{ name: '教學' }, { name: 'a b' }] });
+  });
+
+  it('略過已被刪除或改類型的屬性，未提供的欄位不寫入', () => {
+    const { properties, skipped } = buildMappedNotionProperties(
+      { titleA: '已刪除', tags: '副標題', seoDescription: '副標題' },
+      databaseInfo,
+      { titleA: 'A', tags: ['a', 'b'] }
+    );
+    assert.deepEqual(skipped, ['標題 A → 已刪除']);
+    assert.deepEqual(properties, { '副標題': { rich_text: [{ type: 'text', text: { content: 'a, b' } }] } });
+  });
+});
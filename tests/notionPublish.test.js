@@ -0,0 +1,84 @@
+/**
+ * 重新發佈到既有的 Notion 頁面：先寫入新內容，成功後才刪除舊區塊
+ */
+
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { publishArticleToNotion } from '../services/notionService.js';
+
+const originalFetch = globalThis.fetch;
+
+/**
+ * 模擬 Notion API，記錄每次呼叫；failOn 符合時回傳 400
+ */
+function mockNotion({ failOn } = {}) {
+  const calls = [];
+  let appended = 0;
+  globalThis.fetch = async (url, { method = 'GET', body } = {}) => {
+    const call = `${method} ${new URL(url).pathname}`;
+    calls.push(call);
+    const json = (status, data) => ({ ok: status < 400, status, json: async () => data });
+    if (failOn?.(call, calls)) return json(400, { message: 'validation_error' });
+
+    if (call === 'GET /v1/blocks/page1/children') {
+      return json(200, { results: [{ id: 'old1' }, { id: 'old2' }], has_more: false });
+    }
+    if (call === 'PATCH /v1/blocks/page1/children') {
+      const { children } = JSON.parse(body);
+      return json(200, { results: children.map(() => ({ id: `new${++appended}` })) });
+    }
+    return json(200, { id: 'page1', url: 'https://notion.so/page1', last_edited_time: '2026-01-01T00:00:00.000Z' });
+  };
+  return calls;
+}
+
+const publish = (overrides = {}) => publishArticleToNotion({
+  notionToken: 'secret',
+  databaseId: 'db1',
+  title: '文章',
+  article: '# 標題\n\n內容',
+  pageId: 'page1',
+  ...overrides,
+});
+
+describe('publishArticleToNotion（重新發佈）', () => {
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  it('附加新內容並更新屬性後才刪除舊區塊', async () => {
+    const calls = mockNotion();
+    const result = await publish();
+
+    assert.equal(result.updated, true);
+    assert.deepEqual(calls, [
+      'GET /v1/blocks/page1/children',
+      'PATCH /v1/blocks/page1/children',
+      'PATCH /v1/pages/page1',
+      'DELETE /v1/blocks/old1',
+      'DELETE /v1/blocks/old2',
+      'GET /v1/pages/page1',
+    ]);
+  });
+
+  it('附加失敗時移除已附加的新區塊，保留舊區塊', async () => {
+    // 超過 100 個區塊會分兩批附加，讓第二批失敗
+    const article = Array.from({ length: 120 }, (_, index) => `${index}`.padEnd(1000, 'x')).join('\n');
+    const calls = mockNotion({
+      failOn: (call, all) => call === 'PATCH /v1/blocks/page1/children' && all.filter((item) => item === call).length === 2,
+    });
+
+    await assert.rejects(publish({ article }), /validation_error/);
+    assert.ok(calls.includes('DELETE /v1/blocks/new1'));
+    assert.ok(!calls.some((call) => call.startsWith('DELETE /v1/blocks/old')));
+  });
+
+  it('區塊不合法時不會呼叫 Notion', async () => {
+    const calls = mockNotion();
+    await assert.rejects(
+      publish({ imageUrls: [['/images/missing.png']] }),
+      /截圖網址無法被 Notion 讀取/
+    );
+    assert.deepEqual(calls, []);
+  });
+});
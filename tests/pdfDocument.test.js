@@ -0,0 +1,44 @@
+/**
+ * 報表 PDF 的檔案結構
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createPdfDocument } from '../services/pdfDocument.js';
+
+describe('createPdfDocument', () => {
+  const pdf = createPdfDocument({
+    title: '頻道週報',
+    createdAt: new Date('2026-10-19T00:00:00Z'),
+    blocks: [
+      { type: 'title', text: '頻道週報 (測試)' },
+      { type: 'paragraph', text: '觀看次數成長 12%' },
+      {
+        type: 'table',
+        columns: [{ label: '影片' }, { label: '觀看', align: 'right' }],
+        rows: Array.from({ length: 80 }, (_, index) => [`影片 ${index + 1}`, String(index * 10)]),
+      },
+    ],
+  });
+  const source = pdf.toString('latin1');
+
+  it('以 PDF 標頭開始並以 %%EOF 結束', () => {
+    assert.ok(source.startsWith('%PDF-'));
+    assert.ok(source.trimEnd().endsWith('%%EOF'));
+  });
+
+  it('xref 表的位移指向每個物件', () => {
+    const startxref = Number(/startxref\s+(\d+)/.exec(source)[1]);
+    assert.ok(source.startsWith('xref', startxref));
+    const offsets = [...source.slice(startxref).matchAll(/^(\d{10}) 00000 n/gm)].map((match) => Number(match[1]));
+    assert.ok(offsets.length > 0);
+    offsets.forEach((offset, index) => {
+      assert.ok(source.startsWith(`${index + 1} 0 obj`, offset), `物件 ${index + 1}`);
+    });
+  });
+
+  it('內容超過一頁時自動換頁', () => {
+    const count = Number(/\/Count (\d+)/.exec(source)[1]);
+    assert.ok(count > 1);
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * 影片更新優先級規則：條件比對、計分、排除規則與規則驗證
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  DEFAULT_PRIORITY_RULE_SET,
+  rankVideosByPriority,
+  renderReason,
+  scoreVideos,
+  validatePriorityRuleSet,
+} from '../services/priorityRules.js';
+
+function makeVideo(videoId, { views = 1000, impressions = 5000, ctr = 6, averageViewPercentage = '50', likeRatio = '3', searchPercentage = '10', durationSeconds = 600 } = {}) {
+  return {
+    videoId,
+    title: videoId,
+    durationSeconds,
+    metrics: { views, averageViewPercentage, likeRatio, comments: 0, shares: 0, subscribersGained: 0 },
+    impressions: { impressions, ctr },
+    trafficSources: { searchPercentage },
+  };
+}
+
+describe('scoreVideos（預設規則）', () => {
+  it('符合的規則權重相加，並以實際數值產生原因', () => {
+    const [video] = scoreVideos([makeVideo('v1', { ctr: 3.5, averageViewPercentage: '35.5' })], DEFAULT_PRIORITY_RULE_SET);
+    assert.equal(video.priorityScore, 90);
+    assert.deepEqual(video.matchedRuleIds, ['low-ctr-high-impressions', 'low-view-percentage']);
+    assert.deepEqual(video.updateReasons, [
+      'CTR 過低 (3.50%)，但曝光量高 (5000)',
+      '觀看時長過低 (35.5%)，可能標題與內容不符',
+    ]);
+  });
+
+  it('排除規則讓分數歸零，只保留排除原因', () => {
+    const [video] = scoreVideos([makeVideo('v1', { views: 30, ctr: 3 })], DEFAULT_PRIORITY_RULE_SET);
+    assert.equal(video.priorityScore, 0);
+    assert.deepEqual(video.updateReasons, ['近期觀看次數過低，不建議更新']);
+    assert.ok(video.matchedRuleIds.includes('low-ctr-high-impressions'));
+  });
+
+  it('指標缺少數值時條件不成立', () => {
+    const [video] = scoreVideos([makeVideo('v1', { ctr: null, likeRatio: 'N/A' })], DEFAULT_PRIORITY_RULE_SET);
+    assert.equal(video.priorityScore, 0);
+    assert.deepEqual(video.matchedRuleIds, []);
+  });
+});
+
+describe('rankVideosByPriority', () => {
+  it('只列出有分數的影片，依分數排序並限制數量', () => {
+    const videos = [
+      makeVideo('none'),
+      makeVideo('low', { likeRatio: '0.5' }),
+      makeVideo('high', { ctr: 2, averageViewPercentage: '20' }),
+      makeVideo('mid', { ctr: 2 }),
+    ];
+    assert.deepEqual(rankVideosByPriority(videos).map((video) => video.videoId), ['high', 'mid', 'low']);
+    assert.deepEqual(
+      rankVideosByPriority(videos, { ...DEFAULT_PRIORITY_RULE_SET, maxResults: 1 }).map((video) => video.videoId),
+      ['high']
+    );
+  });
+
+  it('依內容類型套用規則，停用的規則不計分', () => {
+    const ruleSet = {
+      maxResults: 10,
+      rules: [
+        { id: 'shorts', effect: 'add', weight: 10, contentType: 'short', conditions: [{ metric: 'views', operator: '>=', threshold: 0 }], reasonTemplate: 'Shorts' },
+        { id: 'disabled', effect: 'add', weight: 99, contentType: 'all', enabled: false, conditions: [{ metric: 'views', operator: '>=', threshold: 0 }], reasonTemplate: '停用' },
+      ],
+    };
+    const ranked = rankVideosByPriority([makeVideo('long'), makeVideo('short', { durationSeconds: 60 })], ruleSet);
+    assert.deepEqual(ranked.map((video) => [video.videoId, video.priorityScore, video.contentType]), [['short', 10, 'short']]);
+  });
+});
+
+describe('renderReason', () => {
+  it('未知的指標保留原樣，缺少數值顯示 -', () => {
+    assert.equal(renderReason('{views} / {unknown} / {ctr}', makeVideo('v1', { views: 12.6, ctr: null })), '13 / {unknown} / -');
+  });
+});
+
+describe('validatePriorityRuleSet', () => {
+  it('補上預設值並整理規則', () => {
+    const { ruleSet, errors } = validatePriorityRuleSet({
+      rules: [
+        { effect: 'add', weight: '15', conditions: [{ metric: 'views', operator: '>', threshold: '10' }], reasonTemplate: ' 原因 ' },
+        { effect: 'exclude', weight: 999, conditions: [{ metric: 'ctr', operator: '<', threshold: 1 }], reasonTemplate: '排除' },
+      ],
+    });
+    assert.deepEqual(errors, []);
+    assert.equal(ruleSet.maxResults, 50);
+    assert.deepEqual(ruleSet.rules.map((rule) => [rule.id, rule.weight, rule.reasonTemplate]), [
+      ['rule-1', 15, '原因'],
+      ['rule-2', 0, '排除'],
+    ]);
+    assert.equal(ruleSet.rules[0].conditions[0].threshold, 10);
+  });
+
+  it('回報所有錯誤且不回傳規則', () => {
+    const { ruleSet, errors } = validatePriorityRuleSet({
+      maxResults: 0,
+      rules: [
+        { id: 'a', weight: 0, contentType: 'live', conditions: [{ metric: 'foo', operator: '!=', threshold: 'x' }], reasonTemplate: '' },
+        { id: 'a', weight: 10, conditions: [], reasonTemplate: 'ok' },
+      ],
+    });
+    assert.equal(ruleSet, null);
+    assert.deepEqual(errors, [
+      'maxResults 必須是 1 到 500 的整數',
+      '規則 1：權重必須介於 0 到 1000',
+      '規則 1：不支援的內容類型「live」',
+      '規則 1：不支援的指標「foo」',
+      '規則 1：不支援的運算子「!=」',
+      '規則 1：門檻必須是數字',
+      '規則 1：原因模板不能空白',
+      '規則 2：id「a」重複',
+      '規則 2：需要 1 到 5 個條件',
+    ]);
+    assert.deepEqual(validatePriorityRuleSet({}).errors, ['rules 必須是陣列']);
+  });
+});
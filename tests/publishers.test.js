@@ -0,0 +1,62 @@
+/**
+ * 發佈目標的截圖處理：只有 public/images 內的截圖可以被讀取並送出
+ */
+
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { resolveLocalImagePath } from '../services/notionService.js';
+import { WebhookPublisher } from '../services/publishers/WebhookPublisher.js';
+
+describe('截圖路徑限制', () => {
+  const originalCwd = process.cwd();
+  let workDir;
+
+  before(() => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'publisher-test-'));
+    fs.mkdirSync(path.join(workDir, 'public', 'images'), { recursive: true });
+    fs.writeFileSync(path.join(workDir, 'public', 'images', 'shot.jpg'), 'jpeg');
+    fs.writeFileSync(path.join(workDir, '.env'), 'SECRET=1');
+    process.chdir(workDir);
+  });
+
+  after(() => {
+    process.chdir(originalCwd);
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it('接受 /images/<檔名> 與本機伺服器網址', () => {
+    const expected = fs.realpathSync(path.join(workDir, 'public', 'images', 'shot.jpg'));
+    assert.equal(resolveLocalImagePath('/images/shot.jpg'), expected);
+    assert.equal(resolveLocalImagePath('http://localhost:3001/images/shot.jpg'), expected);
+  });
+
+  it('拒絕絕對路徑與 ../ 路徑', () => {
+    for (const url of [
+      '/etc/passwd',
+      '/.env',
+      '.env',
+      '/images/../.env',
+      '/images/../../.env',
+      'images/../../.env',
+      'http://localhost:3001/images/..%2F..%2F.env',
+      'http://localhost:3001/etc/passwd',
+    ]) {
+      assert.equal(resolveLocalImagePath(url), null, url);
+    }
+  });
+
+  it('Webhook embedImages 只嵌入截圖目錄內的檔案', async () => {
+    const publisher = new WebhookPublisher({ url: 'http://127.0.0.1:9/hook', embedImages: true });
+    const [group] = await publisher.prepareScreenshotGroups({
+      imageUrls: [['/images/shot.jpg', '/etc/passwd', '/images/../../.env']],
+      baseUrl: 'http://localhost:3001',
+    });
+
+    assert.equal(group.images[0].data, Buffer.from('jpeg').toString('base64'));
+    assert.deepEqual(group.images[1], { url: 'http://localhost:3001/etc/passwd' });
+    assert.equal(group.images[2].data, undefined);
+  });
+});
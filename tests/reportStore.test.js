@@ -0,0 +1,33 @@
+/**
+ * 定期報表設定：只列出使用者自己建立的報表，回傳時遮罩 webhookSecret
+ */
+
+import './helpers/tempDataDir.js';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { getReport, listReports, saveReport } from '../services/reportStore.js';
+
+describe('reportStore', () => {
+  const alice = saveReport(null, { name: 'A 週報', channelId: 'UC_a', delivery: { webhookSecret: 's3cret' } }, 'alice@example.com');
+  const aliceOther = saveReport(null, { name: 'B 週報', channelId: 'UC_b' }, 'alice@example.com');
+  saveReport(null, { name: 'Bob 週報', channelId: 'UC_a' }, 'bob@example.com');
+
+  it('只列出使用者建立的報表，可再依頻道篩選', () => {
+    assert.deepEqual(listReports({ createdBy: 'alice@example.com' }).map((report) => report.id).sort(), [alice.id, aliceOther.id].sort());
+    assert.deepEqual(listReports({ createdBy: 'alice@example.com', channelId: 'UC_a' }).map((report) => report.id), [alice.id]);
+    assert.deepEqual(listReports({ createdBy: 'carol@example.com' }), []);
+  });
+
+  it('回傳時遮罩 webhookSecret，伺服器端仍可取得', () => {
+    const [listed] = listReports({ createdBy: 'alice@example.com', channelId: 'UC_a' });
+    assert.equal(listed.webhookSecret, undefined);
+    assert.deepEqual(listed.secrets, { webhookSecret: true });
+    assert.equal(getReport(alice.id).webhookSecret, 's3cret');
+  });
+
+  it('更新時保留建立者，webhookSecret 留空時沿用原本的值', () => {
+    saveReport(alice.id, { name: 'A 週報（改）', channelId: 'UC_a' }, 'bob@example.com');
+    assert.equal(getReport(alice.id).createdBy, 'alice@example.com');
+    assert.equal(getReport(alice.id).webhookSecret, 's3cret');
+  });
+});
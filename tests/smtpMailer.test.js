@@ -0,0 +1,100 @@
+/**
+ * 報表寄信：以本機模擬的 SMTP 伺服器確認不會以明文送出帳密
+ */
+
+import { after, afterEach, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import net from 'net';
+import { sendMail } from '../services/smtpMailer.js';
+
+// 不支援 STARTTLS 的 SMTP 伺服器，記錄收到的每一行
+function createPlaintextSmtpServer() {
+  const received = [];
+  const server = net.createServer((socket) => {
+    let buffer = '';
+    let inData = false;
+    socket.write('220 localhost ESMTP\r\n');
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString('utf8');
+      let index;
+      while ((index = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+        received.push(line);
+        if (inData) {
+          if (line === '.') {
+            inData = false;
+            socket.write('250 OK queued\r\n');
+          }
+          continue;
+        }
+        const verb = line.split(' ')[0].toUpperCase();
+        if (verb === 'EHLO') socket.write('250-localhost\r\n250-SIZE 10485760\r\n250 AUTH PLAIN LOGIN\r\n');
+        else if (verb === 'DATA') {
+          inData = true;
+          socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+        } else if (verb === 'QUIT') socket.end('221 Bye\r\n');
+        else if (verb === 'STARTTLS') socket.write('502 Command not implemented\r\n');
+        else if (verb === 'AUTH') socket.write('235 Authentication successful\r\n');
+        else socket.write('250 OK\r\n');
+      }
+    });
+  });
+  return { server, received };
+}
+
+describe('sendMail', () => {
+  const originalEnv = { ...process.env };
+  let smtp;
+
+  before(async () => {
+    smtp = createPlaintextSmtpServer();
+    await new Promise((resolve) => smtp.server.listen(0, '127.0.0.1', resolve));
+  });
+
+  afterEach(() => {
+    smtp.received.length = 0;
+    process.env = { ...originalEnv };
+  });
+
+  after(() => new Promise((resolve) => smtp.server.close(resolve)));
+
+  const useServer = (extra) => {
+    Object.assign(process.env, {
+      SMTP_HOST: '127.0.0.1',
+      SMTP_PORT: String(smtp.server.address().port),
+      SMTP_FROM: 'Reports <reports@example.com>',
+      ...extra,
+    });
+  };
+
+  it('伺服器不支援 STARTTLS 時拒絕以明文驗證', async () => {
+    useServer({ SMTP_USER: 'reports@example.com', SMTP_PASS: 'secret-password' });
+
+    await assert.rejects(
+      sendMail({ to: ['someone@example.com'], subject: '週報', text: 'hello' }),
+      /SMTP 寄送失敗/
+    );
+    assert.ok(!smtp.received.some((line) => /^AUTH/i.test(line)), '不應送出 AUTH 指令');
+    assert.ok(!smtp.received.some((line) => line.includes(Buffer.from('secret-password').toString('base64'))));
+  });
+
+  it('未設定帳號時可以寄出，內文以 . 開頭的行會被跳脫', async () => {
+    useServer({ SMTP_USER: '', SMTP_PASS: '' });
+
+    await sendMail({
+      to: ['someone@example.com'],
+      subject: '週報',
+      text: 'first line\r\n.leading dot\r\nlast line',
+      attachments: [{ fileName: 'report.pdf', mimeType: 'application/pdf', content: Buffer.from('%PDF-1.4') }],
+    });
+    assert.ok(smtp.received.includes('RCPT TO:<someone@example.com>'));
+    assert.ok(smtp.received.includes('..leading dot'));
+  });
+
+  it('收件者格式不正確時不連線', async () => {
+    useServer({});
+    await assert.rejects(sendMail({ to: ['not-an-email'], subject: 'x', text: 'x' }), /收件者 Email 格式不正確/);
+    assert.equal(smtp.received.length, 0);
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * 標籤研究：標籤長度計算、近似重複合併與建議標籤排序
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  dedupeTags,
+  isRelevantSuggestion,
+  measureTagsLength,
+  rankTagSuggestions,
+  selectTagsWithinLimit,
+} from '../services/tagResearch.js';
+
+describe('measureTagsLength', () => {
+  it('含空白的標籤加上引號，標籤之間計入逗號', () => {
+    assert.equal(measureTagsLength(['a b', 'c', '  ']), 7);
+    assert.equal(measureTagsLength(['咖啡']), 2);
+  });
+});
+
+describe('dedupeTags', () => {
+  it('忽略大小寫、全形、# 與標點，保留第一次出現的寫法', () => {
+    const { tags, duplicates } = dedupeTags(['#iPhone', 'iphone', 'ＩＰＨＯＮＥ', 'i-phone', '教學', ' 教學 ']);
+    assert.deepEqual(tags, ['iPhone', '教學']);
+    assert.deepEqual(duplicates.map((item) => item.duplicateOf), ['iPhone', 'iPhone', 'iPhone', '教學']);
+  });
+
+  it('只對較長的英數標籤做拼字容錯', () => {
+    assert.deepEqual(dedupeTags(['tutorial', 'tutorials', 'tutoral']).tags, ['tutorial']);
+    assert.deepEqual(dedupeTags(['cat', 'cats']).tags, ['cat', 'cats']);
+    assert.deepEqual(dedupeTags(['咖啡', '咖啡豆']).tags, ['咖啡', '咖啡豆']);
+  });
+});
+
+describe('selectTagsWithinLimit', () => {
+  it('依序挑選，略過會超出上限的標籤', () => {
+    assert.deepEqual(selectTagsWithinLimit(['aaaa', 'bbbbbb', 'cc'], 8), ['aaaa', 'cc']);
+  });
+});
+
+describe('rankTagSuggestions', () => {
+  const suggestions = rankTagSuggestions({
+    videoId: 'current',
+    aiTags: ['iPhone'],
+    searchTerms: [
+      { term: 'iphone 15 評測', views: 80 },
+      { term: 'other', views: 20 },
+    ],
+    cachedVideos: [
+      { videoId: 'current', tags: ['vlog', 'vlog2'], viewCount: 99999 },
+      { videoId: 'v1', tags: ['vlog'], viewCount: 500 },
+      { videoId: 'v2', tags: ['Vlog', 'cooking'], viewCount: 400 },
+      { videoId: 'v3', tags: ['travel'], viewCount: 300 },
+      { videoId: 'v4', tags: [], viewCount: 200 },
+    ],
+  });
+  const byTag = Object.fromEntries(suggestions.map((item) => [item.tag, item]));
+
+  it('依搜尋字詞、頻道熱門影片、使用頻率與 AI 建議計分並排序', () => {
+    assert.deepEqual(suggestions.map((item) => [item.tag, item.score]), [
+      ['iPhone', 50],
+      ['iphone 15 評測', 40],
+      ['vlog', 24],
+      ['other', 16],
+    ]);
+    assert.deepEqual(byTag.iPhone.reasons.map((reason) => reason.type), ['search-term', 'ai']);
+    assert.match(byTag.iPhone.reasons[0].message, /80\.0%/);
+  });
+
+  it('計算頻道數據時排除目前影片，只被一支影片使用的標籤不列入候選', () => {
+    assert.match(byTag.vlog.reasons[1].message, /4 支影片中有 2 支使用/);
+    assert.equal(byTag.cooking, undefined);
+    assert.equal(byTag.vlog2, undefined);
+  });
+
+  it('只有來自頻道數據的標籤不視為與影片相關', () => {
+    assert.equal(isRelevantSuggestion(byTag.iPhone), true);
+    assert.equal(isRelevantSuggestion(byTag.other), true);
+    assert.equal(isRelevantSuggestion(byTag.vlog), false);
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * 取消執行中的任務：觸發 AbortSignal、忽略之後的結果，AI 請求不再降級重試
+ */
+
+import './helpers/tempDataDir.js';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  TaskStatus,
+  cancelTask,
+  createTask,
+  executeTask,
+  getTask,
+  getTaskSignal,
+  updateTaskProgress,
+} from '../services/taskQueue.js';
+import { generateContentWithFallback } from '../services/aiProviders/geminiFallback.js';
+
+describe('cancelTask（執行中）', () => {
+  it('觸發 signal，executor 因此拋出的錯誤不會把任務改成失敗', async () => {
+    const taskId = createTask('analyze-video-url', {}, { userId: 'abort@example.com' });
+    let receivedSignal;
+    const done = executeTask(taskId, (_id, { signal }) => {
+      receivedSignal = signal;
+      return new Promise((_resolve, reject) => {
+        signal.addEventListener('abort', () => reject(signal.reason));
+      });
+    });
+
+    assert.equal(getTaskSignal(taskId), receivedSignal);
+    assert.equal(cancelTask(taskId), true);
+    await done;
+
+    assert.equal(receivedSignal.aborted, true);
+    assert.equal(receivedSignal.reason.message, '任務已取消');
+    assert.equal(getTask(taskId).status, TaskStatus.CANCELLED);
+    assert.equal(getTask(taskId).error, null);
+    assert.equal(getTaskSignal(taskId), null);
+  });
+
+  it('取消後 executor 仍回傳結果時忽略進度與結果', async () => {
+    const taskId = createTask('analyze-video-url', {}, { userId: 'abort@example.com' });
+    const done = executeTask(taskId, async (id) => {
+      cancelTask(id);
+      updateTaskProgress(id, 90, '已經取消了');
+      return { late: true };
+    });
+    await done;
+
+    const task = getTask(taskId);
+    assert.equal(task.status, TaskStatus.CANCELLED);
+    assert.equal(task.result, null);
+    assert.equal(task.progressMessage, '任務已取消');
+  });
+});
+
+describe('generateContentWithFallback', () => {
+  it('abortSignal 已觸發時不再換下一個模型', async () => {
+    const controller = new AbortController();
+    const calls = [];
+    const client = {
+      models: {
+        generateContent: async ({ model }) => {
+          calls.push(model);
+          controller.abort();
+          throw Object.assign(new Error('The model is overloaded'), { status: 503 });
+        },
+      },
+    };
+
+    await assert.rejects(
+      generateContentWithFallback(client, { contents: 'hi', config: { abortSignal: controller.signal } }),
+      /overloaded/
+    );
+    assert.equal(calls.length, 1);
+  });
+
+  it('未取消時過載會降級到下一個模型', async () => {
+    const calls = [];
+    const client = {
+      models: {
+        generateContent: async ({ model }) => {
+          calls.push(model);
+          if (calls.length === 1) throw Object.assign(new Error('unavailable'), { status: 503 });
+          return { text: 'ok' };
+        },
+      },
+    };
+
+    const response = await generateContentWithFallback(client, { contents: 'hi' });
+    assert.equal(response.text, 'ok');
+    assert.equal(calls.length, 2);
+  });
+});
@@ -0,0 +1,43 @@
+/**
+ * 批次中繼資料任務：同一批次的任務共用 batchId，依使用者查詢批次狀態
+ */
+
+import './helpers/tempDataDir.js';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { TaskStatus, createTask, executeTask, getQueuePosition, listTasksByUser } from '../services/taskQueue.js';
+
+describe('batch tasks', () => {
+  it('批次任務記錄 batchId，只有建立者查得到', () => {
+    const batchId = 'batch_test_1';
+    const ids = ['vid1', 'vid2', 'vid3'].map((videoId) =>
+      createTask('analyze-video-url', { videoId }, { userId: 'owner@example.com', batchId })
+    );
+    createTask('analyze-video-url', { videoId: 'vid4' }, { userId: 'owner@example.com' });
+
+    const batchTasks = listTasksByUser('owner@example.com').filter((task) => task.batchId === batchId);
+    assert.deepEqual(batchTasks.map((task) => task.id).sort(), [...ids].sort());
+    assert.equal(listTasksByUser('other@example.com').filter((task) => task.batchId === batchId).length, 0);
+  });
+
+  it('大批次不會擋住其他使用者的任務', async () => {
+    let release;
+    const gate = new Promise((resolve) => {
+      release = resolve;
+    });
+    const batchIds = Array.from({ length: 5 }, (_, index) =>
+      createTask('analyze-video-url', { videoId: `batch${index}` }, { userId: 'batcher@example.com', batchId: 'batch_test_2' })
+    );
+    const otherId = createTask('analyze-video-url', { videoId: 'single' }, { userId: 'single@example.com' });
+    const done = [...batchIds, otherId].map((taskId) => executeTask(taskId, () => gate));
+
+    // 批次的前兩支在執行，其他使用者的任務排在剩下的批次任務前面
+    const statusById = () => new Map(listTasksByUser('batcher@example.com').map((task) => [task.id, task.status]));
+    assert.equal(batchIds.filter((taskId) => statusById().get(taskId) === TaskStatus.PROCESSING).length, 2);
+    assert.equal(getQueuePosition(otherId), 1);
+
+    release();
+    await Promise.all(done);
+    assert.ok(batchIds.every((taskId) => statusById().get(taskId) === TaskStatus.COMPLETED));
+  });
+});
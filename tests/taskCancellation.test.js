@@ -0,0 +1,66 @@
+/**
+ * 任務歷史與取消狀態
+ */
+
+import './helpers/tempDataDir.js';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  TaskStatus,
+  cancelTask,
+  createTask,
+  executeTask,
+  getQueuePosition,
+  getTask,
+  listTasksByUser,
+} from '../services/taskQueue.js';
+
+describe('listTasksByUser', () => {
+  it('只列出該使用者的任務，新的在前', async () => {
+    const first = createTask('analyze-video-url', { n: 1 }, { userId: 'history@example.com' });
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    const second = createTask('analyze-video-url', { n: 2 }, { userId: 'history@example.com' });
+    createTask('analyze-video-url', { n: 3 }, { userId: 'someone-else@example.com' });
+
+    assert.deepEqual(
+      listTasksByUser('history@example.com').map((task) => task.id),
+      [second, first]
+    );
+  });
+});
+
+describe('cancelTask', () => {
+  it('排隊中的任務移出隊列，executor 不會執行', async () => {
+    // 同一位使用者先佔滿 2 個名額，第三個任務會在排隊
+    const blockers = [];
+    const releases = [];
+    for (let i = 0; i < 2; i++) {
+      const taskId = createTask('analyze-video-url', {}, { userId: 'queue@example.com' });
+      blockers.push(executeTask(taskId, () => new Promise((resolve) => releases.push(resolve))));
+    }
+    const queuedId = createTask('analyze-video-url', {}, { userId: 'queue@example.com' });
+    let executed = false;
+    const queuedDone = executeTask(queuedId, async () => {
+      executed = true;
+    });
+    assert.equal(getQueuePosition(queuedId), 1);
+
+    assert.equal(cancelTask(queuedId), true);
+    await queuedDone;
+    assert.equal(getTask(queuedId).status, TaskStatus.CANCELLED);
+    assert.equal(getQueuePosition(queuedId), null);
+
+    releases.forEach((release) => release());
+    await Promise.all(blockers);
+    assert.equal(executed, false);
+  });
+
+  it('已結束或不存在的任務無法取消', async () => {
+    const taskId = createTask('analyze-video-url', {}, { userId: 'done@example.com' });
+    await executeTask(taskId, async () => 'ok');
+
+    assert.equal(cancelTask(taskId), false);
+    assert.equal(getTask(taskId).status, TaskStatus.COMPLETED);
+    assert.equal(cancelTask('task_missing'), false);
+  });
+});
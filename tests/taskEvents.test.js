@@ -0,0 +1,55 @@
+/**
+ * 任務事件（SSE 推送進度的來源）
+ */
+
+import './helpers/tempDataDir.js';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createTask, executeTask, subscribeToTask, updateTaskProgress } from '../services/taskQueue.js';
+
+describe('subscribeToTask', () => {
+  it('依序推送進度與完成事件', async () => {
+    const taskId = createTask('analyze-video-url', {}, { userId: 'events@example.com' });
+    const events = [];
+    const unsubscribe = subscribeToTask(taskId, (event) => events.push([event.type, event.task.progress]));
+
+    await executeTask(taskId, async (id) => {
+      updateTaskProgress(id, 40, '分析中');
+      return { ok: true };
+    });
+    unsubscribe();
+
+    assert.deepEqual(events, [
+      ['progress', 40],
+      ['completed', 100],
+    ]);
+  });
+
+  it('失敗時推送 failed，取消訂閱後不再收到事件', async () => {
+    const taskId = createTask('analyze-video-url', {}, { userId: 'events@example.com' });
+    const events = [];
+    const unsubscribe = subscribeToTask(taskId, (event) => events.push(event.type));
+
+    await executeTask(taskId, async (id) => {
+      updateTaskProgress(id, 10, '下載中');
+      unsubscribe();
+      throw new Error('boom');
+    });
+
+    assert.deepEqual(events, ['progress']);
+  });
+
+  it('只收到訂閱的任務事件', async () => {
+    const watched = createTask('analyze-video-url', {}, { userId: 'events@example.com' });
+    const other = createTask('analyze-video-url', {}, { userId: 'events@example.com' });
+    const events = [];
+    const unsubscribe = subscribeToTask(watched, (event) => events.push(event.task.id));
+
+    await executeTask(other, async () => 'other');
+    await executeTask(watched, async () => 'watched');
+    unsubscribe();
+
+    assert.ok(events.length > 0);
+    assert.ok(events.every((id) => id === watched));
+  });
+});
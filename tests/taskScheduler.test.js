@@ -0,0 +1,80 @@
+/**
+ * 任務排程：類別與每位使用者的並發上限、公平排隊順序
+ * 使用預設上限（全部 3、下載 1、分析 2、每位使用者 2）
+ */
+
+import './helpers/tempDataDir.js';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { TaskStatus, createTask, executeTask, getQueuePosition, getSchedulerStats, getTask } from '../services/taskQueue.js';
+
+// 建立任務並排入隊列，executor 會等到呼叫 finish() 才結束
+function enqueue(type, userId) {
+  const taskId = createTask(type, {}, { userId });
+  let finish;
+  const gate = new Promise((resolve) => {
+    finish = resolve;
+  });
+  const done = executeTask(taskId, () => gate);
+  return { taskId, done, finish: async () => (finish(), done) };
+}
+
+const statusOf = (taskId) => getTask(taskId).status;
+
+describe('scheduler', () => {
+  it('下載類任務一次只執行一個', async () => {
+    const first = enqueue('capture-screenshots', 'a@example.com');
+    const second = enqueue('capture-screenshots', 'b@example.com');
+
+    assert.equal(statusOf(first.taskId), TaskStatus.PROCESSING);
+    assert.equal(statusOf(second.taskId), TaskStatus.PENDING);
+    assert.equal(getQueuePosition(second.taskId), 1);
+    assert.equal(getTask(second.taskId).progressMessage, '排隊中：第 1 位，等待其他任務完成...');
+
+    await first.finish();
+    assert.equal(statusOf(first.taskId), TaskStatus.COMPLETED);
+    assert.equal(statusOf(second.taskId), TaskStatus.PROCESSING);
+    await second.finish();
+    assert.equal(getSchedulerStats().running, 0);
+  });
+
+  it('同一位使用者送出多個任務時，其他使用者的任務排在前面', async () => {
+    const [a1, a2, a3] = [1, 2, 3].map(() => enqueue('analyze-video-url', 'heavy@example.com'));
+    const b1 = enqueue('analyze-video-url', 'light@example.com');
+
+    assert.equal(statusOf(a1.taskId), TaskStatus.PROCESSING);
+    assert.equal(statusOf(a2.taskId), TaskStatus.PROCESSING);
+    assert.deepEqual(getSchedulerStats().runningByUser, { 'heavy@example.com': 2 });
+    assert.equal(getQueuePosition(b1.taskId), 1);
+    assert.equal(getQueuePosition(a3.taskId), 2);
+
+    await a1.finish();
+    assert.equal(statusOf(b1.taskId), TaskStatus.PROCESSING);
+    assert.equal(statusOf(a3.taskId), TaskStatus.PENDING);
+
+    await a2.finish();
+    assert.equal(statusOf(a3.taskId), TaskStatus.PROCESSING);
+    await Promise.all([b1.finish(), a3.finish()]);
+    assert.equal(getSchedulerStats().running, 0);
+    assert.equal(getSchedulerStats().queued, 0);
+  });
+
+  it('每位使用者最多同時執行 2 個任務，即使類別還有空位', async () => {
+    const analysis = enqueue('analyze-video-url', 'solo@example.com');
+    const download = enqueue('capture-screenshots', 'solo@example.com');
+    const extra = enqueue('capture-screenshots', 'solo@example.com');
+    const extraAnalysis = enqueue('analyze-video-url', 'solo@example.com');
+
+    assert.equal(getSchedulerStats().running, 2);
+    assert.equal(statusOf(extraAnalysis.taskId), TaskStatus.PENDING);
+
+    await analysis.finish();
+    // 釋出的名額給下一個可以執行的任務（下載類仍被佔用，因此是分析任務）
+    assert.equal(statusOf(extra.taskId), TaskStatus.PENDING);
+    assert.equal(statusOf(extraAnalysis.taskId), TaskStatus.PROCESSING);
+
+    await download.finish();
+    assert.equal(statusOf(extra.taskId), TaskStatus.PROCESSING);
+    await Promise.all([extra.finish(), extraAnalysis.finish()]);
+  });
+});
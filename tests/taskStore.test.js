@@ -0,0 +1,86 @@
+/**
+ * 任務持久化：儲存時移除敏感參數、重啟後把中斷的任務標記為失敗、清理過期任務
+ */
+
+import { TEST_DATA_DIR } from './helpers/tempDataDir.js';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'path';
+import { createFileTaskStore } from '../services/taskStore.js';
+import {
+  TaskStatus,
+  cleanupCompletedTasks,
+  createTask,
+  getTask,
+  setTaskStore,
+} from '../services/taskQueue.js';
+
+// 記錄 save / remove 的內存 store，loadAll 回傳指定的任務
+function createRecordingStore(initialTasks = []) {
+  const saved = new Map(initialTasks.map((task) => [task.id, task]));
+  return {
+    name: 'recording',
+    saved,
+    loadAll: () => initialTasks.map((task) => ({ ...task })),
+    save: (task) => saved.set(task.id, structuredClone(task)),
+    remove: (taskId) => saved.delete(taskId),
+    flush() {},
+  };
+}
+
+describe('createFileTaskStore', () => {
+  it('寫入檔案時移除 accessToken，重新載入後仍可讀到任務', () => {
+    const fileName = 'tasks-store-test.json';
+    const store = createFileTaskStore(fileName);
+    store.save({ id: 'task_1', status: 'completed', params: { videoId: 'abc', accessToken: 'ya29.secret' } });
+    store.flush();
+
+    assert.equal(store.filePath, path.join(TEST_DATA_DIR, fileName));
+    const [reloaded] = createFileTaskStore(fileName).loadAll();
+    assert.deepEqual(reloaded.params, { videoId: 'abc' });
+  });
+});
+
+describe('setTaskStore', () => {
+  it('把上次執行中或等待中的任務標記為中斷失敗', () => {
+    const store = createRecordingStore([
+      { id: 'running', status: TaskStatus.PROCESSING, createdAt: 1, completedAt: null },
+      { id: 'queued', status: TaskStatus.PENDING, createdAt: 2, completedAt: null },
+      { id: 'done', status: TaskStatus.COMPLETED, createdAt: 3, completedAt: Date.now(), result: { ok: true } },
+    ]);
+    setTaskStore(store);
+
+    for (const taskId of ['running', 'queued']) {
+      const task = getTask(taskId);
+      assert.equal(task.status, TaskStatus.FAILED);
+      assert.equal(task.interrupted, true);
+      assert.equal(store.saved.get(taskId).status, TaskStatus.FAILED);
+    }
+    assert.deepEqual(getTask('done').result, { ok: true });
+  });
+
+  it('新任務寫入目前的 store', () => {
+    const store = createRecordingStore();
+    setTaskStore(store);
+    const taskId = createTask('analyze-video-url', { videoId: 'abc' }, { userId: 'user@example.com' });
+    assert.equal(store.saved.get(taskId).status, TaskStatus.PENDING);
+  });
+});
+
+describe('cleanupCompletedTasks', () => {
+  it('只清理超過保留時間的已結束任務', () => {
+    const longAgo = Date.now() - 30 * 24 * 60 * 60 * 1000;
+    const store = createRecordingStore([
+      { id: 'old-done', status: TaskStatus.COMPLETED, createdAt: longAgo, completedAt: longAgo },
+      { id: 'old-failed', status: TaskStatus.FAILED, createdAt: longAgo, completedAt: longAgo },
+      { id: 'recent-done', status: TaskStatus.COMPLETED, createdAt: Date.now(), completedAt: Date.now() },
+    ]);
+    setTaskStore(store);
+    cleanupCompletedTasks();
+
+    assert.equal(getTask('old-done'), null);
+    assert.equal(getTask('old-failed'), null);
+    assert.ok(getTask('recent-done'));
+    assert.deepEqual([...store.saved.keys()], ['recent-done']);
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * 標題 A/B 輪替實驗：建立驗證、時段排程與勝出者判定
+ */
+
+import './helpers/tempDataDir.js';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  buildTitleExperimentReport,
+  createTitleExperiment,
+  findActiveTitleExperiment,
+  listDueTitleRotations,
+  recordTitleExperimentWindow,
+} from '../services/titleExperimentService.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+// 2026-01-01 的分析日（太平洋時間）開始於 UTC 08:00
+const DAY_ONE_START = Date.parse('2026-01-01T08:00:00Z');
+
+let videoCounter = 0;
+
+function createExperiment(overrides = {}) {
+  videoCounter += 1;
+  return createTitleExperiment({
+    userId: 'alice@example.com',
+    videoId: `video${videoCounter}`,
+    originalTitle: '原始標題',
+    variants: [
+      { label: 'A', title: '標題 A' },
+      { label: 'B', title: '標題 B' },
+    ],
+    rotationHours: 24,
+    cycles: 1,
+    ...overrides,
+  });
+}
+
+// A 在 1/1 上線、B 在 1/2 上線，各剛好一個分析日
+function createTwoDayExperiment() {
+  const experiment = createExperiment();
+  recordTitleExperimentWindow(experiment.id, 0, DAY_ONE_START);
+  recordTitleExperimentWindow(experiment.id, 1, DAY_ONE_START + DAY_MS);
+  return experiment;
+}
+
+describe('createTitleExperiment', () => {
+  it('拒絕不足兩個、重複或過長的標題', () => {
+    assert.throws(() => createExperiment({ variants: [{ label: 'A', title: '只有一個' }] }), /two title variants/);
+    assert.throws(
+      () => createExperiment({ variants: [{ label: 'A', title: '相同' }, { label: 'B', title: '相同' }] }),
+      /must be different/
+    );
+    assert.throws(
+      () => createExperiment({ variants: [{ label: 'A', title: 'x'.repeat(101) }, { label: 'B', title: 'y' }] }),
+      /at most 100 characters/
+    );
+  });
+
+  it('拒絕超出範圍的時段長度與輪數', () => {
+    assert.throws(() => createExperiment({ rotationHours: 12 }), /rotationHours/);
+    assert.throws(() => createExperiment({ rotationHours: 24 * 15 }), /rotationHours/);
+    assert.throws(() => createExperiment({ cycles: 0 }), /cycles/);
+    assert.throws(() => createExperiment({ cycles: 6 }), /cycles/);
+  });
+
+  it('依輪數排出時段，並成為影片進行中的實驗', () => {
+    const experiment = createExperiment({ cycles: 2 });
+    assert.deepEqual(experiment.plan, [0, 1, 0, 1]);
+    assert.equal(experiment.status, 'scheduled');
+    assert.equal(findActiveTitleExperiment(experiment.videoId), experiment);
+  });
+});
+
+describe('title experiment rotation', () => {
+  it('只接受排程中的下一個標題，並結束上一個時段', () => {
+    const experiment = createExperiment();
+    const [due] = listDueTitleRotations('alice@example.com').filter((item) => item.experimentId === experiment.id);
+    assert.equal(due.variantIndex, 0);
+
+    assert.throws(() => recordTitleExperimentWindow(experiment.id, 1, DAY_ONE_START), /next scheduled title/);
+    recordTitleExperimentWindow(experiment.id, 0, DAY_ONE_START);
+    recordTitleExperimentWindow(experiment.id, 1, DAY_ONE_START + DAY_MS);
+
+    assert.equal(experiment.status, 'running');
+    assert.equal(experiment.windows[0].endedAt, DAY_ONE_START + DAY_MS);
+    assert.equal(experiment.nextRotationAt, DAY_ONE_START + 2 * DAY_MS);
+  });
+
+  it('其他使用者不會收到輪替，最後一個時段到期後標記完成', () => {
+    const experiment = createTwoDayExperiment();
+    const end = DAY_ONE_START + 2 * DAY_MS;
+
+    assert.equal(listDueTitleRotations('bob@example.com', end).length, 0);
+    const due = listDueTitleRotations('alice@example.com', end).filter((item) => item.experimentId === experiment.id);
+    assert.deepEqual(due, []);
+    assert.equal(experiment.status, 'completed');
+    assert.equal(experiment.windows[1].endedAt, end);
+    assert.equal(findActiveTitleExperiment(experiment.videoId), null);
+  });
+});
+
+describe('buildTitleExperimentReport', () => {
+  const now = DAY_ONE_START + 2 * DAY_MS;
+
+  it('每個標題曝光都足夠時以 CTR 判定勝出者', () => {
+    const experiment = createTwoDayExperiment();
+    const report = buildTitleExperimentReport(experiment, [
+      { date: '2026-01-01', views: 300, impressions: 1000, clicks: 50 },
+      { date: '2026-01-02', views: 200, impressions: 1000, clicks: 80 },
+    ], now);
+
+    assert.equal(report.metric, 'ctr');
+    assert.equal(report.winnerIndex, 1);
+    assert.deepEqual(report.variants.map((variant) => variant.ctr), [5, 8]);
+    assert.match(report.note, /比第二名高 60\.0%/);
+    assert.equal(report.dataThrough, '2026-01-02');
+  });
+
+  it('曝光不足時改以每日觀看次數判定', () => {
+    const experiment = createTwoDayExperiment();
+    const report = buildTitleExperimentReport(experiment, [
+      { date: '2026-01-01', views: 300, impressions: 99, clicks: 50 },
+      { date: '2026-01-02', views: 200, impressions: 1000, clicks: 10 },
+    ], now);
+
+    assert.equal(report.metric, 'viewsPerDay');
+    assert.equal(report.winnerIndex, 0);
+    assert.deepEqual(report.variants.map((variant) => variant.viewsPerDay), [300, 200]);
+    assert.match(report.note, /曝光數不足 100/);
+  });
+
+  it('輪替當天的數據依重疊時數分攤給前後兩個標題', () => {
+    const experiment = createExperiment();
+    recordTitleExperimentWindow(experiment.id, 0, DAY_ONE_START);
+    recordTitleExperimentWindow(experiment.id, 1, DAY_ONE_START + 6 * HOUR_MS);
+    const report = buildTitleExperimentReport(experiment, [
+      { date: '2026-01-01', views: 400, impressions: 400, clicks: 40 },
+    ], DAY_ONE_START + DAY_MS);
+
+    assert.deepEqual(report.variants.map((variant) => variant.coveredHours), [6, 18]);
+    assert.deepEqual(report.variants.map((variant) => variant.views), [100, 300]);
+  });
+
+  it('表現相同或只有一個標題有數據時不判定勝出者', () => {
+    const experiment = createTwoDayExperiment();
+    const tie = buildTitleExperimentReport(experiment, [
+      { date: '2026-01-01', views: 100, impressions: 1000, clicks: 50 },
+      { date: '2026-01-02', views: 100, impressions: 1000, clicks: 50 },
+    ], now);
+    assert.equal(tie.winnerIndex, null);
+    assert.match(tie.note, /無法判定勝出者/);
+
+    const partial = buildTitleExperimentReport(experiment, [
+      { date: '2026-01-01', views: 100, impressions: 1000, clicks: 50 },
+    ], now);
+    assert.equal(partial.winnerIndex, null);
+    assert.match(partial.note, /至少需要兩個標題/);
+  });
+});
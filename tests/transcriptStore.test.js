@@ -0,0 +1,57 @@
+/**
+ * 影片逐字稿：依使用者分開保存，舊版檔案依最後更新者轉換
+ */
+
+import { TEST_DATA_DIR } from './helpers/tempDataDir.js';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+
+const segments = (text) => [{ start: 0, end: 2, text }];
+
+// 在載入 store 前寫入舊版格式（只依影片保存）的逐字稿
+fs.writeFileSync(
+  path.join(TEST_DATA_DIR, 'transcripts.json'),
+  JSON.stringify({
+    videos: {
+      legacyVideo: { videoId: 'legacyVideo', language: 'zh-TW', segments: segments('舊的'), translations: {}, updatedBy: 'alice@example.com' },
+      orphanVideo: { videoId: 'orphanVideo', language: 'zh-TW', segments: segments('沒有作者'), translations: {}, updatedBy: null },
+    },
+  })
+);
+
+const {
+  getTranscript,
+  getTranscriptSegments,
+  saveTranscript,
+  setTranscriptTranslation,
+  updateTranscriptSegments,
+} = await import('../services/transcriptStore.js');
+
+describe('transcriptStore', () => {
+  it('舊版逐字稿歸到最後更新者，沒有更新者的不會被任何人讀到', () => {
+    assert.equal(getTranscript('alice@example.com', 'legacyVideo').segments[0].text, '舊的');
+    assert.equal(getTranscript('bob@example.com', 'legacyVideo'), null);
+    assert.equal(getTranscript('alice@example.com', 'orphanVideo'), null);
+  });
+
+  it('同一支影片每位使用者各自保存，修改不會影響其他人', () => {
+    saveTranscript({ videoId: 'v1', language: 'zh-TW', segments: segments('alice 版本'), userId: 'alice@example.com' });
+    saveTranscript({ videoId: 'v1', language: 'zh-TW', segments: segments('bob 版本'), userId: 'bob@example.com' });
+
+    updateTranscriptSegments('bob@example.com', 'v1', 'zh-TW', segments('bob 修改'));
+    setTranscriptTranslation('bob@example.com', 'v1', 'en', segments('bob edit'));
+
+    assert.equal(getTranscriptSegments('alice@example.com', 'v1')[0].text, 'alice 版本');
+    assert.equal(getTranscriptSegments('alice@example.com', 'v1', 'en'), null);
+    assert.equal(getTranscriptSegments('bob@example.com', 'v1')[0].text, 'bob 修改');
+    assert.equal(getTranscriptSegments('bob@example.com', 'v1', 'en')[0].text, 'bob edit');
+  });
+
+  it('沒有自己的逐字稿時無法修改或翻譯，儲存時必須提供 userId', () => {
+    assert.equal(updateTranscriptSegments('mallory@example.com', 'v1', 'zh-TW', segments('改掉')), null);
+    assert.equal(setTranscriptTranslation('mallory@example.com', 'v1', 'en', segments('x')), null);
+    assert.throws(() => saveTranscript({ videoId: 'v2', language: 'zh-TW', segments: segments('x') }), /userId/);
+  });
+});
@@ -1,9 +1,16 @@
+export interface VideoChapter {
+  startSeconds: number;
+  title: string;
+}
+
 export interface GeneratedContentType {
   titleA: string;
   titleB: string;
   titleC: string;
   description: string;
   tags: string[];
+  /** 章節時間軸（由 metadata 生成流程整理，與說明中的章節一致） */
+  chapters?: VideoChapter[];
 }
 
 export interface YouTubeVideo {
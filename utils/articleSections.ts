@@ -0,0 +1,70 @@
+export interface ArticleSection {
+  index: number;
+  heading: string;
+  /** 去除標記後的純文字 */
+  text: string;
+}
+
+const HTML_HEADING_PATTERN = /<h[1-6][^>]*>/gi;
+const MARKDOWN_HEADING_PATTERN = /^#{1,6}\s/;
+
+const stripHtml = (html: string) =>
+  html
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const stripMarkdown = (markdown: string) =>
+  markdown
+    .replace(/^#{1,6}\s+/gm, '')
+    .replace(/[*_`>]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+function splitHtml(article: string): string[] {
+  const starts = Array.from(article.matchAll(HTML_HEADING_PATTERN), (match) => match.index ?? 0);
+  if (starts[0] !== 0) starts.unshift(0);
+  return starts.map((start, i) => article.slice(start, starts[i + 1] ?? article.length));
+}
+
+function splitMarkdown(article: string): string[] {
+  const chunks: string[] = [];
+  let current: string[] = [];
+  for (const line of article.split('\n')) {
+    if (MARKDOWN_HEADING_PATTERN.test(line) && current.some((item) => item.trim())) {
+      chunks.push(current.join('\n'));
+      current = [];
+    }
+    current.push(line);
+  }
+  chunks.push(current.join('\n'));
+  return chunks;
+}
+
+/**
+ * 將文章切成段落供審稿留言定位
+ * 以標題（HTML h1-h6 或 Markdown #）分段；沒有標題時改以空行分段
+ */
+export function splitArticleSections(article: string): ArticleSection[] {
+  const isHtml = article.trimStart().startsWith('<');
+  const strip = isHtml ? stripHtml : stripMarkdown;
+
+  let chunks = (isHtml ? splitHtml(article) : splitMarkdown(article)).filter((chunk) => strip(chunk));
+  if (chunks.length < 2) {
+    chunks = article.split(/\n\s*\n/).filter((chunk) => strip(chunk));
+  }
+
+  return chunks.map((chunk, index) => {
+    const headingMatch = isHtml
+      ? chunk.match(/<h[1-6][^>]*>([\s\S]*?)<\/h[1-6]>/i)
+      : chunk.match(/^#{1,6}\s+(.+)$/m);
+    const text = strip(chunk);
+    return {
+      index,
+      heading: headingMatch ? strip(headingMatch[1] ?? '') : text.slice(0, 40),
+      text,
+    };
+  });
+}
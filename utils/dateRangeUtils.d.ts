@@ -0,0 +1,48 @@
+/**
+ * 日期範圍工具函數的型別宣告
+ * 實作在 dateRangeUtils.js（伺服器產生定期報表時也會使用）
+ */
+
+export interface DateRange {
+  startDate: string; // YYYY-MM-DD
+  endDate: string;   // YYYY-MM-DD
+}
+
+export type RelativeDateType =
+  | 'last7days'      // 過去 7 天
+  | 'last30days'     // 過去 30 天
+  | 'thisYear'       // 今年
+  | 'lastYear'       // 去年
+  | 'thisMonth'      // 本月
+  | 'lastMonth'      // 上個月（最後一次有完整數據的月份）
+  | 'twoMonthsAgo'   // 上上個月
+  | 'lastMonthLastYear'; // 去年上個月
+
+/**
+ * 獲取相對日期範圍（使用 GMT+8 時區）
+ */
+export function getRelativeDateRange(type: RelativeDateType): DateRange;
+
+/**
+ * 解析絕對日期字符串
+ * 支援格式：
+ * - YYYY (2024) - 整年
+ * - YYYYMM (202410) - 整月
+ * - YYYY-MM (2024-10) - 整月
+ */
+export function parseAbsoluteDateRange(dateStr: string): DateRange | null;
+
+/**
+ * 獲取相對日期的顯示名稱
+ */
+export function getRelativeDateLabel(type: RelativeDateType): string;
+
+/**
+ * 解析日期配置（可以是相對日期或絕對日期）
+ */
+export function parseDateConfig(config: string): DateRange | null;
+
+/**
+ * 獲取日期範圍的顯示標籤
+ */
+export function getDateRangeLabel(config: string): string;
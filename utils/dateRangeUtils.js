@@ -4,16 +4,17 @@
  * 使用 GMT+8 時區（台北時區）
  */
 
-export interface DateRange {
-  startDate: string; // YYYY-MM-DD
-  endDate: string;   // YYYY-MM-DD
-}
+/**
+ * @typedef {object} DateRange
+ * @property {string} startDate - YYYY-MM-DD
+ * @property {string} endDate - YYYY-MM-DD
+ */
 
-function isLeapYear(year: number): boolean {
+function isLeapYear(year) {
   return (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
 }
 
-function getDaysInMonth(year: number, month: number): number {
+function getDaysInMonth(year, month) {
   const daysPerMonth = [31, isLeapYear(year) ? 29 : 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
   return daysPerMonth[month - 1];
 }
@@ -21,7 +22,7 @@ function getDaysInMonth(year: number, month: number): number {
 /**
  * 獲取 GMT+8 時區的當前日期
  */
-function getTodayGMT8(): Date {
+function getTodayGMT8() {
   // 用 Intl 取台北時區的「今天」年月日，避免在非 GMT+8 環境重複套用本地偏移
   const parts = new Intl.DateTimeFormat('en-CA', {
     timeZone: 'Asia/Taipei',
@@ -29,20 +30,23 @@ function getTodayGMT8(): Date {
     month: '2-digit',
     day: '2-digit',
   }).formatToParts(new Date());
-  const get = (t: string) => parts.find((p) => p.type === t)?.value || '0';
+  const get = (t) => parts.find((p) => p.type === t)?.value || '0';
   // 回傳本地 Date，其年/月/日對應台北當天（設中午避免午夜/DST 邊界）
   return new Date(Number(get('year')), Number(get('month')) - 1, Number(get('day')), 12, 0, 0);
 }
 
-export type RelativeDateType =
-  | 'last7days'      // 過去 7 天
-  | 'last30days'     // 過去 30 天
-  | 'thisYear'       // 今年
-  | 'lastYear'       // 去年
-  | 'thisMonth'      // 本月
-  | 'lastMonth'      // 上個月（最後一次有完整數據的月份）
-  | 'twoMonthsAgo'   // 上上個月
-  | 'lastMonthLastYear'; // 去年上個月
+/**
+ * 相對日期類型
+ * - last7days：過去 7 天
+ * - last30days：過去 30 天
+ * - thisYear：今年
+ * - lastYear：去年
+ * - thisMonth：本月
+ * - lastMonth：上個月（最後一次有完整數據的月份）
+ * - twoMonthsAgo：上上個月
+ * - lastMonthLastYear：去年上個月
+ * @typedef {'last7days' | 'last30days' | 'thisYear' | 'lastYear' | 'thisMonth' | 'lastMonth' | 'twoMonthsAgo' | 'lastMonthLastYear'} RelativeDateType
+ */
 
 /**
  * 獲取上個月（最後一次有完整數據的月份）
@@ -50,7 +54,7 @@ export type RelativeDateType =
  * 如果當月還未結束，則返回上上個月
  * 使用 GMT+8 時區
  */
-function getLastCompleteMonth(): Date {
+function getLastCompleteMonth() {
   const today = getTodayGMT8();
   const currentDay = today.getDate();
 
@@ -69,8 +73,10 @@ function getLastCompleteMonth(): Date {
 
 /**
  * 獲取相對日期範圍（使用 GMT+8 時區）
+ * @param {RelativeDateType} type
+ * @returns {DateRange}
  */
-export function getRelativeDateRange(type: RelativeDateType): DateRange {
+export function getRelativeDateRange(type) {
   const today = getTodayGMT8();
   const year = today.getFullYear();
   const month = today.getMonth(); // 0-11
@@ -162,8 +168,10 @@ export function getRelativeDateRange(type: RelativeDateType): DateRange {
  * - YYYY (2024) - 整年
  * - YYYYMM (202410) - 整月
  * - YYYY-MM (2024-10) - 整月
+ * @param {string} dateStr
+ * @returns {DateRange | null}
  */
-export function parseAbsoluteDateRange(dateStr: string): DateRange | null {
+export function parseAbsoluteDateRange(dateStr) {
   // 移除空格
   dateStr = dateStr.trim();
 
@@ -215,7 +223,7 @@ export function parseAbsoluteDateRange(dateStr: string): DateRange | null {
 /**
  * 格式化日期為 YYYY-MM-DD
  */
-function formatDate(date: Date): string {
+function formatDate(date) {
   const year = date.getFullYear();
   const month = String(date.getMonth() + 1).padStart(2, '0');
   const day = String(date.getDate()).padStart(2, '0');
@@ -224,9 +232,12 @@ function formatDate(date: Date): string {
 
 /**
  * 獲取相對日期的顯示名稱
+ * @param {RelativeDateType} type
+ * @returns {string}
  */
-export function getRelativeDateLabel(type: RelativeDateType): string {
-  const labels: Record<RelativeDateType, string> = {
+export function getRelativeDateLabel(type) {
+  /** @type {Record<RelativeDateType, string>} */
+  const labels = {
     last7days: '過去 7 天',
     last30days: '過去 30 天',
     thisYear: '今年',
@@ -242,11 +253,13 @@ export function getRelativeDateLabel(type: RelativeDateType): string {
 
 /**
  * 解析日期配置（可以是相對日期或絕對日期）
+ * @param {string} config
+ * @returns {DateRange | null}
  */
-export function parseDateConfig(config: string): DateRange | null {
+export function parseDateConfig(config) {
   // 檢查是否是相對日期
   if (isRelativeDateType(config)) {
-    return getRelativeDateRange(config as RelativeDateType);
+    return getRelativeDateRange(/** @type {RelativeDateType} */ (config));
   }
 
   // 嘗試解析為絕對日期
@@ -255,22 +268,26 @@ export function parseDateConfig(config: string): DateRange | null {
 
 /**
  * 檢查字符串是否是相對日期類型
+ * @param {string} str
+ * @returns {boolean}
  */
-function isRelativeDateType(str: string): boolean {
-  const types: RelativeDateType[] = [
+function isRelativeDateType(str) {
+  const types = [
     'last7days', 'last30days', 'thisYear', 'lastYear',
     'thisMonth', 'lastMonth', 'twoMonthsAgo', 'lastMonthLastYear'
   ];
-  return types.includes(str as RelativeDateType);
+  return types.includes(str);
 }
 
 /**
  * 獲取日期範圍的顯示標籤
+ * @param {string} config
+ * @returns {string}
  */
-export function getDateRangeLabel(config: string): string {
+export function getDateRangeLabel(config) {
   // 如果是相對日期，返回相對日期標籤
   if (isRelativeDateType(config)) {
-    return getRelativeDateLabel(config as RelativeDateType);
+    return getRelativeDateLabel(/** @type {RelativeDateType} */ (config));
   }
 
   // 如果是絕對日期，返回格式化的標籤
@@ -0,0 +1,36 @@
+export type DiffLine = { type: 'same' | 'added' | 'removed'; text: string };
+
+/**
+ * 逐行比對兩段文字的差異（LCS）
+ * 例如：diffLines('a\nb', 'a\nc') -> same a, removed b, added c
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i]![j] = a[i] === b[j]
+        ? lengths[i + 1]![j + 1]! + 1
+        : Math.max(lengths[i + 1]![j]!, lengths[i]![j + 1]!);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.push({ type: 'same', text: a[i]! });
+      i++;
+      j++;
+    } else if (lengths[i + 1]![j]! >= lengths[i]![j + 1]!) {
+      result.push({ type: 'removed', text: a[i++]! });
+    } else {
+      result.push({ type: 'added', text: b[j++]! });
+    }
+  }
+  while (i < a.length) result.push({ type: 'removed', text: a[i++]! });
+  while (j < b.length) result.push({ type: 'added', text: b[j++]! });
+  return result;
+}